@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createConsentToken } from '@/lib/consent/consentTokens';
+import { confirmEmailConsent, getEmailTokenSecret, verifyToken } from '@/lib/consent/emailConsent';
+
+/**
+ * POST /api/people/consent/confirm
+ *
+ * JSON { token } from the confirm button on /email-preferences. Grants marketing consent and
+ * returns a manage token for the preferences page, or { error, code } where code is one of
+ * the page's link errors (expired, invalid, superseded, server).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const token = body && typeof body.token === 'string' ? body.token : '';
+
+    const verified = verifyToken(token, 'confirm');
+    if (!verified.ok) {
+      return verified.error === 'expired'
+        ? NextResponse.json({ error: 'This link has expired', code: 'expired' }, { status: 400 })
+        : NextResponse.json({ error: 'Invalid link', code: 'invalid' }, { status: 400 });
+    }
+
+    const result = await confirmEmailConsent(verified.payload.p, verified.payload.iat);
+    if (!result.ok) {
+      return result.error === 'superseded'
+        ? NextResponse.json({ error: 'This link was sent before you unsubscribed', code: 'superseded' }, { status: 409 })
+        : NextResponse.json({ error: 'No subscription is waiting for confirmation', code: 'invalid' }, { status: 409 });
+    }
+
+    const manageToken = createConsentToken(result.person.id, 'manage', getEmailTokenSecret());
+    return NextResponse.json({ ok: true, token: manageToken }, { status: 200 });
+  } catch (error) {
+    console.error('Consent confirm API error:', error);
+    return NextResponse.json({ error: 'Server error', code: 'server' }, { status: 500 });
+  }
+}
+
+/**
+ * GET /api/people/consent/confirm?token=
+ *
+ * The link in the confirmation email. Opening it (or a mail scanner prefetching it) changes
+ * nothing; it lands on /email-preferences, where the subscription is confirmed by a POST.
+ */
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get('token') || '';
+  return NextResponse.redirect(
+    new URL(`/email-preferences?confirm=${encodeURIComponent(token)}`, request.url),
+    303
+  );
+}
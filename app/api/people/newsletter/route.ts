@@ -6,6 +6,7 @@ import {
   logEvent,
   emitN8nWebhook,
 } from '@/lib/peopleService';
+import { requestEmailConsent } from '@/lib/consent/emailConsent';
 
 // Validation schema
 const newsletterSchema = z.object({
@@ -45,7 +46,6 @@ export async function POST(request: NextRequest) {
       firstName: data.firstName || null,
       status: 'marketing_only',
       source: data.source,
-      emailOptIn: true,
       utmSource: data.utmSource || null,
       utmMedium: data.utmMedium || null,
       utmCampaign: data.utmCampaign || null,
@@ -70,6 +70,9 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    // Marketing email needs double opt-in; sends the confirmation email unless already confirmed
+    const consented = await requestEmailConsent(person, data.source);
+
     // Emit n8n webhook
     await emitN8nWebhook({
       kind: 'newsletter_signup',
@@ -78,6 +81,7 @@ export async function POST(request: NextRequest) {
         email: person.email,
         firstName: person.first_name,
         lastName: person.last_name,
+        emailConsentStatus: consented.email_consent_status,
       },
       source: data.source,
     });
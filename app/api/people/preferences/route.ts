@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { parsePreferencesInput } from '@/lib/consent/preferences';
+import { getEmailPreferences, updateEmailPreferences, verifyToken } from '@/lib/consent/emailConsent';
+
+const preferencesSchema = z.object({
+  token: z.string().min(1),
+  preferences: z.record(z.string(), z.unknown()),
+});
+
+/**
+ * GET /api/people/preferences?token=
+ *
+ * Masked email, consent status and per-type preferences for the manage token's person
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const verified = verifyToken(request.nextUrl.searchParams.get('token') || '', 'manage');
+    if (!verified.ok) {
+      return NextResponse.json({ error: 'Invalid or expired link' }, { status: 400 });
+    }
+
+    const view = await getEmailPreferences(verified.payload.p);
+    if (!view) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true, ...view }, { status: 200 });
+  } catch (error) {
+    console.error('Preferences API error:', error);
+    return NextResponse.json({ error: 'Server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/people/preferences
+ *
+ * Body: { token, preferences: { email_marketing?: boolean, product_updates?: boolean, program_waitlist?: boolean } }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validationResult = preferencesSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid payload', details: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const parsed = parsePreferencesInput(validationResult.data.preferences);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const verified = verifyToken(validationResult.data.token, 'manage');
+    if (!verified.ok) {
+      return NextResponse.json({ error: 'Invalid or expired link' }, { status: 400 });
+    }
+
+    const view = await updateEmailPreferences(verified.payload.p, parsed.preferences);
+    if (!view) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true, ...view }, { status: 200 });
+  } catch (error) {
+    console.error('Preferences API error:', error);
+    return NextResponse.json({ error: 'Server error' }, { status: 500 });
+  }
+}
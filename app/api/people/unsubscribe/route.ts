@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isOneClickUnsubscribeBody } from '@/lib/consent/consentTokens';
+import { isSubscriptionType } from '@/lib/consent/preferences';
+import { unsubscribeEmail, verifyToken } from '@/lib/consent/emailConsent';
+
+/**
+ * POST /api/people/unsubscribe?token=
+ *
+ * - RFC 8058 one-click: form body "List-Unsubscribe=One-Click", token in the query string
+ *   (the List-Unsubscribe URL). Unsubscribes from all marketing email.
+ * - Preferences page: JSON { token, type? }; type limits it to one SubscriptionType.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const contentType = request.headers.get('content-type') || '';
+    let token = request.nextUrl.searchParams.get('token') || '';
+    let type: unknown = null;
+
+    if (contentType.includes('application/json')) {
+      const body = await request.json().catch(() => null);
+      token = (body && typeof body.token === 'string' && body.token) || token;
+      type = body?.type ?? null;
+    } else {
+      const body = await request.text();
+      if (!isOneClickUnsubscribeBody(body)) {
+        return NextResponse.json({ error: 'Expected List-Unsubscribe=One-Click' }, { status: 400 });
+      }
+    }
+
+    if (type !== null && !isSubscriptionType(type)) {
+      return NextResponse.json({ error: 'Invalid subscription type' }, { status: 400 });
+    }
+
+    const verified = verifyToken(token, 'manage');
+    if (!verified.ok) {
+      return NextResponse.json({ error: 'Invalid or expired link' }, { status: 400 });
+    }
+
+    const subscriptionType = isSubscriptionType(type) ? type : null;
+    const person = await unsubscribeEmail(verified.payload.p, {
+      subscriptionType,
+      source: subscriptionType ? 'email_preferences' : 'unsubscribe_link',
+    });
+    if (!person) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ ok: true }, { status: 200 });
+  } catch (error) {
+    console.error('Unsubscribe API error:', error);
+    return NextResponse.json({ error: 'Server error' }, { status: 500 });
+  }
+}
+
+/**
+ * GET /api/people/unsubscribe?token=
+ *
+ * A plain click on the List-Unsubscribe link (or a mail scanner prefetching it) changes
+ * nothing; it opens the preferences page where the unsubscribe is confirmed.
+ */
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get('token') || '';
+  return NextResponse.redirect(
+    new URL(`/email-preferences?token=${encodeURIComponent(token)}&unsubscribe=1`, request.url),
+    303
+  );
+}
@@ -6,6 +6,8 @@ import {
   logEvent,
   emitN8nWebhook,
 } from '@/lib/peopleService';
+import { requestEmailConsent } from '@/lib/consent/emailConsent';
+import { enqueueWebhookEvent } from '@/lib/outbox/enqueueEvent';
 
 // Validation schema
 const waitlistSchema = z.object({
@@ -82,6 +84,9 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    // Marketing email needs double opt-in; sends the confirmation email unless already confirmed
+    const consented = await requestEmailConsent(person, data.source);
+
     // Emit n8n webhook
     await emitN8nWebhook({
       kind: 'waitlist_join',
@@ -90,12 +95,25 @@ export async function POST(request: NextRequest) {
         email: person.email,
         firstName: person.first_name,
         lastName: person.last_name,
+        emailConsentStatus: consented.email_consent_status,
       },
       goal: data.goal || null,
       programSlug: data.programSlug || 'journal',
       source: data.source,
     });
 
+    // Configured webhook destinations (one event per person and program)
+    const programSlug = data.programSlug || 'journal';
+    await enqueueWebhookEvent('waitlist_join', `${person.id}:${programSlug}`, {
+      person_id: person.id,
+      email: person.email,
+      first_name: person.first_name,
+      last_name: person.last_name,
+      goal: data.goal || null,
+      program_slug: programSlug,
+      source: data.source,
+    });
+
     return NextResponse.json({ ok: true }, { status: 200 });
   } catch (error) {
     console.error('Waitlist API error:', error);
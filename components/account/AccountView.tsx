@@ -22,6 +22,10 @@ export const AccountView = ({ user, onClose }: AccountViewProps) => {
   const [firstName, setFirstName] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [loggingOut, setLoggingOut] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+  const [privacyError, setPrivacyError] = useState<string | null>(null);
 
   // Fetch person data to get first_name
   useEffect(() => {
@@ -53,6 +57,57 @@ export const AccountView = ({ user, onClose }: AccountViewProps) => {
     }
   };
 
+  // Download everything we hold about this account (GDPR / CCPA access request)
+  const handleExport = async () => {
+    setExporting(true);
+    setPrivacyError(null);
+    try {
+      const response = await fetch('/api/account/privacy');
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Export failed');
+      }
+      const blob = await response.blob();
+      const disposition = response.headers.get('Content-Disposition') || '';
+      const filename = /filename="([^"]+)"/.exec(disposition)?.[1] || 'fine-diet-data.json';
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Data export error:', error);
+      setPrivacyError(error instanceof Error ? error.message : 'Export failed');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  // Erase personal data and delete the account (GDPR / CCPA deletion request)
+  const handleDeleteAccount = async () => {
+    setDeleting(true);
+    setPrivacyError(null);
+    try {
+      const response = await fetch('/api/account/privacy', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ confirm: 'DELETE' }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Deletion failed');
+      }
+      await signOut();
+      onClose();
+      router.reload();
+    } catch (error) {
+      console.error('Account deletion error:', error);
+      setPrivacyError(error instanceof Error ? error.message : 'Deletion failed');
+      setDeleting(false);
+    }
+  };
+
   const handleNavigate = (href: string) => {
     onClose();
     router.push(href);
@@ -118,6 +173,54 @@ export const AccountView = ({ user, onClose }: AccountViewProps) => {
         </nav>
       </div>
 
+      {/* Your Data */}
+      <div className="space-y-3">
+        <h4 className="text-sm font-semibold text-white/80 antialiased uppercase tracking-wide">
+          Your data
+        </h4>
+
+        <button
+          onClick={handleExport}
+          disabled={exporting}
+          className="w-full text-left px-4 py-3 bg-neutral-800/50 hover:bg-neutral-800/70 rounded-xl text-white transition-colors antialiased disabled:opacity-50"
+        >
+          {exporting ? 'Preparing download...' : 'Download my data'}
+        </button>
+
+        {confirmingDelete ? (
+          <div className="px-4 py-3 bg-red-900/30 border border-red-700/50 rounded-xl space-y-3">
+            <p className="text-sm text-white/80 antialiased">
+              This deletes your account and removes your email from your assessments, waitlists and newsletter sign-ups. It cannot be undone.
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={handleDeleteAccount}
+                disabled={deleting}
+                className="px-3 py-2 bg-red-600 hover:bg-red-700 rounded-lg text-sm text-white antialiased disabled:opacity-50"
+              >
+                {deleting ? 'Deleting...' : 'Delete everything'}
+              </button>
+              <button
+                onClick={() => setConfirmingDelete(false)}
+                disabled={deleting}
+                className="px-3 py-2 bg-neutral-800/70 hover:bg-neutral-800 rounded-lg text-sm text-white antialiased"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={() => setConfirmingDelete(true)}
+            className="w-full text-left px-4 py-3 bg-neutral-800/50 hover:bg-neutral-800/70 rounded-xl text-red-300 transition-colors antialiased"
+          >
+            Delete my account and data
+          </button>
+        )}
+
+        {privacyError && <p className="text-sm text-red-300 antialiased">{privacyError}</p>}
+      </div>
+
       {/* Divider */}
       <div className="border-t border-neutral-700/50 my-6"></div>
 
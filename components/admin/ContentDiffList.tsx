@@ -0,0 +1,58 @@
+/**
+ * Content Diff List Component
+ *
+ * Renders the leaf changes from diffContent (lib/contentDiff.ts): one row per path with the
+ * old value struck through and the new value highlighted.
+ */
+
+import { formatChangeValue, type ContentChange } from '@/lib/contentDiff';
+
+interface ContentDiffListProps {
+  changes: ContentChange[];
+  /** Rows shown before "Show all" (default 50) */
+  limit?: number;
+  showAll?: boolean;
+  onShowAll?: () => void;
+}
+
+const KIND_STYLES: Record<ContentChange['kind'], string> = {
+  added: 'bg-green-100 text-green-800',
+  removed: 'bg-red-100 text-red-800',
+  changed: 'bg-blue-100 text-blue-800',
+};
+
+export function ContentDiffList({ changes, limit = 50, showAll = false, onShowAll }: ContentDiffListProps) {
+  if (changes.length === 0) {
+    return <p className="text-sm text-gray-500">No changes.</p>;
+  }
+
+  const visible = showAll ? changes : changes.slice(0, limit);
+
+  return (
+    <div className="space-y-2">
+      <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md">
+        {visible.map((change) => (
+          <li key={`${change.kind}:${change.path}`} className="px-3 py-2 text-sm">
+            <div className="flex items-center gap-2">
+              <span className={`inline-flex px-2 py-0.5 rounded text-xs font-medium ${KIND_STYLES[change.kind]}`}>
+                {change.kind}
+              </span>
+              <code className="text-gray-900 break-all">{change.path}</code>
+            </div>
+            {change.kind !== 'added' && (
+              <p className="mt-1 text-red-700 line-through break-words">{formatChangeValue(change.before)}</p>
+            )}
+            {change.kind !== 'removed' && (
+              <p className="mt-1 text-green-700 break-words">{formatChangeValue(change.after)}</p>
+            )}
+          </li>
+        ))}
+      </ul>
+      {!showAll && changes.length > limit && onShowAll && (
+        <button type="button" onClick={onShowAll} className="text-sm text-blue-600 hover:underline">
+          Show all {changes.length} changes
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+/**
+ * Email Preview Panel Component
+ *
+ * Shows a rendered results email (from /api/admin/results-packs/[packId]/email-preview):
+ * subject and preheader, the HTML in a sandboxed iframe, and the plain-text part.
+ */
+
+import { useState } from 'react';
+import type { ResultsEmailPreview } from '@/lib/email/resultsEmail';
+
+interface EmailPreviewPanelProps {
+  data: ResultsEmailPreview;
+}
+
+export function EmailPreviewPanel({ data }: EmailPreviewPanelProps) {
+  const [view, setView] = useState<'html' | 'text'>('html');
+  const preview = data.preview;
+
+  return (
+    <div className="space-y-4">
+      {!preview.channelEnabled && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+          <p className="text-sm text-yellow-800">
+            The email channel is disabled for this pack (channels.email.enabled = false); this email is not sent.
+          </p>
+        </div>
+      )}
+
+      {data.errors.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <ul className="list-disc list-inside text-sm text-red-700">
+            {data.errors.map((err, idx) => (
+              <li key={idx}>{err}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <dl className="grid grid-cols-1 gap-2 text-sm">
+        <div>
+          <dt className="text-gray-500">Subject</dt>
+          <dd className="text-gray-900 font-medium">{preview.subject || '(empty)'}</dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">Preheader</dt>
+          <dd className="text-gray-900">{preview.preheader || '(none)'}</dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">Template</dt>
+          <dd className="text-gray-900">{preview.templateSource === 'pack' ? 'Pack template' : 'Default template'}</dd>
+        </div>
+      </dl>
+
+      <div className="flex gap-2">
+        {(['html', 'text'] as const).map((option) => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => setView(option)}
+            className={`px-3 py-1 text-sm rounded-md border ${
+              view === option
+                ? 'bg-blue-600 text-white border-blue-600'
+                : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            {option === 'html' ? 'HTML' : 'Plain text'}
+          </button>
+        ))}
+      </div>
+
+      {view === 'html' ? (
+        <iframe
+          title="Email HTML preview"
+          srcDoc={preview.html}
+          sandbox=""
+          className="w-full h-[600px] border border-gray-200 rounded-lg bg-white"
+        />
+      ) : (
+        <pre className="whitespace-pre-wrap text-sm text-gray-900 bg-gray-50 border border-gray-200 rounded-lg p-4">
+          {preview.text}
+        </pre>
+      )}
+
+      {Object.keys(data.variables).length > 0 && (
+        <details className="text-sm">
+          <summary className="cursor-pointer text-gray-700">Template variables</summary>
+          <ul className="mt-2 space-y-1">
+            {Object.keys(data.variables).map((name) => (
+              <li key={name}>
+                <code className="text-gray-900">{`{{${name}}}`}</code>
+                <span className="text-gray-500"> - {data.variables[name]}</span>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+}
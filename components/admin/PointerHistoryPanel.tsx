@@ -0,0 +1,168 @@
+/**
+ * Pointer History Panel Component
+ *
+ * Published history of a question set or results pack (publishes, rollbacks, archives with
+ * who, when and why) and the one-click "roll back to previous published" for admins.
+ * The page owns loading (GET /api/admin/pointer-history?entityType=…&entityId=…) and passes
+ * the history in; a rollback calls onChanged so the page reloads.
+ */
+
+import { useState } from 'react';
+import type { AuthenticatedUser } from '@/lib/authServer';
+import {
+  MAX_POINTER_REASON_LENGTH,
+  type PointerEntityType,
+  type PointerHistoryEntry,
+} from '@/lib/pointerHistory/rollbackTarget';
+
+interface PointerHistoryPanelProps {
+  user: AuthenticatedUser;
+  entityType: PointerEntityType;
+  entityId: string;
+  revisions: Array<{ id: string; revisionNumber: number }>;
+  /** Newest first */
+  history: PointerHistoryEntry[];
+  rollbackTargetId: string | null;
+  onChanged: (message: string) => void | Promise<void>;
+}
+
+const HISTORY_SHOWN = 10;
+
+const ACTION_STYLES: Record<string, { label: string; className: string }> = {
+  publish: { label: 'Published', className: 'bg-green-100 text-green-800' },
+  rollback: { label: 'Rolled back', className: 'bg-yellow-100 text-yellow-800' },
+  archive: { label: 'Archived', className: 'bg-gray-100 text-gray-600' },
+};
+
+const formatTimestamp = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+export function PointerHistoryPanel({
+  user,
+  entityType,
+  entityId,
+  revisions,
+  history,
+  rollbackTargetId,
+  onChanged,
+}: PointerHistoryPanelProps) {
+  const [reason, setReason] = useState('');
+  const [showAll, setShowAll] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [validationErrors, setValidationErrors] = useState<string[]>([]);
+
+  const revisionNumbers: Record<string, number> = {};
+  revisions.forEach((revision) => {
+    revisionNumbers[revision.id] = revision.revisionNumber;
+  });
+  const revisionLabel = (revisionId: string | null) =>
+    revisionId ? `#${revisionNumbers[revisionId] ?? revisionId.slice(0, 8)}` : 'nothing';
+
+  const handleRollback = async () => {
+    if (!rollbackTargetId) return;
+    if (!confirm(`Roll back to revision ${revisionLabel(rollbackTargetId)}? It goes live immediately.`)) return;
+
+    try {
+      setBusy(true);
+      setError(null);
+      setValidationErrors([]);
+      const response = await fetch('/api/admin/pointer-history/rollback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ entity_type: entityType, entity_id: entityId, reason }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setValidationErrors(data.details?.errors || []);
+        throw new Error(data.error || 'Failed to roll back');
+      }
+      setReason('');
+      await onChanged(`Rolled back to revision ${revisionLabel(data.toRevisionId)}`);
+    } catch (err) {
+      console.error('Error rolling back:', err);
+      setError(err instanceof Error ? err.message : 'Failed to roll back');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const shown = showAll ? history : history.slice(0, HISTORY_SHOWN);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-8">
+      <h2 className="text-xl font-semibold text-gray-900 mb-1">Published History</h2>
+      <p className="text-sm text-gray-600 mb-4">Every change of the published revision, newest first.</p>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4">
+          <p className="text-sm text-red-800">{error}</p>
+          {validationErrors.length > 0 && (
+            <ul className="list-disc list-inside text-sm text-red-700 mt-2">
+              {validationErrors.map((validationError) => (
+                <li key={validationError}>{validationError}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {user.role === 'admin' && rollbackTargetId && (
+        <div className="flex items-center gap-3 mb-4">
+          <input
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            maxLength={MAX_POINTER_REASON_LENGTH}
+            placeholder="Reason (optional)"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+          <button
+            type="button"
+            onClick={handleRollback}
+            disabled={busy}
+            className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 transition-colors font-medium text-sm disabled:opacity-50"
+          >
+            {busy ? 'Rolling back...' : `Roll Back to ${revisionLabel(rollbackTargetId)}`}
+          </button>
+        </div>
+      )}
+
+      {history.length === 0 ? (
+        <p className="text-sm text-gray-500">No pointer changes recorded yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {shown.map((entry) => {
+            const style = ACTION_STYLES[entry.action];
+            return (
+              <li key={entry.id} className="py-2 text-sm">
+                <div className="flex items-center gap-2">
+                  <span className={`px-2 py-0.5 text-xs font-medium rounded ${style.className}`}>{style.label}</span>
+                  <span className="text-gray-900">
+                    {revisionLabel(entry.from_revision_id)} → {revisionLabel(entry.to_revision_id)}
+                  </span>
+                  <span className="text-gray-500">
+                    by {entry.actor_email || 'unknown'} · {formatTimestamp(entry.created_at)}
+                  </span>
+                </div>
+                {entry.reason && <p className="text-gray-600 mt-1">{entry.reason}</p>}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {!showAll && history.length > HISTORY_SHOWN && (
+        <button type="button" onClick={() => setShowAll(true)} className="mt-2 text-sm text-blue-600 hover:underline">
+          Show all {history.length} changes
+        </button>
+      )}
+    </div>
+  );
+}
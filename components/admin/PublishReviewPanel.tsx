@@ -0,0 +1,335 @@
+/**
+ * Publish Review Panel Component
+ *
+ * Two-person review on the question set and results pack detail pages: submit a revision for
+ * review, then approve, request changes, comment or withdraw. Open reviews show their
+ * approvals and timeline; the last few closed reviews are listed below them.
+ * The page owns loading (GET /api/admin/publish-reviews?entityType=…&entityId=…) and passes
+ * the reviews in; every action calls onChanged so the page reloads.
+ */
+
+import { useState } from 'react';
+import type { AuthenticatedUser } from '@/lib/authServer';
+import type { PublishReviewDetail } from '@/lib/publishReview/reviews';
+import { MAX_REQUIRED_APPROVALS, isOpenReview, type ReviewAction, type ReviewEntityType } from '@/lib/publishReview/reviewRules';
+
+interface PublishReviewPanelProps {
+  user: AuthenticatedUser;
+  entityType: ReviewEntityType;
+  entityId: string;
+  revisions: Array<{ id: string; revisionNumber: number }>;
+  publishedRevisionId: string | null;
+  reviews: PublishReviewDetail[];
+  minimumApprovals: number;
+  onChanged: (message: string) => void | Promise<void>;
+}
+
+const CLOSED_REVIEWS_SHOWN = 5;
+
+const STATUS_STYLES: Record<string, string> = {
+  in_review: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  published: 'bg-blue-100 text-blue-800',
+  changes_requested: 'bg-red-100 text-red-800',
+  withdrawn: 'bg-gray-100 text-gray-600',
+};
+
+const EVENT_LABELS: Record<string, string> = {
+  submitted: 'requested review',
+  comment: 'commented',
+  approved: 'approved',
+  changes_requested: 'requested changes',
+  withdrawn: 'withdrew the request',
+  published: 'published',
+};
+
+const formatTimestamp = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+export function PublishReviewPanel({
+  user,
+  entityType,
+  entityId,
+  revisions,
+  publishedRevisionId,
+  reviews,
+  minimumApprovals,
+  onChanged,
+}: PublishReviewPanelProps) {
+  const [submitRevisionId, setSubmitRevisionId] = useState('');
+  const [requiredApprovals, setRequiredApprovals] = useState(minimumApprovals);
+  const [submitComment, setSubmitComment] = useState('');
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const revisionNumbers: Record<string, number> = {};
+  revisions.forEach((revision) => {
+    revisionNumbers[revision.id] = revision.revisionNumber;
+  });
+
+  const openReviews = reviews.filter((review) => isOpenReview(review));
+  const closedReviews = reviews.filter((review) => !isOpenReview(review)).slice(0, CLOSED_REVIEWS_SHOWN);
+  const approvalsNeeded = Math.max(requiredApprovals, minimumApprovals);
+  const reviewedRevisionIds = openReviews.map((review) => review.revision_id);
+  const submittable = revisions.filter(
+    (revision) => revision.id !== publishedRevisionId && reviewedRevisionIds.indexOf(revision.id) === -1
+  );
+
+  const post = async (url: string, body: unknown) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Request failed');
+    }
+    return data;
+  };
+
+  const handleSubmit = async () => {
+    if (!submitRevisionId) return;
+    try {
+      setBusy(true);
+      setError(null);
+      await post('/api/admin/publish-reviews', {
+        entity_type: entityType,
+        entity_id: entityId,
+        revision_id: submitRevisionId,
+        required_approvals: approvalsNeeded,
+        comment: submitComment,
+      });
+      setSubmitRevisionId('');
+      setSubmitComment('');
+      await onChanged(`Revision #${revisionNumbers[submitRevisionId]} submitted for review`);
+    } catch (err) {
+      console.error('Error submitting for review:', err);
+      setError(err instanceof Error ? err.message : 'Failed to submit for review');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAction = async (review: PublishReviewDetail, action: ReviewAction) => {
+    const comment = (comments[review.id] || '').trim();
+    if ((action === 'request_changes' || action === 'comment') && !comment) {
+      setError(action === 'comment' ? 'Write a comment first.' : 'Say what needs to change in the comment box.');
+      return;
+    }
+    if (action === 'withdraw' && !confirm('Withdraw this review request?')) return;
+
+    try {
+      setBusy(true);
+      setError(null);
+      const data = await post(`/api/admin/publish-reviews/${review.id}`, { action, comment });
+      setComments({ ...comments, [review.id]: '' });
+      const revisionLabel = `Revision #${revisionNumbers[review.revision_id] ?? '?'}`;
+      const messages: Record<ReviewAction, string> = {
+        approve:
+          data.review?.status === 'approved'
+            ? `${revisionLabel} is approved and can be published`
+            : `Approval recorded for ${revisionLabel}`,
+        request_changes: `Changes requested on ${revisionLabel}`,
+        comment: 'Comment added',
+        withdraw: 'Review withdrawn',
+      };
+      await onChanged(messages[action]);
+    } catch (err) {
+      console.error('Error updating review:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update review');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const approvalOptions: number[] = [];
+  for (let count = minimumApprovals; count <= MAX_REQUIRED_APPROVALS; count++) {
+    approvalOptions.push(count);
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-8">
+      <h2 className="text-xl font-semibold text-gray-900 mb-1">Publish Review</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        A revision is published only after another user approves it. The requester and the revision author cannot
+        approve their own work.
+      </p>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {/* Open reviews */}
+      {openReviews.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-4">No revisions are waiting for review.</p>
+      ) : (
+        <div className="space-y-4 mb-6">
+          {openReviews.map((review) => {
+            const isOwnRequest = review.requested_by === user.id || review.revision_created_by === user.id;
+            const hasApproved = review.events.some((event) => event.kind === 'approved' && event.actor_id === user.id);
+
+            return (
+              <div key={review.id} className="border border-gray-200 rounded-md p-4">
+                <div className="flex items-center justify-between mb-2">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-gray-900">
+                      Revision #{revisionNumbers[review.revision_id] ?? '?'}
+                    </span>
+                    <span className={`px-2 py-0.5 text-xs font-medium rounded ${STATUS_STYLES[review.status]}`}>
+                      {review.status === 'approved' ? 'Approved' : 'In review'}
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      {review.approvals}/{review.required_approvals} approvals
+                    </span>
+                  </div>
+                  <span className="text-xs text-gray-500">
+                    Requested by {review.requested_by_email || 'unknown'}
+                  </span>
+                </div>
+
+                <ul className="space-y-1 mb-3">
+                  {review.events.map((event) => (
+                    <li key={event.id} className="text-sm text-gray-700">
+                      <span className="text-gray-500">{formatTimestamp(event.created_at)}</span>{' '}
+                      <span className="font-medium">{event.actor_email || 'unknown'}</span> {EVENT_LABELS[event.kind]}
+                      {event.body && <span className="block ml-4 text-gray-800 whitespace-pre-wrap">{event.body}</span>}
+                    </li>
+                  ))}
+                </ul>
+
+                <textarea
+                  value={comments[review.id] || ''}
+                  onChange={(e) => setComments({ ...comments, [review.id]: e.target.value })}
+                  rows={2}
+                  placeholder="Comment (required to request changes)"
+                  className="block w-full px-3 py-2 border border-gray-300 rounded-md text-sm mb-2"
+                />
+                <div className="flex flex-wrap items-center gap-3 text-sm font-medium">
+                  {!isOwnRequest && review.status === 'in_review' && !hasApproved && (
+                    <button
+                      onClick={() => handleAction(review, 'approve')}
+                      disabled={busy}
+                      className="px-3 py-1 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:bg-gray-400"
+                    >
+                      Approve
+                    </button>
+                  )}
+                  {!isOwnRequest && (
+                    <button
+                      onClick={() => handleAction(review, 'request_changes')}
+                      disabled={busy}
+                      className="px-3 py-1 bg-white border border-red-300 text-red-700 rounded-md hover:bg-red-50 disabled:opacity-50"
+                    >
+                      Request Changes
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleAction(review, 'comment')}
+                    disabled={busy}
+                    className="px-3 py-1 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Comment
+                  </button>
+                  {(review.requested_by === user.id || user.role === 'admin') && (
+                    <button
+                      onClick={() => handleAction(review, 'withdraw')}
+                      disabled={busy}
+                      className="text-gray-600 hover:text-gray-900 disabled:text-gray-400"
+                    >
+                      Withdraw
+                    </button>
+                  )}
+                  {isOwnRequest && review.status === 'in_review' && (
+                    <span className="text-xs text-gray-500">Waiting for another reviewer</span>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Submit for review */}
+      {submittable.length > 0 && (
+        <div className="border-t border-gray-200 pt-4">
+          <h3 className="text-sm font-semibold text-gray-800 mb-2">Submit for Review</h3>
+          <div className="flex flex-wrap items-center gap-3 mb-2">
+            <select
+              value={submitRevisionId}
+              onChange={(e) => setSubmitRevisionId(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="">Choose a revision…</option>
+              {submittable.map((revision) => (
+                <option key={revision.id} value={revision.id}>
+                  Revision #{revision.revisionNumber}
+                </option>
+              ))}
+            </select>
+            <label className="text-sm text-gray-700">
+              Approvals needed{' '}
+              <select
+                value={approvalsNeeded}
+                onChange={(e) => setRequiredApprovals(parseInt(e.target.value, 10))}
+                className="ml-1 px-2 py-2 border border-gray-300 rounded-md text-sm"
+              >
+                {approvalOptions.map((count) => (
+                  <option key={count} value={count}>
+                    {count}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <textarea
+            value={submitComment}
+            onChange={(e) => setSubmitComment(e.target.value)}
+            rows={2}
+            placeholder="What changed and what should reviewers check? (optional)"
+            className="block w-full px-3 py-2 border border-gray-300 rounded-md text-sm mb-2"
+          />
+          <button
+            onClick={handleSubmit}
+            disabled={busy || !submitRevisionId}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors font-medium text-sm"
+          >
+            Submit for Review
+          </button>
+        </div>
+      )}
+
+      {/* Recent closed reviews */}
+      {closedReviews.length > 0 && (
+        <div className="border-t border-gray-200 pt-4 mt-4">
+          <h3 className="text-sm font-semibold text-gray-800 mb-2">Recent Reviews</h3>
+          <ul className="space-y-1">
+            {closedReviews.map((review) => {
+              const lastComment = review.events
+                .filter((event) => !!event.body)
+                .slice(-1)[0];
+              return (
+                <li key={review.id} className="text-sm text-gray-700">
+                  Revision #{revisionNumbers[review.revision_id] ?? '?'}{' '}
+                  <span className={`px-2 py-0.5 text-xs font-medium rounded ${STATUS_STYLES[review.status]}`}>
+                    {review.status.replace('_', ' ')}
+                  </span>{' '}
+                  <span className="text-gray-500">{formatTimestamp(review.updated_at)}</span>
+                  {lastComment && <span className="block ml-4 text-gray-600">“{lastComment.body}”</span>}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+/**
+ * Revision Diff Panel Component
+ *
+ * Review panel for a question set or results pack revision: scoring warnings first, then the
+ * changes against the published revision grouped by question or flow page. Publish actions
+ * are passed as children and render under the diff.
+ */
+
+import { useState, type ReactNode } from 'react';
+import type { ContentDiffGroup } from '@/lib/contentDiff';
+import { ContentDiffList } from '@/components/admin/ContentDiffList';
+
+interface RevisionDiffPanelProps {
+  revisionNumber: number;
+  /** Revision compared against; null when nothing is published yet */
+  compareToNumber: number | null;
+  groups: ContentDiffGroup[];
+  scoringWarnings?: string[];
+  onClose: () => void;
+  children?: ReactNode;
+}
+
+export function RevisionDiffPanel({
+  revisionNumber,
+  compareToNumber,
+  groups,
+  scoringWarnings = [],
+  onClose,
+  children,
+}: RevisionDiffPanelProps) {
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+  const changeCount = groups.reduce((total, group) => total + group.changes.length, 0);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Review Revision #{revisionNumber}</h2>
+          <p className="text-sm text-gray-600">
+            {compareToNumber === null
+              ? 'Nothing is published yet, so there is nothing to compare against.'
+              : `${changeCount} ${changeCount === 1 ? 'change' : 'changes'} compared with published revision #${compareToNumber}.`}
+          </p>
+        </div>
+        <button type="button" onClick={onClose} className="text-sm text-gray-600 hover:text-gray-900">
+          Close
+        </button>
+      </div>
+
+      {scoringWarnings.length > 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-4">
+          <p className="text-sm font-semibold text-yellow-900 mb-2">This revision changes scoring</p>
+          <ul className="list-disc list-inside space-y-1 text-sm text-yellow-800">
+            {scoringWarnings.map((warning) => (
+              <li key={warning}>{warning}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {compareToNumber !== null && groups.length === 0 && (
+        <p className="text-sm text-gray-500 mb-4">Content is identical to the published revision.</p>
+      )}
+
+      <div className="space-y-4">
+        {groups.map((group) => (
+          <div key={group.title}>
+            <h3 className="text-sm font-semibold text-gray-800 mb-2">{group.title}</h3>
+            <ContentDiffList
+              changes={group.changes}
+              limit={20}
+              showAll={!!expanded[group.title]}
+              onShowAll={() => setExpanded({ ...expanded, [group.title]: true })}
+            />
+          </div>
+        ))}
+      </div>
+
+      {children && <div className="mt-6 pt-4 border-t border-gray-200 flex items-center gap-3">{children}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+/**
+ * Assessment Page Component
+ *
+ * Shared public page shell for registered assessments (/gut-check, /assessments/[assessmentType]).
+ * Registers the session for the SSR-resolved version and renders AssessmentRoot.
+ */
+
+import React, { useEffect } from 'react';
+import Head from 'next/head';
+import { AssessmentRoot } from './AssessmentRoot';
+import { getOrCreateSessionId } from '@/lib/assessmentSession';
+import { getAssessmentDefinition, getAssessmentLabel } from '@/lib/assessments/registry';
+import type { AssessmentConfig } from '@/lib/assessmentTypes';
+
+export interface AssessmentPageProps {
+  assessmentType: string;
+  initialVersion: number;
+  config: AssessmentConfig;
+}
+
+export function AssessmentPage({ assessmentType, initialVersion, config }: AssessmentPageProps) {
+  const description = getAssessmentDefinition(assessmentType)?.description ?? '';
+
+  useEffect(() => {
+    const sessionId = getOrCreateSessionId();
+
+    // Create/update session with correct version using API endpoint
+    // The API handles upserts correctly based on (session_id, assessment_type, assessment_version)
+    // Send both field names for compatibility
+    fetch('/api/assessments/session', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        assessmentType,
+        assessmentVersion: initialVersion,
+        assessment_version: initialVersion, // Also send snake_case for compatibility
+        sessionId,
+        status: 'started',
+        lastQuestionIndex: 0,
+      }),
+    }).catch((error) => {
+      console.error('Error creating/updating session:', error);
+      // Don't block UI - just log
+    });
+  }, [assessmentType, initialVersion]);
+
+  return (
+    <>
+      <Head>
+        <title>{`${getAssessmentLabel(assessmentType)} Assessment • Fine Diet`}</title>
+        <meta name="description" content={description} />
+      </Head>
+      <AssessmentRoot assessmentType={assessmentType} initialVersion={initialVersion} config={config} />
+    </>
+  );
+}
@@ -3,15 +3,41 @@
  * Manages assessment state and provides it to child components
  */
 
-import React, { createContext, useContext, useReducer, useEffect, useCallback, useRef, useState } from 'react';
+import React, { createContext, useContext, useReducer, useEffect, useCallback, useMemo, useRef, useState } from 'react';
 import type { AssessmentState, Answer, AssessmentConfig } from '@/lib/assessmentTypes';
 import { calculateScoring, type ScoringResult } from '@/lib/assessmentScoring';
 import { convertAnswersToResponsesMap } from '@/lib/assessmentScoringV2';
-import { getOrCreateSessionId, generateUUID } from '@/lib/assessmentSession';
+import { getOrCreateSessionId, generateUUID, setSessionId } from '@/lib/assessmentSession';
+import { getAssessmentPublicPath } from '@/lib/assessments/registry';
+import {
+  areAllVisibleQuestionsAnswered,
+  getNextVisibleQuestionIndex,
+  getPreviousVisibleQuestionIndex,
+  getVisibleQuestionIndexes,
+  pruneHiddenAnswers,
+} from '@/lib/assessments/questions/visibility';
+import {
+  canLeaveQuestion,
+  DEFAULT_TEXT_MAX_LENGTH,
+  getQuestionType,
+  getSelectedOptionIds,
+  snapSliderValue,
+  toggleOptionSelection,
+} from '@/lib/assessments/questions/questionTypes';
+import {
+  getQuestionSetFingerprint,
+  planResume,
+  type ResumePlan,
+  type StoredCheckpoint,
+} from '@/lib/assessments/sessionCheckpoint';
 import {
   trackAssessmentStarted,
+  trackQuestionAnswered,
   trackAssessmentCompleted,
   trackAssessmentAbandoned,
+  setAssessmentEventContext,
+  getDeviceType,
+  getUtmParams,
 } from '@/lib/assessmentAnalytics';
 
 // ============================================================================
@@ -21,11 +47,20 @@ import {
 interface AssessmentContextValue {
   state: AssessmentState;
   config: AssessmentConfig;
+  // Indexes into config.questions shown for the current answers (branching via visibleIf)
+  visibleQuestionIndexes: number[];
+  // Single choice: select; multi-select: toggle
   selectOption: (optionId: string) => void;
+  setSliderValue: (value: number) => void;
+  setTextAnswer: (text: string) => void;
   goToNextQuestion: () => void;
   goToPreviousQuestion: () => void;
   submitAssessment: () => Promise<void>;
   abandonAssessment: () => void;
+  // Checkpoint found on mount (another tab/device or before a reload); status stays 'idle' until answered
+  resumeOffer: ResumePlan | null;
+  resumeAssessment: () => void;
+  startOver: () => void;
   // Canonical submission payload (same object used by submitAssessment)
   submissionPayload: {
     primaryAvatar: string;
@@ -49,12 +84,14 @@ export function useAssessment() {
 
 type AssessmentAction =
   | { type: 'INIT'; payload: { config: AssessmentConfig; sessionId: string } }
-  | { type: 'SELECT_OPTION'; payload: { optionId: string; questionId: string } }
-  | { type: 'NEXT_QUESTION'; payload: { totalQuestions: number } }
-  | { type: 'PREVIOUS_QUESTION' }
+  | { type: 'SET_ANSWER'; payload: { answer: Answer } }
+  | { type: 'CLEAR_ANSWER'; payload: { questionId: string } }
+  | { type: 'NEXT_QUESTION'; payload: { nextIndex: number | null } }
+  | { type: 'PREVIOUS_QUESTION'; payload: { prevIndex: number | null } }
   | { type: 'CALCULATE_SCORES'; payload: { config: AssessmentConfig; scoringResult: ScoringResult } }
   | { type: 'SET_STATUS'; payload: { status: AssessmentState['status'] } }
-  | { type: 'SET_ANSWERS'; payload: { answers: Answer[] } };
+  | { type: 'SET_ANSWERS'; payload: { answers: Answer[] } }
+  | { type: 'RESTORE'; payload: { sessionId: string; answers: Answer[]; currentQuestionIndex: number } };
 
 function assessmentReducer(
   state: AssessmentState,
@@ -77,17 +114,13 @@ function assessmentReducer(
       };
     }
 
-    case 'SELECT_OPTION': {
+    case 'SET_ANSWER': {
       const newAnswers = [...state.answers];
+      const newAnswer = action.payload.answer;
       const existingAnswerIndex = newAnswers.findIndex(
-        (a) => a.questionId === action.payload.questionId
+        (a) => a.questionId === newAnswer.questionId
       );
 
-      const newAnswer: Answer = {
-        questionId: action.payload.questionId,
-        optionId: action.payload.optionId,
-      };
-
       if (existingAnswerIndex >= 0) {
         newAnswers[existingAnswerIndex] = newAnswer;
       } else {
@@ -100,11 +133,18 @@ function assessmentReducer(
       };
     }
 
+    case 'CLEAR_ANSWER': {
+      return {
+        ...state,
+        answers: state.answers.filter((a) => a.questionId !== action.payload.questionId),
+      };
+    }
+
     case 'NEXT_QUESTION': {
-      const nextIndex = state.currentQuestionIndex + 1;
-      const isLastQuestion = nextIndex >= action.payload.totalQuestions;
+      // nextIndex is the next visible question (null = no visible questions left)
+      const nextIndex = action.payload.nextIndex;
 
-      if (isLastQuestion) {
+      if (nextIndex === null) {
         // Calculate scores when reaching the end
         return {
           ...state,
@@ -119,7 +159,7 @@ function assessmentReducer(
     }
 
     case 'PREVIOUS_QUESTION': {
-      const prevIndex = Math.max(0, state.currentQuestionIndex - 1);
+      const prevIndex = action.payload.prevIndex ?? state.currentQuestionIndex;
       return {
         ...state,
         currentQuestionIndex: prevIndex,
@@ -132,7 +172,7 @@ function assessmentReducer(
 
       // DEBUG: Log scoring computation at exact moment primaryAvatar is determined
       console.log('[Gut Check Scoring DEBUG]', {
-        answers: state.answers.map((a) => ({ questionId: a.questionId, optionId: a.optionId })),
+        answers: state.answers,
         rawScores: scoringResult.scoreMap,
         normalizedScores: scoringResult.normalizedScoreMap,
         primaryAvatar: scoringResult.primaryAvatar,
@@ -164,6 +204,16 @@ function assessmentReducer(
       };
     }
 
+    case 'RESTORE': {
+      return {
+        ...state,
+        sessionId: action.payload.sessionId,
+        answers: action.payload.answers,
+        currentQuestionIndex: action.payload.currentQuestionIndex,
+        status: 'in_progress',
+      };
+    }
+
     default:
       return state;
   }
@@ -183,6 +233,8 @@ export function AssessmentProvider({ config, children }: AssessmentProviderProps
   const submissionIdRef = useRef<string | null>(null);
   const isSubmittingRef = useRef<boolean>(false);
   const hasAttemptedSubmissionRef = useRef<boolean>(false);
+  const isMountedRef = useRef(true);
+  const utmRef = useRef<Record<string, string>>({}); // utm_* params of the landing URL
   const eventQueueRef = useRef<Array<{ event: string; metadata?: Record<string, unknown> }>>([]);
   // Store submission payload in ref to keep submitAssessment stable
   const submissionPayloadRef = useRef<{
@@ -195,8 +247,12 @@ export function AssessmentProvider({ config, children }: AssessmentProviderProps
     primaryAvatar: string;
     secondaryAvatar?: string;
     confidenceScore: number;
+    locale?: string;
   } | null>(null);
 
+  const [resumeOffer, setResumeOffer] = useState<ResumePlan | null>(null);
+  const questionSetFingerprint = useMemo(() => getQuestionSetFingerprint(config.questions), [config.questions]);
+
   const [state, dispatch] = useReducer(assessmentReducer, {
     assessmentType: config.assessmentType,
     assessmentVersion: config.assessmentVersion,
@@ -220,32 +276,68 @@ export function AssessmentProvider({ config, children }: AssessmentProviderProps
     setSubmissionPayloadState(null); // Reset state as well
     
     dispatch({ type: 'INIT', payload: { config, sessionId } });
-    dispatch({ type: 'SET_STATUS', payload: { status: 'in_progress' } });
-    
-    // Track session started
-    trackAssessmentStarted(config.assessmentType, config.assessmentVersion, sessionId);
-    
-    // Update session in database (non-blocking)
-    fetch('/api/assessments/session', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        assessmentType: config.assessmentType,
-        assessmentVersion: config.assessmentVersion,
-        sessionId,
-        status: 'started',
-        lastQuestionIndex: 0,
-      }),
-    }).catch((error) => {
-      console.error('Error updating session:', error);
+
+    // Analytics context for every event of this assessment (funnel dashboard filters)
+    const utm = getUtmParams(window.location.search);
+    utmRef.current = utm;
+    setAssessmentEventContext({
+      utmSource: utm.utm_source ?? null,
+      device: getDeviceType(navigator.userAgent),
+      questionSetRevisionId: config.questionSetRevisionId ?? null,
     });
+
+    const startFresh = () => {
+      dispatch({ type: 'SET_STATUS', payload: { status: 'in_progress' } });
+
+      // Track session started
+      trackAssessmentStarted(config.assessmentType, config.assessmentVersion, sessionId);
+
+      // Update session in database (non-blocking)
+      fetch('/api/assessments/session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          assessmentType: config.assessmentType,
+          assessmentVersion: config.assessmentVersion,
+          sessionId,
+          status: 'started',
+          lastQuestionIndex: 0,
+        }),
+      }).catch((error) => {
+        console.error('Error updating session:', error);
+      });
+    };
+
+    // Look for a resumable checkpoint (this session, or the user's other devices)
+    // Status stays 'idle' until we know whether to offer "continue where you left off"
+    const params = new URLSearchParams({
+      assessmentType: config.assessmentType,
+      assessmentVersion: String(config.assessmentVersion),
+      sessionId,
+    });
+    fetch(`/api/assessments/session?${params.toString()}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data: { checkpoint?: StoredCheckpoint | null } | null) => {
+        if (!isMountedRef.current) return;
+        const plan = data?.checkpoint ? planResume(data.checkpoint, config.questions) : null;
+        if (plan) {
+          setResumeOffer(plan);
+        } else {
+          startFresh();
+        }
+      })
+      .catch((error) => {
+        console.error('Error loading session checkpoint:', error);
+        if (isMountedRef.current) {
+          startFresh();
+        }
+      });
     // Only run on mount - empty dependency array ensures clean reset per assessment instance
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
   // Race condition guard: monotonically increasing request ID
   const scoringRequestIdRef = useRef(0);
-  const isMountedRef = useRef(true);
 
   // Set mounted flag on mount/unmount
   useEffect(() => {
@@ -257,7 +349,11 @@ export function AssessmentProvider({ config, children }: AssessmentProviderProps
 
   // Calculate scores when answers change and we're on the last question
   useEffect(() => {
-    if (state.status === 'completed' && state.answers.length === config.questions.length && !state.primaryAvatar) {
+    if (
+      state.status === 'completed' &&
+      areAllVisibleQuestionsAnswered(config.questions, state.answers) &&
+      !state.primaryAvatar
+    ) {
       // Increment request ID for this scoring request
       const currentRequestId = ++scoringRequestIdRef.current;
 
@@ -299,7 +395,7 @@ export function AssessmentProvider({ config, children }: AssessmentProviderProps
           }
         });
     }
-  }, [state.status, state.answers.length, config.questions.length, config, sessionId, state.primaryAvatar]);
+  }, [state.status, state.answers, config, sessionId, state.primaryAvatar]);
 
   // Track submission payload in state for reactive context updates
   const [submissionPayloadState, setSubmissionPayloadState] = useState<{
@@ -314,7 +410,7 @@ export function AssessmentProvider({ config, children }: AssessmentProviderProps
     if (
       state.status === 'completed' &&
       state.primaryAvatar &&
-      state.answers.length === config.questions.length &&
+      areAllVisibleQuestionsAnswered(config.questions, state.answers) &&
       Object.keys(state.scoreMap).length > 0
     ) {
       // For v2, convert answers to responses format {q1: 0, q2: 1, ...}
@@ -333,6 +429,7 @@ export function AssessmentProvider({ config, children }: AssessmentProviderProps
         primaryAvatar: state.primaryAvatar,
         secondaryAvatar: state.secondaryAvatar,
         confidenceScore: state.confidenceScore,
+        locale: config.locale, // Pinned so results, PDF and emails render in this locale
       };
       submissionPayloadRef.current = payload;
       
@@ -356,7 +453,7 @@ export function AssessmentProvider({ config, children }: AssessmentProviderProps
   }, [
     state.status,
     state.primaryAvatar,
-    state.answers.length,
+    state.answers,
     state.assessmentType,
     state.assessmentVersion,
     state.sessionId,
@@ -364,25 +461,67 @@ export function AssessmentProvider({ config, children }: AssessmentProviderProps
     state.normalizedScoreMap,
     state.secondaryAvatar,
     state.confidenceScore,
-    config.questions.length,
+    config,
   ]);
 
   const selectOption = useCallback((optionId: string) => {
     const currentQuestion = config.questions[state.currentQuestionIndex];
     if (!currentQuestion) return;
-    dispatch({ type: 'SELECT_OPTION', payload: { optionId, questionId: currentQuestion.id } });
+
+    if (getQuestionType(currentQuestion) !== 'multi') {
+      dispatch({ type: 'SET_ANSWER', payload: { answer: { questionId: currentQuestion.id, optionId } } });
+      return;
+    }
+
+    const currentAnswer = state.answers.find((a) => a.questionId === currentQuestion.id);
+    const optionIds = toggleOptionSelection(currentQuestion, getSelectedOptionIds(currentAnswer), optionId);
+    dispatch({ type: 'SET_ANSWER', payload: { answer: { questionId: currentQuestion.id, optionIds } } });
+  }, [config.questions, state.currentQuestionIndex, state.answers]);
+
+  const setSliderValue = useCallback((value: number) => {
+    const currentQuestion = config.questions[state.currentQuestionIndex];
+    if (!currentQuestion?.slider) return;
+    dispatch({
+      type: 'SET_ANSWER',
+      payload: { answer: { questionId: currentQuestion.id, value: snapSliderValue(currentQuestion.slider, value) } },
+    });
+  }, [config.questions, state.currentQuestionIndex]);
+
+  const setTextAnswer = useCallback((text: string) => {
+    const currentQuestion = config.questions[state.currentQuestionIndex];
+    if (!currentQuestion) return;
+
+    // Blank text clears the answer (free text is optional by default)
+    if (!text.trim()) {
+      dispatch({ type: 'CLEAR_ANSWER', payload: { questionId: currentQuestion.id } });
+      return;
+    }
+    const maxLength = currentQuestion.maxLength ?? DEFAULT_TEXT_MAX_LENGTH;
+    dispatch({
+      type: 'SET_ANSWER',
+      payload: { answer: { questionId: currentQuestion.id, text: text.slice(0, maxLength) } },
+    });
   }, [config.questions, state.currentQuestionIndex]);
 
   const goToNextQuestion = useCallback(() => {
     const currentQuestion = config.questions[state.currentQuestionIndex];
-    const hasAnswer = state.answers.some((a) => a.questionId === currentQuestion.id);
+    const currentAnswer = state.answers.find((a) => a.questionId === currentQuestion.id);
 
-    if (!hasAnswer) {
-      // Cannot proceed without an answer
+    if (!canLeaveQuestion(currentQuestion, currentAnswer)) {
+      // Cannot proceed without a complete answer (optional free text may be blank)
       return;
     }
 
-    const nextIndex = state.currentQuestionIndex + 1;
+    trackQuestionAnswered(
+      config.assessmentType,
+      config.assessmentVersion,
+      sessionId,
+      currentQuestion.id,
+      state.currentQuestionIndex
+    );
+
+    // Skip questions hidden by visibleIf rules
+    const nextIndex = getNextVisibleQuestionIndex(config.questions, state.answers, state.currentQuestionIndex);
     
     // Update session progress (non-blocking)
     fetch('/api/assessments/session', {
@@ -393,23 +532,34 @@ export function AssessmentProvider({ config, children }: AssessmentProviderProps
         assessmentVersion: config.assessmentVersion,
         sessionId,
         status: 'started',
-        lastQuestionIndex: nextIndex,
+        lastQuestionIndex: nextIndex ?? config.questions.length,
+        // Checkpoint answers so far for resuming; cleared server-side on submit
+        checkpoint: {
+          answers: state.answers,
+          currentQuestionIndex: nextIndex ?? state.currentQuestionIndex,
+          questionSetFingerprint,
+        },
       }),
     }).catch((error) => {
       console.error('Error updating session progress:', error);
     });
 
-    if (nextIndex >= config.questions.length) {
-      // Last question - mark as completed
+    if (nextIndex === null) {
+      // Last visible question - drop stale answers to questions that became hidden, then complete
+      const visibleAnswers = pruneHiddenAnswers(config.questions, state.answers);
+      if (visibleAnswers.length !== state.answers.length) {
+        dispatch({ type: 'SET_ANSWERS', payload: { answers: visibleAnswers } });
+      }
       dispatch({ type: 'SET_STATUS', payload: { status: 'completed' } });
     } else {
-      dispatch({ type: 'NEXT_QUESTION', payload: { totalQuestions: config.questions.length } });
+      dispatch({ type: 'NEXT_QUESTION', payload: { nextIndex } });
     }
-  }, [state.currentQuestionIndex, state.answers, config.questions, config.assessmentType, config.assessmentVersion, sessionId]);
+  }, [state.currentQuestionIndex, state.answers, config.questions, config.assessmentType, config.assessmentVersion, sessionId, questionSetFingerprint]);
 
   const goToPreviousQuestion = useCallback(() => {
-    dispatch({ type: 'PREVIOUS_QUESTION' });
-  }, []);
+    const prevIndex = getPreviousVisibleQuestionIndex(config.questions, state.answers, state.currentQuestionIndex);
+    dispatch({ type: 'PREVIOUS_QUESTION', payload: { prevIndex } });
+  }, [config.questions, state.answers, state.currentQuestionIndex]);
 
   const submitAssessment = useCallback(async () => {
     // Read from state for status check (needed for initial guard)
@@ -471,10 +621,12 @@ export function AssessmentProvider({ config, children }: AssessmentProviderProps
           primaryAvatar: payload.primaryAvatar,
           secondaryAvatar: payload.secondaryAvatar,
           confidenceScore: payload.confidenceScore,
+          locale: payload.locale,
           metadata: {
             page: window.location.pathname,
             referrer: document.referrer,
-            device: /Mobile|Android|iPhone|iPad/.test(navigator.userAgent) ? 'mobile' : 'desktop',
+            device: getDeviceType(navigator.userAgent),
+            ...(Object.keys(utmRef.current).length > 0 ? { utm: utmRef.current } : {}),
           },
         }),
       });
@@ -497,7 +649,7 @@ export function AssessmentProvider({ config, children }: AssessmentProviderProps
 
       // Redirect to results with submission_id in query param
       if (submissionId && typeof window !== 'undefined') {
-        window.location.href = `/gut-check?submission_id=${submissionId}`;
+        window.location.href = `${getAssessmentPublicPath(payload.assessmentType)}?submission_id=${submissionId}`;
       }
 
       // Submission successful - status remains 'completed'
@@ -517,7 +669,7 @@ export function AssessmentProvider({ config, children }: AssessmentProviderProps
     if (
       state.status === 'completed' &&
       state.primaryAvatar &&
-      state.answers.length === config.questions.length &&
+      areAllVisibleQuestionsAnswered(config.questions, state.answers) &&
       Object.keys(state.scoreMap).length > 0 &&
       submissionPayloadRef.current
     ) {
@@ -527,7 +679,7 @@ export function AssessmentProvider({ config, children }: AssessmentProviderProps
       }, 150);
       return () => clearTimeout(timeoutId);
     }
-  }, [state.status, state.primaryAvatar, state.answers.length, state.scoreMap, config.questions.length, submitAssessment]);
+  }, [state.status, state.primaryAvatar, state.answers, state.scoreMap, config.questions, submitAssessment]);
 
   const abandonAssessment = useCallback(() => {
     trackAssessmentAbandoned(
@@ -553,6 +705,72 @@ export function AssessmentProvider({ config, children }: AssessmentProviderProps
     });
   }, [config, sessionId, state.currentQuestionIndex]);
 
+  const resumeAssessment = useCallback(() => {
+    if (!resumeOffer) return;
+
+    // Continue under the checkpoint's session (may have been started on another device)
+    setSessionId(resumeOffer.sessionId);
+    dispatch({
+      type: 'RESTORE',
+      payload: {
+        sessionId: resumeOffer.sessionId,
+        answers: resumeOffer.answers,
+        currentQuestionIndex: resumeOffer.currentQuestionIndex,
+      },
+    });
+    setResumeOffer(null);
+
+    // Re-checkpoint right away if the question set changed, so dropped answers stay dropped
+    fetch('/api/assessments/session', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        assessmentType: config.assessmentType,
+        assessmentVersion: config.assessmentVersion,
+        sessionId: resumeOffer.sessionId,
+        status: 'started',
+        lastQuestionIndex: resumeOffer.currentQuestionIndex,
+        ...(resumeOffer.questionSetChanged && {
+          checkpoint: {
+            answers: resumeOffer.answers,
+            currentQuestionIndex: resumeOffer.currentQuestionIndex,
+            questionSetFingerprint,
+          },
+        }),
+      }),
+    }).catch((error) => {
+      console.error('Error updating session:', error);
+    });
+  }, [resumeOffer, config.assessmentType, config.assessmentVersion, questionSetFingerprint]);
+
+  const startOver = useCallback(() => {
+    if (!resumeOffer) return;
+
+    // Discard the checkpoint so it isn't offered again (on this or any other device)
+    const discardedSessionId = resumeOffer.sessionId;
+    setResumeOffer(null);
+    dispatch({ type: 'SET_STATUS', payload: { status: 'in_progress' } });
+    trackAssessmentStarted(config.assessmentType, config.assessmentVersion, sessionId);
+
+    const postSession = (body: Record<string, unknown>) =>
+      fetch('/api/assessments/session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          assessmentType: config.assessmentType,
+          assessmentVersion: config.assessmentVersion,
+          ...body,
+        }),
+      }).catch((error) => {
+        console.error('Error updating session:', error);
+      });
+
+    if (discardedSessionId !== sessionId) {
+      postSession({ sessionId: discardedSessionId, status: 'abandoned', checkpoint: null });
+    }
+    postSession({ sessionId, status: 'started', lastQuestionIndex: 0, checkpoint: null });
+  }, [resumeOffer, config.assessmentType, config.assessmentVersion, sessionId]);
+
   // Track abandonment on unmount
   useEffect(() => {
     return () => {
@@ -562,14 +780,25 @@ export function AssessmentProvider({ config, children }: AssessmentProviderProps
     };
   }, []);
 
+  const visibleQuestionIndexes = useMemo(
+    () => getVisibleQuestionIndexes(config.questions, state.answers),
+    [config.questions, state.answers]
+  );
+
   const value: AssessmentContextValue = {
     state,
     config,
+    visibleQuestionIndexes,
     selectOption,
+    setSliderValue,
+    setTextAnswer,
     goToNextQuestion,
     goToPreviousQuestion,
     submitAssessment,
     abandonAssessment,
+    resumeOffer,
+    resumeAssessment,
+    startOver,
     // Expose canonical submission payload for Results screen (from state for reactivity)
     submissionPayload: submissionPayloadState,
   };
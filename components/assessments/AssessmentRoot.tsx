@@ -5,6 +5,7 @@
 
 import React from 'react';
 import { GutCheckAssessment } from './GutCheckAssessment';
+import { isAssessmentTypeRegistered } from '@/lib/assessments/registry';
 import type { AssessmentType, AssessmentConfig } from '@/lib/assessmentTypes';
 
 interface AssessmentRootProps {
@@ -14,15 +15,15 @@ interface AssessmentRootProps {
 }
 
 export function AssessmentRoot({ assessmentType, initialVersion, config }: AssessmentRootProps) {
-  switch (assessmentType) {
-    case 'gut-check':
-      return <GutCheckAssessment initialVersion={initialVersion} config={config} />;
-    default:
-      return (
-        <div className="min-h-screen bg-brand-900 flex items-center justify-center">
-          <p className="text-white text-lg">Unknown assessment type: {assessmentType}</p>
-        </div>
-      );
+  // All registered assessments share the same question/results flow
+  if (isAssessmentTypeRegistered(assessmentType)) {
+    return <GutCheckAssessment assessmentType={assessmentType} initialVersion={initialVersion} config={config} />;
   }
+
+  return (
+    <div className="min-h-screen bg-brand-900 flex items-center justify-center">
+      <p className="text-white text-lg">Unknown assessment type: {assessmentType}</p>
+    </div>
+  );
 }
 
@@ -1,6 +1,6 @@
 /**
  * Gut Check Assessment Component
- * Main assessment component for Gut Check
+ * Main assessment component for Gut Check (also used for other registered assessment types)
  */
 
 import React, { useState, useEffect } from 'react';
@@ -9,15 +9,21 @@ import { AssessmentProvider, useAssessment } from './AssessmentProvider';
 import { QuestionScreen } from './QuestionScreen';
 import { ResultsScreen } from './ResultsScreen';
 import { LoadingState } from './LoadingState';
+import { ResumePrompt } from './ResumePrompt';
 import { getAssessmentConfig, gutCheckConfig } from '@/lib/assessmentConfig';
 import type { AssessmentConfig } from '@/lib/assessmentTypes';
 
 interface GutCheckAssessmentProps {
+  assessmentType?: string; // Registered assessment type (default: gut-check)
   initialVersion?: number;
   config?: AssessmentConfig; // Server-resolved config (preferred over client-side loading)
 }
 
-export function GutCheckAssessment({ initialVersion, config: serverConfig }: GutCheckAssessmentProps) {
+export function GutCheckAssessment({
+  assessmentType = 'gut-check',
+  initialVersion,
+  config: serverConfig,
+}: GutCheckAssessmentProps) {
   const router = useRouter();
   const { submission_id } = router.query;
   const [clientConfig, setClientConfig] = useState<AssessmentConfig | null>(null);
@@ -30,15 +36,15 @@ export function GutCheckAssessment({ initialVersion, config: serverConfig }: Gut
   useEffect(() => {
     if (!serverConfig) {
       // Client-side fallback: load config async
-      getAssessmentConfig('gut-check', version)
+      getAssessmentConfig(assessmentType, version)
         .then(setClientConfig)
         .catch((error) => {
           console.warn('[GutCheckAssessment] Failed to load config, using base config:', error);
           // Fallback to base config if CMS load fails
-          setClientConfig(version === 1 ? gutCheckConfig : null);
+          setClientConfig(assessmentType === 'gut-check' && version === 1 ? gutCheckConfig : null);
         });
     }
-  }, [serverConfig, version]);
+  }, [serverConfig, assessmentType, version]);
   
   // Use server-resolved config if provided, otherwise use client-loaded config
   const config = serverConfig ?? clientConfig;
@@ -63,7 +69,11 @@ export function GutCheckAssessment({ initialVersion, config: serverConfig }: Gut
 }
 
 function AssessmentContent() {
-  const { state } = useAssessment();
+  const { state, resumeOffer, resumeAssessment, startOver } = useAssessment();
+
+  if (resumeOffer) {
+    return <ResumePrompt offer={resumeOffer} onResume={resumeAssessment} onStartOver={startOver} />;
+  }
 
   if (state.status === 'idle') {
     return <LoadingState />;
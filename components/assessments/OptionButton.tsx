@@ -10,9 +10,10 @@ interface OptionButtonProps {
   label: string;
   isSelected: boolean;
   onClick: () => void;
+  multiple?: boolean; // Multi-select: square checkbox indicator
 }
 
-export function OptionButton({ optionId, label, isSelected, onClick }: OptionButtonProps) {
+export function OptionButton({ optionId, label, isSelected, onClick, multiple = false }: OptionButtonProps) {
   return (
     <button
       type="button"
@@ -27,12 +28,14 @@ export function OptionButton({ optionId, label, isSelected, onClick }: OptionBut
             : 'bg-[#fffff6] text-[#4F4234] hover:bg-white font-normal'
         }
       `}
-      aria-pressed={isSelected}
+      role={multiple ? 'checkbox' : undefined}
+      aria-checked={multiple ? isSelected : undefined}
+      aria-pressed={multiple ? undefined : isSelected}
     >
       <span className="flex-1 text-left">{label}</span>
       <div
         className={`
-          w-5 h-5 rounded-full border-[1.5px] flex items-center justify-center flex-shrink-0
+          w-5 h-5 ${multiple ? 'rounded-[4px]' : 'rounded-full'} border-[1.5px] flex items-center justify-center flex-shrink-0
           ${
             isSelected
               ? 'bg-white border-white'
@@ -7,6 +7,14 @@ import React from 'react';
 import { useAssessment } from './AssessmentProvider';
 import { ProgressBar } from './ProgressBar';
 import { OptionButton } from './OptionButton';
+import type { QuestionConfig } from '@/lib/assessmentTypes';
+import {
+  canLeaveQuestion,
+  DEFAULT_TEXT_MAX_LENGTH,
+  getQuestionType,
+  getSelectedOptionIds,
+  getSelectionLimits,
+} from '@/lib/assessments/questions/questionTypes';
 
 // Continue/Next Button Component
 interface ContinueButtonProps {
@@ -36,22 +44,98 @@ function ContinueButton({ enabled, onClick, label }: ContinueButtonProps) {
   );
 }
 
+// Slider Question Component
+interface SliderInputProps {
+  question: QuestionConfig;
+  value: number | undefined;
+  onChange: (value: number) => void;
+}
+
+function SliderInput({ question, value, onChange }: SliderInputProps) {
+  const slider = question.slider!;
+  const hasValue = typeof value === 'number';
+
+  return (
+    <div className="w-full">
+      <div className="text-center text-3xl font-semibold text-[#4F4234] mb-6">
+        {hasValue ? value : <span className="text-base font-normal text-[#a4a08c]">Drag to answer</span>}
+      </div>
+      <input
+        type="range"
+        min={slider.min}
+        max={slider.max}
+        step={slider.step ?? 1}
+        value={hasValue ? value : (slider.min + slider.max) / 2}
+        onChange={(e) => onChange(Number(e.target.value))}
+        aria-label={question.text}
+        className={`w-full accent-[#6AB1AE] ${hasValue ? '' : 'opacity-60'}`}
+      />
+      <div className="flex justify-between mt-2 text-sm text-[#4F4234]">
+        <span>{slider.minLabel ?? slider.min}</span>
+        <span>{slider.maxLabel ?? slider.max}</span>
+      </div>
+    </div>
+  );
+}
+
+// Free Text Question Component
+interface TextInputProps {
+  question: QuestionConfig;
+  value: string;
+  onChange: (text: string) => void;
+}
+
+function TextInput({ question, value, onChange }: TextInputProps) {
+  const maxLength = question.maxLength ?? DEFAULT_TEXT_MAX_LENGTH;
+
+  return (
+    <div className="w-full">
+      <textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        maxLength={maxLength}
+        rows={4}
+        aria-label={question.text}
+        placeholder={question.required ? 'Type your answer' : 'Optional'}
+        className="w-full rounded-lg px-6 py-4 text-base bg-[#fffff6] text-[#4F4234] focus:outline-none focus:ring-2 focus:ring-[#6AB1AE]"
+      />
+      <p className="mt-1 text-right text-sm text-[#a4a08c]">
+        {value.length}/{maxLength}
+      </p>
+    </div>
+  );
+}
+
 export function QuestionScreen() {
-  const { state, config, selectOption, goToNextQuestion, goToPreviousQuestion } = useAssessment();
+  const {
+    state,
+    config,
+    visibleQuestionIndexes,
+    selectOption,
+    setSliderValue,
+    setTextAnswer,
+    goToNextQuestion,
+    goToPreviousQuestion,
+  } = useAssessment();
 
   const currentQuestion = config.questions[state.currentQuestionIndex];
   const currentAnswer = state.answers.find((a) => a.questionId === currentQuestion.id);
-  const canProceed = !!currentAnswer;
-  const isFirstQuestion = state.currentQuestionIndex === 0;
-  const isLastQuestion = state.currentQuestionIndex === config.questions.length - 1;
+  const questionType = getQuestionType(currentQuestion);
+  const selectedOptionIds = getSelectedOptionIds(currentAnswer);
+  const canProceed = canLeaveQuestion(currentQuestion, currentAnswer);
+  const selectionLimits = getSelectionLimits(currentQuestion);
+  // Position among visible questions (questions hidden by visibleIf are skipped)
+  const visiblePosition = Math.max(0, visibleQuestionIndexes.indexOf(state.currentQuestionIndex));
+  const isFirstQuestion = visiblePosition === 0;
+  const isLastQuestion = visiblePosition === visibleQuestionIndexes.length - 1;
 
   return (
     <div className="min-h-screen bg-[#CECAB9] flex flex-col">
       {/* Top: Progress Bar */}
       <div className="w-full px-8 pt-6 pb-4 max-w-2xl mx-auto">
         <ProgressBar
-          currentIndex={state.currentQuestionIndex}
-          totalQuestions={config.questions.length}
+          currentIndex={visiblePosition}
+          totalQuestions={visibleQuestionIndexes.length}
         />
       </div>
 
@@ -62,18 +146,37 @@ export function QuestionScreen() {
           {currentQuestion.text}
         </h1>
 
-        {/* Options */}
-        <div className="w-full space-y-3">
-          {currentQuestion.options.map((option) => (
-            <OptionButton
-              key={option.id}
-              optionId={option.id}
-              label={option.label}
-              isSelected={currentAnswer?.optionId === option.id}
-              onClick={() => selectOption(option.id)}
-            />
-          ))}
-        </div>
+        {/* Answer input (by question type) */}
+        {questionType === 'slider' && (
+          <SliderInput question={currentQuestion} value={currentAnswer?.value} onChange={setSliderValue} />
+        )}
+
+        {questionType === 'text' && (
+          <TextInput question={currentQuestion} value={currentAnswer?.text ?? ''} onChange={setTextAnswer} />
+        )}
+
+        {(questionType === 'single' || questionType === 'multi') && (
+          <div className="w-full space-y-3">
+            {questionType === 'multi' && (
+              <p className="text-sm text-[#4F4234] mb-1">
+                {selectionLimits.max === currentQuestion.options.length
+                  ? 'Select all that apply'
+                  : `Select up to ${selectionLimits.max}`}
+                {selectionLimits.min > 1 ? ` (at least ${selectionLimits.min})` : ''}
+              </p>
+            )}
+            {currentQuestion.options.map((option) => (
+              <OptionButton
+                key={option.id}
+                optionId={option.id}
+                label={option.label}
+                isSelected={selectedOptionIds.includes(option.id)}
+                onClick={() => selectOption(option.id)}
+                multiple={questionType === 'multi'}
+              />
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Bottom: Next and Back Button - Aligned to bottom with matching spacing */}
@@ -19,9 +19,9 @@ import { ResultsMethod } from './ResultsMethod';
 import { EmailCaptureInline } from './EmailCaptureInline';
 import { ResultsProgressBar } from './ResultsProgressBar';
 import { Button } from '@/components/ui/Button';
-import { trackResultsScrolled, trackMethodVslClicked } from '@/lib/assessmentAnalytics';
+import { trackResultsViewed, trackResultsScrolled, trackMethodVslClicked } from '@/lib/assessmentAnalytics';
 import type { ResultsPack } from '@/lib/assessments/results/loadResultsPack';
-import { GUT_CHECK_RESULTS_CONTENT_VERSION } from '@/lib/assessments/results/constants';
+import { getAssessmentPublicPath, getResultsContentVersion } from '@/lib/assessments/registry';
 import { createClient } from '@/lib/supabaseBrowser';
 import { parseYouTube, buildYouTubeEmbedUrl } from '@/lib/video/youtube';
 
@@ -82,7 +82,7 @@ function MethodLinkEmail({
           assessmentVersion: submissionData.assessment_version,
           sessionId: submissionData.session_id,
           levelId: submissionData.primary_avatar,
-          resultsVersion: GUT_CHECK_RESULTS_CONTENT_VERSION,
+          resultsVersion: getResultsContentVersion(submissionData.assessment_type),
           submissionId: submissionData.id,
           emailType: 'method_link',
         }),
@@ -261,7 +261,7 @@ function EmailYourResults({
           assessmentVersion: submissionData.assessment_version,
           sessionId: submissionData.session_id,
           levelId: submissionData.primary_avatar,
-          resultsVersion: GUT_CHECK_RESULTS_CONTENT_VERSION,
+          resultsVersion: getResultsContentVersion(submissionData.assessment_type),
           submissionId: submissionData.id,
           emailType: 'results',
         }),
@@ -400,6 +400,7 @@ interface SubmissionData {
   session_id: string;
   email?: string | null; // Persisted email from submission
   user_id?: string | null; // User ID if attached to account (isAttached = !!user_id)
+  locale?: string | null; // Locale the assessment was taken in (NULL = default)
   metadata?: Record<string, unknown> | null;
 }
 
@@ -490,6 +491,7 @@ export function ResultsScreen() {
   const [hasDownloadedPdf, setHasDownloadedPdf] = useState(false);
   const [authUser, setAuthUser] = useState<{ email: string; id: string } | null>(null);
   const hasTrackedScroll = useRef(false);
+  const hasTrackedView = useRef(false);
   const hasInitializedScreen = useRef(false);
 
   // Check auth state
@@ -552,8 +554,8 @@ export function ResultsScreen() {
 
       // primary_avatar contains levelId or avatar ID (will be normalized by loader)
       const levelId = submissionData.primary_avatar;
-      // Use constant for results content version (decoupled from assessment_version)
-      const resultsVersion = GUT_CHECK_RESULTS_CONTENT_VERSION;
+      // Results content version comes from the registry (decoupled from assessment_version)
+      const resultsVersion = getResultsContentVersion(submissionData.assessment_type);
 
       // Check for existing resultsPackRef in metadata
       const existingRef = submissionData.metadata?.resultsPackRef as any;
@@ -571,8 +573,15 @@ export function ResultsScreen() {
         if (preview) {
           params.set('preview', '1');
         }
+        if (submissionData.locale) {
+          // Locale pinned at submit time (falls back es-MX → es → default)
+          params.set('locale', submissionData.locale);
+        }
         if (existingRef) {
           params.set('resultsPackRef', JSON.stringify(existingRef));
+        } else {
+          // Unpinned: lets the resolver assign this session to a running experiment
+          params.set('submissionId', submissionData.id);
         }
 
         const response = await fetch(`/api/results-packs/resolve?${params.toString()}`);
@@ -585,6 +594,16 @@ export function ResultsScreen() {
         setResultsPack(result.pack);
         setIsLoading(false);
 
+        if (!hasTrackedView.current) {
+          trackResultsViewed(
+            submissionData.assessment_type,
+            submissionData.assessment_version,
+            submissionData.session_id,
+            submissionData.primary_avatar
+          );
+          hasTrackedView.current = true;
+        }
+
         // Pin the pack reference on first render (if not already pinned)
         if (!existingRef && result.resultsPackRef) {
           // Update submission metadata asynchronously (non-blocking)
@@ -646,7 +665,7 @@ export function ResultsScreen() {
     const handleScroll = () => {
       if (!hasTrackedScroll.current && window.scrollY > 200) {
         trackResultsScrolled(
-          'gut-check',
+          submissionData.assessment_type,
           submissionData.assessment_version,
           submissionData.session_id,
           submissionData.primary_avatar
@@ -736,7 +755,7 @@ export function ResultsScreen() {
         const url = window.URL.createObjectURL(blob);
         const a = document.createElement('a');
         a.href = url;
-        a.download = `fine-diet-gut-check-results-${sid}.pdf`;
+        a.download = `fine-diet-${submissionData?.assessment_type ?? 'gut-check'}-results-${sid}.pdf`;
         document.body.appendChild(a);
         a.click();
         document.body.removeChild(a);
@@ -800,7 +819,7 @@ export function ResultsScreen() {
             {error || 'Unable to load your assessment results. Please try again.'}
           </p>
           <button
-            onClick={() => router.push('/gut-check')}
+            onClick={() => router.push(getAssessmentPublicPath(submissionData?.assessment_type ?? 'gut-check'))}
             className="bg-dark_accent-500 hover:bg-dark_accent-600 text-neutral-900 font-semibold px-6 py-3 rounded-full transition-colors"
           >
             Start New Assessment
@@ -1118,7 +1137,7 @@ export function ResultsScreen() {
                           assessmentVersion={submissionData.assessment_version}
                           sessionId={submissionData.session_id}
                           levelId={submissionData.primary_avatar}
-                          resultsVersion={GUT_CHECK_RESULTS_CONTENT_VERSION}
+                          resultsVersion={getResultsContentVersion(submissionData.assessment_type)}
                           submissionId={submissionData.id}
                           emailType="results"
                           onSubmit={handleEmailSubmit}
@@ -1144,18 +1163,20 @@ export function ResultsScreen() {
                   />
                 </div>
 
-                {/* Download PDF Button */}
-                <div className="mt-0 mb-0 pb-0">
-                  <Button
-                    variant="primary"
-                    size="lg"
-                    onClick={handleDownloadPdf}
-                    disabled={isDownloadingPdf || !submissionData?.id}
-                    className="w-full py-4"
-                  >
-                    {isDownloadingPdf ? 'Preparing PDF…' : page2.pdfHelper || 'Download PDF'}
-                  </Button>
-                </div>
+                {/* Download PDF Button (hidden when the pack disables the PDF channel) */}
+                {resultsPack.channels?.pdf?.enabled !== false && (
+                  <div className="mt-0 mb-0 pb-0">
+                    <Button
+                      variant="primary"
+                      size="lg"
+                      onClick={handleDownloadPdf}
+                      disabled={isDownloadingPdf || !submissionData?.id}
+                      className="w-full py-4"
+                    >
+                      {isDownloadingPdf ? 'Preparing PDF…' : page2.pdfHelper || 'Download PDF'}
+                    </Button>
+                  </div>
+                )}
 
                 {/* Account Save Messaging - Only show when not logged in */}
                 {!authUser && (
@@ -1402,7 +1423,7 @@ export function ResultsScreen() {
           assessmentVersion={submissionData.assessment_version}
           sessionId={submissionData.session_id}
           levelId={submissionData.primary_avatar}
-          resultsVersion={GUT_CHECK_RESULTS_CONTENT_VERSION}
+          resultsVersion={getResultsContentVersion(submissionData.assessment_type)}
           submissionId={submissionData.id}
           emailType="results"
           onSubmit={handleEmailSubmit}
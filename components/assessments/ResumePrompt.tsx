@@ -0,0 +1,48 @@
+/**
+ * Resume Prompt Component
+ * Offers to continue an in-progress assessment from its server-side checkpoint
+ */
+
+import React from 'react';
+import type { ResumePlan } from '@/lib/assessments/sessionCheckpoint';
+
+interface ResumePromptProps {
+  offer: ResumePlan;
+  onResume: () => void;
+  onStartOver: () => void;
+}
+
+export function ResumePrompt({ offer, onResume, onStartOver }: ResumePromptProps) {
+  return (
+    <div className="min-h-screen bg-brand-900 flex items-center justify-center px-4">
+      <div className="text-center max-w-md">
+        <h2 className="text-white text-2xl font-semibold mb-3">Continue where you left off?</h2>
+        <p className="text-white/80 text-lg mb-2">
+          You answered {offer.answeredCount} of {offer.visibleQuestionCount} questions.
+        </p>
+        {offer.questionSetChanged && (
+          <p className="text-white/70 text-sm mb-2">
+            Some questions have been updated since then
+            {offer.droppedAnswerCount > 0
+              ? `, so ${offer.droppedAnswerCount} of your answers need to be given again.`
+              : '. Your answers have been kept.'}
+          </p>
+        )}
+        <div className="flex flex-col sm:flex-row gap-3 justify-center mt-6">
+          <button
+            onClick={onResume}
+            className="px-6 py-2 bg-dark_accent-500 text-white rounded-full hover:opacity-90 transition-opacity"
+          >
+            Continue
+          </button>
+          <button
+            onClick={onStartOver}
+            className="px-6 py-2 border border-white/40 text-white rounded-full hover:bg-white/10 transition-colors"
+          >
+            Start over
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+/**
+ * Tests for the structured content diff
+ */
+
+import { diffContent, formatChangeValue } from '../contentDiff';
+
+describe('diffContent', () => {
+  it('returns no changes for equal documents', () => {
+    const doc = { hero: { title: 'Hi', buttons: [{ label: 'Go' }] } };
+    expect(diffContent(doc, JSON.parse(JSON.stringify(doc)))).toEqual([]);
+  });
+
+  it('reports leaf changes with dotted paths in key order', () => {
+    const changes = diffContent(
+      { hero: { title: 'Old', subtitle: 'Same' }, banner: 'x' },
+      { hero: { title: 'New', subtitle: 'Same' }, footer: 'y' }
+    );
+    expect(changes).toEqual([
+      { path: 'banner', kind: 'removed', before: 'x' },
+      { path: 'footer', kind: 'added', after: 'y' },
+      { path: 'hero.title', kind: 'changed', before: 'Old', after: 'New' },
+    ]);
+  });
+
+  it('matches array items by id so reordering shows only real changes', () => {
+    const before = {
+      categories: [
+        { id: 'shop', label: 'Shop' },
+        { id: 'learn', label: 'Learn' },
+      ],
+    };
+    const after = {
+      categories: [
+        { id: 'new', label: 'New' },
+        { id: 'learn', label: 'Learn more' },
+        { id: 'shop', label: 'Shop' },
+      ],
+    };
+    expect(diffContent(before, after)).toEqual([
+      { path: 'categories[id=new]', kind: 'added', after: { id: 'new', label: 'New' } },
+      { path: 'categories[id=learn].label', kind: 'changed', before: 'Learn', after: 'Learn more' },
+    ]);
+  });
+
+  it('compares arrays without ids by index', () => {
+    expect(diffContent({ items: ['a', 'b'] }, { items: ['a', 'c', 'd'] })).toEqual([
+      { path: 'items[1]', kind: 'changed', before: 'b', after: 'c' },
+      { path: 'items[2]', kind: 'added', after: 'd' },
+    ]);
+  });
+
+  it('reports a type change as a single change at that path', () => {
+    expect(diffContent({ value: { a: 1 } }, { value: [1] })).toEqual([
+      { path: 'value', kind: 'changed', before: { a: 1 }, after: [1] },
+    ]);
+    expect(diffContent('a', 'b')).toEqual([{ path: '(root)', kind: 'changed', before: 'a', after: 'b' }]);
+  });
+});
+
+describe('formatChangeValue', () => {
+  it('shows strings as-is and other values as JSON', () => {
+    expect(formatChangeValue('text')).toBe('text');
+    expect(formatChangeValue({ a: 1 })).toBe('{"a":1}');
+    expect(formatChangeValue(undefined)).toBe('');
+  });
+
+  it('truncates long values', () => {
+    const formatted = formatChangeValue('x'.repeat(200), 10);
+    expect(formatted).toHaveLength(10);
+    expect(formatted.endsWith('…')).toBe(true);
+  });
+});
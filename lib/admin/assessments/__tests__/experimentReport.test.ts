@@ -0,0 +1,112 @@
+/**
+ * Tests for experimentReport
+ *
+ * Tests per-variant conversion aggregation and the two-proportion significance estimate.
+ */
+
+import {
+  buildExperimentReport,
+  compareProportions,
+  normalCdf,
+  type AssignmentEvent,
+  type ConversionEvent,
+} from '../experimentReport';
+import type { ExperimentVariant } from '@/lib/assessments/results/experimentAssignment';
+
+const variants: ExperimentVariant[] = [
+  { variantId: 'control', revisionId: null, weight: 50 },
+  { variantId: 'b', revisionId: 'rev-b', weight: 50 },
+];
+
+describe('normalCdf', () => {
+  it('should match standard normal values', () => {
+    expect(normalCdf(0)).toBeCloseTo(0.5, 6);
+    expect(normalCdf(1.96)).toBeCloseTo(0.975, 3);
+    expect(normalCdf(-1.96)).toBeCloseTo(0.025, 3);
+  });
+});
+
+describe('compareProportions', () => {
+  it('should flag a large difference as significant', () => {
+    const result = compareProportions({ conversions: 100, sessions: 1000 }, { conversions: 150, sessions: 1000 });
+    expect(result.lift).toBeCloseTo(0.5, 6);
+    expect(result.zScore).toBeCloseTo(3.38, 2);
+    expect(result.pValue!).toBeLessThan(0.001);
+    expect(result.significant).toBe(true);
+  });
+
+  it('should not flag a small sample as significant', () => {
+    const result = compareProportions({ conversions: 2, sessions: 20 }, { conversions: 4, sessions: 20 });
+    expect(result.pValue!).toBeGreaterThan(0.05);
+    expect(result.significant).toBe(false);
+  });
+
+  it('should handle empty and degenerate samples', () => {
+    expect(compareProportions({ conversions: 0, sessions: 0 }, { conversions: 1, sessions: 10 })).toEqual({
+      lift: null,
+      zScore: null,
+      pValue: null,
+      significant: false,
+    });
+    expect(compareProportions({ conversions: 0, sessions: 10 }, { conversions: 0, sessions: 10 })).toEqual({
+      lift: null,
+      zScore: 0,
+      pValue: 1,
+      significant: false,
+    });
+  });
+});
+
+describe('buildExperimentReport', () => {
+  const assignments: AssignmentEvent[] = [
+    { sessionId: 's1', variantId: 'control', createdAt: '2026-01-01T10:00:00Z' },
+    { sessionId: 's2', variantId: 'control', createdAt: '2026-01-01T10:00:00Z' },
+    { sessionId: 's3', variantId: 'b', createdAt: '2026-01-01T10:00:00Z' },
+    { sessionId: 's4', variantId: 'b', createdAt: '2026-01-01T10:00:00Z' },
+    // Repeat resolve of s1 (ignored) and a session of a removed variant (ignored)
+    { sessionId: 's1', variantId: 'b', createdAt: '2026-01-02T10:00:00Z' },
+    { sessionId: 's5', variantId: 'retired', createdAt: '2026-01-01T10:00:00Z' },
+  ];
+
+  const conversions: ConversionEvent[] = [
+    { sessionId: 's1', eventName: 'email_captured', createdAt: '2026-01-01T10:05:00Z' },
+    { sessionId: 's1', eventName: 'email_captured', createdAt: '2026-01-01T10:06:00Z' },
+    { sessionId: 's3', eventName: 'email_captured', createdAt: '2026-01-01T10:05:00Z' },
+    { sessionId: 's4', eventName: 'email_captured', createdAt: '2026-01-01T10:05:00Z' },
+    { sessionId: 's3', eventName: 'results_pdf_downloaded', createdAt: '2026-01-01T10:05:00Z' },
+    // Before assignment, unrelated event, unassigned session
+    { sessionId: 's2', eventName: 'method_vsl_clicked', createdAt: '2026-01-01T09:00:00Z' },
+    { sessionId: 's2', eventName: 'results_viewed', createdAt: '2026-01-01T10:05:00Z' },
+    { sessionId: 's9', eventName: 'email_captured', createdAt: '2026-01-01T10:05:00Z' },
+  ];
+
+  it('should count each session once per metric against its first assignment', () => {
+    const report = buildExperimentReport(variants, assignments, conversions);
+
+    expect(report.controlVariantId).toBe('control');
+    expect(report.totalSessions).toBe(4);
+
+    const [control, b] = report.variants;
+    expect(control.sessions).toBe(2);
+    expect(control.metrics.emailCapture).toMatchObject({ conversions: 1, rate: 0.5, vsControl: null });
+    expect(control.metrics.methodCtaClick.conversions).toBe(0);
+
+    expect(b.sessions).toBe(2);
+    expect(b.revisionId).toBe('rev-b');
+    expect(b.metrics.emailCapture.conversions).toBe(2);
+    expect(b.metrics.emailCapture.rate).toBe(1);
+    expect(b.metrics.emailCapture.vsControl?.lift).toBeCloseTo(1, 6);
+    expect(b.metrics.pdfDownload.conversions).toBe(1);
+  });
+
+  it('should report zero sessions for variants without traffic', () => {
+    const report = buildExperimentReport(variants, [], []);
+    expect(report.totalSessions).toBe(0);
+    expect(report.variants[1].metrics.emailCapture.vsControl).toEqual({
+      lift: null,
+      zScore: null,
+      pValue: null,
+      significant: false,
+    });
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Tests for funnelReport
+ *
+ * Tests funnel step rates, question drop-off, level pivoting and CSV export.
+ */
+
+import {
+  buildFunnelReport,
+  buildFunnelSteps,
+  buildQuestionDropOff,
+  funnelReportToCsv,
+  pivotLevelDistribution,
+  type FunnelReportData,
+} from '../funnelReport';
+
+const data: FunnelReportData = {
+  funnel: {
+    sessions: 120,
+    started: 100,
+    answered: 90,
+    completed: 60,
+    resultsViewed: 50,
+    resultsScrolled: 25,
+    emailCaptured: 10,
+    methodClicked: 0,
+  },
+  questions: [
+    { questionId: 'q2', questionIndex: 1, answered: 80, exits: 20 },
+    { questionId: 'q1', questionIndex: 0, answered: 90, exits: 10 },
+  ],
+  levels: [
+    { day: '2026-01-02', levelId: 'level2', sessions: 3 },
+    { day: '2026-01-01', levelId: 'level1', sessions: 5 },
+    { day: '2026-01-01', levelId: 'level2', sessions: 2 },
+  ],
+  filterOptions: { utmSources: ['google', '(none)'], devices: ['mobile'], questionSetRevisionIds: [] },
+};
+
+describe('buildFunnelSteps', () => {
+  it('should compute rates from the previous step and from started', () => {
+    const steps = buildFunnelSteps(data.funnel);
+
+    expect(steps.map((step) => step.key)).toEqual([
+      'started',
+      'answered',
+      'completed',
+      'resultsViewed',
+      'resultsScrolled',
+      'emailCaptured',
+      'methodClicked',
+    ]);
+    expect(steps[0].fromPrevious).toBeNull();
+    expect(steps[0].fromStart).toBe(1);
+    expect(steps[2].fromPrevious).toBeCloseTo(60 / 90, 6);
+    expect(steps[2].fromStart).toBeCloseTo(0.6, 6);
+  });
+
+  it('should return null rates when the denominator is zero', () => {
+    const steps = buildFunnelSteps({ ...data.funnel, started: 0, emailCaptured: 0 });
+    expect(steps[1].fromStart).toBeNull();
+    expect(steps[6].fromPrevious).toBeNull();
+  });
+});
+
+describe('buildQuestionDropOff', () => {
+  it('should sort by question index and compute drop-off rate', () => {
+    const questions = buildQuestionDropOff(data.questions);
+    expect(questions.map((question) => question.questionId)).toEqual(['q1', 'q2']);
+    expect(questions[1].dropOffRate).toBeCloseTo(0.25, 6);
+  });
+
+  it('should not divide by zero for unanswered questions', () => {
+    expect(buildQuestionDropOff([{ questionId: 'q', questionIndex: 0, answered: 0, exits: 0 }])[0].dropOffRate).toBeNull();
+  });
+});
+
+describe('pivotLevelDistribution', () => {
+  it('should produce one row per day with a column per level', () => {
+    const distribution = pivotLevelDistribution(data.levels);
+    expect(distribution.levelIds).toEqual(['level1', 'level2']);
+    expect(distribution.rows).toEqual([
+      { day: '2026-01-01', total: 7, counts: { level1: 5, level2: 2 } },
+      { day: '2026-01-02', total: 3, counts: { level2: 3 } },
+    ]);
+  });
+});
+
+describe('funnelReportToCsv', () => {
+  it('should export all sections with quoted cells', () => {
+    const csv = funnelReportToCsv(buildFunnelReport(data));
+    const lines = csv.split('\n');
+
+    expect(lines[0]).toBe('"Funnel"');
+    expect(lines).toContain('"Completed","60","66.7","60.0"');
+    expect(lines).toContain('"q2","1","80","20","25.0"');
+    expect(lines).toContain('"Day","level1","level2","Total"');
+    expect(lines).toContain('"2026-01-02","0","3","3"');
+  });
+
+  it('should escape quotes', () => {
+    const report = buildFunnelReport({
+      ...data,
+      questions: [{ questionId: 'say "hi"', questionIndex: 0, answered: 1, exits: 0 }],
+    });
+    expect(funnelReportToCsv(report)).toContain('"say ""hi""","0","1","0","0.0"');
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Tests for rescoreSubmissions
+ * 
+ * Tests replaying stored responses with candidate thresholds and the level-migration matrix.
+ */
+
+import {
+  rescoreSubmissions,
+  buildLevelMigrationMatrix,
+  summarizeRescore,
+  type RescoreSubmissionInput,
+} from '../rescoreSubmissions';
+import { DEFAULT_SCORING_SPEC_GUT_CHECK_V2 } from '@/lib/assessments/scoring/scoringSpec';
+
+const LEVELS = ['level1', 'level2', 'level3', 'level4'];
+const defaultThresholds = { axisBandHigh: 2.3, axisBandModerate: 1.3 };
+const getSpec = () => DEFAULT_SCORING_SPEC_GUT_CHECK_V2;
+
+function responsesOf(value: number): Record<string, number> {
+  const responses: Record<string, number> = {};
+  for (let i = 1; i <= 17; i++) {
+    responses[`q${i}`] = value;
+  }
+  return responses;
+}
+
+describe('rescoreSubmissions', () => {
+  const submissions: RescoreSubmissionInput[] = [
+    { id: 'a', primary_avatar: 'level1', confidence_score: 1, metadata: { responses: responsesOf(0) } },
+    { id: 'b', primary_avatar: 'level3', confidence_score: 1, metadata: { responses: responsesOf(2) } },
+    { id: 'c', primary_avatar: 'level2', confidence_score: 1, metadata: {} },
+    { id: 'd', primary_avatar: 'level2', confidence_score: 1, metadata: null },
+  ];
+
+  it('skips submissions without stored responses', () => {
+    const rescored = rescoreSubmissions(submissions, getSpec, defaultThresholds);
+    expect(rescored.map((r) => r.id)).toEqual(['a', 'b']);
+  });
+
+  it('reports no changes when thresholds reproduce stored levels', () => {
+    const rescored = rescoreSubmissions(submissions, getSpec, defaultThresholds);
+    const baseline = rescored.map((r) => ({ id: r.id, level: r.toLevel }));
+
+    const restored = submissions.map((s) => ({
+      ...s,
+      primary_avatar: baseline.find((b) => b.id === s.id)?.level ?? s.primary_avatar,
+    }));
+    const again = rescoreSubmissions(restored, getSpec, defaultThresholds);
+    expect(again.every((r) => r.fromLevel === r.toLevel)).toBe(true);
+  });
+
+  it('moves levels when thresholds change', () => {
+    // All-zero answers: level1 with default thresholds
+    const lenient = rescoreSubmissions(submissions, getSpec, defaultThresholds);
+    expect(lenient.find((r) => r.id === 'a')!.toLevel).toBe('level1');
+
+    // Raising thresholds above the scale max makes every axis 'low' → level3
+    const strict = rescoreSubmissions(submissions, getSpec, { axisBandHigh: 4.5, axisBandModerate: 4 });
+    const a = strict.find((r) => r.id === 'a')!;
+    expect(a.fromLevel).toBe('level1');
+    expect(a.toLevel).toBe('level3');
+    expect(a.changed).toBe(true);
+  });
+});
+
+describe('buildLevelMigrationMatrix', () => {
+  it('counts from → to transitions and seeds known levels', () => {
+    const matrix = buildLevelMigrationMatrix(
+      [
+        { id: '1', fromLevel: 'level2', toLevel: 'level3', fromConfidenceScore: 1, toConfidenceScore: 1, secondaryModifier: null, changed: true },
+        { id: '2', fromLevel: 'level2', toLevel: 'level3', fromConfidenceScore: 1, toConfidenceScore: 1, secondaryModifier: null, changed: true },
+        { id: '3', fromLevel: 'level1', toLevel: 'level1', fromConfidenceScore: 1, toConfidenceScore: 1, secondaryModifier: null, changed: false },
+      ],
+      LEVELS
+    );
+
+    expect(Object.keys(matrix)).toEqual(LEVELS);
+    expect(matrix.level2.level3).toBe(2);
+    expect(matrix.level1.level1).toBe(1);
+    expect(matrix.level4.level4).toBe(0);
+  });
+
+  it('adds unknown stored levels (e.g. legacy avatar ids) as rows', () => {
+    const matrix = buildLevelMigrationMatrix(
+      [{ id: '1', fromLevel: 'legacy', toLevel: 'level1', fromConfidenceScore: null, toConfidenceScore: 1, secondaryModifier: null, changed: true }],
+      LEVELS
+    );
+    expect(matrix.legacy.level1).toBe(1);
+  });
+});
+
+describe('summarizeRescore', () => {
+  it('summarizes totals, skips and changes', () => {
+    const submissions: RescoreSubmissionInput[] = [
+      { id: 'a', primary_avatar: 'level4', confidence_score: 1, metadata: { responses: responsesOf(0) } },
+      { id: 'b', primary_avatar: 'level1', confidence_score: null, metadata: null },
+    ];
+    const rescored = rescoreSubmissions(submissions, getSpec, defaultThresholds);
+    const summary = summarizeRescore(submissions.length, rescored, LEVELS);
+
+    expect(summary.total).toBe(2);
+    expect(summary.rescored).toBe(1);
+    expect(summary.skipped).toBe(1);
+    expect(summary.levelChanged).toBe(1);
+    expect(summary.changed).toBe(1);
+    expect(summary.matrix.level4[rescored[0].toLevel]).toBe(1);
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Results Pack Experiment Report
+ *
+ * Aggregates assessment_events into per-variant conversion rates for a results pack
+ * experiment and compares every variant against the control (the first variant):
+ *
+ * - Exposure: first 'results_variant_assigned' event per session
+ * - Conversions: email capture, PDF download and method CTA click events of the same
+ *   session at or after its assignment (each counted once per session)
+ * - Significance: two-sided two-proportion z-test (pooled), reported as a p-value
+ *
+ * Pure functions only (data loading lives in the admin API route).
+ */
+
+import type { ExperimentVariant } from '@/lib/assessments/results/experimentAssignment';
+
+/** assessment_events.event_name written when a session is assigned a variant */
+export const VARIANT_ASSIGNED_EVENT = 'results_variant_assigned';
+
+/** Conversion metrics → assessment_events.event_name */
+export const EXPERIMENT_METRICS = {
+  emailCapture: 'email_captured',
+  pdfDownload: 'results_pdf_downloaded',
+  methodCtaClick: 'method_vsl_clicked',
+} as const;
+
+export type ExperimentMetric = keyof typeof EXPERIMENT_METRICS;
+
+/** Default significance threshold for `significant` */
+export const SIGNIFICANCE_LEVEL = 0.05;
+
+export interface AssignmentEvent {
+  sessionId: string;
+  variantId: string;
+  createdAt: string;
+}
+
+export interface ConversionEvent {
+  sessionId: string;
+  eventName: string;
+  createdAt: string;
+}
+
+export interface ProportionComparison {
+  /** Relative lift of the variant rate over the control rate (null if control rate is 0) */
+  lift: number | null;
+  zScore: number | null;
+  pValue: number | null;
+  significant: boolean;
+}
+
+export interface MetricResult {
+  conversions: number;
+  rate: number;
+  /** Comparison against control (null for the control itself) */
+  vsControl: ProportionComparison | null;
+}
+
+export interface VariantReport {
+  variantId: string;
+  revisionId: string | null;
+  weight: number;
+  sessions: number;
+  metrics: Record<ExperimentMetric, MetricResult>;
+}
+
+export interface ExperimentReport {
+  controlVariantId: string | null;
+  totalSessions: number;
+  variants: VariantReport[];
+}
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 7.1.26 erf approximation, |error| < 1.5e-7)
+ */
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly =
+    t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Two-sided two-proportion z-test of a variant against the control
+ */
+export function compareProportions(
+  control: { conversions: number; sessions: number },
+  variant: { conversions: number; sessions: number },
+  alpha: number = SIGNIFICANCE_LEVEL
+): ProportionComparison {
+  if (control.sessions === 0 || variant.sessions === 0) {
+    return { lift: null, zScore: null, pValue: null, significant: false };
+  }
+
+  const controlRate = control.conversions / control.sessions;
+  const variantRate = variant.conversions / variant.sessions;
+  const lift = controlRate > 0 ? (variantRate - controlRate) / controlRate : null;
+
+  const pooled = (control.conversions + variant.conversions) / (control.sessions + variant.sessions);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / control.sessions + 1 / variant.sessions));
+  if (standardError === 0) {
+    // Both rates are 0% or both 100%: no evidence of a difference
+    return { lift, zScore: 0, pValue: 1, significant: false };
+  }
+
+  const zScore = (variantRate - controlRate) / standardError;
+  const pValue = Math.min(1, 2 * (1 - normalCdf(Math.abs(zScore))));
+  return { lift, zScore, pValue, significant: pValue < alpha };
+}
+
+/**
+ * Build the per-variant report for an experiment
+ */
+export function buildExperimentReport(
+  variants: ExperimentVariant[],
+  assignments: AssignmentEvent[],
+  conversions: ConversionEvent[]
+): ExperimentReport {
+  // First assignment per session wins (later ones are repeat resolves)
+  const assignmentBySession: Record<string, AssignmentEvent> = {};
+  assignments
+    .slice()
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .forEach((assignment) => {
+      if (!assignmentBySession[assignment.sessionId]) {
+        assignmentBySession[assignment.sessionId] = assignment;
+      }
+    });
+
+  const metricNames = Object.keys(EXPERIMENT_METRICS) as ExperimentMetric[];
+  const sessionsByVariant: Record<string, number> = {};
+  const convertedByVariant: Record<string, Record<ExperimentMetric, Record<string, true>>> = {};
+
+  variants.forEach((variant) => {
+    sessionsByVariant[variant.variantId] = 0;
+    convertedByVariant[variant.variantId] = { emailCapture: {}, pdfDownload: {}, methodCtaClick: {} };
+  });
+
+  Object.keys(assignmentBySession).forEach((sessionId) => {
+    const variantId = assignmentBySession[sessionId].variantId;
+    if (variantId in sessionsByVariant) {
+      sessionsByVariant[variantId] += 1;
+    }
+  });
+
+  conversions.forEach((event) => {
+    const assignment = assignmentBySession[event.sessionId];
+    if (!assignment || !(assignment.variantId in convertedByVariant)) return;
+    if (event.createdAt < assignment.createdAt) return;
+
+    const metric = metricNames.find((name) => EXPERIMENT_METRICS[name] === event.eventName);
+    if (!metric) return;
+
+    convertedByVariant[assignment.variantId][metric][event.sessionId] = true;
+  });
+
+  const control = variants[0];
+  const variantReports: VariantReport[] = variants.map((variant) => {
+    const sessions = sessionsByVariant[variant.variantId];
+    const metrics = {} as Record<ExperimentMetric, MetricResult>;
+
+    metricNames.forEach((metric) => {
+      const count = Object.keys(convertedByVariant[variant.variantId][metric]).length;
+      metrics[metric] = {
+        conversions: count,
+        rate: sessions > 0 ? count / sessions : 0,
+        vsControl:
+          variant === control
+            ? null
+            : compareProportions(
+                {
+                  conversions: Object.keys(convertedByVariant[control.variantId][metric]).length,
+                  sessions: sessionsByVariant[control.variantId],
+                },
+                { conversions: count, sessions }
+              ),
+      };
+    });
+
+    return {
+      variantId: variant.variantId,
+      revisionId: variant.revisionId ?? null,
+      weight: variant.weight,
+      sessions,
+      metrics,
+    };
+  });
+
+  return {
+    controlVariantId: control ? control.variantId : null,
+    totalSessions: variantReports.reduce((sum, variant) => sum + variant.sessions, 0),
+    variants: variantReports,
+  };
+}
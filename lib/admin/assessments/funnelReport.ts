@@ -0,0 +1,219 @@
+/**
+ * Assessment Funnel Report
+ *
+ * Shapes the output of the `assessment_funnel_report` SQL function
+ * (scripts/createAssessmentFunnelReport.sql) for /admin/analytics/assessments:
+ *
+ * - Funnel steps with conversion from the previous step and from started
+ * - Per-question drop-off (sessions whose last answered question it was, without completing)
+ * - Level distribution per day
+ * - CSV export of all three sections
+ *
+ * Pure functions only (aggregation runs in Postgres, loading in the admin API route).
+ */
+
+/** UTM filter value matching sessions without a utm_source */
+export const NO_UTM_SOURCE = '(none)';
+
+/** Session counts per funnel step, as returned by assessment_funnel_report */
+export interface FunnelCounts {
+  sessions: number;
+  started: number;
+  answered: number;
+  completed: number;
+  resultsViewed: number;
+  resultsScrolled: number;
+  emailCaptured: number;
+  methodClicked: number;
+}
+
+export interface QuestionCounts {
+  questionId: string;
+  questionIndex: number;
+  answered: number;
+  exits: number;
+}
+
+export interface LevelCounts {
+  day: string;
+  levelId: string;
+  sessions: number;
+}
+
+export interface FunnelFilterOptions {
+  utmSources: string[];
+  devices: string[];
+  questionSetRevisionIds: string[];
+}
+
+/** Raw RPC result */
+export interface FunnelReportData {
+  funnel: FunnelCounts;
+  questions: QuestionCounts[];
+  levels: LevelCounts[];
+  filterOptions: FunnelFilterOptions;
+}
+
+export type FunnelStepKey = Exclude<keyof FunnelCounts, 'sessions'>;
+
+export interface FunnelStep {
+  key: FunnelStepKey;
+  label: string;
+  sessions: number;
+  /** Share of the previous step (null for the first step or when the previous step is 0) */
+  fromPrevious: number | null;
+  /** Share of started sessions (null when nothing started) */
+  fromStart: number | null;
+}
+
+export interface QuestionDropOff extends QuestionCounts {
+  /** exits / answered (null when unanswered) */
+  dropOffRate: number | null;
+}
+
+export interface LevelDistributionRow {
+  day: string;
+  total: number;
+  counts: Record<string, number>;
+}
+
+export interface LevelDistribution {
+  levelIds: string[];
+  rows: LevelDistributionRow[];
+}
+
+export interface FunnelReport {
+  totalSessions: number;
+  steps: FunnelStep[];
+  questions: QuestionDropOff[];
+  levels: LevelDistribution;
+  filterOptions: FunnelFilterOptions;
+}
+
+/** Funnel steps in order */
+export const FUNNEL_STEPS: Array<{ key: FunnelStepKey; label: string }> = [
+  { key: 'started', label: 'Started' },
+  { key: 'answered', label: 'Answered a question' },
+  { key: 'completed', label: 'Completed' },
+  { key: 'resultsViewed', label: 'Viewed results' },
+  { key: 'resultsScrolled', label: 'Scrolled results' },
+  { key: 'emailCaptured', label: 'Email captured' },
+  { key: 'methodClicked', label: 'Method CTA clicked' },
+];
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? numerator / denominator : null;
+}
+
+function toCount(value: unknown): number {
+  const count = Number(value);
+  return Number.isFinite(count) ? count : 0;
+}
+
+export function buildFunnelSteps(funnel: FunnelCounts): FunnelStep[] {
+  const started = toCount(funnel.started);
+  return FUNNEL_STEPS.map((step, index) => {
+    const sessions = toCount(funnel[step.key]);
+    const previous = index > 0 ? toCount(funnel[FUNNEL_STEPS[index - 1].key]) : 0;
+    return {
+      key: step.key,
+      label: step.label,
+      sessions,
+      fromPrevious: index > 0 ? ratio(sessions, previous) : null,
+      fromStart: ratio(sessions, started),
+    };
+  });
+}
+
+export function buildQuestionDropOff(questions: QuestionCounts[]): QuestionDropOff[] {
+  return questions
+    .map((question) => {
+      const answered = toCount(question.answered);
+      const exits = toCount(question.exits);
+      return {
+        questionId: question.questionId,
+        questionIndex: toCount(question.questionIndex),
+        answered,
+        exits,
+        dropOffRate: ratio(exits, answered),
+      };
+    })
+    .sort((a, b) => a.questionIndex - b.questionIndex || a.questionId.localeCompare(b.questionId));
+}
+
+/**
+ * Pivot (day, level) counts into one row per day with a column per level
+ */
+export function pivotLevelDistribution(levels: LevelCounts[]): LevelDistribution {
+  const levelSeen: Record<string, true> = {};
+  const rowsByDay: Record<string, LevelDistributionRow> = {};
+
+  levels.forEach((entry) => {
+    const sessions = toCount(entry.sessions);
+    levelSeen[entry.levelId] = true;
+    const row = rowsByDay[entry.day] || (rowsByDay[entry.day] = { day: entry.day, total: 0, counts: {} });
+    row.counts[entry.levelId] = (row.counts[entry.levelId] || 0) + sessions;
+    row.total += sessions;
+  });
+
+  return {
+    levelIds: Object.keys(levelSeen).sort(),
+    rows: Object.keys(rowsByDay)
+      .sort()
+      .map((day) => rowsByDay[day]),
+  };
+}
+
+export function buildFunnelReport(data: FunnelReportData): FunnelReport {
+  return {
+    totalSessions: toCount(data.funnel?.sessions),
+    steps: buildFunnelSteps(data.funnel || ({} as FunnelCounts)),
+    questions: buildQuestionDropOff(data.questions || []),
+    levels: pivotLevelDistribution(data.levels || []),
+    filterOptions: {
+      utmSources: [...(data.filterOptions?.utmSources || [])].sort(),
+      devices: [...(data.filterOptions?.devices || [])].sort(),
+      questionSetRevisionIds: [...(data.filterOptions?.questionSetRevisionIds || [])].sort(),
+    },
+  };
+}
+
+function formatRate(value: number | null): string {
+  return value === null ? '' : (value * 100).toFixed(1);
+}
+
+/**
+ * CSV export: funnel, per-question drop-off and level distribution sections
+ */
+export function funnelReportToCsv(report: FunnelReport): string {
+  const rows: string[][] = [
+    ['Funnel'],
+    ['Step', 'Sessions', '% of previous', '% of started'],
+    ...report.steps.map((step) => [
+      step.label,
+      String(step.sessions),
+      formatRate(step.fromPrevious),
+      formatRate(step.fromStart),
+    ]),
+    [],
+    ['Question drop-off'],
+    ['Question', 'Index', 'Answered', 'Exits', 'Drop-off %'],
+    ...report.questions.map((question) => [
+      question.questionId,
+      String(question.questionIndex),
+      String(question.answered),
+      String(question.exits),
+      formatRate(question.dropOffRate),
+    ]),
+    [],
+    ['Level distribution'],
+    ['Day', ...report.levels.levelIds, 'Total'],
+    ...report.levels.rows.map((row) => [
+      row.day,
+      ...report.levels.levelIds.map((levelId) => String(row.counts[levelId] || 0)),
+      String(row.total),
+    ]),
+  ];
+
+  return rows.map((row) => row.map((cell) => `"${cell.replace(/"/g, '""')}"`).join(',')).join('\n');
+}
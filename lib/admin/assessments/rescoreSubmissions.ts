@@ -0,0 +1,134 @@
+/**
+ * Rescore Submissions
+ *
+ * Replays stored v2 responses (metadata.responses) through calculateScoringV2 with a
+ * candidate threshold config, and summarizes the impact as a level-migration matrix.
+ * Pure functions only - loading and writing submissions lives in /api/admin/assessments/rescore.
+ */
+
+import {
+  calculateScoringV2FromResponses,
+  confidenceToScore,
+  type AssessmentResponses,
+} from '@/lib/assessmentScoringV2';
+import type { ScoringSpec } from '@/lib/assessments/scoring/scoringSpec';
+import type { AxisThresholds } from '@/lib/assessments/scoring/scoringEngine';
+
+export interface RescoreSubmissionInput {
+  id: string;
+  primary_avatar: string;
+  confidence_score: number | null;
+  metadata: { responses?: AssessmentResponses | null } | null;
+}
+
+export interface RescoredSubmission {
+  id: string;
+  fromLevel: string;
+  toLevel: string;
+  fromConfidenceScore: number | null;
+  toConfidenceScore: number;
+  secondaryModifier: string | null;
+  /** True if level or confidence changed */
+  changed: boolean;
+}
+
+/** Level-migration matrix: matrix[fromLevel][toLevel] = count */
+export type LevelMigrationMatrix = Record<string, Record<string, number>>;
+
+export interface RescoreSummary {
+  /** Submissions considered */
+  total: number;
+  /** Submissions replayed (have stored responses) */
+  rescored: number;
+  /** Submissions skipped (no stored responses) */
+  skipped: number;
+  /** Submissions whose level changed */
+  levelChanged: number;
+  /** Submissions whose level or confidence changed */
+  changed: number;
+  matrix: LevelMigrationMatrix;
+}
+
+/**
+ * Replay stored responses with a candidate spec/thresholds
+ *
+ * @param getSpec - Scoring spec for a submission (e.g., from its pinned question set)
+ * @returns Rescored submissions (submissions without responses are omitted)
+ */
+export function rescoreSubmissions(
+  submissions: RescoreSubmissionInput[],
+  getSpec: (submission: RescoreSubmissionInput) => ScoringSpec,
+  thresholds: AxisThresholds
+): RescoredSubmission[] {
+  const results: RescoredSubmission[] = [];
+
+  for (const submission of submissions) {
+    const responses = submission.metadata?.responses;
+    if (!responses || Object.keys(responses).length === 0) {
+      continue;
+    }
+
+    const result = calculateScoringV2FromResponses(responses, getSpec(submission), thresholds);
+    const toConfidenceScore = confidenceToScore(result.confidence);
+    const fromConfidenceScore =
+      submission.confidence_score === null || submission.confidence_score === undefined
+        ? null
+        : Number(submission.confidence_score);
+
+    results.push({
+      id: submission.id,
+      fromLevel: submission.primary_avatar,
+      toLevel: result.primary_level,
+      fromConfidenceScore,
+      toConfidenceScore,
+      secondaryModifier: result.secondary_modifier,
+      changed: submission.primary_avatar !== result.primary_level || fromConfidenceScore !== toConfidenceScore,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Build level-migration matrix (from → to counts), seeded with the known levels
+ */
+export function buildLevelMigrationMatrix(
+  rescored: RescoredSubmission[],
+  levels: string[] = []
+): LevelMigrationMatrix {
+  const matrix: LevelMigrationMatrix = {};
+  const allLevels = Array.from(
+    new Set(levels.concat(rescored.map((r) => r.fromLevel), rescored.map((r) => r.toLevel)))
+  );
+
+  allLevels.forEach((from) => {
+    matrix[from] = {};
+    allLevels.forEach((to) => {
+      matrix[from][to] = 0;
+    });
+  });
+
+  rescored.forEach((r) => {
+    matrix[r.fromLevel][r.toLevel] += 1;
+  });
+
+  return matrix;
+}
+
+/**
+ * Summarize a rescore run
+ */
+export function summarizeRescore(
+  total: number,
+  rescored: RescoredSubmission[],
+  levels: string[] = []
+): RescoreSummary {
+  return {
+    total,
+    rescored: rescored.length,
+    skipped: total - rescored.length,
+    levelChanged: rescored.filter((r) => r.fromLevel !== r.toLevel).length,
+    changed: rescored.filter((r) => r.changed).length,
+    matrix: buildLevelMigrationMatrix(rescored, levels),
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * Tests for admin audit log values, request IP, filters and CSV export
+ */
+
+import {
+  MAX_AUDIT_VALUE_BYTES,
+  REDACTED_VALUE,
+  auditLogToCsv,
+  getRequestIp,
+  isUserId,
+  parseAuditFilters,
+  sanitizeAuditValue,
+  type AdminAuditEntry,
+} from '../auditLog';
+
+describe('sanitizeAuditValue', () => {
+  it('stores undefined as null', () => {
+    expect(sanitizeAuditValue(undefined)).toBeNull();
+  });
+
+  it('keeps ordinary values', () => {
+    expect(sanitizeAuditValue({ role: 'editor', tags: ['a'] })).toEqual({ role: 'editor', tags: ['a'] });
+  });
+
+  it('redacts secrets at any depth', () => {
+    expect(
+      sanitizeAuditValue({
+        url: 'https://example.com/hook',
+        signing_secret: 'whsec_123',
+        headers: [{ Authorization: 'Bearer abc' }],
+        config: { apiKey: 'k', api_key: 'k2' },
+      })
+    ).toEqual({
+      url: 'https://example.com/hook',
+      signing_secret: REDACTED_VALUE,
+      headers: [{ Authorization: REDACTED_VALUE }],
+      config: { apiKey: REDACTED_VALUE, api_key: REDACTED_VALUE },
+    });
+  });
+
+  it('leaves empty secrets as they are', () => {
+    expect(sanitizeAuditValue({ secret: null })).toEqual({ secret: null });
+  });
+
+  it('replaces oversized values with a truncation marker', () => {
+    const value = { body: 'x'.repeat(MAX_AUDIT_VALUE_BYTES) };
+    expect(sanitizeAuditValue(value)).toEqual({ truncated: true, bytes: JSON.stringify(value).length });
+  });
+});
+
+describe('getRequestIp', () => {
+  it('uses the first x-forwarded-for hop', () => {
+    expect(getRequestIp({ headers: { 'x-forwarded-for': '203.0.113.7, 10.0.0.1' } })).toBe('203.0.113.7');
+  });
+
+  it('falls back to x-real-ip and then the socket', () => {
+    expect(getRequestIp({ headers: { 'x-real-ip': '198.51.100.2' } })).toBe('198.51.100.2');
+    expect(getRequestIp({ headers: {}, socket: { remoteAddress: '127.0.0.1' } })).toBe('127.0.0.1');
+    expect(getRequestIp({ headers: {} })).toBeNull();
+  });
+});
+
+describe('parseAuditFilters', () => {
+  it('trims text filters and drops empty ones', () => {
+    expect(parseAuditFilters({ actor: ' ana@example.com ', action: '', targetKey: ['home', 'footer'] })).toEqual({
+      actor: 'ana@example.com',
+      action: null,
+      targetType: null,
+      targetKey: 'home',
+      from: null,
+      to: null,
+    });
+  });
+
+  it('ignores dates that are not YYYY-MM-DD', () => {
+    const filters = parseAuditFilters({ from: '2026-01-05', to: '05/01/2026' });
+    expect(filters.from).toBe('2026-01-05');
+    expect(filters.to).toBeNull();
+  });
+});
+
+describe('isUserId', () => {
+  it('recognises UUIDs', () => {
+    expect(isUserId('3f2b8c1e-9a4d-4c5e-8f7a-1b2c3d4e5f60')).toBe(true);
+    expect(isUserId('ana@example.com')).toBe(false);
+  });
+});
+
+describe('auditLogToCsv', () => {
+  const entry: AdminAuditEntry = {
+    id: '1',
+    actor_id: 'u1',
+    actor_email: 'ana@example.com',
+    actor_role: 'admin',
+    action: 'people.role_change',
+    target_type: 'profile',
+    target_key: 'u2',
+    before: { role: 'user' },
+    after: { role: 'editor' },
+    metadata: null,
+    ip: '203.0.113.7',
+    user_agent: null,
+    method: 'PUT',
+    path: '/api/admin/people',
+    created_at: '2026-01-05T10:00:00.000Z',
+  };
+
+  it('writes a header and one quoted row per entry', () => {
+    const lines = auditLogToCsv([entry]).split('\n');
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toBe(
+      '"Time","Actor","Actor ID","Role","Action","Target Type","Target Key","IP","Method","Path","Before","After","Metadata"'
+    );
+    expect(lines[1]).toBe(
+      '"2026-01-05T10:00:00.000Z","ana@example.com","u1","admin","people.role_change","profile","u2","203.0.113.7","PUT","/api/admin/people","{""role"":""user""}","{""role"":""editor""}",""'
+    );
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Admin Audit Log
+ *
+ * One row in admin_audit_log per successful write through an admin API: who (actor id, email,
+ * role, IP), what (action such as "people.role_change"), which target (type + key) and the
+ * target's JSON before and after the change. Recorded by recordAdminAudit
+ * (lib/admin/audit/recordAdminAudit.ts); read by /admin/audit and its CSV export.
+ *
+ * content_audit_log keeps the per-entity event history that some admin pages show
+ * (outbox actions, site content revisions); this log is the admin-wide "who changed what".
+ *
+ * Pure functions only (imported by the admin page).
+ */
+
+/** Most rows in one CSV export; the newest are kept */
+export const AUDIT_EXPORT_LIMIT = 5000;
+
+export interface AdminAuditEntry {
+  id: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  actor_role: string | null;
+  action: string;
+  target_type: string;
+  target_key: string | null;
+  before: unknown;
+  after: unknown;
+  metadata: Record<string, unknown> | null;
+  ip: string | null;
+  user_agent: string | null;
+  method: string | null;
+  path: string | null;
+  created_at: string;
+}
+
+export interface AdminAuditFilters {
+  /** Actor email (partial) or user id */
+  actor: string | null;
+  /** Action prefix, e.g. "people." */
+  action: string | null;
+  targetType: string | null;
+  /** Target key (partial) */
+  targetKey: string | null;
+  /** YYYY-MM-DD, inclusive */
+  from: string | null;
+  to: string | null;
+}
+
+/** Serialized before/after values above this size are replaced by a truncation marker */
+export const MAX_AUDIT_VALUE_BYTES = 32 * 1024;
+
+export const REDACTED_VALUE = '[redacted]';
+
+const SENSITIVE_KEY_PATTERN = /secret|password|token|api[_-]?key|authorization/i;
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function redact(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redact);
+  }
+  if (value && typeof value === 'object') {
+    const copy: Record<string, unknown> = {};
+    Object.keys(value as Record<string, unknown>).forEach((key) => {
+      const child = (value as Record<string, unknown>)[key];
+      copy[key] = SENSITIVE_KEY_PATTERN.test(key) && child !== null && child !== undefined ? REDACTED_VALUE : redact(child);
+    });
+    return copy;
+  }
+  return value;
+}
+
+/**
+ * Value as stored in before/after: secrets redacted (webhook signing secrets, API keys),
+ * oversized documents replaced by { truncated, bytes }
+ */
+export function sanitizeAuditValue(value: unknown): unknown {
+  if (value === undefined) return null;
+  const redacted = redact(value);
+  const serialized = JSON.stringify(redacted);
+  if (serialized && serialized.length > MAX_AUDIT_VALUE_BYTES) {
+    return { truncated: true, bytes: serialized.length };
+  }
+  return redacted;
+}
+
+/**
+ * Client IP: first x-forwarded-for hop (set by the hosting proxy), then x-real-ip, then the socket
+ */
+export function getRequestIp(req: {
+  headers: Record<string, string | string[] | undefined>;
+  socket?: { remoteAddress?: string | null } | null;
+}): string | null {
+  const header = (name: string): string | null => {
+    const value = req.headers[name];
+    const raw = Array.isArray(value) ? value[0] : value;
+    return raw && raw.trim() ? raw.trim() : null;
+  };
+
+  const forwarded = header('x-forwarded-for');
+  if (forwarded) {
+    return forwarded.split(',')[0].trim() || null;
+  }
+  return header('x-real-ip') || req.socket?.remoteAddress || null;
+}
+
+/**
+ * Filters from the /api/admin/audit query string (invalid values are ignored)
+ */
+export function parseAuditFilters(query: Record<string, string | string[] | undefined>): AdminAuditFilters {
+  const text = (name: string): string | null => {
+    const value = query[name];
+    const raw = Array.isArray(value) ? value[0] : value;
+    return raw && raw.trim() ? raw.trim() : null;
+  };
+  const day = (name: string): string | null => {
+    const value = text(name);
+    return value && DAY_PATTERN.test(value) && !isNaN(new Date(`${value}T00:00:00.000Z`).getTime()) ? value : null;
+  };
+
+  return {
+    actor: text('actor'),
+    action: text('action'),
+    targetType: text('targetType'),
+    targetKey: text('targetKey'),
+    from: day('from'),
+    to: day('to'),
+  };
+}
+
+export function isUserId(value: string): boolean {
+  return UUID_PATTERN.test(value);
+}
+
+/**
+ * CSV export: one row per entry, before/after as JSON
+ */
+export function auditLogToCsv(entries: AdminAuditEntry[]): string {
+  const json = (value: unknown) => (value === null || value === undefined ? '' : JSON.stringify(value));
+  const rows: string[][] = [
+    ['Time', 'Actor', 'Actor ID', 'Role', 'Action', 'Target Type', 'Target Key', 'IP', 'Method', 'Path', 'Before', 'After', 'Metadata'],
+    ...entries.map((entry) => [
+      entry.created_at,
+      entry.actor_email || '',
+      entry.actor_id || '',
+      entry.actor_role || '',
+      entry.action,
+      entry.target_type,
+      entry.target_key || '',
+      entry.ip || '',
+      entry.method || '',
+      entry.path || '',
+      json(entry.before),
+      json(entry.after),
+      json(entry.metadata),
+    ]),
+  ];
+
+  return rows.map((row) => row.map((cell) => `"${cell.replace(/"/g, '""')}"`).join(',')).join('\n');
+}
@@ -0,0 +1,109 @@
+/**
+ * Admin Audit Log (server)
+ *
+ * recordAdminAudit is called by every mutating admin API handler after its write succeeds
+ * (see lib/admin/audit/auditLog.ts for what a row holds). It never throws: a failed audit
+ * insert is logged and the request carries on, like the content_audit_log writes.
+ */
+
+import type { NextApiRequest } from 'next';
+import { supabaseAdmin } from '@/lib/supabaseServerClient';
+import {
+  getRequestIp,
+  isUserId,
+  sanitizeAuditValue,
+  type AdminAuditEntry,
+  type AdminAuditFilters,
+} from './auditLog';
+
+export interface AdminAuditActor {
+  id: string;
+  email: string | null;
+  role?: string | null;
+}
+
+export interface AdminAuditInput {
+  /** "<area>.<verb>", e.g. "people.role_change", "site_content.save" */
+  action: string;
+  targetType: string;
+  /** Row id, content key or slug of the changed target */
+  targetKey: string | null;
+  before?: unknown;
+  after?: unknown;
+  metadata?: Record<string, unknown>;
+}
+
+const USER_AGENT_MAX_LENGTH = 300;
+
+/**
+ * Record one admin write
+ */
+export async function recordAdminAudit(
+  req: NextApiRequest,
+  actor: AdminAuditActor | null,
+  input: AdminAuditInput
+): Promise<void> {
+  try {
+    const userAgent = typeof req.headers['user-agent'] === 'string' ? req.headers['user-agent'] : null;
+    const { error } = await supabaseAdmin.from('admin_audit_log').insert({
+      actor_id: actor?.id || null,
+      actor_email: actor?.email || null,
+      actor_role: actor?.role || null,
+      action: input.action,
+      target_type: input.targetType,
+      target_key: input.targetKey,
+      before: sanitizeAuditValue(input.before),
+      after: sanitizeAuditValue(input.after),
+      metadata: input.metadata ? sanitizeAuditValue(input.metadata) : null,
+      ip: getRequestIp(req),
+      user_agent: userAgent ? userAgent.slice(0, USER_AGENT_MAX_LENGTH) : null,
+      method: req.method || null,
+      path: req.url ? req.url.split('?')[0] : null,
+    });
+    if (error) {
+      console.warn('Failed to write admin audit log:', error);
+    }
+  } catch (auditError) {
+    // Non-blocking audit log error
+    console.warn('Failed to write admin audit log:', auditError);
+  }
+}
+
+/**
+ * Audit entries matching the filters, newest first
+ */
+export async function listAdminAudit(
+  filters: AdminAuditFilters,
+  range: { offset: number; limit: number }
+): Promise<{ entries: AdminAuditEntry[]; total: number }> {
+  let query = supabaseAdmin.from('admin_audit_log').select('*', { count: 'exact' });
+
+  if (filters.actor) {
+    query = isUserId(filters.actor)
+      ? query.eq('actor_id', filters.actor)
+      : query.ilike('actor_email', `%${filters.actor}%`);
+  }
+  if (filters.action) {
+    query = query.ilike('action', `${filters.action}%`);
+  }
+  if (filters.targetType) {
+    query = query.eq('target_type', filters.targetType);
+  }
+  if (filters.targetKey) {
+    query = query.ilike('target_key', `%${filters.targetKey}%`);
+  }
+  if (filters.from) {
+    query = query.gte('created_at', `${filters.from}T00:00:00.000Z`);
+  }
+  if (filters.to) {
+    query = query.lte('created_at', `${filters.to}T23:59:59.999Z`);
+  }
+
+  const { data, error, count } = await query
+    .order('created_at', { ascending: false })
+    .range(range.offset, range.offset + range.limit - 1);
+  if (error) {
+    throw new Error(`Database error: ${error.message}`);
+  }
+  return { entries: (data || []) as AdminAuditEntry[], total: count || 0 };
+}
@@ -0,0 +1,152 @@
+/**
+ * Tests for the admin person timeline
+ */
+
+import { buildPersonTimeline, summarizeStatusHistory, type PersonTimelineSources } from '../personTimeline';
+
+const sources: PersonTimelineSources = {
+  person: {
+    id: 'person-1',
+    email: 'ada@example.com',
+    status: 'waitlist',
+    primary_source: 'assessment',
+    utm_source: 'instagram',
+    utm_medium: null,
+    utm_campaign: 'spring',
+    created_at: '2026-01-01T09:00:00Z',
+  },
+  events: [
+    {
+      id: 'e1',
+      event_type: 'status_change',
+      source: 'program_waitlist',
+      channel: null,
+      metadata: { from_status: 'marketing_only', to_status: 'waitlist' },
+      created_at: '2026-01-03T10:00:00Z',
+    },
+    {
+      id: 'e2',
+      event_type: 'newsletter_signup',
+      source: 'footer',
+      channel: 'web',
+      metadata: {},
+      created_at: '2026-01-01T09:00:01Z',
+    },
+  ],
+  subscriptions: [
+    {
+      id: 's1',
+      subscription_type: 'program_waitlist',
+      program_slug: 'reset',
+      is_active: true,
+      created_at: '2026-01-03T10:00:00Z',
+      updated_at: '2026-01-03T10:00:00Z',
+    },
+  ],
+  submissions: [
+    {
+      id: 'sub-1',
+      assessment_type: 'gut-check',
+      assessment_version: 2,
+      primary_avatar: 'level3',
+      email: 'ada@example.com',
+      user_id: 'user-1',
+      metadata: { claimedAt: '2026-01-04T08:00:00Z' },
+      created_at: '2026-01-02T12:00:00Z',
+    },
+  ],
+  waitlist: [{ id: 'w1', source: 'journal', goal: 'energy', created_at: '2026-01-05T00:00:00Z' }],
+  deliveries: [
+    {
+      id: 'o1',
+      submission_id: 'sub-1',
+      target: 'n8n_email_capture',
+      event_type: null,
+      status: 'sent',
+      attempts: 1,
+      error_message: null,
+      created_at: '2026-01-02T12:01:00Z',
+      sent_at: '2026-01-02T12:01:05Z',
+    },
+    {
+      id: 'o2',
+      submission_id: null,
+      target: 'destination:crm',
+      event_type: 'person_status_change',
+      status: 'dead_letter',
+      attempts: 8,
+      error_message: 'HTTP 500',
+      created_at: '2026-01-03T10:00:01Z',
+      sent_at: null,
+    },
+  ],
+};
+
+describe('buildPersonTimeline', () => {
+  it('should merge every source newest first', () => {
+    const timeline = buildPersonTimeline(sources);
+
+    expect(timeline.map((entry) => entry.id)).toEqual([
+      'waitlist:w1',
+      'claim:sub-1',
+      'webhook:o2',
+      'event:e1',
+      'subscription:s1',
+      'webhook:o1',
+      'submission:sub-1',
+      'event:e2',
+      'profile:person-1',
+    ]);
+  });
+
+  it('should describe each entry', () => {
+    const byId: Record<string, ReturnType<typeof buildPersonTimeline>[number]> = {};
+    buildPersonTimeline(sources).forEach((entry) => {
+      byId[entry.id] = entry;
+    });
+
+    expect(byId['profile:person-1'].detail).toBe('source: assessment · utm: instagram / spring');
+    expect(byId['event:e1']).toMatchObject({ kind: 'status', title: 'Status marketing_only → waitlist' });
+    expect(byId['event:e2']).toMatchObject({ kind: 'event', title: 'Newsletter signup', detail: 'source: footer · channel: web' });
+    expect(byId['submission:sub-1']).toMatchObject({
+      kind: 'submission',
+      title: 'Assessment submitted: gut-check v2',
+      detail: 'level: level3 · submission sub-1',
+    });
+    // The n8n email capture delivery is the results email
+    expect(byId['webhook:o1']).toMatchObject({ kind: 'email', title: 'Results email (n8n)', status: 'sent' });
+    expect(byId['webhook:o2']).toMatchObject({
+      kind: 'webhook',
+      title: 'Person status change webhook → destination:crm',
+      detail: '8 attempts · HTTP 500',
+      status: 'dead_letter',
+    });
+  });
+
+  it('should build a timeline without a person record', () => {
+    const timeline = buildPersonTimeline({ ...sources, person: null, events: [], subscriptions: [] });
+    expect(timeline.some((entry) => entry.kind === 'profile')).toBe(false);
+    expect(timeline.some((entry) => entry.kind === 'submission')).toBe(true);
+  });
+});
+
+describe('summarizeStatusHistory', () => {
+  it('should list status changes oldest first', () => {
+    const history = summarizeStatusHistory([
+      ...sources.events,
+      {
+        id: 'e3',
+        event_type: 'status_change',
+        source: null,
+        channel: null,
+        metadata: { from_status: 'waitlist', to_status: 'active_user' },
+        created_at: '2026-02-01T00:00:00Z',
+      },
+    ]);
+
+    expect(history).toEqual([
+      { from: 'marketing_only', to: 'waitlist', at: '2026-01-03T10:00:00Z' },
+      { from: 'waitlist', to: 'active_user', at: '2026-02-01T00:00:00Z' },
+    ]);
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * Person Timeline
+ *
+ * Merges everything stored about one email address into a single newest-first timeline for
+ * the admin person page (/admin/people/timeline):
+ *
+ * - people (profile, created), people_events (status changes, sign-ups, emails sent, ...)
+ * - subscriptions
+ * - assessment_submissions by email or linked account (level = primary_avatar), and claims
+ * - waitlist (journal waitlist form)
+ * - webhook_outbox rows for those submissions or keyed by the person id; the results email
+ *   is sent by the n8n email capture target or, with an in-app sender, the results_email target
+ *
+ * Pure functions only; the rows are loaded by GET /api/admin/people/timeline.
+ */
+
+import { RESULTS_EMAIL_OUTBOX_TARGET } from '@/lib/email/resultsEmail';
+
+export type TimelineEntryKind =
+  | 'profile'
+  | 'status'
+  | 'subscription'
+  | 'submission'
+  | 'claim'
+  | 'waitlist'
+  | 'email'
+  | 'event'
+  | 'webhook';
+
+export interface TimelineEntry {
+  /** Stable React key: `<kind>:<row id>` */
+  id: string;
+  kind: TimelineEntryKind;
+  occurred_at: string;
+  title: string;
+  detail: string | null;
+  /** Row status where it has one (subscription active/inactive, outbox status) */
+  status: string | null;
+}
+
+export interface TimelinePersonRow {
+  id: string;
+  email: string;
+  status: string;
+  primary_source: string | null;
+  utm_source: string | null;
+  utm_medium: string | null;
+  utm_campaign: string | null;
+  created_at: string;
+}
+
+export interface TimelineEventRow {
+  id: string;
+  event_type: string;
+  source: string | null;
+  channel: string | null;
+  metadata: Record<string, any> | null;
+  created_at: string;
+}
+
+export interface TimelineSubscriptionRow {
+  id: string;
+  subscription_type: string;
+  program_slug: string | null;
+  is_active: boolean;
+  created_at?: string | null;
+  updated_at: string;
+}
+
+export interface TimelineSubmissionRow {
+  id: string;
+  assessment_type: string;
+  assessment_version: number;
+  primary_avatar: string;
+  email: string | null;
+  user_id: string | null;
+  metadata: Record<string, any> | null;
+  created_at: string;
+}
+
+export interface TimelineWaitlistRow {
+  id: string;
+  source: string | null;
+  goal: string | null;
+  created_at: string;
+}
+
+export interface TimelineDeliveryRow {
+  id: string;
+  submission_id: string | null;
+  target: string;
+  event_type: string | null;
+  status: string;
+  attempts: number;
+  error_message: string | null;
+  created_at: string;
+  sent_at: string | null;
+}
+
+export interface PersonTimelineSources {
+  person: TimelinePersonRow | null;
+  events: TimelineEventRow[];
+  subscriptions: TimelineSubscriptionRow[];
+  submissions: TimelineSubmissionRow[];
+  waitlist: TimelineWaitlistRow[];
+  deliveries: TimelineDeliveryRow[];
+}
+
+/** Outbox target whose n8n workflow emails the assessment results */
+export const RESULTS_EMAIL_TARGET = 'n8n_email_capture';
+
+function humanize(value: string): string {
+  const text = value.replace(/_/g, ' ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function joinDetail(parts: Array<string | null | undefined | false>): string | null {
+  const present = parts.filter((part): part is string => !!part);
+  return present.length > 0 ? present.join(' · ') : null;
+}
+
+function eventEntry(event: TimelineEventRow): TimelineEntry {
+  const metadata = event.metadata || {};
+  const base = { id: `event:${event.id}`, occurred_at: event.created_at, status: null };
+  const origin = joinDetail([event.source && `source: ${event.source}`, event.channel && `channel: ${event.channel}`]);
+
+  switch (event.event_type) {
+    case 'status_change':
+      return {
+        ...base,
+        kind: 'status',
+        title: `Status ${metadata.from_status || 'unknown'} → ${metadata.to_status || 'unknown'}`,
+        detail: origin,
+      };
+    case 'email_sent':
+      return {
+        ...base,
+        kind: 'email',
+        title: `Email sent${metadata.subject ? `: ${metadata.subject}` : ''}`,
+        detail: joinDetail([metadata.template && `template: ${metadata.template}`, origin]),
+      };
+    case 'waitlist_join':
+      return {
+        ...base,
+        kind: 'waitlist',
+        title: `Joined waitlist${metadata.program_slug ? `: ${metadata.program_slug}` : ''}`,
+        detail: origin,
+      };
+    case 'subscription_preference':
+      return {
+        ...base,
+        kind: 'subscription',
+        title: `${metadata.active ? 'Turned on' : 'Turned off'} ${String(metadata.subscription_type || 'subscription').replace(/_/g, ' ')}`,
+        detail: origin,
+      };
+    default:
+      return { ...base, kind: 'event', title: humanize(event.event_type), detail: origin };
+  }
+}
+
+function deliveryEntry(delivery: TimelineDeliveryRow): TimelineEntry {
+  const isResultsEmail = delivery.target === RESULTS_EMAIL_TARGET || delivery.target === RESULTS_EMAIL_OUTBOX_TARGET;
+  const what = delivery.event_type ? humanize(delivery.event_type) : 'Submission';
+  return {
+    id: `webhook:${delivery.id}`,
+    kind: isResultsEmail ? 'email' : 'webhook',
+    occurred_at: delivery.sent_at || delivery.created_at,
+    title: isResultsEmail
+      ? `Results email (${delivery.target === RESULTS_EMAIL_TARGET ? 'n8n' : 'in-app'})`
+      : `${what} webhook → ${delivery.target}`,
+    detail: joinDetail([
+      `${delivery.attempts} attempt${delivery.attempts === 1 ? '' : 's'}`,
+      delivery.status !== 'sent' && delivery.error_message,
+    ]),
+    status: delivery.status,
+  };
+}
+
+/**
+ * All sources as one timeline, newest first
+ */
+export function buildPersonTimeline(sources: PersonTimelineSources): TimelineEntry[] {
+  const entries: TimelineEntry[] = [];
+  const { person } = sources;
+
+  if (person) {
+    entries.push({
+      id: `profile:${person.id}`,
+      kind: 'profile',
+      occurred_at: person.created_at,
+      title: 'Person created',
+      detail: joinDetail([
+        person.primary_source && `source: ${person.primary_source}`,
+        person.utm_source && `utm: ${[person.utm_source, person.utm_medium, person.utm_campaign].filter(Boolean).join(' / ')}`,
+      ]),
+      status: null,
+    });
+  }
+
+  sources.events.forEach((event) => entries.push(eventEntry(event)));
+
+  sources.subscriptions.forEach((subscription) => {
+    entries.push({
+      id: `subscription:${subscription.id}`,
+      kind: 'subscription',
+      occurred_at: subscription.created_at || subscription.updated_at,
+      title: `Subscribed: ${humanize(subscription.subscription_type)}${
+        subscription.program_slug ? ` (${subscription.program_slug})` : ''
+      }`,
+      detail: subscription.is_active ? null : `Inactive since ${subscription.updated_at}`,
+      status: subscription.is_active ? 'active' : 'inactive',
+    });
+  });
+
+  sources.submissions.forEach((submission) => {
+    entries.push({
+      id: `submission:${submission.id}`,
+      kind: 'submission',
+      occurred_at: submission.created_at,
+      title: `Assessment submitted: ${submission.assessment_type} v${submission.assessment_version}`,
+      detail: joinDetail([`level: ${submission.primary_avatar}`, `submission ${submission.id}`]),
+      status: null,
+    });
+
+    const claimedAt = submission.metadata?.claimedAt;
+    if (typeof claimedAt === 'string') {
+      entries.push({
+        id: `claim:${submission.id}`,
+        kind: 'claim',
+        occurred_at: claimedAt,
+        title: 'Submission claimed by account',
+        detail: joinDetail([`submission ${submission.id}`, submission.user_id && `account ${submission.user_id}`]),
+        status: null,
+      });
+    }
+  });
+
+  sources.waitlist.forEach((entry) => {
+    entries.push({
+      id: `waitlist:${entry.id}`,
+      kind: 'waitlist',
+      occurred_at: entry.created_at,
+      title: `Joined ${entry.source || 'journal'} waitlist`,
+      detail: entry.goal ? `goal: ${entry.goal}` : null,
+      status: null,
+    });
+  });
+
+  sources.deliveries.forEach((delivery) => entries.push(deliveryEntry(delivery)));
+
+  return entries.sort((a, b) => {
+    const diff = new Date(b.occurred_at).getTime() - new Date(a.occurred_at).getTime();
+    return diff !== 0 ? diff : a.id.localeCompare(b.id);
+  });
+}
+
+/**
+ * Status changes from the person's events, oldest first
+ */
+export function summarizeStatusHistory(
+  events: TimelineEventRow[]
+): Array<{ from: string | null; to: string; at: string }> {
+  return events
+    .filter((event) => event.event_type === 'status_change' && event.metadata?.to_status)
+    .map((event) => ({
+      from: (event.metadata!.from_status as string) || null,
+      to: event.metadata!.to_status as string,
+      at: event.created_at,
+    }))
+    .sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+}
@@ -3,6 +3,9 @@
  * 
  * Emits client-side events for tracking assessment behavior
  * Batches events and sends to API endpoint (best-effort, non-blocking)
+ *
+ * Events carry the current event context (UTM source, device, question set revision),
+ * which the funnel dashboard (/admin/analytics/assessments) uses as filters.
  */
 
 import type { AssessmentEvent, AssessmentType, AvatarId } from './assessmentTypes';
@@ -13,6 +16,7 @@ import type { AssessmentEvent, AssessmentType, AvatarId } from './assessmentType
 
 export type AssessmentEventType =
   | 'assessment_started'
+  | 'question_answered'
   | 'assessment_completed'
   | 'assessment_abandoned'
   | 'results_viewed'
@@ -20,11 +24,51 @@ export type AssessmentEventType =
   | 'method_vsl_clicked'
   | 'email_captured';
 
+// ============================================================================
+// Event Context
+// ============================================================================
+
+/** Dimensions attached to every event (set by AssessmentProvider on start) */
+export interface AssessmentEventContext {
+  utmSource?: string | null;
+  device?: 'mobile' | 'desktop';
+  questionSetRevisionId?: string | null;
+}
+
+let eventContext: AssessmentEventContext = {};
+
+/**
+ * Merge into the context attached to subsequent events
+ */
+export function setAssessmentEventContext(context: AssessmentEventContext): void {
+  eventContext = { ...eventContext, ...context };
+}
+
+/**
+ * Device class from a user agent string
+ */
+export function getDeviceType(userAgent: string): 'mobile' | 'desktop' {
+  return /Mobile|Android|iPhone|iPad/.test(userAgent) ? 'mobile' : 'desktop';
+}
+
+/**
+ * utm_* parameters from a query string (e.g., window.location.search)
+ */
+export function getUtmParams(search: string): Record<string, string> {
+  const utm: Record<string, string> = {};
+  new URLSearchParams(search).forEach((value, key) => {
+    if (key.startsWith('utm_') && value) {
+      utm[key] = value.slice(0, 200);
+    }
+  });
+  return utm;
+}
+
 // ============================================================================
 // Event Queue
 // ============================================================================
 
-interface QueuedEvent {
+interface QueuedEvent extends AssessmentEventContext {
   assessmentType: AssessmentType;
   assessmentVersion: number;
   sessionId: string;
@@ -110,6 +154,7 @@ export function emitAssessmentEvent(
 
   // Queue event for batch sending
   eventQueue.push({
+    ...eventContext,
     assessmentType,
     assessmentVersion,
     sessionId,
@@ -139,6 +184,23 @@ export function trackAssessmentStarted(
   emitAssessmentEvent('assessment_started', assessmentType, assessmentVersion, sessionId);
 }
 
+export function trackQuestionAnswered(
+  assessmentType: AssessmentType,
+  assessmentVersion: number,
+  sessionId: string,
+  questionId: string,
+  questionIndex: number
+): void {
+  emitAssessmentEvent(
+    'question_answered',
+    assessmentType,
+    assessmentVersion,
+    sessionId,
+    undefined,
+    { questionId, questionIndex }
+  );
+}
+
 export function trackAssessmentCompleted(
   assessmentType: AssessmentType,
   assessmentVersion: number,
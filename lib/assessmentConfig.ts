@@ -5,8 +5,9 @@
  * Final copy and scoring weights will be added later
  */
 
-import type { AssessmentConfig } from './assessmentTypes';
+import type { AssessmentConfig, AssessmentType } from './assessmentTypes';
 import type { QuestionSet } from './assessments/questions/loadQuestionSet';
+import { getScoringSpec, type ScoringSpec } from './assessments/scoring/scoringSpec';
 import questionsV2 from '@/content/assessments/gut-check/questions_v2.json';
 
 /**
@@ -145,19 +146,28 @@ export const gutCheckConfig: AssessmentConfig = {
  */
 export function questionSetToAssessmentConfig(questionSet: QuestionSet, version: number): AssessmentConfig {
   return {
-    assessmentType: questionSet.assessmentType as 'gut-check',
+    assessmentType: questionSet.assessmentType,
     assessmentVersion: version,
     sections: questionSet.sections,
     questions: questionSet.questions.map((q) => ({
       id: q.id,
       text: q.text,
-      options: q.options.map((opt) => ({
+      options: (q.options || []).map((opt) => ({
         id: opt.id,
         label: opt.label,
         value: opt.value,
+        ...(opt.exclusive ? { exclusive: true } : {}),
       })),
+      ...(q.visibleIf ? { visibleIf: q.visibleIf } : {}),
+      ...(q.type && q.type !== 'single' ? { type: q.type } : {}),
+      ...(q.minSelections !== undefined ? { minSelections: q.minSelections } : {}),
+      ...(q.maxSelections !== undefined ? { maxSelections: q.maxSelections } : {}),
+      ...(q.slider ? { slider: q.slider } : {}),
+      ...(q.maxLength !== undefined ? { maxLength: q.maxLength } : {}),
+      ...(q.required !== undefined ? { required: q.required } : {}),
     })),
-    avatars: ['level1', 'level2', 'level3', 'level4'], // v2 uses levels
+    avatars: getScoringSpec(questionSet).levels, // v2 uses levels
+    scoringSpec: getScoringSpec(questionSet),
     scoring: {
       thresholds: {
         secondaryAvatarThreshold: 0.15, // Not used in v2 but required by interface
@@ -178,12 +188,12 @@ export function questionSetToAssessmentConfig(questionSet: QuestionSet, version:
  * @deprecated This function is kept for backward compatibility.
  * New code should use resolveQuestionSet and questionSetToAssessmentConfig.
  */
-export async function getAssessmentConfig(assessmentType: 'gut-check', version?: number): Promise<AssessmentConfig> {
+export async function getAssessmentConfig(assessmentType: AssessmentType, version?: number): Promise<AssessmentConfig> {
   switch (assessmentType) {
     case 'gut-check':
       // Load v2 config from JSON if version is 2
       if (version === 2) {
-        const v2Data = questionsV2 as {
+        const v2Data = questionsV2 as unknown as {
           version: string;
           assessmentType: string;
           sections?: Array<{ id: string; title: string; questionIds: string[] }>;
@@ -192,6 +202,7 @@ export async function getAssessmentConfig(assessmentType: 'gut-check', version?:
             text: string;
             options: Array<{ id: string; label: string; value: number }>;
           }>;
+          scoring?: ScoringSpec;
         };
 
         return {
@@ -207,7 +218,8 @@ export async function getAssessmentConfig(assessmentType: 'gut-check', version?:
               value: opt.value,
             })),
           })),
-          avatars: ['level1', 'level2', 'level3', 'level4'], // v2 uses levels
+          avatars: getScoringSpec(v2Data).levels, // v2 uses levels
+          scoringSpec: getScoringSpec(v2Data),
           scoring: {
             thresholds: {
               secondaryAvatarThreshold: 0.15, // Not used in v2 but required by interface
@@ -11,7 +11,8 @@ import type {
   ScoreMap,
   AvatarId,
 } from './assessmentTypes';
-import { calculateScoringV2 } from './assessmentScoringV2';
+import { calculateScoringV2, confidenceToScore } from './assessmentScoringV2';
+import { getSelectedOptionIds } from './assessments/questions/questionTypes';
 
 // ============================================================================
 // Core Scoring Functions
@@ -36,15 +37,20 @@ export function calculateScoreMap(
     const question = config.questions.find((q) => q.id === answer.questionId);
     if (!question) return;
 
-    const option = question.options.find((o) => o.id === answer.optionId);
-    if (!option || !option.scoreWeights) return;
-
-    // Add weights to score map
-    Object.entries(option.scoreWeights).forEach(([avatarId, weight]) => {
-      if (config.avatars.includes(avatarId)) {
-        scoreMap[avatarId] = (scoreMap[avatarId] || 0) + weight;
-      }
-    });
+    // Multi-select answers add the weights of every picked option
+    const selectedIds = getSelectedOptionIds(answer);
+    question.options
+      .filter((o) => selectedIds.includes(o.id))
+      .forEach((option) => {
+        if (!option.scoreWeights) return;
+
+        // Add weights to score map
+        Object.entries(option.scoreWeights).forEach(([avatarId, weight]) => {
+          if (config.avatars.includes(avatarId)) {
+            scoreMap[avatarId] = (scoreMap[avatarId] || 0) + weight;
+          }
+        });
+      });
   });
 
   return scoreMap;
@@ -191,7 +197,7 @@ export async function calculateScoring(
     normalizedScoreMap[primaryAvatar] = 1;
 
     // Convert confidence from v2 format to numeric
-    const confidenceScore = v2Result.confidence === 'high' ? 1 : v2Result.confidence === 'moderate' ? 0.5 : 0.25;
+    const confidenceScore = confidenceToScore(v2Result.confidence);
 
     return {
       scoreMap,
@@ -68,6 +68,15 @@ export function generateUUID(): string {
   });
 }
 
+/**
+ * Adopt an existing session ID (e.g., when resuming a checkpoint started on another device)
+ */
+export function setSessionId(sessionId: string): void {
+  if (typeof window !== 'undefined') {
+    localStorage.setItem(SESSION_ID_KEY, sessionId);
+  }
+}
+
 /**
  * Clear session ID (useful for testing or reset)
  */
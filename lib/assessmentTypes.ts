@@ -3,12 +3,19 @@
  */
 
 import type { QuestionSetRef } from './assessments/questions/resolveQuestionSet';
+import type { ScoringSpec } from './assessments/scoring/scoringSpec';
+import type { VisibilityCondition } from './assessments/questions/visibility';
+import type { QuestionType, SliderConfig } from './assessments/questions/questionTypes';
 
 // ============================================================================
 // Core Types
 // ============================================================================
 
-export type AssessmentType = 'gut-check';
+/**
+ * Assessment type key (e.g., 'gut-check')
+ * Allowed values are the types registered in lib/assessments/registry.ts.
+ */
+export type AssessmentType = string;
 
 export type AvatarId = string;
 
@@ -18,7 +25,10 @@ export type OptionId = string;
 
 export interface Answer {
   questionId: QuestionId;
-  optionId: OptionId;
+  optionId?: OptionId; // single choice
+  optionIds?: OptionId[]; // multi-select
+  value?: number; // slider
+  text?: string; // free text
 }
 
 export interface ScoreMap {
@@ -56,6 +66,7 @@ export interface QuestionOption {
   id: OptionId;
   label: string;
   value?: number; // For v2: explicit value (0-3) instead of deriving from index
+  exclusive?: boolean; // Multi-select: picking this option clears the others (e.g., "None of these")
   scoreWeights?: {
     [avatarId: string]: number;
   };
@@ -64,7 +75,14 @@ export interface QuestionOption {
 export interface QuestionConfig {
   id: QuestionId;
   text: string;
-  options: QuestionOption[];
+  options: QuestionOption[]; // Empty for slider/text questions
+  visibleIf?: VisibilityCondition; // Branching: shown only when earlier answers match
+  type?: QuestionType; // Default 'single' (see lib/assessments/questions/questionTypes.ts)
+  minSelections?: number; // multi
+  maxSelections?: number; // multi
+  slider?: SliderConfig; // slider
+  maxLength?: number; // text
+  required?: boolean; // text (optional by default)
 }
 
 export interface AssessmentSection {
@@ -79,6 +97,9 @@ export interface AssessmentConfig {
   sections?: AssessmentSection[]; // Optional for v1, required for v2
   questions: QuestionConfig[];
   avatars: AvatarId[];
+  locale?: string; // Locale the assessment is taken in (pinned on the submission; default 'en')
+  questionSetRevisionId?: string; // CMS revision served (analytics context; absent for file/legacy configs)
+  scoringSpec?: ScoringSpec; // v2: scoring rules from the question set (default spec if absent)
   scoring: {
     thresholds: {
       secondaryAvatarThreshold: number; // Minimum normalized score to show secondary avatar
@@ -108,6 +129,7 @@ export interface SubmissionPayload {
   primaryAvatar: AvatarId;
   secondaryAvatar?: AvatarId;
   confidenceScore: number;
+  locale?: string; // Locale the assessment was taken in (e.g., 'es-MX')
   metadata?: {
     utm?: Record<string, string>;
     referrer?: string;
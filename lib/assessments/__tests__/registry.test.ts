@@ -0,0 +1,67 @@
+/**
+ * Tests for the assessment registry
+ */
+
+import {
+  ASSESSMENT_REGISTRY,
+  getAssessmentDefinition,
+  isAssessmentTypeRegistered,
+  getRegisteredAssessmentTypes,
+  getAssessmentPublicPath,
+  getAssessmentConfigEditorPath,
+  getResultsContentVersion,
+  getAssessmentLabel,
+} from '../registry';
+import { getQuestionSetFile, getResultsPacksFile } from '../contentFiles';
+import { getRegistryEntry, isConfigKeyAllowed } from '@/lib/config/registry';
+import { GUT_CHECK_RESULTS_CONTENT_VERSION } from '../results/constants';
+
+describe('assessment registry', () => {
+  it('registers gut-check with its existing routes and versions', () => {
+    const definition = getAssessmentDefinition('gut-check');
+    expect(definition).not.toBeNull();
+    expect(definition!.defaultVersion).toBe(2);
+    expect(definition!.levels).toEqual(['level1', 'level2', 'level3', 'level4']);
+    expect(getAssessmentPublicPath('gut-check')).toBe('/gut-check');
+    expect(getAssessmentConfigEditorPath('gut-check', 2)).toBe('/admin/config/assessments/gut-check/2');
+    expect(getAssessmentConfigEditorPath('gut-check', 1)).toBe('/admin/config/assessments/gut-check/1');
+    expect(getResultsContentVersion('gut-check')).toBe(GUT_CHECK_RESULTS_CONTENT_VERSION);
+    expect(getAssessmentLabel('gut-check')).toBe('Gut Check');
+  });
+
+  it('rejects unknown and prototype-named types', () => {
+    expect(isAssessmentTypeRegistered('other')).toBe(false);
+    expect(isAssessmentTypeRegistered('toString')).toBe(false);
+    expect(isAssessmentTypeRegistered(null)).toBe(false);
+    expect(getAssessmentDefinition('')).toBeNull();
+  });
+
+  it('falls back to generic routes and labels for unknown types', () => {
+    expect(getAssessmentPublicPath('sleep-check')).toBe('/assessments/sleep-check');
+    expect(getAssessmentConfigEditorPath('sleep-check', 1)).toBeNull();
+    expect(getAssessmentLabel('sleep-check')).toBe('sleep-check');
+    expect(getResultsContentVersion('sleep-check')).toBe(GUT_CHECK_RESULTS_CONTENT_VERSION);
+  });
+
+  it('registers an assessment-config key for every registered type and version', () => {
+    for (const assessmentType of getRegisteredAssessmentTypes()) {
+      for (const version of Object.keys(ASSESSMENT_REGISTRY[assessmentType].configs)) {
+        const key = `assessment-config:${assessmentType}:${version}`;
+        expect(isConfigKeyAllowed(key)).toBe(true);
+        expect(getRegistryEntry(key)?.getDefault()).toBe(
+          ASSESSMENT_REGISTRY[assessmentType].configs[Number(version)].defaults
+        );
+      }
+    }
+    expect(isConfigKeyAllowed('assessment-config:other:1')).toBe(false);
+  });
+
+  it('resolves content files by type and version', () => {
+    expect(getQuestionSetFile('gut-check', 2)).not.toBeNull();
+    expect(getQuestionSetFile('gut-check', 'v2')).toBe(getQuestionSetFile('gut-check', '2'));
+    expect(getQuestionSetFile('gut-check', 1)).toBeNull();
+    expect(getQuestionSetFile('other', 2)).toBeNull();
+    expect(getResultsPacksFile('gut-check', GUT_CHECK_RESULTS_CONTENT_VERSION)).not.toBeNull();
+    expect(getResultsPacksFile('other', 'v2')).toBeNull();
+  });
+});
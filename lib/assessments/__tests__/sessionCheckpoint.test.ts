@@ -0,0 +1,102 @@
+/**
+ * Tests for resuming assessments from server-side checkpoints
+ */
+
+import {
+  getQuestionSetFingerprint,
+  planResume,
+  type StoredCheckpoint,
+} from '../sessionCheckpoint';
+import type { ConditionalQuestion } from '../questions/visibility';
+
+const frequencyOptions = ['never', 'rarely', 'sometimes', 'often'].map((id, value) => ({ id, value }));
+
+const questions: ConditionalQuestion[] = [
+  { id: 'q1', options: frequencyOptions },
+  { id: 'q2', options: frequencyOptions, visibleIf: { question: 'q1', isNot: 'never' } },
+  { id: 'q3', options: frequencyOptions },
+  { id: 'q4', options: frequencyOptions },
+];
+
+const now = new Date('2025-03-10T12:00:00Z');
+
+function makeCheckpoint(overrides: Partial<StoredCheckpoint> = {}): StoredCheckpoint {
+  return {
+    sessionId: 'session-1',
+    updatedAt: '2025-03-09T12:00:00Z',
+    questionSetFingerprint: getQuestionSetFingerprint(questions),
+    currentQuestionIndex: 2,
+    answers: [
+      { questionId: 'q1', optionId: 'sometimes' },
+      { questionId: 'q2', optionId: 'often' },
+    ],
+    ...overrides,
+  };
+}
+
+describe('getQuestionSetFingerprint', () => {
+  it('should ignore copy edits but change when options change', () => {
+    const reworded = questions.map((q) => ({ ...q, text: `Reworded ${q.id}` }));
+    expect(getQuestionSetFingerprint(reworded)).toBe(getQuestionSetFingerprint(questions));
+
+    const withoutOption = [{ ...questions[0], options: frequencyOptions.slice(0, 3) }, ...questions.slice(1)];
+    expect(getQuestionSetFingerprint(withoutOption)).not.toBe(getQuestionSetFingerprint(questions));
+  });
+});
+
+describe('planResume', () => {
+  it('should resume at the saved question when the question set is unchanged', () => {
+    const plan = planResume(makeCheckpoint(), questions, now);
+    expect(plan).toMatchObject({
+      sessionId: 'session-1',
+      currentQuestionIndex: 2,
+      questionSetChanged: false,
+      droppedAnswerCount: 0,
+      answeredCount: 2,
+      visibleQuestionCount: 4,
+    });
+  });
+
+  it('should ignore expired checkpoints and checkpoints without answers', () => {
+    expect(planResume(makeCheckpoint({ updatedAt: '2025-01-01T00:00:00Z' }), questions, now)).toBeNull();
+    expect(planResume(makeCheckpoint({ answers: [] }), questions, now)).toBeNull();
+  });
+
+  it('should drop answers to removed questions/options when the question set changed', () => {
+    // q2 removed; q1 lost its "sometimes" option; q3 answered
+    const changed: ConditionalQuestion[] = [
+      { id: 'q1', options: frequencyOptions.filter((o) => o.id !== 'sometimes') },
+      { id: 'q3', options: frequencyOptions },
+      { id: 'q4', options: frequencyOptions },
+    ];
+    const checkpoint = makeCheckpoint({
+      answers: [
+        { questionId: 'q1', optionId: 'sometimes' },
+        { questionId: 'q2', optionId: 'often' },
+        { questionId: 'q3', optionId: 'rarely' },
+      ],
+    });
+
+    const plan = planResume(checkpoint, changed, now);
+    expect(plan?.questionSetChanged).toBe(true);
+    expect(plan?.answers).toEqual([{ questionId: 'q3', optionId: 'rarely' }]);
+    expect(plan?.droppedAnswerCount).toBe(2);
+    // Resumes at the first unanswered visible question (q1), not the saved index
+    expect(plan?.currentQuestionIndex).toBe(0);
+  });
+
+  it('should prune answers to questions that are now hidden', () => {
+    const checkpoint = makeCheckpoint({
+      answers: [
+        { questionId: 'q1', optionId: 'never' },
+        { questionId: 'q2', optionId: 'often' },
+      ],
+      currentQuestionIndex: 1,
+    });
+
+    const plan = planResume(checkpoint, questions, now);
+    expect(plan?.answers).toEqual([{ questionId: 'q1', optionId: 'never' }]);
+    // Saved index (q2) is hidden, so resume at q3
+    expect(plan?.currentQuestionIndex).toBe(2);
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Assessment Content Files
+ *
+ * File fallbacks for question sets and results packs, keyed by assessment type
+ * and version. Used by loadQuestionSet/loadResultsPack when the CMS has no content.
+ *
+ * Server-side only (imports full content JSON). Register new assessment
+ * content here alongside its entry in ./registry.ts.
+ */
+
+import gutCheckQuestionsV2 from '@/content/assessments/gut-check/questions_v2.json';
+import gutCheckResultsV1 from '@/content/assessments/gut-check/results_v1.json';
+import gutCheckResultsV2 from '@/content/assessments/gut-check/results_v2.json';
+
+export interface AssessmentContentFiles {
+  /** Question set JSON by assessment version ("2") */
+  questionSets: Record<string, unknown>;
+  /** Results packs JSON by results version ("1", "2") */
+  resultsPacks: Record<string, unknown>;
+}
+
+export const ASSESSMENT_CONTENT_FILES: Record<string, AssessmentContentFiles> = {
+  'gut-check': {
+    questionSets: {
+      '2': gutCheckQuestionsV2,
+    },
+    resultsPacks: {
+      '1': gutCheckResultsV1,
+      '2': gutCheckResultsV2,
+    },
+  },
+};
+
+/**
+ * Normalize "v2" / "2" / 2 to "2"
+ */
+function normalizeVersionKey(version: string | number): string {
+  const versionStr = String(version);
+  return versionStr.startsWith('v') ? versionStr.slice(1) : versionStr;
+}
+
+/**
+ * Get question set file content for an assessment type and version (null if none)
+ */
+export function getQuestionSetFile(assessmentType: string, version: string | number): unknown | null {
+  const files = ASSESSMENT_CONTENT_FILES[assessmentType];
+  return files?.questionSets[normalizeVersionKey(version)] ?? null;
+}
+
+/**
+ * Get results packs file content for an assessment type and results version (null if none)
+ */
+export function getResultsPacksFile(assessmentType: string, resultsVersion: string | number): unknown | null {
+  const files = ASSESSMENT_CONTENT_FILES[assessmentType];
+  return files?.resultsPacks[normalizeVersionKey(resultsVersion)] ?? null;
+}
@@ -0,0 +1,112 @@
+/**
+ * Tests for question types (multi-select, slider, free text) and their scoring contribution
+ */
+
+import {
+  answerToResponseValue,
+  canLeaveQuestion,
+  isAnswerComplete,
+  snapSliderValue,
+  toggleOptionSelection,
+  type TypedQuestion,
+} from '../questionTypes';
+import { convertAnswersToResponsesMap } from '@/lib/assessmentScoringV2';
+
+const symptoms: TypedQuestion = {
+  id: 'q18',
+  type: 'multi',
+  options: [
+    { id: 'bloating', value: 1 },
+    { id: 'gas', value: 1 },
+    { id: 'cramping', value: 1 },
+    { id: 'reflux', value: 1 },
+    { id: 'none', value: 0, exclusive: true },
+  ],
+  maxSelections: 4,
+};
+
+const stress: TypedQuestion = { id: 'q19', type: 'slider', slider: { min: 0, max: 10, step: 1 } };
+
+const notes: TypedQuestion = { id: 'q20', type: 'text', maxLength: 10 };
+
+describe('answerToResponseValue', () => {
+  it('should use the option value for single choice', () => {
+    const single: TypedQuestion = { id: 'q1', options: [{ id: 'a', value: 0 }, { id: 'b', value: 2 }] };
+    expect(answerToResponseValue(single, { questionId: 'q1', optionId: 'b' })).toBe(2);
+  });
+
+  it('should sum multi-select values, capped at 3', () => {
+    expect(answerToResponseValue(symptoms, { questionId: 'q18', optionIds: ['none'] })).toBe(0);
+    expect(answerToResponseValue(symptoms, { questionId: 'q18', optionIds: ['bloating', 'gas'] })).toBe(2);
+    expect(
+      answerToResponseValue(symptoms, { questionId: 'q18', optionIds: ['bloating', 'gas', 'cramping', 'reflux'] })
+    ).toBe(3);
+  });
+
+  it('should map the slider range onto 0-3', () => {
+    expect(answerToResponseValue(stress, { questionId: 'q19', value: 0 })).toBe(0);
+    expect(answerToResponseValue(stress, { questionId: 'q19', value: 5 })).toBe(1.5);
+    expect(answerToResponseValue(stress, { questionId: 'q19', value: 10 })).toBe(3);
+  });
+
+  it('should never score free text', () => {
+    expect(answerToResponseValue(notes, { questionId: 'q20', text: 'hello' })).toBeNull();
+  });
+
+  it('should drive convertAnswersToResponsesMap', () => {
+    const responses = convertAnswersToResponsesMap(
+      [
+        { questionId: 'q18', optionIds: ['gas'] },
+        { questionId: 'q19', value: 10 },
+        { questionId: 'q20', text: 'hello' },
+      ],
+      { questions: [symptoms, stress, notes] }
+    );
+    expect(responses).toEqual({ q18: 1, q19: 3 });
+  });
+});
+
+describe('toggleOptionSelection', () => {
+  it('should toggle picks and clear exclusive options', () => {
+    expect(toggleOptionSelection(symptoms, ['gas'], 'bloating')).toEqual(['gas', 'bloating']);
+    expect(toggleOptionSelection(symptoms, ['gas', 'bloating'], 'gas')).toEqual(['bloating']);
+    expect(toggleOptionSelection(symptoms, ['gas', 'bloating'], 'none')).toEqual(['none']);
+    expect(toggleOptionSelection(symptoms, ['none'], 'gas')).toEqual(['gas']);
+  });
+
+  it('should ignore picks beyond maxSelections', () => {
+    const limited = { ...symptoms, maxSelections: 2 };
+    expect(toggleOptionSelection(limited, ['gas', 'bloating'], 'reflux')).toEqual(['gas', 'bloating']);
+  });
+});
+
+describe('isAnswerComplete / canLeaveQuestion', () => {
+  it('should enforce multi-select min/max picks', () => {
+    const atLeastTwo = { ...symptoms, minSelections: 2 };
+    expect(isAnswerComplete(atLeastTwo, { questionId: 'q18', optionIds: ['gas'] })).toBe(false);
+    expect(isAnswerComplete(atLeastTwo, { questionId: 'q18', optionIds: ['gas', 'reflux'] })).toBe(true);
+    expect(isAnswerComplete(symptoms, { questionId: 'q18', optionIds: [] })).toBe(false);
+  });
+
+  it('should require a slider value within range', () => {
+    expect(isAnswerComplete(stress, { questionId: 'q19' })).toBe(false);
+    expect(isAnswerComplete(stress, { questionId: 'q19', value: 11 })).toBe(false);
+    expect(isAnswerComplete(stress, { questionId: 'q19', value: 7 })).toBe(true);
+  });
+
+  it('should let optional free text be skipped but enforce maxLength', () => {
+    expect(canLeaveQuestion(notes, undefined)).toBe(true);
+    expect(canLeaveQuestion(notes, { questionId: 'q20', text: 'short' })).toBe(true);
+    expect(canLeaveQuestion(notes, { questionId: 'q20', text: 'far too long' })).toBe(false);
+    expect(canLeaveQuestion({ ...notes, required: true }, undefined)).toBe(false);
+  });
+});
+
+describe('snapSliderValue', () => {
+  it('should clamp to the range and snap to the step', () => {
+    const slider = { min: 0, max: 1, step: 0.1 };
+    expect(snapSliderValue(slider, 0.34)).toBe(0.3);
+    expect(snapSliderValue(slider, 2)).toBe(1);
+    expect(snapSliderValue(slider, -1)).toBe(0);
+  });
+});
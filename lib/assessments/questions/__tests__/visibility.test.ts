@@ -0,0 +1,97 @@
+/**
+ * Tests for question visibility (branching) rules
+ */
+
+import {
+  areAllVisibleQuestionsAnswered,
+  evaluateVisibilityCondition,
+  getNextVisibleQuestionIndex,
+  getPreviousVisibleQuestionIndex,
+  getVisibleQuestionIndexes,
+  pruneHiddenAnswers,
+  type ConditionalQuestion,
+} from '../visibility';
+
+const frequencyOptions = ['never', 'rarely', 'sometimes', 'often'].map((id) => ({ id }));
+
+// q2 is asked only if q1 was not "Never"; q3 only if q2 was "Often"
+const questions: ConditionalQuestion[] = [
+  { id: 'q1', options: frequencyOptions },
+  { id: 'q2', options: frequencyOptions, visibleIf: { question: 'q1', isNot: 'never' } },
+  { id: 'q3', options: frequencyOptions, visibleIf: { question: 'q2', is: 'often' } },
+  { id: 'q4', options: frequencyOptions },
+];
+
+describe('evaluateVisibilityCondition', () => {
+  it('should match is/isNot against the selected option', () => {
+    expect(evaluateVisibilityCondition({ question: 'q1', is: ['a', 'b'] }, { q1: ['b'] })).toBe(true);
+    expect(evaluateVisibilityCondition({ question: 'q1', isNot: 'a' }, { q1: ['a'] })).toBe(false);
+  });
+
+  it('should match multi-select picks (is: any listed picked, isNot: none picked)', () => {
+    expect(evaluateVisibilityCondition({ question: 'q1', is: 'bloating' }, { q1: ['gas', 'bloating'] })).toBe(true);
+    expect(evaluateVisibilityCondition({ question: 'q1', isNot: 'bloating' }, { q1: ['gas', 'bloating'] })).toBe(false);
+    expect(evaluateVisibilityCondition({ question: 'q1', isNot: 'bloating' }, { q1: ['gas'] })).toBe(true);
+    expect(evaluateVisibilityCondition({ question: 'q1', is: 'gas' }, { q1: [] })).toBe(false);
+  });
+
+  it('should treat an unanswered question as not matching is or isNot', () => {
+    expect(evaluateVisibilityCondition({ question: 'q1', is: 'a' }, {})).toBe(false);
+    expect(evaluateVisibilityCondition({ question: 'q1', isNot: 'a' }, {})).toBe(false);
+  });
+
+  it('should compose all/any', () => {
+    const condition = {
+      any: [{ question: 'q1', is: 'a' }, { all: [{ question: 'q1', is: 'b' }, { question: 'q2', is: 'c' }] }],
+    };
+    expect(evaluateVisibilityCondition(condition, { q1: ['b'], q2: ['c'] })).toBe(true);
+    expect(evaluateVisibilityCondition(condition, { q1: ['b'], q2: ['d'] })).toBe(false);
+  });
+});
+
+describe('getVisibleQuestionIndexes', () => {
+  it('should show unconditional questions and hide conditional ones until their condition matches', () => {
+    expect(getVisibleQuestionIndexes(questions, [])).toEqual([0, 3]);
+    expect(getVisibleQuestionIndexes(questions, [{ questionId: 'q1', optionId: 'sometimes' }])).toEqual([0, 1, 3]);
+  });
+
+  it('should hide dependents of a question that became hidden', () => {
+    const answers = [
+      { questionId: 'q1', optionId: 'never' },
+      { questionId: 'q2', optionId: 'often' }, // stale: answered before q1 was changed
+    ];
+    expect(getVisibleQuestionIndexes(questions, answers)).toEqual([0, 3]);
+    expect(pruneHiddenAnswers(questions, answers)).toEqual([{ questionId: 'q1', optionId: 'never' }]);
+  });
+});
+
+describe('navigation', () => {
+  const answers = [
+    { questionId: 'q1', optionId: 'sometimes' },
+    { questionId: 'q2', optionId: 'rarely' },
+  ];
+
+  it('should skip hidden questions in both directions', () => {
+    expect(getNextVisibleQuestionIndex(questions, answers, 1)).toBe(3);
+    expect(getPreviousVisibleQuestionIndex(questions, answers, 3)).toBe(1);
+  });
+
+  it('should return null at either end', () => {
+    expect(getNextVisibleQuestionIndex(questions, answers, 3)).toBeNull();
+    expect(getPreviousVisibleQuestionIndex(questions, answers, 0)).toBeNull();
+  });
+
+  it('should require answers to visible questions only', () => {
+    expect(areAllVisibleQuestionsAnswered(questions, answers)).toBe(false);
+    expect(areAllVisibleQuestionsAnswered(questions, [...answers, { questionId: 'q4', optionId: 'never' }])).toBe(true);
+  });
+
+  it('should not require optional free-text questions', () => {
+    const withText: ConditionalQuestion[] = [...questions, { id: 'q5', type: 'text' }];
+    const complete = [...answers, { questionId: 'q4', optionId: 'never' }];
+    expect(areAllVisibleQuestionsAnswered(withText, complete)).toBe(true);
+    expect(areAllVisibleQuestionsAnswered([...questions, { id: 'q5', type: 'text', required: true }], complete)).toBe(
+      false
+    );
+  });
+});
@@ -3,9 +3,13 @@
  * 
  * Loads assessment question set content from JSON files.
  * Returns the question set object for a specific version.
+ * Files are registered per assessment type in lib/assessments/contentFiles.ts.
  */
 
-import questionsV2 from '@/content/assessments/gut-check/questions_v2.json';
+import { getQuestionSetFile } from '@/lib/assessments/contentFiles';
+import type { ScoringSpec } from '@/lib/assessments/scoring/scoringSpec';
+import type { VisibilityCondition } from './visibility';
+import type { QuestionType, SliderConfig } from './questionTypes';
 
 /**
  * Question Set interface (v2 schema)
@@ -21,12 +25,21 @@ export interface QuestionSet {
   questions: Array<{
     id: string;
     text: string;
+    type?: QuestionType; // Absent = 'single'
     options: Array<{
       id: string;
       label: string;
       value: number;
+      exclusive?: boolean;
     }>;
+    minSelections?: number;
+    maxSelections?: number;
+    slider?: SliderConfig;
+    maxLength?: number;
+    required?: boolean;
+    visibleIf?: VisibilityCondition; // Absent = always shown
   }>;
+  scoring?: ScoringSpec; // Absent = default gut-check v2 scoring spec
 }
 
 interface LoadQuestionSetInput {
@@ -45,11 +58,9 @@ export function loadQuestionSet(input: LoadQuestionSetInput): QuestionSet | null
   const versionStr = String(assessmentVersion);
 
   // Load the appropriate question version
-  let questionSet: QuestionSet;
-  
-  if (assessmentType === 'gut-check' && (versionStr === '2' || versionStr === 'v2')) {
-    questionSet = questionsV2 as QuestionSet;
-  } else {
+  const questionSet = getQuestionSetFile(assessmentType, versionStr) as QuestionSet | null;
+
+  if (!questionSet) {
     console.error(`Unsupported assessmentType/assessmentVersion: ${assessmentType}/${assessmentVersion}`);
     return null;
   }
@@ -0,0 +1,218 @@
+/**
+ * Question Types
+ *
+ * Question set questions have a `type` (default "single"):
+ * - single: pick exactly one option (option.value 0-3)
+ * - multi:  pick between minSelections and maxSelections options ("select all that apply");
+ *           an option marked `exclusive` (e.g., "None of these") clears the other picks
+ * - slider: pick a number on slider.min..slider.max (step slider.step, default 1)
+ * - text:   optional short free text (maxLength, default 280); `required: true` makes it mandatory
+ *
+ * Scoring contribution (response value on the 0-3 scale used by the scoring engine):
+ * - single: the option value
+ * - multi:  sum of the selected option values, capped at 3 (e.g., symptoms worth 1 each,
+ *           "None of these" worth 0: 0, 1, 2 or 3+ symptoms)
+ * - slider: slider.min..slider.max mapped linearly onto 0..3
+ * - text:   never scored (cannot be referenced by scoring rules)
+ *
+ * Client-safe: pure functions only.
+ */
+
+import type { Answer } from '@/lib/assessmentTypes';
+
+export type QuestionType = 'single' | 'multi' | 'slider' | 'text';
+
+export const QUESTION_TYPES: QuestionType[] = ['single', 'multi', 'slider', 'text'];
+
+export interface SliderConfig {
+  min: number;
+  max: number;
+  step?: number; // Default 1
+  minLabel?: string;
+  maxLabel?: string;
+}
+
+export const DEFAULT_TEXT_MAX_LENGTH = 280;
+
+/** Upper bound of the response scale answers are mapped onto (0..3) */
+export const RESPONSE_SCALE_MAX = 3;
+
+/** Minimal question shape needed to interpret answers */
+export interface TypedQuestion {
+  id: string;
+  type?: QuestionType;
+  options?: Array<{ id: string; value?: number; exclusive?: boolean }>;
+  minSelections?: number;
+  maxSelections?: number;
+  slider?: SliderConfig;
+  maxLength?: number;
+  required?: boolean;
+}
+
+export function getQuestionType(question: Pick<TypedQuestion, 'type'>): QuestionType {
+  return question.type || 'single';
+}
+
+/**
+ * True for question types answered by picking options (single, multi)
+ */
+export function isOptionQuestion(question: Pick<TypedQuestion, 'type'>): boolean {
+  const type = getQuestionType(question);
+  return type === 'single' || type === 'multi';
+}
+
+/**
+ * Min/max number of options that may be picked
+ */
+export function getSelectionLimits(question: TypedQuestion): { min: number; max: number } {
+  if (getQuestionType(question) !== 'multi') {
+    return { min: 1, max: 1 };
+  }
+  const optionCount = question.options?.length ?? 0;
+  return {
+    min: question.minSelections ?? 1,
+    max: question.maxSelections ?? optionCount,
+  };
+}
+
+/**
+ * Free text is optional unless `required: true`; every other type must be answered
+ */
+export function isQuestionRequired(question: TypedQuestion): boolean {
+  return getQuestionType(question) === 'text' ? question.required === true : true;
+}
+
+/**
+ * Selected option ids of an answer (single: [optionId], multi: optionIds)
+ */
+export function getSelectedOptionIds(answer: Answer | undefined): string[] {
+  if (!answer) return [];
+  if (Array.isArray(answer.optionIds)) return answer.optionIds;
+  return answer.optionId ? [answer.optionId] : [];
+}
+
+function getSliderStep(slider: SliderConfig): number {
+  return slider.step && slider.step > 0 ? slider.step : 1;
+}
+
+/**
+ * Clamp a slider value to the range and snap it to the nearest step
+ */
+export function snapSliderValue(slider: SliderConfig, value: number): number {
+  const step = getSliderStep(slider);
+  const clamped = Math.min(Math.max(value, slider.min), slider.max);
+  const snapped = slider.min + Math.round((clamped - slider.min) / step) * step;
+  // Avoid float noise (e.g., 0.30000000000000004)
+  return Math.min(parseFloat(snapped.toFixed(6)), slider.max);
+}
+
+/**
+ * True when the answer is a complete, valid answer to the question
+ */
+export function isAnswerComplete(question: TypedQuestion, answer: Answer | undefined): boolean {
+  if (!answer) return false;
+
+  const type = getQuestionType(question);
+  const optionIds = (question.options || []).map((o) => o.id);
+
+  if (type === 'single') {
+    return !!answer.optionId && optionIds.includes(answer.optionId);
+  }
+
+  if (type === 'multi') {
+    const selected = getSelectedOptionIds(answer);
+    const { min, max } = getSelectionLimits(question);
+    return (
+      selected.length >= min &&
+      selected.length <= max &&
+      selected.every((id) => optionIds.includes(id))
+    );
+  }
+
+  if (type === 'slider') {
+    return (
+      !!question.slider &&
+      typeof answer.value === 'number' &&
+      !isNaN(answer.value) &&
+      answer.value >= question.slider.min &&
+      answer.value <= question.slider.max
+    );
+  }
+
+  // text
+  const maxLength = question.maxLength ?? DEFAULT_TEXT_MAX_LENGTH;
+  return typeof answer.text === 'string' && answer.text.trim().length > 0 && answer.text.length <= maxLength;
+}
+
+/**
+ * True when the user may move past the question (answered, or optional and unanswered)
+ */
+export function canLeaveQuestion(question: TypedQuestion, answer: Answer | undefined): boolean {
+  if (!isQuestionRequired(question) && !answer?.text?.trim()) {
+    return true;
+  }
+  return isAnswerComplete(question, answer);
+}
+
+/**
+ * Toggle an option in a multi-select answer
+ *
+ * Exclusive options clear all other picks (and are cleared by any other pick).
+ * Picks beyond maxSelections are ignored.
+ */
+export function toggleOptionSelection(question: TypedQuestion, selected: string[], optionId: string): string[] {
+  if (selected.includes(optionId)) {
+    return selected.filter((id) => id !== optionId);
+  }
+
+  const options = question.options || [];
+  const option = options.find((o) => o.id === optionId);
+  if (!option) return selected;
+
+  if (option.exclusive) {
+    return [optionId];
+  }
+
+  const exclusiveIds = options.filter((o) => o.exclusive).map((o) => o.id);
+  const next = selected.filter((id) => !exclusiveIds.includes(id));
+  if (next.length >= getSelectionLimits(question).max) {
+    return next;
+  }
+  return [...next, optionId];
+}
+
+/**
+ * Scoring contribution of an answer on the 0-3 response scale (null = not scored)
+ */
+export function answerToResponseValue(question: TypedQuestion, answer: Answer): number | null {
+  const type = getQuestionType(question);
+  const options = question.options || [];
+
+  if (type === 'single') {
+    const optionIndex = options.findIndex((o) => o.id === answer.optionId);
+    if (optionIndex < 0) return null;
+    const value = options[optionIndex].value;
+    // Use explicit value if available (v2), otherwise use index (v1 fallback)
+    return typeof value === 'number'
+      ? Math.min(Math.max(value, 0), RESPONSE_SCALE_MAX)
+      : Math.min(optionIndex, RESPONSE_SCALE_MAX);
+  }
+
+  if (type === 'multi') {
+    const selected = options.filter((o) => getSelectedOptionIds(answer).includes(o.id));
+    if (selected.length === 0) return null;
+    const sum = selected.reduce((total, o) => total + Math.max(o.value ?? 0, 0), 0);
+    return Math.min(sum, RESPONSE_SCALE_MAX);
+  }
+
+  if (type === 'slider') {
+    const slider = question.slider;
+    if (!slider || typeof answer.value !== 'number' || isNaN(answer.value) || slider.max <= slider.min) {
+      return null;
+    }
+    const clamped = Math.min(Math.max(answer.value, slider.min), slider.max);
+    return ((clamped - slider.min) / (slider.max - slider.min)) * RESPONSE_SCALE_MAX;
+  }
+
+  return null; // text is never scored
+}
@@ -0,0 +1,155 @@
+/**
+ * Assessment Page Config Resolver
+ *
+ * Resolves the runtime AssessmentConfig for a public assessment page
+ * (CMS-first via resolveQuestionSet, with file and legacy fallbacks).
+ * Shared by /gut-check and /assessments/[assessmentType].
+ * The request locale (see getRequestLocale) selects a translation via the fallback chain and is
+ * carried on the config so the submission pins it.
+ */
+
+import { resolveQuestionSet } from './resolveQuestionSet';
+import { loadQuestionSet } from './loadQuestionSet';
+import { questionSetToAssessmentConfig, getAssessmentConfig } from '@/lib/assessmentConfig';
+import { getAssessmentDefinition } from '@/lib/assessments/registry';
+import type { AssessmentConfig } from '@/lib/assessmentTypes';
+import { DEFAULT_LOCALE, normalizeLocale } from '@/lib/i18n/locale';
+
+export interface ResolvedAssessmentConfig {
+  config: AssessmentConfig;
+  resolvedSource: 'cms' | 'file';
+  revisionId?: string;
+  servedLocale: string; // Locale of the question set actually used (may be a fallback)
+}
+
+/**
+ * Legacy fallback
+ *
+ * gut-check keeps its hard-coded config (including v1, which has no question set file).
+ * Other assessment types fall back to the file for their default version.
+ */
+async function loadLegacyConfig(assessmentType: string, version: number): Promise<AssessmentConfig | null> {
+  if (assessmentType === 'gut-check') {
+    return getAssessmentConfig('gut-check', version);
+  }
+
+  const definition = getAssessmentDefinition(assessmentType);
+  if (!definition) return null;
+
+  const fileQuestionSet = loadQuestionSet({
+    assessmentType,
+    assessmentVersion: definition.defaultVersion,
+    locale: null,
+  });
+  return fileQuestionSet ? questionSetToAssessmentConfig(fileQuestionSet, definition.defaultVersion) : null;
+}
+
+/**
+ * Resolve assessment config for a public page
+ *
+ * IMPORTANT: Never uses preview for public runtime (preview only via admin tooling)
+ *
+ * @returns Resolved config, or null if the assessment type is not registered or has no content
+ */
+export async function resolveAssessmentConfig(
+  assessmentType: string,
+  requestedVersion: number,
+  locale?: string | null
+): Promise<ResolvedAssessmentConfig | null> {
+  const definition = getAssessmentDefinition(assessmentType);
+  if (!definition) {
+    return null;
+  }
+
+  const defaultVersion = definition.defaultVersion;
+  let config: AssessmentConfig | null = null;
+  let resolvedSource: 'cms' | 'file' | 'cms_empty' = 'file';
+  let revisionId: string | undefined;
+  let servedLocale = DEFAULT_LOCALE;
+  const requestedLocale = normalizeLocale(locale) ?? DEFAULT_LOCALE;
+
+  try {
+    const result = await resolveQuestionSet({
+      assessmentType,
+      assessmentVersion: requestedVersion,
+      locale: requestedLocale, // Falls back es-MX → es → default
+      preview: false, // Never use preview for public runtime
+      userRole: 'user', // Public runtime is always 'user'
+      pinnedQuestionsRef: null, // No pinning at runtime
+    });
+
+    resolvedSource = result.source;
+    revisionId = result.questionSetRef?.publishedRevisionId || result.questionSetRef?.previewRevisionId;
+
+    if ((result.source === 'cms' || result.source === 'file') && result.questionSet) {
+      // Convert QuestionSet to AssessmentConfig
+      config = questionSetToAssessmentConfig(result.questionSet, requestedVersion);
+      servedLocale = result.locale ?? DEFAULT_LOCALE;
+    } else if (result.source === 'cms_empty') {
+      // CMS exists but no published revision - try file fallback for this version
+      const fileQuestionSet = loadQuestionSet({
+        assessmentType,
+        assessmentVersion: requestedVersion,
+        locale: null,
+      });
+
+      if (fileQuestionSet) {
+        config = questionSetToAssessmentConfig(fileQuestionSet, requestedVersion);
+      } else if (requestedVersion !== defaultVersion) {
+        // No file fallback for this version - fallback to default version file
+        const defaultQuestionSet = loadQuestionSet({
+          assessmentType,
+          assessmentVersion: defaultVersion,
+          locale: null,
+        });
+
+        if (defaultQuestionSet) {
+          config = questionSetToAssessmentConfig(defaultQuestionSet, defaultVersion);
+          console.warn(`[${assessmentType}] Version ${requestedVersion} not available, falling back to v${defaultVersion} file`);
+        } else {
+          // Last resort: legacy config for default version
+          config = await loadLegacyConfig(assessmentType, defaultVersion);
+        }
+      } else {
+        // Default version requested but no file - use legacy config
+        config = await loadLegacyConfig(assessmentType, defaultVersion);
+      }
+      resolvedSource = 'file';
+    } else {
+      // Unexpected state - fallback to legacy config
+      config = await loadLegacyConfig(assessmentType, requestedVersion);
+      resolvedSource = 'file';
+    }
+  } catch (error) {
+    // Error resolving - fallback to legacy config
+    console.error(`[${assessmentType}] Error resolving question set, using file fallback:`, error);
+    config = await loadLegacyConfig(assessmentType, requestedVersion);
+    resolvedSource = 'file';
+  }
+
+  // Minimal server-side logging (structured)
+  console.log(`[${assessmentType}] Question set resolved`, {
+    requestedVersion,
+    resolvedSource,
+    revisionId: revisionId || null,
+    requestedLocale,
+    servedLocale,
+  });
+
+  if (!config) {
+    return null;
+  }
+
+  return {
+    // Requested locale is pinned on the submission (results/PDF/email resolve their own fallback)
+    // Served CMS revision tags analytics events (omitted, not undefined, for getServerSideProps)
+    config: {
+      ...config,
+      locale: requestedLocale,
+      ...(resolvedSource === 'cms' && revisionId ? { questionSetRevisionId: revisionId } : {}),
+    },
+    resolvedSource: resolvedSource === 'cms' ? 'cms' : 'file',
+    revisionId,
+    servedLocale,
+  };
+}
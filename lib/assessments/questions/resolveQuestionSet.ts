@@ -3,9 +3,12 @@
  * 
  * CMS-first resolution with file fallback.
  * Supports preview mode for editors/admins and pinning for reproducibility.
+ * Localized: walks the locale fallback chain (es-MX → es → en); each locale is its own
+ * question_sets identity with its own pointers, so translations are published independently.
  */
 
 import { loadQuestionSet, type QuestionSet } from './loadQuestionSet';
+import { DEFAULT_LOCALE, getLocaleFallbackChain, toStoredLocale } from '@/lib/i18n/locale';
 
 export interface QuestionSetRef {
   source: 'cms' | 'file';
@@ -13,13 +16,14 @@ export interface QuestionSetRef {
   publishedRevisionId?: string;
   previewRevisionId?: string;
   contentHash?: string;
+  locale?: string | null; // Locale of the served question set (NULL = default)
   resolvedAt: string;
 }
 
 export interface ResolveQuestionSetOptions {
   assessmentType: string;
   assessmentVersion: string | number;
-  locale?: string | null;
+  locale?: string | null; // Requested locale (default locale if unset)
   preview?: boolean;
   userRole?: 'user' | 'editor' | 'admin';
   pinnedQuestionsRef?: QuestionSetRef | null;
@@ -34,6 +38,7 @@ export interface ResolveQuestionSetResult {
   isPreview?: boolean;
   questionSetRef?: QuestionSetRef;
   questionSetId?: string; // Include for cms_empty case
+  locale?: string; // Locale actually served (may be a fallback of the requested locale)
 }
 
 /**
@@ -41,9 +46,10 @@ export interface ResolveQuestionSetResult {
  * 
  * Priority:
  * 1. If pinnedQuestionsRef exists and source is 'cms', fetch exact revision
- * 2. If preview=true and user is editor/admin, use preview_revision_id
- * 3. Try CMS published revision
- * 4. Fallback to file loader
+ * 2. For each locale in the fallback chain (most specific first):
+ *    a. If preview=true and user is editor/admin, use preview_revision_id
+ *    b. Try CMS published revision
+ * 3. Fallback to file loader (default locale only)
  */
 export async function resolveQuestionSet(
   options: ResolveQuestionSetOptions
@@ -77,6 +83,7 @@ export async function resolveQuestionSet(
             schemaVersion: rev.schema_version,
             publishedAt: rev.created_at,
             questionSetRef: pinnedQuestionsRef, // Return existing ref (no update needed)
+            locale: pinnedQuestionsRef.locale || DEFAULT_LOCALE,
           };
         }
       }
@@ -87,51 +94,55 @@ export async function resolveQuestionSet(
     }
   }
 
-  // Step 2: Check if question set exists in CMS (for better error messages)
   const { supabaseAdmin } = await import('@/lib/supabaseServerClient');
   const versionStr = String(assessmentVersion);
-  
-  let query = supabaseAdmin
-    .from('question_sets')
-    .select('id, assessment_type, assessment_version, locale')
-    .eq('assessment_type', assessmentType)
-    .eq('assessment_version', versionStr);
-  
-  if (locale === null || locale === undefined || locale === '') {
-    query = query.is('locale', null);
-  } else {
-    query = query.eq('locale', locale);
-  }
-  
-  const { data: questionSetRow, error: checkError } = await query.maybeSingle();
-  const questionSetExistsInCMS = !!questionSetRow;
-  
-  // Log for debugging
-  if (process.env.NODE_ENV === 'development') {
-    console.log('[resolveQuestionSet] CMS existence check:', {
-      assessmentType,
-      assessmentVersion: versionStr,
-      locale: locale || 'null',
-      exists: questionSetExistsInCMS,
-      questionSetId: questionSetRow?.id,
-      checkError: checkError?.message,
-    });
-  }
-
-  // Step 3: Try CMS (published or preview)
   const allowPreview = preview && (userRole === 'editor' || userRole === 'admin');
-  
-  if (allowPreview) {
-    // Preview mode: try preview_revision_id first
+
+  // Step 2: Try CMS along the locale fallback chain
+  // A locale without a published revision (e.g., translation still in draft) falls through
+  for (const candidateLocale of getLocaleFallbackChain(locale)) {
+    if (allowPreview) {
+      // Preview mode: try preview_revision_id first
+      try {
+        const questionSetRef = await fetchQuestionSetFromCMS(assessmentType, assessmentVersion, candidateLocale, true);
+        if (questionSetRef) {
+          // Create/update questionSetRef for preview
+          const newRef: QuestionSetRef = {
+            source: 'cms',
+            questionSetId: questionSetRef.questionSetId,
+            previewRevisionId: questionSetRef.revisionId,
+            contentHash: questionSetRef.contentHash,
+            locale: toStoredLocale(candidateLocale),
+            resolvedAt: new Date().toISOString(),
+          };
+          return {
+            questionSet: questionSetRef.questionSet,
+            source: 'cms',
+            contentHash: questionSetRef.contentHash,
+            schemaVersion: questionSetRef.schemaVersion,
+            publishedAt: questionSetRef.publishedAt,
+            isPreview: true, // Mark as preview
+            questionSetRef: newRef,
+            locale: candidateLocale,
+          };
+        }
+      } catch (error) {
+        console.warn('[resolveQuestionSet] Preview fetch failed, trying published:', error);
+        // Fall through to published
+      }
+    }
+
+    // Try CMS published revision
     try {
-      const questionSetRef = await fetchQuestionSetFromCMS(assessmentType, assessmentVersion, locale, true);
+      const questionSetRef = await fetchQuestionSetFromCMS(assessmentType, assessmentVersion, candidateLocale, false);
       if (questionSetRef) {
-        // Create/update questionSetRef for preview
+        // Create questionSetRef for pinning
         const newRef: QuestionSetRef = {
           source: 'cms',
           questionSetId: questionSetRef.questionSetId,
-          previewRevisionId: questionSetRef.revisionId,
+          publishedRevisionId: questionSetRef.revisionId,
           contentHash: questionSetRef.contentHash,
+          locale: toStoredLocale(candidateLocale),
           resolvedAt: new Date().toISOString(),
         };
         return {
@@ -140,43 +151,37 @@ export async function resolveQuestionSet(
           contentHash: questionSetRef.contentHash,
           schemaVersion: questionSetRef.schemaVersion,
           publishedAt: questionSetRef.publishedAt,
-          isPreview: true, // Mark as preview
           questionSetRef: newRef,
+          locale: candidateLocale,
         };
       }
     } catch (error) {
-      console.warn('[resolveQuestionSet] Preview fetch failed, trying published:', error);
-      // Fall through to published
+      console.warn(`[resolveQuestionSet] CMS fetch failed for locale ${candidateLocale}, trying fallback:`, error);
     }
   }
 
-  // Step 4: Try CMS published revision
-  try {
-    const questionSetRef = await fetchQuestionSetFromCMS(assessmentType, assessmentVersion, locale, false);
-    if (questionSetRef) {
-      // Create questionSetRef for pinning
-      const newRef: QuestionSetRef = {
-        source: 'cms',
-        questionSetId: questionSetRef.questionSetId,
-        publishedRevisionId: questionSetRef.revisionId,
-        contentHash: questionSetRef.contentHash,
-        resolvedAt: new Date().toISOString(),
-      };
-      return {
-        questionSet: questionSetRef.questionSet,
-        source: 'cms',
-        contentHash: questionSetRef.contentHash,
-        schemaVersion: questionSetRef.schemaVersion,
-        publishedAt: questionSetRef.publishedAt,
-        questionSetRef: newRef,
-      };
-    }
-  } catch (error) {
-    console.warn('[resolveQuestionSet] CMS fetch failed, falling back to file:', error);
+  // Step 3: Check if the default-locale question set exists but has no pointers set
+  const { data: questionSetRow, error: checkError } = await supabaseAdmin
+    .from('question_sets')
+    .select('id, assessment_type, assessment_version, locale')
+    .eq('assessment_type', assessmentType)
+    .eq('assessment_version', versionStr)
+    .is('locale', null)
+    .maybeSingle();
+
+  // Log for debugging
+  if (process.env.NODE_ENV === 'development') {
+    console.log('[resolveQuestionSet] CMS existence check:', {
+      assessmentType,
+      assessmentVersion: versionStr,
+      requestedLocale: locale || 'null',
+      exists: !!questionSetRow,
+      questionSetId: questionSetRow?.id,
+      checkError: checkError?.message,
+    });
   }
 
-  // Step 5: Check if question set exists but has no pointers set
-  if (questionSetExistsInCMS && questionSetRow) {
+  if (questionSetRow) {
     // Check pointers - if both are null, return cms_empty
     const { data: ptr, error: ptrError } = await supabaseAdmin
       .from('question_set_pointers')
@@ -189,12 +194,13 @@ export async function resolveQuestionSet(
       return {
         source: 'cms_empty',
         questionSetId: questionSetRow.id,
+        locale: DEFAULT_LOCALE,
       };
     }
   }
 
-  // Step 6: Fallback to file loader (only if question set doesn't exist in CMS)
-  const fileQuestionSet = loadQuestionSet({ assessmentType, assessmentVersion, locale });
+  // Step 4: Fallback to file loader (only if question set doesn't exist in CMS; files are default locale)
+  const fileQuestionSet = loadQuestionSet({ assessmentType, assessmentVersion, locale: null });
   if (!fileQuestionSet) {
     // Only throw error if question set doesn't exist in CMS (cms_empty case already handled above)
     throw new Error(
@@ -213,6 +219,7 @@ export async function resolveQuestionSet(
     questionSet: fileQuestionSet,
     source: 'file',
     questionSetRef: newRef,
+    locale: DEFAULT_LOCALE,
   };
 }
 
@@ -236,6 +243,7 @@ async function fetchQuestionSetFromCMS(
   const { supabaseAdmin } = await import('@/lib/supabaseServerClient');
   
   const versionStr = String(assessmentVersion);
+  const storedLocale = toStoredLocale(locale);
   
   // Find question set identity (handle NULL locale properly)
   let query = supabaseAdmin
@@ -244,11 +252,11 @@ async function fetchQuestionSetFromCMS(
     .eq('assessment_type', assessmentType)
     .eq('assessment_version', versionStr);
 
-  // Handle locale: if provided, match it; if null/undefined, match NULL
-  if (locale === null || locale === undefined || locale === '') {
+  // Handle locale: default locale is stored as NULL
+  if (storedLocale === null) {
     query = query.is('locale', null);
   } else {
-    query = query.eq('locale', locale);
+    query = query.eq('locale', storedLocale);
   }
 
   const { data: questionSetRow, error: questionSetError } = await query.maybeSingle();
@@ -256,8 +264,9 @@ async function fetchQuestionSetFromCMS(
   if (questionSetError || !questionSetRow) {
     if (questionSetError) {
       console.warn('[fetchQuestionSetFromCMS] Question set lookup error:', questionSetError);
-    } else {
-      console.warn(`[fetchQuestionSetFromCMS] Question set not found: ${assessmentType}/${versionStr}${locale ? `/${locale}` : ''}`);
+    } else if (storedLocale === null) {
+      // Missing translations are expected (fallback chain); only the default locale is worth a warning
+      console.warn(`[fetchQuestionSetFromCMS] Question set not found: ${assessmentType}/${versionStr}`);
     }
     return null; // Question set not found in CMS
   }
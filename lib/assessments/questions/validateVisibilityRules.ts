@@ -0,0 +1,300 @@
+/**
+ * Visibility Rules Validation
+ *
+ * Validates `visibleIf` conditions on question set questions (see ./visibility.ts):
+ * - condition structure (all/any, question + is/isNot)
+ * - referenced questions and option ids exist (single/multi questions only)
+ * - no cycles, and conditions only reference earlier questions
+ * - every question is reachable (some combination of earlier answers shows it)
+ *
+ * Errors are prefixed with the question path, e.g.
+ * 'questions[5].visibleIf references question.id "q9" which does not exist.'
+ */
+
+import {
+  evaluateVisibilityCondition,
+  getConditionQuestionIds,
+  type AnswerSelections,
+  type VisibilityCondition,
+} from './visibility';
+import { getSelectionLimits, isOptionQuestion, type TypedQuestion } from './questionTypes';
+
+/** Above this many answer combinations a question is assumed reachable (not enumerated) */
+const MAX_REACHABILITY_COMBINATIONS = 4096;
+/** Multi-select questions with more options than this are not enumerated */
+const MAX_ENUMERATED_MULTI_OPTIONS = 12;
+
+interface QuestionLike {
+  id?: unknown;
+  type?: unknown;
+  options?: unknown;
+  minSelections?: unknown;
+  maxSelections?: unknown;
+  visibleIf?: unknown;
+}
+
+/** Possible selections of a question (undefined = unanswered/hidden); null = too many to enumerate */
+type SelectionDomain = Array<string[] | undefined> | null;
+
+/**
+ * Possible selections of a visible question: one option (single) or every allowed pick (multi)
+ */
+function getSelectionDomain(question: QuestionLike, optionIds: string[]): SelectionDomain {
+  if (question.type !== 'multi') {
+    return optionIds.map((id) => [id]);
+  }
+  if (optionIds.length > MAX_ENUMERATED_MULTI_OPTIONS) {
+    return null;
+  }
+
+  const { min, max } = getSelectionLimits(question as TypedQuestion);
+  const subsets: string[][] = [];
+  for (let mask = 1; mask < 1 << optionIds.length; mask++) {
+    const subset = optionIds.filter((_, i) => mask & (1 << i));
+    if (subset.length >= min && subset.length <= max) {
+      subsets.push(subset);
+    }
+  }
+  return subsets;
+}
+
+function validateConditionStructure(condition: any, path: string, errors: string[]): void {
+  if (!condition || typeof condition !== 'object' || Array.isArray(condition)) {
+    errors.push(`${path} must be an object.`);
+    return;
+  }
+
+  if ('all' in condition || 'any' in condition) {
+    const key = 'all' in condition ? 'all' : 'any';
+    const children = condition[key];
+    if (!Array.isArray(children) || children.length === 0) {
+      errors.push(`${path}.${key} must be a non-empty array.`);
+      return;
+    }
+    children.forEach((child: unknown, i: number) => validateConditionStructure(child, `${path}.${key}[${i}]`, errors));
+    return;
+  }
+
+  if (typeof condition.question !== 'string' || !condition.question) {
+    errors.push(`${path}.question must be a non-empty string.`);
+  }
+
+  const hasIs = 'is' in condition;
+  const hasIsNot = 'isNot' in condition;
+  if (hasIs === hasIsNot) {
+    errors.push(`${path} must have exactly one of "is" or "isNot".`);
+    return;
+  }
+
+  const key = hasIs ? 'is' : 'isNot';
+  const value = condition[key];
+  const values = Array.isArray(value) ? value : [value];
+  if (values.length === 0 || values.some((v: unknown) => typeof v !== 'string' || !v)) {
+    errors.push(`${path}.${key} must be an option id or a non-empty array of option ids.`);
+  }
+}
+
+/**
+ * Collect (questionId, optionIds) leaf conditions
+ */
+function getLeafConditions(condition: VisibilityCondition): Array<{ question: string; optionIds: string[] }> {
+  if ('all' in condition) {
+    return condition.all.reduce<Array<{ question: string; optionIds: string[] }>>(
+      (leaves, c) => leaves.concat(getLeafConditions(c)),
+      []
+    );
+  }
+  if ('any' in condition) {
+    return condition.any.reduce<Array<{ question: string; optionIds: string[] }>>(
+      (leaves, c) => leaves.concat(getLeafConditions(c)),
+      []
+    );
+  }
+  const value = 'is' in condition ? condition.is : condition.isNot;
+  return [{ question: condition.question, optionIds: Array.isArray(value) ? value : [value] }];
+}
+
+/**
+ * Find cycles in the dependency graph (question → questions its condition references)
+ */
+function findCycles(dependencies: Record<string, string[]>): string[][] {
+  const cycles: string[][] = [];
+  const state: Record<string, 'visiting' | 'done'> = {};
+  const stack: string[] = [];
+
+  const visit = (id: string) => {
+    state[id] = 'visiting';
+    stack.push(id);
+    for (const dep of dependencies[id] || []) {
+      if (state[dep] === 'visiting') {
+        cycles.push(stack.slice(stack.indexOf(dep)).concat(dep));
+      } else if (!state[dep]) {
+        visit(dep);
+      }
+    }
+    stack.pop();
+    state[id] = 'done';
+  };
+
+  Object.keys(dependencies).forEach((id) => {
+    if (!state[id]) visit(id);
+  });
+
+  return cycles;
+}
+
+/**
+ * Enumerate assignments of the referenced questions and report whether the condition
+ * can be true (question reachable) and can be false (question can be hidden)
+ */
+function analyzeCondition(
+  condition: VisibilityCondition,
+  domains: Record<string, SelectionDomain>
+): { canBeTrue: boolean; canBeFalse: boolean } {
+  const referenced = Array.from(new Set(getConditionQuestionIds(condition)));
+  if (referenced.some((id) => domains[id] === null)) {
+    return { canBeTrue: true, canBeFalse: true };
+  }
+
+  const combinations = referenced.reduce((total, id) => total * Math.max((domains[id] || []).length, 1), 1);
+  if (combinations > MAX_REACHABILITY_COMBINATIONS) {
+    return { canBeTrue: true, canBeFalse: true };
+  }
+
+  let canBeTrue = false;
+  let canBeFalse = false;
+
+  const enumerate = (index: number, selections: AnswerSelections) => {
+    if (canBeTrue && canBeFalse) return;
+    if (index === referenced.length) {
+      if (evaluateVisibilityCondition(condition, selections)) {
+        canBeTrue = true;
+      } else {
+        canBeFalse = true;
+      }
+      return;
+    }
+
+    const id = referenced[index];
+    for (const selected of domains[id] || [undefined]) {
+      const next = { ...selections };
+      if (selected !== undefined) {
+        next[id] = selected;
+      }
+      enumerate(index + 1, next);
+    }
+  };
+
+  enumerate(0, {});
+  return { canBeTrue, canBeFalse };
+}
+
+/**
+ * Validate visibleIf rules on all questions
+ */
+export function validateVisibilityRules(questions: QuestionLike[]): { errors: string[]; warnings: string[] } {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const indexById: Record<string, number> = {};
+  const optionIdsById: Record<string, string[]> = {};
+  const isOptionQuestionById: Record<string, boolean> = {};
+  questions.forEach((question, i) => {
+    if (question && typeof question.id === 'string') {
+      indexById[question.id] = i;
+      isOptionQuestionById[question.id] = isOptionQuestion(question as TypedQuestion);
+      optionIdsById[question.id] = Array.isArray(question.options)
+        ? question.options.map((o: any) => o?.id).filter((id: unknown): id is string => typeof id === 'string')
+        : [];
+    }
+  });
+
+  // 1) Structure and references
+  const dependencies: Record<string, string[]> = {};
+  questions.forEach((question, i) => {
+    if (!question || question.visibleIf === undefined || typeof question.id !== 'string') return;
+
+    const path = `questions[${i}].visibleIf`;
+    const structureErrors: string[] = [];
+    validateConditionStructure(question.visibleIf, path, structureErrors);
+    if (structureErrors.length > 0) {
+      errors.push(...structureErrors);
+      return;
+    }
+
+    const condition = question.visibleIf as VisibilityCondition;
+    for (const leaf of getLeafConditions(condition)) {
+      if (!(leaf.question in indexById)) {
+        errors.push(`${path} references question.id "${leaf.question}" which does not exist.`);
+        continue;
+      }
+      if (leaf.question === question.id) {
+        errors.push(`${path} references its own question "${question.id}".`);
+        continue;
+      }
+      if (!isOptionQuestionById[leaf.question]) {
+        errors.push(`${path} references question "${leaf.question}", which has no options (slider/text).`);
+        continue;
+      }
+      for (const optionId of leaf.optionIds) {
+        if (!optionIdsById[leaf.question].includes(optionId)) {
+          errors.push(`${path} references option.id "${optionId}" which does not exist on question "${leaf.question}".`);
+        }
+      }
+    }
+
+    dependencies[question.id] = Array.from(new Set(getConditionQuestionIds(condition))).filter(
+      (id) => id in indexById && id !== question.id
+    );
+  });
+
+  // 2) Cycles, then references to later questions (navigation is in question order)
+  const cycles = findCycles(dependencies);
+  const inCycle = new Set<string>();
+  cycles.forEach((cycle) => {
+    errors.push(`visibleIf rules form a cycle: ${cycle.join(' → ')}.`);
+    cycle.forEach((id) => inCycle.add(id));
+  });
+
+  Object.keys(dependencies).forEach((id) => {
+    if (inCycle.has(id)) return;
+    for (const dep of dependencies[id]) {
+      if (indexById[dep] > indexById[id]) {
+        errors.push(
+          `questions[${indexById[id]}].visibleIf references question "${dep}", which comes after "${id}"; ` +
+            'conditions may only reference earlier questions.'
+        );
+      }
+    }
+  });
+
+  if (errors.length > 0) {
+    return { errors, warnings };
+  }
+
+  // 3) Reachability (in order: each question's possible states given earlier questions)
+  const domains: Record<string, SelectionDomain> = {};
+  questions.forEach((question, i) => {
+    if (!question || typeof question.id !== 'string') return;
+
+    let reachable = true;
+    let canBeHidden = false;
+
+    if (question.visibleIf !== undefined) {
+      const analysis = analyzeCondition(question.visibleIf as VisibilityCondition, domains);
+      reachable = analysis.canBeTrue;
+      canBeHidden = analysis.canBeFalse;
+
+      if (!reachable) {
+        errors.push(`questions[${i}] ("${question.id}") is unreachable: its visibleIf can never be satisfied.`);
+      } else if (!canBeHidden) {
+        warnings.push(`questions[${i}].visibleIf is always satisfied; the question is never skipped.`);
+      }
+    }
+
+    const visibleDomain = reachable ? getSelectionDomain(question, optionIdsById[question.id]) : [];
+    domains[question.id] = visibleDomain === null ? null : [...visibleDomain, ...(canBeHidden ? [undefined] : [])];
+  });
+
+  return { errors, warnings };
+}
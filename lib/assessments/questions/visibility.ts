@@ -0,0 +1,156 @@
+/**
+ * Question Visibility (Branching)
+ *
+ * Questions may carry a `visibleIf` condition over answers to earlier questions
+ * (e.g., skip the bloating follow-ups if the user answered "Never"):
+ *
+ *   { "id": "q6", "visibleIf": { "question": "q5", "isNot": "o5-0" }, ... }
+ *
+ * Conditions reference option ids and compose with all/any, mirroring ScoringCondition.
+ * For multi-select questions, `is` matches if any listed option was picked and `isNot`
+ * matches if none of them was. Slider and free-text questions cannot be referenced.
+ * A condition on a question that is unanswered (or hidden) is false for both `is` and
+ * `isNot`, so hiding a question also hides everything that depends on it.
+ *
+ * Visibility is evaluated in question order, and only answers to visible questions count:
+ * if the user goes back and changes an answer, stale answers to questions that became
+ * hidden are ignored (and pruned before scoring/submission).
+ *
+ * Client-safe: pure functions only.
+ */
+
+import type { Answer } from '@/lib/assessmentTypes';
+import {
+  canLeaveQuestion,
+  getSelectedOptionIds,
+  type TypedQuestion,
+} from './questionTypes';
+
+export type VisibilityCondition =
+  | { all: VisibilityCondition[] }
+  | { any: VisibilityCondition[] }
+  | { question: string; is: string | string[] }
+  | { question: string; isNot: string | string[] };
+
+/** Minimal question shape needed for visibility evaluation */
+export interface ConditionalQuestion extends TypedQuestion {
+  visibleIf?: VisibilityCondition;
+}
+
+/** Selected option ids per question id */
+export type AnswerSelections = Record<string, string[]>;
+
+/**
+ * Evaluate a visibility condition against selected options
+ */
+export function evaluateVisibilityCondition(
+  condition: VisibilityCondition,
+  selections: AnswerSelections
+): boolean {
+  if ('all' in condition) {
+    return condition.all.every((c) => evaluateVisibilityCondition(c, selections));
+  }
+  if ('any' in condition) {
+    return condition.any.some((c) => evaluateVisibilityCondition(c, selections));
+  }
+
+  const selected = selections[condition.question];
+  if (!selected || selected.length === 0) {
+    return false; // Unanswered/hidden question never satisfies a condition
+  }
+  if ('is' in condition) {
+    const expected = Array.isArray(condition.is) ? condition.is : [condition.is];
+    return selected.some((id) => expected.includes(id));
+  }
+  if ('isNot' in condition) {
+    const excluded = Array.isArray(condition.isNot) ? condition.isNot : [condition.isNot];
+    return !selected.some((id) => excluded.includes(id));
+  }
+  return false;
+}
+
+/**
+ * Collect question ids referenced by a condition
+ */
+export function getConditionQuestionIds(condition: VisibilityCondition): string[] {
+  if ('all' in condition) {
+    return condition.all.reduce<string[]>((ids, c) => ids.concat(getConditionQuestionIds(c)), []);
+  }
+  if ('any' in condition) {
+    return condition.any.reduce<string[]>((ids, c) => ids.concat(getConditionQuestionIds(c)), []);
+  }
+  return [condition.question];
+}
+
+function toSelections(answers: Answer[]): AnswerSelections {
+  const selections: AnswerSelections = {};
+  answers.forEach((a) => {
+    selections[a.questionId] = getSelectedOptionIds(a);
+  });
+  return selections;
+}
+
+/**
+ * Get indexes of visible questions (in order) for the given answers
+ */
+export function getVisibleQuestionIndexes(questions: ConditionalQuestion[], answers: Answer[]): number[] {
+  const allSelections = toSelections(answers);
+  // Only answers to visible questions feed later conditions
+  const visibleSelections: AnswerSelections = {};
+  const visible: number[] = [];
+
+  questions.forEach((question, index) => {
+    if (question.visibleIf && !evaluateVisibilityCondition(question.visibleIf, visibleSelections)) {
+      return;
+    }
+    visible.push(index);
+    if (allSelections[question.id] !== undefined) {
+      visibleSelections[question.id] = allSelections[question.id];
+    }
+  });
+
+  return visible;
+}
+
+/**
+ * Drop answers to questions that are hidden (or unknown) given the other answers
+ */
+export function pruneHiddenAnswers(questions: ConditionalQuestion[], answers: Answer[]): Answer[] {
+  const visibleIds = new Set(getVisibleQuestionIndexes(questions, answers).map((i) => questions[i].id));
+  return answers.filter((a) => visibleIds.has(a.questionId));
+}
+
+/**
+ * True when every visible required question has a complete answer
+ * (optional free-text questions may be left blank)
+ */
+export function areAllVisibleQuestionsAnswered(questions: ConditionalQuestion[], answers: Answer[]): boolean {
+  return getVisibleQuestionIndexes(questions, answers).every((i) => {
+    const answer = answers.find((a) => a.questionId === questions[i].id);
+    return canLeaveQuestion(questions[i], answer);
+  });
+}
+
+/**
+ * Next visible question index after `currentIndex` (null if there is none)
+ */
+export function getNextVisibleQuestionIndex(
+  questions: ConditionalQuestion[],
+  answers: Answer[],
+  currentIndex: number
+): number | null {
+  const next = getVisibleQuestionIndexes(questions, answers).find((i) => i > currentIndex);
+  return next === undefined ? null : next;
+}
+
+/**
+ * Previous visible question index before `currentIndex` (null if there is none)
+ */
+export function getPreviousVisibleQuestionIndex(
+  questions: ConditionalQuestion[],
+  answers: Answer[],
+  currentIndex: number
+): number | null {
+  const visible = getVisibleQuestionIndexes(questions, answers).filter((i) => i < currentIndex);
+  return visible.length > 0 ? visible[visible.length - 1] : null;
+}
@@ -0,0 +1,147 @@
+/**
+ * Assessment Registry
+ *
+ * Central registry of all assessment types (gut-check, and future quizzes).
+ * Single source of truth for:
+ * - Allowed assessment types
+ * - Public route and display label
+ * - Default question set version and results content version
+ * - Result levels
+ * - Per-version scoring config defaults and admin editor routes
+ *
+ * Client-safe: metadata only. Content file fallbacks live in ./contentFiles.ts
+ * so question/results JSON is never pulled into browser bundles.
+ *
+ * How to Add a New Assessment:
+ * 1. Add content files under content/assessments/{type}/ (questions_v{n}.json with a
+ *    `scoring` block, results_v{n}.json) and register them in ./contentFiles.ts
+ * 2. Add scoring config defaults to lib/config/defaults.ts
+ * 3. Add a registry entry here (the assessment-config:{type}:{version} config keys
+ *    are registered in lib/config/registry.ts automatically)
+ * 4. Create the question set and results packs in the CMS (/admin/assessments)
+ *
+ * The public route is /assessments/{type} unless publicPath overrides it, and the
+ * scoring config editor is /admin/config/assessments/{type}/{version} unless
+ * adminEditorPath overrides it.
+ */
+
+import type { AssessmentConfig } from '@/lib/config/types';
+import {
+  DEFAULT_ASSESSMENT_CONFIG_GUT_CHECK_V1,
+  DEFAULT_ASSESSMENT_CONFIG_GUT_CHECK_V2,
+} from '@/lib/config/defaults';
+import { GUT_CHECK_RESULTS_CONTENT_VERSION } from '@/lib/assessments/results/constants';
+
+export interface AssessmentVersionConfigEntry {
+  /** Scoring config defaults (used when CMS config is missing or invalid) */
+  defaults: AssessmentConfig;
+  /** Admin editor route override (null if no UI) */
+  adminEditorPath?: string | null;
+  /** Description for documentation */
+  description: string;
+}
+
+export interface AssessmentDefinition {
+  assessmentType: string;
+  /** Display label (e.g., "Gut Check") */
+  label: string;
+  /** Meta description for the public page */
+  description: string;
+  /** Public route override (default: /assessments/{type}) */
+  publicPath?: string;
+  /** Question set version used when no ?v= is given */
+  defaultVersion: number;
+  /** Results content version (decoupled from assessment_version) */
+  resultsContentVersion: string;
+  /** Result level IDs produced by scoring (results packs exist per level) */
+  levels: string[];
+  /** Scoring config per assessment version */
+  configs: Record<number, AssessmentVersionConfigEntry>;
+}
+
+/**
+ * Assessment Registry
+ */
+export const ASSESSMENT_REGISTRY: Record<string, AssessmentDefinition> = {
+  'gut-check': {
+    assessmentType: 'gut-check',
+    label: 'Gut Check',
+    description:
+      'Take our quick gut health assessment to discover your personalized insights and learn about The Fine Diet Method.',
+    publicPath: '/gut-check',
+    defaultVersion: 2,
+    resultsContentVersion: GUT_CHECK_RESULTS_CONTENT_VERSION,
+    levels: ['level1', 'level2', 'level3', 'level4'],
+    configs: {
+      2: {
+        defaults: DEFAULT_ASSESSMENT_CONFIG_GUT_CHECK_V2,
+        description: 'Gut Check v2 scoring thresholds (axis band classification)',
+      },
+      1: {
+        defaults: DEFAULT_ASSESSMENT_CONFIG_GUT_CHECK_V1,
+        description: 'Gut Check v1 scoring thresholds (confidence thresholds, secondary avatar threshold)',
+      },
+    },
+  },
+};
+
+/**
+ * Get registry entry for an assessment type
+ */
+export function getAssessmentDefinition(assessmentType: string | null | undefined): AssessmentDefinition | null {
+  if (!assessmentType) return null;
+  return Object.prototype.hasOwnProperty.call(ASSESSMENT_REGISTRY, assessmentType)
+    ? ASSESSMENT_REGISTRY[assessmentType]
+    : null;
+}
+
+/**
+ * Check if an assessment type is registered
+ */
+export function isAssessmentTypeRegistered(assessmentType: string | null | undefined): boolean {
+  return getAssessmentDefinition(assessmentType) !== null;
+}
+
+/**
+ * Get all registered assessment types
+ */
+export function getRegisteredAssessmentTypes(): string[] {
+  return Object.keys(ASSESSMENT_REGISTRY);
+}
+
+/**
+ * Get public route for an assessment type
+ */
+export function getAssessmentPublicPath(assessmentType: string): string {
+  return getAssessmentDefinition(assessmentType)?.publicPath ?? `/assessments/${assessmentType}`;
+}
+
+/**
+ * Get admin scoring config editor route for an assessment type and version
+ */
+export function getAssessmentConfigEditorPath(assessmentType: string, version: number): string | null {
+  const entry = getAssessmentDefinition(assessmentType)?.configs[version];
+  if (!entry) return null;
+  return entry.adminEditorPath !== undefined
+    ? entry.adminEditorPath
+    : `/admin/config/assessments/${assessmentType}/${version}`;
+}
+
+/**
+ * Get results content version for an assessment type
+ *
+ * Falls back to the gut-check results version for unknown types.
+ */
+export function getResultsContentVersion(assessmentType: string | null | undefined): string {
+  return (
+    getAssessmentDefinition(assessmentType)?.resultsContentVersion ??
+    ASSESSMENT_REGISTRY['gut-check'].resultsContentVersion
+  );
+}
+
+/**
+ * Get display label for an assessment type (falls back to the raw type)
+ */
+export function getAssessmentLabel(assessmentType: string): string {
+  return getAssessmentDefinition(assessmentType)?.label ?? assessmentType;
+}
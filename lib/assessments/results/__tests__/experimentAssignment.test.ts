@@ -0,0 +1,99 @@
+/**
+ * Tests for experimentAssignment
+ *
+ * Tests deterministic weighted variant assignment and variant validation.
+ */
+
+import {
+  assignVariant,
+  getAssignmentBucket,
+  validateExperimentVariants,
+  type ExperimentVariant,
+} from '../experimentAssignment';
+
+const variants: ExperimentVariant[] = [
+  { variantId: 'control', revisionId: null, weight: 50 },
+  { variantId: 'b', revisionId: 'rev-b', weight: 50 },
+];
+
+describe('assignVariant', () => {
+  it('should assign the same session to the same variant every time', () => {
+    const first = assignVariant('exp-1', 'fd-session-123', variants);
+    for (let i = 0; i < 5; i++) {
+      expect(assignVariant('exp-1', 'fd-session-123', variants)).toBe(first);
+    }
+  });
+
+  it('should return buckets in [0, 1)', () => {
+    for (let i = 0; i < 200; i++) {
+      const bucket = getAssignmentBucket('exp-1', `session-${i}`);
+      expect(bucket).toBeGreaterThanOrEqual(0);
+      expect(bucket).toBeLessThan(1);
+    }
+  });
+
+  it('should split traffic roughly by weight', () => {
+    const weighted: ExperimentVariant[] = [
+      { variantId: 'control', weight: 80 },
+      { variantId: 'b', weight: 20 },
+    ];
+    const counts: Record<string, number> = { control: 0, b: 0 };
+    for (let i = 0; i < 5000; i++) {
+      counts[assignVariant('exp-weights', `session-${i}`, weighted)!.variantId] += 1;
+    }
+    expect(counts.b / 5000).toBeGreaterThan(0.17);
+    expect(counts.b / 5000).toBeLessThan(0.23);
+  });
+
+  it('should never assign zero-weight variants', () => {
+    const paused: ExperimentVariant[] = [
+      { variantId: 'control', weight: 1 },
+      { variantId: 'b', weight: 0 },
+    ];
+    for (let i = 0; i < 100; i++) {
+      expect(assignVariant('exp-1', `session-${i}`, paused)!.variantId).toBe('control');
+    }
+    expect(assignVariant('exp-1', 'session-1', [{ variantId: 'a', weight: 0 }])).toBeNull();
+  });
+
+  it('should assign sessions independently per experiment', () => {
+    const differs = Array.from({ length: 50 }, (_, i) => `session-${i}`).some(
+      (sessionId) =>
+        assignVariant('exp-1', sessionId, variants)!.variantId !==
+        assignVariant('exp-2', sessionId, variants)!.variantId
+    );
+    expect(differs).toBe(true);
+  });
+});
+
+describe('validateExperimentVariants', () => {
+  it('should accept a valid variant list', () => {
+    expect(validateExperimentVariants(variants)).toEqual([]);
+  });
+
+  it('should require at least two variants', () => {
+    expect(validateExperimentVariants([variants[0]])).toHaveLength(1);
+    expect(validateExperimentVariants(null)).toHaveLength(1);
+  });
+
+  it('should reject duplicate ids, bad weights and all-zero traffic', () => {
+    expect(
+      validateExperimentVariants([
+        { variantId: 'a', weight: 1 },
+        { variantId: 'a', weight: 1 },
+      ])
+    ).toEqual(['variants[1].variantId "a" is used more than once']);
+    expect(
+      validateExperimentVariants([
+        { variantId: 'a', weight: -1 },
+        { variantId: 'b c', weight: 1 },
+      ])
+    ).toHaveLength(2);
+    expect(
+      validateExperimentVariants([
+        { variantId: 'a', weight: 0 },
+        { variantId: 'b', weight: 0 },
+      ])
+    ).toEqual(['At least one variant needs a weight above 0']);
+  });
+});
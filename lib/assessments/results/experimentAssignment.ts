@@ -0,0 +1,123 @@
+/**
+ * Results Pack Experiments: Variant Assignment
+ *
+ * An experiment splits traffic for one results pack (one level, one locale) between
+ * variants. Each variant serves a results_pack_revisions row; a variant without a
+ * revisionId serves the pack's published revision (the usual control).
+ *
+ * Assignment is deterministic: hash(experimentId + sessionId) picks a bucket in the
+ * cumulative weight ranges, so a session always sees the same variant (across reloads
+ * and devices) without storing anything up front. The assigned variant is then pinned
+ * in resultsPackRef like any other revision.
+ *
+ * Client-safe: pure functions only.
+ */
+
+export interface ExperimentVariant {
+  /** Stable variant key, served as ResultsPack.campaignVariantId (e.g. "control", "b") */
+  variantId: string;
+  /** Revision to serve; null/undefined = the pack's published revision */
+  revisionId?: string | null;
+  /** Relative traffic weight (0 disables the variant) */
+  weight: number;
+}
+
+export type ExperimentStatus = 'draft' | 'running' | 'stopped';
+
+/** Stored in results_pack_experiments */
+export interface ResultsPackExperiment {
+  id: string;
+  packId: string;
+  name: string;
+  status: ExperimentStatus;
+  variants: ExperimentVariant[];
+}
+
+const VARIANT_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,39}$/i;
+
+/**
+ * FNV-1a (32-bit) hash of a string, as an unsigned integer
+ */
+function fnv1a(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic bucket in [0, 1) for a session within an experiment
+ */
+export function getAssignmentBucket(experimentId: string, sessionId: string): number {
+  return fnv1a(`${experimentId}:${sessionId}`) / 0x100000000;
+}
+
+/**
+ * Pick the variant for a session (null if no variant has traffic)
+ */
+export function assignVariant(
+  experimentId: string,
+  sessionId: string,
+  variants: ExperimentVariant[]
+): ExperimentVariant | null {
+  const eligible = variants.filter((variant) => variant.weight > 0);
+  const totalWeight = eligible.reduce((sum, variant) => sum + variant.weight, 0);
+  if (totalWeight <= 0) return null;
+
+  const target = getAssignmentBucket(experimentId, sessionId) * totalWeight;
+  let cumulative = 0;
+  for (const variant of eligible) {
+    cumulative += variant.weight;
+    if (target < cumulative) {
+      return variant;
+    }
+  }
+  return eligible[eligible.length - 1];
+}
+
+/**
+ * Validate an experiment's variant list
+ *
+ * @returns Error messages (empty if valid)
+ */
+export function validateExperimentVariants(variants: unknown): string[] {
+  if (!Array.isArray(variants) || variants.length < 2) {
+    return ['An experiment needs at least two variants'];
+  }
+
+  const errors: string[] = [];
+  const seen: string[] = [];
+
+  variants.forEach((variant, index) => {
+    const label = `variants[${index}]`;
+    if (!variant || typeof variant !== 'object') {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+    const { variantId, revisionId, weight } = variant as Record<string, unknown>;
+
+    if (typeof variantId !== 'string' || !VARIANT_ID_PATTERN.test(variantId)) {
+      errors.push(`${label}.variantId must be 1-40 letters, digits, "-" or "_"`);
+    } else if (seen.includes(variantId)) {
+      errors.push(`${label}.variantId "${variantId}" is used more than once`);
+    } else {
+      seen.push(variantId);
+    }
+
+    if (revisionId != null && typeof revisionId !== 'string') {
+      errors.push(`${label}.revisionId must be a revision id or null`);
+    }
+
+    if (typeof weight !== 'number' || !isFinite(weight) || weight < 0) {
+      errors.push(`${label}.weight must be a non-negative number`);
+    }
+  });
+
+  if (errors.length === 0 && !variants.some((variant) => (variant as ExperimentVariant).weight > 0)) {
+    errors.push('At least one variant needs a weight above 0');
+  }
+
+  return errors;
+}
@@ -2,11 +2,12 @@
  * Load Results Pack
  * 
  * Loads assessment results content pack from JSON files.
- * Returns the pack object for a specific level (level1-level4).
+ * Returns the pack object for a specific level (level IDs come from the assessment registry).
+ * Files are registered per assessment type in lib/assessments/contentFiles.ts.
  */
 
-import resultsV1 from '@/content/assessments/gut-check/results_v1.json';
-import resultsV2 from '@/content/assessments/gut-check/results_v2.json';
+import { getResultsPacksFile } from '@/lib/assessments/contentFiles';
+import { getAssessmentDefinition } from '@/lib/assessments/registry';
 
 /**
  * Channel configuration for results rendering
@@ -24,6 +25,18 @@ export interface ChannelsConfig {
   pdf?: ChannelConfig;
 }
 
+/**
+ * Results email template (rendered by lib/email/resultsEmail.ts)
+ * Fields use {{variable}} placeholders (RESULTS_EMAIL_VARIABLES); html is the body only,
+ * the branded layout is added at render time.
+ */
+export interface EmailTemplateConfig {
+  subject: string;
+  preheader?: string;
+  html: string;
+  text: string;
+}
+
 /**
  * Flow v2 Page 1: Pattern Read
  */
@@ -135,7 +148,7 @@ export interface SecondaryModifiers {
  * - label, summary, keyPatterns, firstFocusAreas, methodPositioning
  * 
  * Extended fields (optional, v2+):
- * - copyVersion, campaignVariantId, channels, flow, secondaryModifiers
+ * - copyVersion, campaignVariantId, channels, flow, email, secondaryModifiers
  */
 export interface ResultsPack {
   // Core fields (required, v1 compatible)
@@ -150,6 +163,7 @@ export interface ResultsPack {
   campaignVariantId?: string | null;
   channels?: ChannelsConfig;
   flow?: FlowConfig;
+  email?: EmailTemplateConfig;
   secondaryModifiers?: SecondaryModifiers;
 }
 
@@ -172,18 +186,19 @@ interface LoadResultsPackInput {
  * 
  * Phase 2 / Step 3: Now uses CMS-backed avatar mapping config.
  * 
- * If levelId already matches ^level[1-4]$, returns as-is.
+ * If levelId is already one of the assessment's levels (level1-level4 for gut-check), returns as-is.
  * Otherwise, maps using avatar-mapping:global config from CMS.
  * Falls back to defaultAvatarKey if no mapping exists.
  * 
  * @param levelId - The avatar ID or level ID from submission
  * @param resultsVersion - The results version (used for error messages)
+ * @param levels - Valid level IDs for the assessment type
  * @returns Normalized levelId in levelX format
  * @throws Error if levelId cannot be normalized and doesn't match expected format
  */
-async function normalizeLevelId(levelId: string, resultsVersion: string): Promise<string> {
+async function normalizeLevelId(levelId: string, resultsVersion: string, levels: string[]): Promise<string> {
   // If already in correct format, return as-is
-  if (levelId.match(/^level[1-4]$/)) {
+  if (levels.includes(levelId)) {
     return levelId;
   }
 
@@ -196,7 +211,7 @@ async function normalizeLevelId(levelId: string, resultsVersion: string): Promis
     if (mapping.mappings[levelId]) {
       const mapped = mapping.mappings[levelId];
       // Validate mapped value is a valid levelX format
-      if (mapped.match(/^level[1-4]$/)) {
+      if (levels.includes(mapped)) {
         if (process.env.NODE_ENV === 'development') {
           console.log(`[normalizeLevelId] Mapped "${levelId}" -> "${mapped}" via avatar mapping config`);
         }
@@ -207,7 +222,7 @@ async function normalizeLevelId(levelId: string, resultsVersion: string): Promis
     }
 
     // If no mapping found, try using defaultAvatarKey if it's a valid levelX
-    if (mapping.defaultAvatarKey.match(/^level[1-4]$/)) {
+    if (levels.includes(mapping.defaultAvatarKey)) {
       if (process.env.NODE_ENV === 'development') {
         console.log(`[normalizeLevelId] Using defaultAvatarKey "${mapping.defaultAvatarKey}" for "${levelId}"`);
       }
@@ -221,7 +236,7 @@ async function normalizeLevelId(levelId: string, resultsVersion: string): Promis
   // Unknown levelId - throw clear error
   throw new Error(
     `Unable to normalize levelId "${levelId}" for resultsVersion "${resultsVersion}". ` +
-    `Expected format: level1-level4, or a mapped avatar ID from avatar-mapping:global config. ` +
+    `Expected one of: ${levels.join(', ')}, or a mapped avatar ID from avatar-mapping:global config. ` +
     `Received: "${levelId}"`
   );
 }
@@ -234,29 +249,31 @@ async function normalizeLevelId(levelId: string, resultsVersion: string): Promis
 export async function loadResultsPack(input: LoadResultsPackInput): Promise<ResultsPack | null> {
   const { assessmentType, resultsVersion, levelId } = input;
 
+  const definition = getAssessmentDefinition(assessmentType);
+  if (!definition) {
+    console.error(`Unsupported assessmentType: ${assessmentType}`);
+    return null;
+  }
+
   // Normalize levelId before validation (now async due to avatar mapping)
   let normalizedLevelId: string;
   try {
-    normalizedLevelId = await normalizeLevelId(levelId, resultsVersion);
+    normalizedLevelId = await normalizeLevelId(levelId, resultsVersion, definition.levels);
   } catch (error) {
     console.error(error instanceof Error ? error.message : 'Unknown error normalizing levelId');
     return null;
   }
 
   // Validate normalized levelId format
-  if (!normalizedLevelId.match(/^level[1-4]$/)) {
-    console.error(`Invalid normalized levelId: ${normalizedLevelId}. Expected level1-level4`);
+  if (!definition.levels.includes(normalizedLevelId)) {
+    console.error(`Invalid normalized levelId: ${normalizedLevelId}. Expected one of: ${definition.levels.join(', ')}`);
     return null;
   }
 
   // Load the appropriate results version
-  let packsData: ResultsPacksData;
-  
-  if (assessmentType === 'gut-check' && resultsVersion === '1') {
-    packsData = resultsV1 as ResultsPacksData;
-  } else if (assessmentType === 'gut-check' && (resultsVersion === '2' || resultsVersion === 'v2')) {
-    packsData = resultsV2 as ResultsPacksData;
-  } else {
+  const packsData = getResultsPacksFile(assessmentType, resultsVersion) as ResultsPacksData | null;
+
+  if (!packsData) {
     console.error(`Unsupported assessmentType/resultsVersion: ${assessmentType}/${resultsVersion}`);
     return null;
   }
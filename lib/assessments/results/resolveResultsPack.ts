@@ -3,9 +3,16 @@
  * 
  * CMS-first resolution with file fallback.
  * Supports preview mode for editors/admins and pinning for reproducibility.
+ * Localized: walks the locale fallback chain (es-MX → es → en), one results_packs
+ * identity (and pointer) per locale.
+ * Experiments: with a sessionId, a running results_pack_experiments row for the resolved
+ * pack assigns the session a variant (deterministic, weighted) whose revision is served
+ * and pinned (resultsPackRef.experimentId / campaignVariantId).
  */
 
 import { loadResultsPack, type ResultsPack } from './loadResultsPack';
+import { DEFAULT_LOCALE, getLocaleFallbackChain, toStoredLocale } from '@/lib/i18n/locale';
+import { assignVariant, type ExperimentVariant } from './experimentAssignment';
 
 export interface ResultsPackRef {
   source: 'cms' | 'file';
@@ -13,6 +20,9 @@ export interface ResultsPackRef {
   publishedRevisionId?: string;
   previewRevisionId?: string;
   contentHash?: string;
+  locale?: string | null; // Locale of the served pack (NULL = default)
+  experimentId?: string; // Experiment the session was assigned in (if any)
+  campaignVariantId?: string; // Assigned variant (served as pack.campaignVariantId)
   resolvedAt: string;
 }
 
@@ -20,9 +30,11 @@ export interface ResolveResultsPackOptions {
   assessmentType: string;
   resultsVersion: string;
   levelId: string;
+  locale?: string | null; // Requested locale, e.g. the submission's pinned locale (default if unset)
   preview?: boolean;
   userRole?: 'user' | 'editor' | 'admin';
   resultsPackRef?: ResultsPackRef | null;
+  sessionId?: string | null; // Assessment session, for experiment assignment (omit = no experiments)
 }
 
 export interface ResolveResultsPackResult {
@@ -32,6 +44,7 @@ export interface ResolveResultsPackResult {
   schemaVersion?: string;
   publishedAt?: string;
   resultsPackRef?: ResultsPackRef;
+  locale?: string; // Locale actually served (may be a fallback of the requested locale)
 }
 
 /**
@@ -39,14 +52,16 @@ export interface ResolveResultsPackResult {
  * 
  * Priority:
  * 1. If resultsPackRef exists and source is 'cms', fetch exact revision
- * 2. If preview=true and user is editor/admin, use preview_revision_id
- * 3. Try CMS published revision
- * 4. Fallback to file loader
+ * 2. For each locale in the fallback chain (most specific first):
+ *    a. If preview=true and user is editor/admin, use preview_revision_id
+ *    b. Try CMS published revision (or the assigned variant's revision if the pack has a
+ *       running experiment and a sessionId is given)
+ * 3. Fallback to file loader (default locale only)
  */
 export async function resolveResultsPack(
   options: ResolveResultsPackOptions
 ): Promise<ResolveResultsPackResult> {
-  const { assessmentType, resultsVersion, levelId, preview, userRole, resultsPackRef } = options;
+  const { assessmentType, resultsVersion, levelId, locale, preview, userRole, resultsPackRef, sessionId } = options;
 
   // Step 1: If pinned reference exists (CMS), try to fetch exact revision
   if (resultsPackRef && resultsPackRef.source === 'cms' && resultsPackRef.publishedRevisionId) {
@@ -62,8 +77,12 @@ export async function resolveResultsPack(
 
       if (!error && rev) {
         // Validate it's the same pack (optional check)
-        const pack = rev.content_json as ResultsPack;
-        if (pack && pack.label) {
+        const revPack = rev.content_json as ResultsPack;
+        if (revPack && revPack.label) {
+          // Pinned experiment variant keeps its campaignVariantId
+          const pack = resultsPackRef.campaignVariantId
+            ? { ...revPack, campaignVariantId: resultsPackRef.campaignVariantId }
+            : revPack;
           // Log for debugging
           if (process.env.NODE_ENV === 'development') {
             console.log('[resolveResultsPack] Using pinned revision:', resultsPackRef.publishedRevisionId);
@@ -75,6 +94,7 @@ export async function resolveResultsPack(
             schemaVersion: rev.schema_version,
             publishedAt: rev.created_at,
             resultsPackRef, // Return existing ref (no update needed)
+            locale: resultsPackRef.locale || DEFAULT_LOCALE,
           };
         }
       }
@@ -85,22 +105,61 @@ export async function resolveResultsPack(
     }
   }
 
-  // Step 2: Try CMS (published or preview)
+  // Step 2: Try CMS (preview, then published) along the locale fallback chain
   const allowPreview = preview && (userRole === 'editor' || userRole === 'admin');
-  
-  if (allowPreview) {
-    // Preview mode: try preview_revision_id first
+
+  for (const candidateLocale of getLocaleFallbackChain(locale)) {
+    if (allowPreview) {
+      // Preview mode: try preview_revision_id first
+      try {
+        const packRef = await fetchPackFromCMS(assessmentType, resultsVersion, levelId, candidateLocale, true);
+        if (packRef) {
+          // Create/update resultsPackRef for preview
+          const newRef: ResultsPackRef = {
+            source: 'cms',
+            packId: packRef.packId,
+            previewRevisionId: packRef.revisionId,
+            contentHash: packRef.contentHash,
+            locale: toStoredLocale(candidateLocale),
+            resolvedAt: new Date().toISOString(),
+          };
+          return {
+            pack: packRef.pack,
+            source: 'cms',
+            contentHash: packRef.contentHash,
+            schemaVersion: packRef.schemaVersion,
+            publishedAt: packRef.publishedAt,
+            resultsPackRef: newRef,
+            locale: candidateLocale,
+          };
+        }
+      } catch (error) {
+        console.warn('[resolveResultsPack] Preview fetch failed, trying published:', error);
+        // Fall through to published
+      }
+    }
+
+    // Try CMS published revision
     try {
-      const packRef = await fetchPackFromCMS(assessmentType, resultsVersion, levelId, true);
-      if (packRef) {
-        // Create/update resultsPackRef for preview
+      const publishedRef = await fetchPackFromCMS(assessmentType, resultsVersion, levelId, candidateLocale, false);
+      if (publishedRef) {
+        // Running experiment: serve the session's variant instead of the published revision
+        const assignment = sessionId ? await resolveExperimentVariant(publishedRef, sessionId) : null;
+        const packRef = assignment ? assignment.packRef : publishedRef;
+
+        // Create resultsPackRef for pinning
         const newRef: ResultsPackRef = {
           source: 'cms',
           packId: packRef.packId,
-          previewRevisionId: packRef.revisionId,
+          publishedRevisionId: packRef.revisionId,
           contentHash: packRef.contentHash,
+          locale: toStoredLocale(candidateLocale),
           resolvedAt: new Date().toISOString(),
         };
+        if (assignment) {
+          newRef.experimentId = assignment.experimentId;
+          newRef.campaignVariantId = assignment.variant.variantId;
+        }
         return {
           pack: packRef.pack,
           source: 'cms',
@@ -108,40 +167,15 @@ export async function resolveResultsPack(
           schemaVersion: packRef.schemaVersion,
           publishedAt: packRef.publishedAt,
           resultsPackRef: newRef,
+          locale: candidateLocale,
         };
       }
     } catch (error) {
-      console.warn('[resolveResultsPack] Preview fetch failed, trying published:', error);
-      // Fall through to published
-    }
-  }
-
-  // Step 3: Try CMS published revision
-  try {
-    const packRef = await fetchPackFromCMS(assessmentType, resultsVersion, levelId, false);
-    if (packRef) {
-      // Create resultsPackRef for pinning
-      const newRef: ResultsPackRef = {
-        source: 'cms',
-        packId: packRef.packId,
-        publishedRevisionId: packRef.revisionId,
-        contentHash: packRef.contentHash,
-        resolvedAt: new Date().toISOString(),
-      };
-      return {
-        pack: packRef.pack,
-        source: 'cms',
-        contentHash: packRef.contentHash,
-        schemaVersion: packRef.schemaVersion,
-        publishedAt: packRef.publishedAt,
-        resultsPackRef: newRef,
-      };
+      console.warn(`[resolveResultsPack] CMS fetch failed for locale ${candidateLocale}, trying fallback:`, error);
     }
-  } catch (error) {
-    console.warn('[resolveResultsPack] CMS fetch failed, falling back to file:', error);
   }
 
-  // Step 4: Fallback to file loader
+  // Step 3: Fallback to file loader (files are default locale)
   // Phase 2 / Step 3: loadResultsPack is now async due to avatar mapping
   const filePack = await loadResultsPack({ assessmentType, resultsVersion, levelId });
   if (!filePack) {
@@ -158,6 +192,7 @@ export async function resolveResultsPack(
     pack: filePack,
     source: 'file',
     resultsPackRef: newRef,
+    locale: DEFAULT_LOCALE,
   };
 }
 
@@ -168,6 +203,7 @@ async function fetchPackFromCMS(
   assessmentType: string,
   resultsVersion: string,
   levelId: string,
+  locale: string,
   usePreview: boolean
 ): Promise<{
   pack: ResultsPack;
@@ -180,14 +216,17 @@ async function fetchPackFromCMS(
   // Dynamic import to avoid build-time env var checks
   const { supabaseAdmin } = await import('@/lib/supabaseServerClient');
   
-  // Find pack identity
-  const { data: pack, error: packError } = await supabaseAdmin
+  // Find pack identity (default locale is stored as NULL)
+  const storedLocale = toStoredLocale(locale);
+  let query = supabaseAdmin
     .from('results_packs')
     .select('id')
     .eq('assessment_type', assessmentType)
     .eq('results_version', resultsVersion)
-    .eq('level_id', levelId)
-    .maybeSingle();
+    .eq('level_id', levelId);
+  query = storedLocale === null ? query.is('locale', null) : query.eq('locale', storedLocale);
+
+  const { data: pack, error: packError } = await query.maybeSingle();
 
   if (packError || !pack) {
     return null; // Pack not found in CMS
@@ -211,7 +250,27 @@ async function fetchPackFromCMS(
     return null; // No revision pointer set
   }
 
-  // Fetch revision content
+  const revision = await fetchRevisionFromCMS(revisionId);
+  if (!revision) {
+    return null; // Revision not found or invalid pack structure
+  }
+
+  return { ...revision, packId: pack.id, revisionId };
+}
+
+type CMSPackRef = NonNullable<Awaited<ReturnType<typeof fetchPackFromCMS>>>;
+
+/**
+ * Internal helper: Fetch a revision's content (null if missing or not a valid pack)
+ */
+async function fetchRevisionFromCMS(revisionId: string): Promise<{
+  pack: ResultsPack;
+  contentHash: string;
+  schemaVersion: string;
+  publishedAt: string;
+} | null> {
+  const { supabaseAdmin } = await import('@/lib/supabaseServerClient');
+
   const { data: rev, error: revError } = await supabaseAdmin
     .from('results_pack_revisions')
     .select('content_json, content_hash, schema_version, created_at')
@@ -229,11 +288,71 @@ async function fetchPackFromCMS(
 
   return {
     pack: packData,
-    packId: pack.id,
-    revisionId,
     contentHash: rev.content_hash,
     schemaVersion: rev.schema_version,
     publishedAt: rev.created_at,
   };
 }
 
+/**
+ * Internal helper: Assign a session to the pack's running experiment (if any)
+ *
+ * Returns the variant and the pack to serve for it, or null to serve the published
+ * revision (no running experiment, no traffic, or the variant's revision is unusable).
+ */
+async function resolveExperimentVariant(
+  published: CMSPackRef,
+  sessionId: string
+): Promise<{ experimentId: string; variant: ExperimentVariant; packRef: CMSPackRef } | null> {
+  try {
+    const { supabaseAdmin } = await import('@/lib/supabaseServerClient');
+
+    const { data: experiment, error } = await supabaseAdmin
+      .from('results_pack_experiments')
+      .select('id, variants')
+      .eq('pack_id', published.packId)
+      .eq('status', 'running')
+      .maybeSingle();
+
+    if (error || !experiment) {
+      return null;
+    }
+
+    const experimentId = experiment.id as string;
+    const variant = assignVariant(experimentId, sessionId, (experiment.variants || []) as ExperimentVariant[]);
+    if (!variant) {
+      return null;
+    }
+
+    if (!variant.revisionId || variant.revisionId === published.revisionId) {
+      return {
+        experimentId,
+        variant,
+        packRef: { ...published, pack: { ...published.pack, campaignVariantId: variant.variantId } },
+      };
+    }
+
+    const revision = await fetchRevisionFromCMS(variant.revisionId);
+    if (!revision) {
+      console.warn(
+        `[resolveResultsPack] Experiment ${experimentId} variant ${variant.variantId} revision not found, serving published`
+      );
+      return null;
+    }
+
+    return {
+      experimentId,
+      variant,
+      packRef: {
+        ...revision,
+        pack: { ...revision.pack, campaignVariantId: variant.variantId },
+        packId: published.packId,
+        revisionId: variant.revisionId,
+      },
+    };
+  } catch (error) {
+    console.warn('[resolveResultsPack] Experiment lookup failed, serving published:', error);
+    return null;
+  }
+}
+
@@ -0,0 +1,129 @@
+/**
+ * Tests for the data-driven scoring engine
+ */
+
+import { scoreResponses, evaluateCondition, computeAxisAverages } from '../scoringEngine';
+import { DEFAULT_SCORING_SPEC_GUT_CHECK_V2, getScoringSpec, type ScoringSpec } from '../scoringSpec';
+import { calculateScoringV2 } from '../../../assessmentScoringV2';
+import questionsV2 from '@/content/assessments/gut-check/questions_v2.json';
+
+const thresholds = { axisBandHigh: 2.3, axisBandModerate: 1.3 };
+
+function toResponses(arr: number[]): Record<string, number> {
+  const responses: Record<string, number> = {};
+  arr.forEach((value, i) => {
+    responses[`q${i + 1}`] = value;
+  });
+  return responses;
+}
+
+describe('scoringEngine', () => {
+  describe('legacy parity (default gut-check v2 spec)', () => {
+    // Expected outputs captured from the previous hard-coded engine (scripts/test-assessment-v2.ts personas)
+    const personas: Array<[string, number[], string, string | null, string]> = [
+      ['P1 Stable under load', [0, 0, 1, 1, 0, 1, 1, 1, 1, 0, 1, 1, 0, 0, 0, 0, 0], 'level1', null, 'high'],
+      ['P2 Reactive but rebounds', [1, 2, 1, 3, 2, 3, 3, 2, 3, 1, 1, 1, 0, 0, 0, 1, 1], 'level1', 'high_responsiveness', 'high'],
+      ['P3 Narrow buffer', [1, 2, 2, 3, 2, 2, 1, 1, 1, 2, 2, 1, 0, 0, 0, 1, 2], 'level3', 'poor_recovery', 'moderate'],
+      ['P4 Low capacity', [2, 3, 3, 3, 2, 2, 1, 1, 1, 2, 3, 2, 1, 1, 1, 2, 2], 'level3', 'poor_recovery', 'high'],
+      ['P5 Active protection', [3, 3, 3, 3, 3, 3, 1, 1, 1, 3, 3, 3, 3, 3, 3, 3, 3], 'level4', 'poor_recovery', 'high'],
+      ['P6 High responsiveness', [2, 2, 2, 3, 2, 3, 3, 3, 3, 3, 3, 2, 1, 1, 1, 2, 2], 'level3', 'high_responsiveness', 'high'],
+      ['P8 Fast responder', [0, 1, 0, 1, 1, 1, 3, 2, 3, 0, 0, 1, 0, 0, 0, 0, 0], 'level1', null, 'high'],
+      ['P10 Contradictory', [1, 1, 2, 2, 1, 2, 2, 1, 2, 1, 2, 1, 1, 1, 1, 0, 3], 'level1', null, 'low'],
+    ];
+
+    it.each(personas)('%s', (_name, answers, level, modifier, confidence) => {
+      const result = scoreResponses(toResponses(answers), DEFAULT_SCORING_SPEC_GUT_CHECK_V2, thresholds);
+      expect(result.primaryLevel).toBe(level);
+      expect(result.secondaryModifier).toBe(modifier);
+      expect(result.confidence).toBe(confidence);
+    });
+
+    it('should ship the default spec in questions_v2.json', () => {
+      expect((questionsV2 as any).scoring).toEqual(DEFAULT_SCORING_SPEC_GUT_CHECK_V2);
+    });
+  });
+
+  describe('getScoringSpec', () => {
+    it('should fall back to the default spec when the question set has no scoring block', () => {
+      expect(getScoringSpec({})).toBe(DEFAULT_SCORING_SPEC_GUT_CHECK_V2);
+      expect(getScoringSpec(null)).toBe(DEFAULT_SCORING_SPEC_GUT_CHECK_V2);
+    });
+  });
+
+  describe('custom specs', () => {
+    const spec: ScoringSpec = {
+      axes: ['energy'],
+      questionAxes: {
+        e1: { primary: 'energy' },
+        e2: { primary: 'energy', reverse: true, weight: 2 },
+      },
+      levels: ['tired', 'ok'],
+      levelRules: [{ level: 'tired', when: { axis: 'energy', is: ['high', 'moderate'] } }],
+      fallbackLevel: 'ok',
+      modifierRules: [],
+      confidence: { questionIds: ['e1'], highMaxSpread: 0, moderateMaxSpread: 1 },
+    };
+
+    it('should apply weights and reverse flags', () => {
+      // e1 = 3, e2 reversed = 3 - 0 = 3 (weight 2) => (3 + 6) / 3 = 3
+      expect(computeAxisAverages({ e1: 3, e2: 0 }, spec).energy).toBe(3);
+      // e1 = 0, e2 reversed = 3 - 3 = 0 => 0
+      expect(computeAxisAverages({ e1: 0, e2: 3 }, spec).energy).toBe(0);
+    });
+
+    it('should use level rules and fallback level', () => {
+      expect(scoreResponses({ e1: 3, e2: 0 }, spec, thresholds).primaryLevel).toBe('tired');
+      expect(scoreResponses({ e1: 0, e2: 3 }, spec, thresholds).primaryLevel).toBe('ok');
+      expect(scoreResponses({ e1: 0, e2: 3 }, spec, thresholds).secondaryModifier).toBeNull();
+    });
+
+    it('should skip unanswered questions instead of scoring them as 0', () => {
+      // Only e2 answered: reversed 3 - 1 = 2
+      expect(computeAxisAverages({ e2: 1 }, spec).energy).toBe(2);
+      expect(scoreResponses({ e2: 1 }, spec, thresholds).confidence).toBe('low');
+    });
+
+    it('should ignore responses for questions not in the spec', () => {
+      expect(computeAxisAverages({ e1: 3, e2: 0, extra: 0 }, spec).energy).toBe(3);
+    });
+  });
+
+  describe('evaluateCondition', () => {
+    const bands = { a: 'high' as const, b: 'low' as const };
+
+    it('should evaluate nested all/any/is/isNot', () => {
+      expect(evaluateCondition({ all: [{ axis: 'a', is: 'high' }, { axis: 'b', isNot: 'high' }] }, bands)).toBe(true);
+      expect(evaluateCondition({ any: [{ axis: 'a', is: 'low' }, { axis: 'b', is: ['low', 'moderate'] }] }, bands)).toBe(true);
+      expect(evaluateCondition({ all: [{ axis: 'a', is: 'low' }] }, bands)).toBe(false);
+    });
+  });
+
+  describe('calculateScoringV2', () => {
+    it('should use the config scoring spec and explicit thresholds', async () => {
+      const config = {
+        questions: [
+          { id: 'e1', options: [{ id: 'a', value: 0 }, { id: 'b', value: 3 }] },
+          { id: 'e2', options: [{ id: 'c', value: 0 }, { id: 'd', value: 3 }] },
+        ],
+        scoringSpec: {
+          axes: ['energy'],
+          questionAxes: { e1: { primary: 'energy' }, e2: { primary: 'energy' } },
+          levels: ['low_energy', 'fine'],
+          levelRules: [{ level: 'low_energy', when: { axis: 'energy', is: 'high' as const } }],
+          fallbackLevel: 'fine',
+          modifierRules: [],
+          confidence: { questionIds: ['e1', 'e2'], highMaxSpread: 0, moderateMaxSpread: 1 },
+        },
+      };
+
+      const result = await calculateScoringV2(
+        [{ questionId: 'e1', optionId: 'b' }, { questionId: 'e2', optionId: 'd' }],
+        config,
+        thresholds
+      );
+
+      expect(result.primary_level).toBe('low_energy');
+      expect(result.confidence).toBe('high');
+    });
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Tests for server-side submission rescoring / tamper check
+ */
+
+import {
+  resolveScoringConfig,
+  rescoreAnswers,
+  compareScoringSnapshots,
+  verifySubmissionScoring,
+  type SubmissionScoringSnapshot,
+} from '../verifySubmissionScoring';
+import type { QuestionSet } from '@/lib/assessments/questions/loadQuestionSet';
+import type { Answer } from '@/lib/assessmentTypes';
+import questionsV2 from '@/content/assessments/gut-check/questions_v2.json';
+
+// Thresholds come from CMS config; use defaults in tests
+jest.mock('@/lib/config/getConfig', () => ({
+  getAssessmentConfig: jest.fn().mockRejectedValue(new Error('CMS unavailable in tests')),
+}));
+
+const questionSet = questionsV2 as unknown as QuestionSet;
+
+/** Answer every question with the option whose value matches */
+function answersFor(values: number[]): Answer[] {
+  return questionSet.questions.map((question, i) => {
+    const option = question.options.find((o) => o.value === values[i]) ?? question.options[0];
+    return { questionId: question.id, optionId: option.id };
+  });
+}
+
+describe('verifySubmissionScoring', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('builds the scoring config from the pinned question set', async () => {
+    const config = await resolveScoringConfig('gut-check', 2, questionSet);
+    expect(config.assessmentVersion).toBe(2);
+    expect(config.questions).toHaveLength(questionSet.questions.length);
+    expect(config.scoringSpec).toBeDefined();
+  });
+
+  it('agrees with an honest client result', async () => {
+    const config = await resolveScoringConfig('gut-check', 2, questionSet);
+    const answers = answersFor(new Array(17).fill(0));
+    const honest = await rescoreAnswers(answers, config);
+
+    const verification = await verifySubmissionScoring(answers, config, { ...honest });
+    expect(verification.mismatch).toBe(false);
+    expect(verification.mismatchFields).toEqual([]);
+    expect(verification.server.primaryAvatar).toBe('level1');
+    expect(verification.server.responses).toEqual(honest.responses);
+  });
+
+  it('flags a fabricated level', async () => {
+    const config = await resolveScoringConfig('gut-check', 2, questionSet);
+    const answers = answersFor(new Array(17).fill(0));
+    const honest = await rescoreAnswers(answers, config);
+    const fabricated: SubmissionScoringSnapshot = {
+      ...honest,
+      primaryAvatar: 'level4',
+      scoreMap: { level4: 1 },
+      normalizedScoreMap: { level4: 1 },
+    };
+
+    const verification = await verifySubmissionScoring(answers, config, fabricated);
+    expect(verification.mismatch).toBe(true);
+    expect(verification.mismatchFields).toEqual(['primaryAvatar', 'scoreMap', 'normalizedScoreMap']);
+    expect(verification.server.primaryAvatar).toBe('level1');
+    expect(verification.client.primaryAvatar).toBe('level4');
+  });
+
+  it('flags tampered responses even if the level matches', async () => {
+    const config = await resolveScoringConfig('gut-check', 2, questionSet);
+    const answers = answersFor(new Array(17).fill(0));
+    const honest = await rescoreAnswers(answers, config);
+
+    const fields = compareScoringSnapshots({ ...honest, responses: { ...honest.responses, q1: 3 } }, honest);
+    expect(fields).toEqual(['responses']);
+  });
+
+  it('tolerates float noise and missing optional fields', () => {
+    const server: SubmissionScoringSnapshot = {
+      scoreMap: { a: 1 },
+      normalizedScoreMap: { a: 0.3333333333 },
+      primaryAvatar: 'a',
+      secondaryAvatar: null,
+      confidenceScore: 0.5,
+    };
+    const client: SubmissionScoringSnapshot = {
+      ...server,
+      normalizedScoreMap: { a: 0.33333333334 },
+      confidenceScore: 0.5000000001,
+    };
+    expect(compareScoringSnapshots(client, server)).toEqual([]);
+    expect(compareScoringSnapshots({ ...client, confidenceScore: 1 }, server)).toEqual(['confidenceScore']);
+  });
+});
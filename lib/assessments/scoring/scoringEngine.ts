@@ -0,0 +1,160 @@
+/**
+ * Scoring Engine
+ *
+ * Generic interpreter for ScoringSpec rules declared in question set JSON.
+ * Pure functions only. Deterministic. No API calls. No UI coupling.
+ *
+ * Unanswered questions are skipped (they contribute nothing to axis averages
+ * or confidence), so question sets may omit or skip questions safely.
+ */
+
+import {
+  DEFAULT_SCORING_SCALE,
+  DEFAULT_SECONDARY_WEIGHT,
+  type AxisBand,
+  type ScoringCondition,
+  type ScoringSpec,
+} from './scoringSpec';
+
+export type Confidence = 'high' | 'moderate' | 'low';
+
+export interface AxisThresholds {
+  axisBandHigh: number;
+  axisBandModerate: number;
+}
+
+export interface ScoringEngineResult {
+  primaryLevel: string;
+  secondaryModifier: string | null;
+  confidence: Confidence;
+  axisAverages: Record<string, number>;
+  axisBands: Record<string, AxisBand>;
+}
+
+/**
+ * Normalize answer value based on directionality
+ * If reverse is true, flip the value within the scale (0->3, 1->2, ... for 0-3)
+ */
+function normalize(answer: number, reverse: boolean | undefined, scale: { min: number; max: number }): number {
+  return reverse ? scale.max + scale.min - answer : answer;
+}
+
+/**
+ * Calculate weighted axis averages from responses
+ */
+export function computeAxisAverages(
+  responses: Record<string, number>,
+  spec: ScoringSpec
+): Record<string, number> {
+  const scale = spec.scale ?? DEFAULT_SCORING_SCALE;
+  const axisTotals: Record<string, number> = {};
+  const axisCounts: Record<string, number> = {};
+
+  for (const axis of spec.axes) {
+    axisTotals[axis] = 0;
+    axisCounts[axis] = 0;
+  }
+
+  for (const [questionId, mapping] of Object.entries(spec.questionAxes)) {
+    const answer = responses[questionId];
+    if (typeof answer !== 'number' || Number.isNaN(answer)) continue; // Skipped/unanswered
+
+    const normalizedAnswer = normalize(answer, mapping.reverse, scale);
+
+    const weight = mapping.weight ?? 1;
+    if (mapping.primary in axisTotals) {
+      axisTotals[mapping.primary] += normalizedAnswer * weight;
+      axisCounts[mapping.primary] += weight;
+    }
+
+    if (mapping.secondary && mapping.secondary in axisTotals) {
+      const secondaryWeight = mapping.secondaryWeight ?? DEFAULT_SECONDARY_WEIGHT;
+      axisTotals[mapping.secondary] += normalizedAnswer * secondaryWeight;
+      axisCounts[mapping.secondary] += secondaryWeight;
+    }
+  }
+
+  const axisAverages: Record<string, number> = {};
+  for (const axis of spec.axes) {
+    axisAverages[axis] = axisCounts[axis] > 0 ? axisTotals[axis] / axisCounts[axis] : 0;
+  }
+
+  return axisAverages;
+}
+
+/**
+ * Band an axis average using config thresholds
+ */
+export function bandAxis(avg: number, thresholds: AxisThresholds): AxisBand {
+  if (avg >= thresholds.axisBandHigh) return 'high';
+  if (avg >= thresholds.axisBandModerate) return 'moderate';
+  return 'low';
+}
+
+/**
+ * Evaluate a condition against axis bands
+ */
+export function evaluateCondition(condition: ScoringCondition, bands: Record<string, AxisBand>): boolean {
+  if ('all' in condition) {
+    return condition.all.every((c) => evaluateCondition(c, bands));
+  }
+  if ('any' in condition) {
+    return condition.any.some((c) => evaluateCondition(c, bands));
+  }
+  if ('is' in condition) {
+    const expected = Array.isArray(condition.is) ? condition.is : [condition.is];
+    return expected.includes(bands[condition.axis]);
+  }
+  if ('isNot' in condition) {
+    const excluded = Array.isArray(condition.isNot) ? condition.isNot : [condition.isNot];
+    return !excluded.includes(bands[condition.axis]);
+  }
+  return false;
+}
+
+function determineLevel(bands: Record<string, AxisBand>, spec: ScoringSpec): string {
+  const match = spec.levelRules.find((rule) => evaluateCondition(rule.when, bands));
+  return match ? match.level : spec.fallbackLevel;
+}
+
+function determineModifier(bands: Record<string, AxisBand>, spec: ScoringSpec): string | null {
+  const match = spec.modifierRules.find((rule) => evaluateCondition(rule.when, bands));
+  return match ? match.modifier : null;
+}
+
+function calculateConfidence(responses: Record<string, number>, spec: ScoringSpec): Confidence {
+  const values = spec.confidence.questionIds
+    .map((id) => responses[id])
+    .filter((v): v is number => typeof v === 'number' && !Number.isNaN(v));
+
+  if (values.length === 0) return 'low';
+
+  const spread = Math.max(...values) - Math.min(...values);
+  if (spread <= spec.confidence.highMaxSpread) return 'high';
+  if (spread <= spec.confidence.moderateMaxSpread) return 'moderate';
+  return 'low';
+}
+
+/**
+ * Score responses ({ questionId: value }) against a scoring spec
+ */
+export function scoreResponses(
+  responses: Record<string, number>,
+  spec: ScoringSpec,
+  thresholds: AxisThresholds
+): ScoringEngineResult {
+  const axisAverages = computeAxisAverages(responses, spec);
+
+  const axisBands: Record<string, AxisBand> = {};
+  for (const axis of spec.axes) {
+    axisBands[axis] = bandAxis(axisAverages[axis], thresholds);
+  }
+
+  return {
+    primaryLevel: determineLevel(axisBands, spec),
+    secondaryModifier: determineModifier(axisBands, spec),
+    confidence: calculateConfidence(responses, spec),
+    axisAverages,
+    axisBands,
+  };
+}
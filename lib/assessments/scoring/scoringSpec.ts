@@ -0,0 +1,171 @@
+/**
+ * Scoring Spec
+ *
+ * Declarative scoring rules carried inside a question set's `scoring` block.
+ * The generic engine (scoringEngine.ts) interprets these rules, so editors can
+ * add, drop or reorder questions without a code deploy.
+ *
+ * Question sets without a `scoring` block (including older pinned CMS revisions)
+ * fall back to DEFAULT_SCORING_SPEC_GUT_CHECK_V2, which reproduces the original
+ * hard-coded gut-check v2 rules exactly.
+ */
+
+export type AxisBand = 'low' | 'moderate' | 'high';
+
+/**
+ * How a single question contributes to axis scores
+ */
+export interface QuestionAxisMapping {
+  primary: string;
+  secondary?: string;
+  reverse?: boolean; // If true, reverse the answer (scale.max - answer) to normalize directionality
+  weight?: number; // Primary axis weight (default 1)
+  secondaryWeight?: number; // Secondary axis weight (default 0.5)
+}
+
+/**
+ * Boolean condition over axis bands
+ */
+export type ScoringCondition =
+  | { all: ScoringCondition[] }
+  | { any: ScoringCondition[] }
+  | { axis: string; is: AxisBand | AxisBand[] }
+  | { axis: string; isNot: AxisBand | AxisBand[] };
+
+export interface LevelRule {
+  level: string;
+  when: ScoringCondition;
+}
+
+export interface ModifierRule {
+  modifier: string;
+  when: ScoringCondition;
+}
+
+/**
+ * Confidence is derived from the spread (max - min) of answers to the listed questions
+ */
+export interface ConfidenceRule {
+  questionIds: string[];
+  highMaxSpread: number; // spread <= this = 'high'
+  moderateMaxSpread: number; // spread <= this = 'moderate', else 'low'
+}
+
+export interface ScoringSpec {
+  axes: string[];
+  scale?: { min: number; max: number }; // Answer value range (default 0-3)
+  questionAxes: Record<string, QuestionAxisMapping>;
+  levels: string[];
+  levelRules: LevelRule[]; // Evaluated in order, first match wins
+  fallbackLevel: string;
+  modifierRules: ModifierRule[]; // Evaluated in order, first match wins (no match = null)
+  confidence: ConfidenceRule;
+}
+
+export const DEFAULT_SCORING_SCALE = { min: 0, max: 3 };
+export const DEFAULT_SECONDARY_WEIGHT = 0.5;
+
+/**
+ * Default Scoring Spec for Gut Check v2
+ *
+ * Matches the rules previously hard-coded in lib/assessmentScoringV2.ts
+ * (QUESTION_AXIS_MAP, determineLevel, determineModifier, calculateConfidence).
+ * Do not edit: pinned submissions without a `scoring` block rescore against this.
+ */
+export const DEFAULT_SCORING_SPEC_GUT_CHECK_V2: ScoringSpec = {
+  axes: ['capacity', 'buffer', 'responsiveness', 'recovery', 'protection'],
+  scale: { min: 0, max: 3 },
+  questionAxes: {
+    // Capacity questions: higher = better baseline, so reverse to get "strain"
+    q1: { primary: 'capacity', secondary: 'buffer', reverse: true },
+    q2: { primary: 'capacity', reverse: true },
+    q3: { primary: 'capacity', reverse: true },
+    // Buffer questions: higher = better buffer/warning signs, so reverse
+    q4: { primary: 'buffer', reverse: true },
+    q5: { primary: 'buffer', reverse: true },
+    q6: { primary: 'buffer', secondary: 'responsiveness' },
+    // Responsiveness questions: higher = more reactive/strain (no reverse needed)
+    q7: { primary: 'responsiveness' },
+    q8: { primary: 'responsiveness', secondary: 'recovery' },
+    q9: { primary: 'responsiveness' },
+    // Recovery questions: higher = better recovery, so reverse
+    q10: { primary: 'recovery', reverse: true },
+    q11: { primary: 'recovery', reverse: true },
+    q12: { primary: 'recovery', secondary: 'capacity', reverse: true },
+    // Protection questions: higher = more protection needed/strain (no reverse needed)
+    q13: { primary: 'protection' },
+    q14: { primary: 'protection', secondary: 'responsiveness' },
+    q15: { primary: 'protection' },
+    // q16, q17: integration questions (confidence only, no axis contribution)
+  },
+  levels: ['level1', 'level2', 'level3', 'level4'],
+  levelRules: [
+    // Level 4 — Protection wins
+    {
+      level: 'level4',
+      when: {
+        all: [
+          { axis: 'protection', is: 'high' },
+          { any: [{ axis: 'capacity', is: 'low' }, { axis: 'buffer', is: 'low' }] },
+        ],
+      },
+    },
+    // Level 3 — Low capacity without full protection
+    {
+      level: 'level3',
+      when: {
+        all: [
+          { axis: 'capacity', is: 'low' },
+          { axis: 'protection', isNot: 'high' },
+          { any: [{ axis: 'buffer', is: 'low' }, { axis: 'recovery', is: 'low' }] },
+        ],
+      },
+    },
+    // Level 2 — Reactive pattern
+    {
+      level: 'level2',
+      when: {
+        all: [
+          { axis: 'capacity', is: 'moderate' },
+          { axis: 'buffer', is: 'low' },
+          { axis: 'responsiveness', is: 'high' },
+          { axis: 'recovery', isNot: 'low' },
+        ],
+      },
+    },
+    // Level 1 — Stable under load
+    {
+      level: 'level1',
+      when: {
+        all: [
+          { axis: 'capacity', isNot: 'low' },
+          { axis: 'buffer', isNot: 'low' },
+          { axis: 'recovery', isNot: 'low' },
+          { axis: 'protection', isNot: 'high' },
+        ],
+      },
+    },
+  ],
+  // Conservative fallback
+  fallbackLevel: 'level3',
+  modifierRules: [
+    { modifier: 'high_responsiveness', when: { axis: 'responsiveness', is: 'high' } },
+    { modifier: 'poor_recovery', when: { axis: 'recovery', is: 'low' } },
+    { modifier: 'narrow_buffer', when: { axis: 'buffer', is: 'low' } },
+  ],
+  confidence: {
+    questionIds: ['q16', 'q17'],
+    highMaxSpread: 0,
+    moderateMaxSpread: 1,
+  },
+};
+
+/**
+ * Get the scoring spec for a question set
+ *
+ * Returns the question set's own `scoring` block if present,
+ * otherwise the gut-check v2 default (legacy behavior).
+ */
+export function getScoringSpec(questionSet: { scoring?: ScoringSpec | null } | null | undefined): ScoringSpec {
+  return questionSet?.scoring ?? DEFAULT_SCORING_SPEC_GUT_CHECK_V2;
+}
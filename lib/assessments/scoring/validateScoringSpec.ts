@@ -0,0 +1,248 @@
+/**
+ * Scoring Spec Validation
+ *
+ * Validates the `scoring` block of a question set against its questions.
+ * Called from validateQuestionSet; errors are prefixed with "scoring.".
+ */
+
+import type { ScoringCondition } from './scoringSpec';
+
+const VALID_BANDS = ['low', 'moderate', 'high'];
+
+export interface ScoringSpecValidationResult {
+  errors: string[];
+  warnings: string[];
+}
+
+function isPositiveNumber(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+/**
+ * Validate a condition tree (all/any/is/isNot)
+ */
+function validateCondition(
+  condition: ScoringCondition | any,
+  path: string,
+  axes: Set<string>,
+  errors: string[]
+): void {
+  if (!condition || typeof condition !== 'object' || Array.isArray(condition)) {
+    errors.push(`${path} must be an object.`);
+    return;
+  }
+
+  if ('all' in condition || 'any' in condition) {
+    const key = 'all' in condition ? 'all' : 'any';
+    const children = condition[key];
+    if (!Array.isArray(children) || children.length === 0) {
+      errors.push(`${path}.${key} must be a non-empty array.`);
+      return;
+    }
+    children.forEach((child: any, i: number) => validateCondition(child, `${path}.${key}[${i}]`, axes, errors));
+    return;
+  }
+
+  if ('is' in condition || 'isNot' in condition) {
+    if (typeof condition.axis !== 'string' || !axes.has(condition.axis)) {
+      errors.push(`${path}.axis "${condition.axis}" is not a declared axis.`);
+    }
+    const key = 'is' in condition ? 'is' : 'isNot';
+    const bands = Array.isArray(condition[key]) ? condition[key] : [condition[key]];
+    if (bands.length === 0) {
+      errors.push(`${path}.${key} must not be empty.`);
+    }
+    for (const band of bands) {
+      if (!VALID_BANDS.includes(band)) {
+        errors.push(`${path}.${key} must be one of {low,moderate,high}, got "${band}".`);
+      }
+    }
+    return;
+  }
+
+  errors.push(`${path} must have one of: all, any, is, isNot.`);
+}
+
+/**
+ * Validate a scoring spec
+ *
+ * Enforces:
+ * - axes[] non-empty, unique
+ * - questionAxes keys refer to existing questions; primary/secondary are declared axes
+ * - weights are positive numbers
+ * - levels[] non-empty, unique; levelRules/fallbackLevel reference declared levels
+ * - conditions only reference declared axes and valid bands
+ * - confidence.questionIds refer to existing questions
+ */
+export function validateScoringSpec(spec: any, questionIds: Set<string>): ScoringSpecValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!spec || typeof spec !== 'object' || Array.isArray(spec)) {
+    errors.push('scoring must be an object.');
+    return { errors, warnings };
+  }
+
+  // Axes
+  const axes = new Set<string>();
+  if (!Array.isArray(spec.axes) || spec.axes.length === 0) {
+    errors.push('scoring.axes must be a non-empty array.');
+  } else {
+    spec.axes.forEach((axis: any, i: number) => {
+      if (!axis || typeof axis !== 'string') {
+        errors.push(`scoring.axes[${i}] must be a non-empty string.`);
+      } else if (axes.has(axis)) {
+        errors.push(`scoring.axes[${i}] "${axis}" is duplicate.`);
+      } else {
+        axes.add(axis);
+      }
+    });
+  }
+
+  // Scale
+  if (spec.scale !== undefined) {
+    if (
+      !spec.scale ||
+      typeof spec.scale.min !== 'number' ||
+      typeof spec.scale.max !== 'number' ||
+      spec.scale.min >= spec.scale.max
+    ) {
+      errors.push('scoring.scale must have numeric min < max.');
+    }
+  }
+
+  // Question axis mappings
+  const mappedQuestionIds = new Set<string>();
+  const contributingAxes = new Set<string>();
+  if (!spec.questionAxes || typeof spec.questionAxes !== 'object' || Array.isArray(spec.questionAxes)) {
+    errors.push('scoring.questionAxes must be an object.');
+  } else {
+    for (const [questionId, mapping] of Object.entries<any>(spec.questionAxes)) {
+      const path = `scoring.questionAxes.${questionId}`;
+      if (!questionIds.has(questionId)) {
+        errors.push(`${path} references question.id "${questionId}" which does not exist.`);
+      }
+      mappedQuestionIds.add(questionId);
+
+      if (!mapping || typeof mapping !== 'object') {
+        errors.push(`${path} must be an object.`);
+        continue;
+      }
+
+      if (!axes.has(mapping.primary)) {
+        errors.push(`${path}.primary "${mapping.primary}" is not a declared axis.`);
+      } else {
+        contributingAxes.add(mapping.primary);
+      }
+
+      if (mapping.secondary !== undefined) {
+        if (!axes.has(mapping.secondary)) {
+          errors.push(`${path}.secondary "${mapping.secondary}" is not a declared axis.`);
+        } else if (mapping.secondary === mapping.primary) {
+          errors.push(`${path}.secondary must differ from primary.`);
+        } else {
+          contributingAxes.add(mapping.secondary);
+        }
+      }
+
+      if (mapping.reverse !== undefined && typeof mapping.reverse !== 'boolean') {
+        errors.push(`${path}.reverse must be a boolean.`);
+      }
+      if (mapping.weight !== undefined && !isPositiveNumber(mapping.weight)) {
+        errors.push(`${path}.weight must be a positive number.`);
+      }
+      if (mapping.secondaryWeight !== undefined && !isPositiveNumber(mapping.secondaryWeight)) {
+        errors.push(`${path}.secondaryWeight must be a positive number.`);
+      }
+    }
+  }
+
+  for (const axis of Array.from(axes)) {
+    if (!contributingAxes.has(axis)) {
+      warnings.push(`scoring.axes "${axis}" has no contributing questions and will always band as low.`);
+    }
+  }
+
+  // Levels
+  const levels = new Set<string>();
+  if (!Array.isArray(spec.levels) || spec.levels.length === 0) {
+    errors.push('scoring.levels must be a non-empty array.');
+  } else {
+    spec.levels.forEach((level: any, i: number) => {
+      if (!level || typeof level !== 'string') {
+        errors.push(`scoring.levels[${i}] must be a non-empty string.`);
+      } else if (levels.has(level)) {
+        errors.push(`scoring.levels[${i}] "${level}" is duplicate.`);
+      } else {
+        levels.add(level);
+      }
+    });
+  }
+
+  if (!Array.isArray(spec.levelRules)) {
+    errors.push('scoring.levelRules must be an array.');
+  } else {
+    spec.levelRules.forEach((rule: any, i: number) => {
+      const path = `scoring.levelRules[${i}]`;
+      if (!rule || typeof rule !== 'object') {
+        errors.push(`${path} must be an object.`);
+        return;
+      }
+      if (!levels.has(rule.level)) {
+        errors.push(`${path}.level "${rule.level}" is not a declared level.`);
+      }
+      validateCondition(rule.when, `${path}.when`, axes, errors);
+    });
+  }
+
+  if (!levels.has(spec.fallbackLevel)) {
+    errors.push(`scoring.fallbackLevel "${spec.fallbackLevel}" is not a declared level.`);
+  }
+
+  // Modifiers
+  if (!Array.isArray(spec.modifierRules)) {
+    errors.push('scoring.modifierRules must be an array.');
+  } else {
+    spec.modifierRules.forEach((rule: any, i: number) => {
+      const path = `scoring.modifierRules[${i}]`;
+      if (!rule || typeof rule !== 'object') {
+        errors.push(`${path} must be an object.`);
+        return;
+      }
+      if (!rule.modifier || typeof rule.modifier !== 'string') {
+        errors.push(`${path}.modifier must be a non-empty string.`);
+      }
+      validateCondition(rule.when, `${path}.when`, axes, errors);
+    });
+  }
+
+  // Confidence
+  const confidence = spec.confidence;
+  if (!confidence || typeof confidence !== 'object') {
+    errors.push('scoring.confidence must be an object.');
+  } else {
+    if (!Array.isArray(confidence.questionIds) || confidence.questionIds.length === 0) {
+      errors.push('scoring.confidence.questionIds must be a non-empty array.');
+    } else {
+      for (const qid of confidence.questionIds) {
+        if (!questionIds.has(qid)) {
+          errors.push(`scoring.confidence.questionIds references question.id "${qid}" which does not exist.`);
+        }
+        mappedQuestionIds.add(qid);
+      }
+    }
+    if (typeof confidence.highMaxSpread !== 'number' || typeof confidence.moderateMaxSpread !== 'number') {
+      errors.push('scoring.confidence.highMaxSpread and moderateMaxSpread must be numbers.');
+    } else if (confidence.highMaxSpread > confidence.moderateMaxSpread) {
+      errors.push('scoring.confidence.highMaxSpread must be <= moderateMaxSpread.');
+    }
+  }
+
+  for (const qid of Array.from(questionIds)) {
+    if (!mappedQuestionIds.has(qid)) {
+      warnings.push(`question.id "${qid}" is not used by scoring (no axis mapping or confidence use).`);
+    }
+  }
+
+  return { errors, warnings };
+}
@@ -0,0 +1,151 @@
+/**
+ * Submission Scoring Verification
+ *
+ * Server-side rescoring for /api/assessments/submit.
+ * Recomputes scores from the submitted answers with the pinned question set and the
+ * assessment-config thresholds, and compares them with what the browser sent.
+ *
+ * The server result is authoritative: it is what gets stored in score_map / primary_avatar /
+ * confidence_score (and therefore what flows to n8n and the PDF). Both results are kept on
+ * the submission row (client_scoring / server_scoring) and scoring_mismatch flags tampering
+ * or client/server drift.
+ */
+
+import type { Answer, AssessmentConfig } from '@/lib/assessmentTypes';
+import type { QuestionSet } from '@/lib/assessments/questions/loadQuestionSet';
+import { calculateScoring, type ScoringResult } from '@/lib/assessmentScoring';
+import { convertAnswersToResponsesMap } from '@/lib/assessmentScoringV2';
+import { pruneHiddenAnswers } from '@/lib/assessments/questions/visibility';
+
+/** Tolerance for numeric comparisons (scores and confidence are floats) */
+const SCORE_EPSILON = 1e-6;
+
+export interface SubmissionScoringSnapshot {
+  scoreMap: Record<string, number>;
+  normalizedScoreMap: Record<string, number>;
+  primaryAvatar: string;
+  secondaryAvatar: string | null;
+  confidenceScore: number;
+  /** v2 responses map ({ q1: 0, ... }) */
+  responses?: Record<string, number>;
+}
+
+export interface ScoringVerification {
+  client: SubmissionScoringSnapshot;
+  server: SubmissionScoringSnapshot;
+  mismatch: boolean;
+  /** Fields that differ between client and server (empty if they agree) */
+  mismatchFields: string[];
+}
+
+/**
+ * Build the scoring config used for rescoring
+ *
+ * Uses the resolved (pinned) question set when available; otherwise the legacy
+ * config (gut-check v1 has no question set file).
+ */
+export async function resolveScoringConfig(
+  assessmentType: string,
+  assessmentVersion: number,
+  questionSet: QuestionSet | null | undefined
+): Promise<AssessmentConfig> {
+  const { questionSetToAssessmentConfig, getAssessmentConfig } = await import('@/lib/assessmentConfig');
+
+  if (questionSet) {
+    return questionSetToAssessmentConfig(questionSet, assessmentVersion);
+  }
+
+  return getAssessmentConfig(assessmentType, assessmentVersion);
+}
+
+/**
+ * Convert a ScoringResult to a stored snapshot
+ */
+export function toScoringSnapshot(
+  result: ScoringResult,
+  responses?: Record<string, number>
+): SubmissionScoringSnapshot {
+  return {
+    scoreMap: result.scoreMap,
+    normalizedScoreMap: result.normalizedScoreMap,
+    primaryAvatar: result.primaryAvatar,
+    secondaryAvatar: result.secondaryAvatar || null,
+    confidenceScore: result.confidenceScore,
+    ...(responses ? { responses } : {}),
+  };
+}
+
+/**
+ * Recompute scores from answers (same code path as the browser)
+ */
+export async function rescoreAnswers(
+  answers: Answer[],
+  config: AssessmentConfig
+): Promise<SubmissionScoringSnapshot> {
+  // Answers to questions hidden by visibleIf rules are ignored (same as the client)
+  const visibleAnswers = pruneHiddenAnswers(config.questions, answers);
+  const result = await calculateScoring(visibleAnswers, config);
+  const responses =
+    config.assessmentVersion === 2 ? convertAnswersToResponsesMap(visibleAnswers, config) : undefined;
+  return toScoringSnapshot(result, responses);
+}
+
+function numbersEqual(a: unknown, b: unknown): boolean {
+  return typeof a === 'number' && typeof b === 'number' && Math.abs(a - b) <= SCORE_EPSILON;
+}
+
+function numberMapsEqual(
+  a: Record<string, number> | null | undefined,
+  b: Record<string, number> | null | undefined
+): boolean {
+  const left = a || {};
+  const right = b || {};
+  const keys = Array.from(new Set(Object.keys(left).concat(Object.keys(right))));
+  for (const key of keys) {
+    if (!numbersEqual(left[key], right[key])) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Compare client-sent scoring with the server result
+ *
+ * @returns Names of mismatching fields (empty array if they agree)
+ */
+export function compareScoringSnapshots(
+  client: SubmissionScoringSnapshot,
+  server: SubmissionScoringSnapshot
+): string[] {
+  const fields: string[] = [];
+
+  if (client.primaryAvatar !== server.primaryAvatar) fields.push('primaryAvatar');
+  if ((client.secondaryAvatar || null) !== (server.secondaryAvatar || null)) fields.push('secondaryAvatar');
+  if (!numbersEqual(client.confidenceScore, server.confidenceScore)) fields.push('confidenceScore');
+  if (!numberMapsEqual(client.scoreMap, server.scoreMap)) fields.push('scoreMap');
+  if (!numberMapsEqual(client.normalizedScoreMap, server.normalizedScoreMap)) fields.push('normalizedScoreMap');
+  // Only compare responses if the client sent them (v1 never does)
+  if (client.responses && !numberMapsEqual(client.responses, server.responses)) fields.push('responses');
+
+  return fields;
+}
+
+/**
+ * Rescore a submission and compare with the client result
+ */
+export async function verifySubmissionScoring(
+  answers: Answer[],
+  config: AssessmentConfig,
+  client: SubmissionScoringSnapshot
+): Promise<ScoringVerification> {
+  const server = await rescoreAnswers(answers, config);
+  const mismatchFields = compareScoringSnapshots(client, server);
+
+  return {
+    client,
+    server,
+    mismatch: mismatchFields.length > 0,
+    mismatchFields,
+  };
+}
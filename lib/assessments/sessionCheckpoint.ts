@@ -0,0 +1,129 @@
+/**
+ * Assessment Session Checkpoints
+ *
+ * AssessmentProvider checkpoints partial answers to /api/assessments/session on every
+ * "Next", so an in-progress assessment can be resumed after a reload or on another
+ * device (logged-in users). On return, planResume() decides what can be restored:
+ *
+ * - Checkpoints older than CHECKPOINT_MAX_AGE_DAYS are ignored
+ * - If the question set changed since the checkpoint (different fingerprint), answers
+ *   to removed questions/options are dropped and the user resumes at the first
+ *   unanswered visible question
+ * - Answers to questions hidden by visibleIf rules are pruned
+ *
+ * Client-safe: pure functions only.
+ */
+
+import type { Answer } from '@/lib/assessmentTypes';
+import { getQuestionType, isAnswerComplete } from './questions/questionTypes';
+import { getVisibleQuestionIndexes, pruneHiddenAnswers, type ConditionalQuestion } from './questions/visibility';
+
+export const CHECKPOINT_MAX_AGE_DAYS = 30;
+
+/** Stored in assessment_sessions.checkpoint */
+export interface SessionCheckpoint {
+  answers: Answer[];
+  currentQuestionIndex: number;
+  questionSetFingerprint: string;
+}
+
+/** Checkpoint as returned by GET /api/assessments/session */
+export interface StoredCheckpoint extends SessionCheckpoint {
+  sessionId: string;
+  updatedAt: string;
+}
+
+export interface ResumePlan {
+  sessionId: string;
+  answers: Answer[];
+  currentQuestionIndex: number;
+  /** True if the question set changed since the checkpoint was written */
+  questionSetChanged: boolean;
+  /** Answers that could not be kept (question/option removed, invalid, or now hidden) */
+  droppedAnswerCount: number;
+  /** Visible questions (given the kept answers) and how many of them are answered */
+  visibleQuestionCount: number;
+  answeredCount: number;
+  updatedAt: string;
+}
+
+/**
+ * Fingerprint of the answer-relevant structure of a question set
+ *
+ * Covers question ids/types, option ids/values, selection limits, slider ranges and
+ * visibility rules - copy edits (question text, labels) do not change it.
+ */
+export function getQuestionSetFingerprint(questions: ConditionalQuestion[]): string {
+  const structure = questions
+    .map((q) =>
+      JSON.stringify([
+        q.id,
+        getQuestionType(q),
+        (q.options || []).map((o) => [o.id, o.value ?? null, o.exclusive ?? false]),
+        q.minSelections ?? null,
+        q.maxSelections ?? null,
+        q.slider ? [q.slider.min, q.slider.max, q.slider.step ?? null] : null,
+        q.visibleIf ?? null,
+      ])
+    )
+    .join('|');
+
+  // djb2 (32-bit) - stable across browsers and Node, no crypto needed client-side
+  let hash = 5381;
+  for (let i = 0; i < structure.length; i++) {
+    hash = ((hash << 5) + hash + structure.charCodeAt(i)) | 0;
+  }
+  return `qs-${(hash >>> 0).toString(16)}-${questions.length}`;
+}
+
+/**
+ * Decide how (and whether) to resume from a checkpoint
+ *
+ * @returns null if there is nothing to resume (expired, or no answers survive)
+ */
+export function planResume(
+  checkpoint: StoredCheckpoint,
+  questions: ConditionalQuestion[],
+  now: Date = new Date()
+): ResumePlan | null {
+  const ageMs = now.getTime() - new Date(checkpoint.updatedAt).getTime();
+  if (!(ageMs <= CHECKPOINT_MAX_AGE_DAYS * 24 * 60 * 60 * 1000)) {
+    return null;
+  }
+
+  const storedAnswers = Array.isArray(checkpoint.answers) ? checkpoint.answers : [];
+  const questionSetChanged = checkpoint.questionSetFingerprint !== getQuestionSetFingerprint(questions);
+
+  // Keep complete answers to questions that still exist (options may have been removed)
+  const validAnswers = storedAnswers.filter((answer) => {
+    const question = questions.find((q) => q.id === answer?.questionId);
+    return !!question && isAnswerComplete(question, answer);
+  });
+  const answers = pruneHiddenAnswers(questions, validAnswers);
+
+  if (answers.length === 0) {
+    return null;
+  }
+
+  const visible = getVisibleQuestionIndexes(questions, answers);
+  const answeredIds = answers.map((a) => a.questionId);
+  const firstUnanswered = visible.find((i) => !answeredIds.includes(questions[i].id));
+
+  let currentQuestionIndex: number;
+  if (!questionSetChanged && visible.includes(checkpoint.currentQuestionIndex)) {
+    currentQuestionIndex = checkpoint.currentQuestionIndex;
+  } else {
+    currentQuestionIndex = firstUnanswered ?? visible[visible.length - 1];
+  }
+
+  return {
+    sessionId: checkpoint.sessionId,
+    answers,
+    currentQuestionIndex,
+    questionSetChanged,
+    droppedAnswerCount: storedAnswers.length - answers.length,
+    visibleQuestionCount: visible.length,
+    answeredCount: visible.filter((i) => answeredIds.includes(questions[i].id)).length,
+    updatedAt: checkpoint.updatedAt,
+  };
+}
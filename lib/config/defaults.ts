@@ -26,9 +26,10 @@ export const DEFAULT_FEATURE_FLAGS: FeatureFlags = {
 /**
  * Default Assessment Config for Gut Check v2
  * 
- * Thresholds match current hard-coded values in lib/assessmentScoringV2.ts:
- * - bandAxis function: if (avg >= 2.3) return 'high'
- * - bandAxis function: if (avg >= 1.3) return 'moderate'
+ * Thresholds match DEFAULT_AXIS_THRESHOLDS in lib/assessmentScoringV2.ts
+ * (originally hard-coded in the bandAxis function):
+ * - if (avg >= 2.3) return 'high'
+ * - if (avg >= 1.3) return 'moderate'
  * 
  * These thresholds determine axis band classification:
  * - high: >= axisBandHigh (2.3)
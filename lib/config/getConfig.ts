@@ -12,9 +12,9 @@ import type { FeatureFlags, AssessmentConfig, AvatarMapping } from './types';
 import {
   DEFAULT_FEATURE_FLAGS,
   DEFAULT_ASSESSMENT_CONFIG_GUT_CHECK_V2,
-  DEFAULT_ASSESSMENT_CONFIG_GUT_CHECK_V1,
   DEFAULT_AVATAR_MAPPING,
 } from './defaults';
+import { getAssessmentDefinition } from '../assessments/registry';
 import { featureFlagsSchema, assessmentConfigSchema, avatarMappingSchema } from '../contentValidators';
 
 // ============================================================================
@@ -135,7 +135,7 @@ export async function getFeatureFlags(): Promise<FeatureFlags> {
  * Phase 2 / Step 1.1: Client-side uses public API route with caching.
  */
 export async function getAssessmentConfig(
-  assessmentType: 'gut-check',
+  assessmentType: string,
   version: number
 ): Promise<AssessmentConfig> {
   const configKey = `assessment-config:${assessmentType}:${version}`;
@@ -211,21 +211,19 @@ export async function getAssessmentConfig(
 /**
  * Get default assessment config based on type and version
  * 
+ * Defaults come from the assessment registry (lib/assessments/registry.ts).
  * Exported for use in API route (public access).
  */
 export function getDefaultAssessmentConfig(
-  assessmentType: 'gut-check',
+  assessmentType: string,
   version: number
 ): AssessmentConfig {
-  if (assessmentType === 'gut-check' && version === 2) {
-    return DEFAULT_ASSESSMENT_CONFIG_GUT_CHECK_V2;
+  const entry = getAssessmentDefinition(assessmentType)?.configs[version];
+  if (entry) {
+    return entry.defaults;
   }
 
-  if (assessmentType === 'gut-check' && version === 1) {
-    return DEFAULT_ASSESSMENT_CONFIG_GUT_CHECK_V1;
-  }
-
-  // Fallback to v2 defaults for unknown types/versions
+  // Fallback to gut-check v2 defaults for unknown types/versions
   return DEFAULT_ASSESSMENT_CONFIG_GUT_CHECK_V2;
 }
 
@@ -15,6 +15,7 @@
  * - feature-flags:global - Global feature flags
  * - avatar-mapping:global - Global avatar key mappings
  * - assessment-config:{type}:{version} - Assessment-specific config (e.g., assessment-config:gut-check:2, assessment-config:gut-check:1)
+ *   These entries are generated from the assessment registry (lib/assessments/registry.ts).
  * 
  * How to Add a New Config Safely:
  * 1. Add the config type to lib/config/types.ts
@@ -29,10 +30,9 @@
 import type { FeatureFlags, AssessmentConfig, AvatarMapping } from './types';
 import {
   DEFAULT_FEATURE_FLAGS,
-  DEFAULT_ASSESSMENT_CONFIG_GUT_CHECK_V2,
-  DEFAULT_ASSESSMENT_CONFIG_GUT_CHECK_V1,
   DEFAULT_AVATAR_MAPPING,
 } from './defaults';
+import { ASSESSMENT_REGISTRY, getAssessmentConfigEditorPath } from '../assessments/registry';
 import {
   featureFlagsSchema,
   assessmentConfigSchema,
@@ -54,6 +54,30 @@ export interface ConfigRegistryEntry {
   description: string;
 }
 
+/**
+ * Build assessment-config:{type}:{version} entries from the assessment registry
+ */
+function buildAssessmentConfigEntries(): Record<string, ConfigRegistryEntry> {
+  const entries: Record<string, ConfigRegistryEntry> = {};
+
+  for (const definition of Object.values(ASSESSMENT_REGISTRY)) {
+    for (const [versionKey, versionConfig] of Object.entries(definition.configs)) {
+      const version = Number(versionKey);
+      const key = `assessment-config:${definition.assessmentType}:${version}`;
+      entries[key] = {
+        keyPattern: key,
+        schema: assessmentConfigSchema,
+        getDefault: () => versionConfig.defaults,
+        isPublicReadable: true,
+        adminEditorPath: getAssessmentConfigEditorPath(definition.assessmentType, version),
+        description: versionConfig.description,
+      };
+    }
+  }
+
+  return entries;
+}
+
 /**
  * Config Registry
  * 
@@ -76,22 +100,7 @@ export const CONFIG_REGISTRY: Record<string, ConfigRegistryEntry> = {
     adminEditorPath: '/admin/config/avatar-mapping',
     description: 'Global avatar key mappings (result keys -> display keys)',
   },
-  'assessment-config:gut-check:2': {
-    keyPattern: 'assessment-config:gut-check:2',
-    schema: assessmentConfigSchema,
-    getDefault: () => DEFAULT_ASSESSMENT_CONFIG_GUT_CHECK_V2,
-    isPublicReadable: true,
-    adminEditorPath: '/admin/config/assessments/gut-check-v2',
-    description: 'Gut Check v2 scoring thresholds (axis band classification)',
-  },
-  'assessment-config:gut-check:1': {
-    keyPattern: 'assessment-config:gut-check:1',
-    schema: assessmentConfigSchema,
-    getDefault: () => DEFAULT_ASSESSMENT_CONFIG_GUT_CHECK_V1,
-    isPublicReadable: true,
-    adminEditorPath: '/admin/config/assessments/gut-check-v1',
-    description: 'Gut Check v1 scoring thresholds (confidence thresholds, secondary avatar threshold)',
-  },
+  ...buildAssessmentConfigEntries(),
 };
 
 /**
@@ -0,0 +1,68 @@
+/**
+ * Tests for signed email consent tokens
+ */
+
+import {
+  buildListUnsubscribeHeaders,
+  CONFIRM_TOKEN_MAX_AGE_MS,
+  createConsentToken,
+  isOneClickUnsubscribeBody,
+  verifyConsentToken,
+} from '../consentTokens';
+
+const secret = 'test-secret';
+const issuedAt = new Date('2026-03-01T10:00:00Z');
+
+describe('verifyConsentToken', () => {
+  it('should accept a token it signed', () => {
+    const token = createConsentToken('person-1', 'confirm', secret, issuedAt);
+    const result = verifyConsentToken(token, 'confirm', secret, issuedAt);
+
+    expect(result).toEqual({ ok: true, payload: { p: 'person-1', a: 'confirm', iat: issuedAt.getTime() } });
+    expect(token).toMatch(/^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/);
+  });
+
+  it('should reject a tampered payload or another secret', () => {
+    const token = createConsentToken('person-1', 'manage', secret, issuedAt);
+    const [, signature] = token.split('.');
+    const forged = `${Buffer.from(JSON.stringify({ p: 'person-2', a: 'manage', iat: 0 })).toString('base64')}.${signature}`;
+
+    expect(verifyConsentToken(forged, 'manage', secret)).toEqual({ ok: false, error: 'bad_signature' });
+    expect(verifyConsentToken(token, 'manage', 'other-secret')).toEqual({ ok: false, error: 'bad_signature' });
+  });
+
+  it('should reject malformed tokens', () => {
+    expect(verifyConsentToken('', 'manage', secret)).toEqual({ ok: false, error: 'malformed' });
+    expect(verifyConsentToken('abc', 'manage', secret)).toEqual({ ok: false, error: 'malformed' });
+  });
+
+  it('should not accept a manage token as a confirmation', () => {
+    const token = createConsentToken('person-1', 'manage', secret, issuedAt);
+    expect(verifyConsentToken(token, 'confirm', secret, issuedAt)).toEqual({ ok: false, error: 'wrong_action' });
+  });
+
+  it('should expire confirmation tokens but not manage tokens', () => {
+    const later = new Date(issuedAt.getTime() + CONFIRM_TOKEN_MAX_AGE_MS + 1);
+    const confirm = createConsentToken('person-1', 'confirm', secret, issuedAt);
+    const manage = createConsentToken('person-1', 'manage', secret, issuedAt);
+
+    expect(verifyConsentToken(confirm, 'confirm', secret, later)).toEqual({ ok: false, error: 'expired' });
+    expect(verifyConsentToken(manage, 'manage', secret, later).ok).toBe(true);
+  });
+});
+
+describe('one-click unsubscribe', () => {
+  it('should build RFC 8058 headers', () => {
+    expect(buildListUnsubscribeHeaders('https://myfinediet.com/api/people/unsubscribe?token=t')).toEqual({
+      'List-Unsubscribe': '<https://myfinediet.com/api/people/unsubscribe?token=t>',
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    });
+  });
+
+  it('should recognize the one-click body', () => {
+    expect(isOneClickUnsubscribeBody('List-Unsubscribe=One-Click')).toBe(true);
+    expect(isOneClickUnsubscribeBody({ 'List-Unsubscribe': 'One-Click' })).toBe(true);
+    expect(isOneClickUnsubscribeBody('List-Unsubscribe=Other')).toBe(false);
+    expect(isOneClickUnsubscribeBody('')).toBe(false);
+  });
+});
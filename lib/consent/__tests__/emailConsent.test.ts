@@ -0,0 +1,141 @@
+/**
+ * Tests for confirming email consent from a confirmation link
+ */
+
+import { confirmEmailConsent, unsubscribeEmail } from '../emailConsent';
+
+type Row = Record<string, any>;
+
+let mockPerson: Row | null = null;
+const mockPersonUpdates: Row[] = [];
+const mockLogEvent = jest.fn();
+const mockEnqueueWebhookEvent = jest.fn();
+
+jest.mock('@/lib/supabaseServerClient', () => {
+  let table = '';
+  const builder: Record<string, any> = {
+    select: () => builder,
+    eq: () => builder,
+    update: (values: Row) => {
+      if (table === 'people') {
+        mockPersonUpdates.push(values);
+      }
+      return builder;
+    },
+    maybeSingle: async () => ({ data: mockPerson, error: null }),
+    single: async () => {
+      mockPerson = { ...mockPerson, ...mockPersonUpdates[mockPersonUpdates.length - 1] };
+      return { data: mockPerson, error: null };
+    },
+  };
+  return {
+    supabaseAdmin: {
+      from: (name: string) => {
+        table = name;
+        return builder;
+      },
+    },
+  };
+});
+
+jest.mock('@/lib/peopleService', () => ({
+  logEvent: (params: unknown) => mockLogEvent(params),
+  ensureSubscription: jest.fn(),
+}));
+jest.mock('@/lib/outbox/enqueueEvent', () => ({
+  enqueueWebhookEvent: (...args: unknown[]) => mockEnqueueWebhookEvent(...args),
+}));
+jest.mock('@/lib/outbox/dispatcher', () => ({ dispatchOutbox: jest.fn() }));
+
+const UNSUBSCRIBED_AT = '2026-03-01T12:00:00.000Z';
+
+beforeEach(() => {
+  mockPersonUpdates.length = 0;
+  mockLogEvent.mockReset();
+  mockEnqueueWebhookEvent.mockReset();
+  mockPerson = {
+    id: 'person-1',
+    email: 'ada@example.com',
+    status: 'unsubscribed',
+    email_marketing_opt_in: false,
+    email_consent_status: 'pending',
+    email_unsubscribed_at: UNSUBSCRIBED_AT,
+  };
+});
+
+describe('confirmEmailConsent', () => {
+  it('should confirm a pending request with a link issued after the last unsubscribe', async () => {
+    const result = await confirmEmailConsent('person-1', new Date(UNSUBSCRIBED_AT).getTime() + 1000);
+
+    expect(result.ok).toBe(true);
+    expect(mockPersonUpdates[0]).toMatchObject({
+      email_marketing_opt_in: true,
+      email_consent_status: 'confirmed',
+      status: 'marketing_only',
+    });
+    expect(mockLogEvent).toHaveBeenCalledWith(expect.objectContaining({ eventType: 'consent_confirmed' }));
+  });
+
+  it('should refuse a link issued before the last unsubscribe', async () => {
+    const result = await confirmEmailConsent('person-1', new Date(UNSUBSCRIBED_AT).getTime() - 1000);
+
+    expect(result).toEqual({ ok: false, error: 'superseded' });
+    expect(mockPersonUpdates).toEqual([]);
+  });
+
+  it('should refuse when no confirmation is pending', async () => {
+    mockPerson = { ...mockPerson, email_consent_status: 'unsubscribed' };
+
+    const result = await confirmEmailConsent('person-1', Date.now());
+
+    expect(result).toEqual({ ok: false, error: 'not_requested' });
+    expect(mockPersonUpdates).toEqual([]);
+  });
+
+  it('should leave an already confirmed person unchanged', async () => {
+    mockPerson = { ...mockPerson, status: 'marketing_only', email_marketing_opt_in: true, email_consent_status: 'confirmed' };
+
+    const result = await confirmEmailConsent('person-1', Date.now());
+
+    expect(result.ok).toBe(true);
+    expect(mockPersonUpdates).toEqual([]);
+    expect(mockLogEvent).not.toHaveBeenCalled();
+  });
+
+  it('should report an unknown person', async () => {
+    mockPerson = null;
+
+    expect(await confirmEmailConsent('person-1', Date.now())).toEqual({ ok: false, error: 'not_found' });
+  });
+});
+
+describe('person_status_change events', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should queue every unsubscribe, including one after a resubscribe', async () => {
+    jest.useFakeTimers({ now: new Date('2026-03-02T09:00:00.000Z') });
+    mockPerson = { ...mockPerson, status: 'marketing_only', email_consent_status: 'confirmed', email_marketing_opt_in: true };
+
+    await unsubscribeEmail('person-1');
+    jest.setSystemTime(new Date('2026-03-03T09:00:00.000Z'));
+    mockPerson = { ...mockPerson, email_consent_status: 'pending' };
+    await confirmEmailConsent('person-1', Date.now());
+    jest.setSystemTime(new Date('2026-03-04T09:00:00.000Z'));
+    await unsubscribeEmail('person-1');
+
+    const transitions = mockEnqueueWebhookEvent.mock.calls.map(([eventType, eventKey, data]) => ({
+      eventType,
+      eventKey,
+      toStatus: data.to_status,
+    }));
+    expect(transitions.map((transition) => transition.toStatus)).toEqual([
+      'unsubscribed',
+      'marketing_only',
+      'unsubscribed',
+    ]);
+    expect(transitions.every((transition) => transition.eventType === 'person_status_change')).toBe(true);
+    expect(new Set(transitions.map((transition) => transition.eventKey)).size).toBe(3);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Tests for email preference helpers
+ */
+
+import { maskEmail, parsePreferencesInput, planPreferenceChanges, summarizePreferences } from '../preferences';
+
+describe('summarizePreferences', () => {
+  it('should turn a type on when any of its rows is active', () => {
+    expect(
+      summarizePreferences([
+        { subscription_type: 'email_marketing', is_active: true },
+        { subscription_type: 'program_waitlist', is_active: false },
+        { subscription_type: 'program_waitlist', is_active: true },
+        { subscription_type: 'unknown', is_active: true },
+      ])
+    ).toEqual({ email_marketing: true, product_updates: false, program_waitlist: true });
+  });
+});
+
+describe('planPreferenceChanges', () => {
+  it('should only include types that change', () => {
+    expect(
+      planPreferenceChanges(
+        { email_marketing: true, product_updates: false, program_waitlist: true },
+        { email_marketing: true, product_updates: true, program_waitlist: false }
+      )
+    ).toEqual([
+      { type: 'product_updates', active: true },
+      { type: 'program_waitlist', active: false },
+    ]);
+  });
+});
+
+describe('parsePreferencesInput', () => {
+  it('should accept known types with boolean values', () => {
+    expect(parsePreferencesInput({ email_marketing: false })).toEqual({
+      ok: true,
+      preferences: { email_marketing: false },
+    });
+  });
+
+  it('should reject unknown types and non-boolean values', () => {
+    expect(parsePreferencesInput({ sms: true })).toEqual({ ok: false, error: 'Unknown subscription type: sms' });
+    expect(parsePreferencesInput({ product_updates: 'yes' })).toEqual({
+      ok: false,
+      error: 'product_updates must be a boolean',
+    });
+    expect(parsePreferencesInput(null).ok).toBe(false);
+  });
+});
+
+describe('maskEmail', () => {
+  it('should keep the first letter and the domain', () => {
+    expect(maskEmail('ada@example.com')).toBe('a***@example.com');
+    expect(maskEmail('invalid')).toBe('***');
+  });
+});
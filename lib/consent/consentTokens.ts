@@ -0,0 +1,109 @@
+/**
+ * Email Consent Tokens
+ *
+ * Signed tokens in consent emails, so the links work without a login:
+ *
+ * - confirm: double opt-in confirmation link, valid for CONFIRM_TOKEN_MAX_AGE_MS
+ * - manage: unsubscribe (including RFC 8058 one-click) and preference links; these sit in
+ *   every marketing email and do not expire
+ *
+ * Format: base64url(JSON payload) + '.' + base64url(HMAC-SHA256(payload, EMAIL_TOKEN_SECRET)).
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export type ConsentTokenAction = 'confirm' | 'manage';
+
+export interface ConsentTokenPayload {
+  /** people.id */
+  p: string;
+  a: ConsentTokenAction;
+  /** Issued at (ms since epoch) */
+  iat: number;
+}
+
+export type ConsentTokenResult =
+  | { ok: true; payload: ConsentTokenPayload }
+  | { ok: false; error: 'malformed' | 'bad_signature' | 'wrong_action' | 'expired' };
+
+/** Confirmation links expire after 7 days; a new signup sends a fresh one */
+export const CONFIRM_TOKEN_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+function base64url(input: Buffer | string): string {
+  return Buffer.from(input).toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64url(input: string): Buffer {
+  return Buffer.from(input.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+}
+
+function sign(encodedPayload: string, secret: string): string {
+  return base64url(createHmac('sha256', secret).update(encodedPayload).digest());
+}
+
+export function createConsentToken(
+  personId: string,
+  action: ConsentTokenAction,
+  secret: string,
+  now: Date = new Date()
+): string {
+  const payload: ConsentTokenPayload = { p: personId, a: action, iat: now.getTime() };
+  const encoded = base64url(JSON.stringify(payload));
+  return `${encoded}.${sign(encoded, secret)}`;
+}
+
+export function verifyConsentToken(
+  token: string,
+  expectedAction: ConsentTokenAction,
+  secret: string,
+  now: Date = new Date()
+): ConsentTokenResult {
+  const parts = typeof token === 'string' ? token.split('.') : [];
+  if (parts.length !== 2 || !parts[0] || !parts[1]) {
+    return { ok: false, error: 'malformed' };
+  }
+
+  const expected = Buffer.from(sign(parts[0], secret));
+  const actual = Buffer.from(parts[1]);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { ok: false, error: 'bad_signature' };
+  }
+
+  let payload: ConsentTokenPayload;
+  try {
+    payload = JSON.parse(fromBase64url(parts[0]).toString('utf8'));
+  } catch {
+    return { ok: false, error: 'malformed' };
+  }
+  if (!payload || typeof payload.p !== 'string' || typeof payload.iat !== 'number') {
+    return { ok: false, error: 'malformed' };
+  }
+  if (payload.a !== expectedAction) {
+    return { ok: false, error: 'wrong_action' };
+  }
+  if (expectedAction === 'confirm' && now.getTime() - payload.iat > CONFIRM_TOKEN_MAX_AGE_MS) {
+    return { ok: false, error: 'expired' };
+  }
+  return { ok: true, payload };
+}
+
+/**
+ * Headers for marketing emails (RFC 2369 List-Unsubscribe + RFC 8058 one-click)
+ */
+export function buildListUnsubscribeHeaders(unsubscribeUrl: string): Record<string, string> {
+  return {
+    'List-Unsubscribe': `<${unsubscribeUrl}>`,
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+  };
+}
+
+/**
+ * Whether a POST body is an RFC 8058 one-click unsubscribe (form-encoded or already parsed)
+ */
+export function isOneClickUnsubscribeBody(body: string | Record<string, unknown> | null | undefined): boolean {
+  if (!body) return false;
+  if (typeof body === 'string') {
+    return new URLSearchParams(body).get('List-Unsubscribe') === 'One-Click';
+  }
+  return body['List-Unsubscribe'] === 'One-Click';
+}
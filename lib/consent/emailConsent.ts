@@ -0,0 +1,411 @@
+/**
+ * Email Consent (server)
+ *
+ * Double opt-in for marketing email, unsubscribe and per-type preferences:
+ *
+ * - requestEmailConsent: newsletter/waitlist signups mark the person 'pending' and queue a
+ *   confirmation email (webhook_outbox target 'n8n_consent_email', delivered by n8n)
+ * - confirmEmailConsent: confirming from the link's page grants email_marketing_opt_in
+ * - unsubscribeEmail / updateEmailPreferences: manage links in every email, including the
+ *   RFC 8058 one-click POST
+ *
+ * Every consent change is logged to people_events via logEvent.
+ */
+
+import { supabaseAdmin } from '@/lib/supabaseServerClient';
+import { logEvent, ensureSubscription, type Person, type SubscriptionType } from '@/lib/peopleService';
+import { enqueueWebhookEvent } from '@/lib/outbox/enqueueEvent';
+import { dispatchOutbox } from '@/lib/outbox/dispatcher';
+import {
+  buildListUnsubscribeHeaders,
+  createConsentToken,
+  verifyConsentToken,
+  type ConsentTokenAction,
+  type ConsentTokenResult,
+} from './consentTokens';
+import {
+  maskEmail,
+  planPreferenceChanges,
+  summarizePreferences,
+  SUBSCRIPTION_TYPES,
+  type EmailPreferences,
+} from './preferences';
+
+export const CONSENT_EMAIL_TARGET = 'n8n_consent_email';
+
+/** Signups within this window reuse the pending request instead of sending another email */
+const RESEND_THROTTLE_MS = 10 * 60 * 1000;
+
+const DEFAULT_SITE_URL = 'https://myfinediet.com';
+
+export function getEmailTokenSecret(): string {
+  const secret = process.env.EMAIL_TOKEN_SECRET;
+  if (!secret) {
+    throw new Error('EMAIL_TOKEN_SECRET is not configured');
+  }
+  return secret;
+}
+
+/** Base for links in emails (NEXT_PUBLIC_SITE_URL, production domain by default) */
+export function getSiteUrl(): string {
+  return (process.env.NEXT_PUBLIC_SITE_URL || DEFAULT_SITE_URL).replace(/\/+$/, '');
+}
+
+export interface ConsentLinks {
+  confirmUrl: string;
+  preferencesUrl: string;
+  unsubscribeUrl: string;
+  headers: Record<string, string>;
+}
+
+/**
+ * Links for a person's emails. Unsubscribe and preferences share the non-expiring manage token.
+ */
+export function buildConsentLinks(personId: string, now: Date = new Date()): ConsentLinks {
+  const secret = getEmailTokenSecret();
+  const siteUrl = getSiteUrl();
+  const confirmToken = encodeURIComponent(createConsentToken(personId, 'confirm', secret, now));
+  const manageToken = encodeURIComponent(createConsentToken(personId, 'manage', secret, now));
+  const unsubscribeUrl = `${siteUrl}/api/people/unsubscribe?token=${manageToken}`;
+
+  return {
+    confirmUrl: `${siteUrl}/api/people/consent/confirm?token=${confirmToken}`,
+    preferencesUrl: `${siteUrl}/email-preferences?token=${manageToken}`,
+    unsubscribeUrl,
+    headers: buildListUnsubscribeHeaders(unsubscribeUrl),
+  };
+}
+
+export function verifyToken(token: string, action: ConsentTokenAction): ConsentTokenResult {
+  return verifyConsentToken(token, action, getEmailTokenSecret());
+}
+
+async function loadPerson(personId: string): Promise<Person | null> {
+  const { data, error } = await supabaseAdmin.from('people').select('*').eq('id', personId).maybeSingle();
+  if (error) {
+    throw new Error(`Database error: ${error.message}`);
+  }
+  return (data as Person) || null;
+}
+
+async function updatePerson(personId: string, update: Record<string, unknown>): Promise<Person> {
+  const { data, error } = await supabaseAdmin
+    .from('people')
+    .update({ ...update, updated_at: new Date().toISOString() })
+    .eq('id', personId)
+    .select()
+    .single();
+  if (error) {
+    throw new Error(`Database error: ${error.message}`);
+  }
+  return data as Person;
+}
+
+// ============================================================================
+// Double opt-in
+// ============================================================================
+
+/**
+ * Mark the person pending and queue the confirmation email. No-op when consent is already
+ * confirmed or a confirmation was requested in the last RESEND_THROTTLE_MS.
+ */
+export async function requestEmailConsent(person: Person, source: string | null): Promise<Person> {
+  if (person.email_consent_status === 'confirmed' && person.email_marketing_opt_in) {
+    return person;
+  }
+
+  const now = new Date();
+  const lastRequested = person.email_consent_requested_at ? new Date(person.email_consent_requested_at).getTime() : 0;
+  if (person.email_consent_status === 'pending' && now.getTime() - lastRequested < RESEND_THROTTLE_MS) {
+    return person;
+  }
+
+  const updated = await updatePerson(person.id, {
+    email_consent_status: 'pending',
+    email_consent_requested_at: now.toISOString(),
+  });
+
+  await logEvent({
+    personId: person.id,
+    eventType: 'consent_requested',
+    source,
+    channel: 'email',
+    metadata: { from_status: person.email_consent_status || 'none' },
+  });
+
+  const webhookUrl = process.env.N8N_CONSENT_EMAIL_WEBHOOK_URL;
+  if (!webhookUrl) {
+    console.warn('N8N_CONSENT_EMAIL_WEBHOOK_URL is not set; consent confirmation email not sent');
+    return updated;
+  }
+
+  const links = buildConsentLinks(person.id, now);
+  const { data: outboxData, error: outboxError } = await supabaseAdmin
+    .from('webhook_outbox')
+    .insert({
+      submission_id: null,
+      target: CONSENT_EMAIL_TARGET,
+      event_key: `${person.id}:consent:${now.getTime()}`,
+      webhook_url: webhookUrl,
+      payload: {
+        kind: 'consent_confirmation',
+        email: person.email,
+        first_name: person.first_name,
+        confirm_url: links.confirmUrl,
+        preferences_url: links.preferencesUrl,
+        unsubscribe_url: links.unsubscribeUrl,
+        headers: links.headers,
+      },
+      status: 'pending',
+      attempts: 0,
+      last_attempt_at: now.toISOString(),
+    })
+    .select('id');
+
+  if (outboxError) {
+    console.error('Error queueing consent confirmation email:', outboxError);
+  } else if (outboxData && outboxData.length > 0) {
+    // Do not await - the dispatcher cron retries anything this attempt misses
+    dispatchOutbox({ ids: [outboxData[0].id], limit: 1, timeoutMs: 2500 }).catch((error) => {
+      console.error('Consent email dispatch error (non-blocking):', error);
+    });
+  }
+
+  return updated;
+}
+
+export type ConfirmConsentResult =
+  | { ok: true; person: Person }
+  | { ok: false; error: 'not_found' | 'not_requested' | 'superseded' };
+
+/**
+ * Grant marketing consent from a confirmation link. Confirming again is a no-op.
+ *
+ * Only a pending request can be confirmed, and only with a link issued after the person's
+ * last unsubscribe: an old confirmation email must not undo a later unsubscribe.
+ */
+export async function confirmEmailConsent(
+  personId: string,
+  issuedAt: number,
+  source: string = 'consent_link'
+): Promise<ConfirmConsentResult> {
+  const person = await loadPerson(personId);
+  if (!person) {
+    return { ok: false, error: 'not_found' };
+  }
+  if (person.email_consent_status === 'confirmed' && person.email_marketing_opt_in) {
+    return { ok: true, person };
+  }
+  if (person.email_consent_status !== 'pending') {
+    return { ok: false, error: 'not_requested' };
+  }
+  if (person.email_unsubscribed_at && issuedAt <= new Date(person.email_unsubscribed_at).getTime()) {
+    return { ok: false, error: 'superseded' };
+  }
+  return { ok: true, person: await grantEmailConsent(person, source) };
+}
+
+/**
+ * Record confirmed consent; the caller has established that the person asked for it
+ */
+async function grantEmailConsent(person: Person, source: string): Promise<Person> {
+  const personId = person.id;
+  const now = new Date().toISOString();
+  // Re-subscribing after an unsubscribe returns the person to the marketing list
+  const resubscribed = person.status === 'unsubscribed';
+  const updated = await updatePerson(personId, {
+    email_marketing_opt_in: true,
+    email_opt_in_at: now,
+    email_consent_status: 'confirmed',
+    email_consent_confirmed_at: now,
+    ...(resubscribed ? { status: 'marketing_only' } : {}),
+  });
+
+  await logEvent({
+    personId,
+    eventType: 'consent_confirmed',
+    source,
+    channel: 'email',
+    metadata: { from_status: person.email_consent_status || 'none' },
+  });
+
+  if (resubscribed) {
+    await logEvent({
+      personId,
+      eventType: 'status_change',
+      source,
+      metadata: { from_status: 'unsubscribed', to_status: 'marketing_only' },
+    });
+    await enqueueWebhookEvent('person_status_change', `${personId}:marketing_only:${updated.updated_at}`, {
+      person_id: personId,
+      email: person.email,
+      from_status: 'unsubscribed',
+      to_status: 'marketing_only',
+      source,
+    });
+  }
+
+  return updated;
+}
+
+// ============================================================================
+// Unsubscribe and preferences
+// ============================================================================
+
+async function setSubscriptionsActive(personId: string, type: SubscriptionType | null, active: boolean): Promise<void> {
+  let query = supabaseAdmin
+    .from('subscriptions')
+    .update({ is_active: active, updated_at: new Date().toISOString() })
+    .eq('person_id', personId);
+  if (type) {
+    query = query.eq('subscription_type', type);
+  }
+  const { error } = await query;
+  if (error) {
+    throw new Error(`Database error: ${error.message}`);
+  }
+}
+
+export interface UnsubscribeOptions {
+  /** Only this type; omit to unsubscribe from all marketing email */
+  subscriptionType?: SubscriptionType | null;
+  source?: string;
+}
+
+/**
+ * Unsubscribe a person from one subscription type or from all marketing email
+ */
+export async function unsubscribeEmail(personId: string, options: UnsubscribeOptions = {}): Promise<Person | null> {
+  const person = await loadPerson(personId);
+  if (!person) {
+    return null;
+  }
+  const source = options.source || 'unsubscribe_link';
+
+  if (options.subscriptionType) {
+    await setSubscriptionsActive(personId, options.subscriptionType, false);
+    await logEvent({
+      personId,
+      eventType: 'subscription_preference',
+      source,
+      channel: 'email',
+      metadata: { subscription_type: options.subscriptionType, active: false },
+    });
+    return person;
+  }
+
+  await setSubscriptionsActive(personId, null, false);
+
+  // Blocked people stay blocked; everyone else drops to 'unsubscribed'
+  const changesStatus = person.status !== 'blocked' && person.status !== 'unsubscribed';
+  const updated = await updatePerson(personId, {
+    email_marketing_opt_in: false,
+    email_consent_status: 'unsubscribed',
+    email_unsubscribed_at: new Date().toISOString(),
+    ...(changesStatus ? { status: 'unsubscribed' } : {}),
+  });
+
+  await logEvent({
+    personId,
+    eventType: 'unsubscribed',
+    source,
+    channel: 'email',
+    metadata: { from_consent_status: person.email_consent_status || 'none' },
+  });
+
+  if (changesStatus) {
+    await logEvent({
+      personId,
+      eventType: 'status_change',
+      source,
+      metadata: { from_status: person.status, to_status: 'unsubscribed' },
+    });
+    await enqueueWebhookEvent('person_status_change', `${personId}:unsubscribed:${updated.updated_at}`, {
+      person_id: personId,
+      email: person.email,
+      from_status: person.status,
+      to_status: 'unsubscribed',
+      source,
+    });
+  }
+
+  return updated;
+}
+
+export interface PreferencesView {
+  email: string;
+  consentStatus: Person['email_consent_status'];
+  preferences: EmailPreferences;
+}
+
+async function loadPreferences(personId: string): Promise<EmailPreferences> {
+  const { data, error } = await supabaseAdmin
+    .from('subscriptions')
+    .select('subscription_type, is_active')
+    .eq('person_id', personId);
+  if (error) {
+    throw new Error(`Database error: ${error.message}`);
+  }
+  return summarizePreferences(data || []);
+}
+
+export async function getEmailPreferences(personId: string): Promise<PreferencesView | null> {
+  const person = await loadPerson(personId);
+  if (!person) {
+    return null;
+  }
+  return {
+    email: maskEmail(person.email),
+    consentStatus: person.email_consent_status || 'none',
+    preferences: await loadPreferences(personId),
+  };
+}
+
+/**
+ * Apply requested per-type preferences. Turning a type on confirms consent (the manage link
+ * proves control of the mailbox); turning everything off is a full unsubscribe.
+ */
+export async function updateEmailPreferences(
+  personId: string,
+  requested: Partial<EmailPreferences>
+): Promise<PreferencesView | null> {
+  const person = await loadPerson(personId);
+  if (!person) {
+    return null;
+  }
+
+  const current = await loadPreferences(personId);
+  const changes = planPreferenceChanges(current, requested);
+  const source = 'email_preferences';
+
+  for (const change of changes) {
+    if (change.active && change.type !== 'program_waitlist') {
+      await ensureSubscription({ personId, type: change.type });
+    } else {
+      // Waitlist rows are per program, so they can only be re-enabled, not created here
+      await setSubscriptionsActive(personId, change.type, change.active);
+    }
+    await logEvent({
+      personId,
+      eventType: 'subscription_preference',
+      source,
+      channel: 'email',
+      metadata: { subscription_type: change.type, active: change.active },
+    });
+  }
+
+  const next = { ...current };
+  changes.forEach((change) => {
+    next[change.type] = change.active;
+  });
+  const anyActive = SUBSCRIPTION_TYPES.some((type) => next[type]);
+
+  // Turning a type on from a manage link is an explicit request, so it confirms directly
+  if (changes.some((change) => change.active) && person.email_consent_status !== 'confirmed') {
+    await grantEmailConsent(person, source);
+  } else if (changes.length > 0 && !anyActive) {
+    await unsubscribeEmail(personId, { source });
+  }
+
+  return getEmailPreferences(personId);
+}
@@ -0,0 +1,95 @@
+/**
+ * Email Preferences
+ *
+ * Per-SubscriptionType preferences shown on /email-preferences (reached from the signed
+ * manage link in every email). Pure functions only; lib/consent/emailConsent.ts applies them.
+ */
+
+import type { SubscriptionType } from '@/lib/peopleService';
+
+export const SUBSCRIPTION_TYPES: SubscriptionType[] = ['email_marketing', 'product_updates', 'program_waitlist'];
+
+export const SUBSCRIPTION_TYPE_LABELS: Record<SubscriptionType, { title: string; description: string }> = {
+  email_marketing: {
+    title: 'Newsletter',
+    description: 'Recipes, articles and offers from Fine Diet.',
+  },
+  product_updates: {
+    title: 'Product updates',
+    description: 'New features and changes to Fine Diet programs.',
+  },
+  program_waitlist: {
+    title: 'Program waitlists',
+    description: 'Launch news for the programs you joined the waitlist for.',
+  },
+};
+
+export type EmailPreferences = Record<SubscriptionType, boolean>;
+
+export interface PreferenceChange {
+  type: SubscriptionType;
+  active: boolean;
+}
+
+export function isSubscriptionType(value: unknown): value is SubscriptionType {
+  return typeof value === 'string' && (SUBSCRIPTION_TYPES as string[]).includes(value);
+}
+
+/**
+ * Current preferences from subscriptions rows (a type is on if any of its rows is active)
+ */
+export function summarizePreferences(
+  rows: Array<{ subscription_type: string; is_active: boolean }>
+): EmailPreferences {
+  const preferences: EmailPreferences = { email_marketing: false, product_updates: false, program_waitlist: false };
+  rows.forEach((row) => {
+    if (isSubscriptionType(row.subscription_type) && row.is_active) {
+      preferences[row.subscription_type] = true;
+    }
+  });
+  return preferences;
+}
+
+/**
+ * Types whose state differs between current and requested preferences
+ */
+export function planPreferenceChanges(
+  current: EmailPreferences,
+  requested: Partial<EmailPreferences>
+): PreferenceChange[] {
+  return SUBSCRIPTION_TYPES.filter(
+    (type) => typeof requested[type] === 'boolean' && requested[type] !== current[type]
+  ).map((type) => ({ type, active: requested[type] as boolean }));
+}
+
+/**
+ * Validate a preferences body: { email_marketing?: boolean, ... }
+ */
+export function parsePreferencesInput(
+  body: unknown
+): { ok: true; preferences: Partial<EmailPreferences> } | { ok: false; error: string } {
+  if (!body || typeof body !== 'object') {
+    return { ok: false, error: 'preferences must be an object' };
+  }
+  const preferences: Partial<EmailPreferences> = {};
+  const raw = body as Record<string, unknown>;
+  for (const key of Object.keys(raw)) {
+    if (!isSubscriptionType(key)) {
+      return { ok: false, error: `Unknown subscription type: ${key}` };
+    }
+    if (typeof raw[key] !== 'boolean') {
+      return { ok: false, error: `${key} must be a boolean` };
+    }
+    preferences[key] = raw[key] as boolean;
+  }
+  return { ok: true, preferences };
+}
+
+/**
+ * a***@example.com (the page is reachable by anyone holding the link)
+ */
+export function maskEmail(email: string): string {
+  const at = email.indexOf('@');
+  if (at <= 0) return '***';
+  return `${email.charAt(0)}***${email.slice(at)}`;
+}
@@ -25,6 +25,7 @@ import {
   globalContentSchema,
   productPageContentSchema,
 } from './contentValidators';
+import { localizedContentKeys } from './i18n/locale';
 
 // JSON fallback imports
 import navigationFallback from '@/data/navigation.json';
@@ -45,6 +46,11 @@ export interface ContentFetchOptions {
    * Only works when Supabase is available.
    */
   useDraft?: boolean;
+  /**
+   * Locale to fetch (e.g., 'es-MX'). Falls back along the locale chain
+   * (es-MX → es → default). Omit for the default locale.
+   */
+  locale?: string | null;
 }
 
 /**
@@ -60,7 +66,8 @@ export async function getNavigationContent(
     const supabaseContent = await fetchFromSupabase(
       'navigation',
       options?.useDraft ?? false,
-      navigationContentSchema
+      navigationContentSchema,
+      options?.locale
     );
 
     if (supabaseContent) {
@@ -88,7 +95,8 @@ export async function getHomeContent(
     const supabaseContent = await fetchFromSupabase(
       'home',
       options?.useDraft ?? false,
-      homeContentSchema
+      homeContentSchema,
+      options?.locale
     );
 
     if (supabaseContent) {
@@ -115,7 +123,8 @@ export async function getFooterContent(
     const supabaseContent = await fetchFromSupabase(
       'footer',
       options?.useDraft ?? false,
-      footerContentSchema
+      footerContentSchema,
+      options?.locale
     );
 
     if (supabaseContent) {
@@ -142,7 +151,8 @@ export async function getWaitlistContent(
     const supabaseContent = await fetchFromSupabase(
       'waitlist',
       options?.useDraft ?? false,
-      waitlistContentSchema
+      waitlistContentSchema,
+      options?.locale
     );
 
     if (supabaseContent) {
@@ -196,7 +206,8 @@ export async function getGlobalContent(
     const supabaseContent = await fetchFromSupabase(
       'global',
       options?.useDraft ?? false,
-      globalContentSchema
+      globalContentSchema,
+      options?.locale
     );
 
     if (supabaseContent) {
@@ -225,27 +236,32 @@ export async function getProductPageContent(
     // Dynamic import to ensure this only runs on the server
     const { supabaseAdmin } = await import('./supabaseServerClient');
 
-    const key = `product:${slug}`;
+    const keys = localizedContentKeys(`product:${slug}`, options?.locale);
     const { data, error } = await supabaseAdmin
       .from('site_content')
-      .select('data, updated_at')
-      .eq('key', key)
-      .eq('status', options?.useDraft ? 'draft' : 'published')
-      .single();
+      .select('key, data, updated_at')
+      .in('key', keys)
+      .eq('status', options?.useDraft ? 'draft' : 'published');
 
-    if (error || !data || !data.data) {
+    if (error || !data) {
       return null;
     }
 
-    // Validate data against schema
-    const validationResult = productPageContentSchema.safeParse(data.data);
-    
-    if (!validationResult.success) {
-      console.warn(`Validation failed for product:${slug} content:`, validationResult.error);
-      return null;
+    // Most specific locale with valid content wins
+    for (const key of keys) {
+      const row = data.find((r) => r.key === key);
+      if (!row || !row.data) continue;
+
+      const validationResult = productPageContentSchema.safeParse(row.data);
+      if (!validationResult.success) {
+        console.warn(`Validation failed for ${key} content:`, validationResult.error);
+        continue;
+      }
+
+      return validationResult.data;
     }
 
-    return validationResult.data;
+    return null;
   } catch (error) {
     console.warn(`Failed to fetch product:${slug} content:`, error);
     return null;
@@ -258,12 +274,14 @@ export async function getProductPageContent(
  * @param key - Content key
  * @param useDraft - Whether to fetch draft content
  * @param schema - Zod schema for validation
+ * @param locale - Locale to fetch; localized keys ("home@es") are tried along the fallback chain
  * @returns Validated content from Supabase, or null if not available
  */
 async function fetchFromSupabase<T>(
   key: SiteContentKey,
   useDraft: boolean,
-  schema: z.ZodSchema<T>
+  schema: z.ZodSchema<T>,
+  locale?: string | null
 ): Promise<T | null> {
   // Only attempt Supabase fetch if we're in a server context
   if (typeof window !== 'undefined') {
@@ -274,32 +292,39 @@ async function fetchFromSupabase<T>(
     // Dynamic import to ensure this only runs on the server
     const { supabaseAdmin } = await import('./supabaseServerClient');
 
-    // Query Supabase for content
+    // Query Supabase for content (all locales in the chain in one round trip)
     // Add a small cache-busting mechanism: fetch updated_at to ensure we get fresh data
+    const keys = localizedContentKeys(key, locale);
     const { data, error } = await supabaseAdmin
       .from('site_content')
-      .select('data, updated_at')
-      .eq('key', key)
-      .eq('status', useDraft ? 'draft' : 'published')
-      .single();
+      .select('key, data, updated_at')
+      .in('key', keys)
+      .eq('status', useDraft ? 'draft' : 'published');
 
-    if (error || !data || !data.data) {
+    if (error || !data) {
       return null;
     }
 
-    // Validate data against schema
-    const validationResult = schema.safeParse(data.data);
-    
-    if (!validationResult.success) {
-      console.warn(`Validation failed for ${key} content:`, validationResult.error);
-      return null;
+    // Most specific locale with valid content wins
+    for (const localizedKey of keys) {
+      const row = data.find((r) => r.key === localizedKey);
+      if (!row || !row.data) continue;
+
+      // Validate data against schema
+      const validationResult = schema.safeParse(row.data);
+
+      if (!validationResult.success) {
+        console.warn(`Validation failed for ${localizedKey} content:`, validationResult.error);
+        continue;
+      }
+
+      return validationResult.data;
     }
 
-    return validationResult.data;
+    return null;
   } catch (error) {
     // If Supabase client can't be imported (e.g., missing env vars), return null
     // This will trigger JSON fallback
     return null;
   }
 }
-
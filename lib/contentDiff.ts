@@ -0,0 +1,148 @@
+/**
+ * Content Diff
+ *
+ * Structured diff of two JSON documents (site content, question sets, results packs) for
+ * revision history views. Each change is one leaf: its dotted path, the kind of change and
+ * the values on each side.
+ *
+ * Arrays whose items all carry a unique string `id` are matched by id
+ * (`categories[id=shop].label`), so reordering or inserting an item does not show every
+ * following item as changed. Other arrays are compared by index.
+ */
+
+export type ContentChangeKind = 'added' | 'removed' | 'changed';
+
+export interface ContentChange {
+  path: string;
+  kind: ContentChangeKind;
+  before?: unknown;
+  after?: unknown;
+}
+
+/** Changes under one heading (a question, a flow page) */
+export interface ContentDiffGroup {
+  title: string;
+  changes: ContentChange[];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function idOf(item: unknown): string | null {
+  return isPlainObject(item) && typeof item.id === 'string' ? item.id : null;
+}
+
+function hasUniqueIds(items: unknown[]): boolean {
+  const seen: Record<string, boolean> = {};
+  return items.every((item) => {
+    const id = idOf(item);
+    if (id === null || seen[id]) return false;
+    seen[id] = true;
+    return true;
+  });
+}
+
+function joinPath(base: string, key: string): string {
+  return base ? `${base}.${key}` : key;
+}
+
+function diffArrays(before: unknown[], after: unknown[], path: string, changes: ContentChange[]): void {
+  if (before.length > 0 && after.length > 0 && hasUniqueIds(before) && hasUniqueIds(after)) {
+    const beforeById: Record<string, unknown> = {};
+    before.forEach((item) => {
+      beforeById[idOf(item) as string] = item;
+    });
+    const afterIds: Record<string, boolean> = {};
+    after.forEach((item) => {
+      const id = idOf(item) as string;
+      afterIds[id] = true;
+      const itemPath = `${path}[id=${id}]`;
+      if (id in beforeById) {
+        diffInto(beforeById[id], item, itemPath, changes);
+      } else {
+        changes.push({ path: itemPath, kind: 'added', after: item });
+      }
+    });
+    before.forEach((item) => {
+      const id = idOf(item) as string;
+      if (!afterIds[id]) {
+        changes.push({ path: `${path}[id=${id}]`, kind: 'removed', before: item });
+      }
+    });
+    return;
+  }
+
+  const length = Math.max(before.length, after.length);
+  for (let i = 0; i < length; i++) {
+    const itemPath = `${path}[${i}]`;
+    if (i >= before.length) {
+      changes.push({ path: itemPath, kind: 'added', after: after[i] });
+    } else if (i >= after.length) {
+      changes.push({ path: itemPath, kind: 'removed', before: before[i] });
+    } else {
+      diffInto(before[i], after[i], itemPath, changes);
+    }
+  }
+}
+
+function diffInto(before: unknown, after: unknown, path: string, changes: ContentChange[]): void {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = Object.keys(before).concat(Object.keys(after).filter((key) => !(key in before))).sort();
+    keys.forEach((key) => {
+      const keyPath = joinPath(path, key);
+      if (!(key in after) || after[key] === undefined) {
+        if (before[key] !== undefined) changes.push({ path: keyPath, kind: 'removed', before: before[key] });
+      } else if (!(key in before) || before[key] === undefined) {
+        changes.push({ path: keyPath, kind: 'added', after: after[key] });
+      } else {
+        diffInto(before[key], after[key], keyPath, changes);
+      }
+    });
+    return;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    diffArrays(before, after, path, changes);
+    return;
+  }
+
+  if (before !== after) {
+    changes.push({ path: path || '(root)', kind: 'changed', before, after });
+  }
+}
+
+/**
+ * Leaf-level changes from `before` to `after` (empty when equal)
+ */
+export function diffContent(before: unknown, after: unknown): ContentChange[] {
+  const changes: ContentChange[] = [];
+  diffInto(before, after, '', changes);
+  return changes;
+}
+
+/**
+ * Group changes under the title returned for each path, in order of first appearance
+ */
+export function groupChanges(changes: ContentChange[], titleOf: (path: string) => string): ContentDiffGroup[] {
+  const groups: ContentDiffGroup[] = [];
+  const byTitle: Record<string, ContentDiffGroup> = {};
+  changes.forEach((change) => {
+    const title = titleOf(change.path);
+    if (!byTitle[title]) {
+      byTitle[title] = { title, changes: [] };
+      groups.push(byTitle[title]);
+    }
+    byTitle[title].changes.push(change);
+  });
+  return groups;
+}
+
+/**
+ * Short display form of a changed value
+ */
+export function formatChangeValue(value: unknown, maxLength: number = 120): string {
+  if (value === undefined) return '';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
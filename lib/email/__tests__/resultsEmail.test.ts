@@ -0,0 +1,101 @@
+/**
+ * Tests for results email rendering
+ */
+
+import type { ResultsPack } from '@/lib/assessments/results/loadResultsPack';
+import {
+  buildResultsEmailVariables,
+  findUnknownVariables,
+  isEmailChannelEnabled,
+  renderResultsEmail,
+  renderTemplateString,
+} from '../resultsEmail';
+
+const pack: ResultsPack = {
+  label: 'Level 2: Reactive Gut',
+  summary: 'Legacy summary',
+  keyPatterns: ['Pattern'],
+  firstFocusAreas: ['Legacy focus'],
+  methodPositioning: '',
+  flow: {
+    page1: { headline: 'Your gut is reacting', body: ['First paragraph', 'Second'] },
+    page2: { headline: 'First Steps', stepBullets: ['Eat slowly', 'Hydrate', 'Walk <after> meals'] },
+    page3: { methodCtaLabel: 'Watch the method', methodCtaUrl: '/method' },
+  },
+};
+
+const context = { siteUrl: 'https://myfinediet.com/', submissionId: 'sub-1', firstName: 'Ada' };
+
+describe('buildResultsEmailVariables', () => {
+  it('should take flow fields and absolute links', () => {
+    expect(buildResultsEmailVariables(pack, context)).toEqual({
+      firstName: 'Ada',
+      levelLabel: 'Level 2: Reactive Gut',
+      headline: 'Your gut is reacting',
+      summary: 'First paragraph',
+      firstStepsTitle: 'First Steps',
+      firstSteps: ['Eat slowly', 'Hydrate', 'Walk <after> meals'],
+      methodCtaLabel: 'Watch the method',
+      methodCtaUrl: 'https://myfinediet.com/method',
+      resultsUrl: 'https://myfinediet.com/results/sub-1',
+      pdfUrl: 'https://myfinediet.com/api/assessments/results-pdf?submissionId=sub-1',
+    });
+  });
+
+  it('should fall back to legacy fields', () => {
+    const variables = buildResultsEmailVariables(
+      { label: 'Level 1', summary: 'Legacy summary', keyPatterns: [], firstFocusAreas: ['Focus'], methodPositioning: '' },
+      { ...context, firstName: null }
+    );
+    expect(variables.firstName).toBe('there');
+    expect(variables.summary).toBe('Legacy summary');
+    expect(variables.firstSteps).toEqual(['Focus']);
+  });
+});
+
+describe('renderTemplateString', () => {
+  const variables = buildResultsEmailVariables(pack, context);
+
+  it('should escape values and render lists in HTML', () => {
+    expect(renderTemplateString('<p>{{firstName}}</p>{{firstSteps}}', variables, 'html')).toBe(
+      '<p>Ada</p><ul><li>Eat slowly</li><li>Hydrate</li><li>Walk &lt;after&gt; meals</li></ul>'
+    );
+  });
+
+  it('should render lists as lines in text and drop unknown variables', () => {
+    expect(renderTemplateString('{{ firstSteps }}\n{{unknown}}', variables, 'text')).toBe(
+      '- Eat slowly\n- Hydrate\n- Walk <after> meals\n'
+    );
+  });
+});
+
+describe('renderResultsEmail', () => {
+  it('should use the default template without pack.email', () => {
+    const rendered = renderResultsEmail(pack, context);
+    expect(rendered.templateSource).toBe('default');
+    expect(rendered.subject).toBe('Your Fine Diet results: Level 2: Reactive Gut');
+    expect(rendered.html).toContain('<!DOCTYPE html>');
+    expect(rendered.text).toContain('View your full results: https://myfinediet.com/results/sub-1');
+  });
+
+  it('should use the pack template', () => {
+    const rendered = renderResultsEmail(
+      { ...pack, email: { subject: '{{firstName}}, your plan', html: '<p>{{headline}}</p>', text: '{{headline}}' } },
+      context
+    );
+    expect(rendered.templateSource).toBe('pack');
+    expect(rendered.subject).toBe('Ada, your plan');
+    expect(rendered.text).toBe('Your gut is reacting');
+  });
+});
+
+describe('template helpers', () => {
+  it('should list unknown variables once', () => {
+    expect(findUnknownVariables('{{levelLabel}} {{coupon}} {{coupon}}')).toEqual(['coupon']);
+  });
+
+  it('should treat a missing email channel as enabled', () => {
+    expect(isEmailChannelEnabled(pack)).toBe(true);
+    expect(isEmailChannelEnabled({ ...pack, channels: { email: { enabled: false } } })).toBe(false);
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Tests for email senders
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createFileSinkSender, getEmailSender } from '../sender';
+
+describe('createFileSinkSender', () => {
+  it('should write each message as JSON', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'email-sink-'));
+    const sender = createFileSinkSender(directory);
+
+    const { id } = await sender.send({
+      to: 'ada@example.com',
+      from: 'Fine Diet <hello@myfinediet.com>',
+      subject: 'Your results',
+      html: '<p>Hi</p>',
+      text: 'Hi',
+    });
+
+    const written = JSON.parse(await fs.readFile(path.join(directory, `${id}.json`), 'utf8'));
+    expect(written).toMatchObject({ id, to: 'ada@example.com', subject: 'Your results', text: 'Hi' });
+
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+});
+
+describe('getEmailSender', () => {
+  const env = process.env;
+
+  afterEach(() => {
+    process.env = env;
+  });
+
+  it('should pick the transport from EMAIL_TRANSPORT', () => {
+    process.env = { ...env, EMAIL_TRANSPORT: undefined };
+    expect(getEmailSender()).toBeNull();
+
+    process.env = { ...env, EMAIL_TRANSPORT: 'file' };
+    expect(getEmailSender()?.name).toBe('file');
+
+    process.env = { ...env, EMAIL_TRANSPORT: 'provider', EMAIL_PROVIDER_API_URL: 'https://api.example.com/emails', EMAIL_PROVIDER_API_KEY: 'key' };
+    expect(getEmailSender()?.name).toBe('provider');
+  });
+});
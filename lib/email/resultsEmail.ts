@@ -0,0 +1,260 @@
+/**
+ * Results Email Rendering
+ *
+ * Renders the transactional results email from the same resolved results pack as the web
+ * results and the PDF. The template lives on the pack (pack.email), so email copy is
+ * versioned with the pack's revisions; packs without one use DEFAULT_RESULTS_EMAIL_TEMPLATE.
+ *
+ * Templates use {{variable}} placeholders. List variables (firstSteps) render as <ul> in
+ * HTML and "- " lines in text. Values are HTML-escaped in the HTML part.
+ *
+ * Pure functions only; lib/email/sendResultsEmail.ts sends.
+ */
+
+import type {
+  EmailTemplateConfig,
+  FlowPage1,
+  FlowPage2,
+  FlowPage3,
+  FlowV2Config,
+  ResultsPack,
+} from '@/lib/assessments/results/loadResultsPack';
+
+export const RESULTS_EMAIL_VARIABLES: Record<string, string> = {
+  firstName: 'Recipient first name ("there" when unknown)',
+  levelLabel: 'Pack label, e.g. "Level 2: Reactive Gut"',
+  headline: 'Page 1 headline',
+  summary: 'First paragraph of page 1 (or the legacy summary)',
+  firstStepsTitle: 'Page 2 headline ("First Steps")',
+  firstSteps: 'Page 2 step bullets (list)',
+  methodCtaLabel: 'Page 3 method CTA label',
+  methodCtaUrl: 'Page 3 method CTA URL (absolute)',
+  resultsUrl: 'Link back to the results page',
+  pdfUrl: 'Link to the results PDF',
+};
+
+const LIST_VARIABLES = ['firstSteps'];
+
+/**
+ * webhook_outbox target of in-app results emails: one row per submission (unique
+ * (submission_id, target)), sent by the outbox dispatcher with its retries
+ */
+export const RESULTS_EMAIL_OUTBOX_TARGET = 'results_email';
+
+/** webhook_url of those rows (required column; nothing is POSTed to it) */
+export const RESULTS_EMAIL_OUTBOX_URL = 'in-app:results-email';
+
+export const DEFAULT_RESULTS_EMAIL_TEMPLATE: EmailTemplateConfig = {
+  subject: 'Your Fine Diet results: {{levelLabel}}',
+  preheader: '{{headline}}',
+  html: [
+    '<p>Hi {{firstName}},</p>',
+    '<p>Thanks for taking the assessment. Your result: <strong>{{levelLabel}}</strong>.</p>',
+    '<h2>{{headline}}</h2>',
+    '<p>{{summary}}</p>',
+    '<h3>{{firstStepsTitle}}</h3>',
+    '{{firstSteps}}',
+    '<p><a href="{{methodCtaUrl}}">{{methodCtaLabel}}</a></p>',
+    '<p><a href="{{resultsUrl}}">View your full results</a> · <a href="{{pdfUrl}}">Download the PDF</a></p>',
+  ].join('\n'),
+  text: [
+    'Hi {{firstName}},',
+    '',
+    'Thanks for taking the assessment. Your result: {{levelLabel}}.',
+    '',
+    '{{headline}}',
+    '',
+    '{{summary}}',
+    '',
+    '{{firstStepsTitle}}',
+    '{{firstSteps}}',
+    '',
+    '{{methodCtaLabel}}: {{methodCtaUrl}}',
+    '',
+    'View your full results: {{resultsUrl}}',
+    'Download the PDF: {{pdfUrl}}',
+  ].join('\n'),
+};
+
+export interface ResultsEmailContext {
+  siteUrl: string;
+  submissionId: string;
+  firstName?: string | null;
+}
+
+export type ResultsEmailVariables = Record<string, string | string[]>;
+
+export interface RenderedEmail {
+  subject: string;
+  preheader: string;
+  html: string;
+  text: string;
+  /** 'pack' when the pack has its own template */
+  templateSource: 'pack' | 'default';
+}
+
+/** Admin preview (/api/admin/results-packs/[packId]/email-preview) */
+export interface ResultsEmailPreview {
+  preview: RenderedEmail & { channelEnabled: boolean };
+  errors: string[];
+  variables: Record<string, string>;
+}
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+export function isEmailChannelEnabled(pack: ResultsPack): boolean {
+  return pack.channels?.email?.enabled !== false;
+}
+
+function absoluteUrl(url: string, siteUrl: string): string {
+  return /^https?:\/\//i.test(url) ? url : `${siteUrl}${url.startsWith('/') ? '' : '/'}${url}`;
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item) => typeof item === 'string' && item.trim() !== '') : [];
+}
+
+/**
+ * Template variables for a pack (flow v2 fields first, legacy core fields as fallback)
+ */
+export function buildResultsEmailVariables(pack: ResultsPack, context: ResultsEmailContext): ResultsEmailVariables {
+  // Older packs can miss any flow v2 field, hence Partial
+  const flow = (pack.flow || {}) as FlowV2Config;
+  const page1: Partial<FlowPage1> = flow.page1 || {};
+  const page2: Partial<FlowPage2> = flow.page2 || {};
+  const page3: Partial<FlowPage3> = flow.page3 || {};
+  const siteUrl = context.siteUrl.replace(/\/+$/, '');
+  const submissionId = encodeURIComponent(context.submissionId);
+
+  const steps = stringList(page2.stepBullets);
+  return {
+    firstName: context.firstName?.trim() || 'there',
+    levelLabel: pack.label || '',
+    headline: page1.headline || pack.label || '',
+    summary: stringList(page1.body)[0] || pack.summary || '',
+    firstStepsTitle: page2.headline || 'First Steps',
+    firstSteps: steps.length > 0 ? steps : stringList(pack.firstFocusAreas),
+    methodCtaLabel: page3.methodCtaLabel || 'Watch How The Fine Diet Method Works',
+    methodCtaUrl: absoluteUrl(page3.methodCtaUrl || '/method', siteUrl),
+    resultsUrl: `${siteUrl}/results/${submissionId}`,
+    pdfUrl: `${siteUrl}/api/assessments/results-pdf?submissionId=${submissionId}`,
+  };
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Replace {{variable}} placeholders. Unknown variables render as ''.
+ */
+export function renderTemplateString(
+  template: string,
+  variables: ResultsEmailVariables,
+  mode: 'html' | 'text'
+): string {
+  return template.replace(PLACEHOLDER, (_, name: string) => {
+    const value = variables[name];
+    if (value === undefined) return '';
+    if (Array.isArray(value)) {
+      if (mode === 'html') {
+        return `<ul>${value.map((item) => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`;
+      }
+      return value.map((item) => `- ${item}`).join('\n');
+    }
+    return mode === 'html' ? escapeHtml(value) : value;
+  });
+}
+
+/**
+ * Placeholders in a template that are not RESULTS_EMAIL_VARIABLES
+ */
+export function findUnknownVariables(template: string): string[] {
+  const unknown: string[] = [];
+  template.replace(PLACEHOLDER, (match, name: string) => {
+    if (!RESULTS_EMAIL_VARIABLES[name] && !unknown.includes(name)) {
+      unknown.push(name);
+    }
+    return match;
+  });
+  return unknown;
+}
+
+/**
+ * Errors for pack.email (used by validateResultsPack)
+ */
+export function validateEmailTemplate(template: unknown): string[] {
+  if (!template || typeof template !== 'object') {
+    return ['email must be an object with subject, html and text.'];
+  }
+  const errors: string[] = [];
+  const raw = template as Record<string, unknown>;
+  (['subject', 'html', 'text'] as const).forEach((field) => {
+    if (typeof raw[field] !== 'string' || (raw[field] as string).trim() === '') {
+      errors.push(`email.${field} is required and must be a non-empty string.`);
+    }
+  });
+  if (raw.preheader !== undefined && typeof raw.preheader !== 'string') {
+    errors.push('email.preheader must be a string.');
+  }
+  (['subject', 'preheader', 'html', 'text'] as const).forEach((field) => {
+    if (typeof raw[field] !== 'string') return;
+    findUnknownVariables(raw[field] as string).forEach((name) => {
+      errors.push(`email.${field} uses unknown variable {{${name}}}.`);
+    });
+  });
+  const subject = typeof raw.subject === 'string' ? raw.subject : '';
+  LIST_VARIABLES.forEach((name) => {
+    if (subject.includes(`{{${name}}}`)) {
+      errors.push(`email.subject cannot use list variable {{${name}}}.`);
+    }
+  });
+  return errors;
+}
+
+function wrapHtml(body: string, preheader: string, subject: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(subject)}</title>
+</head>
+<body style="margin:0;padding:0;background:#f5f5f4;font-family:Helvetica,Arial,sans-serif;color:#1c1917;">
+<div style="display:none;max-height:0;overflow:hidden;">${escapeHtml(preheader)}</div>
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0"><tr><td align="center" style="padding:24px;">
+<table role="presentation" width="600" cellpadding="0" cellspacing="0" style="max-width:600px;width:100%;background:#ffffff;border-radius:12px;">
+<tr><td style="padding:24px 32px 0;font-size:22px;font-weight:bold;">Fine Diet</td></tr>
+<tr><td style="padding:16px 32px 32px;font-size:16px;line-height:1.5;">
+${body}
+</td></tr>
+</table>
+<p style="font-size:12px;color:#78716c;">You're receiving this email because you requested your Fine Diet assessment results.</p>
+</td></tr></table>
+</body>
+</html>`;
+}
+
+/**
+ * Subject, HTML (branded layout) and text for a pack
+ */
+export function renderResultsEmail(pack: ResultsPack, context: ResultsEmailContext): RenderedEmail {
+  const template = pack.email || DEFAULT_RESULTS_EMAIL_TEMPLATE;
+  const variables = buildResultsEmailVariables(pack, context);
+  // Fields may be missing on an unsaved template in the editor preview
+  const subject = renderTemplateString(template.subject || '', variables, 'text').replace(/\s+/g, ' ').trim();
+  const preheader = renderTemplateString(template.preheader || '', variables, 'text').trim();
+
+  return {
+    subject,
+    preheader,
+    html: wrapHtml(renderTemplateString(template.html || '', variables, 'html'), preheader, subject),
+    text: renderTemplateString(template.text || '', variables, 'text'),
+    templateSource: pack.email ? 'pack' : 'default',
+  };
+}
@@ -0,0 +1,174 @@
+/**
+ * Send Results Email (server)
+ *
+ * Resolves the submission's results pack (pinned revision when the submission has one, as
+ * for the web results and PDF), renders pack.email and sends it with the configured
+ * EmailSender. Packs with channels.email.enabled = false are skipped.
+ *
+ * With RESULTS_EMAIL_ATTACH_PDF=true the results PDF is attached, from the same cache as
+ * downloads (lib/pdf/resultsPdf.ts).
+ *
+ * Email capture does not send directly: it enqueues a RESULTS_EMAIL_OUTBOX_TARGET row and the
+ * outbox dispatcher calls deliverResultsEmail, so failed sends are retried like webhooks.
+ */
+
+import { supabaseAdmin } from '@/lib/supabaseServerClient';
+import { resolveResultsPack } from '@/lib/assessments/results/resolveResultsPack';
+import { getResultsContentVersion } from '@/lib/assessments/registry';
+import { getSiteUrl } from '@/lib/consent/emailConsent';
+import { logEvent } from '@/lib/peopleService';
+import { getResultsPdf } from '@/lib/pdf/resultsPdf';
+import type { DeliveryResult } from '@/lib/outbox/retryPolicy';
+import { isEmailChannelEnabled, renderResultsEmail } from './resultsEmail';
+import { getEmailFrom, getEmailSender, type EmailAttachment, type EmailSender } from './sender';
+
+export type SendResultsEmailResult =
+  | { status: 'sent'; messageId: string; subject: string }
+  | { status: 'skipped'; reason: 'no_sender' | 'channel_disabled' | 'submission_not_found' };
+
+export interface SendResultsEmailInput {
+  submissionId: string;
+  to: string;
+  /** Defaults to getEmailSender() */
+  sender?: EmailSender | null;
+}
+
+export async function sendResultsEmail(input: SendResultsEmailInput): Promise<SendResultsEmailResult> {
+  const sender = input.sender === undefined ? getEmailSender() : input.sender;
+  if (!sender) {
+    return { status: 'skipped', reason: 'no_sender' };
+  }
+
+  const { data: submission, error: submissionError } = await supabaseAdmin
+    .from('assessment_submissions')
+    .select('id, primary_avatar, assessment_type, assessment_version, session_id, locale, metadata')
+    .eq('id', input.submissionId)
+    .maybeSingle();
+
+  if (submissionError) {
+    throw new Error(`Database error: ${submissionError.message}`);
+  }
+  if (!submission) {
+    return { status: 'skipped', reason: 'submission_not_found' };
+  }
+
+  const resolved = await resolveResultsPack({
+    assessmentType: submission.assessment_type,
+    resultsVersion: getResultsContentVersion(submission.assessment_type),
+    levelId: submission.primary_avatar,
+    locale: submission.locale,
+    resultsPackRef: submission.metadata?.resultsPackRef || undefined,
+  });
+
+  if (!isEmailChannelEnabled(resolved.pack)) {
+    return { status: 'skipped', reason: 'channel_disabled' };
+  }
+
+  const { data: person } = await supabaseAdmin
+    .from('people')
+    .select('id, first_name')
+    .eq('email', input.to.trim().toLowerCase())
+    .maybeSingle();
+
+  const rendered = renderResultsEmail(resolved.pack, {
+    siteUrl: getSiteUrl(),
+    submissionId: submission.id,
+    firstName: person?.first_name || null,
+  });
+
+  const attachments: EmailAttachment[] = [];
+  if (process.env.RESULTS_EMAIL_ATTACH_PDF === 'true') {
+    try {
+      const pdf = await getResultsPdf({
+        submissionId: submission.id,
+        assessmentType: submission.assessment_type,
+        resolved,
+      });
+      if (pdf.status === 'ok') {
+        attachments.push({
+          filename: `fine-diet-${submission.assessment_type}-results.pdf`,
+          content: pdf.pdf,
+          contentType: 'application/pdf',
+        });
+      }
+    } catch (err) {
+      // The email still links to the PDF
+      console.warn('Failed to attach results PDF (non-blocking):', err instanceof Error ? err.message : err);
+    }
+  }
+
+  const result = await sender.send({
+    to: input.to,
+    from: getEmailFrom(),
+    subject: rendered.subject,
+    html: rendered.html,
+    text: rendered.text,
+    tags: { template: 'results', assessment_type: submission.assessment_type },
+    attachments,
+  });
+
+  // Delivery records; the email is already sent, so these never fail the call
+  const template = `results:${rendered.templateSource}`;
+  Promise.resolve(
+    supabaseAdmin.from('assessment_events').insert({
+      assessment_type: submission.assessment_type,
+      assessment_version: submission.assessment_version,
+      session_id: submission.session_id,
+      event_name: 'results_email_sent',
+      primary_avatar: submission.primary_avatar,
+      properties: {
+        submissionId: submission.id,
+        campaignVariantId: resolved.resultsPackRef?.campaignVariantId || null,
+        contentHash: resolved.contentHash || null,
+        transport: sender.name,
+        pdfAttached: attachments.length > 0,
+        source: 'server',
+      },
+    })
+  ).catch((err) => {
+    console.warn('Failed to record results email event (non-blocking):', err);
+  });
+
+  if (person) {
+    logEvent({
+      personId: person.id,
+      eventType: 'email_sent',
+      source: 'results_email',
+      channel: 'email',
+      metadata: { subject: rendered.subject, template, submission_id: submission.id, message_id: result.id },
+    }).catch((err) => {
+      console.warn('Failed to log results email for person (non-blocking):', err);
+    });
+  }
+
+  return { status: 'sent', messageId: result.id, subject: rendered.subject };
+}
+
+/**
+ * Outbox delivery of a results email row ({ submission_id, email } payload)
+ *
+ * Skips (no sender, channel disabled, submission gone) count as delivered so they are not
+ * retried; errors from the sender or the database are retried by the outbox.
+ */
+export async function deliverResultsEmail(payload: unknown): Promise<DeliveryResult> {
+  const startedAt = Date.now();
+  const row = (payload || {}) as { submission_id?: unknown; email?: unknown };
+  if (typeof row.submission_id !== 'string' || typeof row.email !== 'string') {
+    return { ok: false, error: 'Invalid results email payload', durationMs: 0 };
+  }
+
+  try {
+    const result = await sendResultsEmail({ submissionId: row.submission_id, to: row.email });
+    return {
+      ok: true,
+      responseBody: result.status === 'sent' ? `sent ${result.messageId}` : `skipped: ${result.reason}`,
+      durationMs: Date.now() - startedAt,
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      error: error instanceof Error ? error.message : 'Results email send failed',
+      durationMs: Date.now() - startedAt,
+    };
+  }
+}
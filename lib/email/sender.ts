@@ -0,0 +1,146 @@
+/**
+ * Email Senders
+ *
+ * Transport for emails rendered in-app, chosen by EMAIL_TRANSPORT:
+ *
+ * - provider: HTTP email API (Resend-compatible JSON: from, to, subject, html, text, headers,
+ *   base64 attachments)
+ *   at EMAIL_PROVIDER_API_URL with EMAIL_PROVIDER_API_KEY as bearer token. SMTP relays are
+ *   used through their provider's HTTP API.
+ * - file: writes each message as JSON to EMAIL_FILE_SINK_DIR (local development and tests)
+ * - unset: no in-app sending; results emails stay with the n8n workflow
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+export interface EmailMessage {
+  to: string;
+  from: string;
+  subject: string;
+  html: string;
+  text: string;
+  headers?: Record<string, string>;
+  /** Provider tags (e.g. template, submission) */
+  tags?: Record<string, string>;
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType: string;
+}
+
+export interface EmailSendResult {
+  id: string;
+}
+
+export interface EmailSender {
+  name: 'provider' | 'file';
+  send(message: EmailMessage): Promise<EmailSendResult>;
+}
+
+export const DEFAULT_EMAIL_FROM = 'Fine Diet <hello@myfinediet.com>';
+
+export function getEmailFrom(): string {
+  return process.env.EMAIL_FROM || DEFAULT_EMAIL_FROM;
+}
+
+export function createFileSinkSender(directory: string): EmailSender {
+  return {
+    name: 'file',
+    async send(message) {
+      const id = `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+      await fs.mkdir(directory, { recursive: true });
+      await fs.writeFile(
+        path.join(directory, `${id}.json`),
+        JSON.stringify(
+          {
+            id,
+            sent_at: new Date().toISOString(),
+            ...message,
+            // File contents are left out to keep the sink readable
+            attachments: (message.attachments || []).map((attachment) => ({
+              filename: attachment.filename,
+              contentType: attachment.contentType,
+              size: attachment.content.length,
+            })),
+          },
+          null,
+          2
+        )
+      );
+      return { id };
+    },
+  };
+}
+
+export function createProviderSender(apiUrl: string, apiKey: string, timeoutMs: number = 10000): EmailSender {
+  return {
+    name: 'provider',
+    async send(message) {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+      try {
+        const response = await fetch(apiUrl, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${apiKey}`,
+          },
+          body: JSON.stringify({
+            from: message.from,
+            to: [message.to],
+            subject: message.subject,
+            html: message.html,
+            text: message.text,
+            headers: message.headers || {},
+            tags: Object.keys(message.tags || {}).map((name) => ({ name, value: (message.tags || {})[name] })),
+            attachments: (message.attachments || []).map((attachment) => ({
+              filename: attachment.filename,
+              content: attachment.content.toString('base64'),
+              content_type: attachment.contentType,
+            })),
+          }),
+          signal: controller.signal,
+        });
+
+        const body = await response.text();
+        if (!response.ok) {
+          throw new Error(`Email provider returned ${response.status}: ${body.slice(0, 200)}`);
+        }
+        let id = '';
+        try {
+          id = JSON.parse(body).id || '';
+        } catch {
+          // Providers that return no JSON body still accepted the message
+        }
+        return { id };
+      } finally {
+        clearTimeout(timer);
+      }
+    },
+  };
+}
+
+/**
+ * Sender configured by EMAIL_TRANSPORT, or null when in-app sending is off
+ */
+export function getEmailSender(): EmailSender | null {
+  const transport = process.env.EMAIL_TRANSPORT;
+  if (transport === 'file') {
+    return createFileSinkSender(process.env.EMAIL_FILE_SINK_DIR || path.join(os.tmpdir(), 'fine-diet-emails'));
+  }
+  if (transport === 'provider') {
+    const apiUrl = process.env.EMAIL_PROVIDER_API_URL;
+    const apiKey = process.env.EMAIL_PROVIDER_API_KEY;
+    if (!apiUrl || !apiKey) {
+      console.warn('EMAIL_TRANSPORT=provider needs EMAIL_PROVIDER_API_URL and EMAIL_PROVIDER_API_KEY; email sending is off');
+      return null;
+    }
+    return createProviderSender(apiUrl, apiKey);
+  }
+  return null;
+}
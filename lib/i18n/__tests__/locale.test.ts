@@ -0,0 +1,72 @@
+/**
+ * Tests for locale normalization, fallback chains and request locale detection
+ */
+
+import {
+  getLocaleFallbackChain,
+  localizedContentKey,
+  localizedContentKeys,
+  normalizeLocale,
+  parseAcceptLanguage,
+  resolveRequestLocale,
+  toStoredLocale,
+} from '../locale';
+
+describe('normalizeLocale', () => {
+  it('should canonicalize case and separators', () => {
+    expect(normalizeLocale('es_mx')).toBe('es-MX');
+    expect(normalizeLocale(' EN ')).toBe('en');
+    expect(normalizeLocale('es-419')).toBe('es-419');
+  });
+
+  it('should reject anything that is not a locale tag', () => {
+    expect(normalizeLocale('')).toBeNull();
+    expect(normalizeLocale('english')).toBeNull();
+    expect(normalizeLocale('es-MX;drop')).toBeNull();
+    expect(normalizeLocale(undefined)).toBeNull();
+  });
+});
+
+describe('getLocaleFallbackChain', () => {
+  it('should fall back from region to language to the default locale', () => {
+    expect(getLocaleFallbackChain('es-MX')).toEqual(['es-MX', 'es', 'en']);
+    expect(getLocaleFallbackChain('es')).toEqual(['es', 'en']);
+    expect(getLocaleFallbackChain('en-GB')).toEqual(['en-GB', 'en']);
+  });
+
+  it('should use the default locale for missing or invalid input', () => {
+    expect(getLocaleFallbackChain(null)).toEqual(['en']);
+    expect(getLocaleFallbackChain('not a locale')).toEqual(['en']);
+  });
+});
+
+describe('toStoredLocale / localizedContentKey', () => {
+  it('should store the default locale as NULL', () => {
+    expect(toStoredLocale('en')).toBeNull();
+    expect(toStoredLocale(null)).toBeNull();
+    expect(toStoredLocale('es_MX')).toBe('es-MX');
+  });
+
+  it('should suffix site_content keys for non-default locales', () => {
+    expect(localizedContentKey('home', 'en')).toBe('home');
+    expect(localizedContentKey('seo:route:/gut-check', 'es-MX')).toBe('seo:route:/gut-check@es-MX');
+  });
+
+  it('should list localized keys along the fallback chain', () => {
+    expect(localizedContentKeys('home', 'es-MX')).toEqual(['home@es-MX', 'home@es', 'home']);
+    expect(localizedContentKeys('home', null)).toEqual(['home']);
+  });
+});
+
+describe('request locale', () => {
+  it('should order Accept-Language by quality', () => {
+    expect(parseAcceptLanguage('en;q=0.5, es-MX, es;q=0.9, *;q=0.1')).toEqual(['es-MX', 'es', 'en']);
+    expect(parseAcceptLanguage('fr;q=0, de')).toEqual(['de']);
+  });
+
+  it('should prefer ?lang= over Accept-Language', () => {
+    expect(resolveRequestLocale({ queryLocale: 'es-mx', acceptLanguage: 'de' })).toBe('es-MX');
+    expect(resolveRequestLocale({ queryLocale: 'bogus!', acceptLanguage: 'de-AT,de;q=0.9' })).toBe('de-AT');
+    expect(resolveRequestLocale({})).toBe('en');
+  });
+});
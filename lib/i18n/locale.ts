@@ -0,0 +1,131 @@
+/**
+ * Locale Helpers
+ *
+ * Locales are BCP 47-style tags ("es", "es-MX"). Content is resolved along a fallback
+ * chain from the most specific tag to the default locale:
+ *
+ *   es-MX → es → en
+ *
+ * Storage convention (question_sets, results_packs, assessment_submissions): NULL is the
+ * default locale, so existing rows keep working. site_content has no locale column;
+ * localized entries use a key suffix instead ("home@es", "seo:route:/gut-check@es-MX").
+ *
+ * Request locale: ?lang= in the URL wins, then Accept-Language, then the default.
+ *
+ * Client-safe: pure functions only.
+ */
+
+export const DEFAULT_LOCALE = 'en';
+
+/** Query parameter carrying an explicit locale (e.g., /gut-check?lang=es-MX) */
+export const LOCALE_QUERY_PARAM = 'lang';
+
+const LOCALE_PATTERN = /^([a-z]{2,3})(?:-([a-z]{2}|\d{3}))?$/i;
+
+/**
+ * Canonicalize a locale tag ("es_mx" → "es-MX", "EN" → "en")
+ *
+ * @returns The canonical tag, or null if the input is not a locale tag
+ */
+export function normalizeLocale(input: string | null | undefined): string | null {
+  if (typeof input !== 'string') return null;
+  const match = input.trim().replace(/_/g, '-').match(LOCALE_PATTERN);
+  if (!match) return null;
+  const language = match[1].toLowerCase();
+  return match[2] ? `${language}-${match[2].toUpperCase()}` : language;
+}
+
+/**
+ * True for the default locale (including unset/NULL)
+ */
+export function isDefaultLocale(locale: string | null | undefined): boolean {
+  return !locale || normalizeLocale(locale) === DEFAULT_LOCALE;
+}
+
+/**
+ * Locale as stored in the database (NULL = default locale)
+ */
+export function toStoredLocale(locale: string | null | undefined): string | null {
+  return isDefaultLocale(locale) ? null : normalizeLocale(locale);
+}
+
+/**
+ * Fallback chain, most specific first, always ending with the default locale
+ *
+ * @example getLocaleFallbackChain('es-MX') // ['es-MX', 'es', 'en']
+ */
+export function getLocaleFallbackChain(locale: string | null | undefined): string[] {
+  const chain: string[] = [];
+  const normalized = normalizeLocale(locale);
+
+  if (normalized) {
+    chain.push(normalized);
+    const language = normalized.split('-')[0];
+    if (language !== normalized) {
+      chain.push(language);
+    }
+  }
+
+  if (!chain.includes(DEFAULT_LOCALE)) {
+    chain.push(DEFAULT_LOCALE);
+  }
+  return chain;
+}
+
+/**
+ * Locales from an Accept-Language header, by preference (q=0 and "*" are skipped)
+ *
+ * @example parseAcceptLanguage('es-MX,es;q=0.9,en;q=0.8') // ['es-MX', 'es', 'en']
+ */
+export function parseAcceptLanguage(header: string | null | undefined): string[] {
+  if (!header) return [];
+
+  const entries = header
+    .split(',')
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(';');
+      const qParam = params.map((p) => p.trim()).find((p) => p.startsWith('q='));
+      const q = qParam ? parseFloat(qParam.slice(2)) : 1;
+      return { locale: normalizeLocale(tag), q: isNaN(q) ? 0 : q, index };
+    })
+    .filter((entry): entry is { locale: string; q: number; index: number } => !!entry.locale && entry.q > 0);
+
+  // Stable sort: higher q first, header order for ties
+  entries.sort((a, b) => b.q - a.q || a.index - b.index);
+
+  return entries
+    .map((entry) => entry.locale)
+    .filter((locale, index, all) => all.indexOf(locale) === index);
+}
+
+/**
+ * Locale for a request: ?lang= (if valid), else the preferred Accept-Language, else the default
+ */
+export function resolveRequestLocale(options: {
+  queryLocale?: string | string[] | null;
+  acceptLanguage?: string | null;
+}): string {
+  const queryLocale = Array.isArray(options.queryLocale) ? options.queryLocale[0] : options.queryLocale;
+  const fromQuery = normalizeLocale(queryLocale);
+  if (fromQuery) return fromQuery;
+
+  const [preferred] = parseAcceptLanguage(options.acceptLanguage);
+  return preferred ?? DEFAULT_LOCALE;
+}
+
+/**
+ * site_content key for a locale ("home" → "home@es-MX"; default locale keeps the plain key)
+ */
+export function localizedContentKey(key: string, locale: string | null | undefined): string {
+  const stored = toStoredLocale(locale);
+  return stored ? `${key}@${stored}` : key;
+}
+
+/**
+ * site_content keys to try for a locale, most specific first
+ *
+ * @example localizedContentKeys('home', 'es-MX') // ['home@es-MX', 'home@es', 'home']
+ */
+export function localizedContentKeys(key: string, locale: string | null | undefined): string[] {
+  return getLocaleFallbackChain(locale).map((l) => localizedContentKey(key, l));
+}
@@ -0,0 +1,151 @@
+/**
+ * Tests for outbox alert rule evaluation and validation
+ */
+
+import {
+  buildAlertNotification,
+  evaluateAlertRule,
+  parseAlertRuleInput,
+  planAlertTransition,
+} from '../alertRules';
+
+const NOW = new Date('2026-03-01T12:00:00Z');
+
+describe('evaluateAlertRule', () => {
+  const failureRate = {
+    rule_type: 'failure_rate' as const,
+    threshold: 10,
+    window_minutes: 60,
+    min_deliveries: 5,
+    target: 'n8n',
+  };
+
+  it('should breach when the failure rate is above the threshold', () => {
+    const evaluation = evaluateAlertRule(failureRate, { deliveries: 8, failures: 3 }, NOW);
+    expect(evaluation.breached).toBe(true);
+    expect(evaluation.value).toBe(37.5);
+    expect(evaluation.message).toBe(
+      'Failure rate 37.5% (3 of 8 deliveries) in the last 1 h for n8n; threshold 10%'
+    );
+  });
+
+  it('should not breach below min_deliveries or at the threshold', () => {
+    expect(evaluateAlertRule(failureRate, { deliveries: 2, failures: 2 }, NOW).breached).toBe(false);
+    expect(evaluateAlertRule(failureRate, { deliveries: 10, failures: 1 }, NOW).breached).toBe(false);
+    expect(evaluateAlertRule(failureRate, { deliveries: 0, failures: 0 }, NOW).value).toBe(0);
+  });
+
+  it('should measure stale_pending by the age of the oldest undelivered row', () => {
+    const rule = { ...failureRate, rule_type: 'stale_pending' as const, threshold: 30, target: null };
+    const stale = evaluateAlertRule(rule, { oldestUnsentAt: '2026-03-01T11:15:00Z' }, NOW);
+    expect(stale).toMatchObject({ breached: true, value: 45 });
+    expect(stale.message).toBe('Oldest undelivered entry is 45 min old; threshold 30 min');
+
+    expect(evaluateAlertRule(rule, { oldestUnsentAt: '2026-03-01T11:45:00Z' }, NOW).breached).toBe(false);
+    expect(evaluateAlertRule(rule, { oldestUnsentAt: null }, NOW)).toMatchObject({
+      breached: false,
+      value: 0,
+      message: 'No undelivered entries',
+    });
+  });
+
+  it('should breach zero_sends only when nothing was sent', () => {
+    const rule = { ...failureRate, rule_type: 'zero_sends' as const, window_minutes: 360, target: null };
+    expect(evaluateAlertRule(rule, { sent: 0 }, NOW)).toMatchObject({
+      breached: true,
+      message: '0 deliveries sent in the last 6 h',
+    });
+    expect(evaluateAlertRule(rule, { sent: 4 }, NOW).breached).toBe(false);
+  });
+});
+
+describe('planAlertTransition', () => {
+  const breached = { breached: true, value: 1, message: '' };
+  const healthy = { breached: false, value: 0, message: '' };
+
+  it('should fire once and then update while breached', () => {
+    expect(planAlertTransition(breached, null)).toBe('fire');
+    expect(planAlertTransition(breached, { status: 'firing' })).toBe('update');
+  });
+
+  it('should resolve an open alert once healthy', () => {
+    expect(planAlertTransition(healthy, { status: 'firing' })).toBe('resolve');
+    expect(planAlertTransition(healthy, null)).toBe('none');
+  });
+});
+
+describe('buildAlertNotification', () => {
+  const rule = { id: 'rule-1', name: 'n8n failures', rule_type: 'failure_rate' as const, target: 'n8n' };
+  const alert = {
+    id: 'alert-1',
+    message: 'Failure rate 50.0% (5 of 10 deliveries) in the last 1 h for n8n; threshold 10%',
+    value: 50,
+    fired_at: '2026-03-01T11:00:00Z',
+    resolved_at: null,
+  };
+
+  it('should build firing and resolved notifications', () => {
+    const firing = buildAlertNotification(rule, alert, 'firing');
+    expect(firing.subject).toBe('[Fine Diet] Outbox alert: n8n failures');
+    expect(firing.payload).toMatchObject({ status: 'firing', alert_id: 'alert-1', rule_id: 'rule-1', value: 50 });
+    expect(firing.payload.text).toContain(alert.message);
+
+    const resolved = buildAlertNotification(rule, { ...alert, resolved_at: '2026-03-01T12:00:00Z' }, 'resolved');
+    expect(resolved.subject).toBe('[Fine Diet] Resolved: n8n failures');
+    expect(resolved.text).toContain('firing since 2026-03-01T11:00:00Z');
+    expect(resolved.payload.status).toBe('resolved');
+  });
+});
+
+describe('parseAlertRuleInput', () => {
+  const valid = {
+    name: ' n8n failures ',
+    rule_type: 'failure_rate',
+    threshold: 10,
+    window_minutes: 60,
+    target: '  ',
+    channel: 'email',
+    channel_target: 'ops@example.com',
+  };
+
+  it('should accept a valid rule', () => {
+    const result = parseAlertRuleInput(valid);
+    expect(result).toEqual({
+      ok: true,
+      input: {
+        name: 'n8n failures',
+        rule_type: 'failure_rate',
+        threshold: 10,
+        window_minutes: 60,
+        target: null,
+        channel: 'email',
+        channel_target: 'ops@example.com',
+      },
+    });
+  });
+
+  it('should require a threshold except for zero_sends', () => {
+    const withoutThreshold: Record<string, unknown> = { ...valid };
+    delete withoutThreshold.threshold;
+    expect(parseAlertRuleInput(withoutThreshold)).toEqual({ ok: false, error: 'threshold is required' });
+    expect(parseAlertRuleInput({ ...withoutThreshold, rule_type: 'zero_sends' }).ok).toBe(true);
+  });
+
+  it('should reject invalid values', () => {
+    expect(parseAlertRuleInput({ ...valid, rule_type: 'latency' }).ok).toBe(false);
+    expect(parseAlertRuleInput({ ...valid, threshold: 150 }).ok).toBe(false);
+    expect(parseAlertRuleInput({ ...valid, window_minutes: 1.5 }).ok).toBe(false);
+    expect(parseAlertRuleInput({ ...valid, window_minutes: 14 * 24 * 60 + 1 }).ok).toBe(false);
+    expect(parseAlertRuleInput({ ...valid, channel: 'sms' }).ok).toBe(false);
+    expect(parseAlertRuleInput({ ...valid, channel_target: 'not-an-email' })).toEqual({
+      ok: false,
+      error: 'channel_target must be an email address',
+    });
+    expect(parseAlertRuleInput({ ...valid, channel: 'webhook', channel_target: 'ftp://x' }).ok).toBe(false);
+  });
+
+  it('should only validate the given fields on partial updates', () => {
+    expect(parseAlertRuleInput({ enabled: false }, { partial: true })).toEqual({ ok: true, input: { enabled: false } });
+    expect(parseAlertRuleInput({ enabled: 'no' }, { partial: true }).ok).toBe(false);
+  });
+});
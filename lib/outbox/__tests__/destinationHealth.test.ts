@@ -0,0 +1,40 @@
+/**
+ * Tests for per-destination delivery health
+ */
+
+import { summarizeDestinationHealth, type DestinationHealthRow } from '../destinationHealth';
+
+const destinations = [
+  { id: 'crm', slug: 'crm', name: 'CRM', enabled: true },
+  { id: 'slack', slug: 'slack', name: 'Slack', enabled: false },
+];
+
+describe('summarizeDestinationHealth', () => {
+  it('should count rows per destination and status', () => {
+    const rows: DestinationHealthRow[] = [
+      { destination_id: 'crm', status: 'sent', created_at: '2026-01-01T00:00:00Z', sent_at: '2026-01-01T00:00:05Z' },
+      { destination_id: 'crm', status: 'sent', created_at: '2026-01-02T00:00:00Z', sent_at: '2026-01-02T00:00:05Z' },
+      { destination_id: 'crm', status: 'failed', created_at: '2026-01-03T00:00:00Z', sent_at: null },
+      { destination_id: 'crm', status: 'dead_letter', created_at: '2026-01-01T12:00:00Z', sent_at: null },
+      { destination_id: 'crm', status: 'pending', created_at: '2026-01-02T12:00:00Z', sent_at: null },
+      { destination_id: 'crm', status: 'cancelled', created_at: '2026-01-01T06:00:00Z', sent_at: null },
+      { destination_id: 'deleted', status: 'sent', created_at: '2026-01-01T00:00:00Z', sent_at: null },
+    ];
+
+    const [crm, slack] = summarizeDestinationHealth(destinations, rows);
+
+    expect(crm).toMatchObject({
+      total: 6,
+      sent_count: 2,
+      retrying_count: 1,
+      dead_letter_count: 1,
+      pending_count: 1,
+      cancelled_count: 1,
+      fail_rate: 0.5,
+      last_sent_at: '2026-01-02T00:00:05Z',
+      oldest_unsent_at: '2026-01-02T12:00:00Z',
+    });
+    // Destinations without traffic are still listed
+    expect(slack).toMatchObject({ slug: 'slack', enabled: false, total: 0, fail_rate: 0, last_sent_at: null });
+  });
+});
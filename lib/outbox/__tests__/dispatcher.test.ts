@@ -0,0 +1,268 @@
+/**
+ * Tests for the webhook outbox dispatcher
+ *
+ * Delivers against a local HTTP stub in place of n8n, with mocked Supabase claim/update.
+ */
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { dispatchOutbox } from '../dispatcher';
+import { deliverWebhook } from '../deliver';
+import { verifySignature } from '@/lib/webhooks/signature';
+
+let mockRpc!: jest.Mock;
+let mockFrom!: jest.Mock;
+
+jest.mock('@/lib/supabaseServerClient', () => {
+  mockRpc = jest.fn();
+  mockFrom = jest.fn();
+  return {
+    supabaseAdmin: {
+      rpc: mockRpc,
+      from: mockFrom,
+    },
+  };
+});
+
+// Loaded lazily by the dispatcher, so the factory runs after this is defined
+const mockDeliverResultsEmail = jest.fn();
+
+jest.mock('@/lib/email/sendResultsEmail', () => ({
+  deliverResultsEmail: (payload: unknown) => mockDeliverResultsEmail(payload),
+}));
+
+/** Local stand-in for n8n: status per path, records request bodies */
+function startStub(statusByPath: Record<string, number>, delayMs = 0) {
+  const received: Array<{ path: string; body: unknown; headers: http.IncomingHttpHeaders; rawBody: string }> = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => {
+      body += chunk;
+    });
+    req.on('end', () => {
+      received.push({ path: req.url || '', body: body ? JSON.parse(body) : null, headers: req.headers, rawBody: body });
+      setTimeout(() => {
+        res.statusCode = statusByPath[req.url || ''] ?? 200;
+        res.end(res.statusCode >= 400 ? 'stub error' : 'ok');
+      }, delayMs);
+    });
+  });
+  return new Promise<{ url: string; received: typeof received; close: () => Promise<void> }>((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        received,
+        close: () => new Promise((done) => server.close(() => done())),
+      });
+    });
+  });
+}
+
+/** Mock attempt inserts and the update chain: .update().eq().eq().in().select() */
+function mockUpdates(rowsUpdated = 1) {
+  const updates: Array<{ values: Record<string, unknown>; filters: unknown[][] }> = [];
+  const attempts: Array<Record<string, unknown>> = [];
+  mockFrom.mockImplementation(() => ({
+    insert: (values: Record<string, unknown>) => {
+      attempts.push(values);
+      return Promise.resolve({ error: null });
+    },
+    update: (values: Record<string, unknown>) => {
+      const entry = { values, filters: [] as unknown[][] };
+      updates.push(entry);
+      const chain = {
+        eq: (...args: unknown[]) => {
+          entry.filters.push(['eq', ...args]);
+          return chain;
+        },
+        in: (...args: unknown[]) => {
+          entry.filters.push(['in', ...args]);
+          return chain;
+        },
+        select: () => Promise.resolve({ data: Array(rowsUpdated).fill({ id: 'x' }), error: null }),
+      };
+      return chain;
+    },
+  }));
+  return { updates, attempts };
+}
+
+const policy = { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 10000 };
+
+describe('deliverWebhook', () => {
+  it('should sign the exact body it sends', async () => {
+    const stub = await startStub({});
+    try {
+      const result = await deliverWebhook(`${stub.url}/ok`, { n: 1 }, { signingSecrets: ['secret'] });
+      expect(result.ok).toBe(true);
+      const [request] = stub.received;
+      expect(verifySignature(request.rawBody, request.headers, ['secret']).ok).toBe(true);
+    } finally {
+      await stub.close();
+    }
+  });
+
+  it('should report a timeout as a failed delivery', async () => {
+    const stub = await startStub({}, 200);
+    try {
+      const result = await deliverWebhook(`${stub.url}/slow`, { a: 1 }, { timeoutMs: 20 });
+      expect(result.ok).toBe(false);
+      expect(result.error).toBe('Timeout after 20ms');
+    } finally {
+      await stub.close();
+    }
+  });
+});
+
+describe('dispatchOutbox', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should deliver claimed rows and record sent / retry / dead-letter outcomes', async () => {
+    const stub = await startStub({ '/ok': 200, '/down': 503 });
+    try {
+      mockRpc.mockResolvedValue({
+        data: [
+          { id: 'row-1', submission_id: 's1', target: 'n8n', webhook_url: `${stub.url}/ok`, payload: { n: 1 }, attempts: 1 },
+          { id: 'row-2', submission_id: 's2', target: 'n8n', webhook_url: `${stub.url}/down`, payload: { n: 2 }, attempts: 1 },
+          { id: 'row-3', submission_id: 's3', target: 'n8n', webhook_url: `${stub.url}/down`, payload: { n: 3 }, attempts: 3 },
+        ],
+        error: null,
+      });
+      const { updates, attempts } = mockUpdates();
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      const summary = await dispatchOutbox({ limit: 3, policy, timeoutMs: 1000 });
+      consoleError.mockRestore();
+
+      expect(summary).toMatchObject({ claimed: 3, sent: 1, retried: 1, deadLettered: 1, skipped: 0 });
+      expect(stub.received.map((request) => request.body)).toEqual([{ n: 1 }, { n: 2 }, { n: 3 }]);
+
+      expect(mockRpc).toHaveBeenCalledWith(
+        'claim_webhook_outbox',
+        expect.objectContaining({ p_worker: summary.workerId, p_limit: 3, p_ids: null })
+      );
+      expect(updates.map((update) => update.values.status)).toEqual(['sent', 'failed', 'dead_letter']);
+      expect(updates[1].values.last_status_code).toBe(503);
+      expect(attempts[1]).toMatchObject({
+        outbox_id: 'row-2',
+        attempt_number: 1,
+        status_code: 503,
+        response_body: 'stub error',
+        error_message: 'HTTP 503: stub error',
+      });
+      // Completion is guarded on the lease and on the row still being unsent
+      expect(updates[0].filters).toEqual([
+        ['eq', 'id', 'row-1'],
+        ['eq', 'locked_by', summary.workerId],
+        ['in', 'status', ['pending', 'failed']],
+      ]);
+    } finally {
+      await stub.close();
+    }
+  });
+
+  it('should count rows whose lease was lost as skipped', async () => {
+    const stub = await startStub({});
+    try {
+      mockRpc.mockResolvedValue({
+        data: [{ id: 'row-1', submission_id: 's1', target: 'n8n', webhook_url: `${stub.url}/ok`, payload: {}, attempts: 1 }],
+        error: null,
+      });
+      mockUpdates(0);
+
+      const summary = await dispatchOutbox({ ids: ['row-1'], policy });
+
+      expect(summary).toMatchObject({ claimed: 1, sent: 0, skipped: 1 });
+      expect(mockRpc).toHaveBeenCalledWith('claim_webhook_outbox', expect.objectContaining({ p_ids: ['row-1'] }));
+    } finally {
+      await stub.close();
+    }
+  });
+
+  it('should use destination headers and secrets, and cancel rows of disabled destinations', async () => {
+    const stub = await startStub({});
+    try {
+      mockRpc.mockResolvedValue({
+        data: [
+          { id: 'row-1', submission_id: null, destination_id: 'crm', target: 'destination:crm', webhook_url: `${stub.url}/crm`, payload: { n: 1 }, attempts: 1 },
+          { id: 'row-2', submission_id: null, destination_id: 'slack', target: 'destination:slack', webhook_url: `${stub.url}/slack`, payload: { n: 2 }, attempts: 1 },
+        ],
+        error: null,
+      });
+      const { updates } = mockUpdates();
+      const tables = mockFrom.getMockImplementation()!;
+      mockFrom.mockImplementation((table: string) =>
+        table === 'webhook_destinations'
+          ? {
+              select: () => ({
+                in: () =>
+                  Promise.resolve({
+                    data: [
+                      { id: 'crm', enabled: true, headers: { Authorization: 'Bearer crm' }, signing_secret: 'crm-secret' },
+                      { id: 'slack', enabled: false, headers: {}, signing_secret: null },
+                    ],
+                    error: null,
+                  }),
+              }),
+            }
+          : tables(table)
+      );
+
+      const summary = await dispatchOutbox({ limit: 2, policy });
+
+      expect(summary).toMatchObject({ claimed: 2, sent: 1, cancelled: 1 });
+      expect(stub.received).toHaveLength(1);
+      const [request] = stub.received;
+      expect(request.path).toBe('/crm');
+      expect(request.headers.authorization).toBe('Bearer crm');
+      expect(verifySignature(request.rawBody, request.headers, ['crm-secret']).ok).toBe(true);
+      expect(updates.map((update) => update.values.status)).toEqual(['sent', 'cancelled']);
+      expect(updates[1].values.error_message).toBe('Destination disabled');
+    } finally {
+      await stub.close();
+    }
+  });
+
+  it('should send results email rows in-app instead of POSTing them', async () => {
+    mockRpc.mockResolvedValue({
+      data: [
+        {
+          id: 'row-1',
+          submission_id: 's1',
+          target: 'results_email',
+          webhook_url: 'in-app:results-email',
+          payload: { submission_id: 's1', email: 'a@example.com' },
+          attempts: 1,
+        },
+        {
+          id: 'row-2',
+          submission_id: 's2',
+          target: 'results_email',
+          webhook_url: 'in-app:results-email',
+          payload: { submission_id: 's2', email: 'b@example.com' },
+          attempts: 1,
+        },
+      ],
+      error: null,
+    });
+    mockDeliverResultsEmail
+      .mockResolvedValueOnce({ ok: true, responseBody: 'sent msg-1', durationMs: 5 })
+      .mockResolvedValueOnce({ ok: false, error: 'Provider returned 500', durationMs: 5 });
+    const { updates, attempts } = mockUpdates();
+
+    const summary = await dispatchOutbox({ limit: 2, policy });
+
+    expect(summary).toMatchObject({ claimed: 2, sent: 1, retried: 1 });
+    expect(mockDeliverResultsEmail).toHaveBeenCalledWith({ submission_id: 's1', email: 'a@example.com' });
+    expect(updates.map((update) => update.values.status)).toEqual(['sent', 'failed']);
+    expect(attempts[1]).toMatchObject({ outbox_id: 'row-2', error_message: 'Provider returned 500' });
+  });
+
+  it('should throw when the claim fails', async () => {
+    mockRpc.mockResolvedValue({ data: null, error: { message: 'boom' } });
+    await expect(dispatchOutbox({ policy })).rejects.toThrow('Database error: boom');
+  });
+});
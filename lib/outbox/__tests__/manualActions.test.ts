@@ -0,0 +1,91 @@
+/**
+ * Tests for webhook outbox manual actions
+ *
+ * Tests request validation (ids vs filter, status scoping) and replay/cancel updates.
+ */
+
+import {
+  MAX_BATCH_ACTION_SIZE,
+  buildCancelUpdate,
+  buildReplayUpdate,
+  getActionableStatuses,
+  parseOutboxActionRequest,
+} from '../manualActions';
+
+describe('parseOutboxActionRequest', () => {
+  it('should accept explicit ids', () => {
+    expect(parseOutboxActionRequest({ action: 'replay', ids: ['a', 'b'] })).toEqual({
+      ok: true,
+      request: { action: 'replay', ids: ['a', 'b'] },
+    });
+  });
+
+  it('should normalize a batch filter', () => {
+    const result = parseOutboxActionRequest({
+      action: 'replay',
+      filter: { status: 'dead_letter', target: 'n8n_email_capture', createdFrom: '2026-01-01T00:00:00Z' },
+    });
+    expect(result).toEqual({
+      ok: true,
+      request: {
+        action: 'replay',
+        filter: { status: 'dead_letter', target: 'n8n_email_capture', createdFrom: '2026-01-01T00:00:00.000Z' },
+      },
+    });
+  });
+
+  it('should reject requests without exactly one of ids or filter', () => {
+    expect(parseOutboxActionRequest({ action: 'cancel' }).ok).toBe(false);
+    expect(parseOutboxActionRequest({ action: 'cancel', ids: ['a'], filter: { status: 'pending' } }).ok).toBe(false);
+  });
+
+  it('should reject unknown actions, empty ids and oversized batches', () => {
+    expect(parseOutboxActionRequest({ action: 'delete', ids: ['a'] }).ok).toBe(false);
+    expect(parseOutboxActionRequest({ action: 'replay', ids: [] }).ok).toBe(false);
+    const ids = Array.from({ length: MAX_BATCH_ACTION_SIZE + 1 }, (_, index) => `id-${index}`);
+    expect(parseOutboxActionRequest({ action: 'replay', ids }).ok).toBe(false);
+  });
+
+  it('should require a status that the action applies to for batches', () => {
+    expect(parseOutboxActionRequest({ action: 'replay', filter: {} })).toEqual({
+      ok: false,
+      error: 'Batch actions require a status filter',
+    });
+    expect(parseOutboxActionRequest({ action: 'replay', filter: { status: 'pending' } }).ok).toBe(false);
+    expect(parseOutboxActionRequest({ action: 'cancel', filter: { status: 'sent' } }).ok).toBe(false);
+    expect(parseOutboxActionRequest({ action: 'cancel', filter: { status: 'pending' } }).ok).toBe(true);
+  });
+
+  it('should reject invalid dates', () => {
+    expect(
+      parseOutboxActionRequest({ action: 'replay', filter: { status: 'failed', createdFrom: 'yesterday' } })
+    ).toEqual({ ok: false, error: 'createdFrom must be a date' });
+  });
+});
+
+describe('getActionableStatuses', () => {
+  it('should narrow to the filter status', () => {
+    expect(getActionableStatuses('replay', { status: 'failed' })).toEqual(['failed']);
+    expect(getActionableStatuses('cancel')).toEqual(['pending', 'failed']);
+  });
+});
+
+describe('row updates', () => {
+  it('should make a replayed row due now with a fresh retry budget', () => {
+    const now = new Date('2026-01-01T00:00:00.000Z');
+    expect(buildReplayUpdate(now)).toMatchObject({
+      status: 'pending',
+      attempts: 0,
+      next_attempt_at: now.toISOString(),
+      locked_by: null,
+      dead_lettered_at: null,
+    });
+  });
+
+  it('should record who cancelled a row', () => {
+    expect(buildCancelUpdate('admin@example.com')).toMatchObject({
+      status: 'cancelled',
+      error_message: 'Cancelled by admin@example.com',
+    });
+  });
+});
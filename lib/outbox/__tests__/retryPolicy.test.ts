@@ -0,0 +1,67 @@
+/**
+ * Tests for the webhook outbox retry policy
+ *
+ * Tests backoff growth and jitter bounds, and sent / retry / dead-letter outcomes.
+ */
+
+import {
+  computeBackoffMs,
+  getRetryPolicyFromEnv,
+  planAttemptOutcome,
+  type RetryPolicy,
+} from '../retryPolicy';
+
+const policy: RetryPolicy = { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 10000 };
+const now = new Date('2026-01-01T00:00:00.000Z');
+
+describe('computeBackoffMs', () => {
+  it('should double the delay per attempt within jitter bounds', () => {
+    expect(computeBackoffMs(1, policy, () => 0)).toBe(500);
+    expect(computeBackoffMs(1, policy, () => 0.999999)).toBe(1000);
+    expect(computeBackoffMs(2, policy, () => 0)).toBe(1000);
+    expect(computeBackoffMs(3, policy, () => 0.5)).toBe(3000);
+  });
+
+  it('should cap the delay at maxDelayMs', () => {
+    expect(computeBackoffMs(20, policy, () => 0.999999)).toBe(10000);
+    expect(computeBackoffMs(20, policy, () => 0)).toBe(5000);
+  });
+});
+
+describe('planAttemptOutcome', () => {
+  it('should mark successful deliveries sent and release the lease', () => {
+    const update = planAttemptOutcome(1, { ok: true, statusCode: 200, durationMs: 5 }, now, policy);
+    expect(update).toMatchObject({
+      status: 'sent',
+      sent_at: now.toISOString(),
+      error_message: null,
+      last_status_code: 200,
+      locked_by: null,
+      locked_until: null,
+    });
+  });
+
+  it('should schedule a retry with backoff while attempts remain', () => {
+    const update = planAttemptOutcome(2, { ok: false, statusCode: 502, error: 'HTTP 502', durationMs: 5 }, now, policy, () => 0);
+    expect(update.status).toBe('failed');
+    expect(update.error_message).toBe('HTTP 502');
+    expect(update.next_attempt_at).toBe(new Date(now.getTime() + 1000).toISOString());
+  });
+
+  it('should dead-letter on the last attempt', () => {
+    const update = planAttemptOutcome(3, { ok: false, error: 'Timeout after 10ms', durationMs: 10 }, now, policy);
+    expect(update.status).toBe('dead_letter');
+    expect(update.dead_lettered_at).toBe(now.toISOString());
+    expect(update.last_status_code).toBeNull();
+    expect(update.error_message).toContain('gave up after 3 attempts');
+    expect(update).not.toHaveProperty('next_attempt_at');
+  });
+});
+
+describe('getRetryPolicyFromEnv', () => {
+  it('should read positive integers and fall back otherwise', () => {
+    const result = getRetryPolicyFromEnv({ OUTBOX_MAX_ATTEMPTS: '4', OUTBOX_BASE_DELAY_MS: 'abc' });
+    expect(result.maxAttempts).toBe(4);
+    expect(result.baseDelayMs).toBe(30000);
+  });
+});
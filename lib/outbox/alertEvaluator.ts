@@ -0,0 +1,299 @@
+/**
+ * Outbox Alert Evaluator (server)
+ *
+ * Measures every enabled outbox_alert_rules row against webhook_outbox, opens / updates /
+ * resolves its incident in outbox_alerts (lib/outbox/alertRules.ts) and sends the firing and
+ * resolved notifications:
+ *
+ * - webhook channel: POST of the alert JSON to the rule's URL
+ * - email channel: POST of { to, subject, text } to ALERT_EMAIL_WEBHOOK_URL (the n8n workflow
+ *   that sends operational email)
+ *
+ * Both are signed like outbox deliveries (lib/webhooks/signature.ts). A notification that
+ * fails is retried on the next evaluation; the unique "one firing incident per rule" index
+ * keeps overlapping evaluations from notifying twice.
+ */
+
+import { supabaseAdmin } from '@/lib/supabaseServerClient';
+import { getSigningSecrets } from '@/lib/webhooks/signature';
+import { deliverWebhook } from './deliver';
+import type { DeliveryResult, OutboxStatus } from './retryPolicy';
+import {
+  buildAlertNotification,
+  evaluateAlertRule,
+  planAlertTransition,
+  type AlertMeasurement,
+  type AlertStatus,
+  type OutboxAlert,
+  type OutboxAlertRule,
+} from './alertRules';
+
+/** Notification requests are short; a slow receiver is retried next run */
+const NOTIFICATION_TIMEOUT_MS = 5000;
+
+/** Resolved notifications that keep failing are given up after this long */
+const RESOLVED_NOTIFICATION_RETRY_MS = 24 * 60 * 60 * 1000;
+
+export interface AlertEvaluationSummary {
+  evaluated: number;
+  fired: number;
+  resolved: number;
+  notified: number;
+  notificationErrors: number;
+}
+
+export interface EvaluateAlertsOptions {
+  now?: Date;
+  fetchImpl?: typeof fetch;
+}
+
+/** Rows in one of `statuses` whose `timeColumn` is at or after `since` */
+interface OutboxCountFilter {
+  statuses: OutboxStatus[];
+  timeColumn: 'created_at' | 'sent_at';
+  since: string;
+}
+
+async function countOutboxRows(rule: OutboxAlertRule, filter: OutboxCountFilter): Promise<number> {
+  let query = supabaseAdmin
+    .from('webhook_outbox')
+    .select('id', { count: 'exact', head: true })
+    .in('status', filter.statuses)
+    .gte(filter.timeColumn, filter.since);
+  if (rule.target) query = query.eq('target', rule.target);
+  const { count, error } = await query;
+  if (error) {
+    throw new Error(`Database error: ${error.message}`);
+  }
+  return count || 0;
+}
+
+/**
+ * Current value(s) a rule is compared against
+ */
+async function measureRule(rule: OutboxAlertRule, now: Date): Promise<AlertMeasurement> {
+  const since = new Date(now.getTime() - rule.window_minutes * 60 * 1000).toISOString();
+
+  if (rule.rule_type === 'failure_rate') {
+    const [deliveries, failures] = await Promise.all([
+      countOutboxRows(rule, { statuses: ['sent', 'failed', 'dead_letter'], timeColumn: 'created_at', since }),
+      countOutboxRows(rule, { statuses: ['failed', 'dead_letter'], timeColumn: 'created_at', since }),
+    ]);
+    return { deliveries, failures };
+  }
+
+  if (rule.rule_type === 'stale_pending') {
+    let query = supabaseAdmin
+      .from('webhook_outbox')
+      .select('created_at')
+      .in('status', ['pending', 'failed'])
+      .order('created_at', { ascending: true })
+      .limit(1);
+    if (rule.target) query = query.eq('target', rule.target);
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Database error: ${error.message}`);
+    }
+    return { oldestUnsentAt: data && data.length > 0 ? (data[0].created_at as string) : null };
+  }
+
+  const sent = await countOutboxRows(rule, { statuses: ['sent'], timeColumn: 'sent_at', since });
+  return { sent };
+}
+
+async function sendNotification(
+  rule: OutboxAlertRule,
+  alert: OutboxAlert,
+  kind: AlertStatus,
+  fetchImpl?: typeof fetch
+): Promise<DeliveryResult> {
+  const notification = buildAlertNotification(rule, alert, kind);
+  const options = { timeoutMs: NOTIFICATION_TIMEOUT_MS, signingSecrets: getSigningSecrets(), fetchImpl };
+
+  if (rule.channel === 'webhook') {
+    return deliverWebhook(rule.channel_target, notification.payload, options);
+  }
+
+  const emailWebhookUrl = process.env.ALERT_EMAIL_WEBHOOK_URL;
+  if (!emailWebhookUrl) {
+    return { ok: false, error: 'ALERT_EMAIL_WEBHOOK_URL is not configured', durationMs: 0 };
+  }
+  return deliverWebhook(
+    emailWebhookUrl,
+    {
+      kind: 'outbox_alert',
+      to: rule.channel_target,
+      subject: notification.subject,
+      text: notification.text,
+      alert: notification.payload,
+    },
+    options
+  );
+}
+
+/**
+ * Send a notification and record the outcome on the incident
+ */
+async function notifyAndRecord(
+  rule: OutboxAlertRule,
+  alert: OutboxAlert,
+  kind: AlertStatus,
+  now: Date,
+  summary: AlertEvaluationSummary,
+  fetchImpl?: typeof fetch
+): Promise<void> {
+  const result = await sendNotification(rule, alert, kind, fetchImpl);
+  if (result.ok) {
+    summary.notified++;
+  } else {
+    summary.notificationErrors++;
+    console.error(`[outbox-alerts] ${kind} notification for "${rule.name}" failed: ${result.error}`);
+  }
+
+  const update = result.ok
+    ? { [kind === 'firing' ? 'notified_at' : 'resolved_notified_at']: now.toISOString(), notification_error: null }
+    : { notification_error: result.error || 'Notification failed' };
+
+  const { error } = await supabaseAdmin.from('outbox_alerts').update(update).eq('id', alert.id);
+  if (error) {
+    console.error(`[outbox-alerts] Failed to record notification for ${alert.id}:`, error);
+  }
+}
+
+export async function evaluateOutboxAlerts(options: EvaluateAlertsOptions = {}): Promise<AlertEvaluationSummary> {
+  const now = options.now || new Date();
+  const summary: AlertEvaluationSummary = { evaluated: 0, fired: 0, resolved: 0, notified: 0, notificationErrors: 0 };
+
+  const [rulesResult, openResult] = await Promise.all([
+    supabaseAdmin.from('outbox_alert_rules').select('*'),
+    supabaseAdmin.from('outbox_alerts').select('*').eq('status', 'firing'),
+  ]);
+  if (rulesResult.error || openResult.error) {
+    throw new Error(`Database error: ${(rulesResult.error || openResult.error)!.message}`);
+  }
+
+  const rules = (rulesResult.data || []) as OutboxAlertRule[];
+  const rulesById: Record<string, OutboxAlertRule> = {};
+  rules.forEach((rule) => {
+    rulesById[rule.id] = rule;
+  });
+  const openByRule: Record<string, OutboxAlert> = {};
+  ((openResult.data || []) as OutboxAlert[]).forEach((alert) => {
+    openByRule[alert.rule_id] = alert;
+  });
+
+  for (const rule of rules) {
+    const open = openByRule[rule.id] || null;
+
+    // Disabling a rule closes its incident without a notification
+    if (!rule.enabled) {
+      if (open) {
+        await supabaseAdmin
+          .from('outbox_alerts')
+          .update({
+            status: 'resolved',
+            resolved_at: now.toISOString(),
+            resolved_notified_at: now.toISOString(),
+            last_evaluated_at: now.toISOString(),
+            message: `${open.message} (rule disabled)`,
+          })
+          .eq('id', open.id)
+          .eq('status', 'firing');
+      }
+      continue;
+    }
+
+    let evaluation;
+    try {
+      evaluation = evaluateAlertRule(rule, await measureRule(rule, now), now);
+    } catch (error) {
+      console.error(`[outbox-alerts] Failed to evaluate "${rule.name}":`, error);
+      continue;
+    }
+    summary.evaluated++;
+
+    const transition = planAlertTransition(evaluation, open);
+
+    if (transition === 'fire') {
+      const { data: created, error } = await supabaseAdmin
+        .from('outbox_alerts')
+        .insert({
+          rule_id: rule.id,
+          status: 'firing',
+          value: evaluation.value,
+          message: evaluation.message,
+          fired_at: now.toISOString(),
+          last_evaluated_at: now.toISOString(),
+        })
+        .select('*')
+        .single();
+
+      if (error) {
+        // 23505: a concurrent evaluation opened the incident (and notifies)
+        if (error.code !== '23505') {
+          console.error(`[outbox-alerts] Failed to open alert for "${rule.name}":`, error);
+        }
+        continue;
+      }
+      summary.fired++;
+      await notifyAndRecord(rule, created as OutboxAlert, 'firing', now, summary, options.fetchImpl);
+    } else if (transition === 'update' && open) {
+      const { error } = await supabaseAdmin
+        .from('outbox_alerts')
+        .update({ value: evaluation.value, message: evaluation.message, last_evaluated_at: now.toISOString() })
+        .eq('id', open.id);
+      if (error) {
+        console.error(`[outbox-alerts] Failed to update alert ${open.id}:`, error);
+      }
+      // Still firing: only retry a firing notification that has not gone out yet
+      if (!open.notified_at) {
+        await notifyAndRecord(rule, { ...open, value: evaluation.value, message: evaluation.message }, 'firing', now, summary, options.fetchImpl);
+      }
+    } else if (transition === 'resolve' && open) {
+      const { data: resolved, error } = await supabaseAdmin
+        .from('outbox_alerts')
+        .update({
+          status: 'resolved',
+          resolved_at: now.toISOString(),
+          last_evaluated_at: now.toISOString(),
+          value: evaluation.value,
+          message: evaluation.message,
+        })
+        .eq('id', open.id)
+        .eq('status', 'firing')
+        .select('*');
+
+      if (error || !resolved || resolved.length === 0) {
+        continue;
+      }
+      summary.resolved++;
+      // Nobody was told it fired, so there is nothing to resolve
+      if (open.notified_at) {
+        await notifyAndRecord(rule, resolved[0] as OutboxAlert, 'resolved', now, summary, options.fetchImpl);
+      }
+    }
+  }
+
+  // Resolved notifications that failed on an earlier run
+  const { data: unsent, error: unsentError } = await supabaseAdmin
+    .from('outbox_alerts')
+    .select('*')
+    .eq('status', 'resolved')
+    .is('resolved_notified_at', null)
+    .not('notified_at', 'is', null)
+    .gte('resolved_at', new Date(now.getTime() - RESOLVED_NOTIFICATION_RETRY_MS).toISOString())
+    .lt('resolved_at', now.toISOString());
+
+  if (unsentError) {
+    console.error('[outbox-alerts] Failed to load unsent resolved notifications:', unsentError);
+  } else {
+    for (const alert of (unsent || []) as OutboxAlert[]) {
+      const rule = rulesById[alert.rule_id];
+      if (rule && rule.enabled) {
+        await notifyAndRecord(rule, alert, 'resolved', now, summary, options.fetchImpl);
+      }
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,301 @@
+/**
+ * Outbox Alert Rules
+ *
+ * Admin-defined thresholds on webhook_outbox delivery (outbox_alert_rules), evaluated by
+ * POST /api/outbox/alerts (lib/outbox/alertEvaluator.ts):
+ *
+ * - failure_rate: failed + dead-lettered share of the rows created in the last window_minutes
+ *   is above threshold percent (only once at least min_deliveries were attempted)
+ * - stale_pending: the oldest row still waiting for delivery (pending, or failed with a retry
+ *   scheduled) is older than threshold minutes
+ * - zero_sends: nothing was sent in the last window_minutes
+ *
+ * A breached rule opens one incident (outbox_alerts) and notifies once; further breaches only
+ * update the incident, and the first healthy evaluation resolves it with a "resolved"
+ * notification. Pure functions only.
+ */
+
+export const ALERT_RULE_TYPES = ['failure_rate', 'stale_pending', 'zero_sends'] as const;
+export type AlertRuleType = (typeof ALERT_RULE_TYPES)[number];
+
+export const ALERT_CHANNELS = ['email', 'webhook'] as const;
+export type AlertChannel = (typeof ALERT_CHANNELS)[number];
+
+export const ALERT_RULE_TYPE_LABELS: Record<AlertRuleType, string> = {
+  failure_rate: 'Failure rate above threshold',
+  stale_pending: 'Undelivered entries older than threshold',
+  zero_sends: 'No sends in window',
+};
+
+/** Longest window a rule may look back over (14 days, the metrics range) */
+export const MAX_WINDOW_MINUTES = 14 * 24 * 60;
+
+export interface OutboxAlertRule {
+  id: string;
+  name: string;
+  rule_type: AlertRuleType;
+  threshold: number;
+  window_minutes: number;
+  min_deliveries: number;
+  target: string | null;
+  channel: AlertChannel;
+  channel_target: string;
+  enabled: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type AlertStatus = 'firing' | 'resolved';
+
+export interface OutboxAlert {
+  id: string;
+  rule_id: string;
+  status: AlertStatus;
+  value: number | null;
+  message: string;
+  fired_at: string;
+  last_evaluated_at: string;
+  resolved_at: string | null;
+  notified_at: string | null;
+  resolved_notified_at: string | null;
+  notification_error: string | null;
+}
+
+/** What the evaluator measured for a rule (fields depend on the rule type) */
+export interface AlertMeasurement {
+  /** failure_rate: rows in the window that were attempted (sent, failed or dead-lettered) */
+  deliveries?: number;
+  /** failure_rate: of those, failed or dead-lettered */
+  failures?: number;
+  /** stale_pending: created_at of the oldest undelivered row */
+  oldestUnsentAt?: string | null;
+  /** zero_sends: rows sent in the window */
+  sent?: number;
+}
+
+export interface AlertEvaluation {
+  breached: boolean;
+  value: number;
+  message: string;
+}
+
+export type AlertTransition = 'fire' | 'update' | 'resolve' | 'none';
+
+/** Editable rule fields */
+export interface AlertRuleInput {
+  name?: string;
+  rule_type?: AlertRuleType;
+  threshold?: number;
+  window_minutes?: number;
+  min_deliveries?: number;
+  target?: string | null;
+  channel?: AlertChannel;
+  channel_target?: string;
+  enabled?: boolean;
+}
+
+export type AlertRuleParseResult = { ok: true; input: AlertRuleInput } | { ok: false; error: string };
+
+function formatWindow(minutes: number): string {
+  return minutes % 60 === 0 ? `${minutes / 60} h` : `${minutes} min`;
+}
+
+function targetSuffix(rule: Pick<OutboxAlertRule, 'target'>): string {
+  return rule.target ? ` for ${rule.target}` : '';
+}
+
+/**
+ * Compare a measurement against the rule's threshold
+ */
+export function evaluateAlertRule(
+  rule: Pick<OutboxAlertRule, 'rule_type' | 'threshold' | 'window_minutes' | 'min_deliveries' | 'target'>,
+  measurement: AlertMeasurement,
+  now: Date = new Date()
+): AlertEvaluation {
+  if (rule.rule_type === 'failure_rate') {
+    const deliveries = measurement.deliveries || 0;
+    const failures = measurement.failures || 0;
+    const rate = deliveries > 0 ? (failures / deliveries) * 100 : 0;
+    return {
+      breached: deliveries >= rule.min_deliveries && rate > rule.threshold,
+      value: Math.round(rate * 10) / 10,
+      message: `Failure rate ${rate.toFixed(1)}% (${failures} of ${deliveries} deliveries) in the last ${formatWindow(
+        rule.window_minutes
+      )}${targetSuffix(rule)}; threshold ${rule.threshold}%`,
+    };
+  }
+
+  if (rule.rule_type === 'stale_pending') {
+    const ageMinutes = measurement.oldestUnsentAt
+      ? Math.max(0, Math.floor((now.getTime() - new Date(measurement.oldestUnsentAt).getTime()) / 60000))
+      : 0;
+    return {
+      breached: ageMinutes > rule.threshold,
+      value: ageMinutes,
+      message: measurement.oldestUnsentAt
+        ? `Oldest undelivered entry${targetSuffix(rule)} is ${ageMinutes} min old; threshold ${rule.threshold} min`
+        : `No undelivered entries${targetSuffix(rule)}`,
+    };
+  }
+
+  const sent = measurement.sent || 0;
+  return {
+    breached: sent === 0,
+    value: sent,
+    message: `${sent} deliveries sent in the last ${formatWindow(rule.window_minutes)}${targetSuffix(rule)}`,
+  };
+}
+
+/**
+ * Incident change for an evaluation, given the rule's open incident (if any)
+ */
+export function planAlertTransition(evaluation: AlertEvaluation, openAlert: Pick<OutboxAlert, 'status'> | null): AlertTransition {
+  if (evaluation.breached) {
+    return openAlert ? 'update' : 'fire';
+  }
+  return openAlert ? 'resolve' : 'none';
+}
+
+export interface AlertNotification {
+  subject: string;
+  text: string;
+  /** Webhook channel body (`text` keeps it readable in Slack-style incoming webhooks) */
+  payload: Record<string, unknown>;
+}
+
+export function buildAlertNotification(
+  rule: Pick<OutboxAlertRule, 'id' | 'name' | 'rule_type' | 'target'>,
+  alert: Pick<OutboxAlert, 'id' | 'message' | 'value' | 'fired_at' | 'resolved_at'>,
+  kind: AlertStatus
+): AlertNotification {
+  const subject =
+    kind === 'firing' ? `[Fine Diet] Outbox alert: ${rule.name}` : `[Fine Diet] Resolved: ${rule.name}`;
+  const text =
+    kind === 'firing'
+      ? `${rule.name} is firing. ${alert.message}.`
+      : `${rule.name} has resolved (firing since ${alert.fired_at}). ${alert.message}.`;
+
+  return {
+    subject,
+    text,
+    payload: {
+      text: `${subject}\n${text}`,
+      status: kind,
+      alert_id: alert.id,
+      rule_id: rule.id,
+      rule_name: rule.name,
+      rule_type: rule.rule_type,
+      target: rule.target,
+      value: alert.value,
+      message: alert.message,
+      fired_at: alert.fired_at,
+      resolved_at: alert.resolved_at,
+    },
+  };
+}
+
+function isNonNegativeNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+/** Error message if the channel target does not fit the channel */
+export function validateChannelTarget(channel: AlertChannel, channelTarget: string): string | null {
+  if (channel === 'email' && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(channelTarget)) {
+    return 'channel_target must be an email address';
+  }
+  if (channel === 'webhook' && !/^https?:\/\/\S+$/.test(channelTarget)) {
+    return 'channel_target must be an http(s) URL';
+  }
+  return null;
+}
+
+/**
+ * Validate an admin create/update body (partial: only the given fields)
+ */
+export function parseAlertRuleInput(body: unknown, options: { partial?: boolean } = {}): AlertRuleParseResult {
+  const raw = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+  const partial = options.partial === true;
+  const input: AlertRuleInput = {};
+
+  if (raw.name !== undefined || !partial) {
+    if (typeof raw.name !== 'string' || !raw.name.trim()) {
+      return { ok: false, error: 'name is required' };
+    }
+    input.name = raw.name.trim();
+  }
+
+  if (raw.rule_type !== undefined || !partial) {
+    if (!(ALERT_RULE_TYPES as readonly unknown[]).includes(raw.rule_type)) {
+      return { ok: false, error: `rule_type must be one of ${ALERT_RULE_TYPES.join(', ')}` };
+    }
+    input.rule_type = raw.rule_type as AlertRuleType;
+  }
+
+  if (raw.threshold !== undefined) {
+    if (!isNonNegativeNumber(raw.threshold)) {
+      return { ok: false, error: 'threshold must be a non-negative number' };
+    }
+    if (input.rule_type === 'failure_rate' && raw.threshold > 100) {
+      return { ok: false, error: 'threshold is a percentage (0-100) for failure_rate rules' };
+    }
+    input.threshold = raw.threshold;
+  } else if (!partial && input.rule_type !== 'zero_sends') {
+    return { ok: false, error: 'threshold is required' };
+  }
+
+  if (raw.window_minutes !== undefined) {
+    if (!Number.isInteger(raw.window_minutes) || (raw.window_minutes as number) < 1) {
+      return { ok: false, error: 'window_minutes must be a positive integer' };
+    }
+    if ((raw.window_minutes as number) > MAX_WINDOW_MINUTES) {
+      return { ok: false, error: `window_minutes must be at most ${MAX_WINDOW_MINUTES}` };
+    }
+    input.window_minutes = raw.window_minutes as number;
+  }
+
+  if (raw.min_deliveries !== undefined) {
+    if (!Number.isInteger(raw.min_deliveries) || (raw.min_deliveries as number) < 1) {
+      return { ok: false, error: 'min_deliveries must be a positive integer' };
+    }
+    input.min_deliveries = raw.min_deliveries as number;
+  }
+
+  if (raw.target !== undefined) {
+    if (raw.target !== null && typeof raw.target !== 'string') {
+      return { ok: false, error: 'target must be a string' };
+    }
+    input.target = raw.target && raw.target.trim() ? raw.target.trim() : null;
+  }
+
+  if (raw.channel !== undefined || !partial) {
+    if (!(ALERT_CHANNELS as readonly unknown[]).includes(raw.channel)) {
+      return { ok: false, error: "channel must be 'email' or 'webhook'" };
+    }
+    input.channel = raw.channel as AlertChannel;
+  }
+
+  if (raw.channel_target !== undefined || !partial) {
+    if (typeof raw.channel_target !== 'string' || !raw.channel_target.trim()) {
+      return { ok: false, error: 'channel_target is required' };
+    }
+    input.channel_target = raw.channel_target.trim();
+  }
+
+  // On update the API re-checks the pair against the stored rule
+  if (input.channel && input.channel_target) {
+    const channelError = validateChannelTarget(input.channel, input.channel_target);
+    if (channelError) {
+      return { ok: false, error: channelError };
+    }
+  }
+
+  if (raw.enabled !== undefined) {
+    if (typeof raw.enabled !== 'boolean') {
+      return { ok: false, error: 'enabled must be a boolean' };
+    }
+    input.enabled = raw.enabled;
+  }
+
+  return { ok: true, input };
+}
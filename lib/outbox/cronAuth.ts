@@ -0,0 +1,13 @@
+/**
+ * Cron authentication for scheduled routes (outbox, site content publish)
+ *
+ * Vercel Cron calls scheduled routes (vercel.json) with `Authorization: Bearer ${CRON_SECRET}`.
+ * Routes fall back to the admin role when the secret is absent or does not match.
+ */
+
+import type { NextApiRequest } from 'next';
+
+export function hasCronSecret(req: NextApiRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  return !!secret && req.headers.authorization === `Bearer ${secret}`;
+}
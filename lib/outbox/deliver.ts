@@ -0,0 +1,83 @@
+/**
+ * Webhook Outbox Delivery
+ *
+ * One HTTP POST of a webhook_outbox payload to its webhook_url, with a timeout.
+ * Signed per attempt (fresh timestamp) when signing secrets are given.
+ * Never throws: network errors and timeouts are returned as a failed DeliveryResult.
+ */
+
+import { signPayload } from '@/lib/webhooks/signature';
+import type { DeliveryResult } from './retryPolicy';
+
+/** Per-request timeout (n8n answers as soon as the workflow is accepted) */
+export const DEFAULT_DELIVERY_TIMEOUT_MS = 10000;
+
+/** Response bodies are truncated to this length (attempt history) */
+export const MAX_RESPONSE_BODY_LENGTH = 2000;
+/** ...and to this length in error messages */
+const MAX_ERROR_BODY_LENGTH = 300;
+
+export interface DeliverOptions {
+  timeoutMs?: number;
+  headers?: Record<string, string>;
+  /** Active secrets (lib/webhooks/signature.ts); unsigned if empty */
+  signingSecrets?: string[];
+  fetchImpl?: typeof fetch;
+}
+
+export async function deliverWebhook(
+  url: string,
+  payload: unknown,
+  options: DeliverOptions = {}
+): Promise<DeliveryResult> {
+  const { timeoutMs = DEFAULT_DELIVERY_TIMEOUT_MS, headers = {}, signingSecrets = [], fetchImpl = fetch } = options;
+  const body = JSON.stringify(payload);
+  const signatureHeaders = signingSecrets.length > 0 ? signPayload(body, signingSecrets) : {};
+  const startedAt = Date.now();
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetchImpl(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...headers,
+        ...signatureHeaders,
+      },
+      body,
+      signal: controller.signal,
+    });
+
+    let responseBody = '';
+    try {
+      responseBody = (await response.text()).slice(0, MAX_RESPONSE_BODY_LENGTH);
+    } catch {
+      // Body is informational only
+    }
+
+    if (response.ok) {
+      return { ok: true, statusCode: response.status, responseBody, durationMs: Date.now() - startedAt };
+    }
+
+    return {
+      ok: false,
+      statusCode: response.status,
+      responseBody,
+      error: `HTTP ${response.status}${responseBody ? `: ${responseBody.slice(0, MAX_ERROR_BODY_LENGTH)}` : ''}`,
+      durationMs: Date.now() - startedAt,
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      error: controller.signal.aborted
+        ? `Timeout after ${timeoutMs}ms`
+        : error instanceof Error
+          ? error.message
+          : 'Unknown delivery error',
+      durationMs: Date.now() - startedAt,
+    };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Webhook Destination Health
+ *
+ * Per-destination delivery counts for /api/admin/metrics/outbox, aggregated from the
+ * destination's webhook_outbox rows in the metrics window. Every destination gets an
+ * entry (zeros if it received no events), so a silent destination is visible too.
+ */
+
+import type { OutboxStatus } from './retryPolicy';
+
+export interface DestinationHealthRow {
+  destination_id: string;
+  status: OutboxStatus;
+  created_at: string;
+  sent_at: string | null;
+}
+
+export interface DestinationHealth {
+  destination_id: string;
+  slug: string;
+  name: string;
+  enabled: boolean;
+  total: number;
+  sent_count: number;
+  /** Failed attempts with a retry scheduled */
+  retrying_count: number;
+  dead_letter_count: number;
+  pending_count: number;
+  cancelled_count: number;
+  /** (retrying + dead letters) / (sent + retrying + dead letters), 0 when nothing was attempted */
+  fail_rate: number;
+  last_sent_at: string | null;
+  /** Oldest row still waiting for delivery (pending or retrying) */
+  oldest_unsent_at: string | null;
+}
+
+export function summarizeDestinationHealth(
+  destinations: Array<{ id: string; slug: string; name: string; enabled: boolean }>,
+  rows: DestinationHealthRow[]
+): DestinationHealth[] {
+  const byId: Record<string, DestinationHealth> = {};
+  const result = destinations.map((destination) => {
+    const health: DestinationHealth = {
+      destination_id: destination.id,
+      slug: destination.slug,
+      name: destination.name,
+      enabled: destination.enabled,
+      total: 0,
+      sent_count: 0,
+      retrying_count: 0,
+      dead_letter_count: 0,
+      pending_count: 0,
+      cancelled_count: 0,
+      fail_rate: 0,
+      last_sent_at: null,
+      oldest_unsent_at: null,
+    };
+    byId[destination.id] = health;
+    return health;
+  });
+
+  rows.forEach((row) => {
+    const health = byId[row.destination_id];
+    if (!health) return;
+    health.total++;
+
+    if (row.status === 'sent') {
+      health.sent_count++;
+      if (row.sent_at && (!health.last_sent_at || row.sent_at > health.last_sent_at)) {
+        health.last_sent_at = row.sent_at;
+      }
+      return;
+    }
+    if (row.status === 'failed') health.retrying_count++;
+    else if (row.status === 'dead_letter') health.dead_letter_count++;
+    else if (row.status === 'pending') health.pending_count++;
+    else if (row.status === 'cancelled') health.cancelled_count++;
+
+    if (
+      (row.status === 'pending' || row.status === 'failed') &&
+      (!health.oldest_unsent_at || row.created_at < health.oldest_unsent_at)
+    ) {
+      health.oldest_unsent_at = row.created_at;
+    }
+  });
+
+  result.forEach((health) => {
+    const failures = health.retrying_count + health.dead_letter_count;
+    const attempted = health.sent_count + failures;
+    health.fail_rate = attempted > 0 ? failures / attempted : 0;
+  });
+
+  return result;
+}
@@ -0,0 +1,206 @@
+/**
+ * Webhook Outbox Dispatcher (server)
+ *
+ * Claims due webhook_outbox rows (claim_webhook_outbox: FOR UPDATE SKIP LOCKED + lease),
+ * POSTs each payload (HMAC-signed, lib/webhooks/signature.ts), logs the attempt to webhook_outbox_attempts and records the
+ * outcome from lib/outbox/retryPolicy.ts.
+ *
+ * Results email rows (RESULTS_EMAIL_OUTBOX_TARGET) are not POSTed: they are sent in-app
+ * (lib/email/sendResultsEmail.ts) and go through the same attempt history and retry policy.
+ *
+ * Rows for admin-configured destinations (lib/webhooks/destinations.ts) are sent with that
+ * destination's headers and signed with its own secret instead of the n8n secrets; rows whose
+ * destination has since been disabled are cancelled rather than delivered.
+ *
+ * Safe to run concurrently (cron route, immediate dispatch after enqueue, manual runs):
+ * - A row is claimed by one run at a time
+ * - Completion updates only apply while this run still holds the lease and the row is
+ *   unsent, so a run that overran its lease or a mark-sent callback that already marked
+ *   the row sent is never overwritten
+ */
+
+import { supabaseAdmin } from '@/lib/supabaseServerClient';
+import { getSigningSecrets } from '@/lib/webhooks/signature';
+import { RESULTS_EMAIL_OUTBOX_TARGET } from '@/lib/email/resultsEmail';
+import { deliverWebhook, DEFAULT_DELIVERY_TIMEOUT_MS } from './deliver';
+import { getRetryPolicyFromEnv, planAttemptOutcome, type RetryPolicy } from './retryPolicy';
+
+/** Rows claimed per run */
+export const DEFAULT_BATCH_SIZE = 25;
+
+export interface DispatchOptions {
+  /** Only dispatch these rows (if due) */
+  ids?: string[];
+  limit?: number;
+  policy?: RetryPolicy;
+  timeoutMs?: number;
+  fetchImpl?: typeof fetch;
+}
+
+export interface DispatchSummary {
+  workerId: string;
+  claimed: number;
+  sent: number;
+  retried: number;
+  deadLettered: number;
+  /** Rows cancelled because their destination is disabled */
+  cancelled: number;
+  /** Rows whose result could not be recorded (lease lost or already completed) */
+  skipped: number;
+}
+
+interface ClaimedRow {
+  id: string;
+  submission_id: string | null;
+  destination_id: string | null;
+  target: string;
+  webhook_url: string;
+  payload: unknown;
+  attempts: number;
+}
+
+interface DestinationDelivery {
+  enabled: boolean;
+  headers: Record<string, string>;
+  signingSecrets: string[];
+}
+
+/**
+ * Delivery settings for the destinations referenced by a batch (keyed by destination id)
+ */
+async function loadDestinationDeliveries(rows: ClaimedRow[]): Promise<Record<string, DestinationDelivery>> {
+  const deliveries: Record<string, DestinationDelivery> = {};
+  const ids = rows.map((row) => row.destination_id).filter((id): id is string => !!id);
+  if (ids.length === 0) {
+    return deliveries;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('webhook_destinations')
+    .select('id, enabled, headers, signing_secret')
+    .in('id', ids);
+
+  if (error) {
+    throw new Error(`Database error: ${error.message}`);
+  }
+
+  (data || []).forEach(
+    (destination: { id: string; enabled: boolean; headers: Record<string, string> | null; signing_secret: string | null }) => {
+      deliveries[destination.id] = {
+        enabled: destination.enabled,
+        headers: destination.headers || {},
+        signingSecrets: destination.signing_secret ? [destination.signing_secret] : [],
+      };
+    }
+  );
+  return deliveries;
+}
+
+function createWorkerId(): string {
+  return `dispatch-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export async function dispatchOutbox(options: DispatchOptions = {}): Promise<DispatchSummary> {
+  const policy = options.policy || getRetryPolicyFromEnv();
+  const timeoutMs = options.timeoutMs ?? DEFAULT_DELIVERY_TIMEOUT_MS;
+  const workerId = createWorkerId();
+  const summary: DispatchSummary = { workerId, claimed: 0, sent: 0, retried: 0, deadLettered: 0, cancelled: 0, skipped: 0 };
+
+  // Lease covers sequential delivery of the whole batch plus slack
+  const limit = options.limit ?? DEFAULT_BATCH_SIZE;
+  const leaseSeconds = Math.ceil((limit * timeoutMs) / 1000) + 30;
+
+  const { data, error } = await supabaseAdmin.rpc('claim_webhook_outbox', {
+    p_worker: workerId,
+    p_limit: limit,
+    p_lease_seconds: leaseSeconds,
+    p_ids: options.ids && options.ids.length > 0 ? options.ids : null,
+  });
+
+  if (error) {
+    throw new Error(`Database error: ${error.message}`);
+  }
+
+  const rows = (data || []) as ClaimedRow[];
+  summary.claimed = rows.length;
+  const signingSecrets = getSigningSecrets();
+  const destinations = await loadDestinationDeliveries(rows);
+
+  for (const row of rows) {
+    const destination = row.destination_id ? destinations[row.destination_id] : undefined;
+
+    if (row.destination_id && (!destination || !destination.enabled)) {
+      const { data: cancelled, error: cancelError } = await supabaseAdmin
+        .from('webhook_outbox')
+        .update({ status: 'cancelled', locked_by: null, locked_until: null, error_message: 'Destination disabled' })
+        .eq('id', row.id)
+        .eq('locked_by', workerId)
+        .in('status', ['pending', 'failed'])
+        .select('id');
+
+      if (cancelError || !cancelled || cancelled.length === 0) {
+        summary.skipped++;
+      } else {
+        summary.cancelled++;
+      }
+      continue;
+    }
+
+    // Loaded on demand: the email sender pulls in results pack resolution and PDF rendering
+    const result =
+      row.target === RESULTS_EMAIL_OUTBOX_TARGET
+        ? await (await import('@/lib/email/sendResultsEmail')).deliverResultsEmail(row.payload)
+        : await deliverWebhook(row.webhook_url, row.payload, {
+            timeoutMs,
+            headers: destination ? destination.headers : undefined,
+            signingSecrets: destination ? destination.signingSecrets : signingSecrets,
+            fetchImpl: options.fetchImpl,
+          });
+    const update = planAttemptOutcome(row.attempts, result, new Date(), policy);
+
+    // Attempt history (best-effort - never blocks recording the outcome)
+    const { error: attemptError } = await supabaseAdmin.from('webhook_outbox_attempts').insert({
+      outbox_id: row.id,
+      attempt_number: row.attempts,
+      worker_id: workerId,
+      status_code: result.statusCode ?? null,
+      response_body: result.responseBody || null,
+      error_message: result.ok ? null : result.error || null,
+      duration_ms: result.durationMs,
+    });
+    if (attemptError) {
+      console.warn(`[outbox] Failed to record attempt history for ${row.id}:`, attemptError);
+    }
+
+    const { data: updated, error: updateError } = await supabaseAdmin
+      .from('webhook_outbox')
+      .update(update)
+      .eq('id', row.id)
+      .eq('locked_by', workerId)
+      .in('status', ['pending', 'failed'])
+      .select('id');
+
+    if (updateError) {
+      console.error(`[outbox] Failed to record attempt for ${row.id}:`, updateError);
+      summary.skipped++;
+      continue;
+    }
+    if (!updated || updated.length === 0) {
+      summary.skipped++;
+      continue;
+    }
+
+    if (update.status === 'sent') {
+      summary.sent++;
+    } else if (update.status === 'dead_letter') {
+      summary.deadLettered++;
+      console.error(
+        `[outbox] Dead-lettered ${row.target} for ${row.submission_id ? `submission ${row.submission_id}` : `row ${row.id}`}: ${update.error_message}`
+      );
+    } else {
+      summary.retried++;
+    }
+  }
+
+  return summary;
+}
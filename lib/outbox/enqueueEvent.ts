@@ -0,0 +1,96 @@
+/**
+ * Webhook Event Enqueue (server)
+ *
+ * Fans an app event out to every enabled webhook destination subscribed to its type:
+ * one webhook_outbox row per destination with the destination's rendered payload, then an
+ * immediate (non-awaited) dispatch of those rows. The dispatcher cron retries whatever
+ * that first attempt does not deliver.
+ *
+ * Idempotent per (destination, event type, event key): enqueueing the same event twice
+ * (client retries, duplicate submits) adds no rows.
+ *
+ * Never throws - event sources (submit, email capture, waitlist, people) must not fail
+ * because a destination could not be queued.
+ */
+
+import { supabaseAdmin } from '@/lib/supabaseServerClient';
+import {
+  buildEventEnvelope,
+  destinationTarget,
+  renderPayloadTemplate,
+  type WebhookDestination,
+  type WebhookEventType,
+} from '@/lib/webhooks/destinations';
+import { dispatchOutbox } from './dispatcher';
+
+/** Immediate delivery is best-effort; keep it short so serverless handlers are not held open */
+const IMMEDIATE_DISPATCH_TIMEOUT_MS = 2500;
+
+export interface EnqueueEventOptions {
+  submissionId?: string | null;
+  /** Skip the immediate delivery attempt (rows wait for the dispatcher cron) */
+  dispatch?: boolean;
+}
+
+/**
+ * Queue an event for all subscribed destinations. Returns the ids of the rows created.
+ */
+export async function enqueueWebhookEvent(
+  eventType: WebhookEventType,
+  eventKey: string,
+  data: Record<string, unknown>,
+  options: EnqueueEventOptions = {}
+): Promise<string[]> {
+  try {
+    const { data: destinations, error: destinationsError } = await supabaseAdmin
+      .from('webhook_destinations')
+      .select('id, slug, url, payload_template')
+      .eq('enabled', true)
+      .contains('event_types', [eventType]);
+
+    if (destinationsError) {
+      console.error(`[outbox] Failed to load webhook destinations for ${eventType}:`, destinationsError);
+      return [];
+    }
+    if (!destinations || destinations.length === 0) {
+      return [];
+    }
+
+    const envelope = buildEventEnvelope(eventType, eventKey, data);
+    const rows = (destinations as Pick<WebhookDestination, 'id' | 'slug' | 'url' | 'payload_template'>[]).map(
+      (destination) => ({
+        submission_id: options.submissionId || null,
+        destination_id: destination.id,
+        target: destinationTarget(destination.slug),
+        event_type: eventType,
+        event_key: eventKey,
+        webhook_url: destination.url,
+        payload: renderPayloadTemplate(destination.payload_template, envelope),
+        status: 'pending',
+        attempts: 0,
+      })
+    );
+
+    const { data: inserted, error: insertError } = await supabaseAdmin
+      .from('webhook_outbox')
+      .upsert(rows, { onConflict: 'destination_id,event_type,event_key', ignoreDuplicates: true })
+      .select('id');
+
+    if (insertError) {
+      console.error(`[outbox] Failed to enqueue ${eventType} for webhook destinations:`, insertError);
+      return [];
+    }
+
+    const ids = (inserted || []).map((row: { id: string }) => row.id);
+    if (ids.length > 0 && options.dispatch !== false) {
+      // Do not await - the caller's response should not wait on third-party endpoints
+      dispatchOutbox({ ids, limit: ids.length, timeoutMs: IMMEDIATE_DISPATCH_TIMEOUT_MS }).catch((error) => {
+        console.error(`[outbox] ${eventType} dispatch error (non-blocking):`, error);
+      });
+    }
+    return ids;
+  } catch (error) {
+    console.error(`[outbox] Failed to enqueue ${eventType}:`, error);
+    return [];
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Webhook Outbox Manual Actions
+ *
+ * Validation and row updates for the admin outbox page (POST /api/admin/outbox/actions):
+ *
+ * - Replay: re-queue rows for immediate delivery with a fresh retry budget
+ *   (attempt history is kept in webhook_outbox_attempts)
+ * - Cancel: stop retrying rows that are still pending or failed
+ *
+ * Targets are either explicit ids or a filter (status / target / created_at range),
+ * e.g. "every dead letter since the n8n outage". Pure functions only.
+ */
+
+import type { OutboxStatus } from './retryPolicy';
+
+export const OUTBOX_STATUSES: OutboxStatus[] = ['pending', 'sent', 'failed', 'dead_letter', 'cancelled'];
+
+/** Rows that may be replayed (pending rows are already queued) */
+export const REPLAYABLE_STATUSES: OutboxStatus[] = ['failed', 'dead_letter', 'cancelled', 'sent'];
+
+/** Rows that may be cancelled */
+export const CANCELLABLE_STATUSES: OutboxStatus[] = ['pending', 'failed'];
+
+/** Most rows a single batch action may touch */
+export const MAX_BATCH_ACTION_SIZE = 1000;
+
+export type OutboxAction = 'replay' | 'cancel';
+
+export interface OutboxFilter {
+  status?: OutboxStatus;
+  target?: string;
+  /** created_at >= createdFrom (ISO) */
+  createdFrom?: string;
+  /** created_at < createdTo (ISO) */
+  createdTo?: string;
+}
+
+export interface OutboxActionRequest {
+  action: OutboxAction;
+  ids?: string[];
+  filter?: OutboxFilter;
+}
+
+export type ParseResult =
+  | { ok: true; request: OutboxActionRequest }
+  | { ok: false; error: string };
+
+function isIsoDate(value: unknown): value is string {
+  return typeof value === 'string' && !isNaN(new Date(value).getTime());
+}
+
+/**
+ * Validate an action request body. Exactly one of ids or filter is required.
+ */
+export function parseOutboxActionRequest(body: unknown): ParseResult {
+  const input = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+
+  if (input.action !== 'replay' && input.action !== 'cancel') {
+    return { ok: false, error: "action must be 'replay' or 'cancel'" };
+  }
+  const action = input.action;
+
+  const hasIds = input.ids !== undefined;
+  const hasFilter = input.filter !== undefined;
+  if (hasIds === hasFilter) {
+    return { ok: false, error: 'Provide either ids or filter' };
+  }
+
+  if (hasIds) {
+    const ids = input.ids;
+    if (!Array.isArray(ids) || ids.length === 0 || !ids.every((id) => typeof id === 'string' && id)) {
+      return { ok: false, error: 'ids must be a non-empty array of strings' };
+    }
+    if (ids.length > MAX_BATCH_ACTION_SIZE) {
+      return { ok: false, error: `At most ${MAX_BATCH_ACTION_SIZE} ids per request` };
+    }
+    return { ok: true, request: { action, ids: ids as string[] } };
+  }
+
+  const rawFilter = (input.filter && typeof input.filter === 'object' ? input.filter : null) as Record<
+    string,
+    unknown
+  > | null;
+  if (!rawFilter) {
+    return { ok: false, error: 'filter must be an object' };
+  }
+
+  const filter: OutboxFilter = {};
+  if (rawFilter.status !== undefined) {
+    if (!OUTBOX_STATUSES.includes(rawFilter.status as OutboxStatus)) {
+      return { ok: false, error: `Invalid status: ${String(rawFilter.status)}` };
+    }
+    filter.status = rawFilter.status as OutboxStatus;
+  }
+  if (rawFilter.target !== undefined) {
+    if (typeof rawFilter.target !== 'string' || !rawFilter.target) {
+      return { ok: false, error: 'target must be a string' };
+    }
+    filter.target = rawFilter.target;
+  }
+  for (const key of ['createdFrom', 'createdTo'] as const) {
+    if (rawFilter[key] !== undefined) {
+      if (!isIsoDate(rawFilter[key])) {
+        return { ok: false, error: `${key} must be a date` };
+      }
+      filter[key] = new Date(rawFilter[key] as string).toISOString();
+    }
+  }
+
+  // A batch must be scoped by status - "replay everything" is never what an admin means
+  if (!filter.status) {
+    return { ok: false, error: 'Batch actions require a status filter' };
+  }
+  const allowed = action === 'replay' ? REPLAYABLE_STATUSES : CANCELLABLE_STATUSES;
+  if (!allowed.includes(filter.status)) {
+    return { ok: false, error: `Cannot ${action} rows with status ${filter.status}` };
+  }
+
+  return { ok: true, request: { action, filter } };
+}
+
+/** Statuses an action may apply to (intersected with the filter status, if any) */
+export function getActionableStatuses(action: OutboxAction, filter?: OutboxFilter): OutboxStatus[] {
+  const allowed = action === 'replay' ? REPLAYABLE_STATUSES : CANCELLABLE_STATUSES;
+  return filter?.status ? allowed.filter((status) => status === filter.status) : allowed;
+}
+
+/**
+ * Row update for a replay: due now, fresh retry budget, lease and errors cleared
+ */
+export function buildReplayUpdate(now: Date): Record<string, unknown> {
+  return {
+    status: 'pending',
+    attempts: 0,
+    next_attempt_at: now.toISOString(),
+    locked_by: null,
+    locked_until: null,
+    error_message: null,
+    dead_lettered_at: null,
+    sent_at: null,
+  };
+}
+
+/**
+ * Row update for a cancel (the dispatcher's completion guard ignores cancelled rows)
+ */
+export function buildCancelUpdate(actorEmail: string | null): Record<string, unknown> {
+  return {
+    status: 'cancelled',
+    locked_by: null,
+    locked_until: null,
+    error_message: `Cancelled by ${actorEmail || 'admin'}`,
+  };
+}
@@ -0,0 +1,112 @@
+/**
+ * Webhook Outbox Retry Policy
+ *
+ * Decides what happens to a webhook_outbox row after a delivery attempt:
+ *
+ * - 2xx → sent
+ * - Failure with attempts left → failed, retried at next_attempt_at
+ *   (exponential backoff with "equal jitter": half the delay is fixed, half random,
+ *   so retries after an n8n outage don't all land at once)
+ * - Failure on the last attempt → dead_letter (no further retries)
+ *
+ * Pure functions only (claiming and updates live in lib/outbox/dispatcher.ts).
+ */
+
+export type OutboxStatus = 'pending' | 'sent' | 'failed' | 'dead_letter' | 'cancelled';
+
+export interface RetryPolicy {
+  /** Attempts before a row is dead-lettered */
+  maxAttempts: number;
+  /** Delay before the first retry */
+  baseDelayMs: number;
+  /** Upper bound for any single delay */
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 8,
+  baseDelayMs: 30 * 1000,
+  maxDelayMs: 6 * 60 * 60 * 1000,
+};
+
+export interface DeliveryResult {
+  ok: boolean;
+  /** HTTP status (undefined on network error or timeout) */
+  statusCode?: number;
+  /** Response body (truncated) */
+  responseBody?: string;
+  error?: string;
+  durationMs: number;
+}
+
+/**
+ * Retry delay after the given (1-based) failed attempt
+ *
+ * @param random - Source of randomness in [0, 1) (injectable for tests)
+ */
+export function computeBackoffMs(
+  attempt: number,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  random: () => number = Math.random
+): number {
+  const exponent = Math.max(0, attempt - 1);
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, exponent));
+  const half = ceiling / 2;
+  return Math.round(half + random() * half);
+}
+
+/**
+ * Read the retry policy from env (OUTBOX_MAX_ATTEMPTS, OUTBOX_BASE_DELAY_MS, OUTBOX_MAX_DELAY_MS)
+ */
+export function getRetryPolicyFromEnv(env: Record<string, string | undefined> = process.env): RetryPolicy {
+  const read = (name: string, fallback: number) => {
+    const value = parseInt(env[name] || '', 10);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+  };
+  return {
+    maxAttempts: read('OUTBOX_MAX_ATTEMPTS', DEFAULT_RETRY_POLICY.maxAttempts),
+    baseDelayMs: read('OUTBOX_BASE_DELAY_MS', DEFAULT_RETRY_POLICY.baseDelayMs),
+    maxDelayMs: read('OUTBOX_MAX_DELAY_MS', DEFAULT_RETRY_POLICY.maxDelayMs),
+  };
+}
+
+/**
+ * Column updates for a row after an attempt
+ *
+ * @param attempts - Attempt count including this one (claiming already incremented it)
+ */
+export function planAttemptOutcome(
+  attempts: number,
+  result: DeliveryResult,
+  now: Date,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  random: () => number = Math.random
+): Record<string, unknown> {
+  const base = {
+    locked_by: null,
+    locked_until: null,
+    last_status_code: result.statusCode ?? null,
+  };
+
+  if (result.ok) {
+    return { ...base, status: 'sent', sent_at: now.toISOString(), error_message: null };
+  }
+
+  const errorMessage = result.error || `HTTP ${result.statusCode ?? 'error'}`;
+
+  if (attempts >= policy.maxAttempts) {
+    return {
+      ...base,
+      status: 'dead_letter',
+      dead_lettered_at: now.toISOString(),
+      error_message: `${errorMessage} (gave up after ${attempts} attempts)`,
+    };
+  }
+
+  return {
+    ...base,
+    status: 'failed',
+    error_message: errorMessage,
+    next_attempt_at: new Date(now.getTime() + computeBackoffMs(attempts, policy, random)).toISOString(),
+  };
+}
@@ -0,0 +1,103 @@
+/**
+ * Tests for the results PDF document and renderer
+ */
+
+import type { ResultsPack } from '@/lib/assessments/results/loadResultsPack';
+import { buildResultsPdfDocument, DEFAULT_PDF_BRANDING, pdfCacheKey, type PdfBlock } from '../resultsPdfDocument';
+import { renderResultsPdf } from '../renderResultsPdf';
+
+const options = { siteUrl: 'https://myfinediet.com/', subtitle: 'Gut Check Results' };
+
+const flowPack: ResultsPack = {
+  label: 'Level 2: Reactive Gut',
+  summary: 'Legacy summary',
+  keyPatterns: ['Pattern'],
+  firstFocusAreas: ['Legacy focus'],
+  methodPositioning: 'Legacy method',
+  flow: {
+    page1: {
+      headline: 'Your gut is reacting',
+      body: ['First paragraph'],
+      snapshotTitle: 'What We See',
+      snapshotBullets: ['Bloating after meals', ''],
+      meaningBody: 'It often means...',
+    },
+    page2: {
+      headline: 'First Steps',
+      stepBullets: ['Eat slowly', 'Hydrate'],
+      videoCtaLabel: 'Watch the video',
+      videoAssetUrl: '/videos/first-steps',
+    },
+    page3: {
+      problemHeadline: 'Why it keeps happening',
+      problemBody: ['Problem paragraph'],
+      tryTitle: 'What you tried',
+      tryBullets: ['Cutting foods'],
+      mechanismTitle: 'The mechanism',
+      mechanismBodyTop: 'Top',
+      mechanismPills: ['Digestion', 'Stress', 'Sleep'],
+      mechanismBodyBottom: 'Bottom',
+      methodTitle: 'The method',
+      methodBody: ['Method paragraph'],
+      methodLearnTitle: "What you'll learn",
+      methodLearnBullets: ['Sequencing', 'Timing'],
+      methodCtaLabel: 'Watch the method',
+      methodCtaUrl: '/method',
+    },
+  },
+};
+
+function blocksOf(pack: ResultsPack): PdfBlock[] {
+  return buildResultsPdfDocument(pack, options).blocks;
+}
+
+describe('buildResultsPdfDocument', () => {
+  it('should cover all three flow pages', () => {
+    const blocks = blocksOf(flowPack);
+
+    expect(blocks.filter((block) => block.type === 'pageBreak')).toHaveLength(2);
+    expect(blocks).toContainEqual({ type: 'heading', text: 'Your gut is reacting', level: 1 });
+    expect(blocks).toContainEqual({ type: 'bullets', items: ['Bloating after meals'] });
+    expect(blocks).toContainEqual({ type: 'bullets', items: ['Eat slowly', 'Hydrate'] });
+    expect(blocks).toContainEqual({ type: 'pills', items: ['Digestion', 'Stress', 'Sleep'] });
+    expect(blocks).toContainEqual({ type: 'bullets', items: ['Sequencing', 'Timing'] });
+  });
+
+  it('should make CTA links absolute', () => {
+    const ctas = blocksOf(flowPack).filter((block) => block.type === 'cta');
+    expect(ctas).toEqual([
+      { type: 'cta', label: 'Watch the video', url: 'https://myfinediet.com/videos/first-steps' },
+      { type: 'cta', label: 'Watch the method', url: 'https://myfinediet.com/method' },
+    ]);
+  });
+
+  it('should fall back to core fields for legacy packs', () => {
+    const legacy: ResultsPack = { ...flowPack, flow: undefined };
+    const blocks = blocksOf(legacy);
+
+    expect(blocks).toContainEqual({ type: 'paragraph', text: 'Legacy summary' });
+    expect(blocks).toContainEqual({ type: 'bullets', items: ['Pattern'] });
+    expect(blocks).toContainEqual({ type: 'bullets', items: ['Legacy focus'] });
+    expect(blocks).toContainEqual({ type: 'paragraph', text: 'Legacy method' });
+    expect(blocks.some((block) => block.type === 'pills')).toBe(false);
+  });
+});
+
+describe('pdfCacheKey', () => {
+  it('should be stable for the same inputs and change with content or logo', () => {
+    const key = pdfCacheKey('sub-1', 'hash-a', { logoKey: null });
+
+    expect(key).toMatch(/^sub-1\/[0-9a-f]{32}\.pdf$/);
+    expect(pdfCacheKey('sub-1', 'hash-a', { logoKey: null })).toBe(key);
+    expect(pdfCacheKey('sub-1', 'hash-b', { logoKey: null })).not.toBe(key);
+    expect(pdfCacheKey('sub-1', 'hash-a', { logoKey: 'asset-1' })).not.toBe(key);
+  });
+});
+
+describe('renderResultsPdf', () => {
+  it('should render a PDF without a logo', async () => {
+    const pdf = await renderResultsPdf(buildResultsPdfDocument(flowPack, options), DEFAULT_PDF_BRANDING);
+
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+  });
+});
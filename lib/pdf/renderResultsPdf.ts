@@ -0,0 +1,196 @@
+/**
+ * Results PDF Renderer
+ *
+ * Draws a ResultsPdfDocument with PDFKit: branded header (logo or site name) on every page,
+ * one style per block type, and a footer with the disclaimer and page numbers.
+ */
+
+import PDFDocument from 'pdfkit';
+import type { PdfBlock, PdfBranding, ResultsPdfDocument } from './resultsPdfDocument';
+
+const MARGIN = 54;
+const HEADER_HEIGHT = 48;
+const FOOTER_HEIGHT = 40;
+const LOGO_HEIGHT = 24;
+
+/** Start headings on a new page rather than leave them at the bottom with no content */
+const MIN_SPACE_AFTER_HEADING = 90;
+
+export function renderResultsPdf(document: ResultsPdfDocument, branding: PdfBranding): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'LETTER',
+      margins: { top: MARGIN + HEADER_HEIGHT, bottom: MARGIN + FOOTER_HEIGHT, left: MARGIN, right: MARGIN },
+      bufferPages: true,
+      info: { Title: `${document.title} • ${branding.siteName}`, Author: branding.siteName },
+    });
+
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const contentWidth = doc.page.width - MARGIN * 2;
+    const bottomLimit = () => doc.page.height - doc.page.margins.bottom;
+
+    const drawHeader = () => {
+      const top = MARGIN;
+      let drewLogo = false;
+      if (branding.logo) {
+        try {
+          doc.image(branding.logo, MARGIN, top, { height: LOGO_HEIGHT });
+          drewLogo = true;
+        } catch (error) {
+          // Unsupported image data; fall back to the site name
+          console.warn('PDF logo could not be drawn:', error instanceof Error ? error.message : error);
+        }
+      }
+      if (!drewLogo) {
+        doc.font('Helvetica-Bold').fontSize(16).fillColor(branding.colors.primary).text(branding.siteName, MARGIN, top + 4, {
+          lineBreak: false,
+        });
+      }
+      doc.font('Helvetica').fontSize(9).fillColor(branding.colors.muted).text(document.subtitle, MARGIN, top + 8, {
+        width: contentWidth,
+        align: 'right',
+        lineBreak: false,
+      });
+      doc
+        .moveTo(MARGIN, top + LOGO_HEIGHT + 10)
+        .lineTo(doc.page.width - MARGIN, top + LOGO_HEIGHT + 10)
+        .lineWidth(1)
+        .strokeColor(branding.colors.accent)
+        .stroke();
+      doc.x = MARGIN;
+      doc.y = doc.page.margins.top;
+    };
+
+    const ensureSpace = (height: number) => {
+      if (doc.y + height > bottomLimit()) {
+        doc.addPage();
+      }
+    };
+
+    const isAtPageTop = () => doc.y <= doc.page.margins.top + 1;
+
+    const drawPills = (items: string[]) => {
+      const paddingX = 10;
+      const height = 22;
+      const gap = 8;
+      doc.font('Helvetica-Bold').fontSize(10);
+      let x = MARGIN;
+      ensureSpace(height);
+      let y = doc.y;
+      items.forEach((item) => {
+        const width = Math.min(doc.widthOfString(item) + paddingX * 2, contentWidth);
+        if (x + width > MARGIN + contentWidth) {
+          x = MARGIN;
+          y += height + gap;
+          if (y + height > bottomLimit()) {
+            doc.addPage();
+            y = doc.y;
+          }
+        }
+        doc.roundedRect(x, y, width, height, height / 2).fill(branding.colors.pillBackground);
+        doc.fillColor(branding.colors.text).text(item, x + paddingX, y + 6, { width: width - paddingX * 2, lineBreak: false, ellipsis: true });
+        x += width + gap;
+      });
+      doc.x = MARGIN;
+      doc.y = y + height + gap;
+    };
+
+    const drawCta = (label: string, url: string) => {
+      const height = 30;
+      doc.font('Helvetica-Bold').fontSize(11);
+      const width = Math.min(doc.widthOfString(label) + 36, contentWidth);
+      ensureSpace(height + 24);
+      doc.moveDown(0.5);
+      const y = doc.y;
+      doc.roundedRect(MARGIN, y, width, height, 6).fill(branding.colors.primary);
+      doc.fillColor('#ffffff').text(label, MARGIN, y + 10, { width, align: 'center', lineBreak: false });
+      doc.link(MARGIN, y, width, height, url);
+      doc.font('Helvetica').fontSize(8).fillColor(branding.colors.muted).text(url, MARGIN, y + height + 4, {
+        width: contentWidth,
+        link: url,
+      });
+      doc.x = MARGIN;
+      doc.moveDown(1);
+    };
+
+    const drawBlock = (block: PdfBlock) => {
+      switch (block.type) {
+        case 'pageBreak':
+          if (!isAtPageTop()) doc.addPage();
+          return;
+        case 'eyebrow':
+          doc.font('Helvetica-Bold').fontSize(9).fillColor(branding.colors.accent).text(block.text.toUpperCase(), {
+            characterSpacing: 1,
+          });
+          doc.moveDown(0.4);
+          return;
+        case 'heading': {
+          const size = block.level === 1 ? 22 : block.level === 2 ? 15 : 12;
+          ensureSpace(MIN_SPACE_AFTER_HEADING);
+          if (!isAtPageTop() && block.level !== 1) doc.moveDown(0.6);
+          doc
+            .font('Helvetica-Bold')
+            .fontSize(size)
+            .fillColor(block.level === 3 ? branding.colors.text : branding.colors.primary)
+            .text(block.text, { width: contentWidth });
+          doc.moveDown(block.level === 1 ? 0.6 : 0.4);
+          return;
+        }
+        case 'paragraph':
+          doc
+            .font(block.emphasis ? 'Helvetica-Oblique' : 'Helvetica')
+            .fontSize(11)
+            .fillColor(block.emphasis ? branding.colors.muted : branding.colors.text)
+            .text(block.text, { width: contentWidth, lineGap: 3 });
+          doc.moveDown(0.7);
+          return;
+        case 'bullets':
+          doc.font('Helvetica').fontSize(11).fillColor(branding.colors.text);
+          block.items.forEach((item) => {
+            doc.text(`•  ${item}`, { width: contentWidth - 14, indent: 0, lineGap: 3, continued: false });
+            doc.moveDown(0.35);
+          });
+          doc.moveDown(0.4);
+          return;
+        case 'pills':
+          drawPills(block.items);
+          return;
+        case 'cta':
+          drawCta(block.label, block.url);
+          return;
+      }
+    };
+
+    try {
+      drawHeader();
+      doc.on('pageAdded', drawHeader);
+
+      document.blocks.forEach(drawBlock);
+
+      // Footer on every page: disclaimer and page numbers
+      const range = doc.bufferedPageRange();
+      for (let i = range.start; i < range.start + range.count; i++) {
+        doc.switchToPage(i);
+        // Drawing below the bottom margin would otherwise start a new page
+        doc.page.margins.bottom = 0;
+        const footerTop = doc.page.height - MARGIN - FOOTER_HEIGHT + 12;
+        doc.font('Helvetica-Oblique').fontSize(8).fillColor(branding.colors.muted).text(document.disclaimer, MARGIN, footerTop, {
+          width: contentWidth - 60,
+        });
+        doc.font('Helvetica').fontSize(8).text(`${i - range.start + 1} / ${range.count}`, MARGIN, footerTop, {
+          width: contentWidth,
+          align: 'right',
+          lineBreak: false,
+        });
+      }
+
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
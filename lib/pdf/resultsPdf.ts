@@ -0,0 +1,161 @@
+/**
+ * Results PDF (server)
+ *
+ * Builds, renders and caches the results PDF for a submission. Rendered files are stored in
+ * the private 'results-pdfs' Storage bucket under pdfCacheKey(submission, pack content hash,
+ * logo), so repeat downloads and email attachments reuse the same file until the pinned pack
+ * content, the logo or the renderer changes.
+ *
+ * Branding: site name from global site content, logo from the newest PNG/JPEG media asset
+ * tagged 'pdf-logo' (the SVG site logo cannot be drawn by PDFKit).
+ */
+
+import { supabaseAdmin } from '@/lib/supabaseServerClient';
+import { getGlobalContent } from '@/lib/contentApi';
+import { getAssessmentLabel } from '@/lib/assessments/registry';
+import { getSiteUrl } from '@/lib/consent/emailConsent';
+import { hashPackJson } from '@/lib/resultsPack/validateResultsPack';
+import type { ResolveResultsPackResult } from '@/lib/assessments/results/resolveResultsPack';
+import type { ResultsPack } from '@/lib/assessments/results/loadResultsPack';
+import { buildResultsPdfDocument, DEFAULT_PDF_BRANDING, pdfCacheKey, type PdfBranding } from './resultsPdfDocument';
+import { renderResultsPdf } from './renderResultsPdf';
+
+export const RESULTS_PDF_BUCKET = 'results-pdfs';
+export const PDF_LOGO_TAG = 'pdf-logo';
+
+const BRANDING_TTL_MS = 5 * 60 * 1000;
+const LOGO_FETCH_TIMEOUT_MS = 3000;
+
+let brandingCache: { branding: PdfBranding; timestamp: number } | null = null;
+
+export function isPdfChannelEnabled(pack: ResultsPack): boolean {
+  return pack.channels?.pdf?.enabled !== false;
+}
+
+async function fetchLogo(url: string): Promise<Buffer | null> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), LOGO_FETCH_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    if (!response.ok) {
+      console.warn(`PDF logo fetch failed with status ${response.status}`);
+      return null;
+    }
+    return Buffer.from(await response.arrayBuffer());
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Site branding for the PDF (cached for BRANDING_TTL_MS). Never throws: any lookup failure
+ * falls back to DEFAULT_PDF_BRANDING for that part.
+ */
+export async function loadPdfBranding(): Promise<PdfBranding> {
+  if (brandingCache && Date.now() - brandingCache.timestamp < BRANDING_TTL_MS) {
+    return brandingCache.branding;
+  }
+
+  const branding: PdfBranding = { ...DEFAULT_PDF_BRANDING };
+
+  try {
+    const global = await getGlobalContent();
+    if (global.siteName) {
+      branding.siteName = global.siteName;
+    }
+  } catch (error) {
+    console.warn('Failed to load site name for PDF:', error instanceof Error ? error.message : error);
+  }
+
+  try {
+    const { data: asset, error } = await supabaseAdmin
+      .from('media_assets')
+      .select('id, public_url')
+      .contains('tags', [PDF_LOGO_TAG])
+      .in('mime_type', ['image/png', 'image/jpeg'])
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`);
+    }
+    if (asset?.public_url) {
+      const logo = await fetchLogo(asset.public_url);
+      if (logo) {
+        branding.logo = logo;
+        branding.logoKey = asset.id;
+      }
+    }
+  } catch (error) {
+    console.warn('Failed to load PDF logo:', error instanceof Error ? error.message : error);
+  }
+
+  brandingCache = { branding, timestamp: Date.now() };
+  return branding;
+}
+
+async function readCachedPdf(key: string): Promise<Buffer | null> {
+  const { data, error } = await supabaseAdmin.storage.from(RESULTS_PDF_BUCKET).download(key);
+  if (error || !data) {
+    // Not found is the normal miss
+    return null;
+  }
+  return Buffer.from(await data.arrayBuffer());
+}
+
+async function writeCachedPdf(key: string, pdf: Buffer): Promise<void> {
+  const { error } = await supabaseAdmin.storage.from(RESULTS_PDF_BUCKET).upload(key, pdf, {
+    contentType: 'application/pdf',
+    upsert: true,
+  });
+  if (error) {
+    console.warn('Failed to cache results PDF (non-blocking):', error.message);
+  }
+}
+
+export interface GetResultsPdfInput {
+  submissionId: string;
+  assessmentType: string;
+  resolved: ResolveResultsPackResult;
+  /** Render without reading or writing the cache (editor previews) */
+  skipCache?: boolean;
+}
+
+export type GetResultsPdfResult =
+  | { status: 'disabled' }
+  | { status: 'ok'; pdf: Buffer; cached: boolean; cacheKey: string };
+
+/**
+ * The results PDF for a submission and its resolved pack, from cache when possible
+ */
+export async function getResultsPdf(input: GetResultsPdfInput): Promise<GetResultsPdfResult> {
+  const { pack } = input.resolved;
+  if (!isPdfChannelEnabled(pack)) {
+    return { status: 'disabled' };
+  }
+
+  const branding = await loadPdfBranding();
+  // File-sourced packs have no stored hash
+  const contentHash = input.resolved.contentHash || hashPackJson(pack);
+  const cacheKey = pdfCacheKey(input.submissionId, contentHash, branding);
+
+  if (!input.skipCache) {
+    const cachedPdf = await readCachedPdf(cacheKey);
+    if (cachedPdf) {
+      return { status: 'ok', pdf: cachedPdf, cached: true, cacheKey };
+    }
+  }
+
+  const document = buildResultsPdfDocument(pack, {
+    siteUrl: getSiteUrl(),
+    subtitle: `${getAssessmentLabel(input.assessmentType)} Results`,
+  });
+  const pdf = await renderResultsPdf(document, branding);
+
+  if (!input.skipCache) {
+    await writeCachedPdf(cacheKey, pdf);
+  }
+
+  return { status: 'ok', pdf, cached: false, cacheKey };
+}
@@ -0,0 +1,196 @@
+/**
+ * Results PDF Document
+ *
+ * Turns a resolved results pack into the block list the PDF renderer draws
+ * (lib/pdf/renderResultsPdf.ts), one section per results flow page. Keeping the layout here
+ * as data means copy changes never touch drawing code, and every FlowV2Config field has a
+ * place in the PDF. Legacy packs (no flow v2) use the core fields.
+ *
+ * Pure functions only.
+ */
+
+import { createHash } from 'crypto';
+import type { FlowLegacyConfig, FlowV2Config, ResultsPack } from '@/lib/assessments/results/loadResultsPack';
+import { theme } from '@/styles/theme';
+
+/** Bump when the document or drawing changes, so cached PDFs are regenerated */
+export const PDF_RENDERER_VERSION = 2;
+
+export const PDF_DISCLAIMER =
+  'This assessment is for educational purposes only and is not a medical diagnosis. It does not replace personalized medical advice.';
+
+export type PdfBlock =
+  | { type: 'eyebrow'; text: string }
+  | { type: 'heading'; text: string; level: 1 | 2 | 3 }
+  | { type: 'paragraph'; text: string; emphasis?: boolean }
+  | { type: 'bullets'; items: string[] }
+  | { type: 'pills'; items: string[] }
+  | { type: 'cta'; label: string; url: string }
+  | { type: 'pageBreak' };
+
+export interface ResultsPdfDocument {
+  title: string;
+  subtitle: string;
+  blocks: PdfBlock[];
+  disclaimer: string;
+}
+
+export interface PdfBranding {
+  siteName: string;
+  /** PNG or JPEG bytes (pdfkit cannot draw SVG); the site name is used when missing */
+  logo: Buffer | null;
+  /** Identifies the logo in cache keys (media asset id) */
+  logoKey: string | null;
+  colors: {
+    primary: string;
+    accent: string;
+    text: string;
+    muted: string;
+    pillBackground: string;
+  };
+}
+
+export const DEFAULT_PDF_BRANDING: PdfBranding = {
+  siteName: 'Fine Diet',
+  logo: null,
+  logoKey: null,
+  colors: {
+    primary: theme.colors.brand[900],
+    accent: theme.colors.dark_accent[900],
+    text: theme.colors.neutral[900],
+    muted: theme.colors.neutral[500],
+    pillBackground: theme.colors.dark_accent[100],
+  },
+};
+
+export interface ResultsPdfOptions {
+  siteUrl: string;
+  /** e.g. "Gut Check Results" */
+  subtitle: string;
+}
+
+function strings(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item) => typeof item === 'string' && item.trim() !== '') : [];
+}
+
+function text(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() !== '' ? value : null;
+}
+
+function absoluteUrl(url: string, siteUrl: string): string {
+  return /^https?:\/\//i.test(url) ? url : `${siteUrl.replace(/\/+$/, '')}${url.startsWith('/') ? '' : '/'}${url}`;
+}
+
+/**
+ * Drop missing optional copy (null) and empty lists
+ */
+function compact(blocks: Array<PdfBlock | null>): PdfBlock[] {
+  return blocks.filter((block): block is PdfBlock => {
+    if (!block) return false;
+    if (block.type === 'bullets' || block.type === 'pills') return block.items.length > 0;
+    return true;
+  });
+}
+
+function heading(value: unknown, level: 1 | 2 | 3): PdfBlock | null {
+  const content = text(value);
+  return content ? { type: 'heading', text: content, level } : null;
+}
+
+function paragraphs(value: unknown, emphasis?: boolean): PdfBlock[] {
+  const list = typeof value === 'string' ? [value] : strings(value);
+  return list.map((paragraph): PdfBlock => (emphasis ? { type: 'paragraph', text: paragraph, emphasis } : { type: 'paragraph', text: paragraph }));
+}
+
+export function buildResultsPdfDocument(pack: ResultsPack, options: ResultsPdfOptions): ResultsPdfDocument {
+  // Flow v2 pages, or legacy pages with their own keys (reframe / closing)
+  const flow = (pack.flow || {}) as FlowV2Config & FlowLegacyConfig;
+  const page1 = flow.page1 || null;
+  const page2 = flow.page2 || null;
+  const page3 = flow.page3 || null;
+  const blocks: Array<PdfBlock | null> = [];
+
+  // Page 1: Pattern Read
+  blocks.push(text(pack.label) ? { type: 'eyebrow', text: pack.label } : null);
+  blocks.push(heading(page1?.headline || pack.label, 1));
+  blocks.push(...(page1 && strings(page1.body).length > 0 ? paragraphs(page1.body) : paragraphs(pack.summary)));
+  if (page1) {
+    blocks.push(heading(page1.snapshotTitle || "What We're Seeing", 2));
+    blocks.push({ type: 'bullets', items: strings(page1.snapshotBullets) });
+    blocks.push(...paragraphs(page1.snapshotCloser, true));
+    if (text(page1.meaningBody)) {
+      blocks.push(heading(page1.meaningTitle || 'What This Often Means', 2));
+      blocks.push(...paragraphs(page1.meaningBody));
+    }
+  } else {
+    blocks.push(heading('Key Patterns', 2));
+    blocks.push({ type: 'bullets', items: strings(pack.keyPatterns) });
+  }
+
+  // Page 2: First Steps
+  blocks.push({ type: 'pageBreak' });
+  const steps = strings(page2?.stepBullets);
+  blocks.push(heading(page2?.headline || 'First Steps', 1));
+  blocks.push({ type: 'bullets', items: steps.length > 0 ? steps : strings(pack.firstFocusAreas) });
+  if (page2) {
+    if (text(page2.videoCtaLabel) && text(page2.videoAssetUrl)) {
+      blocks.push({ type: 'cta', label: page2.videoCtaLabel, url: absoluteUrl(page2.videoAssetUrl, options.siteUrl) });
+    }
+    blocks.push(heading(page2.reframeTitle, 2));
+    blocks.push(...paragraphs(page2.reframeBody));
+    blocks.push(...paragraphs(page2.footerText, true));
+  }
+
+  // Page 3: Narrative Close + Method CTA
+  blocks.push({ type: 'pageBreak' });
+  if (page3 && text(page3.problemHeadline)) {
+    blocks.push(heading(page3.problemHeadline, 1));
+    blocks.push(...paragraphs(page3.problemBody));
+    blocks.push(heading(page3.tryTitle, 2));
+    blocks.push({ type: 'bullets', items: strings(page3.tryBullets) });
+    blocks.push(...paragraphs(page3.tryCloser, true));
+    blocks.push(heading(page3.mechanismTitle, 2));
+    blocks.push(...paragraphs(page3.mechanismBodyTop));
+    blocks.push({ type: 'pills', items: strings(page3.mechanismPills) });
+    blocks.push(...paragraphs(page3.mechanismBodyBottom));
+    blocks.push(heading(page3.methodTitle, 2));
+    blocks.push(...paragraphs(page3.methodBody));
+    blocks.push(heading(page3.methodLearnTitle, 3));
+    blocks.push({ type: 'bullets', items: strings(page3.methodLearnBullets) });
+    blocks.push({
+      type: 'cta',
+      label: text(page3.methodCtaLabel) || 'Watch How The Fine Diet Method Works',
+      url: absoluteUrl(text(page3.methodCtaUrl) || '/method', options.siteUrl),
+    });
+  } else if (page3 && text(page3.closingTitle)) {
+    // Legacy page 3
+    blocks.push(heading(page3.headline, 1));
+    blocks.push(...paragraphs(page3.body));
+    blocks.push(heading(page3.closingTitle, 2));
+    blocks.push(...paragraphs(page3.closingBody));
+    blocks.push({ type: 'cta', label: 'Learn The Fine Diet Method', url: absoluteUrl('/method', options.siteUrl) });
+  } else {
+    blocks.push(heading('The Fine Diet Method', 1));
+    blocks.push(...paragraphs(pack.methodPositioning));
+    blocks.push({ type: 'cta', label: 'Learn The Fine Diet Method', url: absoluteUrl('/method', options.siteUrl) });
+  }
+
+  return {
+    title: text(pack.label) || 'Your Results',
+    subtitle: options.subtitle,
+    blocks: compact(blocks),
+    disclaimer: PDF_DISCLAIMER,
+  };
+}
+
+/**
+ * Cache key for a rendered PDF: same submission, pack content, branding and renderer version
+ * produce the same file
+ */
+export function pdfCacheKey(submissionId: string, contentHash: string, branding: Pick<PdfBranding, 'logoKey'>): string {
+  const digest = createHash('sha256')
+    .update([contentHash, branding.logoKey || 'no-logo', `v${PDF_RENDERER_VERSION}`].join(':'))
+    .digest('hex')
+    .slice(0, 32);
+  return `${submissionId}/${digest}.pdf`;
+}
@@ -7,6 +7,9 @@
 
 import { supabaseAdmin } from './supabaseServerClient';
 import { getFeatureFlags } from './config/getConfig';
+import { getSigningSecrets, signPayload } from './webhooks/signature';
+import { enqueueWebhookEvent } from './outbox/enqueueEvent';
+import { isEmailTombstoned, liftEmailTombstone } from './privacy/dataSubject';
 
 // ============================================================================
 // Types
@@ -28,8 +31,13 @@ export type EventType =
   | 'email_sent' 
   | 'sms_sent' 
   | 'unsubscribed' 
+  | 'consent_requested'
+  | 'consent_confirmed'
+  | 'subscription_preference'
   | 'other';
 
+export type EmailConsentStatus = 'none' | 'pending' | 'confirmed' | 'unsubscribed';
+
 export type SubscriptionType = 
   | 'email_marketing' 
   | 'product_updates' 
@@ -45,6 +53,10 @@ export interface UpsertPersonArgs {
   utmSource?: string | null;
   utmMedium?: string | null;
   utmCampaign?: string | null;
+  /**
+   * false records an explicit opt-out. true does not grant email consent by itself: call
+   * requestEmailConsent (lib/consent/emailConsent.ts) to send the double opt-in email.
+   */
   emailOptIn?: boolean;
   smsOptIn?: boolean;
   authUserId?: string | null; // Links to auth.users.id
@@ -65,6 +77,10 @@ export interface Person {
   utm_campaign: string | null;
   email_marketing_opt_in: boolean;
   email_opt_in_at: string | null;
+  email_consent_status: EmailConsentStatus;
+  email_consent_requested_at: string | null;
+  email_consent_confirmed_at: string | null;
+  email_unsubscribed_at: string | null;
   sms_marketing_opt_in: boolean;
   sms_opt_in_at: string | null;
   auth_user_id: string | null; // Links to auth.users.id
@@ -153,11 +169,13 @@ export async function upsertPerson(args: UpsertPersonArgs): Promise<Person> {
   const primarySource = existingPerson ? existingPerson.primary_source : (args.source || null);
   const lastSource = args.source || existingPerson?.last_source || null;
 
-  // Handle opt-in timestamps
-  const emailOptInAt = args.emailOptIn === true 
-    ? (existingPerson?.email_opt_in_at || now)
-    : existingPerson?.email_opt_in_at || null;
+  // Email consent is only granted by the double opt-in link. SMS opt-in is taken from the form:
+  // for an erased email (GDPR erasure tombstone) only an explicit opt-in grants it again, and
+  // that opt-in lifts the tombstone
+  const liftsTombstone =
+    args.smsOptIn === true && !existingPerson?.sms_marketing_opt_in && (await isEmailTombstoned(normalizedEmail));
 
+  // Handle opt-in timestamps
   const smsOptInAt = args.smsOptIn === true
     ? (existingPerson?.sms_opt_in_at || now)
     : existingPerson?.sms_opt_in_at || null;
@@ -178,8 +196,7 @@ export async function upsertPerson(args: UpsertPersonArgs): Promise<Person> {
     utm_source: args.utmSource || existingPerson?.utm_source || null,
     utm_medium: args.utmMedium || existingPerson?.utm_medium || null,
     utm_campaign: args.utmCampaign || existingPerson?.utm_campaign || null,
-    email_marketing_opt_in: args.emailOptIn !== undefined ? args.emailOptIn : (existingPerson?.email_marketing_opt_in ?? true),
-    email_opt_in_at: emailOptInAt,
+    email_marketing_opt_in: args.emailOptIn === false ? false : (existingPerson?.email_marketing_opt_in ?? false),
     sms_marketing_opt_in: args.smsOptIn !== undefined ? args.smsOptIn : (existingPerson?.sms_marketing_opt_in ?? false),
     sms_opt_in_at: smsOptInAt,
     auth_user_id: authUserId,
@@ -208,6 +225,39 @@ export async function upsertPerson(args: UpsertPersonArgs): Promise<Person> {
     throw new Error(`Failed to upsert person: ${upsertError.message}`);
   }
 
+  if (liftsTombstone) {
+    try {
+      await liftEmailTombstone(normalizedEmail);
+    } catch (error) {
+      // A tombstone left behind only costs a lookup on the next signup
+      console.warn('Failed to lift email tombstone:', error);
+    }
+  }
+
+  // A person can reach the same status again (unsubscribe, resubscribe, unsubscribe), so the
+  // key carries the update time to make each transition its own event
+  if (existingPerson && existingPerson.status !== finalStatus) {
+    await enqueueWebhookEvent('person_status_change', `${person.id}:${finalStatus}:${person.updated_at}`, {
+      person_id: person.id,
+      email: person.email,
+      from_status: existingPerson.status,
+      to_status: finalStatus,
+      source: args.source || null,
+    });
+
+    // Status history for the admin person timeline; never blocks the upsert
+    try {
+      await logEvent({
+        personId: person.id,
+        eventType: 'status_change',
+        source: args.source || null,
+        metadata: { from_status: existingPerson.status, to_status: finalStatus },
+      });
+    } catch (error) {
+      console.warn('Failed to log status change:', error);
+    }
+  }
+
   return person as Person;
 }
 
@@ -284,12 +334,16 @@ export async function emitN8nWebhook(payload: any): Promise<void> {
   }
 
   try {
+    // Signed like outbox deliveries so n8n can reject forged calls
+    const body = JSON.stringify(payload);
+    const secrets = getSigningSecrets();
     const response = await fetch(webhookUrl, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...(secrets.length > 0 ? signPayload(body, secrets) : {}),
       },
-      body: JSON.stringify(payload),
+      body,
     });
 
     if (!response.ok) {
@@ -0,0 +1,65 @@
+/**
+ * Tests for the published pointer stack and rollback target
+ */
+
+import { findRollbackTarget, getPublishedStack, type PointerChangeAction } from '../rollbackTarget';
+
+const change = (action: PointerChangeAction, from: string | null, to: string | null) => ({
+  action,
+  from_revision_id: from,
+  to_revision_id: to,
+});
+
+describe('getPublishedStack', () => {
+  it('pushes each publish', () => {
+    expect(getPublishedStack([change('publish', null, 'a'), change('publish', 'a', 'b')])).toEqual(['a', 'b']);
+  });
+
+  it('returns to the rollback target', () => {
+    const history = [
+      change('publish', null, 'a'),
+      change('publish', 'a', 'b'),
+      change('publish', 'b', 'c'),
+      change('rollback', 'c', 'a'),
+    ];
+    expect(getPublishedStack(history)).toEqual(['a']);
+  });
+
+  it('starts from the origin of the first recorded change', () => {
+    expect(getPublishedStack([change('publish', 'legacy', 'b')])).toEqual(['legacy', 'b']);
+  });
+
+  it('clears on archive', () => {
+    expect(getPublishedStack([change('publish', null, 'a'), change('archive', 'a', null)])).toEqual([]);
+  });
+
+  it('ignores republishing the live revision', () => {
+    expect(getPublishedStack([change('publish', null, 'a'), change('publish', 'a', 'a')])).toEqual(['a']);
+  });
+});
+
+describe('findRollbackTarget', () => {
+  it('targets the previously published revision', () => {
+    expect(findRollbackTarget([change('publish', null, 'a'), change('publish', 'a', 'b')], 'b')).toBe('a');
+  });
+
+  it('walks further back on repeated rollbacks', () => {
+    const history = [
+      change('publish', null, 'a'),
+      change('publish', 'a', 'b'),
+      change('publish', 'b', 'c'),
+      change('rollback', 'c', 'b'),
+    ];
+    expect(findRollbackTarget(history, 'b')).toBe('a');
+    expect(findRollbackTarget(history.concat([change('rollback', 'b', 'a')]), 'a')).toBeNull();
+  });
+
+  it('returns null when the live pointer does not match the history', () => {
+    expect(findRollbackTarget([change('publish', null, 'a'), change('publish', 'a', 'b')], 'x')).toBeNull();
+    expect(findRollbackTarget([change('publish', null, 'a')], null)).toBeNull();
+  });
+
+  it('returns null with a single published revision', () => {
+    expect(findRollbackTarget([change('publish', null, 'a')], 'a')).toBeNull();
+  });
+});
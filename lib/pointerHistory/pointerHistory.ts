@@ -0,0 +1,228 @@
+/**
+ * Published Pointer History (server)
+ *
+ * Records publish, rollback and archive changes of question set / results pack published
+ * pointers (published_pointer_history, scripts/createPointerHistory.sql) and performs
+ * "roll back to previous published" (lib/pointerHistory/rollbackTarget.ts).
+ *
+ * A rollback re-validates the target revision and moves the pointer only if it still points
+ * at the revision the rollback was planned from. It needs no publish review: the target was
+ * published before. The resolvers read the pointer on every request and the results PDF
+ * cache is keyed by pack content hash, so nothing else needs purging.
+ */
+
+import { supabaseAdmin } from '@/lib/supabaseServerClient';
+import { validateQuestionSet } from '@/lib/questionSet/validateQuestionSet';
+import { validateResultsPack } from '@/lib/resultsPack/validateResultsPack';
+import {
+  findRollbackTarget,
+  type PointerChangeAction,
+  type PointerEntityType,
+  type PointerHistoryEntry,
+} from './rollbackTarget';
+
+export interface PointerActor {
+  id: string;
+  email: string | null;
+}
+
+export type RollbackResult =
+  | { ok: true; fromRevisionId: string; toRevisionId: string; revisionNumber: number | null }
+  | {
+      ok: false;
+      status: 400 | 404 | 409;
+      error: string;
+      details?: { errors: string[]; warnings: string[] };
+    };
+
+const POINTER_TABLES: Record<PointerEntityType, { revisions: string; pointers: string; parentColumn: string }> = {
+  question_set: { revisions: 'question_set_revisions', pointers: 'question_set_pointers', parentColumn: 'question_set_id' },
+  results_pack: { revisions: 'results_pack_revisions', pointers: 'results_pack_pointers', parentColumn: 'pack_id' },
+};
+
+// Replayed in full to find the rollback target; far above any real publish count
+const HISTORY_REPLAY_LIMIT = 1000;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Current published revision of a question set or results pack (null if none)
+ */
+export async function getPublishedRevisionId(entityType: PointerEntityType, entityId: string): Promise<string | null> {
+  const tables = POINTER_TABLES[entityType];
+  const { data, error } = await supabaseAdmin
+    .from(tables.pointers)
+    .select('published_revision_id')
+    .eq(tables.parentColumn, entityId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Database error: ${error.message}`);
+  }
+  return (data?.published_revision_id as string | null) || null;
+}
+
+/**
+ * Whether a revision is or was the published revision of a question set or results pack
+ * (the current pointer, or either side of a recorded pointer change). Ids may come from
+ * clients, so anything but UUIDs is refused before it reaches a filter.
+ */
+export async function wasRevisionPublished(
+  entityType: PointerEntityType,
+  entityId: string,
+  revisionId: string
+): Promise<boolean> {
+  if (!UUID_PATTERN.test(entityId) || !UUID_PATTERN.test(revisionId)) {
+    return false;
+  }
+  if ((await getPublishedRevisionId(entityType, entityId)) === revisionId) {
+    return true;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('published_pointer_history')
+    .select('id')
+    .eq('entity_type', entityType)
+    .eq('entity_id', entityId)
+    .or(`to_revision_id.eq.${revisionId},from_revision_id.eq.${revisionId}`)
+    .limit(1);
+  if (error) {
+    throw new Error(`Database error: ${error.message}`);
+  }
+  return (data || []).length > 0;
+}
+
+/**
+ * Append a pointer change to the history
+ */
+export async function recordPointerChange(input: {
+  entityType: PointerEntityType;
+  entityId: string;
+  action: PointerChangeAction;
+  fromRevisionId: string | null;
+  toRevisionId: string | null;
+  actor: PointerActor;
+  reason?: string | null;
+  reviewId?: string | null;
+}): Promise<void> {
+  const { error } = await supabaseAdmin.from('published_pointer_history').insert({
+    entity_type: input.entityType,
+    entity_id: input.entityId,
+    action: input.action,
+    from_revision_id: input.fromRevisionId,
+    to_revision_id: input.toRevisionId,
+    reason: input.reason || null,
+    review_id: input.reviewId || null,
+    actor_id: input.actor.id,
+    actor_email: input.actor.email,
+  });
+  if (error) {
+    throw new Error(`Database error: ${error.message}`);
+  }
+}
+
+/**
+ * Pointer history of one question set or results pack, oldest first
+ */
+export async function listPointerHistory(entityType: PointerEntityType, entityId: string): Promise<PointerHistoryEntry[]> {
+  const { data, error } = await supabaseAdmin
+    .from('published_pointer_history')
+    .select('*')
+    .eq('entity_type', entityType)
+    .eq('entity_id', entityId)
+    .order('created_at', { ascending: true })
+    .limit(HISTORY_REPLAY_LIMIT);
+  if (error) {
+    throw new Error(`Database error: ${error.message}`);
+  }
+  return (data || []) as PointerHistoryEntry[];
+}
+
+/**
+ * Publish the revision that was live before the current one
+ */
+export async function rollbackToPrevious(input: {
+  entityType: PointerEntityType;
+  entityId: string;
+  actor: PointerActor;
+  reason: string | null;
+}): Promise<RollbackResult> {
+  const tables = POINTER_TABLES[input.entityType];
+
+  const currentRevisionId = await getPublishedRevisionId(input.entityType, input.entityId);
+  if (!currentRevisionId) {
+    return { ok: false, status: 409, error: 'Nothing is published' };
+  }
+
+  const history = await listPointerHistory(input.entityType, input.entityId);
+  const targetRevisionId = findRollbackTarget(history, currentRevisionId);
+  if (!targetRevisionId) {
+    return { ok: false, status: 409, error: 'No earlier published revision is recorded' };
+  }
+
+  const { data: target, error: targetError } = await supabaseAdmin
+    .from(tables.revisions)
+    .select(`id, revision_number, content_json, ${tables.parentColumn}`)
+    .eq('id', targetRevisionId)
+    .maybeSingle();
+  if (targetError) {
+    throw new Error(`Database error: ${targetError.message}`);
+  }
+  const targetRow = target as Record<string, any> | null;
+  if (!targetRow || targetRow[tables.parentColumn] !== input.entityId) {
+    return { ok: false, status: 404, error: 'Previous revision no longer exists' };
+  }
+
+  // Validators may have tightened since the revision was first published
+  const validation =
+    input.entityType === 'question_set'
+      ? validateQuestionSet(targetRow.content_json)
+      : validateResultsPack(targetRow.content_json);
+  if (!validation.ok) {
+    return {
+      ok: false,
+      status: 400,
+      error: 'Validation failed',
+      details: { errors: validation.errors, warnings: validation.warnings },
+    };
+  }
+
+  const update: Record<string, unknown> = { published_revision_id: targetRevisionId };
+  if (input.entityType === 'results_pack') {
+    update.updated_by = input.actor.id;
+  }
+  // Conditional on the pointer we planned from, so a concurrent publish is not overwritten
+  const { data: moved, error: ptrError } = await supabaseAdmin
+    .from(tables.pointers)
+    .update(update)
+    .eq(tables.parentColumn, input.entityId)
+    .eq('published_revision_id', currentRevisionId)
+    .select(tables.parentColumn);
+  if (ptrError) {
+    throw new Error(`Database error: ${ptrError.message}`);
+  }
+  if (!moved || moved.length === 0) {
+    return { ok: false, status: 409, error: 'Published revision changed while rolling back; reload and try again' };
+  }
+
+  try {
+    await recordPointerChange({
+      entityType: input.entityType,
+      entityId: input.entityId,
+      action: 'rollback',
+      fromRevisionId: currentRevisionId,
+      toRevisionId: targetRevisionId,
+      actor: input.actor,
+      reason: input.reason,
+    });
+  } catch (historyError) {
+    // The rollback is live; only the next rollback's target is affected
+    console.warn('Failed to record pointer history:', historyError);
+  }
+
+  return {
+    ok: true,
+    fromRevisionId: currentRevisionId,
+    toRevisionId: targetRevisionId,
+    revisionNumber: typeof targetRow.revision_number === 'number' ? targetRow.revision_number : null,
+  };
+}
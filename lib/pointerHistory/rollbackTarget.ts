@@ -0,0 +1,75 @@
+/**
+ * Pointer History Rules
+ *
+ * Every change of a question set or results pack published pointer is recorded in
+ * published_pointer_history. Replaying it gives the stack of published revisions: a publish
+ * pushes, a rollback returns to an earlier entry, an archive clears the stack. "Roll back to
+ * previous" targets the entry under the current one, so repeated rollbacks keep walking back
+ * instead of toggling between the last two revisions.
+ *
+ * Client-safe: pure functions only.
+ */
+
+export type PointerEntityType = 'question_set' | 'results_pack';
+
+export type PointerChangeAction = 'publish' | 'rollback' | 'archive';
+
+export interface PointerHistoryEntry {
+  id: string;
+  entity_type: PointerEntityType;
+  entity_id: string;
+  action: PointerChangeAction;
+  from_revision_id: string | null;
+  to_revision_id: string | null;
+  reason: string | null;
+  review_id: string | null;
+  actor_id: string | null;
+  actor_email: string | null;
+  created_at: string;
+}
+
+export const MAX_POINTER_REASON_LENGTH = 500;
+
+/**
+ * Published revisions still reachable by rollback, oldest first (history oldest first)
+ */
+export function getPublishedStack(
+  history: Array<Pick<PointerHistoryEntry, 'action' | 'from_revision_id' | 'to_revision_id'>>
+): string[] {
+  let stack: string[] = [];
+  history.forEach((entry) => {
+    if (entry.action === 'archive' || !entry.to_revision_id) {
+      stack = [];
+      return;
+    }
+    if (entry.action === 'rollback') {
+      const index = stack.lastIndexOf(entry.to_revision_id);
+      if (index !== -1) {
+        stack = stack.slice(0, index + 1);
+        return;
+      }
+    }
+    // Pointers published before history was recorded start the stack from the change's origin
+    if (stack.length === 0 && entry.from_revision_id && entry.from_revision_id !== entry.to_revision_id) {
+      stack.push(entry.from_revision_id);
+    }
+    if (stack[stack.length - 1] !== entry.to_revision_id) {
+      stack.push(entry.to_revision_id);
+    }
+  });
+  return stack;
+}
+
+/**
+ * Revision "roll back to previous" would publish, or null when there is none recorded or the
+ * history no longer matches the live pointer (changed outside the admin API)
+ */
+export function findRollbackTarget(
+  history: Array<Pick<PointerHistoryEntry, 'action' | 'from_revision_id' | 'to_revision_id'>>,
+  currentRevisionId: string | null
+): string | null {
+  if (!currentRevisionId) return null;
+  const stack = getPublishedStack(history);
+  if (stack.length < 2 || stack[stack.length - 1] !== currentRevisionId) return null;
+  return stack[stack.length - 2];
+}
@@ -0,0 +1,107 @@
+/**
+ * Tests for loading and erasing a data subject's rows
+ *
+ * Runs against an in-memory stand-in for the Supabase tables (eq / in / like filters only).
+ */
+
+import { eraseSubjectData, loadSubjectRows } from '../dataSubject';
+
+type Row = Record<string, any>;
+
+let mockTables: Record<string, Row[]> = {};
+const mockUpdates: Array<{ table: string; values: Row; ids: string[] }> = [];
+
+jest.mock('@/lib/supabaseServerClient', () => {
+  function query(table: string) {
+    const filters: Array<(row: Row) => boolean> = [];
+    let action: { kind: 'select' } | { kind: 'update'; values: Row } | { kind: 'delete' } = { kind: 'select' };
+
+    const run = () => {
+      const matched = (mockTables[table] || []).filter((row) => filters.every((filter) => filter(row)));
+      if (action.kind === 'update') {
+        const values = action.values;
+        matched.forEach((row) => Object.assign(row, values));
+        mockUpdates.push({ table, values, ids: matched.map((row) => row.id) });
+      } else if (action.kind === 'delete') {
+        mockTables[table] = (mockTables[table] || []).filter((row) => matched.indexOf(row) === -1);
+      }
+      return { data: matched, count: matched.length, error: null };
+    };
+
+    const builder: Record<string, any> = {
+      select: () => builder,
+      update: (values: Row) => {
+        action = { kind: 'update', values };
+        return builder;
+      },
+      delete: () => {
+        action = { kind: 'delete' };
+        return builder;
+      },
+      eq: (column: string, value: unknown) => {
+        filters.push((row) => row[column] === value);
+        return builder;
+      },
+      in: (column: string, values: unknown[]) => {
+        filters.push((row) => values.indexOf(row[column]) !== -1);
+        return builder;
+      },
+      like: (column: string, pattern: string) => {
+        filters.push((row) => typeof row[column] === 'string' && row[column].startsWith(pattern.replace(/%$/, '')));
+        return builder;
+      },
+      limit: () => builder,
+      then: (resolve: (value: unknown) => unknown, reject: (error: unknown) => unknown) =>
+        Promise.resolve(run()).then(resolve, reject),
+    };
+    return builder;
+  }
+
+  return { supabaseAdmin: { from: (table: string) => query(table) } };
+});
+
+beforeEach(() => {
+  mockUpdates.length = 0;
+  mockTables = {
+    people: [{ id: 'person-1', email: 'ada@example.com', auth_user_id: 'user-1' }],
+    assessment_submissions: [
+      { id: 'sub-1', email: 'ada@example.com', user_id: null, session_id: 'sess-1', metadata: { claimToken: 't' } },
+    ],
+    assessment_sessions: [
+      { id: 'row-1', session_id: 'sess-1', user_id: null, checkpoint: null },
+      // Started while logged in, never submitted
+      { id: 'row-2', session_id: 'sess-2', user_id: 'user-1', checkpoint: { answers: [{ questionId: 'q1' }] } },
+      { id: 'row-3', session_id: 'sess-3', user_id: 'user-2', checkpoint: { answers: [] } },
+    ],
+    assessment_events: [
+      { id: 'ev-1', session_id: 'sess-1' },
+      { id: 'ev-2', session_id: 'sess-2' },
+      { id: 'ev-3', session_id: 'sess-3' },
+    ],
+  };
+});
+
+describe('loadSubjectRows', () => {
+  it('should include checkpoint-only sessions of the account and their events', async () => {
+    const rows = await loadSubjectRows({ email: 'ada@example.com', userId: null });
+
+    expect(rows.assessment_sessions.map((session) => session.id).sort()).toEqual(['row-1', 'row-2']);
+    expect(rows.assessment_events.map((event) => event.id).sort()).toEqual(['ev-1', 'ev-2']);
+  });
+});
+
+describe('eraseSubjectData', () => {
+  it('should clear the owner and checkpoint of the subject sessions only', async () => {
+    const rows = await loadSubjectRows({ email: 'ada@example.com', userId: null });
+    const summary = await eraseSubjectData({ email: 'ada@example.com', userId: null }, rows, { deleteAccount: false });
+
+    expect(summary.assessment_sessions_pseudonymized).toBe(2);
+    expect(mockTables.assessment_sessions).toEqual([
+      { id: 'row-1', session_id: 'sess-1', user_id: null, checkpoint: null, checkpointed_at: null },
+      { id: 'row-2', session_id: 'sess-2', user_id: null, checkpoint: null, checkpointed_at: null },
+      { id: 'row-3', session_id: 'sess-3', user_id: 'user-2', checkpoint: { answers: [] } },
+    ]);
+    expect(mockTables.assessment_submissions[0]).toMatchObject({ email: null, user_id: null });
+    expect(mockTables.people).toEqual([]);
+  });
+});
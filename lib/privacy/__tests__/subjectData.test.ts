@@ -0,0 +1,94 @@
+/**
+ * Tests for data subject export / erasure helpers
+ */
+
+import {
+  buildSubjectExport,
+  countSubjectRows,
+  exportFilename,
+  hashEmail,
+  pseudonymizeSubmissionMetadata,
+  type SubjectRows,
+} from '../subjectData';
+
+const rows: SubjectRows = {
+  person: { id: 'person-1', email: 'ada@example.com' },
+  subscriptions: [{ id: 's1' }],
+  people_events: [{ id: 'e1' }, { id: 'e2' }],
+  assessment_submissions: [{ id: 'sub-1' }],
+  assessment_sessions: [{ id: 'session-1' }],
+  assessment_events: [],
+  waitlist: [{ id: 'w1' }],
+  webhook_outbox: [{ id: 'o1' }, { id: 'o2' }],
+};
+
+describe('hashEmail', () => {
+  it('should hash the normalized email', () => {
+    expect(hashEmail(' Ada@Example.com ')).toBe(hashEmail('ada@example.com'));
+    expect(hashEmail('ada@example.com')).toMatch(/^[0-9a-f]{64}$/);
+    expect(hashEmail('ada@example.com')).not.toBe(hashEmail('bob@example.com'));
+  });
+});
+
+describe('pseudonymizeSubmissionMetadata', () => {
+  it('should drop identifying keys and keep scoring references', () => {
+    const result = pseudonymizeSubmissionMetadata(
+      {
+        claimToken: 'token',
+        claimedAt: '2026-01-01T00:00:00Z',
+        claimedBy: 'user-1',
+        email: 'ada@example.com',
+        responses: { q1: 2 },
+        questionsRef: { revisionId: 'rev-1' },
+      },
+      '2026-02-01T00:00:00Z'
+    );
+
+    expect(result).toEqual({
+      responses: { q1: 2 },
+      questionsRef: { revisionId: 'rev-1' },
+      erasedAt: '2026-02-01T00:00:00Z',
+    });
+  });
+
+  it('should handle missing metadata', () => {
+    expect(pseudonymizeSubmissionMetadata(null, '2026-02-01T00:00:00Z')).toEqual({ erasedAt: '2026-02-01T00:00:00Z' });
+  });
+});
+
+describe('buildSubjectExport', () => {
+  it('should wrap the rows with the subject and account', () => {
+    const now = new Date('2026-03-01T10:00:00Z');
+    const exported = buildSubjectExport(
+      { email: 'ada@example.com', userId: 'user-1' },
+      rows,
+      { user_id: 'user-1', role: 'user' },
+      now
+    );
+
+    expect(exported).toMatchObject({
+      format: 'fine-diet-subject-export',
+      version: 1,
+      generated_at: '2026-03-01T10:00:00.000Z',
+      subject: { email: 'ada@example.com', userId: 'user-1' },
+      account: { user_id: 'user-1', role: 'user' },
+      waitlist: [{ id: 'w1' }],
+    });
+    expect(exportFilename(now)).toBe('fine-diet-data-2026-03-01.json');
+  });
+});
+
+describe('countSubjectRows', () => {
+  it('should count rows per table', () => {
+    expect(countSubjectRows(rows)).toEqual({
+      people: 1,
+      subscriptions: 1,
+      people_events: 2,
+      assessment_submissions: 1,
+      assessment_sessions: 1,
+      assessment_events: 0,
+      waitlist: 1,
+      webhook_outbox: 2,
+    });
+  });
+});
@@ -0,0 +1,369 @@
+/**
+ * Data Subject Requests (server)
+ *
+ * Loads, exports and erases everything tied to an email or auth user (see
+ * lib/privacy/subjectData.ts for what erasure does per table) and records each request in
+ * privacy_requests. Used by /api/admin/people/privacy and /api/account/privacy.
+ */
+
+import { supabaseAdmin } from '@/lib/supabaseServerClient';
+import {
+  buildSubjectExport,
+  countSubjectRows,
+  hashEmail,
+  normalizeSubjectEmail,
+  pseudonymizeSubmissionMetadata,
+  ERASED_SESSION_FIELDS,
+  type DataSubject,
+  type ErasureSummary,
+  type PrivacyRequestType,
+  type PrivacyRequestVia,
+  type SubjectExport,
+  type SubjectRows,
+} from './subjectData';
+
+type Row = Record<string, any>;
+
+function rowsOrThrow(result: { data: unknown; error: { message: string } | null }): Row[] {
+  if (result.error) {
+    throw new Error(`Database error: ${result.error.message}`);
+  }
+  return (result.data || []) as Row[];
+}
+
+/** Merge row lists that may overlap (e.g. a submission matched by email and by account) */
+function uniqueById(rows: Row[]): Row[] {
+  const byId: Record<string, Row> = {};
+  rows.forEach((row) => {
+    byId[row.id] = row;
+  });
+  return Object.keys(byId).map((id) => byId[id]);
+}
+
+function uniqueStrings(values: Array<string | null | undefined>): string[] {
+  const seen: Record<string, boolean> = {};
+  values.forEach((value) => {
+    if (value) seen[value] = true;
+  });
+  return Object.keys(seen);
+}
+
+const empty = Promise.resolve({ data: [] as Row[], error: null });
+
+/**
+ * Every row tied to the subject
+ */
+export async function loadSubjectRows(subject: DataSubject): Promise<SubjectRows> {
+  const email = subject.email ? normalizeSubjectEmail(subject.email) : null;
+
+  let person: Row | null = null;
+  if (email) {
+    person = rowsOrThrow(await supabaseAdmin.from('people').select('*').eq('email', email).limit(1))[0] || null;
+  }
+  if (!person && subject.userId) {
+    person =
+      rowsOrThrow(await supabaseAdmin.from('people').select('*').eq('auth_user_id', subject.userId).limit(1))[0] ||
+      null;
+  }
+
+  const emails = uniqueStrings([email, person?.email]);
+  const userIds = uniqueStrings([subject.userId, person?.auth_user_id]);
+
+  const [subscriptions, peopleEvents, submissionsByEmail, submissionsByUser, sessionsByUser, waitlist] = await Promise.all([
+    person ? supabaseAdmin.from('subscriptions').select('*').eq('person_id', person.id) : empty,
+    person ? supabaseAdmin.from('people_events').select('*').eq('person_id', person.id) : empty,
+    emails.length > 0 ? supabaseAdmin.from('assessment_submissions').select('*').in('email', emails) : empty,
+    userIds.length > 0 ? supabaseAdmin.from('assessment_submissions').select('*').in('user_id', userIds) : empty,
+    // Checkpointed sessions of logged-in users, including ones that never became a submission
+    userIds.length > 0 ? supabaseAdmin.from('assessment_sessions').select('*').in('user_id', userIds) : empty,
+    emails.length > 0 ? supabaseAdmin.from('waitlist').select('*').in('email', emails) : empty,
+  ]);
+
+  const submissions = uniqueById(rowsOrThrow(submissionsByEmail).concat(rowsOrThrow(submissionsByUser)));
+  const submissionIds = submissions.map((submission) => submission.id as string);
+  const userSessions = rowsOrThrow(sessionsByUser);
+  const sessionIds = uniqueStrings(
+    submissions.map((submission) => submission.session_id as string).concat(userSessions.map((session) => session.session_id as string))
+  );
+
+  const [sessionsBySubmission, events, submissionOutbox, personOutbox] = await Promise.all([
+    sessionIds.length > 0 ? supabaseAdmin.from('assessment_sessions').select('*').in('session_id', sessionIds) : empty,
+    sessionIds.length > 0 ? supabaseAdmin.from('assessment_events').select('*').in('session_id', sessionIds) : empty,
+    submissionIds.length > 0 ? supabaseAdmin.from('webhook_outbox').select('*').in('submission_id', submissionIds) : empty,
+    // Person events are keyed `<person id>:...` (lib/outbox/enqueueEvent.ts callers)
+    person ? supabaseAdmin.from('webhook_outbox').select('*').like('event_key', `${person.id}:%`) : empty,
+  ]);
+
+  return {
+    person,
+    subscriptions: rowsOrThrow(subscriptions),
+    people_events: rowsOrThrow(peopleEvents),
+    assessment_submissions: submissions,
+    assessment_sessions: uniqueById(userSessions.concat(rowsOrThrow(sessionsBySubmission))),
+    assessment_events: rowsOrThrow(events),
+    waitlist: rowsOrThrow(waitlist),
+    webhook_outbox: uniqueById(rowsOrThrow(submissionOutbox).concat(rowsOrThrow(personOutbox))),
+  };
+}
+
+/**
+ * Role of the subject's auth account, or null when there is none
+ */
+export async function getSubjectAccountRole(userId: string): Promise<string | null> {
+  const { data, error } = await supabaseAdmin.from('profiles').select('role').eq('id', userId).maybeSingle();
+  if (error) {
+    throw new Error(`Database error: ${error.message}`);
+  }
+  return data ? ((data.role as string) || 'user') : null;
+}
+
+/**
+ * The subject's auth user: the one given, else the one linked to their people row
+ */
+export function subjectUserId(subject: DataSubject, rows: SubjectRows): string | null {
+  return subject.userId || ((rows.person?.auth_user_id as string | null) ?? null);
+}
+
+export async function exportSubjectData(subject: DataSubject, rows: SubjectRows): Promise<SubjectExport> {
+  const userId = subjectUserId(subject, rows);
+  const role = userId ? await getSubjectAccountRole(userId) : null;
+  return buildSubjectExport(subject, rows, userId ? { user_id: userId, role } : null);
+}
+
+async function deleteRows(table: string, column: string, values: string[]): Promise<number> {
+  if (values.length === 0) return 0;
+  const { count, error } = await supabaseAdmin.from(table).delete({ count: 'exact' }).in(column, values);
+  if (error) {
+    throw new Error(`Database error deleting ${table}: ${error.message}`);
+  }
+  return count || 0;
+}
+
+/**
+ * Delete or pseudonymize the subject's rows. Callers must refuse staff accounts first
+ * (deleting an editor/admin account is a role change, not a privacy request).
+ */
+export async function eraseSubjectData(
+  subject: DataSubject,
+  rows: SubjectRows,
+  options: { deleteAccount: boolean }
+): Promise<ErasureSummary> {
+  const erasedAt = new Date().toISOString();
+  const person = rows.person;
+  const summary: ErasureSummary = {
+    people: 0,
+    subscriptions: 0,
+    people_events: 0,
+    waitlist: 0,
+    webhook_outbox: 0,
+    assessment_submissions_pseudonymized: 0,
+    assessment_sessions_pseudonymized: 0,
+    account_deleted: false,
+  };
+
+  // Outbox payloads carry the email; attempts cascade
+  summary.webhook_outbox = await deleteRows(
+    'webhook_outbox',
+    'id',
+    rows.webhook_outbox.map((row) => row.id as string)
+  );
+
+  for (const submission of rows.assessment_submissions) {
+    const { error } = await supabaseAdmin
+      .from('assessment_submissions')
+      .update({
+        email: null,
+        user_id: null,
+        metadata: pseudonymizeSubmissionMetadata(submission.metadata as Record<string, unknown> | null, erasedAt),
+      })
+      .eq('id', submission.id as string);
+    if (error) {
+      throw new Error(`Database error pseudonymizing assessment_submissions: ${error.message}`);
+    }
+    summary.assessment_submissions_pseudonymized++;
+  }
+
+  // Sessions keep their progress counters; the owner and the partial answers go
+  const sessionIds = rows.assessment_sessions.map((session) => session.id as string);
+  if (sessionIds.length > 0) {
+    const { count, error } = await supabaseAdmin
+      .from('assessment_sessions')
+      .update(ERASED_SESSION_FIELDS, { count: 'exact' })
+      .in('id', sessionIds);
+    if (error) {
+      throw new Error(`Database error pseudonymizing assessment_sessions: ${error.message}`);
+    }
+    summary.assessment_sessions_pseudonymized = count || 0;
+  }
+
+  summary.waitlist = await deleteRows(
+    'waitlist',
+    'id',
+    rows.waitlist.map((row) => row.id as string)
+  );
+
+  if (person) {
+    summary.people_events = await deleteRows('people_events', 'person_id', [person.id as string]);
+    summary.subscriptions = await deleteRows('subscriptions', 'person_id', [person.id as string]);
+    summary.people = await deleteRows('people', 'id', [person.id as string]);
+  }
+
+  const userId = subjectUserId(subject, rows);
+  if (options.deleteAccount && userId) {
+    // profiles cascades from auth.users
+    const { error } = await supabaseAdmin.auth.admin.deleteUser(userId);
+    if (error) {
+      throw new Error(`Failed to delete account: ${error.message}`);
+    }
+    summary.account_deleted = true;
+  }
+
+  return summary;
+}
+
+/**
+ * Tombstone the subject's emails: an erased email only gets SMS consent back by opting in again
+ */
+export async function tombstoneEmails(emails: string[], privacyRequestId: string | null): Promise<void> {
+  if (emails.length === 0) return;
+  const { error } = await supabaseAdmin.from('email_tombstones').upsert(
+    emails.map((email) => ({
+      email_hash: hashEmail(email),
+      privacy_request_id: privacyRequestId,
+      erased_at: new Date().toISOString(),
+    })),
+    { onConflict: 'email_hash' }
+  );
+  if (error) {
+    throw new Error(`Database error: ${error.message}`);
+  }
+}
+
+/**
+ * Emails to tombstone for an erasure (the requested one and the person's)
+ */
+export function subjectEmails(subject: DataSubject, rows: SubjectRows): string[] {
+  return uniqueStrings([
+    subject.email ? normalizeSubjectEmail(subject.email) : null,
+    rows.person?.email ? normalizeSubjectEmail(rows.person.email as string) : null,
+  ]);
+}
+
+/**
+ * Remove an email's tombstone once the person has explicitly opted in again
+ */
+export async function liftEmailTombstone(email: string): Promise<void> {
+  const { error } = await supabaseAdmin.from('email_tombstones').delete().eq('email_hash', hashEmail(email));
+  if (error) {
+    throw new Error(`Database error: ${error.message}`);
+  }
+}
+
+export async function isEmailTombstoned(email: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from('email_tombstones')
+    .select('email_hash')
+    .eq('email_hash', hashEmail(email))
+    .maybeSingle();
+  if (error) {
+    // Missing before scripts/createPrivacyRequests.sql is run; signups must keep working
+    console.warn('Failed to check email tombstone:', error);
+    return false;
+  }
+  return !!data;
+}
+
+export interface PrivacyRequestRecord {
+  requestType: PrivacyRequestType;
+  via: PrivacyRequestVia;
+  subject: DataSubject;
+  actorId: string | null;
+  status: 'completed' | 'failed';
+  summary: Record<string, unknown>;
+  errorMessage?: string | null;
+}
+
+/**
+ * Compliance log entry; returns its id (null if it could not be written)
+ */
+export async function recordPrivacyRequest(record: PrivacyRequestRecord): Promise<string | null> {
+  const { data, error } = await supabaseAdmin
+    .from('privacy_requests')
+    .insert({
+      request_type: record.requestType,
+      requested_via: record.via,
+      subject_email_hash: record.subject.email ? hashEmail(record.subject.email) : null,
+      subject_user_id: record.subject.userId,
+      actor_id: record.actorId,
+      status: record.status,
+      summary: record.summary,
+      error_message: record.errorMessage || null,
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error('Failed to write privacy request log:', error);
+    return null;
+  }
+  return data.id as string;
+}
+
+/**
+ * Export everything tied to the subject and log the request
+ */
+export async function runSubjectExport(
+  subject: DataSubject,
+  via: PrivacyRequestVia,
+  actorId: string | null
+): Promise<SubjectExport> {
+  const rows = await loadSubjectRows(subject);
+  const exported = await exportSubjectData(subject, rows);
+  await recordPrivacyRequest({
+    requestType: 'export',
+    via,
+    subject,
+    actorId,
+    status: 'completed',
+    summary: countSubjectRows(rows),
+  });
+  return exported;
+}
+
+/**
+ * Erase the subject, tombstone their emails and log the request (failures are logged too)
+ */
+export async function runSubjectErasure(
+  subject: DataSubject,
+  rows: SubjectRows,
+  via: PrivacyRequestVia,
+  actorId: string | null,
+  options: { deleteAccount: boolean }
+): Promise<ErasureSummary> {
+  let summary: ErasureSummary;
+  try {
+    summary = await eraseSubjectData(subject, rows, options);
+  } catch (error) {
+    await recordPrivacyRequest({
+      requestType: 'erasure',
+      via,
+      subject,
+      actorId,
+      status: 'failed',
+      summary: countSubjectRows(rows),
+      errorMessage: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+
+  const requestId = await recordPrivacyRequest({
+    requestType: 'erasure',
+    via,
+    subject,
+    actorId,
+    status: 'completed',
+    summary: { ...summary },
+  });
+  await tombstoneEmails(subjectEmails(subject, rows), requestId);
+  return summary;
+}
@@ -0,0 +1,143 @@
+/**
+ * Data Subject Requests
+ *
+ * Shapes for GDPR / CCPA access (export) and erasure requests, handled by
+ * lib/privacy/dataSubject.ts. What erasure does per table:
+ *
+ * - people, subscriptions, people_events, waitlist: deleted
+ * - webhook_outbox (and its attempts): deleted, pending deliveries included
+ * - assessment_submissions: kept for aggregate reporting but pseudonymized (email, account and
+ *   identifying metadata removed; answers and scores stay with the anonymous session)
+ * - assessment_sessions (the submissions' sessions and any checkpointed under the account):
+ *   owner and resume checkpoint cleared; assessment_events stay with the anonymous session
+ * - the email's SHA-256 is tombstoned until the person explicitly opts in to SMS again (a later
+ *   upsertPerson lifts it); email consent can only come back through the double opt-in link
+ *
+ * Pure functions only.
+ */
+
+import { createHash } from 'crypto';
+
+export type PrivacyRequestType = 'export' | 'erasure';
+export type PrivacyRequestVia = 'admin' | 'self_service';
+
+/** Who the request is about: an email, the linked auth user, or both */
+export interface DataSubject {
+  email: string | null;
+  userId: string | null;
+}
+
+/** Submission metadata keys that identify the person (the rest is scoring / content refs) */
+export const IDENTIFYING_SUBMISSION_METADATA_KEYS = [
+  'claimToken',
+  'claimedAt',
+  'claimedBy',
+  'email',
+  'firstName',
+  'lastName',
+  'name',
+  'phone',
+  'ip',
+  'ipAddress',
+  'userAgent',
+] as const;
+
+/** Session columns cleared on erasure (who took it, and the partial answers to resume) */
+export const ERASED_SESSION_FIELDS = {
+  user_id: null,
+  checkpoint: null,
+  checkpointed_at: null,
+};
+
+export interface SubjectRows {
+  person: Record<string, unknown> | null;
+  subscriptions: Record<string, unknown>[];
+  people_events: Record<string, unknown>[];
+  assessment_submissions: Record<string, unknown>[];
+  assessment_sessions: Record<string, unknown>[];
+  assessment_events: Record<string, unknown>[];
+  waitlist: Record<string, unknown>[];
+  webhook_outbox: Record<string, unknown>[];
+}
+
+export interface SubjectExport extends SubjectRows {
+  format: 'fine-diet-subject-export';
+  version: 1;
+  generated_at: string;
+  subject: DataSubject;
+  account: { user_id: string; role: string | null } | null;
+}
+
+/** Rows removed or pseudonymized per table */
+export interface ErasureSummary {
+  people: number;
+  subscriptions: number;
+  people_events: number;
+  waitlist: number;
+  webhook_outbox: number;
+  assessment_submissions_pseudonymized: number;
+  assessment_sessions_pseudonymized: number;
+  account_deleted: boolean;
+}
+
+export function normalizeSubjectEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * SHA-256 of the normalized email, the only form kept after erasure
+ */
+export function hashEmail(email: string): string {
+  return createHash('sha256').update(normalizeSubjectEmail(email)).digest('hex');
+}
+
+/**
+ * Submission metadata with identifying keys removed and the erasure time recorded
+ */
+export function pseudonymizeSubmissionMetadata(
+  metadata: Record<string, unknown> | null,
+  erasedAt: string
+): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...(metadata || {}) };
+  IDENTIFYING_SUBMISSION_METADATA_KEYS.forEach((key) => {
+    delete result[key];
+  });
+  result.erasedAt = erasedAt;
+  return result;
+}
+
+export function buildSubjectExport(
+  subject: DataSubject,
+  rows: SubjectRows,
+  account: SubjectExport['account'],
+  now: Date = new Date()
+): SubjectExport {
+  return {
+    format: 'fine-diet-subject-export',
+    version: 1,
+    generated_at: now.toISOString(),
+    subject,
+    account,
+    ...rows,
+  };
+}
+
+/**
+ * Row counts per table (the compliance log summary of an export)
+ */
+export function countSubjectRows(rows: SubjectRows): Record<string, number> {
+  return {
+    people: rows.person ? 1 : 0,
+    subscriptions: rows.subscriptions.length,
+    people_events: rows.people_events.length,
+    assessment_submissions: rows.assessment_submissions.length,
+    assessment_sessions: rows.assessment_sessions.length,
+    assessment_events: rows.assessment_events.length,
+    waitlist: rows.waitlist.length,
+    webhook_outbox: rows.webhook_outbox.length,
+  };
+}
+
+export function exportFilename(now: Date = new Date()): string {
+  return `fine-diet-data-${now.toISOString().slice(0, 10)}.json`;
+}
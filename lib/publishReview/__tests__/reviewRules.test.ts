@@ -0,0 +1,127 @@
+/**
+ * Tests for the two-person publish review rules
+ */
+
+import {
+  countApprovals,
+  getMinimumApprovals,
+  planReviewAction,
+  resolveRequiredApprovals,
+} from '../reviewRules';
+
+const review = {
+  status: 'in_review' as const,
+  required_approvals: 1,
+  requested_by: 'requester',
+  revision_created_by: 'author',
+};
+
+const editor = (id: string) => ({ id, role: 'editor' });
+
+describe('getMinimumApprovals', () => {
+  it('defaults to one approval', () => {
+    expect(getMinimumApprovals(undefined)).toBe(1);
+    expect(getMinimumApprovals('nonsense')).toBe(1);
+    expect(getMinimumApprovals('0')).toBe(1);
+  });
+
+  it('caps the minimum at three', () => {
+    expect(getMinimumApprovals('2')).toBe(2);
+    expect(getMinimumApprovals('10')).toBe(3);
+  });
+});
+
+describe('resolveRequiredApprovals', () => {
+  it('never goes below the minimum', () => {
+    expect(resolveRequiredApprovals(1, 2)).toBe(2);
+    expect(resolveRequiredApprovals(undefined, 2)).toBe(2);
+    expect(resolveRequiredApprovals(1.5, 1)).toBe(1);
+  });
+
+  it('allows asking for more approvals up to three', () => {
+    expect(resolveRequiredApprovals(2, 1)).toBe(2);
+    expect(resolveRequiredApprovals(5, 1)).toBe(3);
+  });
+});
+
+describe('countApprovals', () => {
+  it('counts each approver once and ignores the requester and author', () => {
+    const events = [
+      { actor_id: 'reviewer-1', kind: 'approved' as const },
+      { actor_id: 'reviewer-1', kind: 'approved' as const },
+      { actor_id: 'requester', kind: 'approved' as const },
+      { actor_id: 'author', kind: 'approved' as const },
+      { actor_id: 'reviewer-2', kind: 'comment' as const },
+      { actor_id: 'reviewer-3', kind: 'approved' as const },
+    ];
+    expect(countApprovals(review, events)).toBe(2);
+  });
+});
+
+describe('planReviewAction', () => {
+  it('approves when a different user approves', () => {
+    expect(planReviewAction(review, 'approve', editor('reviewer'), [], null)).toEqual({
+      ok: true,
+      event: 'approved',
+      status: 'approved',
+    });
+  });
+
+  it('blocks the requester and the revision author from approving', () => {
+    const byRequester = planReviewAction(review, 'approve', editor('requester'), [], null);
+    const byAuthor = planReviewAction(review, 'approve', { id: 'author', role: 'admin' }, [], null);
+    expect(byRequester).toMatchObject({ ok: false, status: 403 });
+    expect(byAuthor).toMatchObject({ ok: false, status: 403 });
+  });
+
+  it('stays in review until enough approvals are recorded', () => {
+    const twoNeeded = { ...review, required_approvals: 2 };
+    expect(planReviewAction(twoNeeded, 'approve', editor('reviewer-1'), [], null)).toMatchObject({
+      ok: true,
+      status: 'in_review',
+    });
+    const events = [{ actor_id: 'reviewer-1', kind: 'approved' as const }];
+    expect(planReviewAction(twoNeeded, 'approve', editor('reviewer-2'), events, null)).toMatchObject({
+      ok: true,
+      status: 'approved',
+    });
+  });
+
+  it('rejects a second approval from the same reviewer', () => {
+    const events = [{ actor_id: 'reviewer', kind: 'approved' as const }];
+    expect(planReviewAction({ ...review, required_approvals: 2 }, 'approve', editor('reviewer'), events, null)).toMatchObject({
+      ok: false,
+      status: 409,
+    });
+  });
+
+  it('requires a comment when requesting changes', () => {
+    expect(planReviewAction(review, 'request_changes', editor('reviewer'), [], null)).toMatchObject({
+      ok: false,
+      status: 400,
+    });
+    expect(planReviewAction(review, 'request_changes', editor('reviewer'), [], 'Fix q3')).toMatchObject({
+      ok: true,
+      status: 'changes_requested',
+    });
+  });
+
+  it('lets only the requester or an admin withdraw', () => {
+    expect(planReviewAction(review, 'withdraw', editor('reviewer'), [], null)).toMatchObject({ ok: false, status: 403 });
+    expect(planReviewAction(review, 'withdraw', editor('requester'), [], null)).toMatchObject({
+      ok: true,
+      status: 'withdrawn',
+    });
+    expect(planReviewAction(review, 'withdraw', { id: 'other', role: 'admin' }, [], null)).toMatchObject({ ok: true });
+  });
+
+  it('refuses decisions on closed reviews but still takes comments', () => {
+    const closed = { ...review, status: 'published' as const };
+    expect(planReviewAction(closed, 'approve', editor('reviewer'), [], null)).toMatchObject({ ok: false, status: 409 });
+    expect(planReviewAction(closed, 'comment', editor('requester'), [], 'Shipped')).toEqual({
+      ok: true,
+      event: 'comment',
+      status: 'published',
+    });
+  });
+});
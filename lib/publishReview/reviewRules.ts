@@ -0,0 +1,148 @@
+/**
+ * Publish Review Rules
+ *
+ * Two-person review for question set and results pack revisions. The medical content policy
+ * says nobody publishes content that only they have checked.
+ *
+ * draft → in_review (submitted) → approved (enough approvals) → published. Requesting changes
+ * or withdrawing closes the review and the revision is a draft again; resubmitting opens a
+ * new review with no approvals.
+ *
+ * Approvals count once per user. The requester and the author of the revision cannot approve
+ * it. The publish endpoints refuse a revision without an approved review.
+ *
+ * Client-safe: pure functions only.
+ */
+
+export type ReviewEntityType = 'question_set' | 'results_pack';
+
+export type PublishReviewStatus = 'in_review' | 'approved' | 'changes_requested' | 'withdrawn' | 'published';
+
+export type ReviewEventKind = 'submitted' | 'comment' | 'approved' | 'changes_requested' | 'withdrawn' | 'published';
+
+export type ReviewAction = 'approve' | 'request_changes' | 'comment' | 'withdraw';
+
+export interface PublishReview {
+  id: string;
+  entity_type: ReviewEntityType;
+  entity_id: string;
+  revision_id: string;
+  revision_number: number | null;
+  status: PublishReviewStatus;
+  required_approvals: number;
+  requested_by: string | null;
+  requested_by_email: string | null;
+  revision_created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  published_at: string | null;
+  published_by: string | null;
+}
+
+export interface PublishReviewEvent {
+  id: string;
+  review_id: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  kind: ReviewEventKind;
+  body: string | null;
+  created_at: string;
+}
+
+export interface ReviewActor {
+  id: string;
+  email: string | null;
+}
+
+export const OPEN_REVIEW_STATUSES: PublishReviewStatus[] = ['in_review', 'approved'];
+
+export const MAX_REQUIRED_APPROVALS = 3;
+
+export const MAX_REVIEW_COMMENT_LENGTH = 2000;
+
+/**
+ * Minimum approvals per review from PUBLISH_REQUIRED_APPROVALS (default 1, never below 1)
+ */
+export function getMinimumApprovals(value: string | undefined = process.env.PUBLISH_REQUIRED_APPROVALS): number {
+  const parsed = parseInt(value || '', 10);
+  if (isNaN(parsed) || parsed < 1) return 1;
+  return Math.min(parsed, MAX_REQUIRED_APPROVALS);
+}
+
+/**
+ * Approvals for a new review: the requester may ask for more than the minimum, never fewer
+ */
+export function resolveRequiredApprovals(requested: unknown, minimum: number = getMinimumApprovals()): number {
+  const value = typeof requested === 'number' && Number.isInteger(requested) ? requested : minimum;
+  return Math.min(Math.max(value, minimum), MAX_REQUIRED_APPROVALS);
+}
+
+export function isOpenReview(review: Pick<PublishReview, 'status'>): boolean {
+  return OPEN_REVIEW_STATUSES.indexOf(review.status) !== -1;
+}
+
+/**
+ * Users whose approval counts (distinct, excluding the requester and the revision author)
+ */
+export function countApprovals(
+  review: Pick<PublishReview, 'requested_by' | 'revision_created_by'>,
+  events: Array<Pick<PublishReviewEvent, 'actor_id' | 'kind'>>
+): number {
+  const approvers: Record<string, boolean> = {};
+  events.forEach((event) => {
+    if (event.kind !== 'approved' || !event.actor_id) return;
+    if (event.actor_id === review.requested_by || event.actor_id === review.revision_created_by) return;
+    approvers[event.actor_id] = true;
+  });
+  return Object.keys(approvers).length;
+}
+
+export type ReviewTransition =
+  | { ok: true; event: ReviewEventKind; status: PublishReviewStatus }
+  | { ok: false; status: 400 | 403 | 409; error: string };
+
+/**
+ * Outcome of `action` by `actor` on a review, given the approvals recorded so far
+ */
+export function planReviewAction(
+  review: Pick<PublishReview, 'status' | 'required_approvals' | 'requested_by' | 'revision_created_by'>,
+  action: ReviewAction,
+  actor: { id: string; role: string },
+  events: Array<Pick<PublishReviewEvent, 'actor_id' | 'kind'>>,
+  comment: string | null
+): ReviewTransition {
+  if (action === 'comment') {
+    if (!comment) return { ok: false, status: 400, error: 'A comment is required' };
+    return { ok: true, event: 'comment', status: review.status };
+  }
+
+  if (!isOpenReview(review)) {
+    return { ok: false, status: 409, error: `Review is ${review.status.replace('_', ' ')}` };
+  }
+
+  if (action === 'withdraw') {
+    if (actor.id !== review.requested_by && actor.role !== 'admin') {
+      return { ok: false, status: 403, error: 'Only the requester or an admin can withdraw a review' };
+    }
+    return { ok: true, event: 'withdrawn', status: 'withdrawn' };
+  }
+
+  if (actor.id === review.requested_by || actor.id === review.revision_created_by) {
+    return { ok: false, status: 403, error: 'A different user must review this revision' };
+  }
+
+  if (action === 'request_changes') {
+    if (!comment) return { ok: false, status: 400, error: 'Say what needs to change' };
+    return { ok: true, event: 'changes_requested', status: 'changes_requested' };
+  }
+
+  if (action === 'approve') {
+    if (events.some((event) => event.kind === 'approved' && event.actor_id === actor.id)) {
+      return { ok: false, status: 409, error: 'You already approved this revision' };
+    }
+    const approvals = countApprovals(review, events.concat([{ actor_id: actor.id, kind: 'approved' }]));
+    return { ok: true, event: 'approved', status: approvals >= review.required_approvals ? 'approved' : 'in_review' };
+  }
+
+  return { ok: false, status: 400, error: 'Unknown review action' };
+}
@@ -0,0 +1,362 @@
+/**
+ * Publish Reviews (server)
+ *
+ * Storage and notifications for the two-person publish review (lib/publishReview/reviewRules.ts):
+ * publish_reviews holds one row per review request, publish_review_events its timeline
+ * (submitted, comments, approvals, changes requested, withdrawn, published).
+ *
+ * Notifications go through the in-app email sender (lib/email/sender.ts) when one is
+ * configured: new requests to PUBLISH_REVIEW_NOTIFY_EMAILS (comma-separated), decisions and
+ * comments to the requester. A failed notification never fails the review action.
+ */
+
+import { supabaseAdmin } from '@/lib/supabaseServerClient';
+import { getEmailFrom, getEmailSender } from '@/lib/email/sender';
+import { getSiteUrl } from '@/lib/consent/emailConsent';
+import {
+  OPEN_REVIEW_STATUSES,
+  countApprovals,
+  planReviewAction,
+  type PublishReview,
+  type PublishReviewEvent,
+  type ReviewAction,
+  type ReviewActor,
+  type ReviewEntityType,
+  type ReviewEventKind,
+} from './reviewRules';
+
+export interface PublishReviewDetail extends PublishReview {
+  approvals: number;
+  events: PublishReviewEvent[];
+}
+
+export type ReviewResult =
+  | { ok: true; review: PublishReviewDetail }
+  | { ok: false; status: 400 | 403 | 404 | 409; error: string };
+
+const ENTITY_TABLES: Record<ReviewEntityType, { revisions: string; pointers: string; parentColumn: string }> = {
+  question_set: { revisions: 'question_set_revisions', pointers: 'question_set_pointers', parentColumn: 'question_set_id' },
+  results_pack: { revisions: 'results_pack_revisions', pointers: 'results_pack_pointers', parentColumn: 'pack_id' },
+};
+
+const ENTITY_LABELS: Record<ReviewEntityType, { label: string; path: string }> = {
+  question_set: { label: 'Question set', path: '/admin/question-sets' },
+  results_pack: { label: 'Results pack', path: '/admin/results-packs' },
+};
+
+const REVIEW_HISTORY_LIMIT = 50;
+
+async function loadEvents(reviewIds: string[]): Promise<Record<string, PublishReviewEvent[]>> {
+  const byReview: Record<string, PublishReviewEvent[]> = {};
+  if (reviewIds.length === 0) return byReview;
+
+  const { data, error } = await supabaseAdmin
+    .from('publish_review_events')
+    .select('*')
+    .in('review_id', reviewIds)
+    .order('created_at', { ascending: true });
+  if (error) {
+    throw new Error(`Database error: ${error.message}`);
+  }
+  ((data || []) as PublishReviewEvent[]).forEach((event) => {
+    (byReview[event.review_id] = byReview[event.review_id] || []).push(event);
+  });
+  return byReview;
+}
+
+async function withEvents(reviews: PublishReview[]): Promise<PublishReviewDetail[]> {
+  const events = await loadEvents(reviews.map((review) => review.id));
+  return reviews.map((review) => {
+    const reviewEvents = events[review.id] || [];
+    return { ...review, approvals: countApprovals(review, reviewEvents), events: reviewEvents };
+  });
+}
+
+async function getReview(reviewId: string): Promise<PublishReviewDetail | null> {
+  const { data, error } = await supabaseAdmin.from('publish_reviews').select('*').eq('id', reviewId).maybeSingle();
+  if (error) {
+    throw new Error(`Database error: ${error.message}`);
+  }
+  if (!data) return null;
+  const [review] = await withEvents([data as PublishReview]);
+  return review;
+}
+
+async function insertEvent(reviewId: string, actor: ReviewActor, kind: ReviewEventKind, body: string | null) {
+  const { error } = await supabaseAdmin.from('publish_review_events').insert({
+    review_id: reviewId,
+    actor_id: actor.id,
+    actor_email: actor.email,
+    kind,
+    body,
+  });
+  if (error) {
+    throw new Error(`Database error: ${error.message}`);
+  }
+}
+
+async function sendNotification(to: string[], subject: string, lines: string[]): Promise<void> {
+  const sender = getEmailSender();
+  if (!sender || to.length === 0) return;
+
+  const text = lines.join('\n\n');
+  const html = lines.map((line) => `<p>${line.replace(/&/g, '&amp;').replace(/</g, '&lt;')}</p>`).join('');
+  for (const recipient of to) {
+    try {
+      await sender.send({
+        to: recipient,
+        from: getEmailFrom(),
+        subject,
+        text,
+        html,
+        tags: { template: 'publish-review' },
+      });
+    } catch (error) {
+      console.warn('Failed to send publish review notification:', error);
+    }
+  }
+}
+
+function reviewLink(review: Pick<PublishReview, 'entity_type' | 'entity_id'>): string {
+  return `${getSiteUrl()}${ENTITY_LABELS[review.entity_type].path}/${review.entity_id}`;
+}
+
+function reviewerEmails(): string[] {
+  return (process.env.PUBLISH_REVIEW_NOTIFY_EMAILS || '')
+    .split(',')
+    .map((email) => email.trim())
+    .filter((email) => email.length > 0);
+}
+
+/**
+ * Reviews of one question set or results pack, newest first
+ */
+export async function listEntityReviews(entityType: ReviewEntityType, entityId: string): Promise<PublishReviewDetail[]> {
+  const { data, error } = await supabaseAdmin
+    .from('publish_reviews')
+    .select('*')
+    .eq('entity_type', entityType)
+    .eq('entity_id', entityId)
+    .order('created_at', { ascending: false })
+    .limit(REVIEW_HISTORY_LIMIT);
+  if (error) {
+    throw new Error(`Database error: ${error.message}`);
+  }
+  return withEvents((data || []) as PublishReview[]);
+}
+
+/**
+ * Review queue: every review waiting for approval or publish, oldest first
+ */
+export async function listOpenReviews(): Promise<PublishReviewDetail[]> {
+  const { data, error } = await supabaseAdmin
+    .from('publish_reviews')
+    .select('*')
+    .in('status', OPEN_REVIEW_STATUSES)
+    .order('created_at', { ascending: true })
+    .limit(REVIEW_HISTORY_LIMIT);
+  if (error) {
+    throw new Error(`Database error: ${error.message}`);
+  }
+  return withEvents((data || []) as PublishReview[]);
+}
+
+/**
+ * Open a review for a revision (draft → in_review)
+ */
+export async function submitForReview(input: {
+  entityType: ReviewEntityType;
+  entityId: string;
+  revisionId: string;
+  actor: ReviewActor;
+  requiredApprovals: number;
+  comment: string | null;
+}): Promise<ReviewResult> {
+  const tables = ENTITY_TABLES[input.entityType];
+
+  const { data: revision, error: revError } = await supabaseAdmin
+    .from(tables.revisions)
+    .select(`id, revision_number, created_by, ${tables.parentColumn}`)
+    .eq('id', input.revisionId)
+    .maybeSingle();
+  if (revError) {
+    throw new Error(`Database error: ${revError.message}`);
+  }
+  const revisionRow = revision as Record<string, any> | null;
+  if (!revisionRow || revisionRow[tables.parentColumn] !== input.entityId) {
+    return { ok: false, status: 404, error: 'Revision not found' };
+  }
+
+  const { data: pointer, error: ptrError } = await supabaseAdmin
+    .from(tables.pointers)
+    .select('published_revision_id')
+    .eq(tables.parentColumn, input.entityId)
+    .maybeSingle();
+  if (ptrError) {
+    throw new Error(`Database error: ${ptrError.message}`);
+  }
+  if (pointer?.published_revision_id === input.revisionId) {
+    return { ok: false, status: 409, error: 'Revision is already published' };
+  }
+
+  const { data: created, error: insertError } = await supabaseAdmin
+    .from('publish_reviews')
+    .insert({
+      entity_type: input.entityType,
+      entity_id: input.entityId,
+      revision_id: input.revisionId,
+      revision_number: revisionRow.revision_number,
+      status: 'in_review',
+      required_approvals: input.requiredApprovals,
+      requested_by: input.actor.id,
+      requested_by_email: input.actor.email,
+      revision_created_by: revisionRow.created_by || null,
+    })
+    .select('*')
+    .single();
+  if (insertError) {
+    // Unique index: one open review per revision
+    if (insertError.code === '23505') {
+      return { ok: false, status: 409, error: 'Revision already has an open review' };
+    }
+    throw new Error(`Database error: ${insertError.message}`);
+  }
+
+  await insertEvent(created.id, input.actor, 'submitted', input.comment);
+
+  const { label } = ENTITY_LABELS[input.entityType];
+  await sendNotification(reviewerEmails(), `Review requested: ${label} revision #${revisionRow.revision_number}`, [
+    `${input.actor.email || 'An editor'} asked for a review of ${label.toLowerCase()} revision #${revisionRow.revision_number} (${input.requiredApprovals} approval${input.requiredApprovals === 1 ? '' : 's'} needed).`,
+    ...(input.comment ? [`"${input.comment}"`] : []),
+    `Review it: ${reviewLink(created as PublishReview)}`,
+  ]);
+
+  const review = await getReview(created.id);
+  return { ok: true, review: review as PublishReviewDetail };
+}
+
+/**
+ * Approve, request changes, comment on or withdraw a review
+ */
+export async function actOnReview(input: {
+  reviewId: string;
+  action: ReviewAction;
+  actor: ReviewActor & { role: string };
+  comment: string | null;
+}): Promise<ReviewResult> {
+  const review = await getReview(input.reviewId);
+  if (!review) {
+    return { ok: false, status: 404, error: 'Review not found' };
+  }
+
+  const transition = planReviewAction(review, input.action, input.actor, review.events, input.comment);
+  if (!transition.ok) {
+    return transition;
+  }
+
+  if (transition.status !== review.status) {
+    // Conditional on the status we planned from, so concurrent decisions cannot both apply
+    const { data: updated, error } = await supabaseAdmin
+      .from('publish_reviews')
+      .update({ status: transition.status, updated_at: new Date().toISOString() })
+      .eq('id', review.id)
+      .eq('status', review.status)
+      .select('id');
+    if (error) {
+      throw new Error(`Database error: ${error.message}`);
+    }
+    if (!updated || updated.length === 0) {
+      return { ok: false, status: 409, error: 'Review changed while you were looking at it; reload and try again' };
+    }
+  }
+  await insertEvent(review.id, input.actor, transition.event, input.comment);
+
+  const requester = review.requested_by_email;
+  if (requester && review.requested_by !== input.actor.id) {
+    const { label } = ENTITY_LABELS[review.entity_type];
+    const headline: Record<string, string> = {
+      approved: transition.status === 'approved' ? 'is approved and ready to publish' : 'received an approval',
+      changes_requested: 'needs changes',
+      comment: 'has a new comment',
+      withdrawn: 'was withdrawn',
+    };
+    await sendNotification([requester], `${label} review ${headline[transition.event] || 'updated'}`, [
+      `Your ${label.toLowerCase()} review ${headline[transition.event] || 'was updated'} (${input.actor.email || 'a reviewer'}).`,
+      ...(input.comment ? [`"${input.comment}"`] : []),
+      `Open it: ${reviewLink(review)}`,
+    ]);
+  }
+
+  const updatedReview = await getReview(review.id);
+  return { ok: true, review: updatedReview as PublishReviewDetail };
+}
+
+/**
+ * The approved review that allows publishing this revision, if any
+ */
+export async function getApprovedReview(
+  entityType: ReviewEntityType,
+  entityId: string,
+  revisionId: string
+): Promise<PublishReview | null> {
+  const { data, error } = await supabaseAdmin
+    .from('publish_reviews')
+    .select('*')
+    .eq('entity_type', entityType)
+    .eq('entity_id', entityId)
+    .eq('revision_id', revisionId)
+    .eq('status', 'approved')
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Database error: ${error.message}`);
+  }
+  return (data as PublishReview) || null;
+}
+
+/**
+ * Close an approved review before its revision goes live (approved → published)
+ *
+ * Only succeeds while the review is still approved, so one approval publishes its revision
+ * once: a concurrent publish, or republishing after a rollback, needs a new review.
+ *
+ * @returns false if the review was no longer approved
+ */
+export async function markReviewPublished(review: PublishReview, actor: ReviewActor): Promise<boolean> {
+  const now = new Date().toISOString();
+  const { data, error } = await supabaseAdmin
+    .from('publish_reviews')
+    .update({ status: 'published', published_at: now, published_by: actor.id, updated_at: now })
+    .eq('id', review.id)
+    .eq('status', 'approved')
+    .select('id');
+  if (error) {
+    throw new Error(`Database error: ${error.message}`);
+  }
+  if (!data || data.length === 0) {
+    return false;
+  }
+  await insertEvent(review.id, actor, 'published', null);
+  return true;
+}
+
+/**
+ * Undo markReviewPublished when the pointer update after it failed (published → approved)
+ */
+export async function reopenPublishedReview(review: PublishReview): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('publish_reviews')
+    .update({ status: 'approved', published_at: null, published_by: null, updated_at: new Date().toISOString() })
+    .eq('id', review.id)
+    .eq('status', 'published');
+  if (error) {
+    throw new Error(`Database error: ${error.message}`);
+  }
+  const { error: eventError } = await supabaseAdmin
+    .from('publish_review_events')
+    .delete()
+    .eq('review_id', review.id)
+    .eq('kind', 'published');
+  if (eventError) {
+    throw new Error(`Database error: ${eventError.message}`);
+  }
+}
@@ -2,7 +2,7 @@
  * Tests for CSV Import Functionality
  */
 
-import { parseCSV } from '../csvParser';
+import { parseCSV, type ParsedCSVRow } from '../csvParser';
 import { buildQuestionSetFromCSV } from '../csvToQuestionSet';
 
 describe('parseCSV', () => {
@@ -28,6 +28,25 @@ describe('parseCSV', () => {
     });
   });
 
+  describe('optional columns', () => {
+    it('should accept optional trailing columns and default missing ones to empty', () => {
+      const content = 'question_id,text,max_length\nq1,Notes,140';
+      const result = parseCSV(content, 'questions.csv', ['question_id', 'text'], ['type', 'max_length']);
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.rows[0].max_length).toBe('140');
+      expect(result.rows[0].type).toBe('');
+    });
+
+    it('should reject unknown trailing columns', () => {
+      const content = 'question_id,text,colour\nq1,Notes,red';
+      const result = parseCSV(content, 'questions.csv', ['question_id', 'text'], ['type']);
+
+      expect(result.errors[0].column).toBe('colour');
+      expect(result.errors[0].message).toContain('Unexpected column');
+    });
+  });
+
   describe('error cases', () => {
     it('should reject CSV with wrong number of columns in header', () => {
       const content = 'key,value,extra\nversion,2,foo';
@@ -259,6 +278,51 @@ describe('buildQuestionSetFromCSV', () => {
     });
   });
 
+  describe('question types', () => {
+    const sectionRows: ParsedCSVRow[] = [{ section_id: 's1', title: 'Section 1', order: '1', __rowNumber: 2 }];
+    const typedQuestionRows: ParsedCSVRow[] = [
+      { question_id: 'q1', section_id: 's1', text: 'Symptoms', order: '1', type: 'multi', min_selections: '1', max_selections: '', __rowNumber: 2 },
+      { question_id: 'q2', section_id: 's1', text: 'Stress', order: '2', type: 'slider', slider_min: '0', slider_max: '10', slider_step: '1', min_label: 'Calm', max_label: '', __rowNumber: 3 },
+      { question_id: 'q3', section_id: 's1', text: 'Anything else?', order: '3', type: 'text', max_length: '140', required: 'no', __rowNumber: 4 },
+    ];
+    const multiOptionRows: ParsedCSVRow[] = [
+      { question_id: 'q1', option_id: 'gas', label: 'Gas', value: '1', exclusive: '', __rowNumber: 2 },
+      { question_id: 'q1', option_id: 'bloating', label: 'Bloating', value: '1', exclusive: '', __rowNumber: 3 },
+      { question_id: 'q1', option_id: 'none', label: 'None of these', value: '0', exclusive: 'true', __rowNumber: 4 },
+    ];
+
+    it('should build multi-select, slider and text questions from optional columns', () => {
+      const result = buildQuestionSetFromCSV(validMetaRows, sectionRows, typedQuestionRows, multiOptionRows);
+
+      expect(result.errors).toHaveLength(0);
+      const [multi, slider, text] = result.questionSet!.questions;
+      expect(multi).toMatchObject({ type: 'multi', minSelections: 1 });
+      expect(multi.maxSelections).toBeUndefined();
+      // Multi-select options keep CSV order
+      expect(multi.options.map((o) => o.id)).toEqual(['gas', 'bloating', 'none']);
+      expect(multi.options[2].exclusive).toBe(true);
+      expect(slider).toMatchObject({ type: 'slider', slider: { min: 0, max: 10, step: 1, minLabel: 'Calm' }, options: [] });
+      expect(text).toMatchObject({ type: 'text', maxLength: 140, required: false, options: [] });
+    });
+
+    it('should reject unknown types, missing slider range and options on text questions', () => {
+      const result = buildQuestionSetFromCSV(
+        validMetaRows,
+        sectionRows,
+        [
+          { ...typedQuestionRows[0], type: 'ranking' },
+          { ...typedQuestionRows[1], slider_max: '' },
+          typedQuestionRows[2],
+        ],
+        [{ question_id: 'q3', option_id: 'o3-0', label: 'Option 0', value: '0', exclusive: '', __rowNumber: 2 }]
+      );
+
+      expect(result.errors.some((e) => e.column === 'type' && e.message.includes('got "ranking"'))).toBe(true);
+      expect(result.errors.some((e) => e.column === 'slider_max')).toBe(true);
+      expect(result.errors.some((e) => e.message.includes('is a text question and cannot have options'))).toBe(true);
+    });
+  });
+
   describe('error cases - unknown section_id', () => {
     it('should reject if question references non-existent section_id', () => {
       const invalidQuestions = [
@@ -0,0 +1,92 @@
+/**
+ * Tests for question set revision diffs and scoring warnings
+ */
+
+import { diffQuestionSets } from '../diffQuestionSet';
+import type { QuestionSet } from '../validateQuestionSet';
+
+// The diff only compares values, so the scoring block can be a partial spec
+type QuestionSetFixture = Omit<QuestionSet, 'scoring'> & { scoring: { axes: string[]; fallbackLevel: string } };
+
+const published: QuestionSetFixture = {
+  version: '2',
+  assessmentType: 'gut-check',
+  sections: [{ id: 's1', title: 'Digestion', questionIds: ['q1', 'q2'] }],
+  questions: [
+    {
+      id: 'q1',
+      text: 'How often do you feel bloated?',
+      options: [
+        { id: 'never', label: 'Never', value: 0 },
+        { id: 'often', label: 'Often', value: 2 },
+      ],
+    },
+    {
+      id: 'q2',
+      text: 'How well do you sleep?',
+      type: 'slider',
+      slider: { min: 0, max: 10 },
+      options: [],
+    },
+  ],
+  scoring: { axes: ['capacity'], fallbackLevel: 'level1' },
+};
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+describe('diffQuestionSets', () => {
+  it('groups changes by question with its text', () => {
+    const next = clone(published);
+    next.questions[0].text = 'How often do you feel bloated after meals?';
+    next.sections[0].title = 'Gut';
+
+    const diff = diffQuestionSets(published, next);
+    expect(diff.groups.map((group) => group.title)).toEqual([
+      'Question q1: How often do you feel bloated after meals?',
+      'Sections',
+    ]);
+    expect(diff.groups[0].changes[0].path).toBe('questions[id=q1].text');
+  });
+
+  it('does not warn about copy changes', () => {
+    const next = clone(published);
+    next.questions[0].options[1].label = 'Most days';
+    expect(diffQuestionSets(published, next).scoringWarnings).toEqual([]);
+  });
+
+  it('warns when an option value changes', () => {
+    const next = clone(published);
+    next.questions[0].options[1].value = 3;
+    expect(diffQuestionSets(published, next).scoringWarnings).toEqual([
+      'Question q1 option often value changes from 2 to 3.',
+    ]);
+  });
+
+  it('warns about added options, slider ranges and removed questions', () => {
+    const next = clone(published);
+    next.questions[0].options.push({ id: 'always', label: 'Always', value: 3 });
+    next.questions[1].slider!.max = 5;
+    const removed = clone(published);
+    removed.questions.splice(1, 1);
+
+    expect(diffQuestionSets(published, next).scoringWarnings).toEqual([
+      'Question q1 option always is added.',
+      'Question q2 slider.max changes, which can change how answers are scored.',
+    ]);
+    expect(diffQuestionSets(published, removed).scoringWarnings).toEqual([
+      'Question q2 is removed; its answers will no longer be scored.',
+    ]);
+  });
+
+  it('summarizes scoring block changes in one warning', () => {
+    const next = clone(published);
+    next.scoring = { axes: ['capacity', 'buffer'], fallbackLevel: 'level2' };
+
+    const diff = diffQuestionSets(published, next);
+    expect(diff.scoringWarnings).toHaveLength(1);
+    expect(diff.scoringWarnings[0]).toMatch(/^Scoring rules change \(2 changes\)/);
+    expect(diff.groups.map((group) => group.title)).toEqual(['Scoring']);
+  });
+});
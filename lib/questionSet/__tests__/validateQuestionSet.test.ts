@@ -68,11 +68,11 @@ describe('validateQuestionSet', () => {
       expect(result.errors).toContain('version must be "2", got "1".');
     });
 
-    it('should fail if assessmentType is not "gut-check"', () => {
+    it('should fail if assessmentType is not registered', () => {
       const invalid = { ...validQuestionSet, assessmentType: 'other' };
       const result = validateQuestionSet(invalid);
       expect(result.ok).toBe(false);
-      expect(result.errors).toContain('assessmentType must be "gut-check", got "other".');
+      expect(result.errors).toContain('assessmentType must be one of "gut-check", got "other".');
     });
 
     it('should fail if sections array is empty', () => {
@@ -240,6 +240,261 @@ describe('validateQuestionSet', () => {
       expect(result.errors.some(e => e.includes('o1-0" is duplicate within question'))).toBe(true);
     });
   });
+
+  describe('scoring block', () => {
+    const scoring = {
+      axes: ['capacity'],
+      questionAxes: {
+        q1: { primary: 'capacity', reverse: true },
+      },
+      levels: ['level1', 'level2'],
+      levelRules: [{ level: 'level2', when: { axis: 'capacity', is: 'high' } }],
+      fallbackLevel: 'level1',
+      modifierRules: [{ modifier: 'strained', when: { axis: 'capacity', isNot: 'low' } }],
+      confidence: { questionIds: ['q2'], highMaxSpread: 0, moderateMaxSpread: 1 },
+    };
+
+    it('should warn (not fail) when the scoring block is missing', () => {
+      const result = validateQuestionSet(validQuestionSet);
+      expect(result.ok).toBe(true);
+      expect(result.warnings.some(w => w.includes('scoring block is missing'))).toBe(true);
+    });
+
+    it('should validate a valid scoring block', () => {
+      const result = validateQuestionSet({ ...validQuestionSet, scoring });
+      expect(result.ok).toBe(true);
+      expect(result.errors).toHaveLength(0);
+    });
+
+    it('should fail if questionAxes references a missing question', () => {
+      const invalid = {
+        ...validQuestionSet,
+        scoring: { ...scoring, questionAxes: { ...scoring.questionAxes, q9: { primary: 'capacity' } } },
+      };
+      const result = validateQuestionSet(invalid);
+      expect(result.ok).toBe(false);
+      expect(result.errors).toContain('scoring.questionAxes.q9 references question.id "q9" which does not exist.');
+    });
+
+    it('should fail if a mapping or condition uses an undeclared axis', () => {
+      const invalid = {
+        ...validQuestionSet,
+        scoring: {
+          ...scoring,
+          questionAxes: { q1: { primary: 'buffer' } },
+          levelRules: [{ level: 'level2', when: { all: [{ axis: 'recovery', is: 'high' }] } }],
+        },
+      };
+      const result = validateQuestionSet(invalid);
+      expect(result.ok).toBe(false);
+      expect(result.errors).toContain('scoring.questionAxes.q1.primary "buffer" is not a declared axis.');
+      expect(result.errors).toContain('scoring.levelRules[0].when.all[0].axis "recovery" is not a declared axis.');
+    });
+
+    it('should fail if level rules or fallback reference undeclared levels', () => {
+      const invalid = {
+        ...validQuestionSet,
+        scoring: {
+          ...scoring,
+          levelRules: [{ level: 'level9', when: { axis: 'capacity', is: 'high' } }],
+          fallbackLevel: 'level0',
+        },
+      };
+      const result = validateQuestionSet(invalid);
+      expect(result.ok).toBe(false);
+      expect(result.errors).toContain('scoring.levelRules[0].level "level9" is not a declared level.');
+      expect(result.errors).toContain('scoring.fallbackLevel "level0" is not a declared level.');
+    });
+
+    it('should fail on invalid bands and weights', () => {
+      const invalid = {
+        ...validQuestionSet,
+        scoring: {
+          ...scoring,
+          questionAxes: { q1: { primary: 'capacity', weight: 0 } },
+          modifierRules: [{ modifier: 'strained', when: { axis: 'capacity', is: 'extreme' } }],
+        },
+      };
+      const result = validateQuestionSet(invalid);
+      expect(result.ok).toBe(false);
+      expect(result.errors).toContain('scoring.questionAxes.q1.weight must be a positive number.');
+      expect(result.errors.some(e => e.includes('got "extreme"'))).toBe(true);
+    });
+  });
+
+  describe('question types', () => {
+    const multi = {
+      id: 'q3',
+      type: 'multi',
+      text: 'Select all symptoms that apply',
+      options: [
+        { id: 'gas', label: 'Gas', value: 1 },
+        { id: 'bloating', label: 'Bloating', value: 1 },
+        { id: 'none', label: 'None of these', value: 0, exclusive: true },
+      ],
+      maxSelections: 2,
+    };
+    const slider = { id: 'q4', type: 'slider', text: 'Stress level', options: [], slider: { min: 0, max: 10, step: 1 } };
+    const text = { id: 'q5', type: 'text', text: 'Anything else?', maxLength: 280 };
+    const withQuestions = (...extra: any[]) => ({
+      ...validQuestionSet,
+      sections: [{ id: 'section1', title: 'Section 1', questionIds: ['q1', 'q2', ...extra.map((q) => q.id)] }],
+      questions: [...validQuestionSet.questions, ...extra],
+    });
+
+    it('should validate multi-select, slider and text questions', () => {
+      const result = validateQuestionSet(withQuestions(multi, slider, text));
+      expect(result.errors).toHaveLength(0);
+      expect(result.ok).toBe(true);
+    });
+
+    it('should fail on an unknown type', () => {
+      const result = validateQuestionSet(withQuestions({ ...text, type: 'ranking' }));
+      expect(result.ok).toBe(false);
+      expect(result.errors.some(e => e.includes('questions[2].type must be one of') && e.includes('got "ranking"'))).toBe(true);
+    });
+
+    it('should fail on invalid multi-select limits', () => {
+      const result = validateQuestionSet(withQuestions({ ...multi, minSelections: 3, maxSelections: 4 }));
+      expect(result.ok).toBe(false);
+      expect(result.errors).toContain('questions[2].maxSelections (4) must be <= the number of options (3).');
+      expect(validateQuestionSet(withQuestions({ ...multi, minSelections: 2, maxSelections: 1 })).errors).toContain(
+        'questions[2].minSelections (2) must be <= maxSelections (1).'
+      );
+    });
+
+    it('should fail on an invalid slider range or step', () => {
+      const result = validateQuestionSet(withQuestions({ ...slider, slider: { min: 0, max: 10, step: 3 } }));
+      expect(result.errors).toContain('questions[2].slider.step must divide the range (max - min) evenly.');
+      expect(validateQuestionSet(withQuestions({ ...slider, slider: { min: 5, max: 5 } })).errors).toContain(
+        'questions[2].slider.min must be less than slider.max.'
+      );
+    });
+
+    it('should fail on fields that do not belong to the type', () => {
+      const result = validateQuestionSet(withQuestions({ ...text, options: multi.options, maxSelections: 2 }));
+      expect(result.errors).toContain('questions[2].options must be empty for text questions.');
+      expect(result.errors).toContain('questions[2].maxSelections is only allowed on multi questions.');
+    });
+
+    it('should fail if scoring references a text question', () => {
+      const result = validateQuestionSet({
+        ...withQuestions(text),
+        scoring: {
+          axes: ['capacity'],
+          questionAxes: { q1: { primary: 'capacity' }, q5: { primary: 'capacity' } },
+          levels: ['level1'],
+          levelRules: [],
+          fallbackLevel: 'level1',
+          modifierRules: [],
+          confidence: { questionIds: ['q2'], highMaxSpread: 0, moderateMaxSpread: 1 },
+        },
+      });
+      expect(result.ok).toBe(false);
+      expect(result.errors).toContain('scoring.questionAxes.q5 references a text question; text answers are not scored.');
+    });
+  });
+
+  describe('visibleIf rules', () => {
+    const makeQuestion = (n: number, visibleIf?: unknown) => ({
+      id: `q${n}`,
+      text: `Question ${n}`,
+      options: [0, 1, 2, 3].map((v) => ({ id: `o${n}-${v}`, label: `Option ${v}`, value: v })),
+      ...(visibleIf ? { visibleIf } : {}),
+    });
+    const withQuestions = (...questions: any[]) => ({
+      ...validQuestionSet,
+      sections: [{ id: 'section1', title: 'Section 1', questionIds: questions.map((q) => q.id) }],
+      questions,
+    });
+
+    it('should validate a question that branches on an earlier answer', () => {
+      const result = validateQuestionSet(
+        withQuestions(makeQuestion(1), makeQuestion(2, { question: 'q1', isNot: 'o1-0' }), makeQuestion(3))
+      );
+      expect(result.ok).toBe(true);
+      expect(result.errors).toHaveLength(0);
+    });
+
+    it('should fail on unknown questions and options', () => {
+      const result = validateQuestionSet(
+        withQuestions(
+          makeQuestion(1),
+          makeQuestion(2, { any: [{ question: 'q9', is: 'o9-0' }, { question: 'q1', is: 'o1-7' }] })
+        )
+      );
+      expect(result.ok).toBe(false);
+      expect(result.errors).toContain('questions[1].visibleIf references question.id "q9" which does not exist.');
+      expect(result.errors).toContain(
+        'questions[1].visibleIf references option.id "o1-7" which does not exist on question "q1".'
+      );
+    });
+
+    it('should fail on malformed conditions', () => {
+      const result = validateQuestionSet(
+        withQuestions(makeQuestion(1), makeQuestion(2, { all: [] }), makeQuestion(3, { question: 'q1' }))
+      );
+      expect(result.ok).toBe(false);
+      expect(result.errors).toContain('questions[1].visibleIf.all must be a non-empty array.');
+      expect(result.errors).toContain('questions[2].visibleIf must have exactly one of "is" or "isNot".');
+    });
+
+    it('should fail on cycles', () => {
+      const result = validateQuestionSet(
+        withQuestions(
+          makeQuestion(1, { question: 'q2', is: 'o2-1' }),
+          makeQuestion(2, { question: 'q1', is: 'o1-1' })
+        )
+      );
+      expect(result.ok).toBe(false);
+      expect(result.errors).toContain('visibleIf rules form a cycle: q1 → q2 → q1.');
+    });
+
+    it('should fail on references to later questions', () => {
+      const result = validateQuestionSet(
+        withQuestions(makeQuestion(1, { question: 'q2', is: 'o2-1' }), makeQuestion(2))
+      );
+      expect(result.ok).toBe(false);
+      expect(result.errors.some(e => e.includes('conditions may only reference earlier questions'))).toBe(true);
+    });
+
+    it('should fail on unreachable questions (including via hidden dependencies)', () => {
+      const result = validateQuestionSet(
+        withQuestions(
+          makeQuestion(1),
+          makeQuestion(2, { all: [{ question: 'q1', is: 'o1-0' }, { question: 'q1', isNot: 'o1-0' }] }),
+          makeQuestion(3, { question: 'q2', is: 'o2-1' })
+        )
+      );
+      expect(result.ok).toBe(false);
+      expect(result.errors).toContain('questions[1] ("q2") is unreachable: its visibleIf can never be satisfied.');
+      expect(result.errors).toContain('questions[2] ("q3") is unreachable: its visibleIf can never be satisfied.');
+    });
+
+    it('should treat multi-select picks as combinations and reject slider/text references', () => {
+      const symptoms = { ...makeQuestion(1), type: 'multi' };
+      const stress = { id: 'q2', type: 'slider', text: 'Stress', options: [], slider: { min: 0, max: 10 } };
+      const result = validateQuestionSet(
+        withQuestions(
+          symptoms,
+          stress,
+          makeQuestion(3, { all: [{ question: 'q1', is: 'o1-1' }, { question: 'q1', is: 'o1-2' }] }),
+          makeQuestion(4, { question: 'q2', is: 'o2-1' })
+        )
+      );
+      expect(result.errors).toEqual([
+        'questions[3].visibleIf references question "q2", which has no options (slider/text).',
+      ]);
+    });
+
+    it('should warn when a condition can never hide its question', () => {
+      const result = validateQuestionSet(
+        withQuestions(makeQuestion(1), makeQuestion(2, { question: 'q1', is: ['o1-0', 'o1-1', 'o1-2', 'o1-3'] }))
+      );
+      expect(result.ok).toBe(true);
+      expect(result.warnings).toContain('questions[1].visibleIf is always satisfied; the question is never skipped.');
+    });
+  });
 });
 
 describe('hashQuestionSetJson', () => {
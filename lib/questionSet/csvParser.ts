@@ -18,11 +18,15 @@ export interface ParsedCSVRow {
 
 /**
  * Parse CSV content into rows with header validation
+ *
+ * @param optionalHeaders - Extra columns that may follow the expected headers (any order);
+ *   missing optional columns read as empty strings
  */
 export function parseCSV(
   content: string,
   filename: string,
-  expectedHeaders: string[]
+  expectedHeaders: string[],
+  optionalHeaders: string[] = []
 ): { rows: ParsedCSVRow[]; errors: CSVParseError[] } {
   const errors: CSVParseError[] = [];
   const rows: ParsedCSVRow[] = [];
@@ -44,16 +48,18 @@ export function parseCSV(
   const headers = parseCSVLine(headerLine);
 
   // Validate headers match expected
-  if (headers.length !== expectedHeaders.length) {
+  if (headers.length < expectedHeaders.length || headers.length > expectedHeaders.length + optionalHeaders.length) {
     errors.push({
       file: filename,
       row: 1,
-      message: `Expected ${expectedHeaders.length} columns, got ${headers.length}`,
+      message: optionalHeaders.length
+        ? `Expected ${expectedHeaders.length} to ${expectedHeaders.length + optionalHeaders.length} columns, got ${headers.length}`
+        : `Expected ${expectedHeaders.length} columns, got ${headers.length}`,
     });
     return { rows, errors };
   }
 
-  for (let i = 0; i < headers.length; i++) {
+  for (let i = 0; i < expectedHeaders.length; i++) {
     if (headers[i] !== expectedHeaders[i]) {
       errors.push({
         file: filename,
@@ -65,6 +71,22 @@ export function parseCSV(
     }
   }
 
+  const seenOptional = new Set<string>();
+  for (let i = expectedHeaders.length; i < headers.length; i++) {
+    if (!optionalHeaders.includes(headers[i]) || seenOptional.has(headers[i])) {
+      errors.push({
+        file: filename,
+        row: 1,
+        column: headers[i],
+        message: seenOptional.has(headers[i])
+          ? `Duplicate column "${headers[i]}"`
+          : `Unexpected column "${headers[i]}" (optional columns: ${optionalHeaders.join(', ')})`,
+      });
+      return { rows, errors };
+    }
+    seenOptional.add(headers[i]);
+  }
+
   // Parse data rows (skip header)
   for (let i = 1; i < lines.length; i++) {
     const line = lines[i];
@@ -80,6 +102,9 @@ export function parseCSV(
     }
 
     const row: ParsedCSVRow = { __rowNumber: i + 1 };
+    for (const header of optionalHeaders) {
+      row[header] = '';
+    }
     for (let j = 0; j < headers.length; j++) {
       row[headers[j]] = values[j].trim();
     }
@@ -2,11 +2,37 @@
  * CSV to Question Set JSON Builder
  * 
  * Converts parsed CSV data into canonical Questions JSON v2 structure
+ *
+ * questions.csv may add optional columns for non-single-choice questions
+ * (see lib/assessments/questions/questionTypes.ts):
+ * - type: single (default) | multi | slider | text
+ * - min_selections, max_selections: multi
+ * - slider_min, slider_max, slider_step, min_label, max_label: slider
+ * - max_length, required: text
+ * options.csv may add an optional `exclusive` column (multi, e.g. "None of these").
  */
 
 import type { ParsedCSVRow } from './csvParser';
 import type { CSVParseError } from './csvParser';
 import type { QuestionSet } from './validateQuestionSet';
+import { QUESTION_TYPES, type QuestionType } from '@/lib/assessments/questions/questionTypes';
+
+/** Optional trailing columns accepted in questions.csv */
+export const QUESTION_CSV_OPTIONAL_COLUMNS = [
+  'type',
+  'min_selections',
+  'max_selections',
+  'slider_min',
+  'slider_max',
+  'slider_step',
+  'min_label',
+  'max_label',
+  'max_length',
+  'required',
+];
+
+/** Optional trailing columns accepted in options.csv */
+export const OPTION_CSV_OPTIONAL_COLUMNS = ['exclusive'];
 
 export interface BuildQuestionSetResult {
   questionSet?: QuestionSet;
@@ -38,6 +64,118 @@ interface OptionRow {
   value: string;
 }
 
+type QuestionTypeFields = Omit<QuestionSet['questions'][number], 'id' | 'text' | 'options'>;
+
+function readCell(row: ParsedCSVRow, column: string): string {
+  const value = row[column];
+  if (value === undefined || value === null) return '';
+  return typeof value === 'string' ? value.trim() : String(value);
+}
+
+/**
+ * Parse an optional numeric cell (empty = undefined)
+ */
+function readOptionalNumber(
+  row: ParsedCSVRow,
+  file: string,
+  column: string,
+  errors: CSVParseError[],
+  integer = false
+): number | undefined {
+  const cell = readCell(row, column);
+  if (!cell) return undefined;
+  const value = Number(cell);
+  if (isNaN(value) || (integer && !Number.isInteger(value))) {
+    errors.push({
+      file,
+      row: row.__rowNumber,
+      column,
+      message: `${column} must be ${integer ? 'an integer' : 'numeric'}, got "${cell}"`,
+    });
+    return undefined;
+  }
+  return value;
+}
+
+/**
+ * Parse an optional boolean cell (true/false, yes/no, 1/0; empty = undefined)
+ */
+function readOptionalBoolean(
+  row: ParsedCSVRow,
+  file: string,
+  column: string,
+  errors: CSVParseError[]
+): boolean | undefined {
+  const cell = readCell(row, column).toLowerCase();
+  if (!cell) return undefined;
+  if (['true', 'yes', '1'].includes(cell)) return true;
+  if (['false', 'no', '0'].includes(cell)) return false;
+  errors.push({
+    file,
+    row: row.__rowNumber,
+    column,
+    message: `${column} must be true or false, got "${cell}"`,
+  });
+  return undefined;
+}
+
+/**
+ * Parse type-specific question columns (only the columns relevant to the type are read)
+ */
+function readQuestionTypeFields(row: ParsedCSVRow, errors: CSVParseError[]): QuestionTypeFields | null {
+  const file = 'questions.csv';
+  const typeCell = readCell(row, 'type').toLowerCase() || 'single';
+
+  if (!QUESTION_TYPES.includes(typeCell as QuestionType)) {
+    errors.push({
+      file,
+      row: row.__rowNumber,
+      column: 'type',
+      message: `type must be one of ${QUESTION_TYPES.join(', ')}, got "${typeCell}"`,
+    });
+    return null;
+  }
+
+  const type = typeCell as QuestionType;
+  const fields: QuestionTypeFields = type === 'single' ? {} : { type };
+
+  if (type === 'multi') {
+    const minSelections = readOptionalNumber(row, file, 'min_selections', errors, true);
+    const maxSelections = readOptionalNumber(row, file, 'max_selections', errors, true);
+    if (minSelections !== undefined) fields.minSelections = minSelections;
+    if (maxSelections !== undefined) fields.maxSelections = maxSelections;
+  } else if (type === 'slider') {
+    const min = readOptionalNumber(row, file, 'slider_min', errors);
+    const max = readOptionalNumber(row, file, 'slider_max', errors);
+    const step = readOptionalNumber(row, file, 'slider_step', errors);
+    if (min === undefined || max === undefined) {
+      errors.push({
+        file,
+        row: row.__rowNumber,
+        column: min === undefined ? 'slider_min' : 'slider_max',
+        message: 'slider questions require slider_min and slider_max',
+      });
+      return null;
+    }
+    const minLabel = readCell(row, 'min_label');
+    const maxLabel = readCell(row, 'max_label');
+    fields.slider = {
+      min,
+      max,
+      ...(step !== undefined ? { step } : {}),
+      ...(minLabel ? { minLabel } : {}),
+      ...(maxLabel ? { maxLabel } : {}),
+    };
+  } else if (type === 'text') {
+    const maxLength = readOptionalNumber(row, file, 'max_length', errors, true);
+    const required = readOptionalBoolean(row, file, 'required', errors);
+    if (maxLength !== undefined) fields.maxLength = maxLength;
+    if (required !== undefined) fields.required = required;
+  }
+
+  return fields;
+}
+
 /**
  * Build QuestionSet JSON from parsed CSV rows
  */
@@ -150,7 +288,10 @@ export function buildQuestionSetFromCSV(
   }
 
   // Parse questions (group by section_id, sort by order within section)
-  const questionsBySection = new Map<string, Array<{ row: ParsedCSVRow; question_id: string; text: string; order: number }>>();
+  const questionsBySection = new Map<
+    string,
+    Array<{ row: ParsedCSVRow; question_id: string; text: string; order: number; typeFields: QuestionTypeFields }>
+  >();
 
   for (const row of questionRows) {
     const question_id = typeof row.question_id === 'string' ? row.question_id.trim() : String(row.question_id);
@@ -180,6 +321,11 @@ export function buildQuestionSetFromCSV(
       continue;
     }
 
+    const typeFields = readQuestionTypeFields(row, errors);
+    if (!typeFields) {
+      continue;
+    }
+
     if (!questionsBySection.has(section_id)) {
       questionsBySection.set(section_id, []);
     }
@@ -189,6 +335,7 @@ export function buildQuestionSetFromCSV(
       question_id,
       text,
       order,
+      typeFields,
     });
   }
 
@@ -202,10 +349,12 @@ export function buildQuestionSetFromCSV(
 
   // Check for duplicate question_ids
   const questionIds = new Set<string>();
+  const questionTypes = new Map<string, QuestionType>();
   for (const sectionId of Array.from(questionsBySection.keys())) {
     const questions = questionsBySection.get(sectionId);
     if (questions) {
       for (const q of questions) {
+        questionTypes.set(q.question_id, q.typeFields.type || 'single');
         if (questionIds.has(q.question_id)) {
           errors.push({
             file: 'questions.csv',
@@ -220,7 +369,10 @@ export function buildQuestionSetFromCSV(
   }
 
   // Parse options (group by question_id)
-  const optionsByQuestion = new Map<string, Array<{ row: ParsedCSVRow; option_id: string; label: string; value: number }>>();
+  const optionsByQuestion = new Map<
+    string,
+    Array<{ row: ParsedCSVRow; option_id: string; label: string; value: number; exclusive?: boolean }>
+  >();
 
   for (const row of optionRows) {
     const question_id = typeof row.question_id === 'string' ? row.question_id.trim() : String(row.question_id);
@@ -254,18 +406,67 @@ export function buildQuestionSetFromCSV(
       optionsByQuestion.set(question_id, []);
     }
 
+    const exclusive = readOptionalBoolean(row, 'options.csv', 'exclusive', errors);
+    if (exclusive && questionTypes.get(question_id) !== 'multi') {
+      errors.push({
+        file: 'options.csv',
+        row: row.__rowNumber,
+        column: 'exclusive',
+        message: `exclusive is only allowed on multi questions ("${question_id}" is ${questionTypes.get(question_id)})`,
+      });
+      continue;
+    }
+
     optionsByQuestion.get(question_id)!.push({
       row,
       option_id,
       label,
       value,
+      ...(exclusive ? { exclusive } : {}),
     });
   }
 
-  // Validate options: exactly 4 per question, values 0-3 exactly once
+  // Validate options by question type:
+  // single: exactly 4 per question, values 0-3 exactly once; multi: 2+ options; slider/text: none
   for (const question_id of Array.from(optionsByQuestion.keys())) {
     const options = optionsByQuestion.get(question_id);
     if (!options) continue;
+    const type = questionTypes.get(question_id) || 'single';
+
+    if (type === 'slider' || type === 'text') {
+      errors.push({
+        file: 'options.csv',
+        row: options[0]?.row.__rowNumber || 0,
+        column: 'question_id',
+        message: `Question "${question_id}" is a ${type} question and cannot have options`,
+      });
+      continue;
+    }
+
+    if (type === 'multi') {
+      if (options.length < 2) {
+        errors.push({
+          file: 'options.csv',
+          row: options[0]?.row.__rowNumber || 0,
+          column: 'question_id',
+          message: `Question "${question_id}" must have at least 2 options, got ${options.length}`,
+        });
+      }
+      const multiOptionIds = new Set<string>();
+      for (const opt of options) {
+        if (multiOptionIds.has(opt.option_id)) {
+          errors.push({
+            file: 'options.csv',
+            row: opt.row.__rowNumber,
+            column: 'option_id',
+            message: `Duplicate option_id "${opt.option_id}" within question "${question_id}"`,
+          });
+        }
+        multiOptionIds.add(opt.option_id);
+      }
+      continue;
+    }
+
     if (options.length !== 4) {
       const firstRow = options[0]?.row.__rowNumber || 0;
       errors.push({
@@ -332,15 +533,21 @@ export function buildQuestionSetFromCSV(
   });
 
   const questionSetQuestions = Array.from(questionIds).map((question_id) => {
-    const options = (optionsByQuestion.get(question_id) || []).sort((a, b) => a.value - b.value);
+    // Single-choice options are ordered by value; multi-select options keep their CSV order
+    const options = optionsByQuestion.get(question_id) || [];
+    if (questionTypes.get(question_id) !== 'multi') {
+      options.sort((a, b) => a.value - b.value);
+    }
     // Find question text from questionsBySection
     let questionText = '';
+    let typeFields: QuestionTypeFields = {};
     for (const sectionId of Array.from(questionsBySection.keys())) {
       const questions = questionsBySection.get(sectionId);
       if (questions) {
         const q = questions.find((q) => q.question_id === question_id);
         if (q) {
           questionText = q.text;
+          typeFields = q.typeFields;
           break;
         }
       }
@@ -349,10 +556,12 @@ export function buildQuestionSetFromCSV(
     return {
       id: question_id,
       text: questionText,
+      ...typeFields,
       options: options.map((opt) => ({
         id: opt.option_id,
         label: opt.label,
         value: opt.value,
+        ...(opt.exclusive ? { exclusive: true } : {}),
       })),
     };
   });
@@ -0,0 +1,108 @@
+/**
+ * Question Set Revision Diff
+ *
+ * Structured diff of two question set revisions (content_json), grouped by question, for the
+ * admin review before publishing. Scoring warnings flag the changes that can give the same
+ * answers a different score or level: option values, options added/removed, question type,
+ * slider range, selection limits, visibility rules, added/removed questions and the scoring
+ * block. Copy changes (question text, option labels, section titles) never warn.
+ *
+ * Client-safe: pure functions only.
+ */
+
+import { diffContent, formatChangeValue, groupChanges, type ContentChange, type ContentDiffGroup } from '@/lib/contentDiff';
+
+export interface QuestionSetDiff {
+  groups: ContentDiffGroup[];
+  scoringWarnings: string[];
+}
+
+interface QuestionLike {
+  id?: unknown;
+  text?: unknown;
+}
+
+const QUESTION_PATH = /^questions\[id=([^\]]+)\](?:\.(.*))?$/;
+
+/** Question fields that change how an answer is scored */
+const SCORED_QUESTION_FIELDS = ['type', 'minSelections', 'maxSelections', 'slider', 'visibleIf'];
+
+function questionTexts(...sets: unknown[]): Record<string, string> {
+  const texts: Record<string, string> = {};
+  sets.forEach((set) => {
+    const questions = (set as { questions?: QuestionLike[] } | null)?.questions;
+    if (!Array.isArray(questions)) return;
+    questions.forEach((question) => {
+      if (typeof question?.id === 'string' && typeof question.text === 'string') {
+        texts[question.id] = question.text;
+      }
+    });
+  });
+  return texts;
+}
+
+function groupTitle(path: string, texts: Record<string, string>): string {
+  const match = path.match(QUESTION_PATH);
+  if (match) {
+    const text = texts[match[1]];
+    return text ? `Question ${match[1]}: ${formatChangeValue(text, 60)}` : `Question ${match[1]}`;
+  }
+  if (path === 'scoring' || path.startsWith('scoring.')) return 'Scoring';
+  if (path === 'sections' || path.startsWith('sections[')) return 'Sections';
+  return 'Other';
+}
+
+function questionWarning(questionId: string, field: string | undefined, change: ContentChange): string | null {
+  if (!field) {
+    return change.kind === 'added'
+      ? `Question ${questionId} is added and may be scored.`
+      : `Question ${questionId} is removed; its answers will no longer be scored.`;
+  }
+
+  const optionValue = field.match(/^options\[(?:id=)?([^\]]+)\]\.value$/);
+  if (optionValue) {
+    return `Question ${questionId} option ${optionValue[1]} value changes from ${formatChangeValue(change.before)} to ${formatChangeValue(change.after)}.`;
+  }
+  const option = field.match(/^options\[(?:id=)?([^\]]+)\]$/);
+  if (option && change.kind !== 'changed') {
+    return `Question ${questionId} option ${option[1]} is ${change.kind}.`;
+  }
+
+  const topField = field.split(/[.[]/)[0];
+  if (SCORED_QUESTION_FIELDS.indexOf(topField) !== -1) {
+    return `Question ${questionId} ${field} changes, which can change how answers are scored.`;
+  }
+  return null;
+}
+
+/**
+ * Changes from `before` (usually the published revision) to `after`
+ */
+export function diffQuestionSets(before: unknown, after: unknown): QuestionSetDiff {
+  const changes = diffContent(before, after);
+  const texts = questionTexts(before, after);
+  const scoringWarnings: string[] = [];
+  let scoringBlockChanges = 0;
+
+  changes.forEach((change) => {
+    if (change.path === 'scoring' || change.path.startsWith('scoring.')) {
+      scoringBlockChanges += 1;
+      return;
+    }
+    const match = change.path.match(QUESTION_PATH);
+    if (!match) return;
+    const warning = questionWarning(match[1], match[2], change);
+    if (warning) scoringWarnings.push(warning);
+  });
+
+  if (scoringBlockChanges > 0) {
+    scoringWarnings.unshift(
+      `Scoring rules change (${scoringBlockChanges} ${scoringBlockChanges === 1 ? 'change' : 'changes'}); levels and axes can differ for the same answers.`
+    );
+  }
+
+  return {
+    groups: groupChanges(changes, (path) => groupTitle(path, texts)),
+    scoringWarnings,
+  };
+}
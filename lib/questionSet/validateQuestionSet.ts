@@ -6,6 +6,16 @@
  */
 
 import crypto from 'crypto';
+import type { ScoringSpec } from '@/lib/assessments/scoring/scoringSpec';
+import { validateScoringSpec } from '@/lib/assessments/scoring/validateScoringSpec';
+import type { VisibilityCondition } from '@/lib/assessments/questions/visibility';
+import {
+  QUESTION_TYPES,
+  type QuestionType,
+  type SliderConfig,
+} from '@/lib/assessments/questions/questionTypes';
+import { validateVisibilityRules } from '@/lib/assessments/questions/validateVisibilityRules';
+import { getRegisteredAssessmentTypes, isAssessmentTypeRegistered } from '@/lib/assessments/registry';
 
 export interface QuestionSet {
   version: string;
@@ -18,12 +28,21 @@ export interface QuestionSet {
   questions: Array<{
     id: string;
     text: string;
+    type?: QuestionType; // Absent = 'single'
     options: Array<{
       id: string;
       label: string;
       value: number;
+      exclusive?: boolean;
     }>;
+    minSelections?: number;
+    maxSelections?: number;
+    slider?: SliderConfig;
+    maxLength?: number;
+    required?: boolean;
+    visibleIf?: VisibilityCondition;
   }>;
+  scoring?: ScoringSpec;
 }
 
 export type QuestionSetValidationResult = {
@@ -62,19 +81,220 @@ export function hashQuestionSetJson(contentJson: any): string {
   return crypto.createHash('sha256').update(normalized).digest('hex');
 }
 
+/** Fields that only apply to some question types */
+const TYPE_SPECIFIC_FIELDS: Array<{ key: string; types: QuestionType[] }> = [
+  { key: 'minSelections', types: ['multi'] },
+  { key: 'maxSelections', types: ['multi'] },
+  { key: 'slider', types: ['slider'] },
+  { key: 'maxLength', types: ['text'] },
+  { key: 'required', types: ['text'] },
+];
+
+/** Upper bound for text maxLength ("short" free text) */
+const MAX_TEXT_MAX_LENGTH = 1000;
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+/**
+ * Validate option objects (id, label, value in {0,1,2,3}); returns the valid values
+ */
+function validateOptionList(question: any, i: number, errors: string[]): number[] {
+  const optionIds = new Set<string>();
+  const values: number[] = [];
+
+  for (let j = 0; j < question.options.length; j++) {
+    const option = question.options[j];
+    if (!option || typeof option !== 'object') {
+      errors.push(`questions[${i}].options[${j}] must be an object.`);
+      continue;
+    }
+
+    if (!option.id || typeof option.id !== 'string') {
+      errors.push(`questions[${i}].options[${j}].id must be a non-empty string.`);
+    } else {
+      if (optionIds.has(option.id)) {
+        errors.push(`questions[${i}].options[${j}].id "${option.id}" is duplicate within question.`);
+      }
+      optionIds.add(option.id);
+    }
+
+    if (!option.label || typeof option.label !== 'string') {
+      errors.push(`questions[${i}].options[${j}].label must be a non-empty string.`);
+    }
+
+    if (typeof option.value !== 'number') {
+      errors.push(`questions[${i}].options[${j}].value must be a number.`);
+    } else if (![0, 1, 2, 3].includes(option.value)) {
+      errors.push(`questions[${i}].options[${j}].value must be one of {0,1,2,3}, got ${option.value}.`);
+    } else {
+      values.push(option.value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * single: exactly 4 options with values 0,1,2,3 exactly once
+ */
+function validateSingleChoiceOptions(question: any, i: number, errors: string[]): void {
+  if (!Array.isArray(question.options)) {
+    errors.push(`questions[${i}].options must be an array.`);
+    return;
+  }
+
+  if (question.options.length !== 4) {
+    errors.push(`questions[${i}].options must have exactly 4 options, got ${question.options.length}.`);
+  }
+
+  const optionValues = new Set<number>();
+  question.options.forEach((option: any, j: number) => {
+    if (option?.exclusive !== undefined) {
+      errors.push(`questions[${i}].options[${j}].exclusive is only allowed on multi questions.`);
+    }
+  });
+
+  const values = validateOptionList(question, i, errors);
+  values.forEach((value) => {
+    if (optionValues.has(value)) {
+      const j = question.options.map((o: any) => o?.value).lastIndexOf(value);
+      errors.push(`questions[${i}].options[${j}].value ${value} is duplicate within question.`);
+    }
+    optionValues.add(value);
+  });
+
+  // Check that all values {0,1,2,3} are present exactly once
+  const expectedValues = [0, 1, 2, 3];
+  for (const val of expectedValues) {
+    if (!optionValues.has(val)) {
+      errors.push(`questions[${i}] is missing option with value ${val}.`);
+    }
+  }
+}
+
+/**
+ * multi: at least 2 options (values 0-3, repeats allowed), 1 <= minSelections <= maxSelections <= options
+ */
+function validateMultiSelectQuestion(question: any, i: number, errors: string[]): void {
+  if (!Array.isArray(question.options)) {
+    errors.push(`questions[${i}].options must be an array.`);
+    return;
+  }
+
+  if (question.options.length < 2) {
+    errors.push(`questions[${i}].options must have at least 2 options, got ${question.options.length}.`);
+  }
+
+  validateOptionList(question, i, errors);
+
+  question.options.forEach((option: any, j: number) => {
+    if (option?.exclusive !== undefined && typeof option.exclusive !== 'boolean') {
+      errors.push(`questions[${i}].options[${j}].exclusive must be a boolean.`);
+    }
+  });
+
+  const min = question.minSelections ?? 1;
+  const max = question.maxSelections ?? question.options.length;
+  if (!isPositiveInteger(min)) {
+    errors.push(`questions[${i}].minSelections must be a positive integer.`);
+  }
+  if (!isPositiveInteger(max)) {
+    errors.push(`questions[${i}].maxSelections must be a positive integer.`);
+  }
+  if (isPositiveInteger(min) && isPositiveInteger(max)) {
+    if (min > max) {
+      errors.push(`questions[${i}].minSelections (${min}) must be <= maxSelections (${max}).`);
+    }
+    if (max > question.options.length) {
+      errors.push(`questions[${i}].maxSelections (${max}) must be <= the number of options (${question.options.length}).`);
+    }
+  }
+}
+
+/**
+ * slider: no options; slider.min < slider.max, step > 0 dividing the range
+ */
+function validateSliderQuestion(question: any, i: number, errors: string[]): void {
+  if (Array.isArray(question.options) && question.options.length > 0) {
+    errors.push(`questions[${i}].options must be empty for slider questions.`);
+  }
+
+  const slider = question.slider;
+  if (!slider || typeof slider !== 'object') {
+    errors.push(`questions[${i}].slider must be an object with min and max.`);
+    return;
+  }
+
+  if (typeof slider.min !== 'number' || typeof slider.max !== 'number') {
+    errors.push(`questions[${i}].slider.min and slider.max must be numbers.`);
+    return;
+  }
+
+  if (slider.min >= slider.max) {
+    errors.push(`questions[${i}].slider.min must be less than slider.max.`);
+  }
+
+  if (slider.step !== undefined) {
+    if (typeof slider.step !== 'number' || slider.step <= 0) {
+      errors.push(`questions[${i}].slider.step must be a positive number.`);
+    } else {
+      const steps = (slider.max - slider.min) / slider.step;
+      if (Math.abs(steps - Math.round(steps)) > 1e-9) {
+        errors.push(`questions[${i}].slider.step must divide the range (max - min) evenly.`);
+      }
+    }
+  }
+
+  for (const key of ['minLabel', 'maxLabel']) {
+    if (slider[key] !== undefined && typeof slider[key] !== 'string') {
+      errors.push(`questions[${i}].slider.${key} must be a string.`);
+    }
+  }
+}
+
+/**
+ * text: no options; maxLength positive integer (<= 1000); required boolean
+ */
+function validateTextQuestion(question: any, i: number, errors: string[]): void {
+  if (Array.isArray(question.options) && question.options.length > 0) {
+    errors.push(`questions[${i}].options must be empty for text questions.`);
+  }
+
+  if (
+    question.maxLength !== undefined &&
+    (!isPositiveInteger(question.maxLength) || question.maxLength > MAX_TEXT_MAX_LENGTH)
+  ) {
+    errors.push(`questions[${i}].maxLength must be a positive integer <= ${MAX_TEXT_MAX_LENGTH}.`);
+  }
+
+  if (question.required !== undefined && typeof question.required !== 'boolean') {
+    errors.push(`questions[${i}].required must be a boolean.`);
+  }
+}
+
 /**
  * Validate question set JSON structure (v2 schema)
  * 
  * Strictly enforces:
  * - version === "2"
- * - assessmentType === "gut-check"
+ * - assessmentType is registered in lib/assessments/registry.ts
  * - sections[] non-empty; each section has id, title, questionIds[] non-empty
  * - each section.questionIds refers to an existing question.id
  * - unique question.id
- * - each question has text and exactly 4 options
+ * - each question has text and a type (default "single"; see questionTypes.ts):
+ *   - single: exactly 4 options; values must include 0,1,2,3 exactly once (no missing/dupes)
+ *   - multi: 2+ options (values 0-3); 1 <= minSelections <= maxSelections <= options
+ *   - slider: no options; slider { min < max, step dividing the range }
+ *   - text: no options; maxLength <= 1000; never referenced by scoring
  * - each option has id, label, value in {0,1,2,3}
  * - option ids unique within the question
- * - option values must include 0,1,2,3 exactly once (no missing/dupes)
+ * - visibleIf rules (if present) pass validateVisibilityRules: known questions/options,
+ *   earlier questions only, no cycles, no unreachable questions
+ * - scoring block (if present) passes validateScoringSpec; if absent, the
+ *   default gut-check v2 scoring spec is used (warning only for gut-check,
+ *   required for every other assessment type)
  */
 export function validateQuestionSet(contentJson: any): QuestionSetValidationResult {
   const errors: string[] = [];
@@ -92,8 +312,9 @@ export function validateQuestionSet(contentJson: any): QuestionSetValidationResu
   }
 
   // Assessment type check
-  if (contentJson.assessmentType !== 'gut-check') {
-    errors.push(`assessmentType must be "gut-check", got "${contentJson.assessmentType}".`);
+  if (!isAssessmentTypeRegistered(contentJson.assessmentType)) {
+    const allowed = getRegisteredAssessmentTypes().map((t) => `"${t}"`).join(', ');
+    errors.push(`assessmentType must be one of ${allowed}, got "${contentJson.assessmentType}".`);
   }
 
   // Sections validation
@@ -180,57 +401,24 @@ export function validateQuestionSet(contentJson: any): QuestionSetValidationResu
       errors.push(`questions[${i}].text must be a non-empty string.`);
     }
 
-    // Options validation
-    if (!Array.isArray(question.options)) {
-      errors.push(`questions[${i}].options must be an array.`);
+    // Type-specific validation (options, selection limits, slider range, text length)
+    const type = question.type === undefined ? 'single' : question.type;
+    if (!QUESTION_TYPES.includes(type)) {
+      const allowed = QUESTION_TYPES.map((t) => `"${t}"`).join(', ');
+      errors.push(`questions[${i}].type must be one of ${allowed}, got "${type}".`);
+    } else if (type === 'single') {
+      validateSingleChoiceOptions(question, i, errors);
+    } else if (type === 'multi') {
+      validateMultiSelectQuestion(question, i, errors);
+    } else if (type === 'slider') {
+      validateSliderQuestion(question, i, errors);
     } else {
-      if (question.options.length !== 4) {
-        errors.push(`questions[${i}].options must have exactly 4 options, got ${question.options.length}.`);
-      }
-
-      const optionIds = new Set<string>();
-      const optionValues = new Set<number>();
-
-      for (let j = 0; j < question.options.length; j++) {
-        const option = question.options[j];
-        if (!option || typeof option !== 'object') {
-          errors.push(`questions[${i}].options[${j}] must be an object.`);
-          continue;
-        }
-
-        if (!option.id || typeof option.id !== 'string') {
-          errors.push(`questions[${i}].options[${j}].id must be a non-empty string.`);
-        } else {
-          if (optionIds.has(option.id)) {
-            errors.push(`questions[${i}].options[${j}].id "${option.id}" is duplicate within question.`);
-          }
-          optionIds.add(option.id);
-        }
-
-        if (!option.label || typeof option.label !== 'string') {
-          errors.push(`questions[${i}].options[${j}].label must be a non-empty string.`);
-        }
-
-        if (typeof option.value !== 'number') {
-          errors.push(`questions[${i}].options[${j}].value must be a number.`);
-        } else {
-          if (![0, 1, 2, 3].includes(option.value)) {
-            errors.push(`questions[${i}].options[${j}].value must be one of {0,1,2,3}, got ${option.value}.`);
-          } else {
-            if (optionValues.has(option.value)) {
-              errors.push(`questions[${i}].options[${j}].value ${option.value} is duplicate within question.`);
-            }
-            optionValues.add(option.value);
-          }
-        }
-      }
+      validateTextQuestion(question, i, errors);
+    }
 
-      // Check that all values {0,1,2,3} are present exactly once
-      const expectedValues = [0, 1, 2, 3];
-      for (const val of expectedValues) {
-        if (!optionValues.has(val)) {
-          errors.push(`questions[${i}] is missing option with value ${val}.`);
-        }
+    for (const field of TYPE_SPECIFIC_FIELDS) {
+      if (question[field.key] !== undefined && !field.types.includes(type)) {
+        errors.push(`questions[${i}].${field.key} is only allowed on ${field.types.join('/')} questions.`);
       }
     }
   }
@@ -242,6 +430,46 @@ export function validateQuestionSet(contentJson: any): QuestionSetValidationResu
     }
   }
 
+  // Visibility (branching) rules validation
+  const visibilityResult = validateVisibilityRules(contentJson.questions);
+  errors.push(...visibilityResult.errors);
+  warnings.push(...visibilityResult.warnings);
+
+  // Scoring spec validation
+  if (contentJson.scoring === undefined) {
+    if (contentJson.assessmentType === 'gut-check') {
+      warnings.push('scoring block is missing; the default gut-check v2 scoring spec will be used.');
+    } else {
+      errors.push('scoring block is required for assessment types other than "gut-check".');
+    }
+  } else {
+    const scoringResult = validateScoringSpec(contentJson.scoring, questionIds);
+    errors.push(...scoringResult.errors);
+    warnings.push(...scoringResult.warnings);
+
+    // Conditional questions may be skipped: scoring tolerates it, but flag it for authors
+    const confidenceIds: unknown = contentJson.scoring?.confidence?.questionIds;
+    const questionAxes: unknown = contentJson.scoring?.questionAxes;
+    contentJson.questions.forEach((question: any) => {
+      // Free text is never scored
+      if (question?.type === 'text') {
+        if (questionAxes && typeof questionAxes === 'object' && question.id in questionAxes) {
+          errors.push(`scoring.questionAxes.${question.id} references a text question; text answers are not scored.`);
+        }
+        if (Array.isArray(confidenceIds) && confidenceIds.includes(question.id)) {
+          errors.push(`scoring.confidence.questionIds references text question "${question.id}"; text answers are not scored.`);
+        }
+      }
+
+      if (question?.visibleIf && Array.isArray(confidenceIds) && confidenceIds.includes(question.id)) {
+        warnings.push(
+          `scoring.confidence.questionIds includes conditional question "${question.id}"; ` +
+            'confidence is computed from answered questions only.'
+        );
+      }
+    });
+  }
+
   // Normalization: return as-is for now
   const normalized = contentJson;
 
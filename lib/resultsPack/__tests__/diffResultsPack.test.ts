@@ -0,0 +1,40 @@
+/**
+ * Tests for results pack revision diffs
+ */
+
+import { diffResultsPacks } from '../diffResultsPack';
+
+describe('diffResultsPacks', () => {
+  it('groups copy changes by flow page', () => {
+    const published = {
+      label: 'Level 1',
+      summary: 'Old summary',
+      flow: {
+        page1: { headline: 'Hello', body: ['One'] },
+        page3: { methodBullets: ['A', 'B'] },
+      },
+      channels: { pdf: { enabled: true } },
+    };
+    const next = {
+      label: 'Level 1',
+      summary: 'New summary',
+      flow: {
+        page1: { headline: 'Hi there', body: ['One'] },
+        page3: { methodBullets: ['A', 'C'] },
+      },
+      channels: { pdf: { enabled: false } },
+    };
+
+    const { groups } = diffResultsPacks(published, next);
+    expect(groups.map((group) => [group.title, group.changes.map((change) => change.path)])).toEqual([
+      ['Channels', ['channels.pdf.enabled']],
+      ['Page 1', ['flow.page1.headline']],
+      ['Page 3', ['flow.page3.methodBullets[1]']],
+      ['Core copy', ['summary']],
+    ]);
+  });
+
+  it('returns no groups for identical packs', () => {
+    expect(diffResultsPacks({ label: 'A' }, { label: 'A' }).groups).toEqual([]);
+  });
+});
@@ -385,6 +385,33 @@ describe('validateResultsPack', () => {
     });
   });
 
+  describe('Email template validation', () => {
+    const legacyPack = {
+      label: 'Test Pack',
+      summary: 'Test summary',
+      keyPatterns: ['Pattern 1'],
+      firstFocusAreas: ['Area 1'],
+    };
+
+    it('should accept a pack email template with known variables', () => {
+      const result = validateResultsPack({
+        ...legacyPack,
+        email: { subject: 'Your results: {{levelLabel}}', html: '<p>{{summary}}</p>', text: '{{summary}}' },
+      });
+      expect(result.ok).toBe(true);
+    });
+
+    it('should reject unknown variables and missing parts', () => {
+      const result = validateResultsPack({
+        ...legacyPack,
+        email: { subject: 'Hi {{nickname}}', html: '<p>Hello</p>' },
+      });
+      expect(result.ok).toBe(false);
+      expect(result.errors).toContain('email.text is required and must be a non-empty string.');
+      expect(result.errors).toContain('email.subject uses unknown variable {{nickname}}.');
+    });
+  });
+
   describe('Edge cases', () => {
     it('should reject non-object input', () => {
       const result = validateResultsPack(null);
@@ -0,0 +1,37 @@
+/**
+ * Results Pack Revision Diff
+ *
+ * Structured diff of two results pack revisions (content_json), grouped by flow page, for the
+ * admin review before publishing. Results packs hold copy and delivery settings only; scoring
+ * lives in the question set, so pack changes never change a submission's level.
+ *
+ * Client-safe: pure functions only.
+ */
+
+import { diffContent, groupChanges, type ContentDiffGroup } from '@/lib/contentDiff';
+
+const CORE_FIELDS = ['label', 'summary', 'keyPatterns', 'firstFocusAreas', 'methodPositioning'];
+
+const FLOW_PAGE_TITLES: Record<string, string> = {
+  page1: 'Page 1',
+  page2: 'Page 2',
+  page3: 'Page 3',
+};
+
+function groupTitle(path: string): string {
+  const [top, second] = path.split(/[.[]/);
+  if (top === 'flow') {
+    return (second && FLOW_PAGE_TITLES[second]) || 'Flow';
+  }
+  if (CORE_FIELDS.indexOf(top) !== -1) return 'Core copy';
+  if (top === 'email') return 'Email';
+  if (top === 'channels') return 'Channels';
+  return 'Other';
+}
+
+/**
+ * Changes from `before` (usually the published revision) to `after`
+ */
+export function diffResultsPacks(before: unknown, after: unknown): { groups: ContentDiffGroup[] } {
+  return { groups: groupChanges(diffContent(before, after), groupTitle) };
+}
@@ -0,0 +1,118 @@
+/**
+ * Results Pack Experiments (server)
+ *
+ * Row mapping for results_pack_experiments and the event loading behind the admin
+ * experiment report. Aggregation lives in lib/admin/assessments/experimentReport.ts.
+ */
+
+import { supabaseAdmin } from '@/lib/supabaseServerClient';
+import type { ExperimentStatus, ExperimentVariant } from '@/lib/assessments/results/experimentAssignment';
+import {
+  EXPERIMENT_METRICS,
+  VARIANT_ASSIGNED_EVENT,
+  type AssignmentEvent,
+  type ConversionEvent,
+} from '@/lib/admin/assessments/experimentReport';
+
+/** Page size for loading assessment_events */
+const PAGE_SIZE = 1000;
+/** Sessions per `in` filter when loading conversion events */
+const SESSION_CHUNK_SIZE = 200;
+
+export const EXPERIMENT_COLUMNS = 'id, pack_id, name, status, variants, created_at, started_at, stopped_at';
+
+export interface ExperimentItem {
+  id: string;
+  packId: string;
+  name: string;
+  status: ExperimentStatus;
+  variants: ExperimentVariant[];
+  createdAt: string;
+  startedAt: string | null;
+  stoppedAt: string | null;
+}
+
+export function toExperimentItem(row: any): ExperimentItem {
+  return {
+    id: row.id,
+    packId: row.pack_id,
+    name: row.name,
+    status: row.status,
+    variants: row.variants || [],
+    createdAt: row.created_at,
+    startedAt: row.started_at ?? null,
+    stoppedAt: row.stopped_at ?? null,
+  };
+}
+
+/**
+ * Load assignment and conversion events for an experiment (paged)
+ */
+export async function loadExperimentEvents(
+  experimentId: string
+): Promise<{ assignments: AssignmentEvent[]; conversions: ConversionEvent[] }> {
+  const assignments: AssignmentEvent[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from('assessment_events')
+      .select('session_id, properties, created_at')
+      .eq('event_name', VARIANT_ASSIGNED_EVENT)
+      .eq('properties->>experimentId', experimentId)
+      .order('created_at', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    (data || []).forEach((row) => {
+      const variantId = row.properties?.variantId;
+      if (typeof variantId === 'string') {
+        assignments.push({ sessionId: row.session_id, variantId, createdAt: row.created_at });
+      }
+    });
+
+    if (!data || data.length < PAGE_SIZE) {
+      break;
+    }
+  }
+
+  const seenSessions: Record<string, true> = {};
+  assignments.forEach((assignment) => {
+    seenSessions[assignment.sessionId] = true;
+  });
+  const sessionIds = Object.keys(seenSessions);
+  const eventNames = Object.keys(EXPERIMENT_METRICS).map(
+    (metric) => EXPERIMENT_METRICS[metric as keyof typeof EXPERIMENT_METRICS]
+  );
+  const conversions: ConversionEvent[] = [];
+
+  for (let start = 0; start < sessionIds.length; start += SESSION_CHUNK_SIZE) {
+    const chunk = sessionIds.slice(start, start + SESSION_CHUNK_SIZE);
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await supabaseAdmin
+        .from('assessment_events')
+        .select('session_id, event_name, created_at')
+        .in('session_id', chunk)
+        .in('event_name', eventNames)
+        .order('created_at', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      (data || []).forEach((row) => {
+        conversions.push({ sessionId: row.session_id, eventName: row.event_name, createdAt: row.created_at });
+      });
+
+      if (!data || data.length < PAGE_SIZE) {
+        break;
+      }
+    }
+  }
+
+  return { assignments, conversions };
+}
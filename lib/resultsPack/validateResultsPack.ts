@@ -7,6 +7,7 @@
 
 import crypto from 'crypto';
 import { parseYouTube } from '../video/youtube';
+import { validateEmailTemplate } from '../email/resultsEmail';
 
 export type PackValidationResult = {
   ok: boolean;
@@ -156,6 +157,11 @@ export function validateResultsPack(packJson: any): PackValidationResult {
     }
   }
 
+  // Results email template (optional; the default template is used without one)
+  if (packJson.email !== undefined && packJson.email !== null) {
+    errors.push(...validateEmailTemplate(packJson.email));
+  }
+
   // Normalization: return as-is for now
   const normalized = packJson;
 
@@ -5,9 +5,11 @@
  * with route-specific overrides. Provides safe fallbacks if CMS is unavailable.
  */
 
+import { z } from 'zod';
 import type { SeoGlobalConfig, SeoRouteConfig, BrowserAssets } from '@/lib/contentTypes';
 import { seoGlobalConfigSchema, seoRouteConfigSchema, browserAssetsSchema } from '@/lib/contentValidators';
 import { normalizeRoutePath } from './normalizeRoutePath';
+import { localizedContentKeys } from '@/lib/i18n/locale';
 
 /**
  * Normalized SEO metadata for rendering in <Head>
@@ -49,6 +51,8 @@ export interface GetSeoForRouteOptions {
   pageTitle?: string;
   pageDescription?: string;
   canonicalPath?: string;
+  /** Locale for titles/descriptions (falls back es-MX → es → default) */
+  locale?: string | null;
 }
 
 /**
@@ -60,9 +64,14 @@ export interface SeoForRouteResult {
 }
 
 /**
- * Load SEO global config from CMS
+ * Load the most specific valid localized entry for an SEO key
+ * ("seo:global@es-MX" → "seo:global@es" → "seo:global")
  */
-async function loadSeoGlobal(): Promise<SeoGlobalConfig | null> {
+async function loadLocalizedSeoEntry<T>(
+  key: string,
+  locale: string | null | undefined,
+  schema: z.ZodSchema<T>
+): Promise<T | null> {
   // Only attempt Supabase fetch if we're in a server context
   if (typeof window !== 'undefined') {
     return null;
@@ -71,25 +80,32 @@ async function loadSeoGlobal(): Promise<SeoGlobalConfig | null> {
   try {
     const { supabaseAdmin } = await import('@/lib/supabaseServerClient');
 
+    const keys = localizedContentKeys(key, locale);
     const { data, error } = await supabaseAdmin
       .from('site_content')
-      .select('data')
-      .eq('key', 'seo:global')
-      .eq('status', 'published')
-      .single();
+      .select('key, data')
+      .in('key', keys)
+      .eq('status', 'published');
 
-    if (error || !data || !data.data) {
+    if (error || !data) {
       return null;
     }
 
-    // Validate data against schema
-    const validationResult = seoGlobalConfigSchema.safeParse(data.data);
-    if (!validationResult.success) {
-      console.warn('[getSeo] Invalid seo:global data:', validationResult.error);
-      return null;
+    for (const localizedKey of keys) {
+      const row = data.find((r) => r.key === localizedKey);
+      if (!row || !row.data) continue;
+
+      // Validate data against schema
+      const validationResult = schema.safeParse(row.data);
+      if (!validationResult.success) {
+        console.warn(`[getSeo] Invalid ${localizedKey} data:`, validationResult.error);
+        continue;
+      }
+
+      return validationResult.data;
     }
 
-    return validationResult.data;
+    return null;
   } catch (error) {
     // If Supabase client can't be imported, return null (will use fallback)
     return null;
@@ -97,42 +113,17 @@ async function loadSeoGlobal(): Promise<SeoGlobalConfig | null> {
 }
 
 /**
- * Load SEO route config from CMS
+ * Load SEO global config from CMS
  */
-async function loadSeoRoute(routePath: string): Promise<SeoRouteConfig | null> {
-  // Only attempt Supabase fetch if we're in a server context
-  if (typeof window !== 'undefined') {
-    return null;
-  }
-
-  try {
-    const { supabaseAdmin } = await import('@/lib/supabaseServerClient');
-
-    const routeKey = `seo:route:${routePath}`;
-
-    const { data, error } = await supabaseAdmin
-      .from('site_content')
-      .select('data')
-      .eq('key', routeKey)
-      .eq('status', 'published')
-      .single();
-
-    if (error || !data || !data.data) {
-      return null;
-    }
-
-    // Validate data against schema
-    const validationResult = seoRouteConfigSchema.safeParse(data.data);
-    if (!validationResult.success) {
-      console.warn(`[getSeo] Invalid ${routeKey} data:`, validationResult.error);
-      return null;
-    }
+async function loadSeoGlobal(locale?: string | null): Promise<SeoGlobalConfig | null> {
+  return loadLocalizedSeoEntry('seo:global', locale, seoGlobalConfigSchema);
+}
 
-    return validationResult.data;
-  } catch (error) {
-    // If Supabase client can't be imported, return null
-    return null;
-  }
+/**
+ * Load SEO route config from CMS
+ */
+async function loadSeoRoute(routePath: string, locale?: string | null): Promise<SeoRouteConfig | null> {
+  return loadLocalizedSeoEntry(`seo:route:${routePath}`, locale, seoRouteConfigSchema);
 }
 
 /**
@@ -192,15 +183,15 @@ function applyTitleTemplate(template: string, variables: Record<string, string>)
  * Extended (Phase 1 / Step 2): Also loads browser assets and handles per-page SEO overrides.
  */
 export async function getSeoForRoute(options: GetSeoForRouteOptions): Promise<SeoForRouteResult> {
-  const { routePath: rawRoutePath, pageTitle: providedPageTitle, pageDescription: providedPageDescription, canonicalPath: providedCanonicalPath } = options;
+  const { routePath: rawRoutePath, pageTitle: providedPageTitle, pageDescription: providedPageDescription, canonicalPath: providedCanonicalPath, locale } = options;
 
   // Normalize route path for consistent key generation
   const normalizedRoutePath = normalizeRoutePath(rawRoutePath);
 
   // Load global, route configs, and browser assets
   const [globalConfig, routeConfig, assets] = await Promise.all([
-    loadSeoGlobal(),
-    loadSeoRoute(normalizedRoutePath),
+    loadSeoGlobal(locale),
+    loadSeoRoute(normalizedRoutePath, locale),
     loadBrowserAssets(),
   ]);
 
@@ -0,0 +1,61 @@
+/**
+ * Tests for site content key helpers (publish roles, revalidation paths, save options)
+ */
+
+import {
+  getRevalidationPaths,
+  parseContentKey,
+  parseSaveQuery,
+  publishRolesForContentKey,
+} from '../siteContentKeys';
+
+describe('parseContentKey', () => {
+  it('splits the locale suffix', () => {
+    expect(parseContentKey('home@es')).toEqual({ baseKey: 'home', locale: 'es' });
+    expect(parseContentKey('product:gut-reset')).toEqual({ baseKey: 'product:gut-reset', locale: null });
+  });
+});
+
+describe('publishRolesForContentKey', () => {
+  it('limits SEO and config keys to admins', () => {
+    expect(publishRolesForContentKey('seo:route:/about')).toEqual(['admin']);
+    expect(publishRolesForContentKey('feature-flags:global')).toEqual(['admin']);
+    expect(publishRolesForContentKey('seo:global@fr')).toEqual(['admin']);
+  });
+
+  it('lets editors publish page content', () => {
+    expect(publishRolesForContentKey('home@es')).toEqual(['editor', 'admin']);
+    expect(publishRolesForContentKey('navigation')).toEqual(['editor', 'admin']);
+  });
+});
+
+describe('getRevalidationPaths', () => {
+  it('revalidates the home page and every category for navigation', () => {
+    const data = { categories: [{ id: 'gut-health' }, { id: '' }, { id: 'recipes' }] };
+    expect(getRevalidationPaths('navigation', data)).toEqual(['/', '/gut-health', '/recipes']);
+  });
+
+  it('maps product and SEO route keys to their pages', () => {
+    expect(getRevalidationPaths('product:gut-reset@es', {})).toEqual(['/products/gut-reset']);
+    expect(getRevalidationPaths('seo:route:/about', {})).toEqual(['/about']);
+    expect(getRevalidationPaths('waitlist', {})).toEqual(['/journal-waitlist']);
+  });
+
+  it('returns nothing for keys read at request time', () => {
+    expect(getRevalidationPaths('assessment-config:gut-check', {})).toEqual([]);
+  });
+});
+
+describe('parseSaveQuery', () => {
+  it('publishes unless ?draft is set', () => {
+    expect(parseSaveQuery({})).toEqual({ publish: true, changeSummary: null });
+    expect(parseSaveQuery({ draft: '1' }).publish).toBe(false);
+    expect(parseSaveQuery({ draft: 'true' }).publish).toBe(false);
+  });
+
+  it('trims and caps the change summary', () => {
+    expect(parseSaveQuery({ summary: '  New hero  ' }).changeSummary).toBe('New hero');
+    expect(parseSaveQuery({ summary: 'x'.repeat(600) }).changeSummary).toHaveLength(500);
+    expect(parseSaveQuery({ summary: ['a', 'b'] }).changeSummary).toBeNull();
+  });
+});
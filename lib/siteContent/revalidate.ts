@@ -0,0 +1,21 @@
+/**
+ * Revalidate the pages that render a site_content key after it is published
+ * (see getRevalidationPaths). Failures are logged; the content is already live and ISR
+ * picks it up on the next regeneration.
+ */
+
+import type { NextApiResponse } from 'next';
+import { getRevalidationPaths } from './siteContentKeys';
+
+export async function revalidateSiteContent(res: NextApiResponse, key: string, data: unknown): Promise<string[]> {
+  const revalidated: string[] = [];
+  for (const path of getRevalidationPaths(key, data)) {
+    try {
+      await res.revalidate(path);
+      revalidated.push(path);
+    } catch (revalidateError) {
+      console.warn(`Failed to revalidate ${path}:`, revalidateError);
+    }
+  }
+  return revalidated;
+}
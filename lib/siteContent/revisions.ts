@@ -0,0 +1,509 @@
+/**
+ * Site Content Revisions (server)
+ *
+ * Draft / publish / rollback / scheduled publish for every site_content key, on the same idea
+ * as results pack revisions: each save is an immutable row in site_content_revisions, and the
+ * site_content 'published' and 'draft' rows hold a revision (revision_id). Readers keep
+ * reading site_content unchanged.
+ *
+ * - saveSiteContent: admin save endpoints (?draft=1 saves a draft, otherwise publishes);
+ *   they call it through saveSiteContentWithAudit, which also writes the admin audit log
+ * - publishSiteContentRevision: publish now or roll back to any earlier revision
+ * - scheduleSiteContentPublish / publishDueSiteContent: publish at a time (cron)
+ *
+ * Publishing does not revalidate pages; callers revalidate getRevalidationPaths(key, data)
+ * because revalidation needs the API response object.
+ */
+
+import { createHash } from 'crypto';
+import type { NextApiRequest } from 'next';
+import { supabaseAdmin } from '@/lib/supabaseServerClient';
+import { recordAdminAudit } from '@/lib/admin/audit/recordAdminAudit';
+
+export interface SiteContentRevision {
+  id: string;
+  content_key: string;
+  revision_number: number;
+  data: unknown;
+  content_hash: string;
+  change_summary: string | null;
+  created_by: string | null;
+  created_by_email: string | null;
+  created_at: string;
+}
+
+export type SiteContentRevisionSummary = Omit<SiteContentRevision, 'data'>;
+
+export type SiteContentScheduleStatus = 'pending' | 'published' | 'cancelled' | 'failed';
+
+export interface SiteContentSchedule {
+  id: string;
+  content_key: string;
+  revision_id: string;
+  publish_at: string;
+  status: SiteContentScheduleStatus;
+  created_by: string | null;
+  created_at: string;
+  executed_at: string | null;
+  error: string | null;
+}
+
+export interface SiteContentActor {
+  id: string;
+  email: string | null;
+}
+
+export type PublishAction = 'publish' | 'rollback' | 'scheduled_publish';
+
+const REVISION_SUMMARY_COLUMNS =
+  'id, content_key, revision_number, content_hash, change_summary, created_by, created_by_email, created_at';
+
+const HISTORY_LIMIT = 100;
+
+/** Identifies identical content across revisions */
+function hashContent(data: unknown): string {
+  return createHash('sha256').update(JSON.stringify(data)).digest('hex');
+}
+
+async function writeAuditLog(
+  actorId: string | null,
+  action: string,
+  revision: Pick<SiteContentRevision, 'id' | 'content_key' | 'revision_number'>,
+  metadata: Record<string, unknown> = {}
+): Promise<void> {
+  try {
+    await supabaseAdmin.from('content_audit_log').insert({
+      actor_id: actorId,
+      action: `site_content.${action}`,
+      entity_type: 'site_content_revision',
+      entity_id: revision.id,
+      metadata: { key: revision.content_key, revision_number: revision.revision_number, ...metadata },
+    });
+  } catch (auditError) {
+    // Non-blocking audit log error
+    console.warn('Failed to write audit log:', auditError);
+  }
+}
+
+export async function getSiteContentRevision(revisionId: string): Promise<SiteContentRevision | null> {
+  const { data, error } = await supabaseAdmin
+    .from('site_content_revisions')
+    .select('*')
+    .eq('id', revisionId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Database error: ${error.message}`);
+  }
+  return (data as SiteContentRevision) || null;
+}
+
+async function getLatestRevision(key: string): Promise<SiteContentRevision | null> {
+  const { data, error } = await supabaseAdmin
+    .from('site_content_revisions')
+    .select('*')
+    .eq('content_key', key)
+    .order('revision_number', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Database error: ${error.message}`);
+  }
+  return (data as SiteContentRevision) || null;
+}
+
+/**
+ * New revision for the key, or the latest one when the content is unchanged
+ */
+async function createRevision(
+  key: string,
+  data: unknown,
+  actor: SiteContentActor,
+  changeSummary: string | null
+): Promise<SiteContentRevision> {
+  const contentHash = hashContent(data);
+
+  // Retry once when a concurrent save takes the same revision number
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const latest = await getLatestRevision(key);
+    if (latest && latest.content_hash === contentHash) {
+      return latest;
+    }
+
+    const { data: inserted, error } = await supabaseAdmin
+      .from('site_content_revisions')
+      .insert({
+        content_key: key,
+        revision_number: (latest?.revision_number || 0) + 1,
+        data,
+        content_hash: contentHash,
+        change_summary: changeSummary,
+        created_by: actor.id,
+        created_by_email: actor.email,
+      })
+      .select('*')
+      .single();
+
+    if (!error) {
+      return inserted as SiteContentRevision;
+    }
+    if (error.code !== '23505' || attempt > 0) {
+      throw new Error(`Database error: ${error.message}`);
+    }
+  }
+  throw new Error('Failed to create site content revision');
+}
+
+async function upsertContentRow(key: string, status: 'draft' | 'published', revision: SiteContentRevision) {
+  const { error } = await supabaseAdmin.from('site_content').upsert(
+    {
+      key,
+      status,
+      data: revision.data,
+      revision_id: revision.id,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: 'key,status' }
+  );
+  if (error) {
+    throw new Error(`Database error: ${error.message}`);
+  }
+}
+
+/**
+ * Drop the draft row once it is no newer than the published revision (it has been published
+ * or superseded). A rollback leaves a newer draft in place.
+ */
+async function clearSupersededDraft(key: string, published: SiteContentRevision): Promise<void> {
+  const { data: draftRow, error } = await supabaseAdmin
+    .from('site_content')
+    .select('revision_id')
+    .eq('key', key)
+    .eq('status', 'draft')
+    .maybeSingle();
+  if (error || !draftRow) {
+    return;
+  }
+
+  let superseded = !draftRow.revision_id || draftRow.revision_id === published.id;
+  if (!superseded) {
+    const draftRevision = await getSiteContentRevision(draftRow.revision_id);
+    superseded = !draftRevision || draftRevision.revision_number <= published.revision_number;
+  }
+  if (superseded) {
+    await supabaseAdmin.from('site_content').delete().eq('key', key).eq('status', 'draft');
+  }
+}
+
+/**
+ * Make a revision live for its key
+ */
+export async function publishSiteContentRevision(
+  revisionId: string,
+  actorId: string | null,
+  action: PublishAction = 'publish'
+): Promise<SiteContentRevision | null> {
+  const revision = await getSiteContentRevision(revisionId);
+  if (!revision) {
+    return null;
+  }
+
+  await upsertContentRow(revision.content_key, 'published', revision);
+  await clearSupersededDraft(revision.content_key, revision);
+  await writeAuditLog(actorId, action, revision);
+  return revision;
+}
+
+export interface SaveSiteContentInput {
+  key: string;
+  data: unknown;
+  actor: SiteContentActor;
+  /** false saves the draft row only */
+  publish: boolean;
+  changeSummary?: string | null;
+}
+
+/**
+ * Record a revision for validated content and publish it or store it as the draft
+ */
+export async function saveSiteContent(input: SaveSiteContentInput): Promise<SiteContentRevision> {
+  const revision = await createRevision(input.key, input.data, input.actor, input.changeSummary || null);
+
+  if (input.publish) {
+    await upsertContentRow(input.key, 'published', revision);
+    await clearSupersededDraft(input.key, revision);
+    await writeAuditLog(input.actor.id, 'publish', revision);
+  } else {
+    await upsertContentRow(input.key, 'draft', revision);
+    await writeAuditLog(input.actor.id, 'save_draft', revision);
+  }
+  return revision;
+}
+
+/**
+ * saveSiteContent for admin save endpoints, recorded in the admin audit log with the row it
+ * replaced (published or draft) as the before value
+ */
+export async function saveSiteContentWithAudit(
+  req: NextApiRequest,
+  input: SaveSiteContentInput
+): Promise<SiteContentRevision> {
+  const before = await getSiteContentData(input.key, input.publish ? 'published' : 'draft');
+  const revision = await saveSiteContent(input);
+  await recordAdminAudit(req, input.actor, {
+    action: input.publish ? 'site_content.publish' : 'site_content.save_draft',
+    targetType: 'site_content',
+    targetKey: input.key,
+    before,
+    after: input.data,
+    metadata: { revision_id: revision.id, revision_number: revision.revision_number },
+  });
+  return revision;
+}
+
+/**
+ * Data of a key's published or draft row (null if there is none)
+ */
+export async function getSiteContentData(key: string, status: 'draft' | 'published'): Promise<unknown> {
+  const { data, error } = await supabaseAdmin
+    .from('site_content')
+    .select('data')
+    .eq('key', key)
+    .eq('status', status)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Database error: ${error.message}`);
+  }
+  return data ? data.data : null;
+}
+
+/**
+ * The editor's working copy, if there is one
+ */
+export async function getSiteContentDraft(key: string): Promise<{ data: unknown; revisionId: string | null } | null> {
+  const { data, error } = await supabaseAdmin
+    .from('site_content')
+    .select('data, revision_id')
+    .eq('key', key)
+    .eq('status', 'draft')
+    .maybeSingle();
+  if (error || !data) {
+    return null;
+  }
+  return { data: data.data, revisionId: data.revision_id || null };
+}
+
+export interface SiteContentHistory {
+  key: string;
+  publishedRevisionId: string | null;
+  draftRevisionId: string | null;
+  revisions: SiteContentRevisionSummary[];
+  schedules: SiteContentSchedule[];
+}
+
+export async function getSiteContentHistory(key: string): Promise<SiteContentHistory> {
+  const [rowsResult, revisionsResult, schedulesResult] = await Promise.all([
+    supabaseAdmin.from('site_content').select('status, revision_id').eq('key', key),
+    supabaseAdmin
+      .from('site_content_revisions')
+      .select(REVISION_SUMMARY_COLUMNS)
+      .eq('content_key', key)
+      .order('revision_number', { ascending: false })
+      .limit(HISTORY_LIMIT),
+    supabaseAdmin
+      .from('site_content_schedules')
+      .select('*')
+      .eq('content_key', key)
+      .order('publish_at', { ascending: false })
+      .limit(HISTORY_LIMIT),
+  ]);
+
+  const error = rowsResult.error || revisionsResult.error || schedulesResult.error;
+  if (error) {
+    throw new Error(`Database error: ${error.message}`);
+  }
+
+  const rows = rowsResult.data || [];
+  const revisionOf = (status: string) => rows.find((row) => row.status === status)?.revision_id || null;
+
+  return {
+    key,
+    publishedRevisionId: revisionOf('published'),
+    draftRevisionId: revisionOf('draft'),
+    revisions: (revisionsResult.data || []) as SiteContentRevisionSummary[],
+    schedules: (schedulesResult.data || []) as SiteContentSchedule[],
+  };
+}
+
+export interface SiteContentKeySummary {
+  key: string;
+  publishedAt: string | null;
+  hasRevisions: boolean;
+  hasDraft: boolean;
+  nextPublishAt: string | null;
+}
+
+/**
+ * Every key with content, a draft or a pending schedule (admin index)
+ */
+export async function listSiteContentKeys(): Promise<SiteContentKeySummary[]> {
+  const [rowsResult, schedulesResult] = await Promise.all([
+    supabaseAdmin.from('site_content').select('key, status, revision_id, updated_at'),
+    supabaseAdmin
+      .from('site_content_schedules')
+      .select('content_key, publish_at')
+      .eq('status', 'pending')
+      .order('publish_at', { ascending: true }),
+  ]);
+
+  const error = rowsResult.error || schedulesResult.error;
+  if (error) {
+    throw new Error(`Database error: ${error.message}`);
+  }
+
+  const byKey: Record<string, SiteContentKeySummary> = {};
+  const entry = (key: string) =>
+    byKey[key] || (byKey[key] = { key, publishedAt: null, hasRevisions: false, hasDraft: false, nextPublishAt: null });
+
+  (rowsResult.data || []).forEach((row) => {
+    const summary = entry(row.key);
+    if (row.status === 'published') summary.publishedAt = row.updated_at;
+    if (row.status === 'draft') summary.hasDraft = true;
+    if (row.revision_id) summary.hasRevisions = true;
+  });
+  (schedulesResult.data || []).forEach((schedule) => {
+    const summary = entry(schedule.content_key);
+    if (!summary.nextPublishAt) summary.nextPublishAt = schedule.publish_at;
+  });
+
+  return Object.keys(byKey)
+    .sort()
+    .map((key) => byKey[key]);
+}
+
+// ============================================================================
+// Scheduled publish
+// ============================================================================
+
+export async function scheduleSiteContentPublish(
+  revisionId: string,
+  publishAt: Date,
+  actorId: string
+): Promise<SiteContentSchedule | null> {
+  const revision = await getSiteContentRevision(revisionId);
+  if (!revision) {
+    return null;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('site_content_schedules')
+    .insert({
+      content_key: revision.content_key,
+      revision_id: revision.id,
+      publish_at: publishAt.toISOString(),
+      status: 'pending',
+      created_by: actorId,
+    })
+    .select('*')
+    .single();
+  if (error) {
+    throw new Error(`Database error: ${error.message}`);
+  }
+
+  await writeAuditLog(actorId, 'schedule', revision, { schedule_id: data.id, publish_at: data.publish_at });
+  return data as SiteContentSchedule;
+}
+
+/**
+ * Cancel a pending schedule. Returns null when it is not pending (already ran or cancelled).
+ */
+export async function cancelSiteContentSchedule(scheduleId: string, actorId: string): Promise<SiteContentSchedule | null> {
+  const { data, error } = await supabaseAdmin
+    .from('site_content_schedules')
+    .update({ status: 'cancelled', executed_at: new Date().toISOString() })
+    .eq('id', scheduleId)
+    .eq('status', 'pending')
+    .select('*')
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Database error: ${error.message}`);
+  }
+  if (!data) {
+    return null;
+  }
+
+  const schedule = data as SiteContentSchedule;
+  const revision = await getSiteContentRevision(schedule.revision_id);
+  if (revision) {
+    await writeAuditLog(actorId, 'schedule_cancel', revision, { schedule_id: schedule.id });
+  }
+  return schedule;
+}
+
+export interface ScheduledPublishResult {
+  scheduleId: string;
+  key: string;
+  revisionId: string;
+  status: 'published' | 'failed';
+  /** Published content, for revalidation */
+  data?: unknown;
+  error?: string;
+}
+
+/**
+ * Publish every pending schedule that is due, oldest first. Each schedule is claimed with a
+ * conditional update, so overlapping cron runs publish it once.
+ */
+export async function publishDueSiteContent(now: Date = new Date(), limit: number = 20): Promise<ScheduledPublishResult[]> {
+  const { data: due, error } = await supabaseAdmin
+    .from('site_content_schedules')
+    .select('*')
+    .eq('status', 'pending')
+    .lte('publish_at', now.toISOString())
+    .order('publish_at', { ascending: true })
+    .limit(limit);
+  if (error) {
+    throw new Error(`Database error: ${error.message}`);
+  }
+
+  const results: ScheduledPublishResult[] = [];
+  for (const schedule of (due || []) as SiteContentSchedule[]) {
+    const { data: claimed } = await supabaseAdmin
+      .from('site_content_schedules')
+      .update({ status: 'published', executed_at: new Date().toISOString() })
+      .eq('id', schedule.id)
+      .eq('status', 'pending')
+      .select('id')
+      .maybeSingle();
+    if (!claimed) {
+      continue;
+    }
+
+    try {
+      const revision = await publishSiteContentRevision(schedule.revision_id, schedule.created_by, 'scheduled_publish');
+      if (!revision) {
+        throw new Error('Revision not found');
+      }
+      results.push({
+        scheduleId: schedule.id,
+        key: schedule.content_key,
+        revisionId: schedule.revision_id,
+        status: 'published',
+        data: revision.data,
+      });
+    } catch (publishError) {
+      const message = publishError instanceof Error ? publishError.message : 'Unknown error';
+      await supabaseAdmin
+        .from('site_content_schedules')
+        .update({ status: 'failed', error: message })
+        .eq('id', schedule.id);
+      results.push({
+        scheduleId: schedule.id,
+        key: schedule.content_key,
+        revisionId: schedule.revision_id,
+        status: 'failed',
+        error: message,
+      });
+    }
+  }
+  return results;
+}
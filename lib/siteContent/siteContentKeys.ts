@@ -0,0 +1,72 @@
+/**
+ * Site Content Keys
+ *
+ * What each site_content key needs when it is published: the roles allowed to publish it
+ * (matching its save endpoint) and the ISR paths to revalidate. Localized keys ("home@es")
+ * behave like their base key.
+ *
+ * Pure functions only (imported by admin pages).
+ */
+
+import type { UserRole } from '@/lib/authServer';
+
+/** SEO and config keys are saved by admin-only endpoints */
+const ADMIN_ONLY_PREFIXES = ['seo:', 'assessment-config:', 'avatar-mapping:', 'feature-flags:'];
+
+export function parseContentKey(key: string): { baseKey: string; locale: string | null } {
+  const at = key.lastIndexOf('@');
+  return at > 0 ? { baseKey: key.slice(0, at), locale: key.slice(at + 1) } : { baseKey: key, locale: null };
+}
+
+export function publishRolesForContentKey(key: string): UserRole[] {
+  const { baseKey } = parseContentKey(key);
+  return ADMIN_ONLY_PREFIXES.some((prefix) => baseKey.startsWith(prefix)) ? ['admin'] : ['editor', 'admin'];
+}
+
+/**
+ * ISR paths that render this key. Config keys are read at request time and need none.
+ */
+export function getRevalidationPaths(key: string, data: unknown): string[] {
+  const { baseKey } = parseContentKey(key);
+
+  switch (baseKey) {
+    case 'navigation': {
+      const categories = (data as { categories?: Array<{ id?: unknown }> } | null)?.categories || [];
+      const categoryPaths = categories
+        .map((category) => (typeof category.id === 'string' && category.id ? `/${category.id}` : null))
+        .filter((path): path is string => path !== null);
+      return ['/'].concat(categoryPaths);
+    }
+    case 'home':
+    case 'footer':
+    case 'global':
+    case 'seo:global':
+    case 'seo:assets':
+      return ['/'];
+    case 'waitlist':
+      return ['/journal-waitlist'];
+  }
+
+  if (baseKey.startsWith('product:')) {
+    return [`/products/${baseKey.slice('product:'.length)}`];
+  }
+  if (baseKey.startsWith('seo:route:')) {
+    return [baseKey.slice('seo:route:'.length) || '/'];
+  }
+  return [];
+}
+
+/**
+ * Save options from a save endpoint's query string: ?draft=1 saves a draft instead of
+ * publishing, ?summary= describes the change in the revision history
+ */
+export function parseSaveQuery(query: Record<string, string | string[] | undefined>): {
+  publish: boolean;
+  changeSummary: string | null;
+} {
+  const summary = typeof query.summary === 'string' ? query.summary.trim().slice(0, 500) : '';
+  return {
+    publish: query.draft !== '1' && query.draft !== 'true',
+    changeSummary: summary || null,
+  };
+}
@@ -0,0 +1,126 @@
+/**
+ * Tests for webhook destinations
+ *
+ * Tests payload template rendering and admin input validation.
+ */
+
+import {
+  buildEventEnvelope,
+  parseDestinationInput,
+  renderPayloadTemplate,
+  toDestinationView,
+  type WebhookDestination,
+} from '../destinations';
+
+const envelope = buildEventEnvelope(
+  'waitlist_join',
+  'person-1:reset',
+  { email: 'jane@example.com', first_name: 'Jane', last_name: null, tags: ['a', 'b'] },
+  new Date('2026-01-01T00:00:00.000Z')
+);
+
+describe('renderPayloadTemplate', () => {
+  it('should send the envelope when there is no template', () => {
+    expect(renderPayloadTemplate(null, envelope)).toEqual({
+      event: 'waitlist_join',
+      event_id: 'person-1:reset',
+      occurred_at: '2026-01-01T00:00:00.000Z',
+      data: envelope.data,
+    });
+  });
+
+  it('should keep value types for whole-string placeholders', () => {
+    expect(
+      renderPayloadTemplate({ properties: { email: '{{data.email}}', tags: '{{ data.tags }}', missing: '{{data.phone}}' } }, envelope)
+    ).toEqual({ properties: { email: 'jane@example.com', tags: ['a', 'b'], missing: null } });
+  });
+
+  it('should interpolate placeholders inside text', () => {
+    expect(
+      renderPayloadTemplate({ text: '{{data.first_name}} {{data.last_name}}<{{data.email}}> joined ({{event}})' }, envelope)
+    ).toEqual({ text: 'Jane <jane@example.com> joined (waitlist_join)' });
+  });
+
+  it('should render arrays and leave literals alone', () => {
+    expect(renderPayloadTemplate([{ id: '{{event_id}}', count: 1, ok: true }], envelope)).toEqual([
+      { id: 'person-1:reset', count: 1, ok: true },
+    ]);
+  });
+});
+
+describe('parseDestinationInput', () => {
+  const valid = {
+    slug: 'crm',
+    name: ' CRM ',
+    url: 'https://crm.example.com/hook',
+    event_types: ['waitlist_join', 'submission_created'],
+  };
+
+  it('should normalize a valid create body', () => {
+    expect(parseDestinationInput({ ...valid, signing_secret: ' ' })).toEqual({
+      ok: true,
+      input: {
+        slug: 'crm',
+        name: 'CRM',
+        url: 'https://crm.example.com/hook',
+        event_types: ['submission_created', 'waitlist_join'],
+        signing_secret: null,
+      },
+    });
+  });
+
+  it('should require the core fields on create', () => {
+    expect(parseDestinationInput({ ...valid, slug: 'Not A Slug' }).ok).toBe(false);
+    expect(parseDestinationInput({ ...valid, url: 'ftp://example.com' }).ok).toBe(false);
+    expect(parseDestinationInput({ ...valid, event_types: [] })).toEqual({
+      ok: false,
+      error: 'Subscribe to at least one event type',
+    });
+    expect(parseDestinationInput({ ...valid, event_types: ['order_paid'] })).toEqual({
+      ok: false,
+      error: 'Unknown event type: order_paid',
+    });
+  });
+
+  it('should only check given fields on update and keep the slug fixed', () => {
+    expect(parseDestinationInput({ enabled: false }, { partial: true })).toEqual({ ok: true, input: { enabled: false } });
+    expect(parseDestinationInput({ slug: 'other' }, { partial: true })).toEqual({
+      ok: false,
+      error: 'slug cannot be changed',
+    });
+  });
+
+  it('should validate templates and headers', () => {
+    expect(parseDestinationInput({ payload_template: 'text' }, { partial: true }).ok).toBe(false);
+    expect(parseDestinationInput({ headers: { 'X-Api-Key': 'k' } }, { partial: true })).toEqual({
+      ok: true,
+      input: { headers: { 'X-Api-Key': 'k' } },
+    });
+    expect(parseDestinationInput({ headers: { 'Content-Type': 'text/plain' } }, { partial: true })).toEqual({
+      ok: false,
+      error: 'Content-Type is set by the dispatcher',
+    });
+    expect(parseDestinationInput({ headers: { 'X-Count': 1 } }, { partial: true }).ok).toBe(false);
+  });
+});
+
+describe('toDestinationView', () => {
+  it('should not expose the signing secret', () => {
+    const view = toDestinationView({
+      id: 'd1',
+      slug: 'crm',
+      name: 'CRM',
+      url: 'https://crm.example.com/hook',
+      event_types: ['waitlist_join'],
+      payload_template: null,
+      headers: {},
+      signing_secret: 'secret',
+      enabled: true,
+      created_by: null,
+      created_at: '2026-01-01T00:00:00.000Z',
+      updated_at: '2026-01-01T00:00:00.000Z',
+    } as WebhookDestination);
+    expect(view).not.toHaveProperty('signing_secret');
+    expect(view.has_signing_secret).toBe(true);
+  });
+});
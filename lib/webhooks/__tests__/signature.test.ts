@@ -0,0 +1,89 @@
+/**
+ * Tests for webhook signatures
+ *
+ * Tests signing, verification with rotated secrets, the replay window and tampering.
+ */
+
+import {
+  computeSignature,
+  getSigningSecrets,
+  signPayload,
+  verifySignature,
+} from '../signature';
+
+const now = new Date('2026-01-01T00:00:00.000Z');
+const nowSeconds = Math.floor(now.getTime() / 1000);
+const body = JSON.stringify({ submissionId: 'abc', status: 'sent' });
+
+function toRequestHeaders(headers: Record<string, string>) {
+  // Node lower-cases incoming header names
+  const result: Record<string, string> = {};
+  Object.keys(headers).forEach((name) => {
+    result[name.toLowerCase()] = headers[name];
+  });
+  return result;
+}
+
+describe('signPayload / verifySignature', () => {
+  it('should verify a request signed with the current secret', () => {
+    const headers = toRequestHeaders(signPayload(body, ['current'], now));
+    expect(headers['x-finediet-timestamp']).toBe(String(nowSeconds));
+    expect(verifySignature(body, headers, ['current'], { now })).toEqual({ ok: true });
+  });
+
+  it('should accept either active secret during rotation', () => {
+    const signedWithOld = toRequestHeaders(signPayload(body, ['old'], now));
+    expect(verifySignature(body, signedWithOld, ['new', 'old'], { now }).ok).toBe(true);
+
+    // Outbound requests carry one signature per active secret
+    const signedWithBoth = toRequestHeaders(signPayload(body, ['new', 'old'], now));
+    expect(signedWithBoth['x-finediet-signature'].split(',')).toHaveLength(2);
+    expect(verifySignature(body, signedWithBoth, ['new'], { now }).ok).toBe(true);
+  });
+
+  it('should reject a tampered body or unknown secret', () => {
+    const headers = toRequestHeaders(signPayload(body, ['current'], now));
+    expect(verifySignature(body.replace('sent', 'failed'), headers, ['current'], { now })).toMatchObject({
+      ok: false,
+      reason: 'invalid_signature',
+    });
+    expect(verifySignature(body, headers, ['other'], { now })).toMatchObject({ ok: false, reason: 'invalid_signature' });
+  });
+
+  it('should reject timestamps outside the replay window', () => {
+    const headers = toRequestHeaders(signPayload(body, ['current'], new Date(now.getTime() - 301 * 1000)));
+    expect(verifySignature(body, headers, ['current'], { now, toleranceSeconds: 300 })).toMatchObject({
+      ok: false,
+      reason: 'timestamp_out_of_window',
+    });
+
+    const future = toRequestHeaders(signPayload(body, ['current'], new Date(now.getTime() + 301 * 1000)));
+    expect(verifySignature(body, future, ['current'], { now }).ok).toBe(false);
+  });
+
+  it('should reject missing headers, malformed timestamps and missing configuration', () => {
+    expect(verifySignature(body, {}, ['current'], { now })).toMatchObject({ ok: false, reason: 'missing_headers' });
+    expect(
+      verifySignature(
+        body,
+        { 'x-finediet-timestamp': 'yesterday', 'x-finediet-signature': 'v1=00' },
+        ['current'],
+        { now }
+      )
+    ).toMatchObject({ ok: false, reason: 'invalid_timestamp' });
+    expect(verifySignature(body, {}, [], { now })).toMatchObject({ ok: false, reason: 'not_configured' });
+  });
+
+  it('should ignore signatures with an unknown version', () => {
+    const signature = computeSignature('current', nowSeconds, body);
+    const headers = { 'x-finediet-timestamp': String(nowSeconds), 'x-finediet-signature': `v0=${signature}` };
+    expect(verifySignature(body, headers, ['current'], { now }).ok).toBe(false);
+  });
+});
+
+describe('getSigningSecrets', () => {
+  it('should return configured secrets, current first', () => {
+    expect(getSigningSecrets({ N8N_SIGNING_SECRET: 'new', N8N_SIGNING_SECRET_PREVIOUS: 'old' })).toEqual(['new', 'old']);
+    expect(getSigningSecrets({ N8N_SIGNING_SECRET_PREVIOUS: ' ' })).toEqual([]);
+  });
+});
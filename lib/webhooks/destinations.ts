@@ -0,0 +1,292 @@
+/**
+ * Webhook Destinations
+ *
+ * Admin-configured endpoints (CRM, Slack, warehouse ingest, ...) that receive app events
+ * through the webhook outbox. Each destination subscribes to event types and may define a
+ * payload template; every subscribed event becomes one webhook_outbox row for it
+ * (target `destination:<slug>`), so retries, dead letters and metrics are per destination.
+ *
+ * Events are wrapped in an envelope:
+ *   { event, event_id, occurred_at, data }
+ *
+ * Templates are JSON with `{{path}}` placeholders resolved against the envelope:
+ * - a string that is exactly one placeholder keeps the value's type ("{{data.person}}" -> object)
+ * - placeholders inside longer strings are interpolated as text (missing values -> "")
+ * - no template sends the envelope as-is
+ *
+ * Pure functions only (shared by the enqueue helper, the admin API and the preview on
+ * /admin/webhook-destinations).
+ */
+
+export const WEBHOOK_EVENT_TYPES = [
+  'submission_created',
+  'email_captured',
+  'waitlist_join',
+  'person_status_change',
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+export const WEBHOOK_EVENT_DESCRIPTIONS: Record<WebhookEventType, string> = {
+  submission_created: 'An assessment was submitted',
+  email_captured: 'An email was attached to an assessment result',
+  waitlist_join: 'Someone joined a program waitlist',
+  person_status_change: "A person's lifecycle status changed",
+};
+
+export const DESTINATION_TARGET_PREFIX = 'destination:';
+
+/** Slugs are lowercase words joined by dashes (they end up in outbox targets) */
+export const DESTINATION_SLUG_PATTERN = /^[a-z0-9][a-z0-9-]{0,62}$/;
+
+/** Headers a destination may not override (set by the dispatcher) */
+const RESERVED_HEADERS = ['content-type', 'content-length', 'x-finediet-signature', 'x-finediet-timestamp'];
+
+export interface WebhookEventEnvelope {
+  event: WebhookEventType;
+  event_id: string;
+  occurred_at: string;
+  data: Record<string, unknown>;
+}
+
+export interface WebhookDestination {
+  id: string;
+  slug: string;
+  name: string;
+  url: string;
+  event_types: WebhookEventType[];
+  payload_template: unknown | null;
+  headers: Record<string, string>;
+  signing_secret: string | null;
+  enabled: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** What the admin API returns: the signing secret itself never leaves the server */
+export type WebhookDestinationView = Omit<WebhookDestination, 'signing_secret'> & { has_signing_secret: boolean };
+
+/** Editable fields (slug only on create) */
+export interface DestinationInput {
+  slug?: string;
+  name?: string;
+  url?: string;
+  event_types?: WebhookEventType[];
+  payload_template?: unknown | null;
+  headers?: Record<string, string>;
+  signing_secret?: string | null;
+  enabled?: boolean;
+}
+
+export type DestinationParseResult =
+  | { ok: true; input: DestinationInput }
+  | { ok: false; error: string };
+
+export function isWebhookEventType(value: unknown): value is WebhookEventType {
+  return typeof value === 'string' && (WEBHOOK_EVENT_TYPES as readonly string[]).includes(value);
+}
+
+export function toDestinationView(destination: WebhookDestination): WebhookDestinationView {
+  const { signing_secret: signingSecret, ...rest } = destination;
+  return { ...rest, headers: rest.headers || {}, has_signing_secret: !!signingSecret };
+}
+
+export function destinationTarget(slug: string): string {
+  return `${DESTINATION_TARGET_PREFIX}${slug}`;
+}
+
+export function buildEventEnvelope(
+  event: WebhookEventType,
+  eventId: string,
+  data: Record<string, unknown>,
+  now: Date = new Date()
+): WebhookEventEnvelope {
+  return { event, event_id: eventId, occurred_at: now.toISOString(), data };
+}
+
+function resolvePath(source: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) => {
+    if (value === null || value === undefined || typeof value !== 'object') return undefined;
+    return (value as Record<string, unknown>)[key];
+  }, source);
+}
+
+function toText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+const WHOLE_PLACEHOLDER = /^\{\{\s*([\w.]+)\s*\}\}$/;
+const PLACEHOLDER = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+/**
+ * Render a destination's payload template for an event (no template -> the envelope)
+ */
+export function renderPayloadTemplate(template: unknown, envelope: WebhookEventEnvelope): unknown {
+  if (template === null || template === undefined) {
+    return envelope;
+  }
+
+  const render = (node: unknown): unknown => {
+    if (typeof node === 'string') {
+      const whole = node.match(WHOLE_PLACEHOLDER);
+      if (whole) {
+        const value = resolvePath(envelope, whole[1]);
+        return value === undefined ? null : value;
+      }
+      return node.replace(PLACEHOLDER, (_, path: string) => toText(resolvePath(envelope, path)));
+    }
+    if (Array.isArray(node)) {
+      return node.map(render);
+    }
+    if (node && typeof node === 'object') {
+      const result: Record<string, unknown> = {};
+      Object.keys(node as Record<string, unknown>).forEach((key) => {
+        result[key] = render((node as Record<string, unknown>)[key]);
+      });
+      return result;
+    }
+    return node;
+  };
+
+  return render(template);
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate an admin create/update body. On update (partial) only the given fields are
+ * checked and the slug is rejected (outbox targets reference it).
+ */
+export function parseDestinationInput(body: unknown, options: { partial?: boolean } = {}): DestinationParseResult {
+  const raw = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+  const partial = options.partial === true;
+  const input: DestinationInput = {};
+
+  if (raw.slug !== undefined) {
+    if (partial) {
+      return { ok: false, error: 'slug cannot be changed' };
+    }
+    if (typeof raw.slug !== 'string' || !DESTINATION_SLUG_PATTERN.test(raw.slug)) {
+      return { ok: false, error: 'slug must be lowercase letters, digits and dashes' };
+    }
+    input.slug = raw.slug;
+  } else if (!partial) {
+    return { ok: false, error: 'slug is required' };
+  }
+
+  if (raw.name !== undefined || !partial) {
+    if (typeof raw.name !== 'string' || !raw.name.trim()) {
+      return { ok: false, error: 'name is required' };
+    }
+    input.name = raw.name.trim();
+  }
+
+  if (raw.url !== undefined || !partial) {
+    if (typeof raw.url !== 'string' || !isHttpUrl(raw.url.trim())) {
+      return { ok: false, error: 'url must be an http(s) URL' };
+    }
+    input.url = raw.url.trim();
+  }
+
+  if (raw.event_types !== undefined || !partial) {
+    const eventTypes = raw.event_types;
+    if (!Array.isArray(eventTypes) || eventTypes.length === 0) {
+      return { ok: false, error: 'Subscribe to at least one event type' };
+    }
+    const unknownType = eventTypes.find((type) => !isWebhookEventType(type));
+    if (unknownType !== undefined) {
+      return { ok: false, error: `Unknown event type: ${String(unknownType)}` };
+    }
+    input.event_types = WEBHOOK_EVENT_TYPES.filter((type) => eventTypes.includes(type));
+  }
+
+  if (raw.payload_template !== undefined) {
+    if (raw.payload_template !== null && typeof raw.payload_template !== 'object') {
+      return { ok: false, error: 'payload_template must be a JSON object or array' };
+    }
+    input.payload_template = raw.payload_template;
+  }
+
+  if (raw.headers !== undefined) {
+    const headers = raw.headers;
+    if (!headers || typeof headers !== 'object' || Array.isArray(headers)) {
+      return { ok: false, error: 'headers must be an object' };
+    }
+    const normalized: Record<string, string> = {};
+    for (const name of Object.keys(headers)) {
+      const value = (headers as Record<string, unknown>)[name];
+      if (typeof value !== 'string' || !/^[A-Za-z0-9-]+$/.test(name)) {
+        return { ok: false, error: `Invalid header: ${name}` };
+      }
+      if (RESERVED_HEADERS.includes(name.toLowerCase())) {
+        return { ok: false, error: `${name} is set by the dispatcher` };
+      }
+      normalized[name] = value;
+    }
+    input.headers = normalized;
+  }
+
+  if (raw.signing_secret !== undefined) {
+    if (raw.signing_secret !== null && typeof raw.signing_secret !== 'string') {
+      return { ok: false, error: 'signing_secret must be a string' };
+    }
+    input.signing_secret = raw.signing_secret && raw.signing_secret.trim() ? raw.signing_secret.trim() : null;
+  }
+
+  if (raw.enabled !== undefined) {
+    if (typeof raw.enabled !== 'boolean') {
+      return { ok: false, error: 'enabled must be a boolean' };
+    }
+    input.enabled = raw.enabled;
+  }
+
+  return { ok: true, input };
+}
+
+/** Example event data for template previews (same shape as the real events) */
+export const SAMPLE_EVENT_DATA: Record<WebhookEventType, Record<string, unknown>> = {
+  submission_created: {
+    submission_id: '00000000-0000-4000-8000-000000000001',
+    assessment_type: 'gut-check',
+    assessment_version: 2,
+    primary_avatar: 'level2',
+    secondary_avatar: null,
+    email: null,
+    locale: 'en',
+    created_at: '2026-01-01T00:00:00.000Z',
+  },
+  email_captured: {
+    submission_id: '00000000-0000-4000-8000-000000000001',
+    assessment_type: 'gut-check',
+    assessment_version: 2,
+    email: 'jane@example.com',
+    levelId: 'level2',
+    locale: 'en',
+    email_type: 'results',
+  },
+  waitlist_join: {
+    person_id: '00000000-0000-4000-8000-000000000002',
+    email: 'jane@example.com',
+    first_name: 'Jane',
+    last_name: null,
+    goal: 'Energy',
+    program_slug: 'reset',
+    source: 'waitlist_page',
+  },
+  person_status_change: {
+    person_id: '00000000-0000-4000-8000-000000000002',
+    email: 'jane@example.com',
+    from_status: 'marketing_only',
+    to_status: 'waitlist',
+    source: 'waitlist_page',
+  },
+};
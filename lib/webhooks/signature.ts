@@ -0,0 +1,153 @@
+/**
+ * Webhook Signatures (server)
+ *
+ * HMAC-SHA256 signing for traffic between the app and n8n, in both directions:
+ * outbound webhooks (outbox dispatcher, emitN8nWebhook) and the mark-sent callback.
+ *
+ * - X-FineDiet-Timestamp: unix seconds when the request was signed
+ * - X-FineDiet-Signature: `v1=<hex>` over `${timestamp}.${rawBody}`; during a secret
+ *   rotation one `v1=` entry per active secret, comma-separated
+ *
+ * Verification accepts any active secret (N8N_SIGNING_SECRET, N8N_SIGNING_SECRET_PREVIOUS)
+ * and rejects timestamps outside the replay window (default 5 minutes either way).
+ *
+ * Rotation: set the new secret as N8N_SIGNING_SECRET and the old one as
+ * N8N_SIGNING_SECRET_PREVIOUS, update n8n, then remove the previous secret.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { IncomingMessage } from 'http';
+
+export const SIGNATURE_HEADER = 'x-finediet-signature';
+export const TIMESTAMP_HEADER = 'x-finediet-timestamp';
+export const SIGNATURE_VERSION = 'v1';
+
+/** Default replay window in seconds */
+export const DEFAULT_TOLERANCE_SECONDS = 300;
+
+export type SignatureFailure =
+  | 'not_configured'
+  | 'missing_headers'
+  | 'invalid_timestamp'
+  | 'timestamp_out_of_window'
+  | 'invalid_signature';
+
+export type VerifyResult = { ok: true } | { ok: false; reason: SignatureFailure; message: string };
+
+/**
+ * Active signing secrets, current first (empty if signing is not configured)
+ */
+export function getSigningSecrets(env: Record<string, string | undefined> = process.env): string[] {
+  return [env.N8N_SIGNING_SECRET, env.N8N_SIGNING_SECRET_PREVIOUS].filter(
+    (secret): secret is string => !!secret && secret.trim().length > 0
+  );
+}
+
+export function getToleranceSeconds(env: Record<string, string | undefined> = process.env): number {
+  const value = parseInt(env.N8N_SIGNATURE_TOLERANCE_SECONDS || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_TOLERANCE_SECONDS;
+}
+
+export function computeSignature(secret: string, timestamp: number | string, rawBody: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${rawBody}`).digest('hex');
+}
+
+/**
+ * Headers for an outbound request body (one signature per active secret)
+ */
+export function signPayload(
+  rawBody: string,
+  secrets: string[],
+  now: Date = new Date()
+): Record<string, string> {
+  const timestamp = Math.floor(now.getTime() / 1000);
+  return {
+    'X-FineDiet-Timestamp': String(timestamp),
+    'X-FineDiet-Signature': secrets
+      .map((secret) => `${SIGNATURE_VERSION}=${computeSignature(secret, timestamp, rawBody)}`)
+      .join(','),
+  };
+}
+
+function safeEqualHex(a: string, b: string): boolean {
+  const left = Buffer.from(a, 'hex');
+  const right = Buffer.from(b, 'hex');
+  return left.length === right.length && left.length > 0 && timingSafeEqual(left, right);
+}
+
+function headerValue(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Verify a signed request against the active secrets
+ */
+export function verifySignature(
+  rawBody: string,
+  headers: Record<string, string | string[] | undefined>,
+  secrets: string[],
+  options: { toleranceSeconds?: number; now?: Date } = {}
+): VerifyResult {
+  if (secrets.length === 0) {
+    return { ok: false, reason: 'not_configured', message: 'Webhook signing secret is not configured' };
+  }
+
+  const timestampHeader = headerValue(headers[TIMESTAMP_HEADER]);
+  const signatureHeader = headerValue(headers[SIGNATURE_HEADER]);
+  if (!timestampHeader || !signatureHeader) {
+    return {
+      ok: false,
+      reason: 'missing_headers',
+      message: 'Missing X-FineDiet-Timestamp or X-FineDiet-Signature header',
+    };
+  }
+
+  if (!/^\d+$/.test(timestampHeader)) {
+    return { ok: false, reason: 'invalid_timestamp', message: 'X-FineDiet-Timestamp must be unix seconds' };
+  }
+
+  const toleranceSeconds = options.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS;
+  const nowSeconds = Math.floor((options.now || new Date()).getTime() / 1000);
+  if (Math.abs(nowSeconds - parseInt(timestampHeader, 10)) > toleranceSeconds) {
+    return {
+      ok: false,
+      reason: 'timestamp_out_of_window',
+      message: `Signature timestamp is more than ${toleranceSeconds}s from server time`,
+    };
+  }
+
+  const candidates = signatureHeader
+    .split(',')
+    .map((part) => part.trim())
+    .filter((part) => part.startsWith(`${SIGNATURE_VERSION}=`))
+    .map((part) => part.slice(SIGNATURE_VERSION.length + 1));
+
+  const valid = secrets.some((secret) => {
+    const expected = computeSignature(secret, timestampHeader, rawBody);
+    return candidates.some((candidate) => safeEqualHex(candidate, expected));
+  });
+
+  return valid ? { ok: true } : { ok: false, reason: 'invalid_signature', message: 'Invalid signature' };
+}
+
+/**
+ * Read the raw request body (routes that verify signatures disable the Next.js body parser)
+ */
+export function readRawBody(req: IncomingMessage, maxBytes = 1024 * 1024): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer | string) => {
+      const buffer = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+      size += buffer.length;
+      if (size > maxBytes) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(buffer);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
@@ -9,6 +9,14 @@ const nextConfig = {
       },
     ],
   },
+  async redirects() {
+    // The Gut Check config editors moved to the generic /admin/config/assessments/[type]/[version]
+    return [1, 2].map((version) => ({
+      source: `/admin/config/assessments/gut-check-v${version}`,
+      destination: `/admin/config/assessments/gut-check/${version}`,
+      permanent: true,
+    }));
+  },
 };
 
 module.exports = nextConfig;
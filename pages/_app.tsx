@@ -9,6 +9,10 @@ import { AdminLayout } from '@/components/admin/AdminLayout';
 import { getNavigationContent, getFooterContent, getGlobalContent } from '@/lib/contentApi';
 import { NavigationContent, FooterContent, GlobalContent } from '@/lib/contentTypes';
 import Link from 'next/link';
+import { getRegisteredAssessmentTypes, getAssessmentPublicPath } from '@/lib/assessments/registry';
+
+// Public routes of registered assessments (e.g., /gut-check)
+const ASSESSMENT_PUBLIC_PATHS = getRegisteredAssessmentTypes().map(getAssessmentPublicPath);
 
 interface MyAppProps extends AppProps {
   navigation: NavigationContent;
@@ -24,7 +28,8 @@ function MyApp({ Component, pageProps, navigation, footerContent, globalContent
   
   // Check if current route is an assessment/results flow route
   const isAssessmentFlow =
-    router.asPath.startsWith('/gut-check') ||
+    router.asPath.startsWith('/assessments/') ||
+    ASSESSMENT_PUBLIC_PATHS.some((path) => router.asPath.startsWith(path)) ||
     router.asPath.startsWith('/gut-pattern-breakdown') ||
     router.asPath.startsWith('/results/');
 
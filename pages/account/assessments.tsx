@@ -12,6 +12,7 @@ import { useRouter } from 'next/router';
 import type { GetServerSideProps } from 'next';
 import { getCurrentUserWithRoleFromSSR } from '@/lib/authServer';
 import Link from 'next/link';
+import { getAssessmentLabel } from '@/lib/assessments/registry';
 
 interface AssessmentSubmission {
   id: string;
@@ -61,11 +62,6 @@ export default function AssessmentsPage({ user }: AssessmentsPageProps) {
     });
   };
 
-  const getAssessmentTypeLabel = (type: string) => {
-    if (type === 'gut-check') return 'Gut Check';
-    return type;
-  };
-
   const getLevelLabel = (avatar: string) => {
     // Normalize level1-4 format
     if (avatar.startsWith('level')) {
@@ -126,7 +122,7 @@ export default function AssessmentsPage({ user }: AssessmentsPageProps) {
                   <div className="flex items-start justify-between">
                     <div className="flex-1">
                       <h2 className="text-xl font-semibold text-white mb-2 antialiased">
-                        {getAssessmentTypeLabel(submission.assessment_type)}
+                        {getAssessmentLabel(submission.assessment_type)}
                       </h2>
                       <p className="text-neutral-300 text-sm mb-3 antialiased">
                         Completed on {formatDate(submission.created_at)}
@@ -0,0 +1,403 @@
+/**
+ * Admin Page: Assessment Funnel Analytics
+ *
+ * Step-by-step funnel, per-question drop-off and level distribution over time from
+ * assessment_events, filterable by UTM source, device and question set revision.
+ * Aggregated server-side by /api/admin/analytics/assessments; CSV export of the current view.
+ * Requires editor or admin role.
+ */
+
+import { GetServerSideProps } from 'next';
+import Head from 'next/head';
+import Link from 'next/link';
+import { useState, useEffect } from 'react';
+import { getCurrentUserWithRoleFromSSR, type AuthenticatedUser } from '@/lib/authServer';
+import { getRegisteredAssessmentTypes } from '@/lib/assessments/registry';
+import { funnelReportToCsv, type FunnelReport } from '@/lib/admin/assessments/funnelReport';
+
+interface AssessmentAnalyticsProps {
+  user: AuthenticatedUser | null;
+  assessmentTypes: string[];
+  defaultFrom: string;
+  defaultTo: string;
+}
+
+interface Filters {
+  assessmentType: string;
+  from: string;
+  to: string;
+  utmSource: string;
+  device: string;
+  revisionId: string;
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? '—' : `${(value * 100).toFixed(1)}%`;
+}
+
+const thClass = 'px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+const selectClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500';
+
+export default function AssessmentAnalytics({
+  user,
+  assessmentTypes,
+  defaultFrom,
+  defaultTo,
+}: AssessmentAnalyticsProps) {
+  const [filters, setFilters] = useState<Filters>({
+    assessmentType: assessmentTypes[0] || '',
+    from: defaultFrom,
+    to: defaultTo,
+    utmSource: '',
+    device: '',
+    revisionId: '',
+  });
+  const [report, setReport] = useState<FunnelReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchReport() {
+      try {
+        setLoading(true);
+        setError(null);
+        const params = new URLSearchParams();
+        (Object.keys(filters) as Array<keyof Filters>).forEach((key) => {
+          if (filters[key]) params.set(key, filters[key]);
+        });
+        const response = await fetch(`/api/admin/analytics/assessments?${params.toString()}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to fetch analytics');
+        }
+
+        setReport(data.report);
+      } catch (err) {
+        console.error('Error fetching assessment analytics:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load analytics');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    if (user && (user.role === 'editor' || user.role === 'admin')) {
+      fetchReport();
+    }
+  }, [filters]);
+
+  // Defensive check - middleware should have already blocked non-authorized users
+  if (!user || (user.role !== 'editor' && user.role !== 'admin')) {
+    return (
+      <>
+        <Head>
+          <title>Assessment Analytics • Fine Diet Admin</title>
+        </Head>
+        <main className="min-h-screen bg-gray-100 flex items-center justify-center px-4">
+          <div className="max-w-md w-full text-center">
+            <h1 className="text-3xl font-bold text-gray-900 mb-4">Access Denied</h1>
+            <p className="text-lg text-gray-600 mb-8">
+              You don't have permission to access this area.
+            </p>
+            <Link
+              href="/admin"
+              className="inline-block px-6 py-3 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors font-medium"
+            >
+              Return to Admin Dashboard
+            </Link>
+          </div>
+        </main>
+      </>
+    );
+  }
+
+  const setFilter = (key: keyof Filters, value: string) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const handleDownloadCSV = () => {
+    if (!report) return;
+
+    const blob = new Blob([funnelReportToCsv(report)], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', `assessment-funnel-${filters.assessmentType}-${filters.from}-${filters.to}.csv`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const maxStepSessions = report && report.steps.length > 0 ? report.steps[0].sessions : 0;
+
+  return (
+    <>
+      <Head>
+        <title>Assessment Analytics • Fine Diet Admin</title>
+      </Head>
+      <div className="min-h-screen bg-gray-100 pt-[100px] pb-10">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-10">
+          {/* Header */}
+          <div className="mb-8">
+            <div className="flex items-center justify-between mb-4">
+              <div>
+                <h1 className="text-4xl font-bold text-gray-900 mb-2">Assessment Analytics</h1>
+                <p className="text-lg text-gray-600">
+                  Funnel, question drop-off and result levels from assessment events.
+                </p>
+              </div>
+              <Link
+                href="/admin"
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+              >
+                ← Back to Dashboard
+              </Link>
+            </div>
+          </div>
+
+          {/* Filters */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-8">
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-3 lg:grid-cols-6">
+              <label className="block text-sm font-medium text-gray-700">
+                Assessment
+                <select
+                  value={filters.assessmentType}
+                  onChange={(e) => setFilter('assessmentType', e.target.value)}
+                  className={`mt-1 ${selectClass}`}
+                >
+                  {assessmentTypes.map((type) => (
+                    <option key={type} value={type}>
+                      {type}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                From
+                <input
+                  type="date"
+                  value={filters.from}
+                  onChange={(e) => setFilter('from', e.target.value)}
+                  className={`mt-1 ${selectClass}`}
+                />
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                To
+                <input
+                  type="date"
+                  value={filters.to}
+                  onChange={(e) => setFilter('to', e.target.value)}
+                  className={`mt-1 ${selectClass}`}
+                />
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                UTM source
+                <select
+                  value={filters.utmSource}
+                  onChange={(e) => setFilter('utmSource', e.target.value)}
+                  className={`mt-1 ${selectClass}`}
+                >
+                  <option value="">All</option>
+                  {(report?.filterOptions.utmSources || []).map((source) => (
+                    <option key={source} value={source}>
+                      {source}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                Device
+                <select
+                  value={filters.device}
+                  onChange={(e) => setFilter('device', e.target.value)}
+                  className={`mt-1 ${selectClass}`}
+                >
+                  <option value="">All</option>
+                  {(report?.filterOptions.devices || []).map((device) => (
+                    <option key={device} value={device}>
+                      {device}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                Question set revision
+                <select
+                  value={filters.revisionId}
+                  onChange={(e) => setFilter('revisionId', e.target.value)}
+                  className={`mt-1 ${selectClass}`}
+                >
+                  <option value="">All</option>
+                  {(report?.filterOptions.questionSetRevisionIds || []).map((revisionId) => (
+                    <option key={revisionId} value={revisionId}>
+                      {revisionId.slice(0, 8)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <div className="mt-4 flex items-center justify-between">
+              <p className="text-sm text-gray-500">
+                {report ? `${report.totalSessions} sessions in range` : ' '}
+              </p>
+              <button
+                onClick={handleDownloadCSV}
+                disabled={!report || loading}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium text-sm"
+              >
+                Download CSV
+              </button>
+            </div>
+          </div>
+
+          {/* Error Message */}
+          {error && (
+            <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-md">
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          )}
+
+          {loading && !report ? (
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center">
+              <p className="text-gray-600">Loading analytics...</p>
+            </div>
+          ) : report ? (
+            <div className={`space-y-8 ${loading ? 'opacity-60' : ''}`}>
+              {/* Funnel */}
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <h2 className="text-xl font-semibold text-gray-900 mb-4">Funnel</h2>
+                <div className="space-y-3">
+                  {report.steps.map((step) => (
+                    <div key={step.key} className="grid grid-cols-12 items-center gap-4 text-sm">
+                      <div className="col-span-3 font-medium text-gray-900">{step.label}</div>
+                      <div className="col-span-5 bg-gray-100 rounded h-6 overflow-hidden">
+                        <div
+                          className="bg-blue-600 h-6"
+                          style={{ width: maxStepSessions > 0 ? `${(step.sessions / maxStepSessions) * 100}%` : '0%' }}
+                        />
+                      </div>
+                      <div className="col-span-1 text-gray-900 text-right">{step.sessions}</div>
+                      <div className="col-span-3 text-gray-600">
+                        {formatPercent(step.fromPrevious)} of previous · {formatPercent(step.fromStart)} of started
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {/* Question drop-off */}
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <h2 className="text-xl font-semibold text-gray-900 mb-1">Question drop-off</h2>
+                <p className="text-sm text-gray-600 mb-4">
+                  Exits are sessions whose last answered question this was and that never completed.
+                </p>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className={thClass}>#</th>
+                        <th className={thClass}>Question</th>
+                        <th className={thClass}>Answered</th>
+                        <th className={thClass}>Exits</th>
+                        <th className={thClass}>Drop-off</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {report.questions.length === 0 ? (
+                        <tr>
+                          <td colSpan={5} className="px-4 py-8 text-center text-gray-500">
+                            No answered questions in this range.
+                          </td>
+                        </tr>
+                      ) : (
+                        report.questions.map((question) => (
+                          <tr key={question.questionId}>
+                            <td className="px-4 py-3 text-sm text-gray-500">{question.questionIndex + 1}</td>
+                            <td className="px-4 py-3 text-sm font-medium text-gray-900">{question.questionId}</td>
+                            <td className="px-4 py-3 text-sm text-gray-900">{question.answered}</td>
+                            <td className="px-4 py-3 text-sm text-gray-900">{question.exits}</td>
+                            <td className="px-4 py-3 text-sm text-gray-900">{formatPercent(question.dropOffRate)}</td>
+                          </tr>
+                        ))
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              {/* Level distribution */}
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <h2 className="text-xl font-semibold text-gray-900 mb-4">Level distribution</h2>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className={thClass}>Day</th>
+                        {report.levels.levelIds.map((levelId) => (
+                          <th key={levelId} className={thClass}>
+                            {levelId}
+                          </th>
+                        ))}
+                        <th className={thClass}>Total</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {report.levels.rows.length === 0 ? (
+                        <tr>
+                          <td colSpan={report.levels.levelIds.length + 2} className="px-4 py-8 text-center text-gray-500">
+                            No completed assessments in this range.
+                          </td>
+                        </tr>
+                      ) : (
+                        report.levels.rows.map((row) => (
+                          <tr key={row.day}>
+                            <td className="px-4 py-3 text-sm text-gray-500 whitespace-nowrap">{row.day}</td>
+                            {report.levels.levelIds.map((levelId) => {
+                              const count = row.counts[levelId] || 0;
+                              return (
+                                <td key={levelId} className="px-4 py-3 text-sm text-gray-900">
+                                  {count}{' '}
+                                  <span className="text-gray-500">
+                                    ({formatPercent(row.total > 0 ? count / row.total : null)})
+                                  </span>
+                                </td>
+                              );
+                            })}
+                            <td className="px-4 py-3 text-sm font-medium text-gray-900">{row.total}</td>
+                          </tr>
+                        ))
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </div>
+          ) : null}
+        </div>
+      </div>
+    </>
+  );
+}
+
+export const getServerSideProps: GetServerSideProps<AssessmentAnalyticsProps> = async (context) => {
+  const user = await getCurrentUserWithRoleFromSSR(context);
+  if (!user || (user.role !== 'editor' && user.role !== 'admin')) {
+    return { props: { user: null, assessmentTypes: [], defaultFrom: '', defaultTo: '' } };
+  }
+
+  // Last 30 days including today (UTC), matching the API default
+  const today = new Date();
+  const from = new Date(today);
+  from.setUTCDate(from.getUTCDate() - 29);
+
+  return {
+    props: {
+      user,
+      assessmentTypes: getRegisteredAssessmentTypes(),
+      defaultFrom: from.toISOString().split('T')[0],
+      defaultTo: today.toISOString().split('T')[0],
+    },
+  };
+};
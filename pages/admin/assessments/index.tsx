@@ -12,6 +12,12 @@ import Link from 'next/link';
 import { useState, useEffect } from 'react';
 import { getCurrentUserWithRoleFromSSR, AuthenticatedUser } from '@/lib/authServer';
 import { buildAssessmentIndex, type AssessmentVersion } from '@/lib/admin/assessments/buildAssessmentIndex';
+import {
+  ASSESSMENT_REGISTRY,
+  getRegisteredAssessmentTypes,
+  getAssessmentConfigEditorPath,
+  getAssessmentLabel,
+} from '@/lib/assessments/registry';
 
 interface AssessmentsIndexProps {
   user: AuthenticatedUser | null;
@@ -358,17 +364,29 @@ export default function AssessmentsIndex({ user }: AssessmentsIndexProps) {
             <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
               <h2 className="text-xl font-semibold text-gray-900 mb-3">Assessment Config</h2>
               <div className="space-y-2">
+                {getRegisteredAssessmentTypes().flatMap((assessmentType) =>
+                  Object.keys(ASSESSMENT_REGISTRY[assessmentType].configs)
+                    .map(Number)
+                    .sort((a, b) => a - b)
+                    .map((version) => {
+                      const editorPath = getAssessmentConfigEditorPath(assessmentType, version);
+                      if (!editorPath) return null;
+                      return (
+                        <Link
+                          key={`${assessmentType}-${version}`}
+                          href={editorPath}
+                          className="block text-sm text-blue-600 hover:text-blue-800 hover:underline"
+                        >
+                          {getAssessmentLabel(assessmentType)} v{version} Config
+                        </Link>
+                      );
+                    })
+                )}
                 <Link
-                  href="/admin/config/assessments/gut-check-v1"
+                  href="/admin/assessments/rescore"
                   className="block text-sm text-blue-600 hover:text-blue-800 hover:underline"
                 >
-                  Gut Check v1 Config
-                </Link>
-                <Link
-                  href="/admin/config/assessments/gut-check-v2"
-                  className="block text-sm text-blue-600 hover:text-blue-800 hover:underline"
-                >
-                  Gut Check v2 Config
+                  Rescore Submissions
                 </Link>
                 <Link
                   href="/admin/config/feature-flags"
@@ -0,0 +1,376 @@
+/**
+ * Admin Page: Bulk Rescore Submissions
+ *
+ * Admin-only tool to preview the impact of threshold changes on historical v2 submissions
+ * (level-migration matrix) and, once confirmed, publish the thresholds to the assessment config
+ * and write the new results with an audit trail.
+ * Backed by POST /api/admin/assessments/rescore.
+ */
+
+import { GetServerSideProps } from 'next';
+import Head from 'next/head';
+import Link from 'next/link';
+import { useState } from 'react';
+import { getCurrentUserWithRoleFromSSR, type AuthenticatedUser } from '@/lib/authServer';
+import { getAssessmentDefinition, getAssessmentLabel } from '@/lib/assessments/registry';
+import type { AxisThresholds } from '@/lib/assessments/scoring/scoringEngine';
+import type { RescoredSubmission, RescoreSummary } from '@/lib/admin/assessments/rescoreSubmissions';
+
+interface RescorePageProps {
+  user: AuthenticatedUser | null;
+  assessmentType: string;
+  assessmentVersion: number;
+  currentThresholds: AxisThresholds | null;
+}
+
+interface RescoreResult {
+  thresholds: AxisThresholds;
+  currentThresholds: AxisThresholds;
+  summary: RescoreSummary;
+  changes: RescoredSubmission[];
+  runId?: string;
+  configRevisionId?: string;
+  updated?: number;
+  failed?: number;
+}
+
+export default function RescorePage({ user, assessmentType, assessmentVersion, currentThresholds }: RescorePageProps) {
+  const [axisBandHigh, setAxisBandHigh] = useState<number>(currentThresholds?.axisBandHigh ?? 2.3);
+  const [axisBandModerate, setAxisBandModerate] = useState<number>(currentThresholds?.axisBandModerate ?? 1.3);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<RescoreResult | null>(null);
+  const [previewKey, setPreviewKey] = useState<string | null>(null);
+
+  // Parameters of the current form (apply is only allowed for the previewed parameters)
+  const formKey = JSON.stringify({ axisBandHigh, axisBandModerate, from, to });
+
+  const runRescore = async (apply: boolean) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/admin/assessments/rescore', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          assessmentType,
+          assessmentVersion,
+          thresholds: { axisBandHigh, axisBandModerate },
+          from: from ? new Date(from).toISOString() : undefined,
+          to: to ? new Date(`${to}T23:59:59.999`).toISOString() : undefined,
+          apply,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Rescore failed');
+      }
+
+      setResult(data);
+      setPreviewKey(apply ? null : formKey);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Rescore failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleApply = () => {
+    if (!result) return;
+    if (
+      confirm(
+        `Write new results for ${result.summary.changed} submission(s)? ` +
+          'Previous levels are kept in each submission\'s rescore history. ' +
+          'The candidate thresholds are also published to the assessment config, so new submissions get the same levels.'
+      )
+    ) {
+      runRescore(true);
+    }
+  };
+
+  // Defensive check - middleware should have already blocked non-authorized users
+  if (!user || user.role !== 'admin') {
+    return (
+      <>
+        <Head>
+          <title>Rescore Submissions • Fine Diet</title>
+        </Head>
+        <main className="min-h-screen bg-gray-100 flex items-center justify-center px-4">
+          <div className="max-w-md w-full text-center">
+            <h1 className="text-3xl font-bold text-gray-900 mb-4">Access Denied</h1>
+            <p className="text-lg text-gray-600 mb-8">You don't have permission to access this page.</p>
+            <Link
+              href="/admin"
+              className="inline-block px-6 py-3 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors font-medium"
+            >
+              Return to Admin Dashboard
+            </Link>
+          </div>
+        </main>
+      </>
+    );
+  }
+
+  const levels = result ? Object.keys(result.summary.matrix) : [];
+  const canApply = !!result && !result.runId && previewKey === formKey && result.summary.changed > 0;
+
+  return (
+    <>
+      <Head>
+        <title>Rescore Submissions • Fine Diet Admin</title>
+      </Head>
+      <div className="min-h-screen bg-gray-50 px-8 pt-[120px] pb-10">
+        <div className="max-w-5xl mx-auto">
+          <div className="mb-8">
+            <Link href="/admin/assessments" className="text-sm text-blue-600 hover:text-blue-800 mb-2 inline-block">
+              ← Back to Assessments
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-900">
+              Rescore {getAssessmentLabel(assessmentType)} v{assessmentVersion} Submissions
+            </h1>
+            <p className="mt-2 text-sm text-gray-600">
+              Replays stored responses with candidate thresholds. Preview the level migration before writing anything.
+              Applying publishes the thresholds to the assessment config as well.
+            </p>
+          </div>
+
+          {/* Candidate config */}
+          <section className="bg-white rounded-lg shadow p-6 mb-6">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">Candidate Thresholds</h2>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Axis Band High</label>
+                <input
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  max="5"
+                  value={axisBandHigh}
+                  onChange={(e) => setAxisBandHigh(parseFloat(e.target.value) || 0)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <p className="text-xs text-gray-500 mt-1">Current: {currentThresholds?.axisBandHigh ?? '—'}</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Axis Band Moderate</label>
+                <input
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  max="5"
+                  value={axisBandModerate}
+                  onChange={(e) => setAxisBandModerate(parseFloat(e.target.value) || 0)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <p className="text-xs text-gray-500 mt-1">Current: {currentThresholds?.axisBandModerate ?? '—'}</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Submitted From</label>
+                <input
+                  type="date"
+                  value={from}
+                  onChange={(e) => setFrom(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Submitted To</label>
+                <input
+                  type="date"
+                  value={to}
+                  onChange={(e) => setTo(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+            <div className="flex gap-2 mt-6">
+              <button
+                type="button"
+                onClick={() => runRescore(false)}
+                disabled={loading}
+                className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+              >
+                {loading ? 'Working...' : 'Preview Impact'}
+              </button>
+              <button
+                type="button"
+                onClick={handleApply}
+                disabled={loading || !canApply}
+                className="px-6 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+              >
+                Apply Rescore
+              </button>
+            </div>
+            {result && !result.runId && previewKey !== formKey && (
+              <p className="text-xs text-yellow-700 mt-2">Parameters changed since the last preview. Preview again to apply.</p>
+            )}
+          </section>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          )}
+
+          {result?.runId && (
+            <div className="bg-green-50 border border-green-200 rounded-lg p-4 mb-6">
+              <p className="text-sm text-green-800">
+                Rescore applied (run {result.runId}): {result.updated} updated, {result.failed} failed.
+                {result.configRevisionId
+                  ? ' The thresholds are now the published assessment config.'
+                  : ' The thresholds already matched the published assessment config.'}
+              </p>
+            </div>
+          )}
+
+          {result && (
+            <>
+              {/* Summary */}
+              <section className="bg-white rounded-lg shadow p-6 mb-6">
+                <h2 className="text-xl font-semibold text-gray-900 mb-4">Impact</h2>
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-center">
+                  {[
+                    ['Submissions', result.summary.total],
+                    ['Rescored', result.summary.rescored],
+                    ['Skipped (no responses)', result.summary.skipped],
+                    ['Level changed', result.summary.levelChanged],
+                    ['Level or confidence changed', result.summary.changed],
+                  ].map(([label, value]) => (
+                    <div key={label as string} className="bg-gray-50 rounded-md p-3">
+                      <p className="text-2xl font-bold text-gray-900">{value}</p>
+                      <p className="text-xs text-gray-500">{label}</p>
+                    </div>
+                  ))}
+                </div>
+              </section>
+
+              {/* Level-migration matrix */}
+              <section className="bg-white rounded-lg shadow p-6 mb-6">
+                <h2 className="text-xl font-semibold text-gray-900 mb-1">Level Migration</h2>
+                <p className="text-xs text-gray-500 mb-4">Rows: current level. Columns: level with candidate thresholds.</p>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">From \ To</th>
+                        {levels.map((to) => (
+                          <th key={to} className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">
+                            {to}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {levels.map((fromLevel) => (
+                        <tr key={fromLevel}>
+                          <td className="px-4 py-2 font-medium text-gray-900">{fromLevel}</td>
+                          {levels.map((toLevel) => {
+                            const count = result.summary.matrix[fromLevel][toLevel];
+                            return (
+                              <td
+                                key={toLevel}
+                                className={`px-4 py-2 text-right ${
+                                  count === 0
+                                    ? 'text-gray-300'
+                                    : fromLevel === toLevel
+                                    ? 'text-gray-700'
+                                    : 'font-semibold text-orange-700 bg-orange-50'
+                                }`}
+                              >
+                                {count}
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </section>
+
+              {/* Changed submissions */}
+              {result.changes.length > 0 && (
+                <section className="bg-white rounded-lg shadow p-6 mb-6">
+                  <h2 className="text-xl font-semibold text-gray-900 mb-4">
+                    Changed Submissions
+                    {result.summary.changed > result.changes.length && (
+                      <span className="text-sm font-normal text-gray-500">
+                        {' '}
+                        (showing {result.changes.length} of {result.summary.changed})
+                      </span>
+                    )}
+                  </h2>
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200 text-sm">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Submission</th>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Level</th>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Confidence</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200">
+                        {result.changes.map((change) => (
+                          <tr key={change.id}>
+                            <td className="px-4 py-2 font-mono text-gray-900">{change.id.substring(0, 8)}...</td>
+                            <td className="px-4 py-2 text-gray-700">
+                              {change.fromLevel} → {change.toLevel}
+                            </td>
+                            <td className="px-4 py-2 text-gray-700">
+                              {change.fromConfidenceScore ?? '—'} → {change.toConfidenceScore}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </section>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
+
+export const getServerSideProps: GetServerSideProps<RescorePageProps> = async (context) => {
+  const assessmentType = typeof context.query.type === 'string' ? context.query.type : 'gut-check';
+  const assessmentVersion = 2;
+
+  // Get the current user with their role
+  const user = await getCurrentUserWithRoleFromSSR(context);
+
+  // Note: Middleware should have already blocked non-authorized users,
+  // but we still check here for defensive programming (admin-only)
+  if (!user || user.role !== 'admin') {
+    return {
+      props: {
+        user: null,
+        assessmentType,
+        assessmentVersion,
+        currentThresholds: null,
+      },
+    };
+  }
+
+  if (!getAssessmentDefinition(assessmentType)) {
+    return { notFound: true };
+  }
+
+  const { loadAxisThresholds } = await import('@/lib/assessmentScoringV2');
+  const currentThresholds = await loadAxisThresholds(assessmentType, assessmentVersion);
+
+  return {
+    props: {
+      user,
+      assessmentType,
+      assessmentVersion,
+      currentThresholds,
+    },
+  };
+};
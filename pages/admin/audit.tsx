@@ -0,0 +1,371 @@
+/**
+ * Admin Page: Audit Log
+ *
+ * Every write through the admin APIs (admin_audit_log): who, what, which target, from which IP,
+ * with a field-level diff of the target before and after. Filterable by actor, action, target
+ * and date; CSV export of all matching entries comes from /api/admin/audit?format=csv.
+ * Requires admin role only.
+ */
+
+import { GetServerSideProps } from 'next';
+import Head from 'next/head';
+import Link from 'next/link';
+import { Fragment, useState, useEffect, type FormEvent } from 'react';
+import { getCurrentUserWithRoleFromSSR, type AuthenticatedUser } from '@/lib/authServer';
+import { diffContent } from '@/lib/contentDiff';
+import { AUDIT_EXPORT_LIMIT, type AdminAuditEntry } from '@/lib/admin/audit/auditLog';
+import { ContentDiffList } from '@/components/admin/ContentDiffList';
+
+interface AuditPageProps {
+  user: AuthenticatedUser | null;
+}
+
+interface Filters {
+  actor: string;
+  action: string;
+  targetType: string;
+  targetKey: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: Filters = { actor: '', action: '', targetType: '', targetKey: '', from: '', to: '' };
+
+const thClass = 'px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500';
+
+const formatTimestamp = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+
+function toQuery(filters: Filters): URLSearchParams {
+  const params = new URLSearchParams();
+  (Object.keys(filters) as Array<keyof Filters>).forEach((key) => {
+    if (filters[key].trim()) params.set(key, filters[key].trim());
+  });
+  return params;
+}
+
+export default function AuditPage({ user }: AuditPageProps) {
+  const [draft, setDraft] = useState<Filters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [entries, setEntries] = useState<AdminAuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [pageSize, setPageSize] = useState(50);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchEntries() {
+      try {
+        setLoading(true);
+        setError(null);
+        const params = toQuery(filters);
+        params.set('page', String(page));
+        const response = await fetch(`/api/admin/audit?${params.toString()}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to fetch audit log');
+        }
+        setEntries(data.entries || []);
+        setTotal(data.total || 0);
+        setPageSize(data.pageSize || 50);
+      } catch (err) {
+        console.error('Error fetching audit log:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load audit log');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    if (user && user.role === 'admin') {
+      fetchEntries();
+    }
+  }, [filters, page]);
+
+  // Defensive check - middleware should have already blocked non-authorized users
+  if (!user || user.role !== 'admin') {
+    return (
+      <>
+        <Head>
+          <title>Audit Log • Fine Diet Admin</title>
+        </Head>
+        <main className="min-h-screen bg-gray-100 flex items-center justify-center px-4">
+          <div className="max-w-md w-full text-center">
+            <h1 className="text-3xl font-bold text-gray-900 mb-4">Access Denied</h1>
+            <p className="text-lg text-gray-600 mb-8">
+              You don't have permission to access this area.
+            </p>
+            <Link
+              href="/admin"
+              className="inline-block px-6 py-3 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors font-medium"
+            >
+              Return to Admin Dashboard
+            </Link>
+          </div>
+        </main>
+      </>
+    );
+  }
+
+  const setDraftFilter = (key: keyof Filters, value: string) => {
+    setDraft((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const handleApply = (e: FormEvent) => {
+    e.preventDefault();
+    setFilters(draft);
+    setPage(1);
+  };
+
+  const handleReset = () => {
+    setDraft(EMPTY_FILTERS);
+    setFilters(EMPTY_FILTERS);
+    setPage(1);
+  };
+
+  const exportParams = toQuery(filters);
+  exportParams.set('format', 'csv');
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+
+  return (
+    <>
+      <Head>
+        <title>Audit Log • Fine Diet Admin</title>
+      </Head>
+      <div className="min-h-screen bg-gray-100 pt-[100px] pb-10">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-10">
+          {/* Header */}
+          <div className="mb-8">
+            <div className="flex items-center justify-between mb-4">
+              <div>
+                <h1 className="text-4xl font-bold text-gray-900 mb-2">Audit Log</h1>
+                <p className="text-lg text-gray-600">Who changed what through the admin, newest first.</p>
+              </div>
+              <Link
+                href="/admin"
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+              >
+                ← Back to Dashboard
+              </Link>
+            </div>
+          </div>
+
+          {/* Filters */}
+          <form onSubmit={handleApply} className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-8">
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-3 lg:grid-cols-6">
+              <label className="block text-sm font-medium text-gray-700">
+                Actor
+                <input
+                  type="text"
+                  value={draft.actor}
+                  onChange={(e) => setDraftFilter('actor', e.target.value)}
+                  placeholder="Email or user ID"
+                  className={`mt-1 ${inputClass}`}
+                />
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                Action
+                <input
+                  type="text"
+                  value={draft.action}
+                  onChange={(e) => setDraftFilter('action', e.target.value)}
+                  placeholder="e.g. people."
+                  className={`mt-1 ${inputClass}`}
+                />
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                Target type
+                <input
+                  type="text"
+                  value={draft.targetType}
+                  onChange={(e) => setDraftFilter('targetType', e.target.value)}
+                  placeholder="e.g. site_content"
+                  className={`mt-1 ${inputClass}`}
+                />
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                Target key
+                <input
+                  type="text"
+                  value={draft.targetKey}
+                  onChange={(e) => setDraftFilter('targetKey', e.target.value)}
+                  className={`mt-1 ${inputClass}`}
+                />
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                From
+                <input
+                  type="date"
+                  value={draft.from}
+                  onChange={(e) => setDraftFilter('from', e.target.value)}
+                  className={`mt-1 ${inputClass}`}
+                />
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                To
+                <input
+                  type="date"
+                  value={draft.to}
+                  onChange={(e) => setDraftFilter('to', e.target.value)}
+                  className={`mt-1 ${inputClass}`}
+                />
+              </label>
+            </div>
+            <div className="mt-4 flex items-center gap-3">
+              <button
+                type="submit"
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors font-medium text-sm"
+              >
+                Apply Filters
+              </button>
+              <button
+                type="button"
+                onClick={handleReset}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+              >
+                Reset
+              </button>
+              <a
+                href={`/api/admin/audit?${exportParams.toString()}`}
+                className="ml-auto px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+              >
+                Download CSV
+              </a>
+            </div>
+            {total > AUDIT_EXPORT_LIMIT && (
+              <p className="mt-2 text-right text-xs text-gray-500">
+                The CSV holds the newest {AUDIT_EXPORT_LIMIT} of {total} matching entries; narrow the filters to export the rest.
+              </p>
+            )}
+          </form>
+
+          {error && (
+            <div className="mb-6 bg-red-50 border border-red-200 rounded-md p-4 text-sm text-red-800">{error}</div>
+          )}
+
+          {/* Entries */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+            {loading ? (
+              <p className="p-6 text-sm text-gray-500">Loading...</p>
+            ) : entries.length === 0 ? (
+              <p className="p-6 text-sm text-gray-500">No audit entries match these filters.</p>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className={thClass}>Time</th>
+                    <th className={thClass}>Actor</th>
+                    <th className={thClass}>Action</th>
+                    <th className={thClass}>Target</th>
+                    <th className={thClass}>IP</th>
+                    <th className={thClass}></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {entries.map((entry) => (
+                    <Fragment key={entry.id}>
+                      <tr className="hover:bg-gray-50">
+                        <td className="px-4 py-3 text-sm text-gray-700 whitespace-nowrap">
+                          {formatTimestamp(entry.created_at)}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-900">
+                          {entry.actor_email || entry.actor_id || 'unknown'}
+                          {entry.actor_role && <span className="ml-1 text-xs text-gray-500">({entry.actor_role})</span>}
+                        </td>
+                        <td className="px-4 py-3 text-sm font-mono text-gray-900">{entry.action}</td>
+                        <td className="px-4 py-3 text-sm text-gray-700">
+                          <span className="text-gray-500">{entry.target_type}</span>
+                          {entry.target_key && <span className="ml-1 font-mono">{entry.target_key}</span>}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-700 font-mono">{entry.ip || '-'}</td>
+                        <td className="px-4 py-3 text-sm text-right">
+                          <button
+                            type="button"
+                            onClick={() => setExpanded(expanded === entry.id ? null : entry.id)}
+                            className="text-blue-600 hover:underline"
+                          >
+                            {expanded === entry.id ? 'Hide' : 'Changes'}
+                          </button>
+                        </td>
+                      </tr>
+                      {expanded === entry.id && (
+                        <tr>
+                          <td colSpan={6} className="px-4 py-4 bg-gray-50">
+                            <ContentDiffList changes={diffContent(entry.before, entry.after)} />
+                            {entry.metadata && (
+                              <pre className="mt-3 text-xs text-gray-600 whitespace-pre-wrap">
+                                {JSON.stringify(entry.metadata, null, 2)}
+                              </pre>
+                            )}
+                            <p className="mt-2 text-xs text-gray-500">
+                              {entry.method} {entry.path}
+                            </p>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {/* Pagination */}
+          {total > pageSize && (
+            <div className="mt-4 flex items-center justify-between text-sm text-gray-600">
+              <span>
+                Page {page} of {pageCount} ({total} entries)
+              </span>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => setPage(page - 1)}
+                  disabled={page <= 1}
+                  className="px-3 py-1 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Previous
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= pageCount}
+                  className="px-3 py-1 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
+
+export const getServerSideProps: GetServerSideProps<AuditPageProps> = async (context) => {
+  const user = await getCurrentUserWithRoleFromSSR(context);
+
+  if (!user || user.role !== 'admin') {
+    return {
+      props: {
+        user: null,
+      },
+    };
+  }
+
+  return {
+    props: {
+      user,
+    },
+  };
+};
@@ -0,0 +1,456 @@
+/**
+ * Generic Assessment Config Editor
+ * 
+ * Route: /admin/config/assessments/[assessmentType]/[version]
+ * 
+ * Admin-only page for managing the scoring thresholds of any registered assessment
+ * (see lib/assessments/registry.ts). Shows the threshold groups the version's defaults
+ * define: axis bands (v2 scoring) and/or confidence + secondary avatar thresholds (v1).
+ * Protected with role-based access control (admin only).
+ */
+
+import { GetServerSideProps } from 'next';
+import Head from 'next/head';
+import { useState, useEffect } from 'react';
+import { getCurrentUserWithRoleFromSSR, AuthenticatedUser } from '@/lib/authServer';
+import type { AssessmentConfig } from '@/lib/config/types';
+import { getAssessmentDefinition } from '@/lib/assessments/registry';
+
+interface AssessmentConfigEditorProps {
+  user: AuthenticatedUser;
+  assessmentType: string;
+  version: number;
+  label: string;
+  defaults: AssessmentConfig;
+  initialConfig: AssessmentConfig | null;
+}
+
+export default function AssessmentConfigEditor({
+  user,
+  assessmentType,
+  version,
+  label,
+  defaults,
+  initialConfig,
+}: AssessmentConfigEditorProps) {
+  const [formState, setFormState] = useState<AssessmentConfig>(
+    initialConfig || defaults
+  );
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveMessage, setSaveMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [warnings, setWarnings] = useState<string[]>([]);
+
+  const defaultThresholds = defaults.scoring.thresholds;
+  const editsAxisBands =
+    defaultThresholds.axisBandHigh !== undefined || defaultThresholds.axisBandModerate !== undefined;
+  const editsConfidence = defaultThresholds.confidenceThresholds !== undefined;
+  const editsSecondary = defaultThresholds.secondaryAvatarThreshold !== undefined;
+
+  // Validate and show warnings
+  const validateAndWarn = () => {
+    const newWarnings: string[] = [];
+    const { axisBandHigh, axisBandModerate } = formState.scoring.thresholds;
+    const confidence = formState.scoring.thresholds.confidenceThresholds;
+    const secondary = formState.scoring.thresholds.secondaryAvatarThreshold;
+
+    if (axisBandHigh !== undefined && axisBandModerate !== undefined) {
+      if (axisBandHigh <= axisBandModerate) {
+        newWarnings.push('Axis Band High threshold should be greater than Moderate threshold.');
+      }
+    }
+    if (axisBandHigh !== undefined && (axisBandHigh < 0 || axisBandHigh > 5)) {
+      newWarnings.push('Axis Band High should be between 0 and 5.');
+    }
+    if (axisBandModerate !== undefined && (axisBandModerate < 0 || axisBandModerate > 5)) {
+      newWarnings.push('Axis Band Moderate should be between 0 and 5.');
+    }
+    if (confidence) {
+      if (confidence.high <= confidence.medium) {
+        newWarnings.push('High confidence threshold should be greater than medium threshold.');
+      }
+      if (confidence.high < 0 || confidence.high > 1) {
+        newWarnings.push('High confidence threshold should be between 0 and 1.');
+      }
+      if (confidence.medium < 0 || confidence.medium > 1) {
+        newWarnings.push('Medium confidence threshold should be between 0 and 1.');
+      }
+    }
+    if (secondary !== undefined && (secondary < 0 || secondary > 1)) {
+      newWarnings.push('Secondary avatar threshold should be between 0 and 1.');
+    }
+
+    setWarnings(newWarnings);
+  };
+
+  const updateThreshold = (field: 'axisBandHigh' | 'axisBandModerate', value: number) => {
+    setFormState((prev) => ({
+      ...prev,
+      scoring: {
+        ...prev.scoring,
+        thresholds: {
+          ...prev.scoring.thresholds,
+          [field]: value,
+        },
+      },
+    }));
+  };
+
+  const updateConfidenceThreshold = (field: 'high' | 'medium', value: number) => {
+    setFormState((prev) => ({
+      ...prev,
+      scoring: {
+        ...prev.scoring,
+        thresholds: {
+          ...prev.scoring.thresholds,
+          confidenceThresholds: {
+            ...(prev.scoring.thresholds.confidenceThresholds || { high: 0.3, medium: 0.15 }),
+            [field]: value,
+          },
+        },
+      },
+    }));
+  };
+
+  const updateSecondaryThreshold = (value: number) => {
+    setFormState((prev) => ({
+      ...prev,
+      scoring: {
+        ...prev.scoring,
+        thresholds: {
+          ...prev.scoring.thresholds,
+          secondaryAvatarThreshold: value,
+        },
+      },
+    }));
+  };
+
+  // Validate on form state change
+  useEffect(() => {
+    validateAndWarn();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [formState]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setSaveMessage(null);
+
+    try {
+      const response = await fetch('/api/admin/config/assessment', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          assessmentType,
+          version,
+          config: formState,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok && data.success) {
+        setSaveMessage({ type: 'success', text: 'Assessment config saved successfully!' });
+      } else {
+        setSaveMessage({
+          type: 'error',
+          text: data.error || 'Failed to save assessment config',
+        });
+      }
+    } catch (error) {
+      setSaveMessage({
+        type: 'error',
+        text: 'Network error. Please try again.',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = () => {
+    if (confirm('Reset to defaults? This will discard your current changes.')) {
+      setFormState(defaults);
+      setSaveMessage(null);
+    }
+  };
+
+  return (
+    <>
+      <Head>
+        <title>{`${label} v${version} Config • Assessments • Admin • Fine Diet`}</title>
+      </Head>
+      <div className="min-h-screen bg-gray-50 px-8 pt-[120px]">
+        <div className="max-w-4xl mx-auto">
+          <div className="mb-8">
+            <div className="flex items-center justify-between mb-4">
+              <div>
+                <a href="/admin/assessments" className="text-sm text-blue-600 hover:text-blue-800 mb-2 inline-block">
+                  ← Back to Assessments
+                </a>
+                <h1 className="text-3xl font-bold text-gray-900">
+                  {label} v{version} Configuration
+                </h1>
+                <p className="text-sm text-gray-500 mt-1">
+                  Key: assessment-config:{assessmentType}:{version}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={handleReset}
+                  className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 font-medium"
+                >
+                  Reset to Defaults
+                </button>
+                <button
+                  type="button"
+                  onClick={handleSave}
+                  disabled={isSaving}
+                  className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+                >
+                  {isSaving ? 'Saving...' : 'Save Config'}
+                </button>
+              </div>
+            </div>
+            <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-4">
+              <p className="text-xs text-blue-700">
+                <strong>Note:</strong>{' '}
+                {editsAxisBands
+                  ? "These thresholds control axis band classification for this assessment. Axes, weights and level rules live in the question set's scoring block."
+                  : 'These thresholds control confidence scoring and secondary avatar detection in v1 scoring.'}{' '}
+                Changes take effect immediately for new assessments.
+                {editsAxisBands && (
+                  <>
+                    {' '}
+                    <a
+                      href={`/admin/assessments/rescore?type=${assessmentType}`}
+                      className="underline hover:text-blue-900"
+                    >
+                      Preview the impact on existing submissions
+                    </a>
+                    .
+                  </>
+                )}
+              </p>
+            </div>
+            {saveMessage && (
+              <div
+                className={`p-3 rounded-md mb-4 ${
+                  saveMessage.type === 'success' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                }`}
+              >
+                {saveMessage.text}
+              </div>
+            )}
+            {warnings.length > 0 && (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-4">
+                <p className="text-sm font-semibold text-yellow-800 mb-2">Warnings:</p>
+                <ul className="list-disc list-inside text-xs text-yellow-700 space-y-1">
+                  {warnings.map((warning, idx) => (
+                    <li key={idx}>{warning}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+
+          {/* Scoring Thresholds */}
+          {editsAxisBands && (
+            <section className="bg-white rounded-lg shadow p-6 mb-6">
+              <h2 className="text-xl font-semibold text-gray-900 mb-4">Scoring Thresholds</h2>
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Axis Band High Threshold
+                  </label>
+                  <input
+                    type="number"
+                    step="0.1"
+                    min="0"
+                    max="5"
+                    value={formState.scoring.thresholds.axisBandHigh ?? ''}
+                    onChange={(e) => updateThreshold('axisBandHigh', parseFloat(e.target.value) || 0)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Axis averages {'>='} this value are classified as 'high' band. Default: {defaults.scoring.thresholds.axisBandHigh ?? '—'}
+                  </p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Axis Band Moderate Threshold
+                  </label>
+                  <input
+                    type="number"
+                    step="0.1"
+                    min="0"
+                    max="5"
+                    value={formState.scoring.thresholds.axisBandModerate ?? ''}
+                    onChange={(e) => updateThreshold('axisBandModerate', parseFloat(e.target.value) || 0)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Axis averages {'>='} this value (but &lt; High) are classified as 'moderate' band. Default: {defaults.scoring.thresholds.axisBandModerate ?? '—'}
+                  </p>
+                </div>
+              </div>
+            </section>
+          )}
+
+          {/* Confidence Thresholds */}
+          {editsConfidence && (
+            <section className="bg-white rounded-lg shadow p-6 mb-6">
+              <h2 className="text-xl font-semibold text-gray-900 mb-4">Confidence Thresholds</h2>
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    High Confidence Threshold
+                  </label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    max="1"
+                    value={formState.scoring.thresholds.confidenceThresholds?.high ?? defaults.scoring.thresholds.confidenceThresholds?.high ?? 0.3}
+                    onChange={(e) => updateConfidenceThreshold('high', parseFloat(e.target.value) || 0)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    High confidence if gap {'>='} this value. Default: {defaults.scoring.thresholds.confidenceThresholds?.high ?? 0.3}
+                  </p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Medium Confidence Threshold
+                  </label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    max="1"
+                    value={formState.scoring.thresholds.confidenceThresholds?.medium ?? defaults.scoring.thresholds.confidenceThresholds?.medium ?? 0.15}
+                    onChange={(e) => updateConfidenceThreshold('medium', parseFloat(e.target.value) || 0)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Medium confidence if gap {'>='} this value. Default: {defaults.scoring.thresholds.confidenceThresholds?.medium ?? 0.15}
+                  </p>
+                </div>
+              </div>
+            </section>
+          )}
+
+          {/* Secondary Avatar Threshold */}
+          {editsSecondary && (
+            <section className="bg-white rounded-lg shadow p-6 mb-6">
+              <h2 className="text-xl font-semibold text-gray-900 mb-4">Secondary Avatar Threshold</h2>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Secondary Avatar Threshold
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  max="1"
+                  value={formState.scoring.thresholds.secondaryAvatarThreshold ?? defaults.scoring.thresholds.secondaryAvatarThreshold ?? 0.15}
+                  onChange={(e) => updateSecondaryThreshold(parseFloat(e.target.value) || 0)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Show secondary avatar if within this threshold of primary. Default: {defaults.scoring.thresholds.secondaryAvatarThreshold ?? 0.15}
+                </p>
+              </div>
+            </section>
+          )}
+
+          {/* Save Button at Bottom */}
+          <div className="bg-white rounded-lg shadow p-6 mb-6">
+            <div className="flex items-center justify-between">
+              <div>
+                {saveMessage && (
+                  <p
+                    className={`text-sm font-medium ${
+                      saveMessage.type === 'success' ? 'text-green-600' : 'text-red-600'
+                    }`}
+                  >
+                    {saveMessage.text}
+                  </p>
+                )}
+              </div>
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={isSaving}
+                className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+              >
+                {isSaving ? 'Saving...' : 'Save Config'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
+
+export const getServerSideProps: GetServerSideProps<AssessmentConfigEditorProps> = async (context) => {
+  // Require admin role
+  const user = await getCurrentUserWithRoleFromSSR(context);
+  
+  if (!user || user.role !== 'admin') {
+    return {
+      redirect: {
+        destination: '/admin/unauthorized',
+        permanent: false,
+      },
+    };
+  }
+
+  const assessmentType = String(context.params?.assessmentType || '');
+  const version = parseInt(String(context.params?.version || ''), 10);
+  const definition = getAssessmentDefinition(assessmentType);
+  const entry = definition && !isNaN(version) ? definition.configs[version] : undefined;
+
+  if (!definition || !entry) {
+    return { notFound: true };
+  }
+
+  // Load existing config
+  let initialConfig: AssessmentConfig | null = null;
+  
+  try {
+    const { supabaseAdmin } = await import('@/lib/supabaseServerClient');
+    const { assessmentConfigSchema } = await import('@/lib/contentValidators');
+
+    const { data, error } = await supabaseAdmin
+      .from('site_content')
+      .select('data')
+      .eq('key', `assessment-config:${assessmentType}:${version}`)
+      .eq('status', 'published')
+      .single();
+
+    if (!error && data?.data) {
+      const validationResult = assessmentConfigSchema.safeParse(data.data);
+      if (validationResult.success) {
+        initialConfig = validationResult.data;
+      }
+    }
+  } catch (error) {
+    // If load fails, use null (will show defaults)
+    console.warn('[Assessment Config Editor] Failed to load existing config:', error);
+  }
+
+  return {
+    props: {
+      user,
+      assessmentType,
+      version,
+      label: definition.label,
+      defaults: entry.defaults,
+      initialConfig,
+    },
+  };
+};
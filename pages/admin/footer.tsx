@@ -8,6 +8,7 @@
 
 import { GetServerSideProps } from 'next';
 import Head from 'next/head';
+import Link from 'next/link';
 import { useState } from 'react';
 import { getCurrentUserWithRoleFromSSR, AuthenticatedUser } from '@/lib/authServer';
 import { getFooterContent } from '@/lib/contentApi';
@@ -127,12 +128,12 @@ export default function FooterEditor({ user, initialContent }: FooterEditorProps
     }));
   };
 
-  const handleSave = async () => {
+  const handleSave = async (asDraft = false) => {
     setIsSaving(true);
     setSaveMessage(null);
 
     try {
-      const response = await fetch('/api/admin/footer', {
+      const response = await fetch(asDraft ? '/api/admin/footer?draft=1' : '/api/admin/footer', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -143,7 +144,10 @@ export default function FooterEditor({ user, initialContent }: FooterEditorProps
       const data = await response.json();
 
       if (response.ok && data.success) {
-        setSaveMessage({ type: 'success', text: 'Footer content saved successfully!' });
+        setSaveMessage({
+          type: 'success',
+          text: asDraft ? 'Draft saved. Publish it from History when ready.' : 'Footer content saved successfully!',
+        });
       } else {
         setSaveMessage({
           type: 'error',
@@ -447,14 +451,30 @@ export default function FooterEditor({ user, initialContent }: FooterEditorProps
                   </p>
                 )}
               </div>
-              <button
-                type="button"
-                onClick={handleSave}
-                disabled={isSaving}
-                className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
-              >
-                {isSaving ? 'Saving...' : 'Save Footer Content'}
-              </button>
+              <div className="flex items-center gap-3">
+                <Link
+                  href="/admin/site-content/history?key=footer"
+                  className="text-sm text-gray-600 hover:text-gray-900 underline"
+                >
+                  History
+                </Link>
+                <button
+                  type="button"
+                  onClick={() => handleSave(true)}
+                  disabled={isSaving}
+                  className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+                >
+                  Save Draft
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleSave()}
+                  disabled={isSaving}
+                  className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+                >
+                  {isSaving ? 'Saving...' : 'Save Footer Content'}
+                </button>
+              </div>
             </div>
           </div>
         </div>
@@ -43,12 +43,12 @@ export default function GlobalEditor({ user, initialContent }: GlobalEditorProps
     }));
   };
 
-  const handleSave = async () => {
+  const handleSave = async (asDraft = false) => {
     setIsSaving(true);
     setSaveMessage(null);
 
     try {
-      const response = await fetch('/api/admin/global', {
+      const response = await fetch(asDraft ? '/api/admin/global?draft=1' : '/api/admin/global', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -59,7 +59,10 @@ export default function GlobalEditor({ user, initialContent }: GlobalEditorProps
       const data = await response.json();
 
       if (response.ok && data.success) {
-        setSaveMessage({ type: 'success', text: 'Global content saved successfully!' });
+        setSaveMessage({
+          type: 'success',
+          text: asDraft ? 'Draft saved. Publish it from History when ready.' : 'Global content saved successfully!',
+        });
       } else {
         setSaveMessage({
           type: 'error',
@@ -101,14 +104,30 @@ export default function GlobalEditor({ user, initialContent }: GlobalEditorProps
                   .
                 </p>
               </div>
-              <button
-                type="button"
-                onClick={handleSave}
-                disabled={isSaving}
-                className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
-              >
-                {isSaving ? 'Saving...' : 'Save Settings'}
-              </button>
+              <div className="flex items-center gap-3">
+                <Link
+                  href="/admin/site-content/history?key=global"
+                  className="text-sm text-gray-600 hover:text-gray-900 underline"
+                >
+                  History
+                </Link>
+                <button
+                  type="button"
+                  onClick={() => handleSave(true)}
+                  disabled={isSaving}
+                  className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+                >
+                  Save Draft
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleSave()}
+                  disabled={isSaving}
+                  className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+                >
+                  {isSaving ? 'Saving...' : 'Save Settings'}
+                </button>
+              </div>
             </div>
             {saveMessage && (
               <div
@@ -196,7 +215,7 @@ export default function GlobalEditor({ user, initialContent }: GlobalEditorProps
               </div>
               <button
                 type="button"
-                onClick={handleSave}
+                onClick={() => handleSave()}
                 disabled={isSaving}
                 className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
               >
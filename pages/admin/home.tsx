@@ -14,6 +14,7 @@
 
 import { GetServerSideProps } from 'next';
 import Head from 'next/head';
+import Link from 'next/link';
 import { useState } from 'react';
 import { getCurrentUserWithRoleFromSSR, AuthenticatedUser } from '@/lib/authServer';
 import { getHomeContent } from '@/lib/contentApi';
@@ -607,12 +608,12 @@ export default function HomeEditor({ user, initialContent }: HomeEditorProps) {
     setExpandedSlides((prev) => ({ ...prev, [key]: !prev[key] }));
   };
 
-  const handleSave = async () => {
+  const handleSave = async (asDraft = false) => {
     setIsSaving(true);
     setSaveMessage(null);
 
     try {
-      const response = await fetch('/api/admin/home', {
+      const response = await fetch(asDraft ? '/api/admin/home?draft=1' : '/api/admin/home', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -623,7 +624,10 @@ export default function HomeEditor({ user, initialContent }: HomeEditorProps) {
       const data = await response.json();
 
       if (response.ok && data.success) {
-        setSaveMessage({ type: 'success', text: 'Home content saved successfully!' });
+        setSaveMessage({
+          type: 'success',
+          text: asDraft ? 'Draft saved. Publish it from History when ready.' : 'Home content saved successfully!',
+        });
       } else {
         setSaveMessage({
           type: 'error',
@@ -650,14 +654,30 @@ export default function HomeEditor({ user, initialContent }: HomeEditorProps) {
           <div className="mb-8">
             <div className="flex items-center justify-between mb-4">
               <h1 className="text-3xl font-bold text-gray-900">Edit Home Content</h1>
-              <button
-                type="button"
-                onClick={handleSave}
-                disabled={isSaving}
-                className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
-              >
-                {isSaving ? 'Saving...' : 'Save Home Content'}
-              </button>
+              <div className="flex items-center gap-3">
+                <Link
+                  href="/admin/site-content/history?key=home"
+                  className="text-sm text-gray-600 hover:text-gray-900 underline"
+                >
+                  History
+                </Link>
+                <button
+                  type="button"
+                  onClick={() => handleSave(true)}
+                  disabled={isSaving}
+                  className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+                >
+                  Save Draft
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleSave()}
+                  disabled={isSaving}
+                  className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+                >
+                  {isSaving ? 'Saving...' : 'Save Home Content'}
+                </button>
+              </div>
             </div>
             <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-4">
               <p className="text-xs text-blue-700">
@@ -1499,7 +1519,7 @@ export default function HomeEditor({ user, initialContent }: HomeEditorProps) {
               </div>
               <button
                 type="button"
-                onClick={handleSave}
+                onClick={() => handleSave()}
                 disabled={isSaving}
                 className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
               >
@@ -11,6 +11,8 @@ import Link from 'next/link';
 import { useRouter } from 'next/router';
 import { useState, useEffect } from 'react';
 import { getCurrentUserWithRoleFromSSR, AuthenticatedUser } from '@/lib/authServer';
+import type { DestinationHealth } from '@/lib/outbox/destinationHealth';
+import type { OutboxAlert } from '@/lib/outbox/alertRules';
 
 interface AdminDashboardProps {
   user: AuthenticatedUser | null;
@@ -33,11 +35,26 @@ const dashboardSections: DashboardCard[] = [
     description: 'Manage questions, results, and configuration for all assessment versions.',
     href: '/admin/assessments',
   },
+  {
+    title: 'Assessment Analytics',
+    description: 'Funnel, question drop-off and result levels by UTM source, device and revision.',
+    href: '/admin/analytics/assessments',
+  },
   {
     title: 'Asset Library',
     description: 'Upload, browse, and manage images and media assets.',
     href: '/admin/assets',
   },
+  {
+    title: 'Content History',
+    description: 'Drafts, revision history, rollback and scheduled publishing for all site content.',
+    href: '/admin/site-content',
+  },
+  {
+    title: 'Publish Reviews',
+    description: 'Question set and results pack revisions waiting for a second reviewer or for publishing.',
+    href: '/admin/reviews',
+  },
 ];
 
 const adminOnlySections: DashboardCard[] = [
@@ -46,13 +63,35 @@ const adminOnlySections: DashboardCard[] = [
     description: 'Manage user roles and permissions for content editors.',
     href: '/admin/people',
   },
+  {
+    title: 'Person Lookup',
+    description: 'Search by email for a timeline of submissions, subscriptions, emails and webhook deliveries.',
+    href: '/admin/people/timeline',
+  },
   {
     title: 'Outbox',
-    description: 'Monitor webhook delivery status and retry failures.',
+    description: 'Monitor webhook delivery, inspect payloads, and replay or cancel entries.',
     href: '/admin/outbox',
   },
+  {
+    title: 'Webhook Destinations',
+    description: 'Send submissions, email captures, waitlist joins and status changes to CRMs, Slack or a warehouse.',
+    href: '/admin/webhook-destinations',
+  },
+  {
+    title: 'Outbox Alerts',
+    description: 'Alert by email or webhook on delivery failure rate, stuck entries or missing sends.',
+    href: '/admin/outbox-alerts',
+  },
+  {
+    title: 'Audit Log',
+    description: 'Who changed what through the admin: actor, action, before/after and IP, with CSV export.',
+    href: '/admin/audit',
+  },
 ];
 
+type ActiveAlert = OutboxAlert & { rule_name: string | null };
+
 interface DayMetrics {
   day: string;
   count?: number;
@@ -68,17 +107,27 @@ export default function AdminDashboard({ user }: AdminDashboardProps) {
 
   // Delivery health metrics
   const [metrics, setMetrics] = useState<DayMetrics[]>([]);
+  const [destinationHealth, setDestinationHealth] = useState<DestinationHealth[]>([]);
   const [metricsLoading, setMetricsLoading] = useState(true);
+  const [activeAlerts, setActiveAlerts] = useState<ActiveAlert[]>([]);
 
   useEffect(() => {
     async function fetchMetrics() {
       if (user?.role !== 'admin') return;
 
       try {
-        const response = await fetch('/api/admin/metrics/outbox');
-        if (response.ok) {
-          const data = await response.json();
+        const [metricsResponse, alertsResponse] = await Promise.all([
+          fetch('/api/admin/metrics/outbox'),
+          fetch('/api/admin/outbox-alerts?active=1'),
+        ]);
+        if (metricsResponse.ok) {
+          const data = await metricsResponse.json();
           setMetrics(data.metrics || []);
+          setDestinationHealth(data.destinations || []);
+        }
+        if (alertsResponse.ok) {
+          const data = await alertsResponse.json();
+          setActiveAlerts(data.alerts || []);
         }
       } catch (err) {
         console.error('Error fetching metrics:', err);
@@ -167,6 +216,32 @@ export default function AdminDashboard({ user }: AdminDashboardProps) {
             </div>
           </div>
 
+          {/* Active Outbox Alerts (Admin Only) */}
+          {user.role === 'admin' && activeAlerts.length > 0 && (
+            <div className="mb-8 bg-red-50 border border-red-200 rounded-lg p-4">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <h2 className="text-sm font-semibold text-red-800 mb-2">
+                    {activeAlerts.length === 1 ? '1 outbox alert is firing' : `${activeAlerts.length} outbox alerts are firing`}
+                  </h2>
+                  <ul className="space-y-1 text-sm text-red-700">
+                    {activeAlerts.map((alert) => (
+                      <li key={alert.id}>
+                        <span className="font-medium">{alert.rule_name || 'Alert'}</span>: {alert.message}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+                <Link
+                  href="/admin/outbox-alerts"
+                  className="shrink-0 text-sm font-medium text-red-800 hover:text-red-900 underline"
+                >
+                  View alerts
+                </Link>
+              </div>
+            </div>
+          )}
+
           {/* Delivery Health Card (Admin Only) */}
           {user.role === 'admin' && (
             <div className="mb-8 bg-white rounded-lg shadow-sm border border-gray-200 p-6">
@@ -174,7 +249,7 @@ export default function AdminDashboard({ user }: AdminDashboardProps) {
               {metricsLoading ? (
                 <p className="text-sm text-gray-500">Loading metrics...</p>
               ) : metrics.length > 0 ? (
-                <DeliveryHealthCard metrics={metrics} />
+                <DeliveryHealthCard metrics={metrics} destinations={destinationHealth} />
               ) : (
                 <p className="text-sm text-gray-500">No metrics available</p>
               )}
@@ -248,7 +323,13 @@ export default function AdminDashboard({ user }: AdminDashboardProps) {
   );
 }
 
-function DeliveryHealthCard({ metrics }: { metrics: DayMetrics[] }) {
+function DeliveryHealthCard({
+  metrics,
+  destinations,
+}: {
+  metrics: DayMetrics[];
+  destinations: DestinationHealth[];
+}) {
   // Get today's metrics (last item in array)
   const today = metrics[metrics.length - 1];
   const todaySubmissions = today?.count || 0;
@@ -333,6 +414,51 @@ function DeliveryHealthCard({ metrics }: { metrics: DayMetrics[] }) {
           </table>
         </div>
       </div>
+
+      {/* Per-destination health (14 days) */}
+      {destinations.length > 0 && (
+        <div className="border-t border-gray-200 pt-4 mt-6">
+          <h3 className="text-sm font-medium text-gray-700 mb-3">Webhook Destinations</h3>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className="text-left py-2 px-3 font-medium text-gray-700">Destination</th>
+                  <th className="text-right py-2 px-3 font-medium text-gray-700">Sent</th>
+                  <th className="text-right py-2 px-3 font-medium text-gray-700">Retrying</th>
+                  <th className="text-right py-2 px-3 font-medium text-gray-700">Dead letter</th>
+                  <th className="text-right py-2 px-3 font-medium text-gray-700">Pending</th>
+                  <th className="text-right py-2 px-3 font-medium text-gray-700">Fail Rate</th>
+                  <th className="text-right py-2 px-3 font-medium text-gray-700">Last Sent</th>
+                </tr>
+              </thead>
+              <tbody>
+                {destinations.map((destination) => (
+                  <tr key={destination.destination_id} className="border-b border-gray-100">
+                    <td className="py-2 px-3 text-gray-900">
+                      {destination.name}
+                      {!destination.enabled && <span className="ml-2 text-xs text-gray-400">(disabled)</span>}
+                    </td>
+                    <td className="py-2 px-3 text-right text-green-600">{destination.sent_count}</td>
+                    <td className="py-2 px-3 text-right text-red-600">{destination.retrying_count}</td>
+                    <td className="py-2 px-3 text-right text-gray-700">{destination.dead_letter_count}</td>
+                    <td className="py-2 px-3 text-right text-yellow-600">{destination.pending_count}</td>
+                    <td className="py-2 px-3 text-right text-gray-900">{(destination.fail_rate * 100).toFixed(1)}%</td>
+                    <td className="py-2 px-3 text-right text-gray-600">
+                      {destination.last_sent_at ? new Date(destination.last_sent_at).toLocaleString('en-US', {
+                        month: 'short',
+                        day: 'numeric',
+                        hour: '2-digit',
+                        minute: '2-digit',
+                      }) : '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -11,6 +11,7 @@
 
 import { GetServerSideProps } from 'next';
 import Head from 'next/head';
+import Link from 'next/link';
 import { useState, useEffect } from 'react';
 import { getCurrentUserWithRoleFromSSR, AuthenticatedUser } from '@/lib/authServer';
 import { getNavigationContent } from '@/lib/contentApi';
@@ -751,7 +752,7 @@ export default function NavigationEditor({ initialContent }: NavigationEditorPro
     }));
   };
 
-  const handleSave = async () => {
+  const handleSave = async (asDraft = false) => {
     setIsSaving(true);
     setSaveMessage(null);
 
@@ -759,7 +760,7 @@ export default function NavigationEditor({ initialContent }: NavigationEditorPro
       // Normalize data before sending to ensure all required fields are present
       const normalizedData = normalizeNavigationContent(formState);
       
-      const response = await fetch('/api/admin/navigation', {
+      const response = await fetch(asDraft ? '/api/admin/navigation?draft=1' : '/api/admin/navigation', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -770,7 +771,10 @@ export default function NavigationEditor({ initialContent }: NavigationEditorPro
       const data = await response.json();
 
       if (response.ok && data.success) {
-        setSaveMessage({ type: 'success', text: 'Navigation content saved successfully!' });
+        setSaveMessage({
+          type: 'success',
+          text: asDraft ? 'Draft saved. Publish it from History when ready.' : 'Navigation content saved successfully!',
+        });
       } else {
         setSaveMessage({
           type: 'error',
@@ -797,14 +801,30 @@ export default function NavigationEditor({ initialContent }: NavigationEditorPro
           <div className="mb-8">
             <div className="flex items-center justify-between mb-4">
               <h1 className="text-3xl font-bold text-gray-900">Edit Navigation Content</h1>
-              <button
-                type="button"
-                onClick={handleSave}
-                disabled={isSaving}
-                className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
-              >
-                {isSaving ? 'Saving...' : 'Save Navigation'}
-              </button>
+              <div className="flex items-center gap-3">
+                <Link
+                  href="/admin/site-content/history?key=navigation"
+                  className="text-sm text-gray-600 hover:text-gray-900 underline"
+                >
+                  History
+                </Link>
+                <button
+                  type="button"
+                  onClick={() => handleSave(true)}
+                  disabled={isSaving}
+                  className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+                >
+                  Save Draft
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleSave()}
+                  disabled={isSaving}
+                  className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+                >
+                  {isSaving ? 'Saving...' : 'Save Navigation'}
+                </button>
+              </div>
             </div>
             <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-4">
               <p className="text-xs text-blue-700">
@@ -1967,7 +1987,7 @@ export default function NavigationEditor({ initialContent }: NavigationEditorPro
               </div>
               <button
                 type="button"
-                onClick={handleSave}
+                onClick={() => handleSave()}
                 disabled={isSaving}
                 className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
               >
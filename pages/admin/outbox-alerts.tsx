@@ -0,0 +1,636 @@
+/**
+ * Admin Page: Outbox Alerts
+ *
+ * Admin-only page for outbox alert rules (failure rate, stale undelivered entries, no sends)
+ * and their incidents. Rules are evaluated every 5 minutes by /api/outbox/alerts; firing
+ * alerts also show as a banner on /admin.
+ * Protected by middleware and SSR guard.
+ */
+
+import { GetServerSideProps } from 'next';
+import Head from 'next/head';
+import Link from 'next/link';
+import { useState, useEffect } from 'react';
+import { getCurrentUserWithRoleFromSSR, type AuthenticatedUser } from '@/lib/authServer';
+import {
+  ALERT_RULE_TYPES,
+  ALERT_RULE_TYPE_LABELS,
+  type AlertChannel,
+  type AlertRuleType,
+  type OutboxAlert,
+  type OutboxAlertRule,
+} from '@/lib/outbox/alertRules';
+
+interface AdminOutboxAlertsProps {
+  user: AuthenticatedUser | null;
+}
+
+type AlertWithRule = OutboxAlert & { rule_name: string | null };
+
+interface RuleForm {
+  id: string | null;
+  name: string;
+  ruleType: AlertRuleType;
+  /** failure_rate: percent; stale_pending: minutes */
+  threshold: string;
+  /** failure_rate: minutes; zero_sends: hours */
+  window: string;
+  minDeliveries: string;
+  target: string;
+  channel: AlertChannel;
+  channelTarget: string;
+  enabled: boolean;
+}
+
+const EMPTY_FORM: RuleForm = {
+  id: null,
+  name: '',
+  ruleType: 'failure_rate',
+  threshold: '10',
+  window: '60',
+  minDeliveries: '5',
+  target: '',
+  channel: 'email',
+  channelTarget: '',
+  enabled: true,
+};
+
+function toForm(rule: OutboxAlertRule): RuleForm {
+  return {
+    id: rule.id,
+    name: rule.name,
+    ruleType: rule.rule_type,
+    threshold: String(rule.threshold),
+    window: String(rule.rule_type === 'zero_sends' ? rule.window_minutes / 60 : rule.window_minutes),
+    minDeliveries: String(rule.min_deliveries),
+    target: rule.target || '',
+    channel: rule.channel,
+    channelTarget: rule.channel_target,
+    enabled: rule.enabled,
+  };
+}
+
+function describeRule(rule: OutboxAlertRule): string {
+  const scope = rule.target ? ` on ${rule.target}` : '';
+  if (rule.rule_type === 'failure_rate') {
+    return `Failure rate > ${rule.threshold}% over ${rule.window_minutes} min (min ${rule.min_deliveries} deliveries)${scope}`;
+  }
+  if (rule.rule_type === 'stale_pending') {
+    return `Undelivered entry older than ${rule.threshold} min${scope}`;
+  }
+  return `No sends in ${rule.window_minutes / 60} h${scope}`;
+}
+
+export default function AdminOutboxAlerts({ user }: AdminOutboxAlertsProps) {
+  const [rules, setRules] = useState<OutboxAlertRule[]>([]);
+  const [alerts, setAlerts] = useState<AlertWithRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [form, setForm] = useState<RuleForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [evaluating, setEvaluating] = useState(false);
+
+  useEffect(() => {
+    async function fetchAlerts() {
+      if (user?.role !== 'admin') return;
+      try {
+        setLoading(true);
+        const response = await fetch('/api/admin/outbox-alerts');
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to fetch alert rules');
+        }
+        setRules(data.rules || []);
+        setAlerts(data.alerts || []);
+      } catch (err) {
+        console.error('Error fetching outbox alerts:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load alert rules');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchAlerts();
+  }, [user, refreshKey]);
+
+  const request = async (url: string, method: string, body?: Record<string, unknown>) => {
+    const response = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      ...(body ? { body: JSON.stringify(body) } : {}),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Request failed');
+    }
+    return data;
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    setError(null);
+    setMessage(null);
+
+    const windowValue = Number(form.window);
+    const body: Record<string, unknown> = {
+      name: form.name,
+      rule_type: form.ruleType,
+      target: form.target,
+      channel: form.channel,
+      channel_target: form.channelTarget,
+      enabled: form.enabled,
+    };
+    if (form.ruleType !== 'zero_sends') body.threshold = Number(form.threshold);
+    if (form.ruleType === 'failure_rate') {
+      body.window_minutes = Math.round(windowValue);
+      body.min_deliveries = Math.round(Number(form.minDeliveries));
+    }
+    if (form.ruleType === 'zero_sends') body.window_minutes = Math.round(windowValue * 60);
+
+    try {
+      setSaving(true);
+      if (form.id) {
+        await request(`/api/admin/outbox-alerts/${form.id}`, 'PATCH', body);
+        setMessage(`Saved ${form.name}.`);
+      } else {
+        await request('/api/admin/outbox-alerts', 'POST', body);
+        setMessage(`Created ${form.name}. It is checked every 5 minutes.`);
+      }
+      setForm(null);
+      setRefreshKey((key) => key + 1);
+    } catch (err) {
+      console.error('Error saving alert rule:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save alert rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (rule: OutboxAlertRule) => {
+    try {
+      setError(null);
+      await request(`/api/admin/outbox-alerts/${rule.id}`, 'PATCH', { enabled: !rule.enabled });
+      setMessage(`${rule.name} ${rule.enabled ? 'disabled' : 'enabled'}.`);
+      setRefreshKey((key) => key + 1);
+    } catch (err) {
+      console.error('Error updating alert rule:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update alert rule');
+    }
+  };
+
+  const handleDelete = async (rule: OutboxAlertRule) => {
+    if (!confirm(`Delete ${rule.name} and its alert history?`)) return;
+    try {
+      setError(null);
+      await request(`/api/admin/outbox-alerts/${rule.id}`, 'DELETE');
+      setMessage(`Deleted ${rule.name}.`);
+      if (form?.id === rule.id) setForm(null);
+      setRefreshKey((key) => key + 1);
+    } catch (err) {
+      console.error('Error deleting alert rule:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete alert rule');
+    }
+  };
+
+  const handleEvaluate = async () => {
+    try {
+      setEvaluating(true);
+      setError(null);
+      const data = await request('/api/outbox/alerts', 'POST');
+      const summary = data.summary;
+      setMessage(
+        `Evaluated ${summary.evaluated} rules: ${summary.fired} fired, ${summary.resolved} resolved, ` +
+          `${summary.notified} notifications sent${summary.notificationErrors ? `, ${summary.notificationErrors} failed` : ''}.`
+      );
+      setRefreshKey((key) => key + 1);
+    } catch (err) {
+      console.error('Error evaluating alert rules:', err);
+      setError(err instanceof Error ? err.message : 'Failed to evaluate alert rules');
+    } finally {
+      setEvaluating(false);
+    }
+  };
+
+  // Format timestamp for display
+  const formatTimestamp = (timestamp: string | null) => {
+    if (!timestamp) return '-';
+    return new Date(timestamp).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  // Defensive check - middleware should have already blocked non-authorized users
+  if (!user || user.role !== 'admin') {
+    return (
+      <>
+        <Head>
+          <title>Outbox Alerts • Fine Diet</title>
+        </Head>
+        <main className="min-h-screen bg-gray-100 flex items-center justify-center px-4">
+          <div className="max-w-md w-full text-center">
+            <h1 className="text-3xl font-bold text-gray-900 mb-4">Access Denied</h1>
+            <p className="text-lg text-gray-600 mb-8">You don't have permission to access this page.</p>
+            <Link
+              href="/admin"
+              className="inline-block px-6 py-3 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors font-medium"
+            >
+              Return to Admin Dashboard
+            </Link>
+          </div>
+        </main>
+      </>
+    );
+  }
+
+  const inputClass =
+    'block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+
+  return (
+    <>
+      <Head>
+        <title>Outbox Alerts • Fine Diet Admin</title>
+      </Head>
+      <div className="min-h-screen bg-gray-100 pt-[100px] pb-10">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-10">
+          {/* Header */}
+          <div className="mb-6 flex items-end justify-between">
+            <div>
+              <Link
+                href="/admin"
+                className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-4"
+              >
+                <svg className="mr-2 h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                </svg>
+                Back to Admin Dashboard
+              </Link>
+              <h1 className="text-3xl font-bold text-gray-900">Outbox Alerts</h1>
+              <p className="mt-2 text-sm text-gray-600">
+                Rules are checked every 5 minutes. Each alert notifies once when it fires and once when it resolves.
+              </p>
+            </div>
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={handleEvaluate}
+                disabled={evaluating}
+                className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 text-sm font-medium disabled:opacity-50"
+              >
+                {evaluating ? 'Evaluating...' : 'Evaluate Now'}
+              </button>
+              {!form && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setMessage(null);
+                    setForm({ ...EMPTY_FORM });
+                  }}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm font-medium"
+                >
+                  Add Rule
+                </button>
+              )}
+            </div>
+          </div>
+
+          {error && (
+            <div className="mb-6 bg-red-50 border border-red-200 rounded-md p-4 text-sm text-red-800">{error}</div>
+          )}
+          {message && (
+            <div className="mb-6 bg-green-50 border border-green-200 rounded-md p-4 text-sm text-green-800">
+              {message}
+            </div>
+          )}
+
+          {/* Create / edit form */}
+          {form && (
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6">
+              <h2 className="text-xl font-semibold text-gray-900 mb-4">{form.id ? `Edit ${form.name}` : 'New Rule'}</h2>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+                <div>
+                  <label htmlFor="rule-name" className="block text-sm font-medium text-gray-700 mb-1">
+                    Name
+                  </label>
+                  <input
+                    id="rule-name"
+                    type="text"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    placeholder="e.g. n8n failures"
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="rule-type" className="block text-sm font-medium text-gray-700 mb-1">
+                    Condition
+                  </label>
+                  <select
+                    id="rule-type"
+                    value={form.ruleType}
+                    onChange={(e) => {
+                      const ruleType = e.target.value as AlertRuleType;
+                      setForm({
+                        ...form,
+                        ruleType,
+                        threshold: ruleType === 'stale_pending' ? '30' : '10',
+                        window: ruleType === 'zero_sends' ? '6' : '60',
+                      });
+                    }}
+                    className={inputClass}
+                  >
+                    {ALERT_RULE_TYPES.map((ruleType) => (
+                      <option key={ruleType} value={ruleType}>
+                        {ALERT_RULE_TYPE_LABELS[ruleType]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="rule-target" className="block text-sm font-medium text-gray-700 mb-1">
+                    Target (optional)
+                  </label>
+                  <input
+                    id="rule-target"
+                    type="text"
+                    value={form.target}
+                    onChange={(e) => setForm({ ...form, target: e.target.value })}
+                    placeholder="All targets, or e.g. destination:crm"
+                    className={`${inputClass} font-mono`}
+                  />
+                </div>
+
+                {form.ruleType !== 'zero_sends' && (
+                  <div>
+                    <label htmlFor="rule-threshold" className="block text-sm font-medium text-gray-700 mb-1">
+                      {form.ruleType === 'failure_rate' ? 'Failure rate above (%)' : 'Older than (minutes)'}
+                    </label>
+                    <input
+                      id="rule-threshold"
+                      type="number"
+                      min={0}
+                      value={form.threshold}
+                      onChange={(e) => setForm({ ...form, threshold: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                )}
+                {form.ruleType !== 'stale_pending' && (
+                  <div>
+                    <label htmlFor="rule-window" className="block text-sm font-medium text-gray-700 mb-1">
+                      {form.ruleType === 'failure_rate' ? 'Window (minutes)' : 'Window (hours)'}
+                    </label>
+                    <input
+                      id="rule-window"
+                      type="number"
+                      min={1}
+                      value={form.window}
+                      onChange={(e) => setForm({ ...form, window: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                )}
+                {form.ruleType === 'failure_rate' && (
+                  <div>
+                    <label htmlFor="rule-min" className="block text-sm font-medium text-gray-700 mb-1">
+                      Minimum deliveries
+                    </label>
+                    <input
+                      id="rule-min"
+                      type="number"
+                      min={1}
+                      value={form.minDeliveries}
+                      onChange={(e) => setForm({ ...form, minDeliveries: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+                <div>
+                  <label htmlFor="rule-channel" className="block text-sm font-medium text-gray-700 mb-1">
+                    Notify via
+                  </label>
+                  <select
+                    id="rule-channel"
+                    value={form.channel}
+                    onChange={(e) => setForm({ ...form, channel: e.target.value as AlertChannel })}
+                    className={inputClass}
+                  >
+                    <option value="email">Email</option>
+                    <option value="webhook">Webhook</option>
+                  </select>
+                </div>
+                <div className="md:col-span-2">
+                  <label htmlFor="rule-channel-target" className="block text-sm font-medium text-gray-700 mb-1">
+                    {form.channel === 'email' ? 'Email address' : 'Webhook URL'}
+                  </label>
+                  <input
+                    id="rule-channel-target"
+                    type={form.channel === 'email' ? 'email' : 'url'}
+                    value={form.channelTarget}
+                    onChange={(e) => setForm({ ...form, channelTarget: e.target.value })}
+                    placeholder={form.channel === 'email' ? 'ops@example.com' : 'https://hooks.slack.com/services/...'}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-gray-700 mb-6">
+                <input
+                  type="checkbox"
+                  checked={form.enabled}
+                  onChange={(e) => setForm({ ...form, enabled: e.target.checked })}
+                />
+                Enabled
+              </label>
+
+              <div className="flex gap-3">
+                <button
+                  type="button"
+                  onClick={handleSave}
+                  disabled={saving}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm font-medium disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : form.id ? 'Save Changes' : 'Create Rule'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setForm(null)}
+                  disabled={saving}
+                  className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 text-sm font-medium"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Rules */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden mb-6">
+            <h2 className="text-lg font-semibold text-gray-900 px-6 pt-4">Rules</h2>
+            {loading ? (
+              <div className="p-8 text-center text-gray-600">Loading rules...</div>
+            ) : rules.length === 0 ? (
+              <div className="p-8 text-center text-gray-600">No alert rules yet.</div>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200 mt-2">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Rule
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Notifies
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Status
+                    </th>
+                    <th className="px-6 py-3" />
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {rules.map((rule) => {
+                    const firing = alerts.some((alert) => alert.rule_id === rule.id && alert.status === 'firing');
+                    return (
+                      <tr key={rule.id}>
+                        <td className="px-6 py-4 text-sm">
+                          <div className="font-medium text-gray-900">{rule.name}</div>
+                          <div className="text-gray-500">{describeRule(rule)}</div>
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-600">
+                          {rule.channel}: <span className="break-all">{rule.channel_target}</span>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <span
+                            className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                              !rule.enabled
+                                ? 'bg-gray-100 text-gray-500'
+                                : firing
+                                ? 'bg-red-100 text-red-800'
+                                : 'bg-green-100 text-green-800'
+                            }`}
+                          >
+                            {!rule.enabled ? 'disabled' : firing ? 'firing' : 'ok'}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm space-x-3">
+                          <button
+                            type="button"
+                            onClick={() => {
+                              setMessage(null);
+                              setForm(toForm(rule));
+                            }}
+                            className="text-blue-600 hover:text-blue-800"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => handleToggle(rule)}
+                            className="text-gray-600 hover:text-gray-900"
+                          >
+                            {rule.enabled ? 'Disable' : 'Enable'}
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => handleDelete(rule)}
+                            className="text-red-600 hover:text-red-800"
+                          >
+                            Delete
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {/* Incidents */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+            <h2 className="text-lg font-semibold text-gray-900 px-6 pt-4">Recent Alerts</h2>
+            {!loading && alerts.length === 0 ? (
+              <div className="p-8 text-center text-gray-600">No alerts have fired.</div>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200 mt-2">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Rule
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Status
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Message
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Fired
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Resolved
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {alerts.map((alert) => (
+                    <tr key={alert.id}>
+                      <td className="px-6 py-4 text-sm text-gray-900">{alert.rule_name || '-'}</td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span
+                          className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                            alert.status === 'firing' ? 'bg-red-100 text-red-800' : 'bg-gray-100 text-gray-600'
+                          }`}
+                        >
+                          {alert.status}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-600">
+                        {alert.message}
+                        {alert.notification_error && (
+                          <div className="text-xs text-red-700 mt-1">Notification failed: {alert.notification_error}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatTimestamp(alert.fired_at)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {formatTimestamp(alert.resolved_at)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
+
+export const getServerSideProps: GetServerSideProps<AdminOutboxAlertsProps> = async (context) => {
+  // Get the current user with their role
+  const user = await getCurrentUserWithRoleFromSSR(context);
+
+  // Note: Middleware should have already blocked non-authorized users,
+  // but we still check here for defensive programming (admin-only)
+  if (!user || user.role !== 'admin') {
+    return {
+      props: {
+        user: null,
+      },
+    };
+  }
+
+  return {
+    props: {
+      user,
+    },
+  };
+};
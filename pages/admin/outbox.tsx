@@ -1,29 +1,76 @@
 /**
  * Admin Page: Webhook Outbox Monitor
  * 
- * Admin-only page for monitoring webhook_outbox entries.
+ * Admin-only page for monitoring webhook_outbox entries: inspect payloads and per-attempt
+ * history, replay single entries or every entry matching the filters, cancel stuck rows.
  * Protected by middleware and SSR guard.
  */
 
 import { GetServerSideProps } from 'next';
 import Head from 'next/head';
 import Link from 'next/link';
+import { useRouter } from 'next/router';
 import { useState, useEffect } from 'react';
 import { getCurrentUserWithRoleFromSSR, type AuthenticatedUser } from '@/lib/authServer';
+import {
+  CANCELLABLE_STATUSES,
+  REPLAYABLE_STATUSES,
+  type OutboxAction,
+  type OutboxFilter,
+} from '@/lib/outbox/manualActions';
+import type { OutboxStatus } from '@/lib/outbox/retryPolicy';
 
 interface AdminOutboxProps {
   user: AuthenticatedUser | null;
 }
 
 interface OutboxEntry {
-  submission_id: string;
+  id: string;
+  submission_id: string | null;
   target: string;
+  event_type: string | null;
   status: string;
   attempts: number;
   created_at: string;
   last_attempt_at: string | null;
   sent_at: string | null;
   error_message: string | null;
+  next_attempt_at: string | null;
+  last_status_code: number | null;
+}
+
+interface OutboxAttempt {
+  id: string;
+  attempt_number: number;
+  status_code: number | null;
+  response_body: string | null;
+  error_message: string | null;
+  duration_ms: number | null;
+  created_at: string;
+}
+
+interface OutboxActionLogEntry {
+  action: string;
+  metadata: { actor_email?: string | null; from_status?: string | null; batch_size?: number } | null;
+  created_at: string;
+}
+
+interface OutboxDetail {
+  entry: OutboxEntry & { payload: unknown; webhook_url: string };
+  attempts: OutboxAttempt[];
+  actions: OutboxActionLogEntry[];
+}
+
+function statusBadgeClass(status: string): string {
+  return status === 'sent'
+    ? 'bg-green-100 text-green-800'
+    : status === 'failed'
+    ? 'bg-red-100 text-red-800'
+    : status === 'dead_letter'
+    ? 'bg-gray-200 text-gray-800'
+    : status === 'cancelled'
+    ? 'bg-gray-100 text-gray-500'
+    : 'bg-yellow-100 text-yellow-800';
 }
 
 export default function AdminOutbox({ user }: AdminOutboxProps) {
@@ -32,6 +79,25 @@ export default function AdminOutbox({ user }: AdminOutboxProps) {
   const [error, setError] = useState<string | null>(null);
   const [statusFilter, setStatusFilter] = useState<string>('failed');
   const [limit, setLimit] = useState<number>(50);
+  // ?target= preselects a target (links from /admin/webhook-destinations)
+  const router = useRouter();
+  const [targetFilter, setTargetFilter] = useState(
+    typeof router.query.target === 'string' ? router.query.target : ''
+  );
+  const [createdFrom, setCreatedFrom] = useState('');
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [detail, setDetail] = useState<OutboxDetail | null>(null);
+  const [detailLoading, setDetailLoading] = useState(false);
+  const [actionLoading, setActionLoading] = useState(false);
+  const [actionMessage, setActionMessage] = useState<string | null>(null);
+
+  // Filters as sent to the list and batch action APIs (createdFrom is a local date)
+  const currentFilter: OutboxFilter = {
+    ...(statusFilter !== 'all' ? { status: statusFilter as OutboxStatus } : {}),
+    ...(targetFilter.trim() ? { target: targetFilter.trim() } : {}),
+    ...(createdFrom ? { createdFrom: new Date(`${createdFrom}T00:00:00`).toISOString() } : {}),
+  };
 
   // Fetch entries when filter changes
   useEffect(() => {
@@ -39,7 +105,10 @@ export default function AdminOutbox({ user }: AdminOutboxProps) {
       try {
         setLoading(true);
         setError(null);
-        const response = await fetch(`/api/admin/outbox?status=${statusFilter}&limit=${limit}`);
+        const params = new URLSearchParams({ status: statusFilter, limit: String(limit) });
+        if (currentFilter.target) params.set('target', currentFilter.target);
+        if (currentFilter.createdFrom) params.set('createdFrom', currentFilter.createdFrom);
+        const response = await fetch(`/api/admin/outbox?${params.toString()}`);
 
         if (!response.ok) {
           const data = await response.json();
@@ -57,7 +126,84 @@ export default function AdminOutbox({ user }: AdminOutboxProps) {
     }
 
     fetchEntries();
-  }, [statusFilter, limit]);
+  }, [statusFilter, limit, targetFilter, createdFrom, refreshKey]);
+
+  // Fetch payload + attempt history for the selected entry
+  useEffect(() => {
+    async function fetchDetail(id: string) {
+      try {
+        setDetailLoading(true);
+        const response = await fetch(`/api/admin/outbox/${id}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to fetch outbox entry');
+        }
+        setDetail({ entry: data.entry, attempts: data.attempts || [], actions: data.actions || [] });
+      } catch (err) {
+        console.error('Error fetching outbox entry:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load outbox entry');
+      } finally {
+        setDetailLoading(false);
+      }
+    }
+
+    if (selectedId) {
+      fetchDetail(selectedId);
+    } else {
+      setDetail(null);
+    }
+  }, [selectedId, refreshKey]);
+
+  const runAction = async (action: OutboxAction, target: { ids: string[] } | { filter: OutboxFilter }) => {
+    try {
+      setActionLoading(true);
+      setError(null);
+      setActionMessage(null);
+
+      const post = async (extra: Record<string, unknown>) => {
+        const response = await fetch('/api/admin/outbox/actions', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ action, ...target, ...extra }),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || `Failed to ${action}`);
+        }
+        return data;
+      };
+
+      // Batch actions: confirm with the number of rows they will touch
+      if ('filter' in target) {
+        const preview = await post({ dryRun: true });
+        if (preview.matched === 0) {
+          setActionMessage(`No entries to ${action}.`);
+          return;
+        }
+        if (!confirm(`${action === 'replay' ? 'Replay' : 'Cancel'} ${preview.matched} matching entries?`)) {
+          return;
+        }
+      } else if (action === 'cancel' && !confirm('Cancel this entry? It will not be retried.')) {
+        return;
+      }
+
+      const result = await post({});
+      const dispatchNote = result.dispatch
+        ? result.dispatch.sent > 0
+          ? ' Delivered.'
+          : ' Delivery failed; it will be retried.'
+        : action === 'replay'
+        ? ' They will be sent on the next dispatcher run.'
+        : '';
+      setActionMessage(`${action === 'replay' ? 'Replayed' : 'Cancelled'} ${result.updated} entries.${dispatchNote}`);
+      setRefreshKey((key) => key + 1);
+    } catch (err) {
+      console.error(`Error trying to ${action} outbox entries:`, err);
+      setError(err instanceof Error ? err.message : `Failed to ${action}`);
+    } finally {
+      setActionLoading(false);
+    }
+  };
 
   // Format timestamp for display
   const formatTimestamp = (timestamp: string | null) => {
@@ -137,7 +283,7 @@ export default function AdminOutbox({ user }: AdminOutboxProps) {
             </Link>
             <h1 className="text-3xl font-bold text-gray-900">Webhook Outbox Monitor</h1>
             <p className="mt-2 text-sm text-gray-600">
-              Monitor webhook delivery status and retry failures.
+              Monitor webhook delivery status, inspect payloads and replay or cancel entries.
             </p>
           </div>
 
@@ -155,11 +301,38 @@ export default function AdminOutbox({ user }: AdminOutboxProps) {
                   className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
                 >
                   <option value="failed">Failed</option>
+                  <option value="dead_letter">Dead letter</option>
                   <option value="pending">Pending</option>
                   <option value="sent">Sent</option>
+                  <option value="cancelled">Cancelled</option>
                   <option value="all">All</option>
                 </select>
               </div>
+              <div>
+                <label htmlFor="target-filter" className="block text-sm font-medium text-gray-700 mb-1">
+                  Target
+                </label>
+                <input
+                  id="target-filter"
+                  type="text"
+                  value={targetFilter}
+                  onChange={(e) => setTargetFilter(e.target.value)}
+                  placeholder="e.g. n8n_email_capture, destination:crm"
+                  className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                />
+              </div>
+              <div>
+                <label htmlFor="created-from" className="block text-sm font-medium text-gray-700 mb-1">
+                  Created since
+                </label>
+                <input
+                  id="created-from"
+                  type="date"
+                  value={createdFrom}
+                  onChange={(e) => setCreatedFrom(e.target.value)}
+                  className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                />
+              </div>
               <div>
                 <label htmlFor="limit-selector" className="block text-sm font-medium text-gray-700 mb-1">
                   Limit
@@ -175,9 +348,38 @@ export default function AdminOutbox({ user }: AdminOutboxProps) {
                   <option value="200">200</option>
                 </select>
               </div>
+              {currentFilter.status && (
+                <div className="ml-auto flex gap-3 self-end">
+                  {REPLAYABLE_STATUSES.includes(currentFilter.status) && (
+                    <button
+                      onClick={() => runAction('replay', { filter: currentFilter })}
+                      disabled={actionLoading}
+                      className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                    >
+                      Replay all matching
+                    </button>
+                  )}
+                  {CANCELLABLE_STATUSES.includes(currentFilter.status) && (
+                    <button
+                      onClick={() => runAction('cancel', { filter: currentFilter })}
+                      disabled={actionLoading}
+                      className="px-4 py-2 text-sm font-medium text-red-700 bg-white border border-red-300 rounded-md hover:bg-red-50 disabled:opacity-50 transition-colors"
+                    >
+                      Cancel all matching
+                    </button>
+                  )}
+                </div>
+              )}
             </div>
           </div>
 
+          {/* Action Result */}
+          {actionMessage && (
+            <div className="bg-green-50 border border-green-200 rounded-lg p-4 mb-6">
+              <p className="text-sm text-green-800">{actionMessage}</p>
+            </div>
+          )}
+
           {/* Error State */}
           {error && (
             <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
@@ -196,7 +398,7 @@ export default function AdminOutbox({ user }: AdminOutboxProps) {
             <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
               {entries.length === 0 ? (
                 <div className="p-12 text-center text-gray-500">
-                  <p>No entries found with status "{statusFilter}".</p>
+                  <p>No entries found with status "{statusFilter}" matching the filters.</p>
                 </div>
               ) : (
                 <div className="overflow-x-auto">
@@ -204,7 +406,7 @@ export default function AdminOutbox({ user }: AdminOutboxProps) {
                     <thead className="bg-gray-50">
                       <tr>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                          Submission ID
+                          Submission / Event
                         </th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                           Target
@@ -230,23 +432,23 @@ export default function AdminOutbox({ user }: AdminOutboxProps) {
                       </tr>
                     </thead>
                     <tbody className="bg-white divide-y divide-gray-200">
-                      {entries.map((entry, index) => (
-                        <tr key={`${entry.submission_id}-${index}`} className="hover:bg-gray-50">
+                      {entries.map((entry) => (
+                        <tr
+                          key={entry.id}
+                          onClick={() => setSelectedId(entry.id === selectedId ? null : entry.id)}
+                          className={`cursor-pointer ${entry.id === selectedId ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                        >
                           <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-900">
-                            {entry.submission_id.substring(0, 8)}...
+                            {entry.submission_id ? `${entry.submission_id.substring(0, 8)}...` : entry.event_type || '-'}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                             {entry.target}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap">
                             <span
-                              className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                                entry.status === 'sent'
-                                  ? 'bg-green-100 text-green-800'
-                                  : entry.status === 'failed'
-                                  ? 'bg-red-100 text-red-800'
-                                  : 'bg-yellow-100 text-yellow-800'
-                              }`}
+                              className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${statusBadgeClass(
+                                entry.status
+                              )}`}
                             >
                               {entry.status}
                             </span>
@@ -280,6 +482,128 @@ export default function AdminOutbox({ user }: AdminOutboxProps) {
               )}
             </div>
           )}
+
+          {/* Entry Detail */}
+          {selectedId && (
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mt-6">
+              {detailLoading && !detail ? (
+                <p className="text-gray-600">Loading entry...</p>
+              ) : detail ? (
+                <>
+                  <div className="flex items-start justify-between mb-4">
+                    <div>
+                      <h2 className="text-xl font-semibold text-gray-900">
+                        {detail.entry.target}{' '}
+                        <span
+                          className={`ml-2 inline-flex px-2 py-1 text-xs font-semibold rounded-full ${statusBadgeClass(
+                            detail.entry.status
+                          )}`}
+                        >
+                          {detail.entry.status}
+                        </span>
+                      </h2>
+                      <p className="mt-1 text-sm text-gray-600 font-mono">
+                        {detail.entry.id}
+                        {detail.entry.submission_id ? ` · submission ${detail.entry.submission_id}` : ''}
+                        {detail.entry.event_type ? ` · ${detail.entry.event_type}` : ''}
+                      </p>
+                      <p className="mt-1 text-sm text-gray-600 break-all">{detail.entry.webhook_url}</p>
+                      {(detail.entry.status === 'pending' || detail.entry.status === 'failed') && (
+                        <p className="mt-1 text-sm text-gray-600">
+                          Next attempt: {formatTimestamp(detail.entry.next_attempt_at)}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex gap-3">
+                      {REPLAYABLE_STATUSES.includes(detail.entry.status as OutboxStatus) && (
+                        <button
+                          onClick={() => runAction('replay', { ids: [detail.entry.id] })}
+                          disabled={actionLoading}
+                          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                        >
+                          Replay
+                        </button>
+                      )}
+                      {CANCELLABLE_STATUSES.includes(detail.entry.status as OutboxStatus) && (
+                        <button
+                          onClick={() => runAction('cancel', { ids: [detail.entry.id] })}
+                          disabled={actionLoading}
+                          className="px-4 py-2 text-sm font-medium text-red-700 bg-white border border-red-300 rounded-md hover:bg-red-50 disabled:opacity-50 transition-colors"
+                        >
+                          Cancel
+                        </button>
+                      )}
+                      <button
+                        onClick={() => setSelectedId(null)}
+                        className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+                      >
+                        Close
+                      </button>
+                    </div>
+                  </div>
+
+                  <h3 className="text-sm font-medium text-gray-700 mb-2">Payload</h3>
+                  <pre className="bg-gray-50 border border-gray-200 rounded-md p-4 text-xs text-gray-800 overflow-x-auto mb-6">
+                    {JSON.stringify(detail.entry.payload, null, 2)}
+                  </pre>
+
+                  <h3 className="text-sm font-medium text-gray-700 mb-2">Attempts</h3>
+                  {detail.attempts.length === 0 ? (
+                    <p className="text-sm text-gray-500 mb-6">No recorded attempts.</p>
+                  ) : (
+                    <div className="overflow-x-auto mb-6">
+                      <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">#</th>
+                            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">At</th>
+                            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status code</th>
+                            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Duration</th>
+                            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Response / error</th>
+                          </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                          {detail.attempts.map((attempt) => (
+                            <tr key={attempt.id}>
+                              <td className="px-4 py-2 text-sm text-gray-500">{attempt.attempt_number}</td>
+                              <td className="px-4 py-2 text-sm text-gray-500 whitespace-nowrap">
+                                {formatTimestamp(attempt.created_at)}
+                              </td>
+                              <td className="px-4 py-2 text-sm text-gray-900">{attempt.status_code ?? '-'}</td>
+                              <td className="px-4 py-2 text-sm text-gray-500">
+                                {attempt.duration_ms !== null ? `${attempt.duration_ms} ms` : '-'}
+                              </td>
+                              <td className="px-4 py-2 text-xs text-gray-700 font-mono whitespace-pre-wrap break-all">
+                                {attempt.error_message || attempt.response_body || '-'}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+
+                  <h3 className="text-sm font-medium text-gray-700 mb-2">Manual actions</h3>
+                  {detail.actions.length === 0 ? (
+                    <p className="text-sm text-gray-500">None.</p>
+                  ) : (
+                    <ul className="text-sm text-gray-700 space-y-1">
+                      {detail.actions.map((logEntry, index) => (
+                        <li key={`${logEntry.created_at}-${index}`}>
+                          {formatTimestamp(logEntry.created_at)} · {logEntry.action.replace('outbox.', '')} by{' '}
+                          {logEntry.metadata?.actor_email || 'unknown'}
+                          {logEntry.metadata?.from_status ? ` (was ${logEntry.metadata.from_status})` : ''}
+                          {logEntry.metadata?.batch_size && logEntry.metadata.batch_size > 1
+                            ? ` · batch of ${logEntry.metadata.batch_size}`
+                            : ''}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </>
+              ) : null}
+            </div>
+          )}
         </div>
       </div>
     </>
@@ -144,12 +144,20 @@ export default function AdminPeople({ user }: AdminPeopleProps) {
                   Manage who can edit content in Fine Diet.
                 </p>
               </div>
-              <Link
-                href="/admin"
-                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
-              >
-                ← Back to Dashboard
-              </Link>
+              <div className="flex gap-3">
+                <Link
+                  href="/admin/people/timeline"
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors"
+                >
+                  Look Up Person
+                </Link>
+                <Link
+                  href="/admin"
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+                >
+                  ← Back to Dashboard
+                </Link>
+              </div>
             </div>
             <div className="text-sm text-gray-500">
               Signed in as <span className="font-medium text-gray-700">{user.email || 'Unknown'}</span>
@@ -210,7 +218,16 @@ export default function AdminPeople({ user }: AdminPeopleProps) {
                           <tr key={profile.id} className={isCurrentUser ? 'bg-blue-50' : ''}>
                             <td className="px-6 py-4 whitespace-nowrap">
                               <div className="text-sm font-medium text-gray-900">
-                                {profile.email}
+                                {profile.email ? (
+                                  <Link
+                                    href={{ pathname: '/admin/people/timeline', query: { email: profile.email } }}
+                                    className="hover:text-blue-700 hover:underline"
+                                  >
+                                    {profile.email}
+                                  </Link>
+                                ) : (
+                                  profile.email
+                                )}
                                 {isCurrentUser && (
                                   <span className="ml-2 text-xs text-blue-600 font-normal">(You)</span>
                                 )}
@@ -0,0 +1,412 @@
+/**
+ * Admin Page: Person Timeline
+ *
+ * Admin-only lookup of everything Fine Diet holds for one email address: profile, status
+ * history, subscriptions, assessment submissions, waitlist joins, emails and webhook
+ * deliveries, merged into one timeline. Search with ?email=.
+ * Also the admin side of GDPR / CCPA requests: JSON export and erasure of the email.
+ * Protected by middleware and SSR guard.
+ */
+
+import { GetServerSideProps } from 'next';
+import Head from 'next/head';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { useState, useEffect, type FormEvent } from 'react';
+import { getCurrentUserWithRoleFromSSR, type AuthenticatedUser } from '@/lib/authServer';
+import type { Person } from '@/lib/peopleService';
+import type {
+  TimelineEntry,
+  TimelineEntryKind,
+  TimelineSubscriptionRow,
+} from '@/lib/admin/people/personTimeline';
+
+interface AdminPersonTimelineProps {
+  user: AuthenticatedUser | null;
+}
+
+interface TimelineData {
+  email: string;
+  person: Person | null;
+  subscriptions: TimelineSubscriptionRow[];
+  statusHistory: Array<{ from: string | null; to: string; at: string }>;
+  timeline: TimelineEntry[];
+}
+
+const KIND_STYLES: Record<TimelineEntryKind, string> = {
+  profile: 'bg-gray-100 text-gray-800',
+  status: 'bg-purple-100 text-purple-800',
+  subscription: 'bg-blue-100 text-blue-800',
+  submission: 'bg-green-100 text-green-800',
+  claim: 'bg-green-50 text-green-700',
+  waitlist: 'bg-yellow-100 text-yellow-800',
+  email: 'bg-indigo-100 text-indigo-800',
+  event: 'bg-gray-100 text-gray-700',
+  webhook: 'bg-orange-100 text-orange-800',
+};
+
+const STATUS_STYLES: Record<string, string> = {
+  sent: 'text-green-700',
+  active: 'text-green-700',
+  pending: 'text-yellow-700',
+  failed: 'text-orange-700',
+  dead_letter: 'text-red-700',
+  cancelled: 'text-gray-500',
+  inactive: 'text-gray-500',
+};
+
+export default function AdminPersonTimeline({ user }: AdminPersonTimelineProps) {
+  const router = useRouter();
+  const queryEmail = typeof router.query.email === 'string' ? router.query.email : '';
+
+  const [search, setSearch] = useState(queryEmail);
+  const [data, setData] = useState<TimelineData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [erasing, setErasing] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    setSearch(queryEmail);
+  }, [queryEmail]);
+
+  useEffect(() => {
+    async function fetchTimeline() {
+      if (user?.role !== 'admin' || !queryEmail) {
+        setData(null);
+        return;
+      }
+      try {
+        setLoading(true);
+        setError(null);
+        const response = await fetch(`/api/admin/people/timeline?email=${encodeURIComponent(queryEmail)}`);
+        const body = await response.json();
+        if (!response.ok) {
+          throw new Error(body.error || 'Failed to load timeline');
+        }
+        setData(body as TimelineData);
+      } catch (err) {
+        console.error('Error fetching person timeline:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load timeline');
+        setData(null);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchTimeline();
+  }, [user, queryEmail, refreshKey]);
+
+  // GDPR / CCPA erasure: the admin retypes the email to confirm
+  const handleErase = async () => {
+    if (!data) return;
+    const confirmEmail = prompt(
+      `Erase all personal data for ${data.email}? People, subscriptions, events, waitlist and outbox rows are deleted and submissions pseudonymized. Type the email to confirm.`
+    );
+    if (confirmEmail === null) return;
+    const deleteAccount = !!data.person?.auth_user_id && confirm('Also delete the linked login account?');
+
+    try {
+      setErasing(true);
+      setError(null);
+      setMessage(null);
+      const response = await fetch('/api/admin/people/privacy', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: data.email, confirmEmail, deleteAccount }),
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || 'Erasure failed');
+      }
+      const summary = body.summary;
+      setMessage(
+        `Erased ${data.email}: ${summary.people} person, ${summary.subscriptions} subscriptions, ` +
+          `${summary.people_events} events, ${summary.waitlist} waitlist rows and ${summary.webhook_outbox} outbox rows deleted; ` +
+          `${summary.assessment_submissions_pseudonymized} submissions and ${summary.assessment_sessions_pseudonymized} sessions pseudonymized` +
+          `${summary.account_deleted ? '; login account deleted' : ''}.`
+      );
+      setRefreshKey((key) => key + 1);
+    } catch (err) {
+      console.error('Error erasing person:', err);
+      setError(err instanceof Error ? err.message : 'Erasure failed');
+    } finally {
+      setErasing(false);
+    }
+  };
+
+  const handleSearch = (e: FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+    const email = search.trim().toLowerCase();
+    if (!email) return;
+    router.push({ pathname: '/admin/people/timeline', query: { email } });
+  };
+
+  // Format timestamp for display
+  const formatTimestamp = (timestamp: string) =>
+    new Date(timestamp).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  // Defensive check - middleware should have already blocked non-admin users
+  if (!user || user.role !== 'admin') {
+    return (
+      <>
+        <Head>
+          <title>Person Timeline • Fine Diet</title>
+        </Head>
+        <main className="min-h-screen bg-gray-100 flex items-center justify-center px-4">
+          <div className="max-w-md w-full text-center">
+            <h1 className="text-3xl font-bold text-gray-900 mb-4">Access Denied</h1>
+            <p className="text-lg text-gray-600 mb-8">You don't have permission to access this page.</p>
+            <Link
+              href="/admin"
+              className="inline-block px-6 py-3 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors font-medium"
+            >
+              Return to Admin Dashboard
+            </Link>
+          </div>
+        </main>
+      </>
+    );
+  }
+
+  const person = data?.person || null;
+
+  return (
+    <>
+      <Head>
+        <title>Person Timeline • Fine Diet Admin</title>
+      </Head>
+      <div className="min-h-screen bg-gray-100 pt-[100px] pb-10">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-10">
+          {/* Header */}
+          <div className="mb-6">
+            <Link
+              href="/admin/people"
+              className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-4"
+            >
+              <svg className="mr-2 h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+              </svg>
+              Back to Team & Roles
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-900">Person Timeline</h1>
+            <p className="mt-2 text-sm text-gray-600">
+              Everything we hold and have sent for one email address, newest first.
+            </p>
+          </div>
+
+          {/* Search */}
+          <form onSubmit={handleSearch} className="mb-6 flex gap-3">
+            <input
+              type="email"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="person@example.com"
+              className="flex-1 max-w-md px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm font-medium"
+            >
+              Search
+            </button>
+          </form>
+
+          {error && (
+            <div className="mb-6 bg-red-50 border border-red-200 rounded-md p-4 text-sm text-red-800">{error}</div>
+          )}
+          {message && (
+            <div className="mb-6 bg-green-50 border border-green-200 rounded-md p-4 text-sm text-green-800">
+              {message}
+            </div>
+          )}
+
+          {/* Data subject requests */}
+          {!loading && data && (
+            <div className="mb-6 flex items-center gap-3">
+              <a
+                href={`/api/admin/people/privacy?email=${encodeURIComponent(data.email)}`}
+                className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 text-sm font-medium"
+              >
+                Export Data (JSON)
+              </a>
+              <button
+                type="button"
+                onClick={handleErase}
+                disabled={erasing || data.timeline.length === 0}
+                className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 text-sm font-medium disabled:opacity-50"
+              >
+                {erasing ? 'Erasing...' : 'Erase Personal Data'}
+              </button>
+              <span className="text-xs text-gray-500">Both are recorded in the privacy request log.</span>
+            </div>
+          )}
+
+          {loading && (
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center text-gray-600">
+              Loading timeline...
+            </div>
+          )}
+
+          {!loading && data && (
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              {/* Profile */}
+              <div className="space-y-6">
+                <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                  <h2 className="text-lg font-semibold text-gray-900 mb-4">Profile</h2>
+                  {person ? (
+                    <dl className="space-y-2 text-sm">
+                      <div>
+                        <dt className="text-gray-500">Email</dt>
+                        <dd className="text-gray-900 break-all">{person.email}</dd>
+                      </div>
+                      <div>
+                        <dt className="text-gray-500">Name</dt>
+                        <dd className="text-gray-900">
+                          {[person.first_name, person.last_name].filter(Boolean).join(' ') || '-'}
+                        </dd>
+                      </div>
+                      <div>
+                        <dt className="text-gray-500">Status</dt>
+                        <dd className="text-gray-900">{person.status}</dd>
+                      </div>
+                      <div>
+                        <dt className="text-gray-500">Sources</dt>
+                        <dd className="text-gray-900">
+                          {person.primary_source || '-'}
+                          {person.last_source && person.last_source !== person.primary_source
+                            ? ` (last: ${person.last_source})`
+                            : ''}
+                        </dd>
+                      </div>
+                      <div>
+                        <dt className="text-gray-500">Marketing opt-in</dt>
+                        <dd className="text-gray-900">
+                          Email {person.email_marketing_opt_in ? 'yes' : 'no'}
+                          {person.email_consent_status ? ` (${person.email_consent_status})` : ''} · SMS{' '}
+                          {person.sms_marketing_opt_in ? 'yes' : 'no'}
+                        </dd>
+                      </div>
+                      <div>
+                        <dt className="text-gray-500">Account</dt>
+                        <dd className="text-gray-900 font-mono text-xs">{person.auth_user_id || 'Not linked'}</dd>
+                      </div>
+                      <div>
+                        <dt className="text-gray-500">Created</dt>
+                        <dd className="text-gray-900">{formatTimestamp(person.created_at)}</dd>
+                      </div>
+                    </dl>
+                  ) : (
+                    <p className="text-sm text-gray-600">
+                      No person record for {data.email}. Submissions and deliveries matching the email are still shown.
+                    </p>
+                  )}
+                </div>
+
+                {person && (
+                  <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                    <h2 className="text-lg font-semibold text-gray-900 mb-4">Subscriptions</h2>
+                    {data.subscriptions.length === 0 ? (
+                      <p className="text-sm text-gray-600">No subscriptions.</p>
+                    ) : (
+                      <ul className="space-y-2 text-sm">
+                        {data.subscriptions.map((subscription) => (
+                          <li key={subscription.id} className="flex justify-between gap-2">
+                            <span className="text-gray-900">
+                              {subscription.subscription_type}
+                              {subscription.program_slug ? ` (${subscription.program_slug})` : ''}
+                            </span>
+                            <span className={subscription.is_active ? 'text-green-700' : 'text-gray-500'}>
+                              {subscription.is_active ? 'active' : 'inactive'}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+
+                    <h2 className="text-lg font-semibold text-gray-900 mt-6 mb-4">Status History</h2>
+                    {data.statusHistory.length === 0 ? (
+                      <p className="text-sm text-gray-600">Status has not changed since {person.status}.</p>
+                    ) : (
+                      <ul className="space-y-2 text-sm">
+                        {data.statusHistory.map((change) => (
+                          <li key={change.at} className="flex justify-between gap-2">
+                            <span className="text-gray-900">
+                              {change.from || '?'} → {change.to}
+                            </span>
+                            <span className="text-gray-500">{formatTimestamp(change.at)}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {/* Timeline */}
+              <div className="lg:col-span-2 bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-4">Timeline ({data.timeline.length})</h2>
+                {data.timeline.length === 0 ? (
+                  <p className="text-sm text-gray-600">Nothing found for {data.email}.</p>
+                ) : (
+                  <ol className="divide-y divide-gray-100">
+                    {data.timeline.map((entry) => (
+                      <li key={entry.id} className="py-3 flex gap-4">
+                        <div className="w-40 shrink-0 text-xs text-gray-500 pt-1">{formatTimestamp(entry.occurred_at)}</div>
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-2 flex-wrap">
+                            <span
+                              className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${KIND_STYLES[entry.kind]}`}
+                            >
+                              {entry.kind}
+                            </span>
+                            <span className="text-sm text-gray-900">{entry.title}</span>
+                            {entry.status && (
+                              <span className={`text-xs font-medium ${STATUS_STYLES[entry.status] || 'text-gray-600'}`}>
+                                {entry.status}
+                              </span>
+                            )}
+                          </div>
+                          {entry.detail && <p className="mt-1 text-xs text-gray-500 break-all">{entry.detail}</p>}
+                        </div>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
+
+export const getServerSideProps: GetServerSideProps<AdminPersonTimelineProps> = async (context) => {
+  // Get the current user with their role
+  const user = await getCurrentUserWithRoleFromSSR(context);
+
+  // Note: Middleware should have already blocked non-admin users,
+  // but we still check here for defensive programming
+  if (!user || user.role !== 'admin') {
+    return {
+      props: {
+        user: null,
+      },
+    };
+  }
+
+  return {
+    props: {
+      user,
+    },
+  };
+};
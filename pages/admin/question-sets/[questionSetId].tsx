@@ -2,6 +2,9 @@
  * Admin Page: Question Set Detail / Manage
  * 
  * Shows question set details, revisions, and allows setting preview/publish pointers.
+ * Publishing goes through a review of the revision's changes against the published one, and
+ * needs an approved publish review from another user (Publish Review panel).
+ * Published History lists pointer changes and rolls back to the previous published revision (admin).
  * Requires editor or admin role.
  */
 
@@ -11,6 +14,13 @@ import Link from 'next/link';
 import { useRouter } from 'next/router';
 import { useState, useEffect } from 'react';
 import { getCurrentUserWithRoleFromSSR, AuthenticatedUser } from '@/lib/authServer';
+import type { QuestionSetDiff } from '@/lib/questionSet/diffQuestionSet';
+import { RevisionDiffPanel } from '@/components/admin/RevisionDiffPanel';
+import { PublishReviewPanel } from '@/components/admin/PublishReviewPanel';
+import { PointerHistoryPanel } from '@/components/admin/PointerHistoryPanel';
+import type { PublishReviewDetail } from '@/lib/publishReview/reviews';
+import { isOpenReview } from '@/lib/publishReview/reviewRules';
+import type { PointerHistoryEntry } from '@/lib/pointerHistory/rollbackTarget';
 
 interface QuestionSetDetail {
   id: string;
@@ -37,6 +47,13 @@ interface RevisionItem {
   notes: string | null;
 }
 
+interface RevisionReview {
+  revisionId: string;
+  revisionNumber: number;
+  compareToNumber: number | null;
+  diff: QuestionSetDiff | null;
+}
+
 interface DetailPageProps {
   user: AuthenticatedUser | null;
   questionSetId: string;
@@ -52,6 +69,11 @@ export default function QuestionSetDetailPage({ user, questionSetId }: DetailPag
   const [actionLoading, setActionLoading] = useState<Set<string>>(new Set());
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
   const [origin, setOrigin] = useState<string>('');
+  const [review, setReview] = useState<RevisionReview | null>(null);
+  const [publishReviews, setPublishReviews] = useState<PublishReviewDetail[]>([]);
+  const [minimumApprovals, setMinimumApprovals] = useState(1);
+  const [pointerHistory, setPointerHistory] = useState<PointerHistoryEntry[]>([]);
+  const [rollbackTargetId, setRollbackTargetId] = useState<string | null>(null);
 
   // Defensive check for unauthorized users
   if (!user || (user.role !== 'editor' && user.role !== 'admin')) {
@@ -93,6 +115,20 @@ export default function QuestionSetDetailPage({ user, questionSetId }: DetailPag
       setQuestionSet(data.questionSet);
       setPointers(data.pointers);
       setRevisions(data.revisions || []);
+
+      const reviewsResponse = await fetch(`/api/admin/publish-reviews?entityType=question_set&entityId=${questionSetId}`);
+      if (reviewsResponse.ok) {
+        const reviewsData = await reviewsResponse.json();
+        setPublishReviews(reviewsData.reviews || []);
+        setMinimumApprovals(reviewsData.minimumApprovals || 1);
+      }
+
+      const historyResponse = await fetch(`/api/admin/pointer-history?entityType=question_set&entityId=${questionSetId}`);
+      if (historyResponse.ok) {
+        const historyData = await historyResponse.json();
+        setPointerHistory(historyData.history || []);
+        setRollbackTargetId(historyData.rollbackTargetId || null);
+      }
     } catch (err) {
       console.error('Error fetching question set:', err);
       setError(err instanceof Error ? err.message : 'Failed to load question set');
@@ -146,7 +182,7 @@ export default function QuestionSetDetailPage({ user, questionSetId }: DetailPag
     }
   };
 
-  const handlePublish = async (revisionId: string) => {
+  const handlePublish = async (revisionId: string): Promise<boolean> => {
     try {
       setActionLoading((prev) => new Set(prev).add(`publish-${revisionId}`));
       setError(null);
@@ -167,9 +203,11 @@ export default function QuestionSetDetailPage({ user, questionSetId }: DetailPag
       await fetchData();
       // Clear success message after 5 seconds
       setTimeout(() => setSuccessMessage(null), 5000);
+      return true;
     } catch (err) {
       console.error('Error publishing revision:', err);
       setError(err instanceof Error ? err.message : 'Failed to publish revision');
+      return false;
     } finally {
       setActionLoading((prev) => {
         const next = new Set(prev);
@@ -179,6 +217,52 @@ export default function QuestionSetDetailPage({ user, questionSetId }: DetailPag
     }
   };
 
+  const handleReview = async (revision: RevisionItem) => {
+    try {
+      setActionLoading((prev) => new Set(prev).add(`review-${revision.id}`));
+      setError(null);
+
+      const response = await fetch(
+        `/api/admin/question-sets/${questionSetId}/diff?revisionId=${encodeURIComponent(revision.id)}`
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load changes');
+      }
+
+      setReview({
+        revisionId: revision.id,
+        revisionNumber: revision.revisionNumber,
+        compareToNumber: data.compareTo?.revisionNumber ?? null,
+        diff: data.diff,
+      });
+    } catch (err) {
+      console.error('Error loading revision diff:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load changes');
+    } finally {
+      setActionLoading((prev) => {
+        const next = new Set(prev);
+        next.delete(`review-${revision.id}`);
+        return next;
+      });
+    }
+  };
+
+  const handlePublishReviewed = async () => {
+    if (!review) return;
+    if (
+      review.diff &&
+      review.diff.scoringWarnings.length > 0 &&
+      !confirm('This revision changes scoring. New submissions may get a different level for the same answers. Publish anyway?')
+    ) {
+      return;
+    }
+    if (await handlePublish(review.revisionId)) {
+      setReview(null);
+    }
+  };
+
   const handleArchive = async () => {
     if (!confirm('Are you sure you want to archive this question set? It will be hidden from normal operations but can be restored later.')) {
       return;
@@ -330,6 +414,11 @@ export default function QuestionSetDetailPage({ user, questionSetId }: DetailPag
     return revision.status;
   };
 
+  const openReviewByRevision: Record<string, PublishReviewDetail> = {};
+  publishReviews.filter((publishReview) => isOpenReview(publishReview)).forEach((publishReview) => {
+    openReviewByRevision[publishReview.revision_id] = publishReview;
+  });
+
   return (
     <>
       <Head>
@@ -469,6 +558,68 @@ export default function QuestionSetDetailPage({ user, questionSetId }: DetailPag
             </div>
           </div>
 
+          {/* Revision Review */}
+          {review && (
+            <RevisionDiffPanel
+              revisionNumber={review.revisionNumber}
+              compareToNumber={review.compareToNumber}
+              groups={review.diff?.groups || []}
+              scoringWarnings={review.diff?.scoringWarnings}
+              onClose={() => setReview(null)}
+            >
+              {user.role === 'admin' &&
+                pointers?.publishedRevisionId !== review.revisionId &&
+                openReviewByRevision[review.revisionId]?.status === 'approved' && (
+                <button
+                  onClick={handlePublishReviewed}
+                  disabled={actionLoading.has(`publish-${review.revisionId}`)}
+                  className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors font-medium"
+                >
+                  {actionLoading.has(`publish-${review.revisionId}`) ? 'Publishing...' : `Publish Revision #${review.revisionNumber}`}
+                </button>
+              )}
+              {pointers?.publishedRevisionId !== review.revisionId &&
+                openReviewByRevision[review.revisionId]?.status !== 'approved' && (
+                  <p className="text-sm text-gray-600">
+                    {openReviewByRevision[review.revisionId]
+                      ? 'Waiting for approval in Publish Review before it can be published.'
+                      : 'Submit this revision in Publish Review; it can be published once another user approves it.'}
+                  </p>
+                )}
+            </RevisionDiffPanel>
+          )}
+
+          {/* Publish Review */}
+          <PublishReviewPanel
+            user={user}
+            entityType="question_set"
+            entityId={questionSetId}
+            revisions={revisions}
+            publishedRevisionId={pointers?.publishedRevisionId || null}
+            reviews={publishReviews}
+            minimumApprovals={minimumApprovals}
+            onChanged={async (message) => {
+              setSuccessMessage(message);
+              await fetchData();
+              setTimeout(() => setSuccessMessage(null), 5000);
+            }}
+          />
+
+          {/* Published History */}
+          <PointerHistoryPanel
+            user={user}
+            entityType="question_set"
+            entityId={questionSetId}
+            revisions={revisions}
+            history={pointerHistory}
+            rollbackTargetId={rollbackTargetId}
+            onChanged={async (message) => {
+              setSuccessMessage(message);
+              await fetchData();
+              setTimeout(() => setSuccessMessage(null), 5000);
+            }}
+          />
+
           {/* Revisions Table */}
           <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
             <div className="px-6 py-4 border-b border-gray-200">
@@ -508,6 +659,7 @@ export default function QuestionSetDetailPage({ user, questionSetId }: DetailPag
                       const status = getRevisionStatus(revision);
                       const isPreviewLoading = actionLoading.has(`preview-${revision.id}`);
                       const isPublishLoading = actionLoading.has(`publish-${revision.id}`);
+                      const isReviewLoading = actionLoading.has(`review-${revision.id}`);
                       const isPublished = pointers?.publishedRevisionId === revision.id;
                       const isPreview = pointers?.previewRevisionId === revision.id;
 
@@ -537,6 +689,15 @@ export default function QuestionSetDetailPage({ user, questionSetId }: DetailPag
                                 Archived
                               </span>
                             )}
+                            {openReviewByRevision[revision.id] && (
+                              <span
+                                className={`ml-2 px-2 py-1 text-xs font-medium rounded ${
+                                  openReviewByRevision[revision.id].status === 'approved' ? 'bg-green-50 text-green-700' : 'bg-yellow-50 text-yellow-700'
+                                }`}
+                              >
+                                {openReviewByRevision[revision.id].status === 'approved' ? 'Approved' : 'In Review'}
+                              </span>
+                            )}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 font-mono text-xs">
                             {revision.contentHash.substring(0, 8)}...
@@ -570,14 +731,20 @@ export default function QuestionSetDetailPage({ user, questionSetId }: DetailPag
                               <>
                                 {user.role === 'admin' ? (
                                   <button
-                                    onClick={() => handlePublish(revision.id)}
-                                    disabled={isPreviewLoading || isPublishLoading}
+                                    onClick={() => handleReview(revision)}
+                                    disabled={isPreviewLoading || isPublishLoading || isReviewLoading}
                                     className="text-green-600 hover:text-green-900 disabled:text-gray-400 disabled:cursor-not-allowed ml-2"
                                   >
-                                    {isPublishLoading ? 'Loading...' : 'Publish'}
+                                    {isReviewLoading || isPublishLoading ? 'Loading...' : 'Review & Publish'}
                                   </button>
                                 ) : (
-                                  <span className="text-gray-400 text-sm ml-2">Admin only</span>
+                                  <button
+                                    onClick={() => handleReview(revision)}
+                                    disabled={isReviewLoading}
+                                    className="text-gray-600 hover:text-gray-900 disabled:text-gray-400 disabled:cursor-not-allowed ml-2"
+                                  >
+                                    {isReviewLoading ? 'Loading...' : 'Changes'}
+                                  </button>
                                 )}
                               </>
                             )}
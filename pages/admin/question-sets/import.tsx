@@ -162,6 +162,16 @@ export default function QuestionSetImport({ user }: ImportPageProps) {
               <li>Files must be named: <code className="bg-blue-100 px-1 rounded">meta.csv</code>, <code className="bg-blue-100 px-1 rounded">sections.csv</code>, <code className="bg-blue-100 px-1 rounded">questions.csv</code>, <code className="bg-blue-100 px-1 rounded">options.csv</code></li>
               <li>Export each tab separately from your Google Sheet</li>
               <li>Ensure all required columns are present</li>
+              <li>
+                Optional <code className="bg-blue-100 px-1 rounded">questions.csv</code> columns for other question types:{' '}
+                <code className="bg-blue-100 px-1 rounded">type</code> (single, multi, slider, text),{' '}
+                <code className="bg-blue-100 px-1 rounded">min_selections</code>, <code className="bg-blue-100 px-1 rounded">max_selections</code>,{' '}
+                <code className="bg-blue-100 px-1 rounded">slider_min</code>, <code className="bg-blue-100 px-1 rounded">slider_max</code>,{' '}
+                <code className="bg-blue-100 px-1 rounded">slider_step</code>, <code className="bg-blue-100 px-1 rounded">min_label</code>,{' '}
+                <code className="bg-blue-100 px-1 rounded">max_label</code>, <code className="bg-blue-100 px-1 rounded">max_length</code>,{' '}
+                <code className="bg-blue-100 px-1 rounded">required</code>; optional <code className="bg-blue-100 px-1 rounded">options.csv</code> column{' '}
+                <code className="bg-blue-100 px-1 rounded">exclusive</code> (e.g., &quot;None of these&quot;)
+              </li>
             </ul>
           </div>
 
@@ -11,6 +11,13 @@ import Link from 'next/link';
 import { useState, useEffect } from 'react';
 import { getCurrentUserWithRoleFromSSR, AuthenticatedUser } from '@/lib/authServer';
 import { useRouter } from 'next/router';
+import {
+  DEFAULT_TEXT_MAX_LENGTH,
+  getQuestionType,
+  getSelectionLimits,
+  type QuestionType,
+  type SliderConfig,
+} from '@/lib/assessments/questions/questionTypes';
 
 interface PreviewPageProps {
   user: AuthenticatedUser | null;
@@ -28,14 +35,41 @@ interface QuestionSetData {
   questions: Array<{
     id: string;
     text: string;
-    options: Array<{
+    type?: QuestionType;
+    options?: Array<{
       id: string;
       label: string;
       value: number;
+      exclusive?: boolean;
     }>;
+    minSelections?: number;
+    maxSelections?: number;
+    slider?: SliderConfig;
+    maxLength?: number;
+    required?: boolean;
   }>;
 }
 
+/**
+ * Short description of a non-single-choice question (shown under the question text)
+ */
+function describeQuestionType(question: QuestionSetData['questions'][number]): string | null {
+  const type = getQuestionType(question);
+  if (type === 'multi') {
+    const { min, max } = getSelectionLimits({ ...question, options: question.options || [] });
+    return `Multi-select: pick ${min === max ? min : `${min}–${max}`} (score = sum of values, max 3)`;
+  }
+  if (type === 'slider' && question.slider) {
+    const { min, max, step, minLabel, maxLabel } = question.slider;
+    const labels = minLabel || maxLabel ? ` (${minLabel ?? min} → ${maxLabel ?? max})` : '';
+    return `Slider: ${min}–${max}, step ${step ?? 1}${labels}`;
+  }
+  if (type === 'text') {
+    return `Free text: ${question.required ? 'required' : 'optional'}, max ${question.maxLength ?? DEFAULT_TEXT_MAX_LENGTH} characters (not scored)`;
+  }
+  return null;
+}
+
 export default function QuestionSetPreviewPage({ user, questionSetId }: PreviewPageProps) {
   const router = useRouter();
   const { revisionId } = router.query;
@@ -46,6 +80,8 @@ export default function QuestionSetPreviewPage({ user, questionSetId }: PreviewP
   const [assessmentType, setAssessmentType] = useState<string>('');
   const [assessmentVersion, setAssessmentVersion] = useState<string>('');
   const [locale, setLocale] = useState<string | null>(null);
+  // Locale actually served; differs from `locale` when this translation has no revision yet
+  const [servedLocale, setServedLocale] = useState<string | null>(null);
 
   // Defensive check for unauthorized users
   if (!user || (user.role !== 'editor' && user.role !== 'admin')) {
@@ -125,6 +161,7 @@ export default function QuestionSetPreviewPage({ user, questionSetId }: PreviewP
         }
 
         const resolveData = await resolveResponse.json();
+        setServedLocale(resolveData.locale ?? null);
         
         // Handle cms_empty case (question set exists but no pointers set)
         if (resolveData.source === 'cms_empty') {
@@ -213,6 +250,11 @@ export default function QuestionSetPreviewPage({ user, questionSetId }: PreviewP
                 </>
               )}
             </p>
+            {locale && servedLocale && servedLocale !== locale && (
+              <p className="mt-2 text-sm text-amber-700">
+                No {locale} revision yet; showing the {servedLocale} fallback.
+              </p>
+            )}
           </div>
 
           {/* Error Message */}
@@ -308,20 +350,28 @@ export default function QuestionSetPreviewPage({ user, questionSetId }: PreviewP
                           </span>
                           <div className="flex-1">
                             <h3 className="text-lg font-medium text-gray-900 mb-4">{question.text}</h3>
+                            {describeQuestionType(question) && (
+                              <p className="text-sm text-blue-700 mb-3">{describeQuestionType(question)}</p>
+                            )}
                             <div className="space-y-2">
-                              {question.options
-                                .sort((a, b) => a.value - b.value)
-                                .map((option) => (
-                                  <div
-                                    key={option.id}
-                                    className="flex items-center p-3 bg-gray-50 rounded-md border border-gray-200"
-                                  >
-                                    <span className="flex-shrink-0 w-8 text-sm font-medium text-gray-500 text-right mr-4">
-                                      {option.value}
-                                    </span>
-                                    <span className="text-sm text-gray-900">{option.label}</span>
-                                  </div>
-                                ))}
+                              {/* Multi-select options keep their authored order */}
+                              {(getQuestionType(question) === 'multi'
+                                ? question.options || []
+                                : (question.options || []).slice().sort((a, b) => a.value - b.value)
+                              ).map((option) => (
+                                <div
+                                  key={option.id}
+                                  className="flex items-center p-3 bg-gray-50 rounded-md border border-gray-200"
+                                >
+                                  <span className="flex-shrink-0 w-8 text-sm font-medium text-gray-500 text-right mr-4">
+                                    {option.value}
+                                  </span>
+                                  <span className="text-sm text-gray-900">{option.label}</span>
+                                  {option.exclusive && (
+                                    <span className="ml-2 text-xs text-gray-500">(exclusive)</span>
+                                  )}
+                                </div>
+                              ))}
                             </div>
                           </div>
                         </div>
@@ -2,6 +2,12 @@
  * Admin Page: Results Pack Detail / Manage
  * 
  * Shows results pack details, revisions, and allows setting preview/publish pointers.
+ * Each locale is its own pack (own revisions and pointers); the Translations panel links
+ * them and creates new locales from a draft copy of this pack.
+ * The Experiments panel lists A/B experiments on this pack and creates new ones (admin).
+ * Publishing goes through a review of the revision's changes against the published one, and
+ * needs an approved publish review from another user (Publish Review panel).
+ * Published History lists pointer changes and rolls back to the previous published revision (admin).
  * Requires editor or admin role.
  */
 
@@ -11,16 +17,32 @@ import Link from 'next/link';
 import { useRouter } from 'next/router';
 import { useState, useEffect } from 'react';
 import { getCurrentUserWithRoleFromSSR, AuthenticatedUser } from '@/lib/authServer';
+import { normalizeLocale } from '@/lib/i18n/locale';
+import type { ExperimentItem } from '@/lib/resultsPack/experiments';
+import type { ContentDiffGroup } from '@/lib/contentDiff';
+import { RevisionDiffPanel } from '@/components/admin/RevisionDiffPanel';
+import { PublishReviewPanel } from '@/components/admin/PublishReviewPanel';
+import { PointerHistoryPanel } from '@/components/admin/PointerHistoryPanel';
+import type { PublishReviewDetail } from '@/lib/publishReview/reviews';
+import { isOpenReview } from '@/lib/publishReview/reviewRules';
+import type { PointerHistoryEntry } from '@/lib/pointerHistory/rollbackTarget';
 
 interface ResultsPackDetail {
   id: string;
   assessmentType: string;
   resultsVersion: string;
   levelId: string;
+  locale: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+interface TranslationItem {
+  id: string;
+  locale: string | null;
+  publishedRevisionId: string | null;
+}
+
 interface PointerInfo {
   publishedRevisionId: string | null;
   previewRevisionId: string | null;
@@ -37,6 +59,13 @@ interface RevisionItem {
   validationErrors: any | null;
 }
 
+interface RevisionReview {
+  revisionId: string;
+  revisionNumber: number;
+  compareToNumber: number | null;
+  groups: ContentDiffGroup[];
+}
+
 interface DetailPageProps {
   user: AuthenticatedUser | null;
   packId: string;
@@ -47,10 +76,21 @@ export default function ResultsPackDetailPage({ user, packId }: DetailPageProps)
   const [resultsPack, setResultsPack] = useState<ResultsPackDetail | null>(null);
   const [pointers, setPointers] = useState<PointerInfo | null>(null);
   const [revisions, setRevisions] = useState<RevisionItem[]>([]);
+  const [translations, setTranslations] = useState<TranslationItem[]>([]);
+  const [newLocale, setNewLocale] = useState('');
+  const [experiments, setExperiments] = useState<ExperimentItem[]>([]);
+  const [experimentName, setExperimentName] = useState('');
+  const [experimentRevisionId, setExperimentRevisionId] = useState('');
+  const [experimentSplit, setExperimentSplit] = useState(50);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [actionLoading, setActionLoading] = useState<Set<string>>(new Set());
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [review, setReview] = useState<RevisionReview | null>(null);
+  const [publishReviews, setPublishReviews] = useState<PublishReviewDetail[]>([]);
+  const [minimumApprovals, setMinimumApprovals] = useState(1);
+  const [pointerHistory, setPointerHistory] = useState<PointerHistoryEntry[]>([]);
+  const [rollbackTargetId, setRollbackTargetId] = useState<string | null>(null);
 
   // Defensive check for unauthorized users
   if (!user || (user.role !== 'editor' && user.role !== 'admin')) {
@@ -92,6 +132,27 @@ export default function ResultsPackDetailPage({ user, packId }: DetailPageProps)
       setResultsPack(data.resultsPack);
       setPointers(data.pointers);
       setRevisions(data.revisions || []);
+      setTranslations(data.translations || []);
+
+      const reviewsResponse = await fetch(`/api/admin/publish-reviews?entityType=results_pack&entityId=${packId}`);
+      if (reviewsResponse.ok) {
+        const reviewsData = await reviewsResponse.json();
+        setPublishReviews(reviewsData.reviews || []);
+        setMinimumApprovals(reviewsData.minimumApprovals || 1);
+      }
+
+      const historyResponse = await fetch(`/api/admin/pointer-history?entityType=results_pack&entityId=${packId}`);
+      if (historyResponse.ok) {
+        const historyData = await historyResponse.json();
+        setPointerHistory(historyData.history || []);
+        setRollbackTargetId(historyData.rollbackTargetId || null);
+      }
+
+      const experimentsResponse = await fetch(`/api/admin/results-packs/${packId}/experiments`);
+      if (experimentsResponse.ok) {
+        const experimentsData = await experimentsResponse.json();
+        setExperiments(experimentsData.experiments || []);
+      }
     } catch (err) {
       console.error('Error fetching results pack:', err);
       setError(err instanceof Error ? err.message : 'Failed to load results pack');
@@ -141,9 +202,9 @@ export default function ResultsPackDetailPage({ user, packId }: DetailPageProps)
     }
   };
 
-  const handlePublish = async (revisionId: string) => {
+  const handlePublish = async (revisionId: string): Promise<boolean> => {
     if (!confirm('Are you sure you want to publish this revision? This will make it live for all users.')) {
-      return;
+      return false;
     }
 
     try {
@@ -165,9 +226,11 @@ export default function ResultsPackDetailPage({ user, packId }: DetailPageProps)
       setSuccessMessage('Revision published successfully');
       await fetchData();
       setTimeout(() => setSuccessMessage(null), 5000);
+      return true;
     } catch (err) {
       console.error('Error publishing revision:', err);
       setError(err instanceof Error ? err.message : 'Failed to publish revision');
+      return false;
     } finally {
       setActionLoading((prev) => {
         const next = new Set(prev);
@@ -177,6 +240,124 @@ export default function ResultsPackDetailPage({ user, packId }: DetailPageProps)
     }
   };
 
+  const handleReview = async (revision: RevisionItem) => {
+    try {
+      setActionLoading((prev) => new Set(prev).add(`review-${revision.id}`));
+      setError(null);
+
+      const response = await fetch(
+        `/api/admin/results-packs/${packId}/diff?revisionId=${encodeURIComponent(revision.id)}`
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load changes');
+      }
+
+      setReview({
+        revisionId: revision.id,
+        revisionNumber: revision.revisionNumber,
+        compareToNumber: data.compareTo?.revisionNumber ?? null,
+        groups: data.diff?.groups || [],
+      });
+    } catch (err) {
+      console.error('Error loading revision diff:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load changes');
+    } finally {
+      setActionLoading((prev) => {
+        const next = new Set(prev);
+        next.delete(`review-${revision.id}`);
+        return next;
+      });
+    }
+  };
+
+  const handleAddTranslation = async () => {
+    if (!resultsPack) return;
+
+    const locale = normalizeLocale(newLocale);
+    if (!locale) {
+      setError(`Invalid locale "${newLocale}". Use a tag like "es" or "es-MX".`);
+      return;
+    }
+
+    try {
+      setActionLoading((prev) => new Set(prev).add('translation'));
+      setError(null);
+      setSuccessMessage(null);
+
+      const response = await fetch('/api/admin/results-packs/create', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          assessment_type: resultsPack.assessmentType,
+          results_version: resultsPack.resultsVersion,
+          level_id: resultsPack.levelId,
+          locale,
+          copy_from_pack_id: resultsPack.id,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok || !data.pack) {
+        throw new Error(data.error || 'Failed to create translation');
+      }
+
+      // Continue on the new locale's pack (draft copy ready to edit)
+      router.push(`/admin/results-packs/${data.pack.id}`);
+    } catch (err) {
+      console.error('Error creating translation:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create translation');
+    } finally {
+      setActionLoading((prev) => {
+        const next = new Set(prev);
+        next.delete('translation');
+        return next;
+      });
+    }
+  };
+
+  const handleCreateExperiment = async () => {
+    if (!experimentName.trim() || !experimentRevisionId) return;
+
+    try {
+      setActionLoading((prev) => new Set(prev).add('experiment'));
+      setError(null);
+      setSuccessMessage(null);
+
+      // Control = published revision; variant "b" = the chosen revision
+      const response = await fetch(`/api/admin/results-packs/${packId}/experiments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: experimentName.trim(),
+          variants: [
+            { variantId: 'control', revisionId: null, weight: 100 - experimentSplit },
+            { variantId: 'b', revisionId: experimentRevisionId, weight: experimentSplit },
+          ],
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok || !data.experiment) {
+        throw new Error(
+          [data.error || 'Failed to create experiment', ...(data.details || [])].join(': ')
+        );
+      }
+
+      router.push(`/admin/results-packs/${packId}/experiments/${data.experiment.id}`);
+    } catch (err) {
+      console.error('Error creating experiment:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create experiment');
+    } finally {
+      setActionLoading((prev) => {
+        const next = new Set(prev);
+        next.delete('experiment');
+        return next;
+      });
+    }
+  };
+
   if (!resultsPack) {
     return (
       <>
@@ -216,6 +397,11 @@ export default function ResultsPackDetailPage({ user, packId }: DetailPageProps)
     return revision.status;
   };
 
+  const openReviewByRevision: Record<string, PublishReviewDetail> = {};
+  publishReviews.filter((publishReview) => isOpenReview(publishReview)).forEach((publishReview) => {
+    openReviewByRevision[publishReview.revision_id] = publishReview;
+  });
+
   return (
     <>
       <Head>
@@ -274,6 +460,12 @@ export default function ResultsPackDetailPage({ user, packId }: DetailPageProps)
                 <dt className="text-sm font-medium text-gray-500">Level ID</dt>
                 <dd className="mt-1 text-sm text-gray-900">{resultsPack.levelId}</dd>
               </div>
+              <div>
+                <dt className="text-sm font-medium text-gray-500">Locale</dt>
+                <dd className="mt-1 text-sm text-gray-900">
+                  {resultsPack.locale || <span className="text-gray-400">default</span>}
+                </dd>
+              </div>
               <div>
                 <dt className="text-sm font-medium text-gray-500">Created At</dt>
                 <dd className="mt-1 text-sm text-gray-900">
@@ -283,6 +475,54 @@ export default function ResultsPackDetailPage({ user, packId }: DetailPageProps)
             </dl>
           </div>
 
+          {/* Translations */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-8">
+            <h2 className="text-xl font-semibold text-gray-900 mb-1">Translations</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              Each locale is edited and published separately. Unpublished locales fall back
+              (es-MX → es → default).
+            </p>
+            <ul className="divide-y divide-gray-100 mb-4">
+              {translations.map((translation) => (
+                <li key={translation.id} className="py-2 flex items-center justify-between text-sm">
+                  {translation.id === resultsPack.id ? (
+                    <span className="font-medium text-gray-900">
+                      {translation.locale || 'default'} (this pack)
+                    </span>
+                  ) : (
+                    <Link
+                      href={`/admin/results-packs/${translation.id}`}
+                      className="text-blue-600 hover:text-blue-800 underline"
+                    >
+                      {translation.locale || 'default'}
+                    </Link>
+                  )}
+                  {translation.publishedRevisionId ? (
+                    <span className="text-green-600">Published</span>
+                  ) : (
+                    <span className="text-gray-400">Not published</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={newLocale}
+                onChange={(e) => setNewLocale(e.target.value)}
+                placeholder="Locale, e.g. es or es-MX"
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500"
+              />
+              <button
+                onClick={handleAddTranslation}
+                disabled={!newLocale.trim() || actionLoading.has('translation')}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {actionLoading.has('translation') ? 'Creating...' : 'Add translation'}
+              </button>
+            </div>
+          </div>
+
           {/* Pointers */}
           <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-8">
             <h2 className="text-xl font-semibold text-gray-900 mb-4">Pointers</h2>
@@ -314,6 +554,157 @@ export default function ResultsPackDetailPage({ user, packId }: DetailPageProps)
             </dl>
           </div>
 
+          {/* Experiments */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-8">
+            <h2 className="text-xl font-semibold text-gray-900 mb-1">Experiments</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              Split traffic between the published revision and another revision. Each session
+              always sees the same variant.
+            </p>
+            {experiments.length === 0 ? (
+              <p className="text-gray-600 text-sm mb-4">No experiments yet.</p>
+            ) : (
+              <ul className="divide-y divide-gray-100 mb-4">
+                {experiments.map((experiment) => (
+                  <li key={experiment.id} className="py-2 flex items-center justify-between text-sm">
+                    <Link
+                      href={`/admin/results-packs/${packId}/experiments/${experiment.id}`}
+                      className="text-blue-600 hover:text-blue-800 underline"
+                    >
+                      {experiment.name}
+                    </Link>
+                    <span className="text-gray-600">
+                      {experiment.variants.map((variant) => `${variant.variantId} ${variant.weight}`).join(' / ')}
+                      <span
+                        className={`ml-3 px-2 py-1 text-xs font-medium rounded ${
+                          experiment.status === 'running'
+                            ? 'bg-green-100 text-green-800'
+                            : 'bg-gray-100 text-gray-800'
+                        }`}
+                      >
+                        {experiment.status}
+                      </span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {user.role === 'admin' && (
+              <div className="flex flex-wrap items-center gap-2">
+                <input
+                  type="text"
+                  value={experimentName}
+                  onChange={(e) => setExperimentName(e.target.value)}
+                  placeholder="Experiment name"
+                  className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500"
+                />
+                <select
+                  value={experimentRevisionId}
+                  onChange={(e) => setExperimentRevisionId(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="">Variant B revision...</option>
+                  {revisions
+                    .filter((revision) => revision.id !== pointers?.publishedRevisionId)
+                    .map((revision) => (
+                      <option key={revision.id} value={revision.id}>
+                        #{revision.revisionNumber} {revision.changeSummary ? `– ${revision.changeSummary}` : ''}
+                      </option>
+                    ))}
+                </select>
+                <label className="text-sm text-gray-600 flex items-center gap-1">
+                  B traffic
+                  <input
+                    type="number"
+                    min={1}
+                    max={99}
+                    value={experimentSplit}
+                    onChange={(e) => setExperimentSplit(Math.min(99, Math.max(1, Number(e.target.value) || 1)))}
+                    className="w-16 px-2 py-2 border border-gray-300 rounded-md text-sm"
+                  />
+                  %
+                </label>
+                <button
+                  onClick={handleCreateExperiment}
+                  disabled={
+                    !experimentName.trim() ||
+                    !experimentRevisionId ||
+                    !pointers?.publishedRevisionId ||
+                    actionLoading.has('experiment')
+                  }
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  {actionLoading.has('experiment') ? 'Creating...' : 'Create experiment'}
+                </button>
+              </div>
+            )}
+          </div>
+
+          {/* Revision Review */}
+          {review && (
+            <RevisionDiffPanel
+              revisionNumber={review.revisionNumber}
+              compareToNumber={review.compareToNumber}
+              groups={review.groups}
+              onClose={() => setReview(null)}
+            >
+              {user.role === 'admin' &&
+                pointers?.publishedRevisionId !== review.revisionId &&
+                openReviewByRevision[review.revisionId]?.status === 'approved' && (
+                <button
+                  onClick={async () => {
+                    if (await handlePublish(review.revisionId)) {
+                      setReview(null);
+                    }
+                  }}
+                  disabled={actionLoading.has(`publish-${review.revisionId}`)}
+                  className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors font-medium"
+                >
+                  {actionLoading.has(`publish-${review.revisionId}`) ? 'Publishing...' : `Publish Revision #${review.revisionNumber}`}
+                </button>
+              )}
+              {pointers?.publishedRevisionId !== review.revisionId &&
+                openReviewByRevision[review.revisionId]?.status !== 'approved' && (
+                  <p className="text-sm text-gray-600">
+                    {openReviewByRevision[review.revisionId]
+                      ? 'Waiting for approval in Publish Review before it can be published.'
+                      : 'Submit this revision in Publish Review; it can be published once another user approves it.'}
+                  </p>
+                )}
+            </RevisionDiffPanel>
+          )}
+
+          {/* Publish Review */}
+          <PublishReviewPanel
+            user={user}
+            entityType="results_pack"
+            entityId={packId}
+            revisions={revisions}
+            publishedRevisionId={pointers?.publishedRevisionId || null}
+            reviews={publishReviews}
+            minimumApprovals={minimumApprovals}
+            onChanged={async (message) => {
+              setSuccessMessage(message);
+              await fetchData();
+              setTimeout(() => setSuccessMessage(null), 5000);
+            }}
+          />
+
+          {/* Published History */}
+          <PointerHistoryPanel
+            user={user}
+            entityType="results_pack"
+            entityId={packId}
+            revisions={revisions}
+            history={pointerHistory}
+            rollbackTargetId={rollbackTargetId}
+            onChanged={async (message) => {
+              setSuccessMessage(message);
+              await fetchData();
+              setTimeout(() => setSuccessMessage(null), 5000);
+            }}
+          />
+
           {/* Revisions */}
           <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
             <div className="flex items-center justify-between mb-4">
@@ -354,7 +745,10 @@ export default function ResultsPackDetailPage({ user, packId }: DetailPageProps)
                       const status = getRevisionStatus(revision);
                       const isPublished = status === 'published';
                       const isPreview = status === 'preview';
-                      const isLoading = actionLoading.has(`preview-${revision.id}`) || actionLoading.has(`publish-${revision.id}`);
+                      const isLoading =
+                        actionLoading.has(`preview-${revision.id}`) ||
+                        actionLoading.has(`publish-${revision.id}`) ||
+                        actionLoading.has(`review-${revision.id}`);
 
                       return (
                         <tr key={revision.id} className="hover:bg-gray-50">
@@ -375,6 +769,15 @@ export default function ResultsPackDetailPage({ user, packId }: DetailPageProps)
                                 {revision.status}
                               </span>
                             )}
+                            {openReviewByRevision[revision.id] && (
+                              <span
+                                className={`ml-2 px-2 py-1 text-xs font-medium rounded ${
+                                  openReviewByRevision[revision.id].status === 'approved' ? 'bg-green-50 text-green-700' : 'bg-yellow-50 text-yellow-700'
+                                }`}
+                              >
+                                {openReviewByRevision[revision.id].status === 'approved' ? 'Approved' : 'In Review'}
+                              </span>
+                            )}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
                             {new Date(revision.createdAt).toLocaleString('en-US')}
@@ -392,15 +795,23 @@ export default function ResultsPackDetailPage({ user, packId }: DetailPageProps)
                                 Set Preview
                               </button>
                             )}
-                            {!isPublished && user.role === 'admin' && (
+                            {!isPublished && (
                               <button
-                                onClick={() => handlePublish(revision.id)}
+                                onClick={() => handleReview(revision)}
                                 disabled={isLoading}
-                                className="text-green-600 hover:text-green-900 disabled:text-gray-400 disabled:cursor-not-allowed"
+                                className={`${
+                                  user.role === 'admin' ? 'text-green-600 hover:text-green-900' : 'text-gray-600 hover:text-gray-900'
+                                } disabled:text-gray-400 disabled:cursor-not-allowed`}
                               >
-                                Publish
+                                {user.role === 'admin' ? 'Review & Publish' : 'Changes'}
                               </button>
                             )}
+                            <Link
+                              href={`/admin/results-packs/${packId}/email/${revision.id}`}
+                              className="text-gray-600 hover:text-gray-900"
+                            >
+                              Email
+                            </Link>
                             <Link
                               href={`/admin/results-packs/edit/${revision.id}`}
                               className="text-gray-600 hover:text-gray-900"
@@ -0,0 +1,126 @@
+/**
+ * Admin Page: Results Email Preview
+ *
+ * HTML and plain-text preview of the results email for a saved revision, rendered with
+ * sample recipient data. Requires editor or admin role.
+ */
+
+import { GetServerSideProps } from 'next';
+import Head from 'next/head';
+import Link from 'next/link';
+import { useState, useEffect } from 'react';
+import { getCurrentUserWithRoleFromSSR, AuthenticatedUser } from '@/lib/authServer';
+import type { ResultsEmailPreview } from '@/lib/email/resultsEmail';
+import { EmailPreviewPanel } from '@/components/admin/EmailPreviewPanel';
+
+interface EmailPreviewPageProps {
+  user: AuthenticatedUser | null;
+  packId: string;
+  revisionId: string;
+}
+
+export default function ResultsEmailPreviewPage({ user, packId, revisionId }: EmailPreviewPageProps) {
+  const [data, setData] = useState<ResultsEmailPreview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user || !packId || !revisionId) return;
+
+    async function loadPreview() {
+      try {
+        setLoading(true);
+        setError(null);
+        const response = await fetch(
+          `/api/admin/results-packs/${packId}/email-preview?revisionId=${encodeURIComponent(revisionId)}`
+        );
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to render email preview');
+        }
+        setData(result as ResultsEmailPreview);
+      } catch (err) {
+        console.error('Error loading email preview:', err);
+        setError(err instanceof Error ? err.message : 'Failed to render email preview');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    loadPreview();
+  }, [user, packId, revisionId]);
+
+  // Defensive check for unauthorized users
+  if (!user || (user.role !== 'editor' && user.role !== 'admin')) {
+    return (
+      <>
+        <Head>
+          <title>Results Email Preview • Fine Diet Admin</title>
+        </Head>
+        <main className="min-h-screen bg-gray-100 flex items-center justify-center px-4">
+          <div className="max-w-md w-full text-center">
+            <h1 className="text-3xl font-bold text-gray-900 mb-4">Admin</h1>
+            <p className="text-lg text-gray-600 mb-8">
+              You don't have permission to access this area.
+            </p>
+            <Link
+              href="/"
+              className="inline-block px-6 py-3 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors font-medium"
+            >
+              Return to Home
+            </Link>
+          </div>
+        </main>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Results Email Preview • Fine Diet Admin</title>
+      </Head>
+      <div className="min-h-screen bg-gray-100 pt-[100px] pb-10">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-10">
+          {/* Header */}
+          <div className="mb-8">
+            <Link
+              href={`/admin/results-packs/${packId}`}
+              className="text-sm text-gray-600 hover:text-gray-900 mb-4 inline-block"
+            >
+              ← Back to Results Pack
+            </Link>
+            <h1 className="text-4xl font-bold text-gray-900 mb-2">Results Email Preview</h1>
+            <p className="text-lg text-gray-600">
+              Sample recipient; edit the revision to change the template.
+            </p>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-8">
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          )}
+
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8">
+            {loading ? (
+              <p className="text-gray-600">Loading preview...</p>
+            ) : data ? (
+              <EmailPreviewPanel data={data} />
+            ) : null}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
+
+export const getServerSideProps: GetServerSideProps<EmailPreviewPageProps> = async (context) => {
+  const user = await getCurrentUserWithRoleFromSSR(context);
+  if (!user || (user.role !== 'editor' && user.role !== 'admin')) {
+    return { props: { user: null, packId: '', revisionId: '' } };
+  }
+  const packId = context.params?.packId as string;
+  const revisionId = context.params?.revisionId as string;
+  return { props: { user, packId, revisionId } };
+};
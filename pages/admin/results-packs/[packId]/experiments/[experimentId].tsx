@@ -0,0 +1,310 @@
+/**
+ * Admin Page: Results Pack Experiment Report
+ *
+ * Per-variant sessions and email capture / PDF download / method CTA click rates,
+ * with lift and a two-proportion z-test p-value against the control.
+ * Admins can start and stop the experiment.
+ * Requires editor or admin role.
+ */
+
+import { GetServerSideProps } from 'next';
+import Head from 'next/head';
+import Link from 'next/link';
+import { useState, useEffect } from 'react';
+import { getCurrentUserWithRoleFromSSR, AuthenticatedUser } from '@/lib/authServer';
+import type { ExperimentItem } from '@/lib/resultsPack/experiments';
+import {
+  SIGNIFICANCE_LEVEL,
+  type ExperimentMetric,
+  type ExperimentReport,
+  type MetricResult,
+} from '@/lib/admin/assessments/experimentReport';
+
+interface ExperimentPageProps {
+  user: AuthenticatedUser | null;
+  packId: string;
+  experimentId: string;
+}
+
+const METRIC_LABELS: Record<ExperimentMetric, string> = {
+  emailCapture: 'Email capture',
+  pdfDownload: 'PDF download',
+  methodCtaClick: 'Method CTA click',
+};
+
+function formatPercent(value: number | null): string {
+  return value === null ? '—' : `${(value * 100).toFixed(1)}%`;
+}
+
+function MetricCell({ result }: { result: MetricResult }) {
+  const comparison = result.vsControl;
+  return (
+    <td className="px-4 py-3 text-sm text-gray-900 align-top">
+      <div className="font-medium">
+        {formatPercent(result.rate)} <span className="text-gray-500 font-normal">({result.conversions})</span>
+      </div>
+      {comparison && (
+        <div className="text-xs text-gray-600 mt-1">
+          Lift {comparison.lift === null ? '—' : `${comparison.lift >= 0 ? '+' : ''}${formatPercent(comparison.lift)}`}
+          {' · '}p = {comparison.pValue === null ? '—' : comparison.pValue.toFixed(3)}
+          {comparison.significant && (
+            <span className="ml-2 px-1.5 py-0.5 font-medium bg-green-100 text-green-800 rounded">significant</span>
+          )}
+        </div>
+      )}
+    </td>
+  );
+}
+
+export default function ExperimentReportPage({ user, packId, experimentId }: ExperimentPageProps) {
+  const [experiment, setExperiment] = useState<ExperimentItem | null>(null);
+  const [report, setReport] = useState<ExperimentReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [actionLoading, setActionLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Defensive check for unauthorized users
+  if (!user || (user.role !== 'editor' && user.role !== 'admin')) {
+    return (
+      <>
+        <Head>
+          <title>Experiment • Fine Diet Admin</title>
+        </Head>
+        <main className="min-h-screen bg-gray-100 flex items-center justify-center px-4">
+          <div className="max-w-md w-full text-center">
+            <h1 className="text-3xl font-bold text-gray-900 mb-4">Admin</h1>
+            <p className="text-lg text-gray-600 mb-8">
+              You don't have permission to access this area.
+            </p>
+            <Link
+              href="/"
+              className="inline-block px-6 py-3 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors font-medium"
+            >
+              Return to Home
+            </Link>
+          </div>
+        </main>
+      </>
+    );
+  }
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch(`/api/admin/results-packs/${packId}/experiments/${experimentId}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch experiment');
+      }
+
+      setExperiment(data.experiment);
+      setReport(data.report);
+    } catch (err) {
+      console.error('Error fetching experiment:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load experiment');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (packId && experimentId) {
+      fetchData();
+    }
+  }, [packId, experimentId]);
+
+  const handleAction = async (action: 'start' | 'stop') => {
+    const message =
+      action === 'start'
+        ? 'Start this experiment? New results sessions will be split between the variants.'
+        : 'Stop this experiment? New sessions will get the published revision; existing sessions keep their variant.';
+    if (!confirm(message)) {
+      return;
+    }
+
+    try {
+      setActionLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/admin/results-packs/${packId}/experiments/${experimentId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to ${action} experiment`);
+      }
+
+      await fetchData();
+    } catch (err) {
+      console.error(`Error trying to ${action} experiment:`, err);
+      setError(err instanceof Error ? err.message : `Failed to ${action} experiment`);
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const metrics = Object.keys(METRIC_LABELS) as ExperimentMetric[];
+
+  return (
+    <>
+      <Head>
+        <title>Experiment • Fine Diet Admin</title>
+      </Head>
+      <div className="min-h-screen bg-gray-100 pt-[100px] pb-10">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-10">
+          {/* Header */}
+          <div className="mb-8">
+            <Link
+              href={`/admin/results-packs/${packId}`}
+              className="text-sm text-gray-600 hover:text-gray-900 mb-4 inline-block"
+            >
+              ← Back to Results Pack
+            </Link>
+            <div className="flex items-center justify-between">
+              <h1 className="text-4xl font-bold text-gray-900 mb-2">{experiment?.name || 'Experiment'}</h1>
+              {experiment && user.role === 'admin' && (
+                <div className="space-x-3">
+                  {experiment.status === 'draft' && (
+                    <button
+                      onClick={() => handleAction('start')}
+                      disabled={actionLoading}
+                      className="px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700 disabled:opacity-50 transition-colors"
+                    >
+                      Start experiment
+                    </button>
+                  )}
+                  {experiment.status === 'running' && (
+                    <button
+                      onClick={() => handleAction('stop')}
+                      disabled={actionLoading}
+                      className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-50 transition-colors"
+                    >
+                      Stop experiment
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Error Message */}
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-8">
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          )}
+
+          {loading && !experiment ? (
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center">
+              <p className="text-gray-600">Loading experiment...</p>
+            </div>
+          ) : experiment && report ? (
+            <>
+              {/* Status */}
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-8">
+                <dl className="grid grid-cols-1 gap-4 sm:grid-cols-4">
+                  <div>
+                    <dt className="text-sm font-medium text-gray-500">Status</dt>
+                    <dd className="mt-1 text-sm text-gray-900">{experiment.status}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-sm font-medium text-gray-500">Started</dt>
+                    <dd className="mt-1 text-sm text-gray-900">
+                      {experiment.startedAt ? new Date(experiment.startedAt).toLocaleString('en-US') : '—'}
+                    </dd>
+                  </div>
+                  <div>
+                    <dt className="text-sm font-medium text-gray-500">Stopped</dt>
+                    <dd className="mt-1 text-sm text-gray-900">
+                      {experiment.stoppedAt ? new Date(experiment.stoppedAt).toLocaleString('en-US') : '—'}
+                    </dd>
+                  </div>
+                  <div>
+                    <dt className="text-sm font-medium text-gray-500">Sessions</dt>
+                    <dd className="mt-1 text-sm text-gray-900">{report.totalSessions}</dd>
+                  </div>
+                </dl>
+              </div>
+
+              {/* Report */}
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <h2 className="text-xl font-semibold text-gray-900 mb-1">Conversion by variant</h2>
+                <p className="text-sm text-gray-600 mb-4">
+                  Each session is counted once per metric. Variants are compared with the control
+                  ({report.controlVariantId}) using a two-proportion z-test; “significant” means
+                  p &lt; {SIGNIFICANCE_LEVEL}.
+                </p>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Variant
+                        </th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Weight
+                        </th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Sessions
+                        </th>
+                        {metrics.map((metric) => (
+                          <th
+                            key={metric}
+                            className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                          >
+                            {METRIC_LABELS[metric]}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {report.variants.map((variant) => (
+                        <tr key={variant.variantId}>
+                          <td className="px-4 py-3 text-sm font-medium text-gray-900 align-top">
+                            {variant.variantId}
+                            <div className="text-xs text-gray-500 font-normal">
+                              {variant.revisionId ? (
+                                <Link
+                                  href={`/admin/results-packs/edit/${variant.revisionId}`}
+                                  className="underline hover:text-gray-700"
+                                >
+                                  revision
+                                </Link>
+                              ) : (
+                                'published revision'
+                              )}
+                            </div>
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-600 align-top">{variant.weight}</td>
+                          <td className="px-4 py-3 text-sm text-gray-900 align-top">{variant.sessions}</td>
+                          {metrics.map((metric) => (
+                            <MetricCell key={metric} result={variant.metrics[metric]} />
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </>
+          ) : null}
+        </div>
+      </div>
+    </>
+  );
+}
+
+export const getServerSideProps: GetServerSideProps<ExperimentPageProps> = async (context) => {
+  const user = await getCurrentUserWithRoleFromSSR(context);
+  if (!user || (user.role !== 'editor' && user.role !== 'admin')) {
+    return { props: { user: null, packId: '', experimentId: '' } };
+  }
+  const packId = context.params?.packId as string;
+  const experimentId = context.params?.experimentId as string;
+  return { props: { user, packId, experimentId } };
+};
@@ -12,7 +12,9 @@ import Link from 'next/link';
 import { useRouter } from 'next/router';
 import { useState } from 'react';
 import { getCurrentUserWithRoleFromSSR, AuthenticatedUser } from '@/lib/authServer';
-import type { ResultsPack, FlowPage1, FlowPage2, FlowPage3 } from '@/lib/assessments/results/loadResultsPack';
+import type { ResultsPack, FlowPage1, FlowPage2, FlowPage3, EmailTemplateConfig } from '@/lib/assessments/results/loadResultsPack';
+import { DEFAULT_RESULTS_EMAIL_TEMPLATE, type ResultsEmailPreview } from '@/lib/email/resultsEmail';
+import { EmailPreviewPanel } from '@/components/admin/EmailPreviewPanel';
 
 interface EditPageProps {
   user: AuthenticatedUser | null;
@@ -21,6 +23,7 @@ interface EditPageProps {
     assessmentType: string;
     resultsVersion: string;
     levelId: string;
+    locale: string | null;
   } | null;
   initialFormData: ResultsPack | null;
   revisionId: string;
@@ -104,6 +107,8 @@ export default function ResultsPackEditPage({ user, packId, packInfo, initialFor
   );
   const [flowData, setFlowData] = useState(getInitialFlow());
   const [changeSummary, setChangeSummary] = useState('');
+  const [emailPreview, setEmailPreview] = useState<ResultsEmailPreview | null>(null);
+  const [emailPreviewLoading, setEmailPreviewLoading] = useState(false);
 
   // Defensive check for unauthorized users
   if (!user || (user.role !== 'editor' && user.role !== 'admin')) {
@@ -178,6 +183,38 @@ export default function ResultsPackEditPage({ user, packId, packInfo, initialFor
     }
   };
 
+  // Render the email from the unsaved form (same content as Save would store)
+  const handleEmailPreview = async () => {
+    setEmailPreviewLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/results-packs/${packId}/email-preview`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          content_json: { ...formData, flow: { page1: flowData.page1, page2: flowData.page2, page3: flowData.page3 } },
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to render email preview');
+      }
+      setEmailPreview(data as ResultsEmailPreview);
+    } catch (err) {
+      console.error('Error rendering email preview:', err);
+      setError(err instanceof Error ? err.message : 'Failed to render email preview');
+    } finally {
+      setEmailPreviewLoading(false);
+    }
+  };
+
+  const updateEmailField = (field: keyof EmailTemplateConfig, value: string) => {
+    const current = formData.email || DEFAULT_RESULTS_EMAIL_TEMPLATE;
+    setFormData({ ...formData, email: { ...current, [field]: value } });
+  };
+
+  const emailChannelEnabled = formData.channels?.email?.enabled !== false;
+
   // Helper functions for flow arrays
   const updateFlowArray = (page: 'page1' | 'page2' | 'page3', field: string, index: number, value: string) => {
     const currentPage = flowData[page] || (page === 'page1' ? getDefaultPage1() : page === 'page2' ? getDefaultPage2() : getDefaultPage3());
@@ -281,6 +318,7 @@ export default function ResultsPackEditPage({ user, packId, packInfo, initialFor
             {packInfo && (
               <p className="text-lg text-gray-600">
                 {packInfo.assessmentType} v{packInfo.resultsVersion} • {packInfo.levelId}
+                {packInfo.locale && ` • ${packInfo.locale}`}
               </p>
             )}
           </div>
@@ -813,6 +851,102 @@ export default function ResultsPackEditPage({ user, packId, packInfo, initialFor
               </div>
             </div>
 
+            {/* Results Email */}
+            <div className="border-t border-gray-200 pt-8">
+              <h2 className="text-2xl font-bold text-gray-900 mb-4">Results Email</h2>
+              <div className="space-y-4">
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={emailChannelEnabled}
+                    onChange={(e) =>
+                      setFormData({
+                        ...formData,
+                        channels: { ...(formData.channels || {}), email: { enabled: e.target.checked } },
+                      })
+                    }
+                  />
+                  Send the results email for this pack
+                </label>
+
+                {!formData.email ? (
+                  <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
+                    <p className="text-sm text-gray-600">Using the default template.</p>
+                    <button
+                      type="button"
+                      onClick={() => setFormData({ ...formData, email: { ...DEFAULT_RESULTS_EMAIL_TEMPLATE } })}
+                      className="px-4 py-2 text-sm text-blue-600 hover:text-blue-800 border border-blue-300 rounded-md"
+                    >
+                      Customize Template
+                    </button>
+                  </div>
+                ) : (
+                  <div className="p-6 bg-gray-50 rounded-lg space-y-4">
+                    <p className="text-xs text-gray-500">
+                      Use {'{{variable}}'} placeholders; Preview Email lists them. The HTML is the email body, the branded layout is added when sending.
+                    </p>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Subject *</label>
+                      <input
+                        type="text"
+                        value={formData.email.subject}
+                        onChange={(e) => updateEmailField('subject', e.target.value)}
+                        required
+                        className="w-full px-3 py-2 text-gray-900 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Preheader</label>
+                      <input
+                        type="text"
+                        value={formData.email.preheader || ''}
+                        onChange={(e) => updateEmailField('preheader', e.target.value)}
+                        className="w-full px-3 py-2 text-gray-900 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">HTML Body *</label>
+                      <textarea
+                        value={formData.email.html}
+                        onChange={(e) => updateEmailField('html', e.target.value)}
+                        required
+                        rows={10}
+                        className="w-full px-3 py-2 font-mono text-sm text-gray-900 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Plain Text Body *</label>
+                      <textarea
+                        value={formData.email.text}
+                        onChange={(e) => updateEmailField('text', e.target.value)}
+                        required
+                        rows={10}
+                        className="w-full px-3 py-2 font-mono text-sm text-gray-900 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      />
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => setFormData({ ...formData, email: undefined })}
+                      className="text-sm text-red-600 hover:text-red-800"
+                    >
+                      Revert to Default Template
+                    </button>
+                  </div>
+                )}
+
+                <button
+                  type="button"
+                  onClick={handleEmailPreview}
+                  disabled={emailPreviewLoading}
+                  className="px-4 py-2 text-sm text-blue-600 hover:text-blue-800 border border-blue-300 rounded-md disabled:opacity-50"
+                >
+                  {emailPreviewLoading ? 'Rendering...' : 'Preview Email'}
+                </button>
+
+                {emailPreview && <EmailPreviewPanel data={emailPreview} />}
+              </div>
+            </div>
+
             {/* Legacy Fields (Collapsible) */}
             <div className="border-t border-gray-200 pt-8">
               <button
@@ -983,14 +1117,14 @@ export const getServerSideProps: GetServerSideProps<EditPageProps> = async (cont
       .single();
 
     let packId = '';
-    let packInfo: { assessmentType: string; resultsVersion: string; levelId: string } | null = null;
+    let packInfo: { assessmentType: string; resultsVersion: string; levelId: string; locale: string | null } | null = null;
     let initialFormData: ResultsPack | null = null;
 
     if (revError || !rev) {
       // If revision not found, try to get pack info (if revisionId is actually packId)
       const { data: pack, error: packError } = await supabaseAdmin
         .from('results_packs')
-        .select('id, assessment_type, results_version, level_id')
+        .select('id, assessment_type, results_version, level_id, locale')
         .eq('id', revisionId)
         .single();
 
@@ -1004,6 +1138,7 @@ export const getServerSideProps: GetServerSideProps<EditPageProps> = async (cont
         assessmentType: pack.assessment_type,
         resultsVersion: pack.results_version,
         levelId: pack.level_id,
+        locale: pack.locale ?? null,
       };
       // initialFormData stays null (empty form)
     } else {
@@ -1014,7 +1149,7 @@ export const getServerSideProps: GetServerSideProps<EditPageProps> = async (cont
       // Get pack info
       const { data: pack, error: packError } = await supabaseAdmin
         .from('results_packs')
-        .select('assessment_type, results_version, level_id')
+        .select('assessment_type, results_version, level_id, locale')
         .eq('id', rev.pack_id)
         .single();
 
@@ -1023,6 +1158,7 @@ export const getServerSideProps: GetServerSideProps<EditPageProps> = async (cont
           assessmentType: pack.assessment_type,
           resultsVersion: pack.results_version,
           levelId: pack.level_id,
+          locale: pack.locale ?? null,
         };
       }
     }
@@ -16,6 +16,7 @@ interface ResultsPackListItem {
   assessmentType: string;
   resultsVersion: string;
   levelId: string;
+  locale: string | null;
   published: {
     revisionId: string;
     revisionNumber: number;
@@ -162,6 +163,9 @@ export default function ResultsPacksList({ user }: ListPageProps) {
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                           Level
                         </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Locale
+                        </th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                           Published Revision
                         </th>
@@ -188,6 +192,9 @@ export default function ResultsPacksList({ user }: ListPageProps) {
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
                             {pack.levelId}
                           </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                            {pack.locale || <span className="text-gray-400">default</span>}
+                          </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
                             {pack.published ? (
                               <span className="font-medium">#{pack.published.revisionNumber}</span>
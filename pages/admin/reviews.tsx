@@ -0,0 +1,176 @@
+/**
+ * Admin Page: Publish Reviews
+ *
+ * Review queue: question set and results pack revisions waiting for approval or for an admin
+ * to publish them, oldest first. Reviewing happens on the set / pack page (Publish Review panel).
+ * Requires editor or admin role.
+ */
+
+import { GetServerSideProps } from 'next';
+import Head from 'next/head';
+import Link from 'next/link';
+import { useState, useEffect } from 'react';
+import { getCurrentUserWithRoleFromSSR, type AuthenticatedUser } from '@/lib/authServer';
+import type { PublishReviewDetail } from '@/lib/publishReview/reviews';
+
+interface ReviewsPageProps {
+  user: AuthenticatedUser | null;
+}
+
+const ENTITY_PAGES: Record<string, { label: string; path: string }> = {
+  question_set: { label: 'Question set', path: '/admin/question-sets' },
+  results_pack: { label: 'Results pack', path: '/admin/results-packs' },
+};
+
+const formatTimestamp = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+export default function ReviewsPage({ user }: ReviewsPageProps) {
+  const [reviews, setReviews] = useState<PublishReviewDetail[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    const load = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch('/api/admin/publish-reviews');
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load reviews');
+        }
+        setReviews(data.reviews || []);
+      } catch (err) {
+        console.error('Error loading publish reviews:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load reviews');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [user]);
+
+  if (!user || (user.role !== 'editor' && user.role !== 'admin')) {
+    return (
+      <>
+        <Head>
+          <title>Publish Reviews • Fine Diet</title>
+        </Head>
+        <main className="min-h-screen bg-gray-100 flex items-center justify-center px-4">
+          <div className="max-w-md w-full text-center">
+            <h1 className="text-3xl font-bold text-gray-900 mb-4">Access Denied</h1>
+            <p className="text-lg text-gray-600 mb-8">You don't have permission to access this page.</p>
+            <Link
+              href="/admin"
+              className="inline-block px-6 py-3 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors font-medium"
+            >
+              Return to Admin Dashboard
+            </Link>
+          </div>
+        </main>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Publish Reviews • Fine Diet Admin</title>
+      </Head>
+      <div className="min-h-screen bg-gray-100 pt-[100px] pb-10">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-10">
+          <div className="mb-6">
+            <Link href="/admin" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-4">
+              <svg className="mr-2 h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+              </svg>
+              Back to Admin Dashboard
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-900">Publish Reviews</h1>
+            <p className="mt-2 text-sm text-gray-600">
+              Question set and results pack revisions need approval from a user other than their author before an
+              admin can publish them.
+            </p>
+          </div>
+
+          {error && (
+            <div className="mb-6 bg-red-50 border border-red-200 rounded-md p-4 text-sm text-red-800">{error}</div>
+          )}
+
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+            {loading ? (
+              <p className="p-6 text-sm text-gray-500">Loading...</p>
+            ) : reviews.length === 0 ? (
+              <p className="p-6 text-sm text-gray-500">Nothing is waiting for review.</p>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Content</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Requested By</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Requested</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {reviews.map((review) => {
+                    const entity = ENTITY_PAGES[review.entity_type];
+                    const waitingOnUser = review.status === 'in_review' && review.requested_by !== user.id && review.revision_created_by !== user.id;
+                    return (
+                      <tr key={review.id} className="hover:bg-gray-50">
+                        <td className="px-4 py-3 text-sm">
+                          <Link href={`${entity.path}/${review.entity_id}`} className="text-blue-600 hover:underline">
+                            {entity.label} revision #{review.revision_number ?? '?'}
+                          </Link>
+                        </td>
+                        <td className="px-4 py-3 text-sm">
+                          {review.status === 'approved' ? (
+                            <span className="px-2 py-0.5 text-xs font-medium rounded bg-green-100 text-green-800">
+                              Approved, ready to publish
+                            </span>
+                          ) : (
+                            <span className="px-2 py-0.5 text-xs font-medium rounded bg-yellow-100 text-yellow-800">
+                              In review ({review.approvals}/{review.required_approvals})
+                            </span>
+                          )}
+                          {waitingOnUser && <span className="ml-2 text-xs text-gray-500">You can review</span>}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-700">{review.requested_by_email || '-'}</td>
+                        <td className="px-4 py-3 text-sm text-gray-700">{formatTimestamp(review.created_at)}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
+
+export const getServerSideProps: GetServerSideProps<ReviewsPageProps> = async (context) => {
+  const user = await getCurrentUserWithRoleFromSSR(context);
+
+  if (!user || (user.role !== 'editor' && user.role !== 'admin')) {
+    return {
+      props: {
+        user: null,
+      },
+    };
+  }
+
+  return {
+    props: {
+      user,
+    },
+  };
+};
@@ -0,0 +1,419 @@
+/**
+ * Admin Page: Site Content Revision History
+ *
+ * /admin/site-content/history?key=home@es
+ *
+ * Revisions of one site_content key (newest first) with author, change summary and a diff
+ * against the previous revision. Any revision can be published now (an older one is a
+ * rollback) or scheduled; pending schedules can be cancelled. Publishing revalidates the pages
+ * that render the key.
+ * Requires editor or admin role (SEO and config keys: admin to publish).
+ */
+
+import { GetServerSideProps } from 'next';
+import Head from 'next/head';
+import Link from 'next/link';
+import { useState, useEffect } from 'react';
+import { getCurrentUserWithRoleFromSSR, type AuthenticatedUser } from '@/lib/authServer';
+import type { SiteContentHistory, SiteContentRevisionSummary } from '@/lib/siteContent/revisions';
+import { publishRolesForContentKey } from '@/lib/siteContent/siteContentKeys';
+import type { ContentChange } from '@/lib/contentDiff';
+import { ContentDiffList } from '@/components/admin/ContentDiffList';
+
+interface SiteContentHistoryProps {
+  user: AuthenticatedUser | null;
+  contentKey: string;
+}
+
+interface RevisionDiff {
+  compareTo: { id: string; revisionNumber: number } | null;
+  changes: ContentChange[];
+  showAll: boolean;
+}
+
+const formatTimestamp = (timestamp: string | null) => {
+  if (!timestamp) return '-';
+  return new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+const SCHEDULE_STATUS_STYLES: Record<string, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  published: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-600',
+  failed: 'bg-red-100 text-red-800',
+};
+
+export default function SiteContentHistoryPage({ user, contentKey }: SiteContentHistoryProps) {
+  const [history, setHistory] = useState<SiteContentHistory | null>(null);
+  const [diffs, setDiffs] = useState<Record<string, RevisionDiff>>({});
+  const [scheduleFor, setScheduleFor] = useState<string | null>(null);
+  const [scheduleAt, setScheduleAt] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    if (!user || !contentKey) return;
+    const load = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/admin/site-content/history?key=${encodeURIComponent(contentKey)}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load history');
+        }
+        setHistory(data.history);
+      } catch (err) {
+        console.error('Error loading site content history:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load history');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [user, contentKey, refreshKey]);
+
+  const request = async (url: string, method: string, body?: unknown) => {
+    const response = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      ...(body ? { body: JSON.stringify(body) } : {}),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Request failed');
+    }
+    return data;
+  };
+
+  const toggleDiff = async (revision: SiteContentRevisionSummary) => {
+    if (diffs[revision.id]) {
+      const next = { ...diffs };
+      delete next[revision.id];
+      setDiffs(next);
+      return;
+    }
+    try {
+      setError(null);
+      const data = await request(`/api/admin/site-content/revisions/${revision.id}`, 'GET');
+      setDiffs({ ...diffs, [revision.id]: { compareTo: data.compareTo, changes: data.changes, showAll: false } });
+    } catch (err) {
+      console.error('Error loading revision diff:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load changes');
+    }
+  };
+
+  const handlePublish = async (revision: SiteContentRevisionSummary, isRollback: boolean) => {
+    const verb = isRollback ? `Roll back to revision ${revision.revision_number}` : `Publish revision ${revision.revision_number}`;
+    if (!confirm(`${verb}? It goes live immediately.`)) return;
+    try {
+      setBusy(true);
+      setError(null);
+      const data = await request('/api/admin/site-content/publish', 'POST', { revision_id: revision.id });
+      const paths = (data.revalidated || []) as string[];
+      setMessage(
+        `${isRollback ? 'Rolled back to' : 'Published'} revision ${revision.revision_number}.` +
+          (paths.length > 0 ? ` Revalidated ${paths.join(', ')}.` : '')
+      );
+      setRefreshKey((key) => key + 1);
+    } catch (err) {
+      console.error('Error publishing revision:', err);
+      setError(err instanceof Error ? err.message : 'Failed to publish revision');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSchedule = async (revision: SiteContentRevisionSummary) => {
+    const publishAt = new Date(scheduleAt);
+    if (!scheduleAt || isNaN(publishAt.getTime())) {
+      setError('Choose a date and time to publish.');
+      return;
+    }
+    try {
+      setBusy(true);
+      setError(null);
+      await request('/api/admin/site-content/schedules', 'POST', {
+        revision_id: revision.id,
+        publish_at: publishAt.toISOString(),
+      });
+      setMessage(`Revision ${revision.revision_number} will publish at ${formatTimestamp(publishAt.toISOString())}.`);
+      setScheduleFor(null);
+      setScheduleAt('');
+      setRefreshKey((key) => key + 1);
+    } catch (err) {
+      console.error('Error scheduling publish:', err);
+      setError(err instanceof Error ? err.message : 'Failed to schedule publish');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCancelSchedule = async (scheduleId: string) => {
+    if (!confirm('Cancel this scheduled publish?')) return;
+    try {
+      setBusy(true);
+      setError(null);
+      await request(`/api/admin/site-content/schedules?id=${encodeURIComponent(scheduleId)}`, 'DELETE');
+      setMessage('Scheduled publish cancelled.');
+      setRefreshKey((key) => key + 1);
+    } catch (err) {
+      console.error('Error cancelling schedule:', err);
+      setError(err instanceof Error ? err.message : 'Failed to cancel schedule');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!user || (user.role !== 'editor' && user.role !== 'admin')) {
+    return (
+      <>
+        <Head>
+          <title>Content History • Fine Diet</title>
+        </Head>
+        <main className="min-h-screen bg-gray-100 flex items-center justify-center px-4">
+          <div className="max-w-md w-full text-center">
+            <h1 className="text-3xl font-bold text-gray-900 mb-4">Access Denied</h1>
+            <p className="text-lg text-gray-600 mb-8">You don't have permission to access this page.</p>
+            <Link
+              href="/admin"
+              className="inline-block px-6 py-3 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors font-medium"
+            >
+              Return to Admin Dashboard
+            </Link>
+          </div>
+        </main>
+      </>
+    );
+  }
+
+  const canPublish = publishRolesForContentKey(contentKey).includes(user.role);
+  const revisions = history?.revisions || [];
+  const liveRevision = revisions.find((revision) => revision.id === history?.publishedRevisionId) || null;
+  const revisionNumbers: Record<string, number> = {};
+  revisions.forEach((revision) => {
+    revisionNumbers[revision.id] = revision.revision_number;
+  });
+
+  return (
+    <>
+      <Head>
+        <title>{contentKey} History • Fine Diet Admin</title>
+      </Head>
+      <div className="min-h-screen bg-gray-100 pt-[100px] pb-10">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-10">
+          <div className="mb-6">
+            <Link
+              href="/admin/site-content"
+              className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-4"
+            >
+              <svg className="mr-2 h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+              </svg>
+              Back to Content History
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-900 font-mono">{contentKey}</h1>
+            <p className="mt-2 text-sm text-gray-600">
+              {liveRevision ? `Live: revision ${liveRevision.revision_number}.` : 'The live content predates revision history.'}
+              {!canPublish && ' Publishing this key requires the admin role.'}
+            </p>
+          </div>
+
+          {error && (
+            <div className="mb-6 bg-red-50 border border-red-200 rounded-md p-4 text-sm text-red-800">{error}</div>
+          )}
+          {message && (
+            <div className="mb-6 bg-green-50 border border-green-200 rounded-md p-4 text-sm text-green-800">
+              {message}
+            </div>
+          )}
+
+          {/* Scheduled publishes */}
+          {history && history.schedules.length > 0 && (
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6">
+              <h2 className="text-xl font-semibold text-gray-900 mb-4">Scheduled Publishes</h2>
+              <ul className="divide-y divide-gray-100">
+                {history.schedules.map((schedule) => (
+                  <li key={schedule.id} className="py-2 flex items-center justify-between text-sm">
+                    <div className="flex items-center gap-3">
+                      <span
+                        className={`inline-flex px-2 py-0.5 rounded text-xs font-medium ${
+                          SCHEDULE_STATUS_STYLES[schedule.status] || SCHEDULE_STATUS_STYLES.pending
+                        }`}
+                      >
+                        {schedule.status}
+                      </span>
+                      <span className="text-gray-900">
+                        Revision {revisionNumbers[schedule.revision_id] ?? '?'} at {formatTimestamp(schedule.publish_at)}
+                      </span>
+                      {schedule.error && <span className="text-red-700">{schedule.error}</span>}
+                    </div>
+                    {schedule.status === 'pending' && canPublish && (
+                      <button
+                        type="button"
+                        onClick={() => handleCancelSchedule(schedule.id)}
+                        disabled={busy}
+                        className="text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+                      >
+                        Cancel
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Revisions */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">Revisions</h2>
+            {loading ? (
+              <p className="text-sm text-gray-500">Loading...</p>
+            ) : revisions.length === 0 ? (
+              <p className="text-sm text-gray-500">No revisions yet. The next save from an editor starts the history.</p>
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {revisions.map((revision) => {
+                  const isLive = revision.id === history?.publishedRevisionId;
+                  const isDraft = revision.id === history?.draftRevisionId;
+                  const isRollback = !!liveRevision && revision.revision_number < liveRevision.revision_number;
+                  const diff = diffs[revision.id];
+
+                  return (
+                    <li key={revision.id} className="py-4">
+                      <div className="flex items-start justify-between gap-4">
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <span className="font-semibold text-gray-900">Revision {revision.revision_number}</span>
+                            {isLive && (
+                              <span className="inline-flex px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-800">
+                                Live
+                              </span>
+                            )}
+                            {isDraft && !isLive && (
+                              <span className="inline-flex px-2 py-0.5 rounded text-xs font-medium bg-yellow-100 text-yellow-800">
+                                Draft
+                              </span>
+                            )}
+                          </div>
+                          <p className="text-sm text-gray-600">
+                            {formatTimestamp(revision.created_at)} by {revision.created_by_email || 'unknown'}
+                          </p>
+                          {revision.change_summary && (
+                            <p className="text-sm text-gray-800 mt-1">{revision.change_summary}</p>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-3 shrink-0">
+                          <button
+                            type="button"
+                            onClick={() => toggleDiff(revision)}
+                            className="text-sm text-blue-600 hover:underline"
+                          >
+                            {diff ? 'Hide changes' : 'Changes'}
+                          </button>
+                          {canPublish && !isLive && (
+                            <>
+                              <button
+                                type="button"
+                                onClick={() => handlePublish(revision, isRollback)}
+                                disabled={busy}
+                                className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                              >
+                                {isRollback ? 'Roll Back' : 'Publish'}
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => {
+                                  setScheduleFor(scheduleFor === revision.id ? null : revision.id);
+                                  setScheduleAt('');
+                                }}
+                                className="px-3 py-1 text-sm bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+                              >
+                                Schedule
+                              </button>
+                            </>
+                          )}
+                        </div>
+                      </div>
+
+                      {scheduleFor === revision.id && (
+                        <div className="mt-3 flex items-center gap-3">
+                          <input
+                            type="datetime-local"
+                            value={scheduleAt}
+                            onChange={(e) => setScheduleAt(e.target.value)}
+                            className="px-3 py-1 border border-gray-300 rounded-md text-sm"
+                          />
+                          <button
+                            type="button"
+                            onClick={() => handleSchedule(revision)}
+                            disabled={busy}
+                            className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                          >
+                            Schedule Publish
+                          </button>
+                          <span className="text-xs text-gray-500">Your local time; runs within 5 minutes of it.</span>
+                        </div>
+                      )}
+
+                      {diff && (
+                        <div className="mt-3">
+                          <p className="text-xs text-gray-500 mb-2">
+                            {diff.compareTo ? `Compared with revision ${diff.compareTo.revisionNumber}` : 'First revision'}
+                          </p>
+                          <ContentDiffList
+                            changes={diff.changes}
+                            showAll={diff.showAll}
+                            onShowAll={() => setDiffs({ ...diffs, [revision.id]: { ...diff, showAll: true } })}
+                          />
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
+
+export const getServerSideProps: GetServerSideProps<SiteContentHistoryProps> = async (context) => {
+  const user = await getCurrentUserWithRoleFromSSR(context);
+  const contentKey = typeof context.query.key === 'string' ? context.query.key : '';
+
+  if (!user || (user.role !== 'editor' && user.role !== 'admin')) {
+    return {
+      props: {
+        user: null,
+        contentKey,
+      },
+    };
+  }
+
+  if (!contentKey) {
+    return {
+      redirect: {
+        destination: '/admin/site-content',
+        permanent: false,
+      },
+    };
+  }
+
+  return {
+    props: {
+      user,
+      contentKey,
+    },
+  };
+};
@@ -0,0 +1,184 @@
+/**
+ * Admin Page: Content History
+ *
+ * Lists every site_content key (navigation, home, products, SEO, config, and their locales)
+ * with its last publish, unpublished drafts and the next scheduled publish. Each key links to
+ * its revision history (/admin/site-content/history?key=...).
+ * Requires editor or admin role.
+ */
+
+import { GetServerSideProps } from 'next';
+import Head from 'next/head';
+import Link from 'next/link';
+import { useState, useEffect } from 'react';
+import { getCurrentUserWithRoleFromSSR, type AuthenticatedUser } from '@/lib/authServer';
+import type { SiteContentKeySummary } from '@/lib/siteContent/revisions';
+
+interface SiteContentIndexProps {
+  user: AuthenticatedUser | null;
+}
+
+const formatTimestamp = (timestamp: string | null) => {
+  if (!timestamp) return '-';
+  return new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+export default function SiteContentIndexPage({ user }: SiteContentIndexProps) {
+  const [keys, setKeys] = useState<SiteContentKeySummary[]>([]);
+  const [filter, setFilter] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    const load = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch('/api/admin/site-content');
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load site content');
+        }
+        setKeys(data.keys || []);
+      } catch (err) {
+        console.error('Error loading site content keys:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load site content');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [user]);
+
+  if (!user || (user.role !== 'editor' && user.role !== 'admin')) {
+    return (
+      <>
+        <Head>
+          <title>Content History • Fine Diet</title>
+        </Head>
+        <main className="min-h-screen bg-gray-100 flex items-center justify-center px-4">
+          <div className="max-w-md w-full text-center">
+            <h1 className="text-3xl font-bold text-gray-900 mb-4">Access Denied</h1>
+            <p className="text-lg text-gray-600 mb-8">You don't have permission to access this page.</p>
+            <Link
+              href="/admin"
+              className="inline-block px-6 py-3 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors font-medium"
+            >
+              Return to Admin Dashboard
+            </Link>
+          </div>
+        </main>
+      </>
+    );
+  }
+
+  const visibleKeys = keys.filter((item) => item.key.toLowerCase().includes(filter.trim().toLowerCase()));
+
+  return (
+    <>
+      <Head>
+        <title>Content History • Fine Diet Admin</title>
+      </Head>
+      <div className="min-h-screen bg-gray-100 pt-[100px] pb-10">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-10">
+          <div className="mb-6">
+            <Link href="/admin" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-4">
+              <svg className="mr-2 h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+              </svg>
+              Back to Admin Dashboard
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-900">Content History</h1>
+            <p className="mt-2 text-sm text-gray-600">
+              Every save is kept as a revision. Open a key to compare revisions, roll back, or schedule a publish.
+            </p>
+          </div>
+
+          {error && (
+            <div className="mb-6 bg-red-50 border border-red-200 rounded-md p-4 text-sm text-red-800">{error}</div>
+          )}
+
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+            <div className="p-4 border-b border-gray-200">
+              <input
+                type="search"
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+                placeholder="Filter keys (e.g. home, product:, @es)"
+                className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              />
+            </div>
+            {loading ? (
+              <p className="p-6 text-sm text-gray-500">Loading...</p>
+            ) : visibleKeys.length === 0 ? (
+              <p className="p-6 text-sm text-gray-500">No site content found.</p>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Key</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Published</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Next Publish</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {visibleKeys.map((item) => (
+                    <tr key={item.key} className="hover:bg-gray-50">
+                      <td className="px-4 py-3 text-sm font-mono">
+                        <Link
+                          href={`/admin/site-content/history?key=${encodeURIComponent(item.key)}`}
+                          className="text-blue-600 hover:underline"
+                        >
+                          {item.key}
+                        </Link>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700">{formatTimestamp(item.publishedAt)}</td>
+                      <td className="px-4 py-3 text-sm">
+                        {item.hasDraft && (
+                          <span className="inline-flex px-2 py-0.5 rounded text-xs font-medium bg-yellow-100 text-yellow-800 mr-2">
+                            Unpublished draft
+                          </span>
+                        )}
+                        {!item.hasRevisions && (
+                          <span className="inline-flex px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-600">
+                            No history yet
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700">{formatTimestamp(item.nextPublishAt)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
+
+export const getServerSideProps: GetServerSideProps<SiteContentIndexProps> = async (context) => {
+  const user = await getCurrentUserWithRoleFromSSR(context);
+
+  if (!user || (user.role !== 'editor' && user.role !== 'admin')) {
+    return {
+      props: {
+        user: null,
+      },
+    };
+  }
+
+  return {
+    props: {
+      user,
+    },
+  };
+};
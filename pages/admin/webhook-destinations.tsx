@@ -0,0 +1,607 @@
+/**
+ * Admin Page: Webhook Destinations
+ *
+ * Admin-only page for configuring where app events are delivered (CRM, Slack, warehouse
+ * ingest, ...): event subscriptions, payload template with a live preview, extra headers
+ * and a signing secret per destination. Deliveries show up per destination on /admin/outbox.
+ * Protected by middleware and SSR guard.
+ */
+
+import { GetServerSideProps } from 'next';
+import Head from 'next/head';
+import Link from 'next/link';
+import { useState, useEffect } from 'react';
+import { getCurrentUserWithRoleFromSSR, type AuthenticatedUser } from '@/lib/authServer';
+import {
+  SAMPLE_EVENT_DATA,
+  WEBHOOK_EVENT_DESCRIPTIONS,
+  WEBHOOK_EVENT_TYPES,
+  buildEventEnvelope,
+  destinationTarget,
+  renderPayloadTemplate,
+  type WebhookDestinationView,
+  type WebhookEventType,
+} from '@/lib/webhooks/destinations';
+
+interface AdminWebhookDestinationsProps {
+  user: AuthenticatedUser | null;
+}
+
+interface DestinationForm {
+  id: string | null;
+  slug: string;
+  name: string;
+  url: string;
+  eventTypes: WebhookEventType[];
+  enabled: boolean;
+  /** JSON text; empty = send the event envelope */
+  template: string;
+  /** JSON object text */
+  headers: string;
+  /** Blank keeps the stored secret */
+  signingSecret: string;
+  removeSigningSecret: boolean;
+  hasSigningSecret: boolean;
+}
+
+const EMPTY_FORM: DestinationForm = {
+  id: null,
+  slug: '',
+  name: '',
+  url: '',
+  eventTypes: [],
+  enabled: true,
+  template: '',
+  headers: '{}',
+  signingSecret: '',
+  removeSigningSecret: false,
+  hasSigningSecret: false,
+};
+
+function toForm(destination: WebhookDestinationView): DestinationForm {
+  return {
+    id: destination.id,
+    slug: destination.slug,
+    name: destination.name,
+    url: destination.url,
+    eventTypes: destination.event_types,
+    enabled: destination.enabled,
+    template: destination.payload_template ? JSON.stringify(destination.payload_template, null, 2) : '',
+    headers: JSON.stringify(destination.headers || {}, null, 2),
+    signingSecret: '',
+    removeSigningSecret: false,
+    hasSigningSecret: destination.has_signing_secret,
+  };
+}
+
+function parseJson(text: string, label: string): { ok: true; value: unknown } | { ok: false; error: string } {
+  try {
+    return { ok: true, value: JSON.parse(text) };
+  } catch (err) {
+    return { ok: false, error: `${label} is not valid JSON: ${err instanceof Error ? err.message : String(err)}` };
+  }
+}
+
+export default function AdminWebhookDestinations({ user }: AdminWebhookDestinationsProps) {
+  const [destinations, setDestinations] = useState<WebhookDestinationView[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [form, setForm] = useState<DestinationForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [previewEvent, setPreviewEvent] = useState<WebhookEventType>('submission_created');
+
+  useEffect(() => {
+    async function fetchDestinations() {
+      if (user?.role !== 'admin') return;
+      try {
+        setLoading(true);
+        const response = await fetch('/api/admin/webhook-destinations');
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to fetch webhook destinations');
+        }
+        setDestinations(data.destinations || []);
+      } catch (err) {
+        console.error('Error fetching webhook destinations:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load webhook destinations');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchDestinations();
+  }, [user, refreshKey]);
+
+  // Rendered payload for the selected sample event (or the template error)
+  const preview = (() => {
+    if (!form) return null;
+    const envelope = buildEventEnvelope(previewEvent, 'sample-event-id', SAMPLE_EVENT_DATA[previewEvent]);
+    if (!form.template.trim()) {
+      return { ok: true as const, body: JSON.stringify(envelope, null, 2) };
+    }
+    const parsed = parseJson(form.template, 'Template');
+    if (!parsed.ok) return { ok: false as const, error: parsed.error };
+    return { ok: true as const, body: JSON.stringify(renderPayloadTemplate(parsed.value, envelope), null, 2) };
+  })();
+
+  const request = async (url: string, method: string, body?: Record<string, unknown>) => {
+    const response = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      ...(body ? { body: JSON.stringify(body) } : {}),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Request failed');
+    }
+    return data;
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    setError(null);
+    setMessage(null);
+
+    const template = form.template.trim() ? parseJson(form.template, 'Template') : { ok: true as const, value: null };
+    if (!template.ok) {
+      setError(template.error);
+      return;
+    }
+    const headers = parseJson(form.headers.trim() || '{}', 'Headers');
+    if (!headers.ok) {
+      setError(headers.error);
+      return;
+    }
+
+    const body: Record<string, unknown> = {
+      name: form.name,
+      url: form.url,
+      event_types: form.eventTypes,
+      enabled: form.enabled,
+      payload_template: template.value,
+      headers: headers.value,
+    };
+    if (form.removeSigningSecret) {
+      body.signing_secret = null;
+    } else if (form.signingSecret.trim()) {
+      body.signing_secret = form.signingSecret.trim();
+    }
+
+    try {
+      setSaving(true);
+      if (form.id) {
+        await request(`/api/admin/webhook-destinations/${form.id}`, 'PATCH', body);
+        setMessage(`Saved ${form.name}.`);
+      } else {
+        await request('/api/admin/webhook-destinations', 'POST', { ...body, slug: form.slug });
+        setMessage(`Created ${form.name}. New events will be delivered to it.`);
+      }
+      setForm(null);
+      setRefreshKey((key) => key + 1);
+    } catch (err) {
+      console.error('Error saving webhook destination:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save webhook destination');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (destination: WebhookDestinationView) => {
+    try {
+      setError(null);
+      await request(`/api/admin/webhook-destinations/${destination.id}`, 'PATCH', {
+        enabled: !destination.enabled,
+      });
+      setMessage(`${destination.name} ${destination.enabled ? 'disabled' : 'enabled'}.`);
+      setRefreshKey((key) => key + 1);
+    } catch (err) {
+      console.error('Error updating webhook destination:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update webhook destination');
+    }
+  };
+
+  const handleDelete = async (destination: WebhookDestinationView) => {
+    if (
+      !confirm(
+        `Delete ${destination.name}? Its outbox entries and delivery history are deleted too. Disable it instead to keep them.`
+      )
+    ) {
+      return;
+    }
+    try {
+      setError(null);
+      await request(`/api/admin/webhook-destinations/${destination.id}`, 'DELETE');
+      setMessage(`Deleted ${destination.name}.`);
+      if (form?.id === destination.id) setForm(null);
+      setRefreshKey((key) => key + 1);
+    } catch (err) {
+      console.error('Error deleting webhook destination:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete webhook destination');
+    }
+  };
+
+  const toggleEventType = (eventType: WebhookEventType) => {
+    if (!form) return;
+    const eventTypes = form.eventTypes.includes(eventType)
+      ? form.eventTypes.filter((type) => type !== eventType)
+      : [...form.eventTypes, eventType];
+    setForm({ ...form, eventTypes });
+  };
+
+  // Defensive check - middleware should have already blocked non-authorized users
+  if (!user || user.role !== 'admin') {
+    return (
+      <>
+        <Head>
+          <title>Webhook Destinations • Fine Diet</title>
+        </Head>
+        <main className="min-h-screen bg-gray-100 flex items-center justify-center px-4">
+          <div className="max-w-md w-full text-center">
+            <h1 className="text-3xl font-bold text-gray-900 mb-4">Access Denied</h1>
+            <p className="text-lg text-gray-600 mb-8">You don't have permission to access this page.</p>
+            <Link
+              href="/admin"
+              className="inline-block px-6 py-3 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors font-medium"
+            >
+              Return to Admin Dashboard
+            </Link>
+          </div>
+        </main>
+      </>
+    );
+  }
+
+  const inputClass =
+    'block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+
+  return (
+    <>
+      <Head>
+        <title>Webhook Destinations • Fine Diet Admin</title>
+      </Head>
+      <div className="min-h-screen bg-gray-100 pt-[100px] pb-10">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-10">
+          {/* Header */}
+          <div className="mb-6 flex items-end justify-between">
+            <div>
+              <Link
+                href="/admin"
+                className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-4"
+              >
+                <svg className="mr-2 h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                </svg>
+                Back to Admin Dashboard
+              </Link>
+              <h1 className="text-3xl font-bold text-gray-900">Webhook Destinations</h1>
+              <p className="mt-2 text-sm text-gray-600">
+                Each destination receives the events it subscribes to through the outbox, with its own
+                payload, retries and delivery history.
+              </p>
+            </div>
+            {!form && (
+              <button
+                type="button"
+                onClick={() => {
+                  setMessage(null);
+                  setForm({ ...EMPTY_FORM });
+                }}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm font-medium"
+              >
+                Add Destination
+              </button>
+            )}
+          </div>
+
+          {error && (
+            <div className="mb-6 bg-red-50 border border-red-200 rounded-md p-4 text-sm text-red-800">{error}</div>
+          )}
+          {message && (
+            <div className="mb-6 bg-green-50 border border-green-200 rounded-md p-4 text-sm text-green-800">
+              {message}
+            </div>
+          )}
+
+          {/* Create / edit form */}
+          {form && (
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6">
+              <h2 className="text-xl font-semibold text-gray-900 mb-4">
+                {form.id ? `Edit ${form.name}` : 'New Destination'}
+              </h2>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                <div>
+                  <label htmlFor="destination-name" className="block text-sm font-medium text-gray-700 mb-1">
+                    Name
+                  </label>
+                  <input
+                    id="destination-name"
+                    type="text"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    placeholder="e.g. HubSpot"
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="destination-slug" className="block text-sm font-medium text-gray-700 mb-1">
+                    Slug
+                  </label>
+                  <input
+                    id="destination-slug"
+                    type="text"
+                    value={form.slug}
+                    disabled={!!form.id}
+                    onChange={(e) => setForm({ ...form, slug: e.target.value.toLowerCase() })}
+                    placeholder="e.g. hubspot"
+                    className={`${inputClass} font-mono disabled:bg-gray-100`}
+                  />
+                  <p className="mt-1 text-xs text-gray-500">
+                    Outbox target: <span className="font-mono">{destinationTarget(form.slug || '<slug>')}</span>
+                    {form.id ? ' (cannot be changed)' : ''}
+                  </p>
+                </div>
+                <div className="md:col-span-2">
+                  <label htmlFor="destination-url" className="block text-sm font-medium text-gray-700 mb-1">
+                    URL
+                  </label>
+                  <input
+                    id="destination-url"
+                    type="url"
+                    value={form.url}
+                    onChange={(e) => setForm({ ...form, url: e.target.value })}
+                    placeholder="https://hooks.example.com/..."
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+
+              <fieldset className="mb-4">
+                <legend className="block text-sm font-medium text-gray-700 mb-2">Events</legend>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  {WEBHOOK_EVENT_TYPES.map((eventType) => (
+                    <label key={eventType} className="flex items-start gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={form.eventTypes.includes(eventType)}
+                        onChange={() => toggleEventType(eventType)}
+                        className="mt-1"
+                      />
+                      <span>
+                        <span className="font-mono text-gray-900">{eventType}</span>
+                        <span className="block text-gray-500">{WEBHOOK_EVENT_DESCRIPTIONS[eventType]}</span>
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              </fieldset>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mb-4">
+                <div>
+                  <label htmlFor="destination-template" className="block text-sm font-medium text-gray-700 mb-1">
+                    Payload Template (JSON)
+                  </label>
+                  <textarea
+                    id="destination-template"
+                    value={form.template}
+                    onChange={(e) => setForm({ ...form, template: e.target.value })}
+                    rows={14}
+                    placeholder={'{\n  "text": "New {{event}}: {{data.email}}"\n}'}
+                    className={`${inputClass} font-mono text-xs`}
+                  />
+                  <p className="mt-1 text-xs text-gray-500">
+                    {'Use {{event}}, {{event_id}}, {{occurred_at}} and {{data.<field>}}. Leave empty to send the event envelope.'}
+                  </p>
+                </div>
+                <div>
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="block text-sm font-medium text-gray-700">Preview</span>
+                    <select
+                      value={previewEvent}
+                      onChange={(e) => setPreviewEvent(e.target.value as WebhookEventType)}
+                      className="px-2 py-1 border border-gray-300 rounded-md text-xs"
+                    >
+                      {WEBHOOK_EVENT_TYPES.map((eventType) => (
+                        <option key={eventType} value={eventType}>
+                          {eventType}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  {preview && preview.ok ? (
+                    <pre className="bg-gray-50 border border-gray-200 rounded-md p-3 text-xs overflow-auto max-h-72">
+                      {preview.body}
+                    </pre>
+                  ) : (
+                    <p className="text-sm text-red-700">{preview?.error}</p>
+                  )}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                <div>
+                  <label htmlFor="destination-headers" className="block text-sm font-medium text-gray-700 mb-1">
+                    Extra Headers (JSON)
+                  </label>
+                  <textarea
+                    id="destination-headers"
+                    value={form.headers}
+                    onChange={(e) => setForm({ ...form, headers: e.target.value })}
+                    rows={4}
+                    placeholder={'{ "Authorization": "Bearer ..." }'}
+                    className={`${inputClass} font-mono text-xs`}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="destination-secret" className="block text-sm font-medium text-gray-700 mb-1">
+                    Signing Secret
+                  </label>
+                  <input
+                    id="destination-secret"
+                    type="password"
+                    value={form.signingSecret}
+                    disabled={form.removeSigningSecret}
+                    onChange={(e) => setForm({ ...form, signingSecret: e.target.value })}
+                    placeholder={form.hasSigningSecret ? 'Leave blank to keep the current secret' : 'Optional'}
+                    autoComplete="new-password"
+                    className={`${inputClass} disabled:bg-gray-100`}
+                  />
+                  <p className="mt-1 text-xs text-gray-500">
+                    Requests are signed with X-FineDiet-Signature when a secret is set.
+                  </p>
+                  {form.hasSigningSecret && (
+                    <label className="mt-2 flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={form.removeSigningSecret}
+                        onChange={(e) => setForm({ ...form, removeSigningSecret: e.target.checked })}
+                      />
+                      Remove the signing secret
+                    </label>
+                  )}
+                </div>
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-gray-700 mb-6">
+                <input
+                  type="checkbox"
+                  checked={form.enabled}
+                  onChange={(e) => setForm({ ...form, enabled: e.target.checked })}
+                />
+                Enabled
+              </label>
+
+              <div className="flex gap-3">
+                <button
+                  type="button"
+                  onClick={handleSave}
+                  disabled={saving}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm font-medium disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : form.id ? 'Save Changes' : 'Create Destination'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setForm(null)}
+                  disabled={saving}
+                  className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 text-sm font-medium"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Destinations */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+            {loading ? (
+              <div className="p-8 text-center text-gray-600">Loading destinations...</div>
+            ) : destinations.length === 0 ? (
+              <div className="p-8 text-center text-gray-600">
+                <p>No webhook destinations yet. Built-in n8n deliveries are not affected.</p>
+              </div>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Destination
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Events
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Status
+                    </th>
+                    <th className="px-6 py-3" />
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {destinations.map((destination) => (
+                    <tr key={destination.id}>
+                      <td className="px-6 py-4 text-sm">
+                        <div className="font-medium text-gray-900">{destination.name}</div>
+                        <div className="text-gray-500 break-all">{destination.url}</div>
+                        <Link
+                          href={`/admin/outbox?target=${encodeURIComponent(destinationTarget(destination.slug))}`}
+                          className="text-xs font-mono text-blue-600 hover:underline"
+                        >
+                          {destinationTarget(destination.slug)}
+                        </Link>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-600 font-mono">
+                        {destination.event_types.join(', ')}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span
+                          className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                            destination.enabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-500'
+                          }`}
+                        >
+                          {destination.enabled ? 'enabled' : 'disabled'}
+                        </span>
+                        {destination.has_signing_secret && (
+                          <span className="ml-2 inline-flex px-2 py-1 text-xs rounded-full bg-blue-50 text-blue-700">
+                            signed
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm space-x-3">
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setMessage(null);
+                            setForm(toForm(destination));
+                          }}
+                          className="text-blue-600 hover:text-blue-800"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleToggle(destination)}
+                          className="text-gray-600 hover:text-gray-900"
+                        >
+                          {destination.enabled ? 'Disable' : 'Enable'}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleDelete(destination)}
+                          className="text-red-600 hover:text-red-800"
+                        >
+                          Delete
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
+
+export const getServerSideProps: GetServerSideProps<AdminWebhookDestinationsProps> = async (context) => {
+  // Get the current user with their role
+  const user = await getCurrentUserWithRoleFromSSR(context);
+
+  // Note: Middleware should have already blocked non-authorized users,
+  // but we still check here for defensive programming (admin-only)
+  if (!user || user.role !== 'admin') {
+    return {
+      props: {
+        user: null,
+      },
+    };
+  }
+
+  return {
+    props: {
+      user,
+    },
+  };
+};
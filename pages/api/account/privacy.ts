@@ -0,0 +1,69 @@
+/**
+ * API Route: My Data (export and account deletion)
+ *
+ * GET  /api/account/privacy - JSON export of everything tied to the signed-in user's account
+ *   and email, as a download
+ * POST /api/account/privacy - erase it and delete the account
+ *   Body: { confirm: 'DELETE' }
+ *
+ * Both are recorded in privacy_requests (requested_via 'self_service').
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getCurrentUserWithRoleFromApi } from '@/lib/authServer';
+import { loadSubjectRows, runSubjectErasure, runSubjectExport } from '@/lib/privacy/dataSubject';
+import { exportFilename, type ErasureSummary } from '@/lib/privacy/subjectData';
+
+interface PrivacyResponse {
+  success: boolean;
+  summary?: ErasureSummary;
+  error?: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<PrivacyResponse | string>
+) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  // Require authentication
+  const user = await getCurrentUserWithRoleFromApi(req, res);
+  if (!user) {
+    return res.status(401).json({ success: false, error: 'Unauthorized' });
+  }
+
+  const subject = { email: user.email, userId: user.id };
+
+  try {
+    if (req.method === 'GET') {
+      const exported = await runSubjectExport(subject, 'self_service', user.id);
+      res.setHeader('Content-Type', 'application/json; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${exportFilename()}"`);
+      return res.status(200).send(JSON.stringify(exported, null, 2));
+    }
+
+    if (req.body?.confirm !== 'DELETE') {
+      return res.status(400).json({ success: false, error: "Send { confirm: 'DELETE' } to delete your account" });
+    }
+
+    // Staff accounts are removed by another admin, not self-service
+    if (user.role !== 'user') {
+      return res.status(409).json({
+        success: false,
+        error: 'Editor and admin accounts cannot be deleted here. Ask an administrator.',
+      });
+    }
+
+    const rows = await loadSubjectRows(subject);
+    const summary = await runSubjectErasure(subject, rows, 'self_service', user.id, { deleteAccount: true });
+    return res.status(200).json({ success: true, summary });
+  } catch (error) {
+    console.error('Account privacy request error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+  }
+}
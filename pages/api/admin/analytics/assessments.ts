@@ -0,0 +1,112 @@
+/**
+ * API Route: Assessment Funnel Analytics
+ *
+ * GET /api/admin/analytics/assessments
+ *
+ * Query: assessmentType (default: first registered), from, to (YYYY-MM-DD, default last 30 days),
+ *        utmSource ('(none)' = no UTM), device, revisionId (question set revision)
+ *
+ * Returns the funnel, per-question drop-off and level distribution per day.
+ * Aggregation runs in Postgres (assessment_funnel_report) so the response size
+ * does not grow with the number of events.
+ * Requires editor or admin role.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { supabaseAdmin } from '@/lib/supabaseServerClient';
+import { requireRoleFromApi } from '@/lib/authServer';
+import { getRegisteredAssessmentTypes, isAssessmentTypeRegistered } from '@/lib/assessments/registry';
+import { buildFunnelReport, type FunnelReport, type FunnelReportData } from '@/lib/admin/assessments/funnelReport';
+
+/** Default reporting window in days (including today) */
+const DEFAULT_RANGE_DAYS = 30;
+/** Longest allowed reporting window in days */
+const MAX_RANGE_DAYS = 366;
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+interface AnalyticsResponse {
+  assessmentType?: string;
+  from?: string;
+  to?: string;
+  report?: FunnelReport;
+  error?: string;
+}
+
+function queryString(value: string | string[] | undefined): string | null {
+  const raw = Array.isArray(value) ? value[0] : value;
+  return raw && raw.trim() ? raw.trim() : null;
+}
+
+function parseDay(value: string | null): Date | null {
+  if (!value || !DAY_PATTERN.test(value)) return null;
+  const date = new Date(`${value}T00:00:00.000Z`);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<AnalyticsResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const user = await requireRoleFromApi(req, res, ['editor', 'admin']);
+  if (!user) return;
+
+  const assessmentType = queryString(req.query.assessmentType) || getRegisteredAssessmentTypes()[0];
+  if (!isAssessmentTypeRegistered(assessmentType)) {
+    return res.status(400).json({ error: `Unknown assessment type: ${assessmentType}` });
+  }
+
+  // Inclusive day range [from, to] in UTC
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+  const fromParam = queryString(req.query.from);
+  const toParam = queryString(req.query.to);
+  const toDay = toParam ? parseDay(toParam) : today;
+  const fromDay = fromParam
+    ? parseDay(fromParam)
+    : toDay && new Date(toDay.getTime() - (DEFAULT_RANGE_DAYS - 1) * 86400000);
+
+  if (!fromDay || !toDay) {
+    return res.status(400).json({ error: 'from and to must be dates (YYYY-MM-DD)' });
+  }
+  if (fromDay > toDay) {
+    return res.status(400).json({ error: 'from must not be after to' });
+  }
+  if (toDay.getTime() - fromDay.getTime() >= MAX_RANGE_DAYS * 86400000) {
+    return res.status(400).json({ error: `Date range must be at most ${MAX_RANGE_DAYS} days` });
+  }
+
+  const toExclusive = new Date(toDay.getTime() + 86400000);
+
+  try {
+    const { data, error } = await supabaseAdmin.rpc('assessment_funnel_report', {
+      p_assessment_type: assessmentType,
+      p_from: fromDay.toISOString(),
+      p_to: toExclusive.toISOString(),
+      p_utm_source: queryString(req.query.utmSource),
+      p_device: queryString(req.query.device),
+      p_question_set_revision_id: queryString(req.query.revisionId),
+    });
+
+    if (error) {
+      console.error('Error running assessment_funnel_report:', error);
+      return res.status(500).json({ error: `Database error: ${error.message}` });
+    }
+
+    return res.status(200).json({
+      assessmentType,
+      from: fromDay.toISOString().split('T')[0],
+      to: toDay.toISOString().split('T')[0],
+      report: buildFunnelReport(data as FunnelReportData),
+    });
+  } catch (error) {
+    console.error('Assessment analytics error:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+  }
+}
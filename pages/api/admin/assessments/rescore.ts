@@ -0,0 +1,375 @@
+/**
+ * API Route: Bulk Rescore Submissions
+ *
+ * POST /api/admin/assessments/rescore
+ *
+ * Replays stored metadata.responses of v2 submissions through calculateScoringV2 with a
+ * candidate threshold config and returns a level-migration matrix (dry run by default).
+ * With apply=true, publishes the thresholds to the assessment-config (when they differ), so new
+ * submissions score the same way, writes the new results (including server_scoring) and
+ * records an audit trail:
+ * - assessment_rescore_runs row (actor, thresholds, matrix, changes)
+ * - metadata.rescoreHistory entry on each updated submission
+ * - content_audit_log entry (action 'assessments.rescore')
+ *
+ * Each submission is scored with the scoring spec of its pinned question set revision
+ * (metadata.questionsRef), falling back to the currently published question set.
+ * Requires admin role only.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireRoleFromApi } from '@/lib/authServer';
+import { supabaseAdmin } from '@/lib/supabaseServerClient';
+import { getAssessmentDefinition } from '@/lib/assessments/registry';
+import { getScoringSpec, type ScoringSpec } from '@/lib/assessments/scoring/scoringSpec';
+import type { AxisThresholds } from '@/lib/assessments/scoring/scoringEngine';
+import { loadAxisThresholds } from '@/lib/assessmentScoringV2';
+import {
+  rescoreSubmissions,
+  summarizeRescore,
+  type RescoreSubmissionInput,
+  type RescoredSubmission,
+  type RescoreSummary,
+} from '@/lib/admin/assessments/rescoreSubmissions';
+import { recordAdminAudit } from '@/lib/admin/audit/recordAdminAudit';
+
+/** Page size for loading submissions */
+const PAGE_SIZE = 1000;
+/** Max changed rows returned in the response */
+const MAX_CHANGES_RETURNED = 200;
+
+interface RescoreRequest {
+  assessmentType?: string;
+  assessmentVersion?: number;
+  thresholds?: Partial<AxisThresholds>;
+  from?: string; // ISO date (created_at >=)
+  to?: string; // ISO date (created_at <=)
+  apply?: boolean;
+}
+
+interface RescoreResponse {
+  success: boolean;
+  thresholds?: AxisThresholds;
+  currentThresholds?: AxisThresholds;
+  summary?: RescoreSummary;
+  changes?: RescoredSubmission[];
+  runId?: string;
+  /** site_content revision that published the thresholds (absent if they were unchanged) */
+  configRevisionId?: string;
+  updated?: number;
+  failed?: number;
+  error?: string;
+}
+
+type SubmissionRow = RescoreSubmissionInput & {
+  metadata: (RescoreSubmissionInput['metadata'] & Record<string, unknown>) | null;
+  server_scoring: Record<string, unknown> | null;
+};
+
+/**
+ * Load all submissions for an assessment type/version (paged)
+ */
+async function loadSubmissions(
+  assessmentType: string,
+  assessmentVersion: number,
+  from?: string,
+  to?: string
+): Promise<SubmissionRow[]> {
+  const rows: SubmissionRow[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    let query = supabaseAdmin
+      .from('assessment_submissions')
+      .select('id, primary_avatar, confidence_score, metadata, server_scoring')
+      .eq('assessment_type', assessmentType)
+      .eq('assessment_version', assessmentVersion)
+      .order('created_at', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (from) query = query.gte('created_at', from);
+    if (to) query = query.lte('created_at', to);
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    rows.push(...((data || []) as SubmissionRow[]));
+    if (!data || data.length < PAGE_SIZE) {
+      return rows;
+    }
+  }
+}
+
+/**
+ * Build a per-submission scoring spec lookup (pinned revision → spec, else current spec)
+ */
+async function loadSpecLookup(
+  submissions: SubmissionRow[],
+  assessmentType: string,
+  assessmentVersion: number
+): Promise<(submission: RescoreSubmissionInput) => ScoringSpec> {
+  const { resolveQuestionSet } = await import('@/lib/assessments/questions/resolveQuestionSet');
+  const current = await resolveQuestionSet({
+    assessmentType,
+    assessmentVersion,
+    locale: null,
+    preview: false,
+    userRole: 'admin',
+    pinnedQuestionsRef: null,
+  }).catch(() => null);
+  const currentSpec = getScoringSpec(current?.questionSet);
+
+  const pinnedRevisionId = (submission: RescoreSubmissionInput): string | null => {
+    const ref = (submission.metadata as { questionsRef?: { source?: string; publishedRevisionId?: string } } | null)
+      ?.questionsRef;
+    return ref?.source === 'cms' && ref.publishedRevisionId ? ref.publishedRevisionId : null;
+  };
+
+  const revisionIds = Array.from(
+    new Set(submissions.map(pinnedRevisionId).filter((id): id is string => !!id))
+  );
+  const specsByRevision: Record<string, ScoringSpec> = {};
+
+  if (revisionIds.length > 0) {
+    const { data: revisions, error } = await supabaseAdmin
+      .from('question_set_revisions')
+      .select('id, content_json')
+      .in('id', revisionIds);
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    (revisions || []).forEach((rev: { id: string; content_json: unknown }) => {
+      specsByRevision[rev.id] = getScoringSpec(rev.content_json as { scoring?: ScoringSpec });
+    });
+  }
+
+  return (submission) => {
+    const revisionId = pinnedRevisionId(submission);
+    return (revisionId && specsByRevision[revisionId]) || currentSpec;
+  };
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<RescoreResponse>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  // Require admin role only
+  const user = await requireRoleFromApi(req, res, ['admin']);
+  if (!user) return;
+
+  try {
+    const body = (req.body || {}) as RescoreRequest;
+    const assessmentType = body.assessmentType || 'gut-check';
+    const assessmentVersion = body.assessmentVersion ?? 2;
+    const definition = getAssessmentDefinition(assessmentType);
+
+    if (!definition) {
+      return res.status(400).json({ success: false, error: `Unknown assessmentType: ${assessmentType}` });
+    }
+
+    if (assessmentVersion !== 2) {
+      return res.status(400).json({
+        success: false,
+        error: 'Only v2 submissions can be rescored (v1 submissions have no stored responses)',
+      });
+    }
+
+    // Candidate thresholds (default: current CMS config)
+    const currentThresholds = await loadAxisThresholds(assessmentType, assessmentVersion);
+    const thresholds: AxisThresholds = {
+      axisBandHigh: body.thresholds?.axisBandHigh ?? currentThresholds.axisBandHigh,
+      axisBandModerate: body.thresholds?.axisBandModerate ?? currentThresholds.axisBandModerate,
+    };
+
+    if (
+      typeof thresholds.axisBandHigh !== 'number' ||
+      typeof thresholds.axisBandModerate !== 'number' ||
+      isNaN(thresholds.axisBandHigh) ||
+      isNaN(thresholds.axisBandModerate)
+    ) {
+      return res.status(400).json({ success: false, error: 'thresholds must be numbers' });
+    }
+
+    if (thresholds.axisBandHigh <= thresholds.axisBandModerate) {
+      return res.status(400).json({
+        success: false,
+        error: 'axisBandHigh must be greater than axisBandModerate',
+      });
+    }
+
+    const submissions = await loadSubmissions(assessmentType, assessmentVersion, body.from, body.to);
+    const getSpec = await loadSpecLookup(submissions, assessmentType, assessmentVersion);
+    const rescored = rescoreSubmissions(submissions, getSpec, thresholds);
+    const summary = summarizeRescore(submissions.length, rescored, definition.levels);
+    const changes = rescored.filter((r) => r.changed);
+
+    // Dry run - return impact only
+    if (!body.apply) {
+      return res.status(200).json({
+        success: true,
+        thresholds,
+        currentThresholds,
+        summary,
+        changes: changes.slice(0, MAX_CHANGES_RETURNED),
+      });
+    }
+
+    // Publish the thresholds before touching submissions, so new submissions get the same levels
+    let configRevisionId: string | undefined;
+    if (
+      thresholds.axisBandHigh !== currentThresholds.axisBandHigh ||
+      thresholds.axisBandModerate !== currentThresholds.axisBandModerate
+    ) {
+      const { getAssessmentConfig } = await import('@/lib/config/getConfig');
+      const { saveSiteContentWithAudit } = await import('@/lib/siteContent/revisions');
+      const config = await getAssessmentConfig(assessmentType, assessmentVersion);
+      const revision = await saveSiteContentWithAudit(req, {
+        key: `assessment-config:${assessmentType}:${assessmentVersion}`,
+        data: {
+          ...config,
+          scoring: { ...config.scoring, thresholds: { ...config.scoring.thresholds, ...thresholds } },
+        },
+        actor: user,
+        publish: true,
+        changeSummary: 'Thresholds applied by a rescore run',
+      });
+      configRevisionId = revision.id;
+    }
+
+    // Record the run first so every updated row can reference it
+    const { data: run, error: runError } = await supabaseAdmin
+      .from('assessment_rescore_runs')
+      .insert({
+        actor_id: user.id,
+        assessment_type: assessmentType,
+        assessment_version: assessmentVersion,
+        thresholds,
+        previous_thresholds: currentThresholds,
+        filters: { from: body.from || null, to: body.to || null },
+        summary,
+        changes,
+      })
+      .select('id')
+      .single();
+
+    if (runError || !run) {
+      console.error('Error creating rescore run:', runError);
+      return res.status(500).json({
+        success: false,
+        error: `Database error: ${runError?.message || 'Failed to create rescore run'}`,
+      });
+    }
+
+    const submissionsById: Record<string, SubmissionRow> = {};
+    submissions.forEach((s) => {
+      submissionsById[s.id] = s;
+    });
+
+    const rescoredAt = new Date().toISOString();
+    let updated = 0;
+    let failed = 0;
+
+    for (const change of changes) {
+      const existingMetadata = submissionsById[change.id]?.metadata || {};
+      const existingServerScoring = submissionsById[change.id]?.server_scoring;
+      const history = Array.isArray(existingMetadata.rescoreHistory) ? existingMetadata.rescoreHistory : [];
+
+      const { error: updateError } = await supabaseAdmin
+        .from('assessment_submissions')
+        .update({
+          primary_avatar: change.toLevel,
+          score_map: { [change.toLevel]: 1 },
+          normalized_score_map: { [change.toLevel]: 1 },
+          confidence_score: change.toConfidenceScore,
+          // Rows submitted before scoring verification have no server_scoring to update
+          ...(existingServerScoring
+            ? {
+                server_scoring: {
+                  ...existingServerScoring,
+                  scoreMap: { [change.toLevel]: 1 },
+                  normalizedScoreMap: { [change.toLevel]: 1 },
+                  primaryAvatar: change.toLevel,
+                  confidenceScore: change.toConfidenceScore,
+                },
+              }
+            : {}),
+          metadata: {
+            ...existingMetadata,
+            rescoreHistory: [
+              ...history,
+              {
+                runId: run.id,
+                rescoredAt,
+                rescoredBy: user.id,
+                from: { level: change.fromLevel, confidenceScore: change.fromConfidenceScore },
+                to: { level: change.toLevel, confidenceScore: change.toConfidenceScore },
+              },
+            ],
+          },
+        })
+        .eq('id', change.id);
+
+      if (updateError) {
+        failed += 1;
+        console.error('[Rescore] Failed to update submission:', change.id, updateError.message);
+      } else {
+        updated += 1;
+      }
+    }
+
+    // Log to audit log
+    try {
+      await supabaseAdmin.from('content_audit_log').insert({
+        actor_id: user.id,
+        action: 'assessments.rescore',
+        entity_type: 'assessment_rescore_run',
+        entity_id: run.id,
+        metadata: {
+          assessment_type: assessmentType,
+          assessment_version: assessmentVersion,
+          thresholds,
+          previous_thresholds: currentThresholds,
+          updated,
+          failed,
+        },
+      });
+    } catch (auditError) {
+      // Non-blocking audit log error
+      console.warn('Failed to write audit log:', auditError);
+    }
+
+    await recordAdminAudit(req, user, {
+      action: 'assessments.rescore',
+      targetType: 'assessment',
+      targetKey: `${assessmentType}:${assessmentVersion}`,
+      before: { thresholds: currentThresholds },
+      after: { thresholds },
+      metadata: { rescore_run_id: run.id, config_revision_id: configRevisionId || null, updated, failed },
+    });
+
+    return res.status(200).json({
+      success: true,
+      thresholds,
+      currentThresholds,
+      summary,
+      changes: changes.slice(0, MAX_CHANGES_RETURNED),
+      runId: run.id,
+      configRevisionId,
+      updated,
+      failed,
+    });
+  } catch (error) {
+    console.error('Rescore API error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+  }
+}
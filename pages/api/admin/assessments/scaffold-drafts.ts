@@ -13,7 +13,9 @@ import { requireRoleFromApi } from '@/lib/authServer';
 import { supabaseAdmin } from '@/lib/supabaseServerClient';
 import { validateQuestionSet, hashQuestionSetJson } from '@/lib/questionSet/validateQuestionSet';
 import { validateResultsPack, hashPackJson } from '@/lib/resultsPack/validateResultsPack';
+import { getQuestionSetFile } from '@/lib/assessments/contentFiles';
 import questionsV2Template from '@/content/assessments/gut-check/questions_v2.json';
+import { recordAdminAudit } from '@/lib/admin/audit/recordAdminAudit';
 
 interface ScaffoldDraftsRequest {
   questionSetId?: string;
@@ -71,10 +73,13 @@ async function createQuestionSetDraft(questionSetId: string, userId: string): Pr
     throw new Error('Question set not found');
   }
 
-  // Create starter template based on v2 structure
+  // Create starter template from the assessment's own question file (gut-check v2 if none)
   // Use the template but update assessmentType/version
+  const template =
+    (getQuestionSetFile(qs.assessment_type, qs.assessment_version) as typeof questionsV2Template | null) ??
+    questionsV2Template;
   const starterContent = {
-    ...questionsV2Template,
+    ...template,
     assessmentType: qs.assessment_type,
     version: String(qs.assessment_version),
   };
@@ -266,6 +271,14 @@ export default async function handler(
       console.warn('Failed to write audit log:', auditError);
     }
 
+    await recordAdminAudit(req, user, {
+      action: 'assessments.scaffold_drafts',
+      targetType: 'assessment',
+      targetKey: questionSetId || null,
+      after: { created, skipped },
+      metadata: { resultsPackIds },
+    });
+
     return res.status(200).json({ created, skipped });
   } catch (error) {
     console.error('Scaffold drafts error:', error);
@@ -11,6 +11,7 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { requireRoleFromApi } from '@/lib/authServer';
 import { supabaseAdmin } from '@/lib/supabaseServerClient';
+import { recordAdminAudit } from '@/lib/admin/audit/recordAdminAudit';
 
 interface ScaffoldQuestionsRequest {
   assessmentType: string;
@@ -141,6 +142,13 @@ export default async function handler(
       console.warn('Failed to write audit log:', auditError);
     }
 
+    await recordAdminAudit(req, user, {
+      action: 'assessments.scaffold_questions',
+      targetType: 'question_set',
+      targetKey: questionSetId,
+      after: { assessment_type: assessmentType, assessment_version: versionInt, locale: localeValue, created },
+    });
+
     return res.status(200).json({ questionSetId, created });
   } catch (error) {
     console.error('Scaffold questions error:', error);
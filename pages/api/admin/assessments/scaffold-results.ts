@@ -11,6 +11,7 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { requireRoleFromApi } from '@/lib/authServer';
 import { supabaseAdmin } from '@/lib/supabaseServerClient';
+import { recordAdminAudit } from '@/lib/admin/audit/recordAdminAudit';
 
 interface ScaffoldResultsRequest {
   assessmentType: string;
@@ -68,6 +69,7 @@ export default async function handler(
         .eq('assessment_type', assessmentType)
         .eq('results_version', versionStr)
         .eq('level_id', levelId)
+        .is('locale', null) // Scaffolds the default locale
         .maybeSingle();
 
       if (checkError && checkError.code !== 'PGRST116') {
@@ -132,6 +134,13 @@ export default async function handler(
       console.warn('Failed to write audit log:', auditError);
     }
 
+    await recordAdminAudit(req, user, {
+      action: 'assessments.scaffold_results',
+      targetType: 'assessment',
+      targetKey: `${assessmentType}:${versionStr}`,
+      after: { packs, created },
+    });
+
     return res.status(200).json({
       packs: {
         level1: packs.level1,
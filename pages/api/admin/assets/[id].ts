@@ -8,6 +8,7 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { requireRoleFromApi } from '@/lib/authServer';
 import type { MediaAsset, MediaAssetUpdate } from '@/lib/mediaAssetsTypes';
+import { recordAdminAudit } from '@/lib/admin/audit/recordAdminAudit';
 
 interface AssetResponse {
   success: boolean;
@@ -74,6 +75,12 @@ export default async function handler(
         updates.tags = req.body.tags || [];
       }
 
+      const { data: previous } = await supabaseAdmin
+        .from('media_assets')
+        .select('alt_text, tags')
+        .eq('id', assetId)
+        .maybeSingle();
+
       const { data: asset, error } = await supabaseAdmin
         .from('media_assets')
         .update(updates)
@@ -88,6 +95,14 @@ export default async function handler(
         });
       }
 
+      await recordAdminAudit(req, user, {
+        action: 'assets.update',
+        targetType: 'media_asset',
+        targetKey: assetId,
+        before: previous,
+        after: { alt_text: asset.alt_text, tags: asset.tags },
+      });
+
       return res.status(200).json({
         success: true,
         asset: asset as MediaAsset,
@@ -107,7 +122,7 @@ export default async function handler(
       // First get the asset to get the storage path
       const { data: asset, error: fetchError } = await supabaseAdmin
         .from('media_assets')
-        .select('path')
+        .select('*')
         .eq('id', assetId)
         .single();
 
@@ -141,6 +156,14 @@ export default async function handler(
         });
       }
 
+      await recordAdminAudit(req, user, {
+        action: 'assets.delete',
+        targetType: 'media_asset',
+        targetKey: assetId,
+        before: asset,
+        after: null,
+      });
+
       return res.status(200).json({
         success: true,
       });
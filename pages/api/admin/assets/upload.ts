@@ -8,6 +8,7 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { requireRoleFromApi } from '@/lib/authServer';
 import type { MediaAsset } from '@/lib/mediaAssetsTypes';
+import { recordAdminAudit } from '@/lib/admin/audit/recordAdminAudit';
 
 interface UploadResponse {
   success: boolean;
@@ -158,6 +159,13 @@ export default async function handler(
       });
     }
 
+    await recordAdminAudit(req, user, {
+      action: 'assets.upload',
+      targetType: 'media_asset',
+      targetKey: assetData.id,
+      after: assetData,
+    });
+
     return res.status(200).json({
       success: true,
       asset: assetData as MediaAsset,
@@ -0,0 +1,101 @@
+/**
+ * API Route: Admin Audit Log
+ *
+ * GET /api/admin/audit
+ *
+ * Query: actor (email, partial, or user id), action (prefix), targetType, targetKey (partial),
+ *        from, to (YYYY-MM-DD, inclusive), page (1-based), format=csv (all matching rows up
+ *        to the export limit, as an attachment; X-Export-Truncated: true when rows were left out)
+ *
+ * Returns admin_audit_log entries newest first (lib/admin/audit).
+ * Requires admin role only.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireRoleFromApi } from '@/lib/authServer';
+import { listAdminAudit } from '@/lib/admin/audit/recordAdminAudit';
+import {
+  AUDIT_EXPORT_LIMIT,
+  auditLogToCsv,
+  parseAuditFilters,
+  type AdminAuditEntry,
+  type AdminAuditFilters,
+} from '@/lib/admin/audit/auditLog';
+
+/** Entries per page */
+const PAGE_SIZE = 50;
+/** Rows per query while exporting (Supabase returns at most 1000 per request) */
+const EXPORT_PAGE_SIZE = 1000;
+
+interface AuditResponse {
+  success: boolean;
+  entries?: AdminAuditEntry[];
+  total?: number;
+  page?: number;
+  pageSize?: number;
+  error?: string;
+}
+
+/**
+ * Newest matching entries up to AUDIT_EXPORT_LIMIT (paged), with the total match count
+ */
+async function loadExportEntries(
+  filters: AdminAuditFilters
+): Promise<{ entries: AdminAuditEntry[]; total: number }> {
+  const entries: AdminAuditEntry[] = [];
+  let total = 0;
+
+  for (let offset = 0; offset < AUDIT_EXPORT_LIMIT; offset += EXPORT_PAGE_SIZE) {
+    const page = await listAdminAudit(filters, {
+      offset,
+      limit: Math.min(EXPORT_PAGE_SIZE, AUDIT_EXPORT_LIMIT - offset),
+    });
+    entries.push(...page.entries);
+    total = page.total;
+    if (page.entries.length < EXPORT_PAGE_SIZE) {
+      break;
+    }
+  }
+
+  return { entries, total };
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<AuditResponse | string>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const user = await requireRoleFromApi(req, res, ['admin']);
+  if (!user) return;
+
+  const filters = parseAuditFilters(req.query);
+
+  try {
+    if (req.query.format === 'csv') {
+      const { entries, total } = await loadExportEntries(filters);
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('X-Total-Count', String(total));
+      if (total > entries.length) {
+        res.setHeader('X-Export-Truncated', 'true');
+      }
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="admin-audit-${new Date().toISOString().split('T')[0]}.csv"`
+      );
+      return res.status(200).send(auditLogToCsv(entries));
+    }
+
+    const page = Math.max(1, parseInt(typeof req.query.page === 'string' ? req.query.page : '1', 10) || 1);
+    const { entries, total } = await listAdminAudit(filters, { offset: (page - 1) * PAGE_SIZE, limit: PAGE_SIZE });
+    return res.status(200).json({ success: true, entries, total, page, pageSize: PAGE_SIZE });
+  } catch (error) {
+    console.error('Admin audit API error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+  }
+}
@@ -6,7 +6,7 @@
  * Security:
  * - Requires authenticated user with 'admin' role
  * - Only allows updates to 'assessment-config:*' keys matching pattern
- * - For Step 1: Only allows gut-check v2 (can be extended later)
+ * - Only allows assessment types/versions registered in lib/assessments/registry.ts
  * - Validates payload with Zod schema before writing
  * - Uses UPSERT strategy consistent with existing CMS writes
  * - Returns appropriate HTTP status codes (401/403/400/500)
@@ -16,10 +16,11 @@ import type { NextApiRequest, NextApiResponse } from 'next';
 import { requireRoleFromApi } from '@/lib/authServer';
 import { assessmentConfigSchema } from '@/lib/contentValidators';
 import { isConfigKeyAllowed } from '@/lib/config/registry';
+import { parseSaveQuery } from '@/lib/siteContent/siteContentKeys';
 
 export default async function handler(
   req: NextApiRequest,
-  res: NextApiResponse<{ success: boolean; error?: string }>
+  res: NextApiResponse<{ success: boolean; revisionId?: string; error?: string }>
 ) {
   // Require admin role only (returns 401 if not authenticated, 403 if wrong role)
   const user = await requireRoleFromApi(req, res, ['admin']);
@@ -82,35 +83,20 @@ export default async function handler(
 
     const validatedConfig = validationResult.data;
 
-    // Import server client
-    const { supabaseAdmin } = await import('@/lib/supabaseServerClient');
-
-    // Upsert into site_content table
-    const { error } = await supabaseAdmin
-      .from('site_content')
-      .upsert(
-        {
-          key: configKey,
-          status: 'published',
-          data: validatedConfig,
-          updated_at: new Date().toISOString(),
-        },
-        {
-          onConflict: 'key,status',
-        }
-      );
-
-    if (error) {
-      console.error('[Assessment Config API] Supabase error:', error);
-      return res.status(500).json({
-        success: false,
-        error: `Database error: ${error.message}`,
-      });
-    }
+    // ?draft=1 saves a draft revision without publishing (lib/siteContent/revisions.ts)
+    const { publish, changeSummary } = parseSaveQuery(req.query);
+    const { saveSiteContentWithAudit } = await import('@/lib/siteContent/revisions');
+    const revision = await saveSiteContentWithAudit(req, {
+      key: configKey,
+      data: validatedConfig,
+      actor: user,
+      publish,
+      changeSummary,
+    });
 
     // Note: Assessment config changes don't require page revalidation (used in API routes)
 
-    return res.status(200).json({ success: true });
+    return res.status(200).json({ success: true, revisionId: revision.id });
   } catch (error) {
     console.error('[Assessment Config API] Unexpected error:', error);
     return res.status(500).json({
@@ -11,10 +11,12 @@ import { getCurrentUserWithRoleFromSSR } from '@/lib/authServer';
 import { featureFlagsSchema } from '@/lib/contentValidators';
 import { DEFAULT_FEATURE_FLAGS } from '@/lib/config/defaults';
 import { isConfigKeyAllowed } from '@/lib/config/registry';
+import { parseSaveQuery } from '@/lib/siteContent/siteContentKeys';
+import { recordAdminAudit } from '@/lib/admin/audit/recordAdminAudit';
 
 export default async function handler(
   req: NextApiRequest,
-  res: NextApiResponse<{ success: boolean; error?: string }>
+  res: NextApiResponse<{ success: boolean; revisionId?: string; error?: string }>
 ) {
   if (req.method !== 'POST') {
     return res.status(405).json({ success: false, error: 'Method not allowed' });
@@ -49,6 +51,9 @@ export default async function handler(
     const equalsDefaults = JSON.stringify(payload) === JSON.stringify(DEFAULT_FEATURE_FLAGS);
 
     if (isEmpty || equalsDefaults) {
+      const { getSiteContentData } = await import('@/lib/siteContent/revisions');
+      const before = await getSiteContentData(configKey, 'published');
+
       // Delete the entry
       const { error } = await supabaseAdmin
       .from('site_content')
@@ -63,6 +68,14 @@ export default async function handler(
         });
       }
 
+      await recordAdminAudit(req, user, {
+        action: 'site_content.reset',
+        targetType: 'site_content',
+        targetKey: configKey,
+        before,
+        after: null,
+      });
+
       return res.status(200).json({ success: true });
     }
 
@@ -75,30 +88,18 @@ export default async function handler(
       });
     }
 
-    // Upsert into site_content
-    const { error } = await supabaseAdmin
-      .from('site_content')
-      .upsert(
-        {
-          key: configKey,
-          data: validationResult.data,
-          status: 'published',
-          updated_at: new Date().toISOString(),
-        },
-        {
-          onConflict: 'key',
-        }
-      );
-
-    if (error) {
-      console.error('[Feature Flags API] Error upserting:', error);
-      return res.status(500).json({
-        success: false,
-        error: 'Failed to save feature flags',
-      });
-    }
+    // ?draft=1 saves a draft revision without publishing (lib/siteContent/revisions.ts)
+    const { publish, changeSummary } = parseSaveQuery(req.query);
+    const { saveSiteContentWithAudit } = await import('@/lib/siteContent/revisions');
+    const revision = await saveSiteContentWithAudit(req, {
+      key: configKey,
+      data: validationResult.data,
+      actor: user,
+      publish,
+      changeSummary,
+    });
 
-    return res.status(200).json({ success: true });
+    return res.status(200).json({ success: true, revisionId: revision.id });
   } catch (error) {
     console.error('[Feature Flags API] Unexpected error:', error);
     return res.status(500).json({
@@ -7,10 +7,12 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { requireRoleFromApi } from '@/lib/authServer';
 import { homeContentSchema } from '@/lib/contentValidators';
+import { localizedContentKey, normalizeLocale } from '@/lib/i18n/locale';
+import { parseSaveQuery } from '@/lib/siteContent/siteContentKeys';
 
 export default async function handler(
   req: NextApiRequest,
-  res: NextApiResponse<{ success: boolean; error?: string }>
+  res: NextApiResponse<{ success: boolean; revisionId?: string; error?: string }>
 ) {
   // Require editor or admin role
   const user = await requireRoleFromApi(req, res, ['editor', 'admin']);
@@ -21,6 +23,12 @@ export default async function handler(
     return res.status(405).json({ success: false, error: 'Method not allowed' });
   }
 
+  // Optional ?locale= targets a translation ("home@es"); omitted = default locale
+  const requestedLocale = typeof req.query.locale === 'string' ? req.query.locale : undefined;
+  if (requestedLocale && !normalizeLocale(requestedLocale)) {
+    return res.status(400).json({ success: false, error: 'Invalid locale' });
+  }
+
   try {
     // Validate request body with Zod
     const validationResult = homeContentSchema.safeParse(req.body);
@@ -34,30 +42,19 @@ export default async function handler(
 
     const validatedContent = validationResult.data;
 
-    // Import server client (only works on server)
-    const { supabaseAdmin } = await import('@/lib/supabaseServerClient');
-
-    // Upsert into site_content table
-    const { error } = await supabaseAdmin
-      .from('site_content')
-      .upsert(
-        {
-          key: 'home',
-          status: 'published',
-          data: validatedContent,
-          updated_at: new Date().toISOString(),
-        },
-        {
-          onConflict: 'key,status',
-        }
-      );
+    // ?draft=1 saves a draft revision without publishing (lib/siteContent/revisions.ts)
+    const { publish, changeSummary } = parseSaveQuery(req.query);
+    const { saveSiteContentWithAudit } = await import('@/lib/siteContent/revisions');
+    const revision = await saveSiteContentWithAudit(req, {
+      key: localizedContentKey('home', requestedLocale),
+      data: validatedContent,
+      actor: user,
+      publish,
+      changeSummary,
+    });
 
-    if (error) {
-      console.error('Supabase error:', error);
-      return res.status(500).json({
-        success: false,
-        error: `Database error: ${error.message}`,
-      });
+    if (!publish) {
+      return res.status(200).json({ success: true, revisionId: revision.id });
     }
 
     // Revalidate homepage after home content update
@@ -70,7 +67,7 @@ export default async function handler(
       console.warn('Revalidation warning (content still saved):', revalidateError);
     }
 
-    return res.status(200).json({ success: true });
+    return res.status(200).json({ success: true, revisionId: revision.id });
   } catch (error) {
     console.error('API error:', error);
     return res.status(500).json({
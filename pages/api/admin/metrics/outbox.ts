@@ -3,13 +3,20 @@
  * 
  * GET /api/admin/metrics/outbox
  * 
- * Returns delivery health metrics for the last 14 days.
+ * Returns delivery health metrics for the last 14 days:
+ * - metrics: per-day submissions and n8n email capture deliveries
+ * - destinations: per webhook destination delivery counts (lib/outbox/destinationHealth.ts)
  * Admin-only access via requireRoleFromApi.
  */
 
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { supabaseAdmin } from '@/lib/supabaseServerClient';
 import { requireRoleFromApi } from '@/lib/authServer';
+import {
+  summarizeDestinationHealth,
+  type DestinationHealth,
+  type DestinationHealthRow,
+} from '@/lib/outbox/destinationHealth';
 
 interface DayMetrics {
   day: string; // YYYY-MM-DD format
@@ -22,6 +29,7 @@ interface DayMetrics {
 interface MetricsResponse {
   success: boolean;
   metrics?: DayMetrics[];
+  destinations?: DestinationHealth[];
   error?: string;
 }
 
@@ -100,7 +108,7 @@ export default async function handler(
       }
       if (row.status === 'sent') {
         outboxByDay[day].sent++;
-      } else if (row.status === 'failed') {
+      } else if (row.status === 'failed' || row.status === 'dead_letter') {
         outboxByDay[day].failed++;
       } else if (row.status === 'pending') {
         outboxByDay[day].pending++;
@@ -116,9 +124,34 @@ export default async function handler(
       pending_count: outboxByDay[day]?.pending || 0,
     }));
 
+    // Series C: Delivery health per configured webhook destination
+    const [destinationsResult, destinationRowsResult] = await Promise.all([
+      supabaseAdmin.from('webhook_destinations').select('id, slug, name, enabled').order('name', { ascending: true }),
+      supabaseAdmin
+        .from('webhook_outbox')
+        .select('destination_id, status, created_at, sent_at')
+        .not('destination_id', 'is', null)
+        .gte('created_at', startDate.toISOString()),
+    ]);
+
+    const destinationsError = destinationsResult.error || destinationRowsResult.error;
+    if (destinationsError) {
+      console.error('Error querying webhook destination metrics:', destinationsError);
+      return res.status(500).json({
+        success: false,
+        error: `Database error: ${destinationsError.message}`,
+      });
+    }
+
+    const destinations = summarizeDestinationHealth(
+      destinationsResult.data || [],
+      (destinationRowsResult.data || []) as DestinationHealthRow[]
+    );
+
     return res.status(200).json({
       success: true,
       metrics,
+      destinations,
     });
   } catch (error) {
     console.error('Metrics API error:', error);
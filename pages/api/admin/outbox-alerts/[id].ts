@@ -0,0 +1,129 @@
+/**
+ * API Route: Outbox Alert Rule (Admin Only)
+ *
+ * PATCH  /api/admin/outbox-alerts/[id] - update a rule (disabling it closes its open incident
+ *   on the next evaluation, without a notification)
+ * DELETE /api/admin/outbox-alerts/[id] - delete a rule and its incident history
+ *
+ * Changes are recorded in content_audit_log (entity_type 'outbox_alert_rule').
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { supabaseAdmin } from '@/lib/supabaseServerClient';
+import { requireRoleFromApi } from '@/lib/authServer';
+import { parseAlertRuleInput, validateChannelTarget, type OutboxAlertRule } from '@/lib/outbox/alertRules';
+import { recordAdminAudit } from '@/lib/admin/audit/recordAdminAudit';
+
+interface AlertRuleResponse {
+  success: boolean;
+  rule?: OutboxAlertRule;
+  error?: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<AlertRuleResponse>
+) {
+  if (req.method !== 'PATCH' && req.method !== 'DELETE') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  // Require admin role only
+  const user = await requireRoleFromApi(req, res, ['admin']);
+  if (!user) return;
+
+  const id = String(req.query.id);
+
+  try {
+    const { data: existing, error: fetchError } = await supabaseAdmin
+      .from('outbox_alert_rules')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error('Error querying outbox_alert_rules:', fetchError);
+      return res.status(500).json({ success: false, error: `Database error: ${fetchError.message}` });
+    }
+    if (!existing) {
+      return res.status(404).json({ success: false, error: 'Alert rule not found' });
+    }
+    const before = existing as OutboxAlertRule;
+
+    let rule: OutboxAlertRule | null = null;
+    let metadata: Record<string, unknown>;
+
+    if (req.method === 'PATCH') {
+      const parsed = parseAlertRuleInput(req.body, { partial: true });
+      if (!parsed.ok) {
+        return res.status(400).json({ success: false, error: parsed.error });
+      }
+
+      // The channel and its target may be changed separately
+      const channelError = validateChannelTarget(
+        parsed.input.channel || before.channel,
+        parsed.input.channel_target || before.channel_target
+      );
+      if (channelError) {
+        return res.status(400).json({ success: false, error: channelError });
+      }
+
+      const { data: updated, error: updateError } = await supabaseAdmin
+        .from('outbox_alert_rules')
+        .update({ ...parsed.input, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select('*')
+        .single();
+
+      if (updateError) {
+        console.error('Error updating outbox alert rule:', updateError);
+        return res.status(500).json({ success: false, error: `Database error: ${updateError.message}` });
+      }
+
+      rule = updated as OutboxAlertRule;
+      const changes: Record<string, { from: unknown; to: unknown }> = {};
+      (Object.keys(parsed.input) as Array<keyof OutboxAlertRule>).forEach((field) => {
+        changes[field] = { from: before[field], to: rule![field] };
+      });
+      metadata = { changes };
+    } else {
+      const { error: deleteError } = await supabaseAdmin.from('outbox_alert_rules').delete().eq('id', id);
+
+      if (deleteError) {
+        console.error('Error deleting outbox alert rule:', deleteError);
+        return res.status(500).json({ success: false, error: `Database error: ${deleteError.message}` });
+      }
+      metadata = { rule: before };
+    }
+
+    // Log to audit log
+    try {
+      await supabaseAdmin.from('content_audit_log').insert({
+        actor_id: user.id,
+        action: req.method === 'PATCH' ? 'outbox_alert_rule.update' : 'outbox_alert_rule.delete',
+        entity_type: 'outbox_alert_rule',
+        entity_id: id,
+        metadata: { actor_email: user.email, name: before.name, ...metadata },
+      });
+    } catch (auditError) {
+      // Non-blocking audit log error
+      console.warn('Failed to write audit log:', auditError);
+    }
+
+    await recordAdminAudit(req, user, {
+      action: req.method === 'PATCH' ? 'outbox_alert_rule.update' : 'outbox_alert_rule.delete',
+      targetType: 'outbox_alert_rule',
+      targetKey: id,
+      before,
+      after: rule,
+    });
+
+    return res.status(200).json({ success: true, ...(rule ? { rule } : {}) });
+  } catch (error) {
+    console.error('Outbox alert rule API error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * API Route: Outbox Alert Rules (Admin Only)
+ *
+ * GET  /api/admin/outbox-alerts           - rules and the 50 most recent incidents
+ * GET  /api/admin/outbox-alerts?active=1  - firing incidents only (banner on /admin)
+ * POST /api/admin/outbox-alerts           - create a rule
+ *   Body: { name, rule_type, threshold?, window_minutes?, min_deliveries?, target?, channel,
+ *           channel_target, enabled? }
+ *
+ * Changes are recorded in content_audit_log (entity_type 'outbox_alert_rule').
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { supabaseAdmin } from '@/lib/supabaseServerClient';
+import { requireRoleFromApi } from '@/lib/authServer';
+import { parseAlertRuleInput, type OutboxAlert, type OutboxAlertRule } from '@/lib/outbox/alertRules';
+import { recordAdminAudit } from '@/lib/admin/audit/recordAdminAudit';
+
+/** Incident with the name of its rule */
+type AlertWithRule = OutboxAlert & { rule_name: string | null };
+
+interface AlertRulesResponse {
+  success: boolean;
+  rules?: OutboxAlertRule[];
+  alerts?: AlertWithRule[];
+  rule?: OutboxAlertRule;
+  error?: string;
+}
+
+const RECENT_ALERTS_LIMIT = 50;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<AlertRulesResponse>
+) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  // Require admin role only
+  const user = await requireRoleFromApi(req, res, ['admin']);
+  if (!user) return;
+
+  try {
+    if (req.method === 'GET') {
+      const activeOnly = req.query.active === '1';
+
+      let alertsQuery = supabaseAdmin
+        .from('outbox_alerts')
+        .select('*')
+        .order('fired_at', { ascending: false })
+        .limit(RECENT_ALERTS_LIMIT);
+      if (activeOnly) alertsQuery = alertsQuery.eq('status', 'firing');
+
+      const [rulesResult, alertsResult] = await Promise.all([
+        supabaseAdmin.from('outbox_alert_rules').select('*').order('name', { ascending: true }),
+        alertsQuery,
+      ]);
+
+      const queryError = rulesResult.error || alertsResult.error;
+      if (queryError) {
+        console.error('Error querying outbox alerts:', queryError);
+        return res.status(500).json({ success: false, error: `Database error: ${queryError.message}` });
+      }
+
+      const rules = (rulesResult.data || []) as OutboxAlertRule[];
+      const ruleNames: Record<string, string> = {};
+      rules.forEach((rule) => {
+        ruleNames[rule.id] = rule.name;
+      });
+      const alerts = ((alertsResult.data || []) as OutboxAlert[]).map((alert) => ({
+        ...alert,
+        rule_name: ruleNames[alert.rule_id] || null,
+      }));
+
+      return res.status(200).json({ success: true, ...(activeOnly ? {} : { rules }), alerts });
+    }
+
+    const parsed = parseAlertRuleInput(req.body);
+    if (!parsed.ok) {
+      return res.status(400).json({ success: false, error: parsed.error });
+    }
+
+    const { data: created, error: insertError } = await supabaseAdmin
+      .from('outbox_alert_rules')
+      .insert({ ...parsed.input, created_by: user.id })
+      .select('*')
+      .single();
+
+    if (insertError) {
+      console.error('Error creating outbox alert rule:', insertError);
+      return res.status(500).json({ success: false, error: `Database error: ${insertError.message}` });
+    }
+
+    const rule = created as OutboxAlertRule;
+
+    // Log to audit log
+    try {
+      await supabaseAdmin.from('content_audit_log').insert({
+        actor_id: user.id,
+        action: 'outbox_alert_rule.create',
+        entity_type: 'outbox_alert_rule',
+        entity_id: rule.id,
+        metadata: { actor_email: user.email, rule: parsed.input },
+      });
+    } catch (auditError) {
+      // Non-blocking audit log error
+      console.warn('Failed to write audit log:', auditError);
+    }
+
+    await recordAdminAudit(req, user, {
+      action: 'outbox_alert_rule.create',
+      targetType: 'outbox_alert_rule',
+      targetKey: rule.id,
+      after: rule,
+    });
+
+    return res.status(201).json({ success: true, rule });
+  } catch (error) {
+    console.error('Outbox alerts API error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+  }
+}
@@ -3,23 +3,30 @@
  * 
  * GET /api/admin/outbox
  * 
- * Returns webhook_outbox entries for admin monitoring.
+ * Returns webhook_outbox entries for admin monitoring (payloads: GET /api/admin/outbox/[id]).
+ * Query: status ('all' | OutboxStatus, default 'failed'), target, createdFrom, createdTo, limit
  * Admin-only access via SSR auth check.
  */
 
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { supabaseAdmin } from '@/lib/supabaseServerClient';
 import { requireRoleFromApi } from '@/lib/authServer';
+import { OUTBOX_STATUSES } from '@/lib/outbox/manualActions';
+import type { OutboxStatus } from '@/lib/outbox/retryPolicy';
 
 interface OutboxEntry {
-  submission_id: string;
+  id: string;
+  submission_id: string | null;
   target: string;
+  event_type: string | null;
   status: string;
   attempts: number;
   created_at: string;
   last_attempt_at: string | null;
   sent_at: string | null;
   error_message: string | null;
+  next_attempt_at: string | null;
+  last_status_code: number | null;
 }
 
 interface OutboxResponse {
@@ -50,14 +57,25 @@ export default async function handler(
     // Build query
     let query = supabaseAdmin
       .from('webhook_outbox')
-      .select('submission_id, target, status, attempts, created_at, last_attempt_at, sent_at, error_message')
+      .select(
+        'id, submission_id, target, event_type, status, attempts, created_at, last_attempt_at, sent_at, error_message, next_attempt_at, last_status_code'
+      )
       .order('created_at', { ascending: false })
       .limit(limit);
 
     // Apply status filter if not 'all'
-    if (status !== 'all' && ['pending', 'failed', 'sent'].includes(status)) {
+    if (status !== 'all' && OUTBOX_STATUSES.includes(status as OutboxStatus)) {
       query = query.eq('status', status);
     }
+    if (typeof req.query.target === 'string' && req.query.target) {
+      query = query.eq('target', req.query.target);
+    }
+    if (typeof req.query.createdFrom === 'string' && req.query.createdFrom) {
+      query = query.gte('created_at', req.query.createdFrom);
+    }
+    if (typeof req.query.createdTo === 'string' && req.query.createdTo) {
+      query = query.lt('created_at', req.query.createdTo);
+    }
 
     const { data: entries, error } = await query;
 
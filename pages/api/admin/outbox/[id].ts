@@ -0,0 +1,105 @@
+/**
+ * API Route: Webhook Outbox Entry Detail (Admin Only)
+ *
+ * GET /api/admin/outbox/[id]
+ *
+ * Returns the full row including the exact JSON payload, its delivery attempts
+ * (status code, response body, error, duration) and the manual actions taken on it.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { supabaseAdmin } from '@/lib/supabaseServerClient';
+import { requireRoleFromApi } from '@/lib/authServer';
+
+interface OutboxAttempt {
+  id: string;
+  attempt_number: number;
+  worker_id: string | null;
+  status_code: number | null;
+  response_body: string | null;
+  error_message: string | null;
+  duration_ms: number | null;
+  created_at: string;
+}
+
+interface OutboxActionLogEntry {
+  action: string;
+  actor_id: string | null;
+  metadata: Record<string, unknown> | null;
+  created_at: string;
+}
+
+interface OutboxDetailResponse {
+  success: boolean;
+  entry?: Record<string, unknown>;
+  attempts?: OutboxAttempt[];
+  actions?: OutboxActionLogEntry[];
+  error?: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<OutboxDetailResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  // Require admin role only
+  const user = await requireRoleFromApi(req, res, ['admin']);
+  if (!user) return;
+
+  try {
+    const id = String(req.query.id);
+
+    const { data: entry, error } = await supabaseAdmin
+      .from('webhook_outbox')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error querying webhook_outbox:', error);
+      return res.status(500).json({ success: false, error: `Database error: ${error.message}` });
+    }
+    if (!entry) {
+      return res.status(404).json({ success: false, error: 'Outbox entry not found' });
+    }
+
+    const [attemptsResult, actionsResult] = await Promise.all([
+      supabaseAdmin
+        .from('webhook_outbox_attempts')
+        .select('id, attempt_number, worker_id, status_code, response_body, error_message, duration_ms, created_at')
+        .eq('outbox_id', id)
+        .order('created_at', { ascending: false }),
+      supabaseAdmin
+        .from('content_audit_log')
+        .select('action, actor_id, metadata, created_at')
+        .eq('entity_type', 'webhook_outbox')
+        .eq('entity_id', id)
+        .order('created_at', { ascending: false }),
+    ]);
+
+    if (attemptsResult.error) {
+      console.error('Error querying webhook_outbox_attempts:', attemptsResult.error);
+      return res.status(500).json({ success: false, error: `Database error: ${attemptsResult.error.message}` });
+    }
+    if (actionsResult.error) {
+      // History is secondary - still return the entry
+      console.warn('Error querying outbox audit log:', actionsResult.error);
+    }
+
+    return res.status(200).json({
+      success: true,
+      entry,
+      attempts: attemptsResult.data || [],
+      actions: actionsResult.data || [],
+    });
+  } catch (error) {
+    console.error('Outbox detail API error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * API Route: Webhook Outbox Manual Actions (Admin Only)
+ *
+ * POST /api/admin/outbox/actions
+ *
+ * Body: { action: 'replay' | 'cancel', ids?: string[], filter?: { status, target?, createdFrom?, createdTo? },
+ *         dryRun?: boolean }
+ *
+ * - replay: re-queues rows with a fresh retry budget; a single-row replay is delivered
+ *   immediately, batches are picked up by the next dispatcher run
+ * - cancel: stops pending/failed rows from being retried
+ * - dryRun: only returns how many rows would be affected (confirm dialogs)
+ *
+ * Every affected row gets a content_audit_log entry with the acting admin.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { supabaseAdmin } from '@/lib/supabaseServerClient';
+import { requireRoleFromApi } from '@/lib/authServer';
+import { dispatchOutbox, type DispatchSummary } from '@/lib/outbox/dispatcher';
+import {
+  MAX_BATCH_ACTION_SIZE,
+  buildCancelUpdate,
+  buildReplayUpdate,
+  getActionableStatuses,
+  parseOutboxActionRequest,
+} from '@/lib/outbox/manualActions';
+import { recordAdminAudit } from '@/lib/admin/audit/recordAdminAudit';
+
+interface OutboxActionResponse {
+  success: boolean;
+  matched?: number;
+  updated?: number;
+  dispatch?: DispatchSummary;
+  error?: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<OutboxActionResponse>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  // Require admin role only
+  const user = await requireRoleFromApi(req, res, ['admin']);
+  if (!user) return;
+
+  const parsed = parseOutboxActionRequest(req.body);
+  if (!parsed.ok) {
+    return res.status(400).json({ success: false, error: parsed.error });
+  }
+  const { action, ids, filter } = parsed.request;
+  const statuses = getActionableStatuses(action, filter);
+
+  try {
+    // Resolve the target rows (only those the action applies to)
+    let query = supabaseAdmin
+      .from('webhook_outbox')
+      .select('id, status')
+      .in('status', statuses)
+      .order('created_at', { ascending: true })
+      .limit(MAX_BATCH_ACTION_SIZE + 1);
+
+    if (ids) {
+      query = query.in('id', ids);
+    } else if (filter) {
+      if (filter.target) query = query.eq('target', filter.target);
+      if (filter.createdFrom) query = query.gte('created_at', filter.createdFrom);
+      if (filter.createdTo) query = query.lt('created_at', filter.createdTo);
+    }
+
+    const { data: matches, error: matchError } = await query;
+    if (matchError) {
+      console.error('Error querying webhook_outbox:', matchError);
+      return res.status(500).json({ success: false, error: `Database error: ${matchError.message}` });
+    }
+
+    const matchedRows = matches || [];
+    if (matchedRows.length > MAX_BATCH_ACTION_SIZE) {
+      return res.status(400).json({
+        success: false,
+        error: `More than ${MAX_BATCH_ACTION_SIZE} rows match; narrow the filter (e.g. a shorter date range)`,
+      });
+    }
+
+    if (req.body?.dryRun === true) {
+      return res.status(200).json({ success: true, matched: matchedRows.length });
+    }
+    if (matchedRows.length === 0) {
+      return res.status(200).json({ success: true, matched: 0, updated: 0 });
+    }
+
+    const targetIds = matchedRows.map((row) => row.id as string);
+    const update = action === 'replay' ? buildReplayUpdate(new Date()) : buildCancelUpdate(user.email);
+
+    // Re-check the status so rows that changed since the lookup are left alone
+    const { data: updated, error: updateError } = await supabaseAdmin
+      .from('webhook_outbox')
+      .update(update)
+      .in('id', targetIds)
+      .in('status', statuses)
+      .select('id, status');
+
+    if (updateError) {
+      console.error(`Error applying outbox ${action}:`, updateError);
+      return res.status(500).json({ success: false, error: `Database error: ${updateError.message}` });
+    }
+
+    const updatedRows = updated || [];
+    const previousStatus: Record<string, string> = {};
+    matchedRows.forEach((row) => {
+      previousStatus[row.id as string] = row.status as string;
+    });
+
+    // Log to audit log (one entry per row so it shows up in the row's history)
+    if (updatedRows.length > 0) {
+      try {
+        await supabaseAdmin.from('content_audit_log').insert(
+          updatedRows.map((row) => ({
+            actor_id: user.id,
+            action: `outbox.${action}`,
+            entity_type: 'webhook_outbox',
+            entity_id: row.id,
+            metadata: {
+              actor_email: user.email,
+              from_status: previousStatus[row.id] || null,
+              to_status: row.status,
+              batch_size: updatedRows.length,
+              ...(filter ? { filter } : {}),
+            },
+          }))
+        );
+      } catch (auditError) {
+        // Non-blocking audit log error
+        console.warn('Failed to write audit log:', auditError);
+      }
+    }
+
+    // One admin audit entry for the whole batch
+    if (updatedRows.length > 0) {
+      const afterStatus: Record<string, string> = {};
+      updatedRows.forEach((row) => {
+        afterStatus[row.id as string] = row.status as string;
+      });
+      await recordAdminAudit(req, user, {
+        action: `outbox.${action}`,
+        targetType: 'webhook_outbox',
+        targetKey: updatedRows.length === 1 ? (updatedRows[0].id as string) : null,
+        before: Object.keys(afterStatus).reduce<Record<string, string | null>>((acc, id) => {
+          acc[id] = previousStatus[id] || null;
+          return acc;
+        }, {}),
+        after: afterStatus,
+        metadata: { batch_size: updatedRows.length, ...(filter ? { filter } : {}) },
+      });
+    }
+
+    // Single replay: deliver now so the admin sees the outcome
+    let dispatch: DispatchSummary | undefined;
+    if (action === 'replay' && ids && updatedRows.length === 1) {
+      dispatch = await dispatchOutbox({ ids: [updatedRows[0].id], limit: 1 });
+    }
+
+    return res.status(200).json({
+      success: true,
+      matched: matchedRows.length,
+      updated: updatedRows.length,
+      ...(dispatch ? { dispatch } : {}),
+    });
+  } catch (error) {
+    console.error('Outbox action API error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+  }
+}
@@ -3,10 +3,12 @@
  * 
  * Admin-only endpoint for viewing and updating user roles.
  * Protected with role-based access control (admin only)
+ * Role changes are recorded in the admin audit log.
  */
 
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { requireRoleFromApi, type UserRole } from '@/lib/authServer';
+import { recordAdminAudit } from '@/lib/admin/audit/recordAdminAudit';
 
 interface ProfileSummary {
   id: string;
@@ -113,6 +115,12 @@ export default async function handler(
         });
       }
 
+      const { data: previousProfile } = await supabaseAdmin
+        .from('profiles')
+        .select('role')
+        .eq('id', body.id)
+        .maybeSingle();
+
       // Update the profile
       const { data: updatedProfile, error: updateError } = await supabaseAdmin
         .from('profiles')
@@ -152,6 +160,15 @@ export default async function handler(
         created_at: createdAt,
       };
 
+      await recordAdminAudit(req, user, {
+        action: 'people.role_change',
+        targetType: 'profile',
+        targetKey: body.id,
+        before: previousProfile ? { role: previousProfile.role } : null,
+        after: { role: profileSummary.role },
+        metadata: { email },
+      });
+
       return res.status(200).json({ profile: profileSummary });
     } catch (error) {
       console.error('API error:', error);
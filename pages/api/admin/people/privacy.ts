@@ -0,0 +1,94 @@
+/**
+ * API Route: Data Subject Requests (Admin Only)
+ *
+ * GET  /api/admin/people/privacy?email=<email> - JSON export of everything tied to the email
+ *   (and its linked account), as a download
+ * POST /api/admin/people/privacy - erase it
+ *   Body: { email, confirmEmail, deleteAccount? } (confirmEmail must repeat the email)
+ *
+ * Both are recorded in privacy_requests (requested_via 'admin'); erasures also go to the admin
+ * audit log under the email hash, never the email. Staff accounts (editor/admin)
+ * must be demoted on /admin/people before they can be erased.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireRoleFromApi } from '@/lib/authServer';
+import {
+  getSubjectAccountRole,
+  loadSubjectRows,
+  runSubjectErasure,
+  runSubjectExport,
+  subjectUserId,
+} from '@/lib/privacy/dataSubject';
+import { exportFilename, hashEmail, normalizeSubjectEmail, type ErasureSummary } from '@/lib/privacy/subjectData';
+import { recordAdminAudit } from '@/lib/admin/audit/recordAdminAudit';
+
+interface ErasureResponse {
+  success: boolean;
+  summary?: ErasureSummary;
+  error?: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ErasureResponse | string>
+) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  // Require admin role only
+  const user = await requireRoleFromApi(req, res, ['admin']);
+  if (!user) return;
+
+  const rawEmail = req.method === 'GET' ? req.query.email : req.body?.email;
+  const email = typeof rawEmail === 'string' ? normalizeSubjectEmail(rawEmail) : '';
+  if (!email) {
+    return res.status(400).json({ success: false, error: 'Missing required field: email' });
+  }
+  const subject = { email, userId: null };
+
+  try {
+    if (req.method === 'GET') {
+      const exported = await runSubjectExport(subject, 'admin', user.id);
+      res.setHeader('Content-Type', 'application/json; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${exportFilename()}"`);
+      return res.status(200).send(JSON.stringify(exported, null, 2));
+    }
+
+    const body = req.body as { confirmEmail?: unknown; deleteAccount?: unknown };
+    if (typeof body.confirmEmail !== 'string' || normalizeSubjectEmail(body.confirmEmail) !== email) {
+      return res.status(400).json({ success: false, error: 'confirmEmail must match the email being erased' });
+    }
+
+    const rows = await loadSubjectRows(subject);
+    const userId = subjectUserId(subject, rows);
+    if (userId) {
+      const role = await getSubjectAccountRole(userId);
+      if (role === 'editor' || role === 'admin') {
+        return res.status(409).json({
+          success: false,
+          error: `This email belongs to a ${role} account. Change its role on Team & Roles first.`,
+        });
+      }
+    }
+
+    const summary = await runSubjectErasure(subject, rows, 'admin', user.id, {
+      deleteAccount: body.deleteAccount === true,
+    });
+    await recordAdminAudit(req, user, {
+      action: 'privacy.erase',
+      targetType: 'data_subject',
+      targetKey: hashEmail(email),
+      after: summary,
+      metadata: { delete_account: body.deleteAccount === true },
+    });
+    return res.status(200).json({ success: true, summary });
+  } catch (error) {
+    console.error('Data subject request error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+  }
+}
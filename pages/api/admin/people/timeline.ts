@@ -0,0 +1,146 @@
+/**
+ * API Route: Person Timeline (Admin Only)
+ *
+ * GET /api/admin/people/timeline?email=<email>
+ *
+ * Everything stored about one email address (profile, status history, subscriptions,
+ * submissions and claims, waitlist joins, emails and webhook deliveries) as one timeline.
+ * Works for emails without a people row too (e.g. a guest submission).
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { supabaseAdmin } from '@/lib/supabaseServerClient';
+import { requireRoleFromApi } from '@/lib/authServer';
+import type { Person } from '@/lib/peopleService';
+import {
+  buildPersonTimeline,
+  summarizeStatusHistory,
+  type TimelineDeliveryRow,
+  type TimelineEntry,
+  type TimelineEventRow,
+  type TimelineSubmissionRow,
+  type TimelineSubscriptionRow,
+  type TimelineWaitlistRow,
+} from '@/lib/admin/people/personTimeline';
+
+interface TimelineResponse {
+  success: boolean;
+  email?: string;
+  person?: Person | null;
+  subscriptions?: TimelineSubscriptionRow[];
+  statusHistory?: Array<{ from: string | null; to: string; at: string }>;
+  timeline?: TimelineEntry[];
+  error?: string;
+}
+
+const DELIVERY_COLUMNS = 'id, submission_id, target, event_type, status, attempts, error_message, created_at, sent_at';
+
+function throwIfError(result: { error: { message: string } | null }) {
+  if (result.error) {
+    throw new Error(`Database error: ${result.error.message}`);
+  }
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<TimelineResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  // Require admin role only
+  const user = await requireRoleFromApi(req, res, ['admin']);
+  if (!user) return;
+
+  const email = typeof req.query.email === 'string' ? req.query.email.trim().toLowerCase() : '';
+  if (!email) {
+    return res.status(400).json({ success: false, error: 'Missing required query parameter: email' });
+  }
+
+  try {
+    const personResult = await supabaseAdmin.from('people').select('*').eq('email', email).maybeSingle();
+    throwIfError(personResult);
+    const person = (personResult.data as Person | null) || null;
+
+    const [eventsResult, subscriptionsResult, submissionsByEmail, submissionsByAccount, waitlistResult] =
+      await Promise.all([
+        person
+          ? supabaseAdmin.from('people_events').select('*').eq('person_id', person.id)
+          : Promise.resolve({ data: [], error: null }),
+        person
+          ? supabaseAdmin.from('subscriptions').select('*').eq('person_id', person.id)
+          : Promise.resolve({ data: [], error: null }),
+        supabaseAdmin
+          .from('assessment_submissions')
+          .select('id, assessment_type, assessment_version, primary_avatar, email, user_id, metadata, created_at')
+          .eq('email', email),
+        person?.auth_user_id
+          ? supabaseAdmin
+              .from('assessment_submissions')
+              .select('id, assessment_type, assessment_version, primary_avatar, email, user_id, metadata, created_at')
+              .eq('user_id', person.auth_user_id)
+          : Promise.resolve({ data: [], error: null }),
+        supabaseAdmin.from('waitlist').select('id, source, goal, created_at').eq('email', email),
+      ]);
+    [eventsResult, subscriptionsResult, submissionsByEmail, submissionsByAccount, waitlistResult].forEach(throwIfError);
+
+    // A claimed submission can match both by email and by account
+    const submissionsById: Record<string, TimelineSubmissionRow> = {};
+    ((submissionsByEmail.data || []) as TimelineSubmissionRow[])
+      .concat((submissionsByAccount.data || []) as TimelineSubmissionRow[])
+      .forEach((submission) => {
+        submissionsById[submission.id] = submission;
+      });
+    const submissions = Object.keys(submissionsById).map((id) => submissionsById[id]);
+
+    // Deliveries for the submissions, plus person events (keys are `<person id>:...`)
+    const [submissionDeliveries, personDeliveries] = await Promise.all([
+      submissions.length > 0
+        ? supabaseAdmin
+            .from('webhook_outbox')
+            .select(DELIVERY_COLUMNS)
+            .in('submission_id', submissions.map((submission) => submission.id))
+        : Promise.resolve({ data: [], error: null }),
+      person
+        ? supabaseAdmin.from('webhook_outbox').select(DELIVERY_COLUMNS).like('event_key', `${person.id}:%`)
+        : Promise.resolve({ data: [], error: null }),
+    ]);
+    throwIfError(submissionDeliveries);
+    throwIfError(personDeliveries);
+
+    const deliveriesById: Record<string, TimelineDeliveryRow> = {};
+    ((submissionDeliveries.data || []) as TimelineDeliveryRow[])
+      .concat((personDeliveries.data || []) as TimelineDeliveryRow[])
+      .forEach((delivery) => {
+        deliveriesById[delivery.id] = delivery;
+      });
+
+    const events = (eventsResult.data || []) as TimelineEventRow[];
+    const subscriptions = (subscriptionsResult.data || []) as TimelineSubscriptionRow[];
+
+    const timeline = buildPersonTimeline({
+      person,
+      events,
+      subscriptions,
+      submissions,
+      waitlist: (waitlistResult.data || []) as TimelineWaitlistRow[],
+      deliveries: Object.keys(deliveriesById).map((id) => deliveriesById[id]),
+    });
+
+    return res.status(200).json({
+      success: true,
+      email,
+      person,
+      subscriptions,
+      statusHistory: summarizeStatusHistory(events),
+      timeline,
+    });
+  } catch (error) {
+    console.error('Person timeline API error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * API Route: Published Pointer History
+ *
+ * GET /api/admin/pointer-history?entityType=question_set&entityId=…
+ *
+ * Publish, rollback and archive history of a question set or results pack pointer (newest
+ * first), plus the revision "roll back to previous" would publish.
+ * Requires editor or admin role.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireRoleFromApi } from '@/lib/authServer';
+import { getPublishedRevisionId, listPointerHistory } from '@/lib/pointerHistory/pointerHistory';
+import { findRollbackTarget, type PointerEntityType, type PointerHistoryEntry } from '@/lib/pointerHistory/rollbackTarget';
+
+interface PointerHistoryResponse {
+  success: boolean;
+  history?: PointerHistoryEntry[];
+  publishedRevisionId?: string | null;
+  rollbackTargetId?: string | null;
+  error?: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<PointerHistoryResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const user = await requireRoleFromApi(req, res, ['editor', 'admin']);
+  if (!user) return;
+
+  const entityType: PointerEntityType | null =
+    req.query.entityType === 'question_set' || req.query.entityType === 'results_pack' ? req.query.entityType : null;
+  const entityId = typeof req.query.entityId === 'string' ? req.query.entityId : '';
+  if (!entityType || !entityId) {
+    return res.status(400).json({ success: false, error: 'entityType and entityId are required' });
+  }
+
+  try {
+    const [history, publishedRevisionId] = await Promise.all([
+      listPointerHistory(entityType, entityId),
+      getPublishedRevisionId(entityType, entityId),
+    ]);
+
+    return res.status(200).json({
+      success: true,
+      history: history.slice().reverse(),
+      publishedRevisionId,
+      rollbackTargetId: findRollbackTarget(history, publishedRevisionId),
+    });
+  } catch (error) {
+    console.error('Pointer history error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * API Route: Roll Back Published Pointer
+ *
+ * POST /api/admin/pointer-history/rollback - { entity_type, entity_id, reason? }
+ *
+ * Re-publishes the revision that was live before the current one (lib/pointerHistory).
+ * The target is re-validated; no publish review is needed since it was published before.
+ * Requires admin role only.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireRoleFromApi } from '@/lib/authServer';
+import { supabaseAdmin } from '@/lib/supabaseServerClient';
+import { rollbackToPrevious } from '@/lib/pointerHistory/pointerHistory';
+import { MAX_POINTER_REASON_LENGTH, type PointerEntityType } from '@/lib/pointerHistory/rollbackTarget';
+import { recordAdminAudit } from '@/lib/admin/audit/recordAdminAudit';
+
+interface RollbackResponse {
+  success: boolean;
+  fromRevisionId?: string;
+  toRevisionId?: string;
+  revisionNumber?: number | null;
+  error?: string;
+  details?: {
+    errors: string[];
+    warnings: string[];
+  };
+}
+
+const AUDIT_ENTITIES: Record<PointerEntityType, { action: string; entityType: string }> = {
+  question_set: { action: 'questions.rollback', entityType: 'question_set_pointer' },
+  results_pack: { action: 'results.rollback', entityType: 'results_pack_pointer' },
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<RollbackResponse>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  // Same role as publishing
+  const user = await requireRoleFromApi(req, res, ['admin']);
+  if (!user) return;
+
+  const entityType: PointerEntityType | null =
+    req.body?.entity_type === 'question_set' || req.body?.entity_type === 'results_pack' ? req.body.entity_type : null;
+  const entityId = typeof req.body?.entity_id === 'string' ? req.body.entity_id : '';
+  if (!entityType || !entityId) {
+    return res.status(400).json({ success: false, error: 'entity_type and entity_id are required' });
+  }
+  const reason = typeof req.body?.reason === 'string' ? req.body.reason.trim() : '';
+  if (reason.length > MAX_POINTER_REASON_LENGTH) {
+    return res.status(400).json({ success: false, error: `Reason must be at most ${MAX_POINTER_REASON_LENGTH} characters` });
+  }
+
+  try {
+    const result = await rollbackToPrevious({ entityType, entityId, actor: user, reason: reason || null });
+    if (!result.ok) {
+      return res.status(result.status).json({ success: false, error: result.error, details: result.details });
+    }
+
+    // Log to audit log
+    try {
+      const audit = AUDIT_ENTITIES[entityType];
+      await supabaseAdmin.from('content_audit_log').insert({
+        actor_id: user.id,
+        action: audit.action,
+        entity_type: audit.entityType,
+        entity_id: entityId,
+        metadata: {
+          from_revision_id: result.fromRevisionId,
+          revision_id: result.toRevisionId,
+          reason: reason || null,
+        },
+      });
+    } catch (auditError) {
+      // Non-blocking audit log error
+      console.warn('Failed to write audit log:', auditError);
+    }
+
+    await recordAdminAudit(req, user, {
+      action: AUDIT_ENTITIES[entityType].action,
+      targetType: entityType,
+      targetKey: entityId,
+      before: { published_revision_id: result.fromRevisionId },
+      after: { published_revision_id: result.toRevisionId },
+      metadata: { reason: reason || null },
+    });
+
+    return res.status(200).json({
+      success: true,
+      fromRevisionId: result.fromRevisionId,
+      toRevisionId: result.toRevisionId,
+      revisionNumber: result.revisionNumber,
+    });
+  } catch (error) {
+    console.error('Pointer rollback error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+  }
+}
@@ -85,23 +85,15 @@ export default async function handler(
       });
     }
 
-    // Create new product
-    const { error } = await supabaseAdmin
-      .from('site_content')
-      .insert({
-        key,
-        status: 'published',
-        data: validationResult.data,
-        updated_at: new Date().toISOString(),
-      });
-
-    if (error) {
-      console.error('Supabase error:', error);
-      return res.status(500).json({
-        success: false,
-        error: `Database error: ${error.message}`,
-      });
-    }
+    // Create new product (revision 1 of its history)
+    const { saveSiteContentWithAudit } = await import('@/lib/siteContent/revisions');
+    await saveSiteContentWithAudit(req, {
+      key,
+      data: validationResult.data,
+      actor: user,
+      publish: true,
+      changeSummary: 'Product created',
+    });
 
     return res.status(200).json({ success: true });
   } catch (error) {
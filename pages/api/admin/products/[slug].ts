@@ -7,10 +7,11 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { requireRoleFromApi } from '@/lib/authServer';
 import { productPageContentSchema } from '@/lib/contentValidators';
+import { parseSaveQuery } from '@/lib/siteContent/siteContentKeys';
 
 export default async function handler(
   req: NextApiRequest,
-  res: NextApiResponse<{ success: boolean; error?: string }>
+  res: NextApiResponse<{ success: boolean; revisionId?: string; error?: string }>
 ) {
   // Require editor or admin role
   const user = await requireRoleFromApi(req, res, ['editor', 'admin']);
@@ -43,32 +44,21 @@ export default async function handler(
 
     const validatedContent = validationResult.data;
 
-    // Import server client
-    const { supabaseAdmin } = await import('@/lib/supabaseServerClient');
-
     const key = `product:${slug}`;
 
-    // Upsert into site_content table
-    const { error } = await supabaseAdmin
-      .from('site_content')
-      .upsert(
-        {
-          key,
-          status: 'published',
-          data: validatedContent,
-          updated_at: new Date().toISOString(),
-        },
-        {
-          onConflict: 'key,status',
-        }
-      );
+    // ?draft=1 saves a draft revision without publishing (lib/siteContent/revisions.ts)
+    const { publish, changeSummary } = parseSaveQuery(req.query);
+    const { saveSiteContentWithAudit } = await import('@/lib/siteContent/revisions');
+    const revision = await saveSiteContentWithAudit(req, {
+      key,
+      data: validatedContent,
+      actor: user,
+      publish,
+      changeSummary,
+    });
 
-    if (error) {
-      console.error('Supabase error:', error);
-      return res.status(500).json({
-        success: false,
-        error: `Database error: ${error.message}`,
-      });
+    if (!publish) {
+      return res.status(200).json({ success: true, revisionId: revision.id });
     }
 
     // Revalidate product page if it exists
@@ -79,7 +69,7 @@ export default async function handler(
       console.warn('Revalidation warning (content still saved):', revalidateError);
     }
 
-    return res.status(200).json({ success: true });
+    return res.status(200).json({ success: true, revisionId: revision.id });
   } catch (error) {
     console.error('API error:', error);
     return res.status(500).json({
@@ -0,0 +1,66 @@
+/**
+ * API Route: Publish Review Action
+ *
+ * POST /api/admin/publish-reviews/:reviewId - { action, comment? }
+ *
+ * action: approve | request_changes (comment required) | comment (comment required) | withdraw
+ * The requester and the revision author cannot approve or request changes; withdrawing is
+ * for the requester or an admin. Requires editor or admin role.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireRoleFromApi } from '@/lib/authServer';
+import { actOnReview, type PublishReviewDetail } from '@/lib/publishReview/reviews';
+import { MAX_REVIEW_COMMENT_LENGTH, type ReviewAction } from '@/lib/publishReview/reviewRules';
+import { recordAdminAudit } from '@/lib/admin/audit/recordAdminAudit';
+
+const REVIEW_ACTIONS: ReviewAction[] = ['approve', 'request_changes', 'comment', 'withdraw'];
+
+interface ReviewActionResponse {
+  success: boolean;
+  review?: PublishReviewDetail;
+  error?: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ReviewActionResponse>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const user = await requireRoleFromApi(req, res, ['editor', 'admin']);
+  if (!user) return;
+
+  try {
+    const reviewId = typeof req.query.reviewId === 'string' ? req.query.reviewId : '';
+    const action = req.body?.action as ReviewAction;
+    if (!reviewId || REVIEW_ACTIONS.indexOf(action) === -1) {
+      return res.status(400).json({ success: false, error: `action must be one of: ${REVIEW_ACTIONS.join(', ')}` });
+    }
+    const comment = typeof req.body?.comment === 'string' ? req.body.comment.trim() : '';
+    if (comment.length > MAX_REVIEW_COMMENT_LENGTH) {
+      return res.status(400).json({ success: false, error: `Comment must be at most ${MAX_REVIEW_COMMENT_LENGTH} characters` });
+    }
+
+    const result = await actOnReview({ reviewId, action, actor: user, comment: comment || null });
+    if (!result.ok) {
+      return res.status(result.status).json({ success: false, error: result.error });
+    }
+    await recordAdminAudit(req, user, {
+      action: `publish_review.${action}`,
+      targetType: result.review.entity_type,
+      targetKey: result.review.entity_id,
+      after: { review_id: reviewId, status: result.review.status, approvals: result.review.approvals },
+      metadata: { comment: comment || null },
+    });
+    return res.status(200).json({ success: true, review: result.review });
+  } catch (error) {
+    console.error('Publish review action error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * API Route: Publish Reviews
+ *
+ * GET  /api/admin/publish-reviews                                    - open reviews (review queue)
+ * GET  /api/admin/publish-reviews?entityType=question_set&entityId=… - reviews of one set / pack
+ * POST /api/admin/publish-reviews - { entity_type, entity_id, revision_id, comment?, required_approvals? }
+ *      submits a revision for review (draft → in_review)
+ *
+ * Requires editor or admin role. Publishing needs an approved review from a different user
+ * (lib/publishReview/reviewRules.ts).
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireRoleFromApi } from '@/lib/authServer';
+import { listEntityReviews, listOpenReviews, submitForReview, type PublishReviewDetail } from '@/lib/publishReview/reviews';
+import {
+  MAX_REVIEW_COMMENT_LENGTH,
+  getMinimumApprovals,
+  resolveRequiredApprovals,
+  type ReviewEntityType,
+} from '@/lib/publishReview/reviewRules';
+import { recordAdminAudit } from '@/lib/admin/audit/recordAdminAudit';
+
+interface ReviewsResponse {
+  success: boolean;
+  reviews?: PublishReviewDetail[];
+  review?: PublishReviewDetail;
+  minimumApprovals?: number;
+  error?: string;
+}
+
+function parseEntityType(value: unknown): ReviewEntityType | null {
+  return value === 'question_set' || value === 'results_pack' ? value : null;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ReviewsResponse>
+) {
+  const user = await requireRoleFromApi(req, res, ['editor', 'admin']);
+  if (!user) return;
+
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const entityType = parseEntityType(req.query.entityType);
+      const entityId = typeof req.query.entityId === 'string' ? req.query.entityId : '';
+      if (req.query.entityType !== undefined && (!entityType || !entityId)) {
+        return res.status(400).json({ success: false, error: 'entityType and entityId are required together' });
+      }
+
+      const reviews = entityType ? await listEntityReviews(entityType, entityId) : await listOpenReviews();
+      return res.status(200).json({ success: true, reviews, minimumApprovals: getMinimumApprovals() });
+    }
+
+    const entityType = parseEntityType(req.body?.entity_type);
+    const entityId = typeof req.body?.entity_id === 'string' ? req.body.entity_id : '';
+    const revisionId = typeof req.body?.revision_id === 'string' ? req.body.revision_id : '';
+    if (!entityType || !entityId || !revisionId) {
+      return res.status(400).json({ success: false, error: 'entity_type, entity_id and revision_id are required' });
+    }
+    const comment = typeof req.body?.comment === 'string' ? req.body.comment.trim() : '';
+    if (comment.length > MAX_REVIEW_COMMENT_LENGTH) {
+      return res.status(400).json({ success: false, error: `Comment must be at most ${MAX_REVIEW_COMMENT_LENGTH} characters` });
+    }
+
+    const result = await submitForReview({
+      entityType,
+      entityId,
+      revisionId,
+      actor: user,
+      requiredApprovals: resolveRequiredApprovals(req.body?.required_approvals),
+      comment: comment || null,
+    });
+    if (!result.ok) {
+      return res.status(result.status).json({ success: false, error: result.error });
+    }
+    await recordAdminAudit(req, user, {
+      action: 'publish_review.submit',
+      targetType: entityType,
+      targetKey: entityId,
+      after: { review_id: result.review.id, revision_id: revisionId, status: result.review.status },
+      metadata: { required_approvals: result.review.required_approvals, comment: comment || null },
+    });
+    return res.status(201).json({ success: true, review: result.review });
+  } catch (error) {
+    console.error('Publish reviews error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+  }
+}
@@ -10,6 +10,7 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { requireRoleFromApi } from '@/lib/authServer';
 import { supabaseAdmin } from '@/lib/supabaseServerClient';
+import { recordAdminAudit } from '@/lib/admin/audit/recordAdminAudit';
 
 interface SetPreviewRequest {
   questionSetId: string;
@@ -42,6 +43,12 @@ export default async function handler(
       });
     }
 
+    const { data: previousPointer } = await supabaseAdmin
+      .from('question_set_pointers')
+      .select('preview_revision_id')
+      .eq('question_set_id', questionSetId)
+      .maybeSingle();
+
     // Ensure pointer row exists and update preview_revision_id
     const { error } = await supabaseAdmin
       .from('question_set_pointers')
@@ -74,6 +81,14 @@ export default async function handler(
       console.warn('Failed to write audit log:', auditError);
     }
 
+    await recordAdminAudit(req, user, {
+      action: 'questions.set_preview',
+      targetType: 'question_set',
+      targetKey: questionSetId,
+      before: { preview_revision_id: previousPointer?.preview_revision_id || null },
+      after: { preview_revision_id: revisionId },
+    });
+
     return res.status(204).end();
   } catch (error) {
     console.error('Set preview error:', error);
@@ -6,6 +6,8 @@
  * Publishes a revision (sets it as the published_revision_id pointer).
  * Requires admin role only.
  * Validates revision before publishing.
+ * Requires an approved publish review from a different user (lib/publishReview).
+ * Records the pointer change (and optional reason) in the pointer history (lib/pointerHistory).
  * DB trigger enforces admin-only publish, but we also gate here.
  */
 
@@ -13,10 +15,15 @@ import type { NextApiRequest, NextApiResponse } from 'next';
 import { requireRoleFromApi } from '@/lib/authServer';
 import { supabaseAdmin } from '@/lib/supabaseServerClient';
 import { validateQuestionSet } from '@/lib/questionSet/validateQuestionSet';
+import { getApprovedReview, markReviewPublished, reopenPublishedReview } from '@/lib/publishReview/reviews';
+import { getPublishedRevisionId, recordPointerChange } from '@/lib/pointerHistory/pointerHistory';
+import { MAX_POINTER_REASON_LENGTH } from '@/lib/pointerHistory/rollbackTarget';
+import { recordAdminAudit } from '@/lib/admin/audit/recordAdminAudit';
 
 interface PublishRequest {
   questionSetId: string;
   revisionId: string;
+  reason?: string;
 }
 
 interface PublishResponse {
@@ -42,7 +49,7 @@ export default async function handler(
   }
 
   try {
-    const { questionSetId, revisionId } = req.body as PublishRequest;
+    const { questionSetId, revisionId, reason } = req.body as PublishRequest;
 
     if (!questionSetId || !revisionId) {
       return res.status(400).json({
@@ -79,6 +86,23 @@ export default async function handler(
       });
     }
 
+    // Two-person rule: another user must have approved this revision
+    const approvedReview = await getApprovedReview('question_set', questionSetId, revisionId);
+    if (!approvedReview) {
+      return res.status(409).json({
+        error: 'Revision needs an approved review from another user before it can be published',
+      });
+    }
+
+    const previousRevisionId = await getPublishedRevisionId('question_set', questionSetId);
+
+    // Close the review before the pointer moves, so its approval cannot publish twice
+    if (!(await markReviewPublished(approvedReview, user))) {
+      return res.status(409).json({
+        error: 'The approved review was already used to publish; request a new review',
+      });
+    }
+
     // Update pointer (set published_revision_id)
     // Note: preview_revision_id is NOT cleared (different from results pack behavior)
     // Service role bypasses trigger check (trigger allows service_role to update)
@@ -93,6 +117,12 @@ export default async function handler(
 
     if (ptrErr) {
       console.error('Error updating publish pointer:', ptrErr);
+      try {
+        await reopenPublishedReview(approvedReview);
+      } catch (reviewError) {
+        // The review stays closed; publishing needs a new one
+        console.warn('Failed to reopen publish review:', reviewError);
+      }
       return res.status(500).json({ error: ptrErr.message });
     }
 
@@ -105,6 +135,7 @@ export default async function handler(
         entity_id: questionSetId,
         metadata: {
           revision_id: revisionId,
+          review_id: approvedReview.id,
         },
       });
     } catch (auditError) {
@@ -112,6 +143,31 @@ export default async function handler(
       console.warn('Failed to write audit log:', auditError);
     }
 
+    try {
+      await recordPointerChange({
+        entityType: 'question_set',
+        entityId: questionSetId,
+        action: 'publish',
+        fromRevisionId: previousRevisionId,
+        toRevisionId: revisionId,
+        actor: user,
+        reason: typeof reason === 'string' ? reason.trim().slice(0, MAX_POINTER_REASON_LENGTH) : null,
+        reviewId: approvedReview.id,
+      });
+    } catch (historyError) {
+      // The revision is live; only "roll back to previous" loses this step
+      console.warn('Failed to record pointer history:', historyError);
+    }
+
+    await recordAdminAudit(req, user, {
+      action: 'questions.publish',
+      targetType: 'question_set',
+      targetKey: questionSetId,
+      before: { published_revision_id: previousRevisionId },
+      after: { published_revision_id: revisionId },
+      metadata: { review_id: approvedReview.id },
+    });
+
     return res.status(204).end();
   } catch (error) {
     console.error('Publish error:', error);
@@ -12,6 +12,7 @@ import type { NextApiRequest, NextApiResponse } from 'next';
 import { requireRoleFromApi } from '@/lib/authServer';
 import { supabaseAdmin } from '@/lib/supabaseServerClient';
 import { validateQuestionSet, hashQuestionSetJson } from '@/lib/questionSet/validateQuestionSet';
+import { recordAdminAudit } from '@/lib/admin/audit/recordAdminAudit';
 
 interface CreateRevisionRequest {
   questionSetId: string;
@@ -156,6 +157,13 @@ export default async function handler(
           console.warn('Failed to write audit log:', auditError);
         }
 
+        await recordAdminAudit(req, user, {
+          action: 'questions.create_draft',
+          targetType: 'question_set',
+          targetKey: questionSetId,
+          after: { revision_id: revRetry.id, revision_number: retryRevNumber, content_hash, notes: notes ?? null },
+        });
+
         return res.status(200).json({
           revision: revRetry,
           validation: {
@@ -188,6 +196,13 @@ export default async function handler(
       console.warn('Failed to write audit log:', auditError);
     }
 
+    await recordAdminAudit(req, user, {
+      action: 'questions.create_draft',
+      targetType: 'question_set',
+      targetKey: questionSetId,
+      after: { revision_id: rev.id, revision_number: nextRevNumber, content_hash, notes: notes ?? null },
+    });
+
     return res.status(200).json({
       revision: rev,
       validation: {
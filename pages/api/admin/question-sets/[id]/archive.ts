@@ -6,11 +6,14 @@
  * Archives a question set (soft delete - reversible).
  * Requires admin role only.
  * Sets status to 'archived' and clears published/preview pointers.
+ * The cleared published pointer is recorded in the pointer history (lib/pointerHistory).
  */
 
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { requireRoleFromApi } from '@/lib/authServer';
 import { supabaseAdmin } from '@/lib/supabaseServerClient';
+import { getPublishedRevisionId, recordPointerChange } from '@/lib/pointerHistory/pointerHistory';
+import { recordAdminAudit } from '@/lib/admin/audit/recordAdminAudit';
 
 interface ArchiveResponse {
   success?: boolean;
@@ -78,6 +81,8 @@ export default async function handler(
       return res.status(500).json({ error: updateError.message });
     }
 
+    const previousRevisionId = await getPublishedRevisionId('question_set', id);
+
     // Clear published and preview pointers (optional - but makes it truly "archived")
     await supabaseAdmin
       .from('question_set_pointers')
@@ -87,6 +92,21 @@ export default async function handler(
       })
       .eq('question_set_id', id);
 
+    if (previousRevisionId) {
+      try {
+        await recordPointerChange({
+          entityType: 'question_set',
+          entityId: id,
+          action: 'archive',
+          fromRevisionId: previousRevisionId,
+          toRevisionId: null,
+          actor: user,
+        });
+      } catch (historyError) {
+        console.warn('Failed to record pointer history:', historyError);
+      }
+    }
+
     // Log to audit log
     try {
       await supabaseAdmin.from('content_audit_log').insert({
@@ -104,6 +124,14 @@ export default async function handler(
       console.warn('Failed to write audit log:', auditError);
     }
 
+    await recordAdminAudit(req, user, {
+      action: 'questions.archive',
+      targetType: 'question_set',
+      targetKey: id,
+      before: { status: questionSet.status, published_revision_id: previousRevisionId },
+      after: { status: 'archived', published_revision_id: null },
+    });
+
     return res.status(200).json({ success: true });
   } catch (error) {
     console.error('Archive question set error:', error);
@@ -12,6 +12,7 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { requireRoleFromApi } from '@/lib/authServer';
 import { supabaseAdmin } from '@/lib/supabaseServerClient';
+import { recordAdminAudit } from '@/lib/admin/audit/recordAdminAudit';
 
 interface DeleteResponse {
   success?: boolean;
@@ -93,6 +94,15 @@ export default async function handler(
       console.warn('Failed to write audit log:', auditError);
     }
 
+    await recordAdminAudit(req, user, {
+      action: 'questions.delete',
+      targetType: 'question_set',
+      targetKey: id,
+      before: questionSet,
+      after: null,
+      metadata: { existing_submissions: submissionCount || 0 },
+    });
+
     const response: DeleteResponse = { success: true };
     if (submissionCount && submissionCount > 0) {
       response.warning = `${submissionCount} assessment submission(s) still reference this assessment type/version and were not deleted.`;
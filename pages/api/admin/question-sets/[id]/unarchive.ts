@@ -10,6 +10,7 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { requireRoleFromApi } from '@/lib/authServer';
 import { supabaseAdmin } from '@/lib/supabaseServerClient';
+import { recordAdminAudit } from '@/lib/admin/audit/recordAdminAudit';
 
 interface UnarchiveResponse {
   success?: boolean;
@@ -94,6 +95,14 @@ export default async function handler(
       console.warn('Failed to write audit log:', auditError);
     }
 
+    await recordAdminAudit(req, user, {
+      action: 'questions.unarchive',
+      targetType: 'question_set',
+      targetKey: id,
+      before: { status: questionSet.status },
+      after: { status: 'active' },
+    });
+
     return res.status(200).json({ success: true });
   } catch (error) {
     console.error('Unarchive question set error:', error);
@@ -10,6 +10,8 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { requireRoleFromApi } from '@/lib/authServer';
 import { supabaseAdmin } from '@/lib/supabaseServerClient';
+import { normalizeLocale, toStoredLocale } from '@/lib/i18n/locale';
+import { recordAdminAudit } from '@/lib/admin/audit/recordAdminAudit';
 
 interface CreateQuestionSetRequest {
   assessment_type: string;
@@ -52,12 +54,16 @@ export default async function handler(
       });
     }
 
+    if (locale && !normalizeLocale(locale)) {
+      return res.status(400).json({ error: `Invalid locale "${locale}". Use a tag like "es" or "es-MX".` });
+    }
+
     // Upsert question set identity (idempotent)
-    // Handle NULL locale: use null in DB if locale is null/undefined/empty string
+    // Default locale is stored as NULL; other locales in canonical form (es_mx → es-MX)
     const insertData: { assessment_type: string; assessment_version: string; locale?: string | null } = {
       assessment_type,
       assessment_version,
-      locale: locale === null || locale === undefined || locale === '' ? null : locale,
+      locale: toStoredLocale(locale),
     };
 
     const { data, error } = await supabaseAdmin
@@ -92,6 +98,13 @@ export default async function handler(
       console.warn('Failed to write audit log:', auditError);
     }
 
+    await recordAdminAudit(req, user, {
+      action: 'questions.create_set',
+      targetType: 'question_set',
+      targetKey: data.id,
+      after: data,
+    });
+
     return res.status(200).json({ questionSet: data });
   } catch (error) {
     console.error('Create question set error:', error);
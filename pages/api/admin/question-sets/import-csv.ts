@@ -12,7 +12,13 @@ import { requireRoleFromApi } from '@/lib/authServer';
 import { supabaseAdmin } from '@/lib/supabaseServerClient';
 import { validateQuestionSet, hashQuestionSetJson } from '@/lib/questionSet/validateQuestionSet';
 import { parseCSV } from '@/lib/questionSet/csvParser';
-import { buildQuestionSetFromCSV } from '@/lib/questionSet/csvToQuestionSet';
+import { normalizeLocale, toStoredLocale } from '@/lib/i18n/locale';
+import {
+  buildQuestionSetFromCSV,
+  OPTION_CSV_OPTIONAL_COLUMNS,
+  QUESTION_CSV_OPTIONAL_COLUMNS,
+} from '@/lib/questionSet/csvToQuestionSet';
+import { recordAdminAudit } from '@/lib/admin/audit/recordAdminAudit';
 import formidable from 'formidable';
 import type { File as FormidableFile } from 'formidable';
 import fs from 'fs';
@@ -98,8 +104,18 @@ export default async function handler(
     // Parse CSV files
     const metaParse = parseCSV(metaContent, 'meta.csv', ['key', 'value']);
     const sectionsParse = parseCSV(sectionsContent, 'sections.csv', ['section_id', 'title', 'order']);
-    const questionsParse = parseCSV(questionsContent, 'questions.csv', ['question_id', 'section_id', 'text', 'order']);
-    const optionsParse = parseCSV(optionsContent, 'options.csv', ['question_id', 'option_id', 'label', 'value']);
+    const questionsParse = parseCSV(
+      questionsContent,
+      'questions.csv',
+      ['question_id', 'section_id', 'text', 'order'],
+      QUESTION_CSV_OPTIONAL_COLUMNS
+    );
+    const optionsParse = parseCSV(
+      optionsContent,
+      'options.csv',
+      ['question_id', 'option_id', 'label', 'value'],
+      OPTION_CSV_OPTIONAL_COLUMNS
+    );
 
     // Collect all parsing errors
     const parseErrors = [
@@ -170,18 +186,27 @@ export default async function handler(
     }
     const assessmentType = metaObj.assessmentType || buildResult.questionSet.assessmentType;
     const assessmentVersion = metaObj.assessmentVersion || '';
-    const locale = metaObj.locale?.trim() || null;
+    const rawLocale = metaObj.locale?.trim() || null;
+    const locale = toStoredLocale(rawLocale); // Canonical tag; default locale stored as NULL
     const notes = metaObj.notes?.trim() || null;
 
     // Validate question set structure
     const validation = validateQuestionSet(buildResult.questionSet);
-    if (!validation.ok) {
+    const localeInvalid = !!rawLocale && !normalizeLocale(rawLocale);
+    if (!validation.ok || localeInvalid) {
       // Convert validation errors to CSV error format
       const validationErrors = validation.errors.map((error) => ({
         file: 'validation',
         row: 0,
         message: error,
       }));
+      if (localeInvalid) {
+        validationErrors.push({
+          file: 'meta',
+          row: 0,
+          message: `Invalid locale "${rawLocale}". Use a tag like "es" or "es-MX" (leave empty for the default locale).`,
+        });
+      }
 
       // Clean up uploaded files
       [metaFile, sectionsFile, questionsFile, optionsFile].forEach((file) => {
@@ -202,7 +227,7 @@ export default async function handler(
     const insertData: { assessment_type: string; assessment_version: string; locale?: string | null } = {
       assessment_type: assessmentType,
       assessment_version: assessmentVersion,
-      locale: locale === null || locale === '' ? null : locale,
+      locale,
     };
 
     // First, try to find existing question set
@@ -421,6 +446,17 @@ export default async function handler(
           }
         });
 
+        await recordAdminAudit(req, user, {
+          action: 'questions.import_csv',
+          targetType: 'question_set',
+          targetKey: questionSet.id,
+          after: { revision_id: revisionRetry.id, revision_number: retryRevNumber, content_hash },
+          metadata: {
+            section_count: buildResult.questionSet.sections.length,
+            question_count: buildResult.questionSet.questions.length,
+          },
+        });
+
         const previewUrl = `/api/question-sets/resolve?assessmentType=${encodeURIComponent(assessmentType)}&assessmentVersion=${encodeURIComponent(assessmentVersion)}${locale ? `&locale=${encodeURIComponent(locale)}` : ''}&preview=1`;
 
         return res.status(200).json({
@@ -473,6 +509,17 @@ export default async function handler(
       }
     });
 
+    await recordAdminAudit(req, user, {
+      action: 'questions.import_csv',
+      targetType: 'question_set',
+      targetKey: questionSet.id,
+      after: { revision_id: revision.id, revision_number: nextRevNumber, content_hash },
+      metadata: {
+        section_count: buildResult.questionSet.sections.length,
+        question_count: buildResult.questionSet.questions.length,
+      },
+    });
+
     const previewUrl = `/api/question-sets/resolve?assessmentType=${encodeURIComponent(assessmentType)}&assessmentVersion=${encodeURIComponent(assessmentVersion)}${locale ? `&locale=${encodeURIComponent(locale)}` : ''}&preview=1`;
 
     return res.status(200).json({
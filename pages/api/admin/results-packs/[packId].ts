@@ -3,7 +3,8 @@
  * 
  * GET /api/admin/results-packs/:packId
  * 
- * Returns results pack identity, pointers, and full revision list.
+ * Returns results pack identity, pointers, full revision list, and the pack's
+ * translations (same assessment/version/level in other locales).
  * Requires editor or admin role.
  */
 
@@ -16,10 +17,17 @@ interface ResultsPackDetail {
   assessmentType: string;
   resultsVersion: string;
   levelId: string;
+  locale: string | null; // NULL = default locale
   createdAt: string;
   updatedAt: string;
 }
 
+interface TranslationItem {
+  id: string;
+  locale: string | null;
+  publishedRevisionId: string | null;
+}
+
 interface PointerInfo {
   publishedRevisionId: string | null;
   previewRevisionId: string | null;
@@ -41,6 +49,7 @@ interface DetailResponse {
   resultsPack: ResultsPackDetail;
   pointers: PointerInfo;
   revisions: RevisionItem[];
+  translations: TranslationItem[];
 }
 
 interface ErrorResponse {
@@ -71,7 +80,7 @@ export default async function handler(
     // Fetch results pack
     const { data: resultsPack, error: packError } = await supabaseAdmin
       .from('results_packs')
-      .select('id, assessment_type, results_version, level_id, created_at, updated_at')
+      .select('id, assessment_type, results_version, level_id, locale, created_at, updated_at')
       .eq('id', packId)
       .single();
 
@@ -107,6 +116,36 @@ export default async function handler(
       return res.status(500).json({ error: revError.message });
     }
 
+    // Fetch translations (all locales of this assessment/version/level, including this one)
+    const { data: siblings, error: siblingsError } = await supabaseAdmin
+      .from('results_packs')
+      .select('id, locale')
+      .eq('assessment_type', resultsPack.assessment_type)
+      .eq('results_version', resultsPack.results_version)
+      .eq('level_id', resultsPack.level_id);
+
+    if (siblingsError) {
+      console.error('Error fetching translations:', siblingsError);
+      return res.status(500).json({ error: siblingsError.message });
+    }
+
+    const siblingIds = (siblings || []).map((sibling) => sibling.id);
+    const { data: siblingPointers } = siblingIds.length
+      ? await supabaseAdmin
+          .from('results_pack_pointers')
+          .select('pack_id, published_revision_id')
+          .in('pack_id', siblingIds)
+      : { data: [] as Array<{ pack_id: string; published_revision_id: string | null }> };
+
+    const translations: TranslationItem[] = (siblings || [])
+      .map((sibling) => ({
+        id: sibling.id,
+        locale: sibling.locale ?? null,
+        publishedRevisionId:
+          siblingPointers?.find((ptr) => ptr.pack_id === sibling.id)?.published_revision_id || null,
+      }))
+      .sort((a, b) => (a.locale || '').localeCompare(b.locale || ''));
+
     return res.status(200).json({
       ok: true,
       resultsPack: {
@@ -114,6 +153,7 @@ export default async function handler(
         assessmentType: resultsPack.assessment_type,
         resultsVersion: resultsPack.results_version,
         levelId: resultsPack.level_id,
+        locale: resultsPack.locale ?? null,
         createdAt: resultsPack.created_at,
         updatedAt: resultsPack.updated_at,
       },
@@ -131,6 +171,7 @@ export default async function handler(
         changeSummary: rev.change_summary || null,
         validationErrors: rev.validation_errors || null,
       })),
+      translations,
     });
   } catch (error) {
     console.error('Get results pack detail error:', error);
@@ -0,0 +1,102 @@
+/**
+ * API Route: Results Pack Revision Diff
+ *
+ * GET /api/admin/results-packs/:packId/diff?revisionId=...&compareTo=...
+ *
+ * Structured diff of a revision against `compareTo` (default: the published revision),
+ * grouped by flow page.
+ * Requires editor or admin role.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireRoleFromApi } from '@/lib/authServer';
+import { supabaseAdmin } from '@/lib/supabaseServerClient';
+import { diffResultsPacks } from '@/lib/resultsPack/diffResultsPack';
+import type { ContentDiffGroup } from '@/lib/contentDiff';
+
+interface RevisionRef {
+  id: string;
+  revisionNumber: number;
+}
+
+interface DiffResponse {
+  ok: true;
+  revision: RevisionRef;
+  compareTo: RevisionRef | null;
+  diff: { groups: ContentDiffGroup[] } | null;
+}
+
+interface ErrorResponse {
+  ok?: false;
+  error: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<DiffResponse | ErrorResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const user = await requireRoleFromApi(req, res, ['editor', 'admin']);
+  if (!user) {
+    return; // Response already sent by requireRoleFromApi
+  }
+
+  try {
+    const { packId, revisionId, compareTo } = req.query;
+
+    if (!packId || typeof packId !== 'string' || !revisionId || typeof revisionId !== 'string') {
+      return res.status(400).json({ error: 'Results pack ID and revisionId are required' });
+    }
+
+    let compareToId = typeof compareTo === 'string' && compareTo ? compareTo : null;
+    if (!compareToId) {
+      const { data: pointer, error: ptrError } = await supabaseAdmin
+        .from('results_pack_pointers')
+        .select('published_revision_id')
+        .eq('pack_id', packId)
+        .maybeSingle();
+
+      if (ptrError) {
+        console.error('Error fetching pointer:', ptrError);
+        return res.status(500).json({ error: ptrError.message });
+      }
+      compareToId = pointer?.published_revision_id || null;
+    }
+
+    const ids = compareToId ? [revisionId, compareToId] : [revisionId];
+    const { data: rows, error: revError } = await supabaseAdmin
+      .from('results_pack_revisions')
+      .select('id, revision_number, content_json')
+      .eq('pack_id', packId)
+      .in('id', ids);
+
+    if (revError) {
+      console.error('Error fetching revisions:', revError);
+      return res.status(500).json({ error: revError.message });
+    }
+
+    const revision = (rows || []).find((row) => row.id === revisionId);
+    if (!revision) {
+      return res.status(404).json({ error: 'Revision not found' });
+    }
+    const base = compareToId ? (rows || []).find((row) => row.id === compareToId) : null;
+    if (compareToId && !base) {
+      return res.status(404).json({ error: 'Comparison revision not found' });
+    }
+
+    return res.status(200).json({
+      ok: true,
+      revision: { id: revision.id, revisionNumber: revision.revision_number },
+      compareTo: base ? { id: base.id, revisionNumber: base.revision_number } : null,
+      diff: base ? diffResultsPacks(base.content_json, revision.content_json) : null,
+    });
+  } catch (error) {
+    console.error('Results pack diff error:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * API Route: Results Email Preview
+ *
+ * GET  /api/admin/results-packs/[packId]/email-preview?revisionId=xxx - a saved revision
+ * POST /api/admin/results-packs/[packId]/email-preview { content_json } - unsaved editor content
+ *
+ * Renders the results email (subject, HTML, text) for sample recipient data.
+ * Requires editor or admin role.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireRole, supabaseAdmin } from '@/lib/resultsPack/requireRole';
+import type { ResultsPack } from '@/lib/assessments/results/loadResultsPack';
+import {
+  isEmailChannelEnabled,
+  renderResultsEmail,
+  validateEmailTemplate,
+  RESULTS_EMAIL_VARIABLES,
+  type ResultsEmailPreview,
+} from '@/lib/email/resultsEmail';
+import { getSiteUrl } from '@/lib/consent/emailConsent';
+
+type EmailPreviewResponse = ResultsEmailPreview | { error: string };
+
+/** Sample recipient for previews (no real submission behind the links) */
+const PREVIEW_SUBMISSION_ID = 'preview';
+const PREVIEW_FIRST_NAME = 'Alex';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<EmailPreviewResponse>
+) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const auth = await requireRole(req, res, ['editor', 'admin']);
+  if (!auth) {
+    return; // Response already sent by requireRole
+  }
+
+  try {
+    const packId = String(req.query.packId);
+    let pack: ResultsPack | null = null;
+
+    if (req.method === 'POST') {
+      pack = (req.body?.content_json as ResultsPack) || null;
+      if (!pack || typeof pack !== 'object') {
+        return res.status(400).json({ error: 'content_json is required' });
+      }
+    } else {
+      const revisionId = req.query.revisionId as string;
+      if (!revisionId) {
+        return res.status(400).json({ error: 'revisionId is required' });
+      }
+      const { data: rev, error } = await supabaseAdmin
+        .from('results_pack_revisions')
+        .select('content_json')
+        .eq('id', revisionId)
+        .eq('pack_id', packId)
+        .maybeSingle();
+      if (error) {
+        return res.status(500).json({ error: `Database error: ${error.message}` });
+      }
+      if (!rev) {
+        return res.status(404).json({ error: 'Revision not found' });
+      }
+      pack = rev.content_json as ResultsPack;
+    }
+
+    const rendered = renderResultsEmail(pack, {
+      siteUrl: getSiteUrl(),
+      submissionId: PREVIEW_SUBMISSION_ID,
+      firstName: PREVIEW_FIRST_NAME,
+    });
+
+    return res.status(200).json({
+      preview: { ...rendered, channelEnabled: isEmailChannelEnabled(pack) },
+      errors: pack.email ? validateEmailTemplate(pack.email) : [],
+      variables: RESULTS_EMAIL_VARIABLES,
+    });
+  } catch (error) {
+    console.error('Email preview error:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * API Route: Results Pack Experiment Detail
+ *
+ * GET   /api/admin/results-packs/[packId]/experiments/[experimentId]
+ *   Experiment plus its report: sessions and email capture / PDF download / method CTA
+ *   click rates per variant, with a significance estimate against the control.
+ *   Requires editor or admin role.
+ *
+ * PATCH /api/admin/results-packs/[packId]/experiments/[experimentId]
+ *   Body: { action: 'start' | 'stop' } or { variants } (draft only, to adjust traffic)
+ *   Requires admin role. Only one experiment per pack can be running.
+ *   Stopping keeps existing assignments pinned; new sessions get the published revision.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireRole, supabaseAdmin } from '@/lib/resultsPack/requireRole';
+import {
+  validateExperimentVariants,
+  type ExperimentVariant,
+} from '@/lib/assessments/results/experimentAssignment';
+import { buildExperimentReport, type ExperimentReport } from '@/lib/admin/assessments/experimentReport';
+import {
+  EXPERIMENT_COLUMNS,
+  loadExperimentEvents,
+  toExperimentItem,
+  type ExperimentItem,
+} from '@/lib/resultsPack/experiments';
+import { recordAdminAudit } from '@/lib/admin/audit/recordAdminAudit';
+
+interface UpdateExperimentRequest {
+  action?: 'start' | 'stop';
+  variants?: ExperimentVariant[];
+}
+
+interface ExperimentResponse {
+  experiment?: ExperimentItem;
+  report?: ExperimentReport;
+  error?: string;
+  details?: string[];
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ExperimentResponse>
+) {
+  if (req.method === 'GET') {
+    return handleGet(req, res);
+  }
+  if (req.method === 'PATCH') {
+    return handlePatch(req, res);
+  }
+  return res.status(405).json({ error: 'Method not allowed' });
+}
+
+async function fetchExperiment(packId: string, experimentId: string) {
+  const { data, error } = await supabaseAdmin
+    .from('results_pack_experiments')
+    .select(EXPERIMENT_COLUMNS)
+    .eq('id', experimentId)
+    .eq('pack_id', packId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Database error: ${error.message}`);
+  }
+  return data ? toExperimentItem(data) : null;
+}
+
+async function handleGet(req: NextApiRequest, res: NextApiResponse<ExperimentResponse>) {
+  const auth = await requireRole(req, res, ['editor', 'admin']);
+  if (!auth) {
+    return; // Response already sent by requireRole
+  }
+
+  try {
+    const experiment = await fetchExperiment(String(req.query.packId), String(req.query.experimentId));
+    if (!experiment) {
+      return res.status(404).json({ error: 'Experiment not found' });
+    }
+
+    const { assignments, conversions } = await loadExperimentEvents(experiment.id);
+    const report = buildExperimentReport(experiment.variants, assignments, conversions);
+
+    return res.status(200).json({ experiment, report });
+  } catch (error) {
+    console.error('Experiment report error:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+  }
+}
+
+async function handlePatch(req: NextApiRequest, res: NextApiResponse<ExperimentResponse>) {
+  const auth = await requireRole(req, res, ['admin']);
+  if (!auth) {
+    return; // Response already sent by requireRole
+  }
+
+  try {
+    const packId = String(req.query.packId);
+    const { action, variants } = req.body as UpdateExperimentRequest;
+
+    const experiment = await fetchExperiment(packId, String(req.query.experimentId));
+    if (!experiment) {
+      return res.status(404).json({ error: 'Experiment not found' });
+    }
+
+    const now = new Date().toISOString();
+    let update: Record<string, unknown>;
+    let auditAction: string;
+
+    if (action === 'start') {
+      if (experiment.status !== 'draft') {
+        return res.status(409).json({ error: `Cannot start an experiment that is ${experiment.status}` });
+      }
+      update = { status: 'running', started_at: now, updated_at: now };
+      auditAction = 'results.experiment_start';
+    } else if (action === 'stop') {
+      if (experiment.status !== 'running') {
+        return res.status(409).json({ error: 'Only running experiments can be stopped' });
+      }
+      update = { status: 'stopped', stopped_at: now, updated_at: now };
+      auditAction = 'results.experiment_stop';
+    } else if (variants !== undefined) {
+      if (experiment.status !== 'draft') {
+        return res.status(409).json({ error: 'Variants can only be changed while the experiment is a draft' });
+      }
+      const variantErrors = validateExperimentVariants(variants);
+      if (variantErrors.length > 0) {
+        return res.status(400).json({ error: 'Invalid variants', details: variantErrors });
+      }
+      // Traffic changes only - the variant → revision mapping is fixed at creation
+      const changedMapping =
+        variants.length !== experiment.variants.length ||
+        variants.some(
+          (variant, index) =>
+            variant.variantId !== experiment.variants[index].variantId ||
+            (variant.revisionId || null) !== (experiment.variants[index].revisionId || null)
+        );
+      if (changedMapping) {
+        return res.status(400).json({ error: 'Only variant weights can be changed; create a new experiment instead' });
+      }
+      update = {
+        variants: experiment.variants.map((variant, index) => ({ ...variant, weight: variants[index].weight })),
+        updated_at: now,
+      };
+      auditAction = 'results.experiment_update';
+    } else {
+      return res.status(400).json({ error: "Provide action ('start' | 'stop') or variants" });
+    }
+
+    const { data: updated, error: updateError } = await supabaseAdmin
+      .from('results_pack_experiments')
+      .update(update)
+      .eq('id', experiment.id)
+      .eq('status', experiment.status) // Guard against concurrent transitions
+      .select(EXPERIMENT_COLUMNS)
+      .maybeSingle();
+
+    if (updateError) {
+      // Unique index: one running experiment per pack
+      if (updateError.code === '23505') {
+        return res.status(409).json({ error: 'Another experiment is already running for this pack' });
+      }
+      console.error('Error updating experiment:', updateError);
+      return res.status(500).json({ error: updateError.message });
+    }
+
+    if (!updated) {
+      return res.status(409).json({ error: 'Experiment was changed by someone else; reload and try again' });
+    }
+
+    // Log to audit log
+    try {
+      await supabaseAdmin.from('content_audit_log').insert({
+        actor_id: auth.user.id,
+        action: auditAction,
+        entity_type: 'results_pack_experiment',
+        entity_id: experiment.id,
+        metadata: {
+          pack_id: packId,
+          from_status: experiment.status,
+          to_status: updated.status,
+          variants: updated.variants,
+        },
+      });
+    } catch (auditError) {
+      // Non-blocking audit log error
+      console.warn('Failed to write audit log:', auditError);
+    }
+
+    await recordAdminAudit(req, auth.user, {
+      action: auditAction,
+      targetType: 'results_pack_experiment',
+      targetKey: experiment.id,
+      before: experiment,
+      after: updated,
+      metadata: { pack_id: packId },
+    });
+
+    return res.status(200).json({ experiment: toExperimentItem(updated) });
+  } catch (error) {
+    console.error('Update experiment error:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+  }
+}
@@ -0,0 +1,186 @@
+/**
+ * API Route: Results Pack Experiments
+ *
+ * GET  /api/admin/results-packs/[packId]/experiments - List experiments (editor/admin)
+ * POST /api/admin/results-packs/[packId]/experiments - Create a draft experiment (admin)
+ *
+ * Body (POST): { name, variants: [{ variantId, revisionId, weight }] }
+ * The first variant is the control; revisionId null serves the published revision.
+ * Variant revisions must belong to the pack and pass results pack validation.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireRole, supabaseAdmin } from '@/lib/resultsPack/requireRole';
+import { validateResultsPack } from '@/lib/resultsPack/validateResultsPack';
+import {
+  validateExperimentVariants,
+  type ExperimentVariant,
+} from '@/lib/assessments/results/experimentAssignment';
+import { EXPERIMENT_COLUMNS, toExperimentItem, type ExperimentItem } from '@/lib/resultsPack/experiments';
+import { recordAdminAudit } from '@/lib/admin/audit/recordAdminAudit';
+
+interface CreateExperimentRequest {
+  name?: string;
+  variants?: ExperimentVariant[];
+}
+
+interface ExperimentsResponse {
+  experiments?: ExperimentItem[];
+  experiment?: ExperimentItem;
+  error?: string;
+  details?: string[];
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ExperimentsResponse>
+) {
+  if (req.method === 'GET') {
+    return handleGet(req, res);
+  }
+  if (req.method === 'POST') {
+    return handlePost(req, res);
+  }
+  return res.status(405).json({ error: 'Method not allowed' });
+}
+
+async function handleGet(req: NextApiRequest, res: NextApiResponse<ExperimentsResponse>) {
+  const auth = await requireRole(req, res, ['editor', 'admin']);
+  if (!auth) {
+    return; // Response already sent by requireRole
+  }
+
+  const packId = String(req.query.packId);
+
+  const { data, error } = await supabaseAdmin
+    .from('results_pack_experiments')
+    .select(EXPERIMENT_COLUMNS)
+    .eq('pack_id', packId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching experiments:', error);
+    return res.status(500).json({ error: error.message });
+  }
+
+  return res.status(200).json({ experiments: (data || []).map(toExperimentItem) });
+}
+
+async function handlePost(req: NextApiRequest, res: NextApiResponse<ExperimentsResponse>) {
+  // Experiments change what live users see - admin only (like publishing)
+  const auth = await requireRole(req, res, ['admin']);
+  if (!auth) {
+    return; // Response already sent by requireRole
+  }
+
+  try {
+    const packId = String(req.query.packId);
+    const { name, variants } = req.body as CreateExperimentRequest;
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: 'name is required' });
+    }
+
+    const variantErrors = validateExperimentVariants(variants);
+    if (variantErrors.length > 0) {
+      return res.status(400).json({ error: 'Invalid variants', details: variantErrors });
+    }
+
+    const { data: pack, error: packError } = await supabaseAdmin
+      .from('results_packs')
+      .select('id')
+      .eq('id', packId)
+      .maybeSingle();
+
+    if (packError || !pack) {
+      return res.status(404).json({ error: 'Results pack not found' });
+    }
+
+    // Variant revisions must belong to this pack and be valid packs
+    const revisionIds = (variants as ExperimentVariant[])
+      .map((variant) => variant.revisionId)
+      .filter((id): id is string => !!id);
+
+    if (revisionIds.length > 0) {
+      const { data: revisions, error: revError } = await supabaseAdmin
+        .from('results_pack_revisions')
+        .select('id, pack_id, content_json')
+        .in('id', revisionIds);
+
+      if (revError) {
+        console.error('Error fetching variant revisions:', revError);
+        return res.status(500).json({ error: revError.message });
+      }
+
+      const details: string[] = [];
+      revisionIds.forEach((revisionId) => {
+        const revision = (revisions || []).find((rev) => rev.id === revisionId);
+        if (!revision || revision.pack_id !== packId) {
+          details.push(`Revision ${revisionId} does not belong to this pack`);
+          return;
+        }
+        const validation = validateResultsPack(revision.content_json);
+        if (!validation.ok) {
+          details.push(`Revision ${revisionId} failed validation: ${validation.errors.join('; ')}`);
+        }
+      });
+
+      if (details.length > 0) {
+        return res.status(400).json({ error: 'Invalid variant revisions', details });
+      }
+    }
+
+    const { data: created, error: insertError } = await supabaseAdmin
+      .from('results_pack_experiments')
+      .insert({
+        pack_id: packId,
+        name: name.trim(),
+        status: 'draft',
+        variants: (variants as ExperimentVariant[]).map((variant) => ({
+          variantId: variant.variantId,
+          revisionId: variant.revisionId || null,
+          weight: variant.weight,
+        })),
+        created_by: auth.user.id,
+      })
+      .select(EXPERIMENT_COLUMNS)
+      .single();
+
+    if (insertError || !created) {
+      console.error('Error creating experiment:', insertError);
+      return res.status(500).json({ error: insertError?.message || 'Failed to create experiment' });
+    }
+
+    // Log to audit log
+    try {
+      await supabaseAdmin.from('content_audit_log').insert({
+        actor_id: auth.user.id,
+        action: 'results.experiment_create',
+        entity_type: 'results_pack_experiment',
+        entity_id: created.id,
+        metadata: {
+          pack_id: packId,
+          variants: created.variants,
+        },
+      });
+    } catch (auditError) {
+      // Non-blocking audit log error
+      console.warn('Failed to write audit log:', auditError);
+    }
+
+    await recordAdminAudit(req, auth.user, {
+      action: 'results.experiment_create',
+      targetType: 'results_pack_experiment',
+      targetKey: created.id,
+      after: created,
+      metadata: { pack_id: packId },
+    });
+
+    return res.status(201).json({ experiment: toExperimentItem(created) });
+  } catch (error) {
+    console.error('Create experiment error:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+  }
+}
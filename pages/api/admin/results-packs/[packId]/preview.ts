@@ -9,6 +9,7 @@
 
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { requireRole, supabaseAdmin } from '@/lib/resultsPack/requireRole';
+import { recordAdminAudit } from '@/lib/admin/audit/recordAdminAudit';
 
 interface SetPreviewRequest {
   revision_id: string;
@@ -39,6 +40,12 @@ export default async function handler(
       return res.status(400).json({ error: 'revision_id is required' });
     }
 
+    const { data: previousPointer } = await supabaseAdmin
+      .from('results_pack_pointers')
+      .select('preview_revision_id')
+      .eq('pack_id', packId)
+      .maybeSingle();
+
     // Ensure pointer row exists and update preview_revision_id
     const { error } = await supabaseAdmin
       .from('results_pack_pointers')
@@ -69,6 +76,14 @@ export default async function handler(
       console.warn('Failed to write audit log:', auditError);
     }
 
+    await recordAdminAudit(req, auth.user, {
+      action: 'results.set_preview',
+      targetType: 'results_pack',
+      targetKey: packId,
+      before: { preview_revision_id: previousPointer?.preview_revision_id || null },
+      after: { preview_revision_id: revision_id },
+    });
+
     return res.status(204).end();
   } catch (error) {
     console.error('Set preview error:', error);
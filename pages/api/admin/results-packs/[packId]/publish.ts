@@ -6,14 +6,21 @@
  * Publishes a revision (sets it as the published_revision_id pointer).
  * Requires admin role only.
  * Validates revision before publishing.
+ * Requires an approved publish review from a different user (lib/publishReview).
+ * Records the pointer change (and optional reason) in the pointer history (lib/pointerHistory).
  */
 
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { requireRole, supabaseAdmin } from '@/lib/resultsPack/requireRole';
 import { validateResultsPack } from '@/lib/resultsPack/validateResultsPack';
+import { getApprovedReview, markReviewPublished, reopenPublishedReview } from '@/lib/publishReview/reviews';
+import { getPublishedRevisionId, recordPointerChange } from '@/lib/pointerHistory/pointerHistory';
+import { MAX_POINTER_REASON_LENGTH } from '@/lib/pointerHistory/rollbackTarget';
+import { recordAdminAudit } from '@/lib/admin/audit/recordAdminAudit';
 
 interface PublishRequest {
   revision_id: string;
+  reason?: string;
 }
 
 interface PublishResponse {
@@ -40,7 +47,7 @@ export default async function handler(
 
   try {
     const packId = String(req.query.packId);
-    const { revision_id } = req.body as PublishRequest;
+    const { revision_id, reason } = req.body as PublishRequest;
 
     if (!revision_id) {
       return res.status(400).json({ error: 'revision_id is required' });
@@ -73,6 +80,23 @@ export default async function handler(
       });
     }
 
+    // Two-person rule: another user must have approved this revision
+    const approvedReview = await getApprovedReview('results_pack', packId, revision_id);
+    if (!approvedReview) {
+      return res.status(409).json({
+        error: 'Revision needs an approved review from another user before it can be published',
+      });
+    }
+
+    const previousRevisionId = await getPublishedRevisionId('results_pack', packId);
+
+    // Close the review before the pointer moves, so its approval cannot publish twice
+    if (!(await markReviewPublished(approvedReview, auth.user))) {
+      return res.status(409).json({
+        error: 'The approved review was already used to publish; request a new review',
+      });
+    }
+
     // Update pointer (set published_revision_id, clear preview_revision_id)
     const { error: ptrErr } = await supabaseAdmin
       .from('results_pack_pointers')
@@ -85,6 +109,12 @@ export default async function handler(
 
     if (ptrErr) {
       console.error('Error updating publish pointer:', ptrErr);
+      try {
+        await reopenPublishedReview(approvedReview);
+      } catch (reviewError) {
+        // The review stays closed; publishing needs a new one
+        console.warn('Failed to reopen publish review:', reviewError);
+      }
       return res.status(500).json({ error: ptrErr.message });
     }
 
@@ -97,6 +127,7 @@ export default async function handler(
         entity_id: packId,
         metadata: {
           revision_id: revision_id,
+          review_id: approvedReview.id,
         },
       });
     } catch (auditError) {
@@ -104,6 +135,31 @@ export default async function handler(
       console.warn('Failed to write audit log:', auditError);
     }
 
+    try {
+      await recordPointerChange({
+        entityType: 'results_pack',
+        entityId: packId,
+        action: 'publish',
+        fromRevisionId: previousRevisionId,
+        toRevisionId: revision_id,
+        actor: auth.user,
+        reason: typeof reason === 'string' ? reason.trim().slice(0, MAX_POINTER_REASON_LENGTH) : null,
+        reviewId: approvedReview.id,
+      });
+    } catch (historyError) {
+      // The revision is live; only "roll back to previous" loses this step
+      console.warn('Failed to record pointer history:', historyError);
+    }
+
+    await recordAdminAudit(req, auth.user, {
+      action: 'results.publish',
+      targetType: 'results_pack',
+      targetKey: packId,
+      before: { published_revision_id: previousRevisionId },
+      after: { published_revision_id: revision_id },
+      metadata: { review_id: approvedReview.id },
+    });
+
     return res.status(204).end();
   } catch (error) {
     console.error('Publish error:', error);
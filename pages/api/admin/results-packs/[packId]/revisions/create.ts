@@ -10,6 +10,7 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { requireRole, supabaseAdmin } from '@/lib/resultsPack/requireRole';
 import { validateResultsPack, hashPackJson } from '@/lib/resultsPack/validateResultsPack';
+import { recordAdminAudit } from '@/lib/admin/audit/recordAdminAudit';
 
 interface CreateRevisionRequest {
   content_json: any;
@@ -92,6 +93,14 @@ export default async function handler(
       return res.status(500).json({ error: error.message });
     }
 
+    await recordAdminAudit(req, auth.user, {
+      action: 'results.create_draft',
+      targetType: 'results_pack',
+      targetKey: packId,
+      after: { revision_id: rev.id, revision_number: nextRevNumber, content_hash, change_summary: change_summary ?? null },
+      metadata: { validation_ok: validation.ok },
+    });
+
     return res.status(200).json({
       revision: rev,
       validation: {
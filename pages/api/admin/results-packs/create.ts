@@ -4,16 +4,22 @@
  * POST /api/admin/results-packs/create
  * 
  * Creates or updates a results pack identity record.
+ * With a locale, creates the translation identity for that locale (published independently);
+ * copy_from_pack_id seeds it with a draft copy of that pack's latest revision to translate.
  * Requires editor or admin role.
  */
 
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { requireRole, supabaseAdmin } from '@/lib/resultsPack/requireRole';
+import { normalizeLocale, toStoredLocale } from '@/lib/i18n/locale';
+import { recordAdminAudit } from '@/lib/admin/audit/recordAdminAudit';
 
 interface CreatePackRequest {
   assessment_type: string;
   results_version: string;
   level_id: string;
+  locale?: string | null; // NULL/empty = default locale
+  copy_from_pack_id?: string;
 }
 
 interface CreatePackResponse {
@@ -22,6 +28,7 @@ interface CreatePackResponse {
     assessment_type: string;
     results_version: string;
     level_id: string;
+    locale: string | null;
     slug: string;
     created_at: string;
     updated_at: string;
@@ -43,7 +50,7 @@ export default async function handler(
   }
 
   try {
-    const { assessment_type, results_version, level_id } = req.body as CreatePackRequest;
+    const { assessment_type, results_version, level_id, locale, copy_from_pack_id } = req.body as CreatePackRequest;
 
     if (!assessment_type || !results_version || !level_id) {
       return res.status(400).json({
@@ -51,12 +58,17 @@ export default async function handler(
       });
     }
 
+    if (locale && !normalizeLocale(locale)) {
+      return res.status(400).json({ error: `Invalid locale "${locale}". Use a tag like "es" or "es-MX".` });
+    }
+    const storedLocale = toStoredLocale(locale);
+
     // Upsert pack identity (idempotent)
     const { data, error } = await supabaseAdmin
       .from('results_packs')
       .upsert(
-        { assessment_type, results_version, level_id },
-        { onConflict: 'assessment_type,results_version,level_id' }
+        { assessment_type, results_version, level_id, locale: storedLocale },
+        { onConflict: 'assessment_type,results_version,level_id,locale' }
       )
       .select('*')
       .single();
@@ -66,6 +78,73 @@ export default async function handler(
       return res.status(500).json({ error: error.message });
     }
 
+    // Seed a translation draft from the source pack (only if the new pack has no revisions yet)
+    let copiedRevisionNumber: number | null = null;
+    if (copy_from_pack_id && copy_from_pack_id !== data.id) {
+      const { data: existingRev } = await supabaseAdmin
+        .from('results_pack_revisions')
+        .select('id')
+        .eq('pack_id', data.id)
+        .limit(1)
+        .maybeSingle();
+
+      const { data: sourceRev } = await supabaseAdmin
+        .from('results_pack_revisions')
+        .select('revision_number, schema_version, content_json, content_hash')
+        .eq('pack_id', copy_from_pack_id)
+        .order('revision_number', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (!existingRev && sourceRev) {
+        const { error: copyError } = await supabaseAdmin.from('results_pack_revisions').insert({
+          pack_id: data.id,
+          revision_number: 1,
+          status: 'draft',
+          schema_version: sourceRev.schema_version,
+          content_json: sourceRev.content_json,
+          content_hash: sourceRev.content_hash,
+          change_summary: `Translation draft (${storedLocale || 'default'}) copied from revision #${sourceRev.revision_number}`,
+          created_by: auth.user.id,
+        });
+
+        if (copyError) {
+          console.error('Error seeding translation draft:', copyError);
+          return res.status(500).json({ error: copyError.message });
+        }
+        copiedRevisionNumber = sourceRev.revision_number;
+      }
+    }
+
+    // Log to audit log
+    try {
+      await supabaseAdmin.from('content_audit_log').insert({
+        actor_id: auth.user.id,
+        action: 'results.create_pack',
+        entity_type: 'results_pack',
+        entity_id: data.id,
+        metadata: {
+          assessment_type,
+          results_version,
+          level_id,
+          locale: storedLocale,
+          copy_from_pack_id: copiedRevisionNumber !== null ? copy_from_pack_id : null,
+          copied_revision_number: copiedRevisionNumber,
+        },
+      });
+    } catch (auditError) {
+      // Non-blocking audit log error
+      console.warn('Failed to write audit log:', auditError);
+    }
+
+    await recordAdminAudit(req, auth.user, {
+      action: 'results.create_pack',
+      targetType: 'results_pack',
+      targetKey: data.id,
+      after: data,
+      metadata: { copied_revision_number: copiedRevisionNumber },
+    });
+
     return res.status(200).json({ pack: data });
   } catch (error) {
     console.error('Create pack error:', error);
@@ -16,6 +16,7 @@ interface ResultsPackListItem {
   assessmentType: string;
   resultsVersion: string;
   levelId: string;
+  locale: string | null; // NULL = default locale
   published: {
     revisionId: string;
     revisionNumber: number;
@@ -58,7 +59,7 @@ export default async function handler(
     // Fetch all results packs
     const { data: resultsPacks, error: packsError } = await supabaseAdmin
       .from('results_packs')
-      .select('id, assessment_type, results_version, level_id, updated_at')
+      .select('id, assessment_type, results_version, level_id, locale, updated_at')
       .order('updated_at', { ascending: false });
 
     if (packsError) {
@@ -136,6 +137,7 @@ export default async function handler(
         assessmentType: pack.assessment_type,
         resultsVersion: pack.results_version,
         levelId: pack.level_id,
+        locale: pack.locale ?? null,
         published: publishedRev
           ? {
               revisionId: ptr!.published_revision_id!,
@@ -14,10 +14,11 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { requireRoleFromApi } from '@/lib/authServer';
 import { seoGlobalConfigSchema } from '@/lib/contentValidators';
+import { parseSaveQuery } from '@/lib/siteContent/siteContentKeys';
 
 export default async function handler(
   req: NextApiRequest,
-  res: NextApiResponse<{ success: boolean; error?: string }>
+  res: NextApiResponse<{ success: boolean; revisionId?: string; error?: string }>
 ) {
   // Require admin role only (returns 401 if not authenticated, 403 if wrong role)
   const user = await requireRoleFromApi(req, res, ['admin']);
@@ -52,31 +53,20 @@ export default async function handler(
 
     const validatedContent = validationResult.data;
 
-    // Import server client
-    const { supabaseAdmin } = await import('@/lib/supabaseServerClient');
-
-    // Upsert into site_content table
     // Security: Hard-code key to 'seo:global' - no arbitrary key updates allowed
-    const { error } = await supabaseAdmin
-      .from('site_content')
-      .upsert(
-        {
-          key: 'seo:global',
-          status: 'published',
-          data: validatedContent,
-          updated_at: new Date().toISOString(),
-        },
-        {
-          onConflict: 'key,status',
-        }
-      );
+    // ?draft=1 saves a draft revision without publishing (lib/siteContent/revisions.ts)
+    const { publish, changeSummary } = parseSaveQuery(req.query);
+    const { saveSiteContentWithAudit } = await import('@/lib/siteContent/revisions');
+    const revision = await saveSiteContentWithAudit(req, {
+      key: 'seo:global',
+      data: validatedContent,
+      actor: user,
+      publish,
+      changeSummary,
+    });
 
-    if (error) {
-      console.error('[SEO API] Supabase error:', error);
-      return res.status(500).json({
-        success: false,
-        error: `Database error: ${error.message}`,
-      });
+    if (!publish) {
+      return res.status(200).json({ success: true, revisionId: revision.id });
     }
 
     // Revalidate pages that use SEO (home and category pages)
@@ -89,7 +79,7 @@ export default async function handler(
       console.warn('[SEO API] Revalidation warning (content still saved):', revalidateError);
     }
 
-    return res.status(200).json({ success: true });
+    return res.status(200).json({ success: true, revisionId: revision.id });
   } catch (error) {
     console.error('[SEO API] Unexpected error:', error);
     return res.status(500).json({
@@ -14,10 +14,11 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { requireRoleFromApi } from '@/lib/authServer';
 import { browserAssetsSchema } from '@/lib/contentValidators';
+import { parseSaveQuery } from '@/lib/siteContent/siteContentKeys';
 
 export default async function handler(
   req: NextApiRequest,
-  res: NextApiResponse<{ success: boolean; error?: string }>
+  res: NextApiResponse<{ success: boolean; revisionId?: string; error?: string }>
 ) {
   // Require admin role only (returns 401 if not authenticated, 403 if wrong role)
   const user = await requireRoleFromApi(req, res, ['admin']);
@@ -52,36 +53,21 @@ export default async function handler(
 
     const validatedAssets = validationResult.data;
 
-    // Import server client
-    const { supabaseAdmin } = await import('@/lib/supabaseServerClient');
-
-    // Upsert into site_content table
     // Security: Hard-code key to 'seo:assets' - no arbitrary key updates allowed
-    const { error } = await supabaseAdmin
-      .from('site_content')
-      .upsert(
-        {
-          key: 'seo:assets',
-          status: 'published',
-          data: validatedAssets,
-          updated_at: new Date().toISOString(),
-        },
-        {
-          onConflict: 'key,status',
-        }
-      );
-
-    if (error) {
-      console.error('[Browser Assets API] Supabase error:', error);
-      return res.status(500).json({
-        success: false,
-        error: `Database error: ${error.message}`,
-      });
-    }
+    // ?draft=1 saves a draft revision without publishing (lib/siteContent/revisions.ts)
+    const { publish, changeSummary } = parseSaveQuery(req.query);
+    const { saveSiteContentWithAudit } = await import('@/lib/siteContent/revisions');
+    const revision = await saveSiteContentWithAudit(req, {
+      key: 'seo:assets',
+      data: validatedAssets,
+      actor: user,
+      publish,
+      changeSummary,
+    });
 
     // Note: Browser assets don't require page revalidation (they're in <head> and will update on next render)
 
-    return res.status(200).json({ success: true });
+    return res.status(200).json({ success: true, revisionId: revision.id });
   } catch (error) {
     console.error('[Browser Assets API] Unexpected error:', error);
     return res.status(500).json({
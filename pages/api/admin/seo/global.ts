@@ -3,9 +3,11 @@
  * 
  * Returns current global SEO config for admin UI inheritance hints.
  * No authentication required (read-only, public data).
+ * Optional ?locale= reads a translation ('seo:global@es').
  */
 
 import type { NextApiRequest, NextApiResponse } from 'next';
+import { localizedContentKey } from '@/lib/i18n/locale';
 
 export default async function handler(
   req: NextApiRequest,
@@ -16,13 +18,15 @@ export default async function handler(
     return res.status(405).json({ success: false, error: 'Method not allowed' });
   }
 
+  const locale = typeof req.query.locale === 'string' ? req.query.locale : null;
+
   try {
     const { supabaseAdmin } = await import('@/lib/supabaseServerClient');
 
     const { data, error } = await supabaseAdmin
       .from('site_content')
       .select('data')
-      .eq('key', 'seo:global')
+      .eq('key', localizedContentKey('seo:global', locale))
       .eq('status', 'published')
       .single();
 
@@ -14,10 +14,12 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { requireRoleFromApi } from '@/lib/authServer';
 import { robotsContentSchema } from '@/lib/contentValidators';
+import { parseSaveQuery } from '@/lib/siteContent/siteContentKeys';
+import { recordAdminAudit } from '@/lib/admin/audit/recordAdminAudit';
 
 export default async function handler(
   req: NextApiRequest,
-  res: NextApiResponse<{ success: boolean; error?: string }>
+  res: NextApiResponse<{ success: boolean; revisionId?: string; error?: string }>
 ) {
   // Require admin role only (returns 401 if not authenticated, 403 if wrong role)
   const user = await requireRoleFromApi(req, res, ['admin']);
@@ -57,6 +59,9 @@ export default async function handler(
 
     // If content is empty/undefined, delete the entry instead of saving empty
     if (!validatedContent.content || validatedContent.content.trim() === '') {
+      const { getSiteContentData } = await import('@/lib/siteContent/revisions');
+      const before = await getSiteContentData('seo:robots', 'published');
+
       const { error } = await supabaseAdmin
         .from('site_content')
         .delete()
@@ -71,36 +76,32 @@ export default async function handler(
         });
       }
 
+      await recordAdminAudit(req, user, {
+        action: 'site_content.delete',
+        targetType: 'site_content',
+        targetKey: 'seo:robots',
+        before,
+        after: null,
+      });
+
       return res.status(200).json({ success: true });
     }
 
-    // Upsert into site_content table
     // Security: Hard-code key to 'seo:robots' - no arbitrary key updates allowed
-    const { error } = await supabaseAdmin
-      .from('site_content')
-      .upsert(
-        {
-          key: 'seo:robots',
-          status: 'published',
-          data: validatedContent,
-          updated_at: new Date().toISOString(),
-        },
-        {
-          onConflict: 'key,status',
-        }
-      );
-
-    if (error) {
-      console.error('[Robots API] Supabase error:', error);
-      return res.status(500).json({
-        success: false,
-        error: `Database error: ${error.message}`,
-      });
-    }
+    // ?draft=1 saves a draft revision without publishing (lib/siteContent/revisions.ts)
+    const { publish, changeSummary } = parseSaveQuery(req.query);
+    const { saveSiteContentWithAudit } = await import('@/lib/siteContent/revisions');
+    const revision = await saveSiteContentWithAudit(req, {
+      key: 'seo:robots',
+      data: validatedContent,
+      actor: user,
+      publish,
+      changeSummary,
+    });
 
     // Note: robots.txt doesn't require page revalidation (it's served directly)
 
-    return res.status(200).json({ success: true });
+    return res.status(200).json({ success: true, revisionId: revision.id });
   } catch (error) {
     console.error('[Robots API] Unexpected error:', error);
     return res.status(500).json({
@@ -7,6 +7,7 @@
  * - Requires authenticated user with 'admin' role (for POST)
  * - GET is read-only and can be public (for admin UI)
  * - Only allows updates to 'seo:route:*' keys (no arbitrary key updates)
+ * - Optional locale targets a translation ('seo:route:/path@es'); omitted = default locale
  * - Validates payload with Zod schema before writing
  * - Uses UPSERT strategy consistent with existing CMS writes
  * - Returns appropriate HTTP status codes (401/403/400/500)
@@ -16,10 +17,17 @@ import type { NextApiRequest, NextApiResponse } from 'next';
 import { requireRoleFromApi } from '@/lib/authServer';
 import { seoRouteConfigSchema } from '@/lib/contentValidators';
 import { normalizeRoutePath } from '@/lib/seo/normalizeRoutePath';
+import { localizedContentKey, normalizeLocale } from '@/lib/i18n/locale';
+import { parseSaveQuery } from '@/lib/siteContent/siteContentKeys';
+import { recordAdminAudit } from '@/lib/admin/audit/recordAdminAudit';
 
 // GET: Read route SEO config
 async function handleGet(req: NextApiRequest, res: NextApiResponse) {
-  const { routePath } = req.query;
+  const { routePath, locale } = req.query;
+
+  if (typeof locale === 'string' && !normalizeLocale(locale)) {
+    return res.status(400).json({ success: false, error: 'Invalid locale' });
+  }
 
   if (!routePath || typeof routePath !== 'string') {
     return res.status(400).json({
@@ -30,7 +38,10 @@ async function handleGet(req: NextApiRequest, res: NextApiResponse) {
 
   try {
     const normalizedRoutePath = normalizeRoutePath(routePath);
-    const routeKey = `seo:route:${normalizedRoutePath}`;
+    const routeKey = localizedContentKey(
+      `seo:route:${normalizedRoutePath}`,
+      typeof locale === 'string' ? locale : null
+    );
 
     const { supabaseAdmin } = await import('@/lib/supabaseServerClient');
 
@@ -76,7 +87,14 @@ async function handlePost(req: NextApiRequest, res: NextApiResponse) {
   }
 
   try {
-    const { routePath, seoConfig } = req.body;
+    const { routePath, seoConfig, locale } = req.body;
+
+    if (locale != null && (typeof locale !== 'string' || !normalizeLocale(locale))) {
+      return res.status(400).json({
+        success: false,
+        error: 'locale must be a locale tag (e.g., es or es-MX)',
+      });
+    }
 
     // Validate routePath
     if (!routePath || typeof routePath !== 'string') {
@@ -88,7 +106,7 @@ async function handlePost(req: NextApiRequest, res: NextApiResponse) {
 
     // Normalize route path
     const normalizedRoutePath = normalizeRoutePath(routePath);
-    const routeKey = `seo:route:${normalizedRoutePath}`;
+    const routeKey = localizedContentKey(`seo:route:${normalizedRoutePath}`, locale);
 
     // Validate SEO config with Zod schema
     const validationResult = seoRouteConfigSchema.safeParse(seoConfig);
@@ -114,6 +132,9 @@ async function handlePost(req: NextApiRequest, res: NextApiResponse) {
     if (Object.keys(cleanedConfig).length === 0) {
       // Delete the route SEO entry
       const { supabaseAdmin } = await import('@/lib/supabaseServerClient');
+      const { getSiteContentData } = await import('@/lib/siteContent/revisions');
+      const before = await getSiteContentData(routeKey, 'published');
+
       const { error } = await supabaseAdmin
         .from('site_content')
         .delete()
@@ -128,34 +149,31 @@ async function handlePost(req: NextApiRequest, res: NextApiResponse) {
         });
       }
 
+      await recordAdminAudit(req, user, {
+        action: 'site_content.delete',
+        targetType: 'site_content',
+        targetKey: routeKey,
+        before,
+        after: null,
+      });
+
       return res.status(200).json({ success: true });
     }
 
-    // Import server client
-    const { supabaseAdmin } = await import('@/lib/supabaseServerClient');
-
-    // Upsert into site_content table
     // Security: Key is constructed from normalized routePath - no arbitrary keys allowed
-    const { error } = await supabaseAdmin
-      .from('site_content')
-      .upsert(
-        {
-          key: routeKey,
-          status: 'published',
-          data: cleanedConfig,
-          updated_at: new Date().toISOString(),
-        },
-        {
-          onConflict: 'key,status',
-        }
-      );
-
-    if (error) {
-      console.error('[SEO Route API] Supabase error:', error);
-      return res.status(500).json({
-        success: false,
-        error: `Database error: ${error.message}`,
-      });
+    // ?draft=1 saves a draft revision without publishing (lib/siteContent/revisions.ts)
+    const { publish, changeSummary } = parseSaveQuery(req.query);
+    const { saveSiteContentWithAudit } = await import('@/lib/siteContent/revisions');
+    const revision = await saveSiteContentWithAudit(req, {
+      key: routeKey,
+      data: cleanedConfig,
+      actor: user,
+      publish,
+      changeSummary,
+    });
+
+    if (!publish) {
+      return res.status(200).json({ success: true, revisionId: revision.id });
     }
 
     // Revalidate the route page if it exists (best-effort)
@@ -166,7 +184,7 @@ async function handlePost(req: NextApiRequest, res: NextApiResponse) {
       console.warn('[SEO Route API] Revalidation warning (content still saved):', revalidateError);
     }
 
-    return res.status(200).json({ success: true });
+    return res.status(200).json({ success: true, revisionId: revision.id });
   } catch (error) {
     console.error('[SEO Route API] Unexpected error:', error);
     return res.status(500).json({
@@ -178,7 +196,7 @@ async function handlePost(req: NextApiRequest, res: NextApiResponse) {
 
 export default async function handler(
   req: NextApiRequest,
-  res: NextApiResponse<{ success: boolean; config?: any; error?: string }>
+  res: NextApiResponse<{ success: boolean; config?: any; revisionId?: string; error?: string }>
 ) {
   if (req.method === 'GET') {
     return handleGet(req, res);
@@ -0,0 +1,46 @@
+/**
+ * API Route: Site Content History
+ *
+ * GET /api/admin/site-content/history?key=home@es - revisions (newest first, with author),
+ * the published and draft revision ids, and scheduled publishes for one site_content key
+ *
+ * Requires editor or admin role.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireRoleFromApi } from '@/lib/authServer';
+import { getSiteContentHistory, type SiteContentHistory } from '@/lib/siteContent/revisions';
+
+interface HistoryResponse {
+  success: boolean;
+  history?: SiteContentHistory;
+  error?: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<HistoryResponse>
+) {
+  const user = await requireRoleFromApi(req, res, ['editor', 'admin']);
+  if (!user) return;
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const key = typeof req.query.key === 'string' ? req.query.key.trim() : '';
+  if (!key) {
+    return res.status(400).json({ success: false, error: 'key is required' });
+  }
+
+  try {
+    const history = await getSiteContentHistory(key);
+    return res.status(200).json({ success: true, history });
+  } catch (error) {
+    console.error('Site content history error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+  }
+}
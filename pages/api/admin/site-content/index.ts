@@ -0,0 +1,41 @@
+/**
+ * API Route: Site Content Keys
+ *
+ * GET /api/admin/site-content - every site_content key with its publish time, whether it has
+ * an unpublished draft and its next scheduled publish (lib/siteContent/revisions.ts)
+ *
+ * Requires editor or admin role.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireRoleFromApi } from '@/lib/authServer';
+import { listSiteContentKeys, type SiteContentKeySummary } from '@/lib/siteContent/revisions';
+
+interface SiteContentKeysResponse {
+  success: boolean;
+  keys?: SiteContentKeySummary[];
+  error?: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<SiteContentKeysResponse>
+) {
+  const user = await requireRoleFromApi(req, res, ['editor', 'admin']);
+  if (!user) return;
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const keys = await listSiteContentKeys();
+    return res.status(200).json({ success: true, keys });
+  } catch (error) {
+    console.error('Site content keys error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+  }
+}
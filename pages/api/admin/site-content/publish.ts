@@ -0,0 +1,86 @@
+/**
+ * API Route: Publish Site Content Revision
+ *
+ * POST /api/admin/site-content/publish
+ * Body: { revision_id: string }
+ *
+ * Makes the revision live for its key and revalidates the pages that render it. Publishing an
+ * earlier revision than the live one is a rollback (audit action site_content.rollback).
+ * Keys saved by admin-only endpoints (seo:*, config) require admin; others editor or admin.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireRoleFromApi } from '@/lib/authServer';
+import { supabaseAdmin } from '@/lib/supabaseServerClient';
+import { getSiteContentData, getSiteContentRevision, publishSiteContentRevision } from '@/lib/siteContent/revisions';
+import { publishRolesForContentKey } from '@/lib/siteContent/siteContentKeys';
+import { revalidateSiteContent } from '@/lib/siteContent/revalidate';
+import { recordAdminAudit } from '@/lib/admin/audit/recordAdminAudit';
+
+interface PublishResponse {
+  success: boolean;
+  revalidated?: string[];
+  error?: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<PublishResponse>
+) {
+  const user = await requireRoleFromApi(req, res, ['editor', 'admin']);
+  if (!user) return;
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const revisionId = typeof req.body?.revision_id === 'string' ? req.body.revision_id : '';
+  if (!revisionId) {
+    return res.status(400).json({ success: false, error: 'revision_id is required' });
+  }
+
+  try {
+    const revision = await getSiteContentRevision(revisionId);
+    if (!revision) {
+      return res.status(404).json({ success: false, error: 'Revision not found' });
+    }
+    if (!publishRolesForContentKey(revision.content_key).includes(user.role)) {
+      return res.status(403).json({ success: false, error: 'Admin access required to publish this content' });
+    }
+
+    // Rollback when the live revision is newer
+    const { data: live } = await supabaseAdmin
+      .from('site_content')
+      .select('revision_id')
+      .eq('key', revision.content_key)
+      .eq('status', 'published')
+      .maybeSingle();
+    let action: 'publish' | 'rollback' = 'publish';
+    if (live?.revision_id && live.revision_id !== revision.id) {
+      const liveRevision = await getSiteContentRevision(live.revision_id);
+      if (liveRevision && liveRevision.revision_number > revision.revision_number) {
+        action = 'rollback';
+      }
+    }
+
+    const before = await getSiteContentData(revision.content_key, 'published');
+    await publishSiteContentRevision(revision.id, user.id, action);
+    await recordAdminAudit(req, user, {
+      action: `site_content.${action}`,
+      targetType: 'site_content',
+      targetKey: revision.content_key,
+      before,
+      after: revision.data,
+      metadata: { revision_id: revision.id, revision_number: revision.revision_number },
+    });
+    const revalidated = await revalidateSiteContent(res, revision.content_key, revision.data);
+
+    return res.status(200).json({ success: true, revalidated });
+  } catch (error) {
+    console.error('Site content publish error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * API Route: Site Content Revision
+ *
+ * GET /api/admin/site-content/revisions/[revisionId] - the revision's content and its diff
+ *   against ?compareTo=<revisionId>, or against the previous revision of the key by default
+ *
+ * Requires editor or admin role.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireRoleFromApi } from '@/lib/authServer';
+import { supabaseAdmin } from '@/lib/supabaseServerClient';
+import { diffContent, type ContentChange } from '@/lib/contentDiff';
+import { getSiteContentRevision, type SiteContentRevision } from '@/lib/siteContent/revisions';
+
+interface RevisionResponse {
+  success: boolean;
+  revision?: SiteContentRevision;
+  compareTo?: { id: string; revisionNumber: number } | null;
+  changes?: ContentChange[];
+  error?: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<RevisionResponse>
+) {
+  const user = await requireRoleFromApi(req, res, ['editor', 'admin']);
+  if (!user) return;
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const revision = await getSiteContentRevision(String(req.query.revisionId));
+    if (!revision) {
+      return res.status(404).json({ success: false, error: 'Revision not found' });
+    }
+
+    let base: SiteContentRevision | null = null;
+    if (typeof req.query.compareTo === 'string' && req.query.compareTo) {
+      base = await getSiteContentRevision(req.query.compareTo);
+      if (!base || base.content_key !== revision.content_key) {
+        return res.status(400).json({ success: false, error: 'compareTo must be a revision of the same key' });
+      }
+    } else {
+      const { data: previous, error } = await supabaseAdmin
+        .from('site_content_revisions')
+        .select('*')
+        .eq('content_key', revision.content_key)
+        .lt('revision_number', revision.revision_number)
+        .order('revision_number', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (error) {
+        return res.status(500).json({ success: false, error: `Database error: ${error.message}` });
+      }
+      base = (previous as SiteContentRevision) || null;
+    }
+
+    return res.status(200).json({
+      success: true,
+      revision,
+      compareTo: base ? { id: base.id, revisionNumber: base.revision_number } : null,
+      changes: diffContent(base ? base.data : {}, revision.data),
+    });
+  } catch (error) {
+    console.error('Site content revision error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+  }
+}
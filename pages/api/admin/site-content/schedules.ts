@@ -0,0 +1,111 @@
+/**
+ * API Route: Scheduled Site Content Publish
+ *
+ * POST   /api/admin/site-content/schedules - { revision_id, publish_at (ISO, in the future) }
+ * DELETE /api/admin/site-content/schedules?id=<scheduleId> - cancel a pending schedule
+ *
+ * Due schedules are published by /api/site-content/publish-scheduled (cron), which also
+ * revalidates the affected pages. Same role rules as publishing the revision directly.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireRoleFromApi } from '@/lib/authServer';
+import { supabaseAdmin } from '@/lib/supabaseServerClient';
+import {
+  cancelSiteContentSchedule,
+  getSiteContentRevision,
+  scheduleSiteContentPublish,
+  type SiteContentSchedule,
+} from '@/lib/siteContent/revisions';
+import { publishRolesForContentKey } from '@/lib/siteContent/siteContentKeys';
+import { recordAdminAudit } from '@/lib/admin/audit/recordAdminAudit';
+
+interface ScheduleResponse {
+  success: boolean;
+  schedule?: SiteContentSchedule;
+  error?: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ScheduleResponse>
+) {
+  const user = await requireRoleFromApi(req, res, ['editor', 'admin']);
+  if (!user) return;
+
+  if (req.method !== 'POST' && req.method !== 'DELETE') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    if (req.method === 'POST') {
+      const revisionId = typeof req.body?.revision_id === 'string' ? req.body.revision_id : '';
+      const publishAt = new Date(typeof req.body?.publish_at === 'string' ? req.body.publish_at : NaN);
+      if (!revisionId) {
+        return res.status(400).json({ success: false, error: 'revision_id is required' });
+      }
+      if (isNaN(publishAt.getTime()) || publishAt.getTime() <= Date.now()) {
+        return res.status(400).json({ success: false, error: 'publish_at must be a future date and time' });
+      }
+
+      const revision = await getSiteContentRevision(revisionId);
+      if (!revision) {
+        return res.status(404).json({ success: false, error: 'Revision not found' });
+      }
+      if (!publishRolesForContentKey(revision.content_key).includes(user.role)) {
+        return res.status(403).json({ success: false, error: 'Admin access required to publish this content' });
+      }
+
+      const schedule = await scheduleSiteContentPublish(revision.id, publishAt, user.id);
+      await recordAdminAudit(req, user, {
+        action: 'site_content.schedule',
+        targetType: 'site_content',
+        targetKey: revision.content_key,
+        before: null,
+        after: schedule,
+        metadata: { revision_id: revision.id, revision_number: revision.revision_number },
+      });
+      return res.status(201).json({ success: true, schedule: schedule || undefined });
+    }
+
+    const scheduleId = typeof req.query.id === 'string' ? req.query.id : '';
+    if (!scheduleId) {
+      return res.status(400).json({ success: false, error: 'id is required' });
+    }
+
+    const { data: existing, error: fetchError } = await supabaseAdmin
+      .from('site_content_schedules')
+      .select('content_key')
+      .eq('id', scheduleId)
+      .maybeSingle();
+    if (fetchError) {
+      return res.status(500).json({ success: false, error: `Database error: ${fetchError.message}` });
+    }
+    if (!existing) {
+      return res.status(404).json({ success: false, error: 'Schedule not found' });
+    }
+    if (!publishRolesForContentKey(existing.content_key).includes(user.role)) {
+      return res.status(403).json({ success: false, error: 'Admin access required to publish this content' });
+    }
+
+    const cancelled = await cancelSiteContentSchedule(scheduleId, user.id);
+    if (!cancelled) {
+      return res.status(409).json({ success: false, error: 'Schedule is no longer pending' });
+    }
+    await recordAdminAudit(req, user, {
+      action: 'site_content.cancel_schedule',
+      targetType: 'site_content',
+      targetKey: existing.content_key,
+      before: { status: 'pending' },
+      after: { status: cancelled.status },
+      metadata: { schedule_id: scheduleId, revision_id: cancelled.revision_id, publish_at: cancelled.publish_at },
+    });
+    return res.status(200).json({ success: true, schedule: cancelled });
+  } catch (error) {
+    console.error('Site content schedule error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+  }
+}
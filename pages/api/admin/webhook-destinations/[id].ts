@@ -0,0 +1,132 @@
+/**
+ * API Route: Webhook Destination (Admin Only)
+ *
+ * PATCH  /api/admin/webhook-destinations/[id] - update any field except the slug
+ *   (signing_secret: omit to keep, null or "" to remove)
+ * DELETE /api/admin/webhook-destinations/[id] - delete the destination and its outbox rows
+ *   (disable it instead to keep delivery history)
+ *
+ * Changes are recorded in content_audit_log (entity_type 'webhook_destination').
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { supabaseAdmin } from '@/lib/supabaseServerClient';
+import { requireRoleFromApi } from '@/lib/authServer';
+import {
+  parseDestinationInput,
+  toDestinationView,
+  type WebhookDestination,
+  type WebhookDestinationView,
+} from '@/lib/webhooks/destinations';
+import { recordAdminAudit } from '@/lib/admin/audit/recordAdminAudit';
+
+interface DestinationResponse {
+  success: boolean;
+  destination?: WebhookDestinationView;
+  error?: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<DestinationResponse>
+) {
+  if (req.method !== 'PATCH' && req.method !== 'DELETE') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  // Require admin role only
+  const user = await requireRoleFromApi(req, res, ['admin']);
+  if (!user) return;
+
+  const id = String(req.query.id);
+
+  try {
+    const { data: existing, error: fetchError } = await supabaseAdmin
+      .from('webhook_destinations')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error('Error querying webhook_destinations:', fetchError);
+      return res.status(500).json({ success: false, error: `Database error: ${fetchError.message}` });
+    }
+    if (!existing) {
+      return res.status(404).json({ success: false, error: 'Webhook destination not found' });
+    }
+    const before = existing as WebhookDestination;
+
+    let destination: WebhookDestination | null = null;
+    let metadata: Record<string, unknown>;
+
+    if (req.method === 'PATCH') {
+      const parsed = parseDestinationInput(req.body, { partial: true });
+      if (!parsed.ok) {
+        return res.status(400).json({ success: false, error: parsed.error });
+      }
+
+      const { data: updated, error: updateError } = await supabaseAdmin
+        .from('webhook_destinations')
+        .update({ ...parsed.input, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select('*')
+        .single();
+
+      if (updateError) {
+        console.error('Error updating webhook destination:', updateError);
+        return res.status(500).json({ success: false, error: `Database error: ${updateError.message}` });
+      }
+
+      destination = updated as WebhookDestination;
+      metadata = {
+        changed_fields: Object.keys(parsed.input),
+        ...(parsed.input.url !== undefined ? { from_url: before.url, to_url: destination.url } : {}),
+        ...(parsed.input.event_types !== undefined
+          ? { from_event_types: before.event_types, to_event_types: destination.event_types }
+          : {}),
+        ...(parsed.input.enabled !== undefined ? { from_enabled: before.enabled, to_enabled: destination.enabled } : {}),
+      };
+    } else {
+      const { error: deleteError } = await supabaseAdmin.from('webhook_destinations').delete().eq('id', id);
+
+      if (deleteError) {
+        console.error('Error deleting webhook destination:', deleteError);
+        return res.status(500).json({ success: false, error: `Database error: ${deleteError.message}` });
+      }
+      metadata = { url: before.url, event_types: before.event_types };
+    }
+
+    // Log to audit log (secrets and header values are not recorded)
+    try {
+      await supabaseAdmin.from('content_audit_log').insert({
+        actor_id: user.id,
+        action: req.method === 'PATCH' ? 'webhook_destination.update' : 'webhook_destination.delete',
+        entity_type: 'webhook_destination',
+        entity_id: id,
+        metadata: { actor_email: user.email, slug: before.slug, ...metadata },
+      });
+    } catch (auditError) {
+      // Non-blocking audit log error
+      console.warn('Failed to write audit log:', auditError);
+    }
+
+    await recordAdminAudit(req, user, {
+      action: req.method === 'PATCH' ? 'webhook_destination.update' : 'webhook_destination.delete',
+      targetType: 'webhook_destination',
+      targetKey: id,
+      before: toDestinationView(before),
+      after: destination ? toDestinationView(destination) : null,
+    });
+
+    return res.status(200).json({
+      success: true,
+      ...(destination ? { destination: toDestinationView(destination) } : {}),
+    });
+  } catch (error) {
+    console.error('Webhook destination API error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * API Route: Webhook Destinations (Admin Only)
+ *
+ * GET  /api/admin/webhook-destinations - list destinations
+ * POST /api/admin/webhook-destinations - create a destination
+ *   Body: { slug, name, url, event_types, payload_template?, headers?, signing_secret?, enabled? }
+ *
+ * Signing secrets are write-only (responses carry has_signing_secret).
+ * Changes are recorded in content_audit_log (entity_type 'webhook_destination').
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { supabaseAdmin } from '@/lib/supabaseServerClient';
+import { requireRoleFromApi } from '@/lib/authServer';
+import {
+  parseDestinationInput,
+  toDestinationView,
+  type WebhookDestination,
+  type WebhookDestinationView,
+} from '@/lib/webhooks/destinations';
+import { recordAdminAudit } from '@/lib/admin/audit/recordAdminAudit';
+
+interface DestinationsResponse {
+  success: boolean;
+  destinations?: WebhookDestinationView[];
+  destination?: WebhookDestinationView;
+  error?: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<DestinationsResponse>
+) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  // Require admin role only
+  const user = await requireRoleFromApi(req, res, ['admin']);
+  if (!user) return;
+
+  try {
+    if (req.method === 'GET') {
+      const { data, error } = await supabaseAdmin
+        .from('webhook_destinations')
+        .select('*')
+        .order('name', { ascending: true });
+
+      if (error) {
+        console.error('Error querying webhook_destinations:', error);
+        return res.status(500).json({ success: false, error: `Database error: ${error.message}` });
+      }
+
+      return res.status(200).json({
+        success: true,
+        destinations: ((data || []) as WebhookDestination[]).map(toDestinationView),
+      });
+    }
+
+    const parsed = parseDestinationInput(req.body);
+    if (!parsed.ok) {
+      return res.status(400).json({ success: false, error: parsed.error });
+    }
+
+    const { data: created, error: insertError } = await supabaseAdmin
+      .from('webhook_destinations')
+      .insert({ ...parsed.input, created_by: user.id })
+      .select('*')
+      .single();
+
+    if (insertError) {
+      if (insertError.code === '23505') {
+        return res.status(409).json({ success: false, error: `A destination with slug "${parsed.input.slug}" already exists` });
+      }
+      console.error('Error creating webhook destination:', insertError);
+      return res.status(500).json({ success: false, error: `Database error: ${insertError.message}` });
+    }
+
+    const destination = created as WebhookDestination;
+
+    // Log to audit log (secrets and header values are not recorded)
+    try {
+      await supabaseAdmin.from('content_audit_log').insert({
+        actor_id: user.id,
+        action: 'webhook_destination.create',
+        entity_type: 'webhook_destination',
+        entity_id: destination.id,
+        metadata: {
+          actor_email: user.email,
+          slug: destination.slug,
+          url: destination.url,
+          event_types: destination.event_types,
+          enabled: destination.enabled,
+        },
+      });
+    } catch (auditError) {
+      // Non-blocking audit log error
+      console.warn('Failed to write audit log:', auditError);
+    }
+
+    await recordAdminAudit(req, user, {
+      action: 'webhook_destination.create',
+      targetType: 'webhook_destination',
+      targetKey: destination.id,
+      after: toDestinationView(destination),
+    });
+
+    return res.status(201).json({ success: true, destination: toDestinationView(destination) });
+  } catch (error) {
+    console.error('Webhook destinations API error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+  }
+}
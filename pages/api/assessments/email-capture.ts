@@ -6,8 +6,14 @@
  * Responsibilities:
  * - Update assessment_submission with email
  * - Merge metadata (don't null it)
- * - Enqueue webhook_outbox for n8n email capture
- * - Fire webhook async with 2.5s timeout (non-blocking)
+ * - Record an 'email_captured' assessment event (results pack experiment conversions)
+ * - Enqueue webhook_outbox for n8n email capture (CRM routing; n8n sends the results email
+ *   unless it is sent in-app)
+ * - When EMAIL_TRANSPORT is set, enqueue the in-app results email (target 'results_email',
+ *   one per submission; sent by the dispatcher via lib/email/sendResultsEmail.ts)
+ * - Enqueue webhook_outbox for webhook destinations subscribed to email_captured
+ * - Attempt immediate delivery of new rows via the outbox dispatcher (non-blocking, 2.5s timeout);
+ *   failures are retried by the cron-invoked /api/outbox/dispatch
  * - Return success even if webhook fails
  * 
  * Input: { sessionId, assessmentType, assessmentVersion, email, primaryAvatar?, submissionId? }
@@ -17,7 +23,12 @@
 
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { supabaseAdmin } from '@/lib/supabaseServerClient';
-import { GUT_CHECK_RESULTS_CONTENT_VERSION } from '@/lib/assessments/results/constants';
+import { getResultsContentVersion } from '@/lib/assessments/registry';
+import { DEFAULT_LOCALE } from '@/lib/i18n/locale';
+import { dispatchOutbox } from '@/lib/outbox/dispatcher';
+import { enqueueWebhookEvent } from '@/lib/outbox/enqueueEvent';
+import { getEmailSender } from '@/lib/email/sender';
+import { RESULTS_EMAIL_OUTBOX_TARGET, RESULTS_EMAIL_OUTBOX_URL } from '@/lib/email/resultsEmail';
 
 interface EmailCapturePayload {
   sessionId: string;
@@ -104,7 +115,7 @@ export default async function handler(
     // Get existing submission to merge metadata
     const { data: existingSubmission, error: fetchError } = await supabaseAdmin
       .from('assessment_submissions')
-      .select('metadata')
+      .select('metadata, session_id, primary_avatar')
       .eq('id', submissionId)
       .single();
 
@@ -137,74 +148,118 @@ export default async function handler(
       });
     }
 
-    // Enqueue webhook_outbox and fire webhook (non-blocking)
+    // Record the conversion server-side (best-effort; joins experiment assignments by session)
+    const { error: eventError } = await supabaseAdmin.from('assessment_events').insert({
+      assessment_type: payload.assessmentType,
+      assessment_version: assessmentVersion,
+      session_id: existingSubmission.session_id,
+      event_name: 'email_captured',
+      primary_avatar: existingSubmission.primary_avatar,
+      properties: {
+        submissionId,
+        emailType: payload.emailType || null,
+        campaignVariantId: existingMetadata.resultsPackRef?.campaignVariantId || null,
+        source: 'server',
+      },
+    });
+    if (eventError) {
+      console.error('Error recording email_captured event (non-blocking):', eventError);
+    }
+
+    // levelId always comes from the submission (primary_avatar is server-scored);
+    // the client-sent levelId is only a fallback if the row can't be read
+    // resultsVersion is decoupled from assessment_version - use registry
+    let levelId = payload.levelId;
+    const resultsVersion = payload.resultsVersion || getResultsContentVersion(payload.assessmentType);
+
+    const { data: submissionData } = await supabaseAdmin
+      .from('assessment_submissions')
+      .select('primary_avatar, locale')
+      .eq('id', submissionId)
+      .single();
+
+    if (submissionData) {
+      levelId = submissionData.primary_avatar;
+    }
+    // Email renders in the locale the assessment was taken in
+    const locale = submissionData?.locale || DEFAULT_LOCALE;
+
+    const capturedEmail = {
+      submission_id: submissionId,
+      assessment_type: payload.assessmentType,
+      assessment_version: assessmentVersion,
+      session_id: payload.sessionId,
+      email: normalizedEmail,
+      levelId: levelId || null,
+      resultsVersion: resultsVersion || null,
+      locale,
+      email_type: payload.emailType || null, // Pass through emailType for n8n routing
+    };
+    // Results emails (no emailType) are sent in-app when a sender is configured. They go
+    // through the outbox like the n8n webhook: one row per submission (repeated captures send
+    // once) and failed sends are retried by the dispatcher.
+    // The n8n row is always queued (CRM routing); email_delivery tells the workflow whether
+    // it still has to send the results email itself
+    const inAppResultsEmail = !payload.emailType && !!getEmailSender();
+    const webhookPayload = {
+      ...capturedEmail,
+      event_type: 'email_capture',
+      email_delivery: inAppResultsEmail ? 'in_app' : 'n8n',
+    };
+
+    const outboxRows: Array<{ target: string; webhook_url: string; payload: Record<string, unknown> }> = [];
+    if (inAppResultsEmail) {
+      outboxRows.push({
+        target: RESULTS_EMAIL_OUTBOX_TARGET,
+        webhook_url: RESULTS_EMAIL_OUTBOX_URL,
+        payload: { submission_id: submissionId, email: normalizedEmail },
+      });
+    }
     const n8nWebhookUrl = process.env.N8N_WEBHOOK_URL;
     if (n8nWebhookUrl) {
-      // Get levelId from submission if not provided
-      // resultsVersion is decoupled from assessment_version - use constant
-      let levelId = payload.levelId;
-      const resultsVersion = payload.resultsVersion || GUT_CHECK_RESULTS_CONTENT_VERSION;
-      
-      if (!levelId) {
-        // Fetch from submission to get levelId (stored as primary_avatar)
-        const { data: submissionData } = await supabaseAdmin
-          .from('assessment_submissions')
-          .select('primary_avatar')
-          .eq('id', submissionId)
-          .single();
-        
-        if (submissionData) {
-          levelId = submissionData.primary_avatar;
-        }
-      }
-
-      const webhookPayload = {
-        submission_id: submissionId,
-        assessment_type: payload.assessmentType,
-        assessment_version: assessmentVersion,
-        session_id: payload.sessionId,
-        email: normalizedEmail,
-        levelId: levelId || null,
-        resultsVersion: resultsVersion || null,
-        event_type: 'email_capture',
-        email_type: payload.emailType || null, // Pass through emailType for n8n routing
-      };
+      outboxRows.push({ target: 'n8n_email_capture', webhook_url: n8nWebhookUrl, payload: webhookPayload });
+    }
 
-      // Insert into webhook_outbox with idempotency check
-      const now = new Date().toISOString();
+    // Enqueue webhook_outbox rows with idempotency check
+    const enqueuedIds: string[] = [];
+    for (const row of outboxRows) {
       const { data: outboxData, error: outboxError } = await supabaseAdmin
         .from('webhook_outbox')
         .insert({
           submission_id: submissionId,
-          target: 'n8n_email_capture',
-          webhook_url: n8nWebhookUrl,
-          payload: webhookPayload,
+          ...row,
           status: 'pending',
           attempts: 0,
-          last_attempt_at: now,
+          last_attempt_at: new Date().toISOString(),
         })
         .select('id');
 
-      // Idempotency: If insert failed due to unique constraint (duplicate), return success and don't POST
+      // Idempotency: If insert failed due to unique constraint (duplicate), skip delivery
       if (outboxError) {
         const isUniqueViolation = outboxError.code === '23505'; // PostgreSQL unique violation
         if (isUniqueViolation) {
-          // Duplicate entry - webhook already enqueued, return success (idempotent)
-          console.log('[webhook_outbox] Duplicate entry detected, skipping n8n webhook (idempotent)');
+          // Duplicate entry - already enqueued for this submission (idempotent)
+          console.log(`[webhook_outbox] Duplicate ${row.target} entry detected, skipping (idempotent)`);
         } else {
           console.error('Error inserting into webhook_outbox:', outboxError);
-          // Other errors - don't fail request, but skip webhook
+          // Other errors - don't fail request, but skip delivery
         }
       } else if (outboxData && outboxData.length > 0) {
-        // Row was successfully inserted - fire n8n webhook (async, non-blocking)
-        // Do not await - let it run in the background
-        fireN8nWebhook(submissionId, webhookPayload).catch((error) => {
-          console.error('n8n webhook error (non-blocking):', error);
-          // Errors are logged but don't affect the response
-        });
+        enqueuedIds.push(outboxData[0].id);
       }
     }
 
+    if (enqueuedIds.length > 0) {
+      // Deliver the new rows now (async, non-blocking).
+      // Do not await - if this attempt fails or is cut short, the dispatcher cron retries it
+      dispatchOutbox({ ids: enqueuedIds, limit: enqueuedIds.length, timeoutMs: 2500 }).catch((error) => {
+        console.error('Email capture dispatch error (non-blocking):', error);
+      });
+    }
+
+    // Configured webhook destinations (same fields; the event type is carried by the envelope)
+    await enqueueWebhookEvent('email_captured', submissionId, capturedEmail, { submissionId });
+
     // Return success immediately (even if webhook fails)
     return res.status(200).json({
       success: true,
@@ -217,50 +272,3 @@ export default async function handler(
     });
   }
 }
-
-/**
- * Fire n8n webhook asynchronously with timeout
- * Failures are logged but don't affect the user experience
- * Uses AbortController for 2.5 second timeout
- */
-async function fireN8nWebhook(
-  submissionId: string,
-  payload: Record<string, unknown>
-): Promise<void> {
-  const n8nWebhookUrl = process.env.N8N_WEBHOOK_URL;
-
-  if (!n8nWebhookUrl) {
-    console.warn('N8N_WEBHOOK_URL not configured - skipping webhook');
-    return;
-  }
-
-  try {
-    // Create AbortController for timeout (2.5 seconds)
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 2500);
-
-    const response = await fetch(n8nWebhookUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(payload),
-      signal: controller.signal,
-    });
-
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      throw new Error(`n8n webhook returned ${response.status}`);
-    }
-  } catch (error) {
-    // Log but don't throw - this is non-blocking
-    if (error instanceof Error && error.name === 'AbortError') {
-      console.error('n8n webhook timeout after 2.5s (non-blocking)');
-    } else {
-      console.error('n8n webhook failed:', error);
-    }
-    // Don't re-throw - caller doesn't await this
-  }
-}
-
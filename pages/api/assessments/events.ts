@@ -5,6 +5,8 @@
  * 
  * Responsibilities:
  * - Batch insert analytics events
+ * - Store event context (utm_source, device, question_set_revision_id) as columns
+ *   for the funnel dashboard filters
  * - Best-effort (failures don't block UX)
  * - Non-blocking
  */
@@ -19,6 +21,16 @@ interface EventPayload {
   eventType: string;
   primaryAvatar?: string;
   metadata?: Record<string, unknown>;
+  utmSource?: string | null;
+  device?: string;
+  questionSetRevisionId?: string | null;
+}
+
+/**
+ * Context value as stored (short strings only; anything else is dropped)
+ */
+function contextValue(value: unknown, maxLength: number): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim().slice(0, maxLength) : null;
 }
 
 interface EventsPayload {
@@ -69,6 +81,9 @@ export default async function handler(
       event_name: event.eventType,
       primary_avatar: event.primaryAvatar || null,
       properties: event.metadata || {},
+      utm_source: contextValue(event.utmSource, 200),
+      device: event.device === 'mobile' || event.device === 'desktop' ? event.device : null,
+      question_set_revision_id: contextValue(event.questionSetRevisionId, 64),
     }));
 
     // Batch insert (best-effort)
@@ -2,14 +2,25 @@
  * API Route: Update Assessment Session
  * 
  * POST /api/assessments/session
+ * GET  /api/assessments/session?assessmentType=...&assessmentVersion=...&sessionId=...
  * 
  * Responsibilities:
  * - Upsert session record (started/progress/abandoned/completed)
+ * - Store the resume checkpoint (partial answers) when `checkpoint` is sent;
+ *   `checkpoint: null` discards it. Logged-in users own their checkpoints.
+ * - GET returns the latest resumable checkpoint for this session, or (logged in)
+ *   for any of the user's sessions, so progress carries across devices
  * - Non-blocking, best-effort
  */
 
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { supabaseAdmin } from '@/lib/supabaseServerClient';
+import { getCurrentUserWithRoleFromApi } from '@/lib/authServer';
+import {
+  CHECKPOINT_MAX_AGE_DAYS,
+  type SessionCheckpoint,
+  type StoredCheckpoint,
+} from '@/lib/assessments/sessionCheckpoint';
 
 interface SessionPayload {
   assessmentType: string;
@@ -18,18 +29,112 @@ interface SessionPayload {
   sessionId: string;
   status: 'started' | 'abandoned' | 'completed';
   lastQuestionIndex?: number;
+  checkpoint?: SessionCheckpoint | null; // Omit to leave the stored checkpoint untouched
 }
 
 interface SessionResponse {
   success: boolean;
   assessment_version?: number; // Return version in response for verification
+  checkpoint?: StoredCheckpoint | null;
   error?: string;
 }
 
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+async function getOptionalUserId(req: NextApiRequest, res: NextApiResponse): Promise<string | null> {
+  try {
+    const user = await getCurrentUserWithRoleFromApi(req, res);
+    return user?.id ?? null;
+  } catch {
+    // Guests can still checkpoint by session ID
+    return null;
+  }
+}
+
+function isValidCheckpoint(value: unknown): value is SessionCheckpoint {
+  if (!value || typeof value !== 'object') return false;
+  const checkpoint = value as SessionCheckpoint;
+  return (
+    Array.isArray(checkpoint.answers) &&
+    checkpoint.answers.every((a) => a && typeof a.questionId === 'string') &&
+    typeof checkpoint.currentQuestionIndex === 'number' &&
+    typeof checkpoint.questionSetFingerprint === 'string'
+  );
+}
+
+async function handleGet(req: NextApiRequest, res: NextApiResponse<SessionResponse>) {
+  const assessmentType = typeof req.query.assessmentType === 'string' ? req.query.assessmentType : '';
+  const sessionId = typeof req.query.sessionId === 'string' ? req.query.sessionId : '';
+  const version = Number(req.query.assessmentVersion ?? 1);
+
+  if (!assessmentType || !sessionId) {
+    return res.status(400).json({
+      success: false,
+      error: 'Missing required query parameters: assessmentType, sessionId',
+    });
+  }
+
+  // sessionId is interpolated into a PostgREST filter below
+  if (!SESSION_ID_PATTERN.test(sessionId)) {
+    return res.status(400).json({ success: false, error: 'Invalid sessionId' });
+  }
+
+  const userId = await getOptionalUserId(req, res);
+  const cutoff = new Date(Date.now() - CHECKPOINT_MAX_AGE_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  let query = supabaseAdmin
+    .from('assessment_sessions')
+    .select('session_id, checkpoint, checkpointed_at')
+    .eq('assessment_type', assessmentType)
+    .eq('assessment_version', version)
+    .neq('status', 'completed')
+    .not('checkpoint', 'is', null)
+    .gte('checkpointed_at', cutoff);
+
+  query = userId
+    ? query.or(`session_id.eq.${sessionId},user_id.eq.${userId}`)
+    : query.eq('session_id', sessionId);
+
+  const { data, error } = await query.order('checkpointed_at', { ascending: false }).limit(1);
+
+  if (error) {
+    console.error('Error loading assessment checkpoint:', error);
+    return res.status(500).json({ success: false, error: `Database error: ${error.message}` });
+  }
+
+  const row = data?.[0];
+  if (!row || !isValidCheckpoint(row.checkpoint)) {
+    return res.status(200).json({ success: true, checkpoint: null });
+  }
+
+  return res.status(200).json({
+    success: true,
+    checkpoint: {
+      answers: row.checkpoint.answers,
+      currentQuestionIndex: row.checkpoint.currentQuestionIndex,
+      questionSetFingerprint: row.checkpoint.questionSetFingerprint,
+      sessionId: row.session_id,
+      updatedAt: row.checkpointed_at,
+    },
+  });
+}
+
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse<SessionResponse>
 ) {
+  if (req.method === 'GET') {
+    try {
+      return await handleGet(req, res);
+    } catch (error) {
+      console.error('Session checkpoint load error:', error);
+      return res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+      });
+    }
+  }
+
   if (req.method !== 'POST') {
     return res.status(405).json({ success: false, error: 'Method not allowed' });
   }
@@ -54,22 +159,45 @@ export default async function handler(
       });
     }
 
+    // Validate checkpoint (null = discard)
+    const hasCheckpoint = 'checkpoint' in payload;
+    if (hasCheckpoint && payload.checkpoint !== null && !isValidCheckpoint(payload.checkpoint)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid checkpoint. Expected { answers, currentQuestionIndex, questionSetFingerprint }',
+      });
+    }
+
     // Normalize version (accept both camelCase and snake_case field names)
     const version = Number(payload.assessment_version ?? payload.assessmentVersion ?? 1);
+    const now = new Date().toISOString();
+
+    const record: Record<string, unknown> = {
+      assessment_type: payload.assessmentType,
+      assessment_version: version,
+      session_id: payload.sessionId,
+      status: payload.status,
+      last_question_index: payload.lastQuestionIndex ?? 0,
+      updated_at: now,
+    };
+
+    // Only touch checkpoint columns when the client sent one, so status-only updates
+    // (e.g., the "started" ping on mount) don't discard a resumable checkpoint
+    if (hasCheckpoint) {
+      record.checkpoint = payload.checkpoint ?? null;
+      record.checkpointed_at = payload.checkpoint ? now : null;
+      const userId = await getOptionalUserId(req, res);
+      if (userId) {
+        record.user_id = userId;
+      }
+    }
 
     // Upsert session record
     // Production uniqueness is (session_id, assessment_type, assessment_version)
     const { error: upsertError } = await supabaseAdmin
       .from('assessment_sessions')
       .upsert(
-        {
-          assessment_type: payload.assessmentType,
-          assessment_version: version,
-          session_id: payload.sessionId,
-          status: payload.status,
-          last_question_index: payload.lastQuestionIndex ?? 0,
-          updated_at: new Date().toISOString(),
-        },
+        record,
         {
           onConflict: 'session_id,assessment_type,assessment_version',
         }
@@ -24,6 +24,7 @@ interface SubmissionResponse {
     session_id: string;
     email?: string | null;
     user_id?: string | null;
+    locale?: string | null; // NULL = default locale
     metadata?: Record<string, unknown> | null;
   };
   error?: string;
@@ -51,7 +52,7 @@ export default async function handler(
     const { data: submission, error } = await supabaseAdmin
       .from('assessment_submissions')
       .select(
-        'id, primary_avatar, secondary_avatar, score_map, normalized_score_map, confidence_score, assessment_type, assessment_version, session_id, email, user_id, metadata'
+        'id, primary_avatar, secondary_avatar, score_map, normalized_score_map, confidence_score, assessment_type, assessment_version, session_id, email, user_id, locale, metadata'
       )
       .eq('id', submissionId)
       .single();
@@ -85,6 +86,7 @@ export default async function handler(
         session_id: submission.session_id,
         email: submission.email || null,
         user_id: submission.user_id || null,
+        locale: submission.locale || null,
         metadata: submission.metadata as Record<string, unknown> | null,
       },
     });
@@ -6,7 +6,12 @@
  * Responsibilities:
  * - Validate payload
  * - Idempotent insert using client-generated submissionId
- * - Write to Supabase (assessment_submissions)
+ * - Recompute scores server-side from answers (pinned question set + assessment-config thresholds);
+ *   a client-sent questionsRef is only honoured for revisions that were published, and a
+ *   submission whose scores cannot be recomputed is rejected (503, safe to retry)
+ * - Write to Supabase (assessment_submissions) with the server result as authoritative,
+ *   keeping both results (client_scoring / server_scoring) and flagging mismatches (scoring_mismatch)
+ * - Pin the locale the assessment was taken in (results, PDF and emails resolve content for it)
  * - Mark session as completed
  * - Return success immediately
  * 
@@ -14,7 +19,7 @@
  * 
  * Must NOT:
  * - Block UI
- * - Calculate scores
+ * - Trust client-sent scores
  * - Fail user flow if n8n is down
  */
 
@@ -22,8 +27,37 @@ import type { NextApiRequest, NextApiResponse } from 'next';
 import { supabaseAdmin } from '@/lib/supabaseServerClient';
 import { getCurrentUserWithRoleFromApi } from '@/lib/authServer';
 import type { SubmissionPayload, SubmissionResponse } from '@/lib/assessmentTypes';
+import { isAssessmentTypeRegistered } from '@/lib/assessments/registry';
 import type { QuestionSetRef } from '@/lib/assessments/questions/resolveQuestionSet';
+import type { QuestionSet } from '@/lib/assessments/questions/loadQuestionSet';
+import {
+  resolveScoringConfig,
+  toScoringSnapshot,
+  verifySubmissionScoring,
+  type ScoringVerification,
+} from '@/lib/assessments/scoring/verifySubmissionScoring';
 import { randomUUID } from 'crypto';
+import { toStoredLocale } from '@/lib/i18n/locale';
+import { enqueueWebhookEvent } from '@/lib/outbox/enqueueEvent';
+import { wasRevisionPublished } from '@/lib/pointerHistory/pointerHistory';
+
+/**
+ * Client-sent questionsRef, if it pins a CMS revision that is or was published
+ */
+async function getTrustedQuestionsRef(ref: QuestionSetRef | undefined): Promise<QuestionSetRef | null> {
+  if (!ref || ref.source !== 'cms' || !ref.questionSetId || !ref.publishedRevisionId) {
+    return null;
+  }
+  try {
+    if (await wasRevisionPublished('question_set', ref.questionSetId, ref.publishedRevisionId)) {
+      return ref;
+    }
+    console.warn('[Submit] Ignoring questionsRef of a revision that was never published:', ref.publishedRevisionId);
+  } catch (error) {
+    console.warn('[Submit] Failed to check questionsRef (ignored):', error);
+  }
+  return null;
+}
 
 export default async function handler(
   req: NextApiRequest,
@@ -50,6 +84,14 @@ export default async function handler(
       });
     }
 
+    // Validate assessmentType is registered
+    if (!isAssessmentTypeRegistered(payload.assessmentType)) {
+      return res.status(400).json({
+        success: false,
+        error: `Unknown assessmentType: ${payload.assessmentType}`,
+      });
+    }
+
     // Validate submissionId is a valid UUID format
     const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
     if (!uuidRegex.test(payload.submissionId)) {
@@ -68,6 +110,7 @@ export default async function handler(
     }
 
     const assessmentVersion = payload.assessmentVersion || 1;
+    const locale = toStoredLocale(payload.locale); // NULL = default locale
 
     // Get authenticated user if available
     let authenticatedUserId: string | null = null;
@@ -97,44 +140,94 @@ export default async function handler(
       });
     }
 
-    // Resolve question set for pinning (only if not already present in metadata)
-    // Published only, no preview at submit time
+    // Resolve question set for pinning and rescoring
+    // Published only, no preview at submit time. A client-sent questionsRef is only kept if it
+    // names a revision that is or was published for that question set; otherwise the current
+    // published revision is used (the pinned revision decides the authoritative scoring spec)
     let questionsRef: QuestionSetRef | null = null;
-    const existingQuestionsRef = payload.metadata?.questionsRef;
+    let questionSet: QuestionSet | null = null;
+    const existingQuestionsRef = await getTrustedQuestionsRef(payload.metadata?.questionsRef);
     
-    if (!existingQuestionsRef) {
-      // Only resolve if questionsRef is not already present
-      try {
-        const { resolveQuestionSet } = await import('@/lib/assessments/questions/resolveQuestionSet');
-        const questionSetResult = await resolveQuestionSet({
+    try {
+      const { resolveQuestionSet } = await import('@/lib/assessments/questions/resolveQuestionSet');
+      const questionSetResult = await resolveQuestionSet({
+        assessmentType: payload.assessmentType,
+        assessmentVersion: assessmentVersion,
+        locale, // Same fallback chain the page used
+        preview: false, // Never use preview at submit time
+        userRole: authenticatedUserId ? 'user' : undefined, // Will default to 'user' or undefined
+        pinnedQuestionsRef: existingQuestionsRef || null,
+      });
+
+      if (questionSetResult.questionSet) {
+        questionSet = questionSetResult.questionSet;
+      } else if (questionSetResult.source === 'cms_empty') {
+        // CMS exists but no published revision - the page used the file fallback
+        const { loadQuestionSet } = await import('@/lib/assessments/questions/loadQuestionSet');
+        questionSet = loadQuestionSet({
           assessmentType: payload.assessmentType,
           assessmentVersion: assessmentVersion,
-          locale: null, // Default locale for now
-          preview: false, // Never use preview at submit time
-          userRole: authenticatedUserId ? 'user' : undefined, // Will default to 'user' or undefined
-          pinnedQuestionsRef: null, // First time resolution
+          locale: null,
         });
+      }
 
-        // Create questionsRef for pinning (only if CMS source)
-        if (questionSetResult.questionSetRef && questionSetResult.questionSetRef.source === 'cms') {
-          questionsRef = questionSetResult.questionSetRef;
-        }
-      } catch (error) {
-        // Non-blocking: if resolution fails, proceed without pinning
-        console.warn('[Submit] Failed to resolve question set for pinning (non-blocking):', error);
+      // Create questionsRef for pinning (only if CMS source)
+      if (!existingQuestionsRef && questionSetResult.questionSetRef && questionSetResult.questionSetRef.source === 'cms') {
+        questionsRef = questionSetResult.questionSetRef;
       }
-    } else {
+    } catch (error) {
+      // Non-blocking: if resolution fails, proceed without pinning (rescoring uses legacy config)
+      console.warn('[Submit] Failed to resolve question set for pinning (non-blocking):', error);
+    }
+
+    if (existingQuestionsRef) {
       // Preserve existing questionsRef
       questionsRef = existingQuestionsRef;
     }
 
+    // Recompute scores server-side (never trust client-sent scores)
+    const clientScoring = toScoringSnapshot(
+      {
+        scoreMap: payload.scoreMap || {},
+        normalizedScoreMap: payload.normalizedScoreMap || {},
+        primaryAvatar: payload.primaryAvatar,
+        secondaryAvatar: payload.secondaryAvatar,
+        confidenceScore: payload.confidenceScore,
+      },
+      payload.responses
+    );
+    let verification: ScoringVerification | null = null;
+    try {
+      const scoringConfig = await resolveScoringConfig(payload.assessmentType, assessmentVersion, questionSet);
+      verification = await verifySubmissionScoring(payload.answers, scoringConfig, clientScoring);
+
+      if (verification.mismatch) {
+        console.warn('[Submit] Client/server scoring mismatch', {
+          submissionId: payload.submissionId,
+          fields: verification.mismatchFields,
+          clientLevel: clientScoring.primaryAvatar,
+          serverLevel: verification.server.primaryAvatar,
+        });
+      }
+    } catch (error) {
+      // Client scores are never stored unverified; the submissionId makes a retry idempotent
+      console.error('[Submit] Server-side rescoring failed, rejecting submission:', error);
+      return res.status(503).json({
+        success: false,
+        error: 'Scores could not be verified; please try again',
+      });
+    }
+
+    const scoring = verification.server;
+
     // For v2, store responses in metadata for easy access
     // v2 uses responses format {q1: 0, q2: 1, ... q17: 3}
     // If guest submission, generate claim token for later account attachment
     const claimToken = authenticatedUserId ? null : randomUUID();
+    const { questionsRef: _clientQuestionsRef, ...clientMetadata } = payload.metadata || {};
     const metadata = {
-      ...(payload.metadata || {}),
-      ...(assessmentVersion === 2 && payload.responses ? { responses: payload.responses } : {}),
+      ...clientMetadata,
+      ...(assessmentVersion === 2 && scoring.responses ? { responses: scoring.responses } : {}),
       ...(questionsRef ? { questionsRef } : {}),
       ...(claimToken ? {
         claimToken,
@@ -155,14 +248,19 @@ export default async function handler(
         user_id: authenticatedUserId || payload.userId || null,
         email: payload.email || null,
         answers: payload.answers,
-        score_map: payload.scoreMap,
-        normalized_score_map: payload.normalizedScoreMap,
-        primary_avatar: payload.primaryAvatar,
-        secondary_avatar: payload.secondaryAvatar || null,
-        confidence_score: payload.confidenceScore,
+        score_map: scoring.scoreMap,
+        normalized_score_map: scoring.normalizedScoreMap,
+        primary_avatar: scoring.primaryAvatar,
+        secondary_avatar: scoring.secondaryAvatar,
+        confidence_score: scoring.confidenceScore,
+        locale,
+        client_scoring: clientScoring,
+        server_scoring: verification.server,
+        scoring_mismatch: verification.mismatch,
+        scoring_mismatch_fields: verification.mismatchFields,
         metadata: metadata,
       })
-      .select('id')
+      .select('id, created_at')
       .single();
 
     if (submissionError) {
@@ -182,7 +280,7 @@ export default async function handler(
       });
     }
 
-    // Mark session as completed
+    // Mark session as completed and clear its resume checkpoint
     // WHERE clause must include: session_id, assessment_type, and assessment_version
     // (matches schema uniqueness on (session_id, assessment_type, assessment_version))
     const { error: sessionError } = await supabaseAdmin
@@ -190,6 +288,7 @@ export default async function handler(
       .update({
         status: 'completed',
         last_question_index: payload.answers.length - 1,
+        checkpoint: null,
         updated_at: new Date().toISOString(),
       })
       .eq('session_id', payload.sessionId)
@@ -201,8 +300,40 @@ export default async function handler(
       // Don't fail the request - submission was successful
     }
 
+    // Logged-in users may have checkpoints from other devices for this assessment
+    if (authenticatedUserId) {
+      const { error: checkpointError } = await supabaseAdmin
+        .from('assessment_sessions')
+        .update({ checkpoint: null })
+        .eq('user_id', authenticatedUserId)
+        .eq('assessment_type', payload.assessmentType)
+        .eq('assessment_version', assessmentVersion)
+        .not('checkpoint', 'is', null);
+
+      if (checkpointError) {
+        console.error('Error clearing assessment checkpoints:', checkpointError);
+      }
+    }
+
+    // Configured webhook destinations (never fails the request; delivery is not awaited)
+    await enqueueWebhookEvent(
+      'submission_created',
+      submission.id,
+      {
+        submission_id: submission.id,
+        assessment_type: payload.assessmentType,
+        assessment_version: assessmentVersion,
+        primary_avatar: scoring.primaryAvatar,
+        secondary_avatar: scoring.secondaryAvatar,
+        email: payload.email || null,
+        locale,
+        created_at: submission.created_at,
+      },
+      { submissionId: submission.id }
+    );
+
     // Return success immediately
-    // Note: Webhook logic moved to email-capture.ts - n8n only fires after email capture
+    // Note: n8n webhook logic lives in email-capture.ts - n8n only fires after email capture
     return res.status(200).json({
       success: true,
       submissionId: submission.id,
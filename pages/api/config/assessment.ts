@@ -72,14 +72,14 @@ export default async function handler(
 
     if (error || !data || !data.data) {
       // Use defaults if CMS config is missing
-      config = getDefaultAssessmentConfig(type as 'gut-check', versionNum);
+      config = getDefaultAssessmentConfig(type, versionNum);
     } else {
       // Validate data
       const validationResult = assessmentConfigSchema.safeParse(data.data);
       if (!validationResult.success) {
         // Use defaults if validation fails
         console.warn(`[Config API] Invalid ${configKey} data, using defaults:`, validationResult.error);
-        config = getDefaultAssessmentConfig(type as 'gut-check', versionNum);
+        config = getDefaultAssessmentConfig(type, versionNum);
       } else {
         config = validationResult.data;
       }
@@ -96,7 +96,7 @@ export default async function handler(
   } catch (error) {
     console.error('[Config API] Error:', error);
     // Return defaults on error
-    const config = getDefaultAssessmentConfig(type as 'gut-check', versionNum);
+    const config = getDefaultAssessmentConfig(type, versionNum);
     return res.status(200).json({
       success: true,
       config,
@@ -0,0 +1,46 @@
+/**
+ * API Route: Evaluate outbox alert rules
+ *
+ * GET|POST /api/outbox/alerts
+ *
+ * Checks every enabled outbox alert rule against webhook_outbox, opens or resolves incidents
+ * and sends their notifications (lib/outbox/alertEvaluator.ts).
+ * Invoked by Vercel Cron (vercel.json) with `Authorization: Bearer ${CRON_SECRET}`;
+ * admins can also trigger a run ("Evaluate now" on /admin/outbox-alerts).
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireRoleFromApi } from '@/lib/authServer';
+import { hasCronSecret } from '@/lib/outbox/cronAuth';
+import { evaluateOutboxAlerts, type AlertEvaluationSummary } from '@/lib/outbox/alertEvaluator';
+
+interface AlertsResponse {
+  success: boolean;
+  summary?: AlertEvaluationSummary;
+  error?: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<AlertsResponse>
+) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  if (!hasCronSecret(req)) {
+    const user = await requireRoleFromApi(req, res, ['admin']);
+    if (!user) return;
+  }
+
+  try {
+    const summary = await evaluateOutboxAlerts();
+    return res.status(200).json({ success: true, summary });
+  } catch (error) {
+    console.error('Outbox alert evaluation error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+  }
+}
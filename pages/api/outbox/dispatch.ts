@@ -0,0 +1,54 @@
+/**
+ * API Route: Dispatch webhook_outbox
+ *
+ * GET|POST /api/outbox/dispatch
+ *
+ * Claims due webhook_outbox rows and delivers them, retrying failures with exponential
+ * backoff and dead-lettering rows that run out of attempts (lib/outbox/dispatcher.ts).
+ * Invoked by Vercel Cron (vercel.json) with `Authorization: Bearer ${CRON_SECRET}`;
+ * admins can also trigger a run. Safe to run concurrently.
+ *
+ * Query/body: { limit?: number } (max 100)
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireRoleFromApi } from '@/lib/authServer';
+import { hasCronSecret } from '@/lib/outbox/cronAuth';
+import { dispatchOutbox, DEFAULT_BATCH_SIZE, type DispatchSummary } from '@/lib/outbox/dispatcher';
+
+const MAX_BATCH_SIZE = 100;
+
+interface DispatchResponse {
+  success: boolean;
+  summary?: DispatchSummary;
+  error?: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<DispatchResponse>
+) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  if (!hasCronSecret(req)) {
+    const user = await requireRoleFromApi(req, res, ['admin']);
+    if (!user) return;
+  }
+
+  const rawLimit = req.method === 'POST' ? req.body?.limit : req.query.limit;
+  const parsedLimit = parseInt(String(rawLimit ?? DEFAULT_BATCH_SIZE), 10);
+  const limit = Math.min(Math.max(Number.isFinite(parsedLimit) ? parsedLimit : DEFAULT_BATCH_SIZE, 1), MAX_BATCH_SIZE);
+
+  try {
+    const summary = await dispatchOutbox({ limit });
+    return res.status(200).json({ success: true, summary });
+  } catch (error) {
+    console.error('Outbox dispatch error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+  }
+}
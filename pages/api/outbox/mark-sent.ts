@@ -5,10 +5,26 @@
  * 
  * Updates webhook_outbox row status to 'sent' or 'failed' after n8n execution.
  * Used by n8n workflow to mark webhook delivery success/failure.
+ *
+ * Requests must be HMAC-signed (lib/webhooks/signature.ts): X-FineDiet-Timestamp and
+ * X-FineDiet-Signature over the raw body. Unsigned, stale or forged requests get 401.
  */
 
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { supabaseAdmin } from '@/lib/supabaseServerClient';
+import {
+  getSigningSecrets,
+  getToleranceSeconds,
+  readRawBody,
+  verifySignature,
+} from '@/lib/webhooks/signature';
+
+// Signatures are computed over the raw body - parse JSON ourselves
+export const config = {
+  api: {
+    bodyParser: false,
+  },
+};
 
 interface MarkSentPayload {
   submissionId: string;
@@ -32,10 +48,32 @@ export default async function handler(
   }
 
   try {
-    const payload = req.body as MarkSentPayload;
+    const rawBody = await readRawBody(req);
+    const secrets = getSigningSecrets();
+
+    if (secrets.length === 0) {
+      // Fail closed: without a secret anyone could mark deliveries sent
+      console.error('[mark-sent] N8N_SIGNING_SECRET is not configured - rejecting callback');
+      return res.status(500).json({ success: false, error: 'Webhook signing is not configured' });
+    }
+
+    const verification = verifySignature(rawBody, req.headers, secrets, {
+      toleranceSeconds: getToleranceSeconds(),
+    });
+    if (!verification.ok) {
+      console.warn(`[mark-sent] Rejected callback: ${verification.reason}`);
+      return res.status(401).json({ success: false, error: verification.message });
+    }
+
+    let payload: MarkSentPayload;
+    try {
+      payload = JSON.parse(rawBody) as MarkSentPayload;
+    } catch {
+      return res.status(400).json({ success: false, error: 'Body must be valid JSON' });
+    }
 
     // Validate required fields
-    if (!payload.submissionId || !payload.status) {
+    if (!payload || !payload.submissionId || !payload.status) {
       return res.status(400).json({
         success: false,
         error: 'Missing required fields: submissionId, status',
@@ -5,6 +5,8 @@
  * 
  * Resolves question set using CMS-first approach with file fallback.
  * Preview mode is only honored for editors/admins; otherwise ignored.
+ * locale walks the fallback chain (es-MX → es → default); the response's `locale` is the
+ * locale actually served, so callers can tell when a translation fell back.
  */
 
 import type { NextApiRequest, NextApiResponse } from 'next';
@@ -21,6 +23,7 @@ interface ResolveResponse {
   publishedAt?: string;
   isPreview?: boolean;
   questionsRef?: QuestionSetRef;
+  locale?: string;
 }
 
 export default async function handler(
@@ -84,7 +87,7 @@ export default async function handler(
     // For preview requests (admin/editor), return cms_empty so admin UI can show empty state
     if (result.source === 'cms_empty' && !usePreview) {
       const { loadQuestionSet } = await import('@/lib/assessments/questions/loadQuestionSet');
-      const fileQuestionSet = loadQuestionSet({ assessmentType, assessmentVersion, locale: locale && typeof locale === 'string' ? locale : null });
+      const fileQuestionSet = loadQuestionSet({ assessmentType, assessmentVersion, locale: null });
       
       if (fileQuestionSet) {
         return res.status(200).json({
@@ -95,6 +98,7 @@ export default async function handler(
             source: 'file',
             resolvedAt: new Date().toISOString(),
           },
+          locale: result.locale,
         });
       } else {
         // No file fallback available
@@ -110,6 +114,7 @@ export default async function handler(
       return res.status(200).json({
         source: 'cms_empty',
         questionSetId: result.questionSetId,
+        locale: result.locale,
       });
     }
 
@@ -124,6 +129,7 @@ export default async function handler(
       publishedAt: result.publishedAt,
       isPreview: result.isPreview,
       questionsRef: result.questionSetRef,
+      locale: result.locale,
     });
   } catch (error) {
     console.error('[resolve question set] Error:', error);
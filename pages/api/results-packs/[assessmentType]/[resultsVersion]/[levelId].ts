@@ -40,6 +40,7 @@ export default async function handler(
       .eq('assessment_type', assessmentType)
       .eq('results_version', resultsVersion)
       .eq('level_id', levelId)
+      .is('locale', null) // Default locale (localized packs resolve via /api/results-packs/resolve)
       .maybeSingle();
 
     if (!pack) {
@@ -1,14 +1,18 @@
 /**
  * API Route: Resolve Results Pack
  * 
- * GET /api/results-packs/resolve?assessmentType=...&resultsVersion=...&levelId=...
+ * GET /api/results-packs/resolve?assessmentType=...&resultsVersion=...&levelId=...&locale=...&submissionId=...
  * 
  * Resolves results pack from CMS (with preview support) or file fallback.
+ * locale (e.g., the submission's pinned locale) walks the fallback chain es-MX → es → default.
+ * submissionId (optional) enrolls the submission's session in a running results pack
+ * experiment; new assignments are recorded in assessment_events ('results_variant_assigned').
  * Client-side endpoint for ResultsScreen component.
  */
 
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { resolveResultsPack } from '@/lib/assessments/results/resolveResultsPack';
+import { VARIANT_ASSIGNED_EVENT } from '@/lib/admin/assessments/experimentReport';
 
 interface ResolveResponse {
   success: boolean;
@@ -18,6 +22,7 @@ interface ResolveResponse {
   schemaVersion?: string;
   publishedAt?: string;
   resultsPackRef?: any;
+  locale?: string;
   error?: string;
 }
 
@@ -33,7 +38,9 @@ export default async function handler(
     const assessmentType = req.query.assessmentType as string;
     const resultsVersion = req.query.resultsVersion as string;
     const levelId = req.query.levelId as string;
+    const locale = typeof req.query.locale === 'string' ? req.query.locale : null;
     const preview = req.query.preview === '1' || req.query.preview === 'true';
+    const submissionId = typeof req.query.submissionId === 'string' ? req.query.submissionId : null;
     
     // Parse resultsPackRef from query (if provided)
     let resultsPackRef = null;
@@ -66,16 +73,55 @@ export default async function handler(
       // Not authenticated or error - default to 'user' (silent failure)
     }
 
+    // Experiment assignment is keyed by the submission's session (looked up server-side)
+    let submission: { session_id: string; assessment_version: number; primary_avatar: string } | null = null;
+    if (submissionId && !preview) {
+      const { supabaseAdmin } = await import('@/lib/supabaseServerClient');
+      const { data } = await supabaseAdmin
+        .from('assessment_submissions')
+        .select('session_id, assessment_version, primary_avatar')
+        .eq('id', submissionId)
+        .eq('assessment_type', assessmentType)
+        .maybeSingle();
+      submission = data;
+    }
+
     // Resolve pack
     const result = await resolveResultsPack({
       assessmentType,
       resultsVersion,
       levelId,
+      locale,
       preview,
       userRole,
       resultsPackRef: resultsPackRef || undefined,
+      sessionId: submission?.session_id,
     });
 
+    // Record new experiment assignments (pinned refs were recorded when first assigned)
+    const assignedRef = result.resultsPackRef;
+    if (submission && assignedRef?.experimentId && assignedRef !== resultsPackRef) {
+      const { supabaseAdmin } = await import('@/lib/supabaseServerClient');
+      const { error: eventError } = await supabaseAdmin.from('assessment_events').insert({
+        assessment_type: assessmentType,
+        assessment_version: submission.assessment_version,
+        session_id: submission.session_id,
+        event_name: VARIANT_ASSIGNED_EVENT,
+        primary_avatar: submission.primary_avatar,
+        properties: {
+          experimentId: assignedRef.experimentId,
+          variantId: assignedRef.campaignVariantId,
+          packId: assignedRef.packId,
+          revisionId: assignedRef.publishedRevisionId,
+          submissionId,
+        },
+      });
+      if (eventError) {
+        // Best-effort: the variant is still served and pinned
+        console.error('Error recording experiment assignment:', eventError);
+      }
+    }
+
     return res.status(200).json({
       success: true,
       pack: result.pack,
@@ -84,6 +130,7 @@ export default async function handler(
       schemaVersion: result.schemaVersion,
       publishedAt: result.publishedAt,
       resultsPackRef: result.resultsPackRef,
+      locale: result.locale,
     });
   } catch (error) {
     console.error('Resolve results pack error:', error);
@@ -0,0 +1,68 @@
+/**
+ * API Route: Publish scheduled site content
+ *
+ * GET|POST /api/site-content/publish-scheduled
+ *
+ * Publishes every due site content schedule (lib/siteContent/revisions.ts) and revalidates the
+ * pages that render each published key.
+ * Invoked by Vercel Cron (vercel.json) with `Authorization: Bearer ${CRON_SECRET}`;
+ * admins can also trigger a run. Each publish is recorded in the admin audit log (no actor when
+ * run by cron; the person who scheduled it is in the site_content.schedule entry).
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireRoleFromApi, type AuthenticatedUser } from '@/lib/authServer';
+import { hasCronSecret } from '@/lib/outbox/cronAuth';
+import { publishDueSiteContent, type ScheduledPublishResult } from '@/lib/siteContent/revisions';
+import { revalidateSiteContent } from '@/lib/siteContent/revalidate';
+import { recordAdminAudit } from '@/lib/admin/audit/recordAdminAudit';
+
+interface PublishScheduledResponse {
+  success: boolean;
+  results?: Array<Omit<ScheduledPublishResult, 'data'> & { revalidated?: string[] }>;
+  error?: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<PublishScheduledResponse>
+) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  let user: AuthenticatedUser | null = null;
+  if (!hasCronSecret(req)) {
+    user = await requireRoleFromApi(req, res, ['admin']);
+    if (!user) return;
+  }
+
+  try {
+    const published = await publishDueSiteContent();
+    const results: PublishScheduledResponse['results'] = [];
+    for (const result of published) {
+      const { data, ...summary } = result;
+      if (result.status === 'published') {
+        await recordAdminAudit(req, user, {
+          action: 'site_content.scheduled_publish',
+          targetType: 'site_content',
+          targetKey: result.key,
+          after: data,
+          metadata: { schedule_id: result.scheduleId, revision_id: result.revisionId },
+        });
+      }
+      results.push(
+        result.status === 'published'
+          ? { ...summary, revalidated: await revalidateSiteContent(res, result.key, data) }
+          : summary
+      );
+    }
+    return res.status(200).json({ success: true, results });
+  } catch (error) {
+    console.error('Scheduled site content publish error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Generic Assessment Page
+ *
+ * Route: /assessments/[assessmentType]
+ *
+ * Serves any assessment registered in lib/assessments/registry.ts.
+ * Assessments with a custom publicPath (e.g., gut-check → /gut-check) redirect there.
+ * Supports ?v= query parameter for version selection (default: registry defaultVersion)
+ * and ?lang= for the locale (default: Accept-Language).
+ */
+
+import React from 'react';
+import type { GetServerSideProps } from 'next';
+import { AssessmentPage, type AssessmentPageProps } from '@/components/assessments/AssessmentPage';
+import { parseVersionFromQuery } from '@/lib/assessments/questions/parseVersion';
+import { resolveAssessmentConfig } from '@/lib/assessments/questions/resolveAssessmentConfig';
+import { LOCALE_QUERY_PARAM, resolveRequestLocale } from '@/lib/i18n/locale';
+import { getAssessmentDefinition } from '@/lib/assessments/registry';
+
+export default function GenericAssessmentPage(props: AssessmentPageProps) {
+  return <AssessmentPage {...props} />;
+}
+
+export const getServerSideProps: GetServerSideProps<AssessmentPageProps> = async (context) => {
+  const assessmentType = String(context.params?.assessmentType || '');
+  const definition = getAssessmentDefinition(assessmentType);
+
+  if (!definition) {
+    return { notFound: true };
+  }
+
+  // Canonical route for assessments with a custom public path
+  if (definition.publicPath && definition.publicPath !== `/assessments/${assessmentType}`) {
+    const search = context.resolvedUrl.includes('?')
+      ? context.resolvedUrl.slice(context.resolvedUrl.indexOf('?'))
+      : '';
+    return {
+      redirect: {
+        destination: `${definition.publicPath}${search}`,
+        permanent: false,
+      },
+    };
+  }
+
+  const initialVersion = parseVersionFromQuery(context.query.v, definition.defaultVersion);
+  // Locale from ?lang= or Accept-Language (content falls back es-MX → es → en)
+  const locale = resolveRequestLocale({
+    queryLocale: context.query[LOCALE_QUERY_PARAM],
+    acceptLanguage: context.req.headers['accept-language'],
+  });
+  const resolved = await resolveAssessmentConfig(assessmentType, initialVersion, locale);
+
+  if (!resolved) {
+    return { notFound: true };
+  }
+
+  return {
+    props: {
+      assessmentType,
+      initialVersion,
+      config: resolved.config,
+    },
+  };
+};
@@ -0,0 +1,243 @@
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import { Button } from '@/components/ui/Button';
+import {
+  SUBSCRIPTION_TYPES,
+  SUBSCRIPTION_TYPE_LABELS,
+  type EmailPreferences,
+} from '@/lib/consent/preferences';
+
+interface PreferencesResponse {
+  ok?: boolean;
+  email?: string;
+  consentStatus?: string;
+  preferences?: EmailPreferences;
+  error?: string;
+}
+
+const LINK_ERRORS: Record<string, string> = {
+  expired: 'This confirmation link has expired. Sign up again to get a new one.',
+  invalid: 'This link is not valid. Use the most recent link from our emails.',
+  superseded: 'You unsubscribed after this link was sent. Sign up again to get a new one.',
+  server: 'Something went wrong. Please try again later.',
+};
+
+/**
+ * Email Preferences Page
+ *
+ * Reached from the signed manage link in our emails (and after confirming a subscription).
+ * Lets the recipient choose which emails they get, or unsubscribe from all of them, without
+ * logging in. The confirmation link lands here with ?confirm=; the subscription is only
+ * confirmed when the recipient presses the button, so link scanners cannot confirm it.
+ */
+export default function EmailPreferencesPage() {
+  const router = useRouter();
+  const token = typeof router.query.token === 'string' ? router.query.token : '';
+  const confirmToken = typeof router.query.confirm === 'string' ? router.query.confirm : '';
+  const linkError = typeof router.query.error === 'string' ? router.query.error : null;
+  const justConfirmed = router.query.confirmed === '1';
+  const fromUnsubscribeLink = router.query.unsubscribe === '1';
+
+  const [email, setEmail] = useState<string | null>(null);
+  const [preferences, setPreferences] = useState<EmailPreferences | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!router.isReady) return;
+    if (!token && confirmToken) {
+      setLoading(false);
+      return;
+    }
+    if (!token) {
+      setLoading(false);
+      setError(linkError ? LINK_ERRORS[linkError] || LINK_ERRORS.invalid : LINK_ERRORS.invalid);
+      return;
+    }
+
+    fetch(`/api/people/preferences?token=${encodeURIComponent(token)}`)
+      .then(async (response) => {
+        const data: PreferencesResponse = await response.json();
+        if (!response.ok || !data.preferences) {
+          throw new Error(data.error || 'Failed to load preferences');
+        }
+        setEmail(data.email || null);
+        setPreferences(data.preferences);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load preferences'))
+      .finally(() => setLoading(false));
+  }, [router.isReady, token, confirmToken, linkError]);
+
+  const handleConfirm = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/people/consent/confirm', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token: confirmToken }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.token) {
+        setError(LINK_ERRORS[data.code] || LINK_ERRORS.server);
+        return;
+      }
+      setLoading(true);
+      await router.replace({ pathname: router.pathname, query: { token: data.token, confirmed: '1' } });
+    } catch {
+      setError(LINK_ERRORS.server);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!preferences) return;
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/people/preferences', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, preferences }),
+      });
+      const data: PreferencesResponse = await response.json();
+      if (!response.ok || !data.preferences) {
+        throw new Error(data.error || 'Failed to save preferences');
+      }
+      setPreferences(data.preferences);
+      setMessage('Your preferences have been saved.');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save preferences');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUnsubscribeAll = async () => {
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/people/unsubscribe', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to unsubscribe');
+      }
+      setPreferences({ email_marketing: false, product_updates: false, program_waitlist: false });
+      setMessage("You've been unsubscribed from all Fine Diet marketing emails.");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unsubscribe');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Head>
+        <title>Email Preferences • Fine Diet</title>
+        <meta name="robots" content="noindex" />
+      </Head>
+      <div className="min-h-screen bg-brand-900 flex items-center justify-center p-6">
+        <div className="max-w-md w-full bg-neutral-900/95 backdrop-blur-lg rounded-2xl p-8 text-white">
+          <h1 className="text-2xl font-semibold antialiased mb-2">Email Preferences</h1>
+          <p className="text-sm text-white/70 antialiased mb-6">
+            {email ? `Choose which emails ${email} receives from Fine Diet.` : 'Choose which emails you receive from Fine Diet.'}
+          </p>
+
+          {justConfirmed && !error && (
+            <div className="bg-semantic-success/20 border border-semantic-success/50 rounded-xl p-4 mb-6">
+              <p className="text-sm text-white antialiased">Thanks! Your subscription is confirmed.</p>
+            </div>
+          )}
+
+          {fromUnsubscribeLink && preferences && !message && (
+            <div className="bg-neutral-800/50 border border-neutral-700 rounded-xl p-4 mb-6">
+              <p className="text-sm text-white antialiased">
+                Turn off the emails you no longer want, or unsubscribe from all of them below.
+              </p>
+            </div>
+          )}
+
+          {loading ? (
+            <p className="text-sm text-white/70 antialiased">Loading...</p>
+          ) : !token && confirmToken ? (
+            <div className="space-y-4">
+              <p className="text-sm text-white antialiased">Confirm that you want to receive emails from Fine Diet.</p>
+              {error && (
+                <div className="bg-semantic-error/20 border border-semantic-error/50 rounded-xl p-4">
+                  <p className="text-sm text-white antialiased">{error}</p>
+                </div>
+              )}
+              <Button type="button" variant="primary" size="lg" disabled={saving} className="w-full" onClick={handleConfirm}>
+                {saving ? 'Confirming...' : 'Confirm subscription'}
+              </Button>
+            </div>
+          ) : preferences ? (
+            <div className="space-y-4">
+              {SUBSCRIPTION_TYPES.map((type) => (
+                <label
+                  key={type}
+                  htmlFor={`preference-${type}`}
+                  className="flex items-start gap-3 p-4 bg-neutral-800/50 border border-neutral-700 rounded-xl cursor-pointer"
+                >
+                  <input
+                    type="checkbox"
+                    id={`preference-${type}`}
+                    checked={preferences[type]}
+                    onChange={(e) => setPreferences({ ...preferences, [type]: e.target.checked })}
+                    disabled={saving}
+                    className="mt-1 h-4 w-4"
+                  />
+                  <span>
+                    <span className="block text-sm font-semibold antialiased">{SUBSCRIPTION_TYPE_LABELS[type].title}</span>
+                    <span className="block text-sm text-white/70 antialiased">{SUBSCRIPTION_TYPE_LABELS[type].description}</span>
+                  </span>
+                </label>
+              ))}
+
+              {message && (
+                <div className="bg-semantic-success/20 border border-semantic-success/50 rounded-xl p-4">
+                  <p className="text-sm text-white antialiased">{message}</p>
+                </div>
+              )}
+
+              {error && (
+                <div className="bg-semantic-error/20 border border-semantic-error/50 rounded-xl p-4">
+                  <p className="text-sm text-white antialiased">{error}</p>
+                </div>
+              )}
+
+              <Button type="button" variant="primary" size="lg" disabled={saving} className="w-full" onClick={handleSave}>
+                {saving ? 'Saving...' : 'Save preferences'}
+              </Button>
+              <button
+                type="button"
+                onClick={handleUnsubscribeAll}
+                disabled={saving}
+                className="w-full text-sm text-white/70 hover:text-white/90 transition-colors antialiased disabled:opacity-50"
+              >
+                Unsubscribe from all
+              </button>
+            </div>
+          ) : (
+            error && (
+              <div className="bg-semantic-error/20 border border-semantic-error/50 rounded-xl p-4">
+                <p className="text-sm text-white antialiased">{error}</p>
+              </div>
+            )
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
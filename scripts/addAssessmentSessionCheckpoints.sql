@@ -0,0 +1,26 @@
+-- Add resumable checkpoints to assessment_sessions
+-- /api/assessments/session stores partial answers so an in-progress assessment can be resumed
+-- after a reload or on another device (logged-in users are matched by user_id).
+
+-- 1) Checkpoint payload
+--    { answers, currentQuestionIndex, questionSetFingerprint }
+--    NULL = nothing to resume (never checkpointed, discarded, or completed)
+ALTER TABLE public.assessment_sessions
+ADD COLUMN IF NOT EXISTS checkpoint JSONB;
+
+ALTER TABLE public.assessment_sessions
+ADD COLUMN IF NOT EXISTS checkpointed_at TIMESTAMPTZ;
+
+-- 2) Owner (set when the checkpoint was written by a logged-in user)
+ALTER TABLE public.assessment_sessions
+ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- 3) Cross-device lookup: latest checkpoint per user and assessment
+CREATE INDEX IF NOT EXISTS idx_assessment_sessions_user_checkpoint
+ON public.assessment_sessions (user_id, assessment_type, assessment_version, checkpointed_at DESC)
+WHERE checkpoint IS NOT NULL;
+
+-- 4) Comments
+COMMENT ON COLUMN public.assessment_sessions.checkpoint IS 'Partial answers for resuming: { answers, currentQuestionIndex, questionSetFingerprint }. Cleared on completion or when the user starts over.';
+COMMENT ON COLUMN public.assessment_sessions.checkpointed_at IS 'When the checkpoint was last written (checkpoints older than 30 days are not offered).';
+COMMENT ON COLUMN public.assessment_sessions.user_id IS 'Logged-in user who wrote the checkpoint (enables resuming on another device).';
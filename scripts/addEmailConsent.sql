@@ -0,0 +1,47 @@
+-- Double opt-in email consent and unsubscribe (lib/consent/emailConsent.ts)
+-- 1) people: consent state. email_marketing_opt_in is only set by the confirmation link
+--    (/api/people/consent/confirm), no longer directly by signups
+-- 2) people_events: consent event types, logged on every consent change
+-- Existing opted-in people are grandfathered as 'confirmed'.
+
+-- 1) Consent state
+ALTER TABLE public.people
+ADD COLUMN IF NOT EXISTS email_consent_status TEXT NOT NULL DEFAULT 'none',
+ADD COLUMN IF NOT EXISTS email_consent_requested_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS email_consent_confirmed_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS email_unsubscribed_at TIMESTAMPTZ;
+
+ALTER TABLE public.people DROP CONSTRAINT IF EXISTS check_people_email_consent_status;
+ALTER TABLE public.people
+ADD CONSTRAINT check_people_email_consent_status
+CHECK (email_consent_status IN ('none', 'pending', 'confirmed', 'unsubscribed'));
+
+UPDATE public.people
+SET email_consent_status = 'confirmed',
+    email_consent_confirmed_at = COALESCE(email_opt_in_at, created_at)
+WHERE email_marketing_opt_in = true
+  AND email_consent_status = 'none';
+
+-- New people start without marketing consent
+ALTER TABLE public.people ALTER COLUMN email_marketing_opt_in SET DEFAULT false;
+
+COMMENT ON COLUMN public.people.email_consent_status IS 'none | pending (confirmation email sent) | confirmed (double opt-in link clicked) | unsubscribed.';
+COMMENT ON COLUMN public.people.email_consent_requested_at IS 'When the latest confirmation email was requested (resends are throttled on this).';
+
+-- 2) Event types (keep in sync with EventType in lib/peopleService.ts)
+ALTER TABLE public.people_events DROP CONSTRAINT IF EXISTS people_events_event_type_check;
+ALTER TABLE public.people_events
+ADD CONSTRAINT people_events_event_type_check
+CHECK (event_type IN (
+  'newsletter_signup',
+  'waitlist_join',
+  'status_change',
+  'profile_update',
+  'email_sent',
+  'sms_sent',
+  'unsubscribed',
+  'consent_requested',
+  'consent_confirmed',
+  'subscription_preference',
+  'other'
+));
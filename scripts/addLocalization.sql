@@ -0,0 +1,40 @@
+-- Localized results packs and submission locale
+-- question_sets already has a locale column (NULL = default locale); this brings results packs
+-- in line and pins the locale a user took the assessment in on each submission.
+-- Resolution walks a fallback chain (es-MX → es → default), see lib/i18n/locale.ts.
+
+-- 1) Results pack locale (NULL = default locale, so existing packs keep working)
+ALTER TABLE public.results_packs
+ADD COLUMN IF NOT EXISTS locale TEXT;
+
+-- 2) Identity is now (assessment_type, results_version, level_id, locale)
+--    NULLS NOT DISTINCT keeps a single default-locale pack per level (Postgres 15+)
+ALTER TABLE public.results_packs
+DROP CONSTRAINT IF EXISTS results_packs_unique;
+
+DO $$ BEGIN
+  ALTER TABLE public.results_packs
+  ADD CONSTRAINT results_packs_unique
+  UNIQUE NULLS NOT DISTINCT (assessment_type, results_version, level_id, locale);
+EXCEPTION
+  WHEN duplicate_table THEN NULL;
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+-- 3) Slug includes the locale (mirrors question_sets.slug)
+ALTER TABLE public.results_packs DROP COLUMN IF EXISTS slug;
+ALTER TABLE public.results_packs
+ADD COLUMN slug TEXT GENERATED ALWAYS AS (
+  assessment_type || ':' || results_version || ':' || level_id || ':' || COALESCE(locale, 'default')
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_results_packs_slug ON public.results_packs (slug);
+
+-- 4) Submission locale (requested locale, e.g. 'es-MX'; NULL = default)
+--    Results pages, PDFs and emails resolve content for this locale
+ALTER TABLE public.assessment_submissions
+ADD COLUMN IF NOT EXISTS locale TEXT;
+
+-- 5) Comments
+COMMENT ON COLUMN public.results_packs.locale IS 'Locale of this pack (e.g. es, es-MX). NULL = default locale. Each locale has its own revisions and pointers.';
+COMMENT ON COLUMN public.assessment_submissions.locale IS 'Locale the user took the assessment in (from ?lang= or Accept-Language). NULL = default locale.';
@@ -0,0 +1,30 @@
+-- Add server-side scoring verification columns to assessment_submissions
+-- /api/assessments/submit recomputes scores from answers and stores the server result
+-- in score_map / primary_avatar / confidence_score. Both results are kept for auditing.
+
+-- 1) Client-sent and server-computed scoring snapshots
+--    { scoreMap, normalizedScoreMap, primaryAvatar, secondaryAvatar, confidenceScore, responses? }
+ALTER TABLE public.assessment_submissions
+ADD COLUMN IF NOT EXISTS client_scoring JSONB;
+
+ALTER TABLE public.assessment_submissions
+ADD COLUMN IF NOT EXISTS server_scoring JSONB;
+
+-- 2) Mismatch flag (NULL = not verified: rows created before this migration; submit rejects
+--    submissions it cannot rescore)
+ALTER TABLE public.assessment_submissions
+ADD COLUMN IF NOT EXISTS scoring_mismatch BOOLEAN;
+
+ALTER TABLE public.assessment_submissions
+ADD COLUMN IF NOT EXISTS scoring_mismatch_fields TEXT[];
+
+-- 3) Partial index for reviewing flagged submissions
+CREATE INDEX IF NOT EXISTS idx_assessment_submissions_scoring_mismatch
+ON public.assessment_submissions (created_at DESC)
+WHERE scoring_mismatch = true;
+
+-- 4) Comments
+COMMENT ON COLUMN public.assessment_submissions.client_scoring IS 'Scoring result sent by the browser (untrusted, kept for tamper detection).';
+COMMENT ON COLUMN public.assessment_submissions.server_scoring IS 'Scoring result recomputed server-side from answers (authoritative; copied into score_map/primary_avatar/confidence_score).';
+COMMENT ON COLUMN public.assessment_submissions.scoring_mismatch IS 'True if client_scoring differs from server_scoring; NULL if the submission was not verified.';
+COMMENT ON COLUMN public.assessment_submissions.scoring_mismatch_fields IS 'Fields that differed between client and server scoring (e.g. primaryAvatar, confidenceScore).';
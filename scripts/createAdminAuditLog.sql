@@ -0,0 +1,55 @@
+-- Admin Audit Log
+-- Run this in Supabase Dashboard → SQL Editor
+--
+-- One row per successful write through an admin API (lib/admin/audit): actor, action,
+-- target, JSON before/after and client IP. Written and read only through the service role
+-- (/admin/audit, CSV export). Rows are never updated.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+CREATE TABLE IF NOT EXISTS public.admin_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_id UUID,
+  actor_email TEXT,
+  actor_role TEXT,
+  action TEXT NOT NULL,
+  target_type TEXT NOT NULL,
+  target_key TEXT,
+  before JSONB,
+  after JSONB,
+  metadata JSONB,
+  ip TEXT,
+  user_agent TEXT,
+  method TEXT,
+  path TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created
+ON public.admin_audit_log (created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_target
+ON public.admin_audit_log (target_type, target_key, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_actor
+ON public.admin_audit_log (actor_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_action
+ON public.admin_audit_log (action, created_at DESC);
+
+ALTER TABLE public.admin_audit_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service_role_manage_admin_audit_log" ON public.admin_audit_log;
+CREATE POLICY "service_role_manage_admin_audit_log"
+  ON public.admin_audit_log
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT ALL ON public.admin_audit_log TO service_role;
+
+COMMENT ON TABLE public.admin_audit_log IS 'Who changed what through the admin APIs; append-only.';
+COMMENT ON COLUMN public.admin_audit_log.target_key IS 'Row id, content key or slug of the changed target, by target_type.';
+COMMENT ON COLUMN public.admin_audit_log.before IS 'Target JSON before the change (secrets redacted; large documents replaced by {truncated, bytes}).';
+COMMENT ON COLUMN public.admin_audit_log.ip IS 'Client IP (first x-forwarded-for hop).';
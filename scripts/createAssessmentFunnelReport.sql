@@ -0,0 +1,149 @@
+-- Assessment funnel analytics (/admin/analytics/assessments)
+-- 1) Event context columns on assessment_events (filled by POST /api/assessments/events)
+-- 2) assessment_funnel_report(): server-side aggregation, called via supabaseAdmin.rpc()
+--
+-- Sessions are the unit: a session is in scope if it has any event in [from, to), and its
+-- filter dimensions are taken from any of its events (results-page events may lack them).
+
+-- 1) Event context
+ALTER TABLE public.assessment_events
+ADD COLUMN IF NOT EXISTS utm_source TEXT,
+ADD COLUMN IF NOT EXISTS device TEXT,
+ADD COLUMN IF NOT EXISTS question_set_revision_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_assessment_events_type_created
+ON public.assessment_events (assessment_type, created_at);
+
+COMMENT ON COLUMN public.assessment_events.utm_source IS 'utm_source of the landing URL the assessment was started from (NULL = none).';
+COMMENT ON COLUMN public.assessment_events.device IS 'mobile | desktop (from the user agent).';
+COMMENT ON COLUMN public.assessment_events.question_set_revision_id IS 'question_set_revisions.id served for the assessment (NULL = file/legacy config).';
+
+-- 2) Funnel report
+-- p_utm_source '(none)' matches sessions without a UTM source.
+CREATE OR REPLACE FUNCTION public.assessment_funnel_report(
+  p_assessment_type TEXT,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_utm_source TEXT DEFAULT NULL,
+  p_device TEXT DEFAULT NULL,
+  p_question_set_revision_id TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+AS $$
+  WITH scoped AS (
+    SELECT session_id, event_name, primary_avatar, properties, created_at,
+           utm_source, device, question_set_revision_id
+    FROM public.assessment_events
+    WHERE assessment_type = p_assessment_type
+      AND created_at >= p_from
+      AND created_at < p_to
+  ),
+  sessions AS (
+    SELECT session_id,
+           MAX(utm_source) AS utm_source,
+           MAX(device) AS device,
+           MAX(question_set_revision_id) AS question_set_revision_id,
+           BOOL_OR(event_name = 'assessment_started') AS started,
+           BOOL_OR(event_name = 'question_answered') AS answered,
+           BOOL_OR(event_name = 'assessment_completed') AS completed,
+           BOOL_OR(event_name = 'results_viewed') AS results_viewed,
+           BOOL_OR(event_name = 'results_scrolled') AS results_scrolled,
+           BOOL_OR(event_name = 'email_captured') AS email_captured,
+           BOOL_OR(event_name = 'method_vsl_clicked') AS method_clicked
+    FROM scoped
+    GROUP BY session_id
+  ),
+  filtered AS (
+    SELECT *
+    FROM sessions
+    WHERE (p_utm_source IS NULL OR COALESCE(utm_source, '(none)') = p_utm_source)
+      AND (p_device IS NULL OR device = p_device)
+      AND (p_question_set_revision_id IS NULL OR question_set_revision_id = p_question_set_revision_id)
+  ),
+  answers AS (
+    SELECT e.session_id,
+           e.properties->>'questionId' AS question_id,
+           (e.properties->>'questionIndex')::INTEGER AS question_index
+    FROM scoped e
+    JOIN filtered f USING (session_id)
+    WHERE e.event_name = 'question_answered'
+      AND e.properties ? 'questionId'
+  ),
+  -- Last question answered by sessions that never completed = where they dropped off
+  exits AS (
+    SELECT question_id, COUNT(*) AS exits
+    FROM (
+      SELECT DISTINCT ON (a.session_id) a.session_id, a.question_id
+      FROM answers a
+      JOIN filtered f USING (session_id)
+      WHERE NOT f.completed
+      ORDER BY a.session_id, a.question_index DESC
+    ) last_answers
+    GROUP BY question_id
+  ),
+  questions AS (
+    SELECT question_id, MIN(question_index) AS question_index, COUNT(DISTINCT session_id) AS answered
+    FROM answers
+    GROUP BY question_id
+  ),
+  levels AS (
+    SELECT (DATE_TRUNC('day', e.created_at))::DATE AS day,
+           e.primary_avatar AS level_id,
+           COUNT(DISTINCT e.session_id) AS sessions
+    FROM scoped e
+    JOIN filtered f USING (session_id)
+    WHERE e.event_name = 'assessment_completed'
+      AND e.primary_avatar IS NOT NULL
+    GROUP BY 1, 2
+  )
+  SELECT JSONB_BUILD_OBJECT(
+    'funnel', (
+      SELECT JSONB_BUILD_OBJECT(
+        'sessions', COUNT(*),
+        'started', COUNT(*) FILTER (WHERE started),
+        'answered', COUNT(*) FILTER (WHERE answered),
+        'completed', COUNT(*) FILTER (WHERE completed),
+        'resultsViewed', COUNT(*) FILTER (WHERE results_viewed),
+        'resultsScrolled', COUNT(*) FILTER (WHERE results_scrolled),
+        'emailCaptured', COUNT(*) FILTER (WHERE email_captured),
+        'methodClicked', COUNT(*) FILTER (WHERE method_clicked)
+      )
+      FROM filtered
+    ),
+    'questions', COALESCE((
+      SELECT JSONB_AGG(
+        JSONB_BUILD_OBJECT(
+          'questionId', q.question_id,
+          'questionIndex', q.question_index,
+          'answered', q.answered,
+          'exits', COALESCE(x.exits, 0)
+        )
+        ORDER BY q.question_index, q.question_id
+      )
+      FROM questions q
+      LEFT JOIN exits x USING (question_id)
+    ), '[]'::JSONB),
+    'levels', COALESCE((
+      SELECT JSONB_AGG(
+        JSONB_BUILD_OBJECT('day', day, 'levelId', level_id, 'sessions', sessions)
+        ORDER BY day, level_id
+      )
+      FROM levels
+    ), '[]'::JSONB),
+    'filterOptions', JSONB_BUILD_OBJECT(
+      'utmSources', (SELECT COALESCE(JSONB_AGG(DISTINCT COALESCE(utm_source, '(none)')), '[]'::JSONB) FROM sessions),
+      'devices', (SELECT COALESCE(JSONB_AGG(DISTINCT device) FILTER (WHERE device IS NOT NULL), '[]'::JSONB) FROM sessions),
+      'questionSetRevisionIds', (
+        SELECT COALESCE(JSONB_AGG(DISTINCT question_set_revision_id) FILTER (WHERE question_set_revision_id IS NOT NULL), '[]'::JSONB)
+        FROM sessions
+      )
+    )
+  );
+$$;
+
+-- Admin API only (service role)
+REVOKE ALL ON FUNCTION public.assessment_funnel_report(TEXT, TIMESTAMPTZ, TIMESTAMPTZ, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.assessment_funnel_report(TEXT, TIMESTAMPTZ, TIMESTAMPTZ, TEXT, TEXT, TEXT) IS 'Funnel, per-question drop-off and daily level distribution for /admin/analytics/assessments. Session-level, filterable by UTM source, device and question set revision.';
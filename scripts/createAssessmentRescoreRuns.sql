@@ -0,0 +1,26 @@
+-- Audit trail for bulk rescoring of assessment submissions
+-- Written by POST /api/admin/assessments/rescore (apply=true).
+-- Each updated submission also gets a metadata.rescoreHistory entry referencing the run id.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+CREATE TABLE IF NOT EXISTS public.assessment_rescore_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_id UUID,
+  assessment_type TEXT NOT NULL,
+  assessment_version INTEGER NOT NULL,
+  thresholds JSONB NOT NULL,          -- Candidate thresholds used for the run
+  previous_thresholds JSONB,          -- CMS thresholds at the time of the run
+  filters JSONB,                      -- { from, to } created_at filters
+  summary JSONB NOT NULL,             -- { total, rescored, skipped, levelChanged, changed, matrix }
+  changes JSONB NOT NULL,             -- [{ id, fromLevel, toLevel, fromConfidenceScore, toConfidenceScore, ... }]
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_assessment_rescore_runs_created
+ON public.assessment_rescore_runs (assessment_type, assessment_version, created_at DESC);
+
+-- Service role only (admin API uses supabaseAdmin)
+ALTER TABLE public.assessment_rescore_runs ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.assessment_rescore_runs IS 'Audit trail of bulk rescore runs (who, which thresholds, level-migration matrix, changed submissions).';
@@ -0,0 +1,92 @@
+-- Outbox alerting (/admin/outbox-alerts, POST /api/outbox/alerts)
+-- 1) outbox_alert_rules: admin-defined thresholds on webhook_outbox delivery
+-- 2) outbox_alerts: one row per incident (firing -> resolved), which de-duplicates notifications
+-- Requires scripts/createWebhookDestinations.sql (rules may be scoped to a destination target).
+--
+-- Rule types (threshold unit):
+--   failure_rate  - failed + dead-lettered share of deliveries created in the window (percent)
+--   stale_pending - oldest row still waiting for delivery (minutes)
+--   zero_sends    - no row sent within the window (threshold unused; window_minutes is the window)
+
+-- 1) Rules
+CREATE TABLE IF NOT EXISTS public.outbox_alert_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  rule_type TEXT NOT NULL,
+  threshold NUMERIC NOT NULL DEFAULT 0,
+  window_minutes INTEGER NOT NULL DEFAULT 60,
+  min_deliveries INTEGER NOT NULL DEFAULT 5,
+  target TEXT,
+  channel TEXT NOT NULL,
+  channel_target TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT check_outbox_alert_rules_type CHECK (rule_type IN ('failure_rate', 'stale_pending', 'zero_sends')),
+  CONSTRAINT check_outbox_alert_rules_channel CHECK (channel IN ('email', 'webhook')),
+  CONSTRAINT check_outbox_alert_rules_window CHECK (window_minutes > 0)
+);
+
+ALTER TABLE public.outbox_alert_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service_role_manage_outbox_alert_rules" ON public.outbox_alert_rules;
+CREATE POLICY "service_role_manage_outbox_alert_rules"
+  ON public.outbox_alert_rules
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT ALL ON public.outbox_alert_rules TO service_role;
+
+COMMENT ON TABLE public.outbox_alert_rules IS 'Alert thresholds on webhook_outbox delivery, evaluated by POST /api/outbox/alerts (lib/outbox/alertRules.ts).';
+COMMENT ON COLUMN public.outbox_alert_rules.threshold IS 'failure_rate: percent; stale_pending: minutes; zero_sends: unused.';
+COMMENT ON COLUMN public.outbox_alert_rules.min_deliveries IS 'failure_rate only: fewer deliveries in the window never fire (avoids 1 of 1 = 100%).';
+COMMENT ON COLUMN public.outbox_alert_rules.target IS 'Only consider rows for this outbox target (e.g. n8n_email_capture, destination:crm); NULL = all.';
+COMMENT ON COLUMN public.outbox_alert_rules.channel_target IS 'Email address (channel email) or URL (channel webhook).';
+
+-- 2) Incidents
+CREATE TABLE IF NOT EXISTS public.outbox_alerts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rule_id UUID NOT NULL REFERENCES public.outbox_alert_rules(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'firing',
+  value NUMERIC,
+  message TEXT NOT NULL,
+  fired_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_evaluated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  resolved_at TIMESTAMPTZ,
+  notified_at TIMESTAMPTZ,
+  resolved_notified_at TIMESTAMPTZ,
+  notification_error TEXT,
+  CONSTRAINT check_outbox_alerts_status CHECK (status IN ('firing', 'resolved'))
+);
+
+-- At most one open incident per rule: concurrent evaluations cannot notify twice
+CREATE UNIQUE INDEX IF NOT EXISTS outbox_alerts_one_firing_per_rule
+ON public.outbox_alerts (rule_id)
+WHERE status = 'firing';
+
+CREATE INDEX IF NOT EXISTS idx_outbox_alerts_fired
+ON public.outbox_alerts (fired_at DESC);
+
+ALTER TABLE public.outbox_alerts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service_role_manage_outbox_alerts" ON public.outbox_alerts;
+CREATE POLICY "service_role_manage_outbox_alerts"
+  ON public.outbox_alerts
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT ALL ON public.outbox_alerts TO service_role;
+
+COMMENT ON TABLE public.outbox_alerts IS 'Outbox alert incidents. A rule notifies once when it starts firing and once when it resolves.';
+COMMENT ON COLUMN public.outbox_alerts.notified_at IS 'Firing notification delivered; NULL means it is retried on the next evaluation.';
+COMMENT ON COLUMN public.outbox_alerts.resolved_notified_at IS 'Resolved notification delivered; NULL on a resolved alert means it is retried.';
+
+-- Recent sends (zero_sends rules)
+CREATE INDEX IF NOT EXISTS idx_webhook_outbox_sent_at
+ON public.webhook_outbox (sent_at)
+WHERE status = 'sent';
@@ -0,0 +1,45 @@
+-- Published Pointer History (question sets, results packs)
+-- Run this in Supabase Dashboard → SQL Editor
+--
+-- One row per change of question_set_pointers.published_revision_id or
+-- results_pack_pointers.published_revision_id: publish, rollback or archive, with who,
+-- when and why. The rollback endpoint reads it to find the previously published revision.
+-- Accessed only through the service role.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+CREATE TABLE IF NOT EXISTS public.published_pointer_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_type TEXT NOT NULL,
+  entity_id UUID NOT NULL,
+  action TEXT NOT NULL,
+  from_revision_id UUID,
+  to_revision_id UUID,
+  reason TEXT,
+  review_id UUID,
+  actor_id UUID,
+  actor_email TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT check_published_pointer_history_entity_type CHECK (entity_type IN ('question_set', 'results_pack')),
+  CONSTRAINT check_published_pointer_history_action CHECK (action IN ('publish', 'rollback', 'archive'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_published_pointer_history_entity
+ON public.published_pointer_history (entity_type, entity_id, created_at DESC);
+
+ALTER TABLE public.published_pointer_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service_role_manage_published_pointer_history" ON public.published_pointer_history;
+CREATE POLICY "service_role_manage_published_pointer_history"
+  ON public.published_pointer_history
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT ALL ON public.published_pointer_history TO service_role;
+
+COMMENT ON TABLE public.published_pointer_history IS 'Changes of the published revision pointer of a question set or results pack, newest last.';
+COMMENT ON COLUMN public.published_pointer_history.entity_id IS 'question_sets.id or results_packs.id, by entity_type.';
+COMMENT ON COLUMN public.published_pointer_history.to_revision_id IS 'Published revision after the change; NULL when archived.';
+COMMENT ON COLUMN public.published_pointer_history.review_id IS 'publish_reviews.id that approved a publish; NULL for rollbacks and archives.';
@@ -0,0 +1,62 @@
+-- Data subject requests (GDPR / CCPA access and erasure)
+-- 1) privacy_requests: compliance log of every export and erasure (admin or self-service)
+-- 2) email_tombstones: hashes of erased emails, kept until the person explicitly opts in to SMS
+--    again (upsertPerson, lib/privacy/dataSubject.ts)
+-- Neither table stores the email itself, only its SHA-256 (lib/privacy/subjectData.ts hashEmail).
+
+-- 1) Compliance log
+CREATE TABLE IF NOT EXISTS public.privacy_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_type TEXT NOT NULL,
+  requested_via TEXT NOT NULL,
+  subject_email_hash TEXT,
+  subject_user_id UUID,
+  actor_id UUID,
+  status TEXT NOT NULL DEFAULT 'completed',
+  summary JSONB NOT NULL DEFAULT '{}'::jsonb,
+  error_message TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT check_privacy_requests_type CHECK (request_type IN ('export', 'erasure')),
+  CONSTRAINT check_privacy_requests_via CHECK (requested_via IN ('admin', 'self_service')),
+  CONSTRAINT check_privacy_requests_status CHECK (status IN ('completed', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_privacy_requests_created ON public.privacy_requests(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_privacy_requests_subject ON public.privacy_requests(subject_email_hash);
+
+ALTER TABLE public.privacy_requests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service_role_manage_privacy_requests" ON public.privacy_requests;
+CREATE POLICY "service_role_manage_privacy_requests"
+  ON public.privacy_requests
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT ALL ON public.privacy_requests TO service_role;
+
+COMMENT ON TABLE public.privacy_requests IS 'Compliance log of data subject exports and erasures. Keep for the retention period required by GDPR Art. 30 / CCPA.';
+COMMENT ON COLUMN public.privacy_requests.subject_email_hash IS 'SHA-256 of the lowercased email; the email itself is not retained after erasure.';
+COMMENT ON COLUMN public.privacy_requests.summary IS 'Rows exported or erased/pseudonymized per table.';
+
+-- 2) Tombstones
+CREATE TABLE IF NOT EXISTS public.email_tombstones (
+  email_hash TEXT PRIMARY KEY,
+  privacy_request_id UUID REFERENCES public.privacy_requests(id) ON DELETE SET NULL,
+  erased_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.email_tombstones ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service_role_manage_email_tombstones" ON public.email_tombstones;
+CREATE POLICY "service_role_manage_email_tombstones"
+  ON public.email_tombstones
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT ALL ON public.email_tombstones TO service_role;
+
+COMMENT ON TABLE public.email_tombstones IS 'Erased emails (SHA-256). Removed when the person explicitly opts in to SMS again; email consent always needs the double opt-in.';
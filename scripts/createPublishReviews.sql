@@ -0,0 +1,87 @@
+-- Publish Reviews (two-person approval for question sets and results packs)
+-- Run this in Supabase Dashboard → SQL Editor
+--
+-- A revision is published only after a different user approves it:
+-- draft → in_review → approved → published. Requesting changes or withdrawing closes the
+-- review (the revision is a draft again). Accessed only through the service role.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+-- 1) Review requests
+CREATE TABLE IF NOT EXISTS public.publish_reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_type TEXT NOT NULL,
+  entity_id UUID NOT NULL,
+  revision_id UUID NOT NULL,
+  revision_number INTEGER,
+  status TEXT NOT NULL DEFAULT 'in_review',
+  required_approvals INTEGER NOT NULL DEFAULT 1,
+  requested_by UUID,
+  requested_by_email TEXT,
+  revision_created_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  published_at TIMESTAMPTZ,
+  published_by UUID,
+  CONSTRAINT check_publish_reviews_entity_type CHECK (entity_type IN ('question_set', 'results_pack')),
+  CONSTRAINT check_publish_reviews_status CHECK (status IN ('in_review', 'approved', 'changes_requested', 'withdrawn', 'published')),
+  CONSTRAINT check_publish_reviews_required_approvals CHECK (required_approvals BETWEEN 1 AND 3)
+);
+
+-- One open review per revision
+CREATE UNIQUE INDEX IF NOT EXISTS idx_publish_reviews_open_revision
+ON public.publish_reviews (revision_id)
+WHERE status IN ('in_review', 'approved');
+
+CREATE INDEX IF NOT EXISTS idx_publish_reviews_entity
+ON public.publish_reviews (entity_type, entity_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_publish_reviews_open
+ON public.publish_reviews (created_at)
+WHERE status IN ('in_review', 'approved');
+
+ALTER TABLE public.publish_reviews ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service_role_manage_publish_reviews" ON public.publish_reviews;
+CREATE POLICY "service_role_manage_publish_reviews"
+  ON public.publish_reviews
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT ALL ON public.publish_reviews TO service_role;
+
+COMMENT ON TABLE public.publish_reviews IS 'Publish approval request for a question set or results pack revision; the publish endpoints require an approved one.';
+COMMENT ON COLUMN public.publish_reviews.entity_id IS 'question_sets.id or results_packs.id, by entity_type.';
+COMMENT ON COLUMN public.publish_reviews.revision_created_by IS 'Revision author at request time; like the requester, cannot approve.';
+
+-- 2) Review timeline
+CREATE TABLE IF NOT EXISTS public.publish_review_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  review_id UUID NOT NULL REFERENCES public.publish_reviews(id) ON DELETE CASCADE,
+  actor_id UUID,
+  actor_email TEXT,
+  kind TEXT NOT NULL,
+  body TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT check_publish_review_events_kind CHECK (kind IN ('submitted', 'comment', 'approved', 'changes_requested', 'withdrawn', 'published'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_publish_review_events_review
+ON public.publish_review_events (review_id, created_at);
+
+ALTER TABLE public.publish_review_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service_role_manage_publish_review_events" ON public.publish_review_events;
+CREATE POLICY "service_role_manage_publish_review_events"
+  ON public.publish_review_events
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT ALL ON public.publish_review_events TO service_role;
+
+COMMENT ON TABLE public.publish_review_events IS 'Reviewer comments and decisions on a publish review, in order.';
+COMMENT ON COLUMN public.publish_review_events.body IS 'Comment text; required for changes_requested.';
@@ -0,0 +1,40 @@
+-- A/B experiments on results packs
+-- An experiment splits traffic for one results pack (level + locale) between variants,
+-- each serving a results_pack_revisions row (revision_id NULL = the published revision).
+-- Sessions are assigned deterministically (see lib/assessments/results/experimentAssignment.ts);
+-- the variant is pinned in submission.metadata.resultsPackRef and each assignment is
+-- recorded as an assessment_events row (event_name 'results_variant_assigned').
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+CREATE TABLE IF NOT EXISTS public.results_pack_experiments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pack_id UUID NOT NULL REFERENCES public.results_packs(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'running', 'stopped')),
+  variants JSONB NOT NULL,            -- [{ variantId, revisionId, weight }], first = control
+  created_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  started_at TIMESTAMPTZ,
+  stopped_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_results_pack_experiments_pack
+ON public.results_pack_experiments (pack_id, created_at DESC);
+
+-- At most one running experiment per pack
+CREATE UNIQUE INDEX IF NOT EXISTS idx_results_pack_experiments_one_running
+ON public.results_pack_experiments (pack_id)
+WHERE status = 'running';
+
+-- Report lookups: assignments by experiment
+CREATE INDEX IF NOT EXISTS idx_assessment_events_experiment
+ON public.assessment_events ((properties->>'experimentId'))
+WHERE event_name = 'results_variant_assigned';
+
+-- Service role only (admin API and resolver use supabaseAdmin)
+ALTER TABLE public.results_pack_experiments ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.results_pack_experiments IS 'A/B experiments on a results pack: weighted variants, each serving a revision. One running experiment per pack.';
+COMMENT ON COLUMN public.results_pack_experiments.variants IS 'JSON array [{ variantId, revisionId (NULL = published revision), weight }]. The first variant is the control in reports.';
@@ -0,0 +1,15 @@
+-- Results PDF cache (lib/pdf/resultsPdf.ts)
+-- Private Storage bucket for rendered results PDFs, keyed
+-- <submission_id>/<hash of pack content hash, logo and renderer version>.pdf.
+-- Only the service role reads and writes it; downloads go through /api/assessments/results-pdf.
+-- Objects are safe to delete at any time - a miss re-renders and re-uploads.
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('results-pdfs', 'results-pdfs', false, 5242880, ARRAY['application/pdf'])
+ON CONFLICT (id) DO NOTHING;
+
+-- The service role bypasses RLS on storage.objects; no other policies are granted, so the
+-- bucket is not readable with the anon or authenticated keys.
+
+-- Optional: the PDF logo is a media asset tagged 'pdf-logo' (PNG or JPEG). Tag one with:
+-- UPDATE public.media_assets SET tags = tags || '["pdf-logo"]'::jsonb WHERE id = '<asset id>';
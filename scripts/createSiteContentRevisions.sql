@@ -0,0 +1,83 @@
+-- Site content revisions, drafts and scheduled publish (lib/siteContent/revisions.ts)
+-- 1) site_content_revisions: every save of a site_content key (navigation, home, product:x, seo:*, ...)
+-- 2) site_content.revision_id: which revision the draft / published row holds
+-- 3) site_content_schedules: publish a revision at a time (POST /api/site-content/publish-scheduled, cron)
+--
+-- site_content stays the live read path: the 'published' row is what the site renders and the
+-- 'draft' row is the editor's working copy. Rollback publishes an earlier revision.
+
+-- 1) Revisions (immutable)
+CREATE TABLE IF NOT EXISTS public.site_content_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  content_key TEXT NOT NULL,
+  revision_number INTEGER NOT NULL,
+  data JSONB NOT NULL,
+  content_hash TEXT NOT NULL,
+  change_summary TEXT,
+  created_by UUID,
+  created_by_email TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT site_content_revisions_unique_rev UNIQUE (content_key, revision_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_site_content_revisions_key_created
+ON public.site_content_revisions (content_key, created_at DESC);
+
+ALTER TABLE public.site_content_revisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service_role_manage_site_content_revisions" ON public.site_content_revisions;
+CREATE POLICY "service_role_manage_site_content_revisions"
+  ON public.site_content_revisions
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT ALL ON public.site_content_revisions TO service_role;
+
+COMMENT ON TABLE public.site_content_revisions IS 'Snapshot of a site_content key on every save (draft or publish); never updated.';
+COMMENT ON COLUMN public.site_content_revisions.content_key IS 'site_content key including locale suffix, e.g. home, home@es, product:metabolic-reset, seo:route:/shop.';
+COMMENT ON COLUMN public.site_content_revisions.created_by_email IS 'Author email at save time (profiles has no email).';
+
+-- 2) Revision held by each site_content row
+ALTER TABLE public.site_content
+ADD COLUMN IF NOT EXISTS revision_id UUID REFERENCES public.site_content_revisions(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.site_content.revision_id IS 'Revision this row holds; NULL for content saved before revisions existed.';
+
+-- 3) Scheduled publishes
+CREATE TABLE IF NOT EXISTS public.site_content_schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  content_key TEXT NOT NULL,
+  revision_id UUID NOT NULL REFERENCES public.site_content_revisions(id) ON DELETE CASCADE,
+  publish_at TIMESTAMPTZ NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  created_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  executed_at TIMESTAMPTZ,
+  error TEXT,
+  CONSTRAINT check_site_content_schedules_status CHECK (status IN ('pending', 'published', 'cancelled', 'failed'))
+);
+
+-- The cron scans due pending schedules
+CREATE INDEX IF NOT EXISTS idx_site_content_schedules_due
+ON public.site_content_schedules (publish_at)
+WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_site_content_schedules_key
+ON public.site_content_schedules (content_key, publish_at DESC);
+
+ALTER TABLE public.site_content_schedules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service_role_manage_site_content_schedules" ON public.site_content_schedules;
+CREATE POLICY "service_role_manage_site_content_schedules"
+  ON public.site_content_schedules
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT ALL ON public.site_content_schedules TO service_role;
+
+COMMENT ON TABLE public.site_content_schedules IS 'Publish a site content revision at publish_at; executed by the publish-scheduled cron, which also revalidates affected pages.';
+COMMENT ON COLUMN public.site_content_schedules.status IS 'pending -> published | failed (error set); cancelled by an editor before it runs.';
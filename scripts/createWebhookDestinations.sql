@@ -0,0 +1,76 @@
+-- Configurable webhook destinations (/admin/webhook-destinations)
+-- 1) webhook_destinations: admin-managed endpoints (CRM, Slack, warehouse ingest, ...) subscribed
+--    to event types, each with its own payload template, extra headers and signing secret
+-- 2) webhook_outbox: one delivery row per destination and event (target 'destination:<slug>')
+-- Requires scripts/createWebhookOutboxAttempts.sql.
+-- The built-in n8n rows (target 'n8n_email_capture') are unchanged.
+
+-- 1) Destinations
+CREATE TABLE IF NOT EXISTS public.webhook_destinations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  slug TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  url TEXT NOT NULL,
+  event_types TEXT[] NOT NULL DEFAULT '{}',
+  payload_template JSONB,
+  headers JSONB NOT NULL DEFAULT '{}'::jsonb,
+  signing_secret TEXT,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT check_webhook_destinations_slug CHECK (slug ~ '^[a-z0-9][a-z0-9-]{0,62}$'),
+  CONSTRAINT check_webhook_destinations_event_types CHECK (
+    event_types <@ ARRAY['submission_created', 'email_captured', 'waitlist_join', 'person_status_change']::TEXT[]
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_destinations_event_types
+ON public.webhook_destinations USING GIN (event_types);
+
+ALTER TABLE public.webhook_destinations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service_role_manage_webhook_destinations" ON public.webhook_destinations;
+CREATE POLICY "service_role_manage_webhook_destinations"
+  ON public.webhook_destinations
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT ALL ON public.webhook_destinations TO service_role;
+
+COMMENT ON TABLE public.webhook_destinations IS 'Admin-configured webhook endpoints; each enabled destination gets one webhook_outbox row per subscribed event.';
+COMMENT ON COLUMN public.webhook_destinations.slug IS 'Stable identifier; outbox rows use target ''destination:<slug>''. Not editable after creation.';
+COMMENT ON COLUMN public.webhook_destinations.payload_template IS 'JSON body with {{path}} placeholders resolved against the event envelope (lib/webhooks/destinations.ts). NULL sends the envelope as-is.';
+COMMENT ON COLUMN public.webhook_destinations.headers IS 'Extra request headers (e.g. an API key for the CRM). Service role only.';
+COMMENT ON COLUMN public.webhook_destinations.signing_secret IS 'HMAC secret for X-FineDiet-Signature on this destination; unsigned when NULL.';
+
+-- 2) Outbox rows for destinations
+-- Person events (waitlist_join, person_status_change) have no submission
+ALTER TABLE public.webhook_outbox ALTER COLUMN submission_id DROP NOT NULL;
+
+ALTER TABLE public.webhook_outbox
+ADD COLUMN IF NOT EXISTS destination_id UUID REFERENCES public.webhook_destinations(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS event_type TEXT,
+ADD COLUMN IF NOT EXISTS event_key TEXT;
+
+-- One row per destination and event (enqueue uses ON CONFLICT DO NOTHING on this)
+ALTER TABLE public.webhook_outbox DROP CONSTRAINT IF EXISTS webhook_outbox_destination_event_unique;
+ALTER TABLE public.webhook_outbox
+ADD CONSTRAINT webhook_outbox_destination_event_unique UNIQUE (destination_id, event_type, event_key);
+
+-- A submission can now have several rows per destination target (submission_created and
+-- email_captured), so the (submission_id, target) guarantee only covers built-in targets
+ALTER TABLE public.webhook_outbox DROP CONSTRAINT IF EXISTS webhook_outbox_submission_target_unique;
+CREATE UNIQUE INDEX IF NOT EXISTS webhook_outbox_submission_target_unique
+ON public.webhook_outbox (submission_id, target)
+WHERE destination_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_webhook_outbox_destination_created
+ON public.webhook_outbox (destination_id, created_at)
+WHERE destination_id IS NOT NULL;
+
+COMMENT ON COLUMN public.webhook_outbox.destination_id IS 'webhook_destinations row this delivery belongs to (NULL for built-in n8n targets). Deleting a destination deletes its deliveries.';
+COMMENT ON COLUMN public.webhook_outbox.event_type IS 'submission_created | email_captured | waitlist_join | person_status_change (destination rows).';
+COMMENT ON COLUMN public.webhook_outbox.event_key IS 'Idempotency key of the event within its type (e.g. the submission id).';
@@ -0,0 +1,44 @@
+-- Webhook outbox attempt history and manual actions (/admin/outbox)
+-- 1) webhook_outbox_attempts: one row per delivery attempt (written by lib/outbox/dispatcher.ts)
+-- 2) 'cancelled' status for rows an admin stopped from being retried
+-- Requires scripts/createWebhookOutboxDispatcher.sql.
+-- Manual replays/cancels are recorded in content_audit_log (entity_type 'webhook_outbox').
+
+-- 1) Attempt history
+CREATE TABLE IF NOT EXISTS public.webhook_outbox_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  outbox_id UUID NOT NULL REFERENCES public.webhook_outbox(id) ON DELETE CASCADE,
+  attempt_number INTEGER NOT NULL,
+  worker_id TEXT,
+  status_code INTEGER,
+  response_body TEXT,
+  error_message TEXT,
+  duration_ms INTEGER,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_outbox_attempts_outbox
+ON public.webhook_outbox_attempts (outbox_id, created_at);
+
+ALTER TABLE public.webhook_outbox_attempts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service_role_manage_webhook_outbox_attempts" ON public.webhook_outbox_attempts;
+CREATE POLICY "service_role_manage_webhook_outbox_attempts"
+  ON public.webhook_outbox_attempts
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT ALL ON public.webhook_outbox_attempts TO service_role;
+
+COMMENT ON TABLE public.webhook_outbox_attempts IS 'Delivery attempts per webhook_outbox row: HTTP status, truncated response body, error and duration.';
+COMMENT ON COLUMN public.webhook_outbox_attempts.attempt_number IS 'webhook_outbox.attempts after the claim (restarts at 1 after a manual replay).';
+
+-- 2) Cancelled status
+ALTER TABLE public.webhook_outbox DROP CONSTRAINT IF EXISTS check_webhook_outbox_status;
+ALTER TABLE public.webhook_outbox
+ADD CONSTRAINT check_webhook_outbox_status CHECK (status IN ('pending', 'sent', 'failed', 'dead_letter', 'cancelled'));
+
+CREATE INDEX IF NOT EXISTS idx_webhook_outbox_target_created
+ON public.webhook_outbox (target, created_at);
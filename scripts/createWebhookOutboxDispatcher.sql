@@ -0,0 +1,69 @@
+-- Durable webhook_outbox dispatcher (POST /api/outbox/dispatch, lib/outbox/dispatcher.ts)
+-- 1) Retry scheduling + lease columns, 'dead_letter' status
+-- 2) claim_webhook_outbox(): concurrency-safe claim of due rows
+--
+-- Status lifecycle:
+--   pending → sent
+--   pending → failed (retry scheduled at next_attempt_at) → ... → sent | dead_letter
+-- A claim takes a lease (locked_until); rows whose worker died are re-claimed once it expires.
+
+-- 1) Columns
+ALTER TABLE public.webhook_outbox
+ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+ADD COLUMN IF NOT EXISTS locked_until TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS locked_by TEXT,
+ADD COLUMN IF NOT EXISTS last_status_code INTEGER,
+ADD COLUMN IF NOT EXISTS dead_lettered_at TIMESTAMPTZ;
+
+ALTER TABLE public.webhook_outbox DROP CONSTRAINT IF EXISTS check_webhook_outbox_status;
+ALTER TABLE public.webhook_outbox
+ADD CONSTRAINT check_webhook_outbox_status CHECK (status IN ('pending', 'sent', 'failed', 'dead_letter'));
+
+CREATE INDEX IF NOT EXISTS idx_webhook_outbox_due
+ON public.webhook_outbox (next_attempt_at)
+WHERE status IN ('pending', 'failed');
+
+COMMENT ON COLUMN public.webhook_outbox.next_attempt_at IS 'Earliest time the dispatcher may (re)try this row (exponential backoff with jitter).';
+COMMENT ON COLUMN public.webhook_outbox.locked_until IS 'Dispatcher lease; the row is not claimable again until it expires.';
+COMMENT ON COLUMN public.webhook_outbox.locked_by IS 'Dispatcher run holding the lease; completion updates are guarded on it.';
+COMMENT ON COLUMN public.webhook_outbox.last_status_code IS 'HTTP status of the last delivery attempt (NULL = network error/timeout).';
+COMMENT ON COLUMN public.webhook_outbox.dead_lettered_at IS 'When the row ran out of attempts and stopped being retried.';
+
+-- 2) Claim
+-- Locks due rows with SKIP LOCKED so concurrent dispatchers never claim the same row,
+-- counts the attempt up front (a crashed worker still uses one) and returns the claimed rows.
+-- p_ids restricts the claim to specific rows (immediate dispatch after enqueue).
+CREATE OR REPLACE FUNCTION public.claim_webhook_outbox(
+  p_worker TEXT,
+  p_limit INTEGER DEFAULT 25,
+  p_lease_seconds INTEGER DEFAULT 60,
+  p_ids UUID[] DEFAULT NULL
+)
+RETURNS SETOF public.webhook_outbox
+LANGUAGE sql
+AS $$
+  WITH due AS (
+    SELECT id
+    FROM public.webhook_outbox
+    WHERE status IN ('pending', 'failed')
+      AND next_attempt_at <= NOW()
+      AND (locked_until IS NULL OR locked_until < NOW())
+      AND (p_ids IS NULL OR id = ANY (p_ids))
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE public.webhook_outbox o
+  SET locked_by = p_worker,
+      locked_until = NOW() + MAKE_INTERVAL(secs => p_lease_seconds),
+      attempts = o.attempts + 1,
+      last_attempt_at = NOW()
+  FROM due
+  WHERE o.id = due.id
+  RETURNING o.*;
+$$;
+
+-- Dispatcher only (service role)
+REVOKE ALL ON FUNCTION public.claim_webhook_outbox(TEXT, INTEGER, INTEGER, UUID[]) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.claim_webhook_outbox(TEXT, INTEGER, INTEGER, UUID[]) IS 'Claims due webhook_outbox rows for one dispatcher run (FOR UPDATE SKIP LOCKED + lease) and increments attempts.';